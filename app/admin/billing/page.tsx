@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Badge from "@/components/ui/Badge";
+import type { StripeEvent, StripeEventStatus } from "@/lib/types";
+
+type StatusFilter = StripeEventStatus | "all";
+
+type StripeEventRow = Omit<StripeEvent, "payload">;
+
+export default function AdminBillingPage() {
+  const [events, setEvents] = useState<StripeEventRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<StatusFilter>("failed");
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [replayErrors, setReplayErrors] = useState<Record<string, string>>({});
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/billing/events?status=${filter}&limit=100`);
+      if (res.ok) {
+        const data = await res.json();
+        setEvents(data.events ?? []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch Stripe events:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  async function handleReplay(eventId: string) {
+    setActionLoading(eventId);
+    setReplayErrors((prev) => {
+      const next = { ...prev };
+      delete next[eventId];
+      return next;
+    });
+    try {
+      const res = await fetch(`/api/admin/billing/events/${eventId}/replay`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        setReplayErrors((prev) => ({ ...prev, [eventId]: data.error ?? "Replay failed" }));
+      }
+      await fetchEvents();
+    } catch (err) {
+      console.error("Replay failed:", err);
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  const tabs: { label: string; value: StatusFilter }[] = [
+    { label: "Failed", value: "failed" },
+    { label: "Processing", value: "processing" },
+    { label: "Processed", value: "processed" },
+    { label: "Skipped", value: "skipped" },
+    { label: "All", value: "all" },
+  ];
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Billing Events</h1>
+        <p className="text-lg text-gray-600 mt-1">
+          Stripe webhook events and what they did to memberships. Replay events that failed.
+        </p>
+      </div>
+
+      {/* Filter tabs */}
+      <div className="flex gap-2 mb-6">
+        {tabs.map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => setFilter(tab.value)}
+            className={[
+              "px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+              filter === tab.value
+                ? "bg-primary-600 text-white"
+                : "bg-gray-100 text-gray-600 hover:bg-gray-200",
+            ].join(" ")}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-lg text-gray-500">Loading...</div>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-8 text-center">
+          <p className="text-gray-500">No events found.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+          {events.map((event) => {
+            const canReplay = event.status === "failed" || event.status === "processing";
+            return (
+              <div key={event.id} className="px-6 py-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-gray-900">{event.type}</p>
+                      <Badge variant={getStatusVariant(event.status)}>{event.status}</Badge>
+                    </div>
+                    <p className="text-sm text-gray-500 mt-0.5 font-mono truncate">
+                      {event.id}
+                      {event.customer_id && ` · ${event.customer_id}`}
+                    </p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      Created {formatDate(event.stripe_created_at)} &middot; received{" "}
+                      {formatDate(event.received_at)} &middot; {event.attempts}{" "}
+                      {event.attempts === 1 ? "attempt" : "attempts"}
+                    </p>
+                    {event.error && (
+                      <p className="text-sm text-red-600 mt-2">{event.error}</p>
+                    )}
+                    {event.skip_reason && (
+                      <p className="text-sm text-gray-600 mt-2">{event.skip_reason}</p>
+                    )}
+                    {replayErrors[event.id] && (
+                      <p className="text-sm text-red-600 mt-2">Replay: {replayErrors[event.id]}</p>
+                    )}
+                  </div>
+                  {canReplay && (
+                    <button
+                      onClick={() => handleReplay(event.id)}
+                      disabled={actionLoading === event.id}
+                      className="px-3 py-1.5 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors flex-shrink-0"
+                    >
+                      {actionLoading === event.id ? "Replaying..." : "Replay"}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function getStatusVariant(status: StripeEventStatus): "verified" | "pending" | "rejected" | "default" {
+  switch (status) {
+    case "processed":
+      return "verified";
+    case "processing":
+      return "pending";
+    case "failed":
+      return "rejected";
+    default:
+      return "default";
+  }
+}
@@ -0,0 +1,881 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
+import Badge from "@/components/ui/Badge";
+import { FORUM_REPORT_REASON_LABELS } from "@/lib/forum";
+import type { ForumContentStatus, ForumReportReason, ForumReportStatus } from "@/lib/types";
+
+type View = "reports" | "posts" | "experts" | "bans";
+type ReportFilter = ForumReportStatus | "all";
+type PostFilter = "all" | "pinned" | "locked" | "hidden";
+type PostAction = "hide" | "restore" | "lock" | "unlock" | "pin" | "unpin" | "dismiss";
+type CommentAction = "hide" | "restore" | "dismiss";
+
+interface AuthorRef {
+  id: string;
+  display_name: string;
+  account_id: string | null;
+}
+
+interface ReportedPost {
+  id: string;
+  slug: string;
+  title: string;
+  content: string;
+  status: ForumContentStatus;
+  is_anonymous: boolean;
+  is_locked: boolean;
+  is_pinned: boolean;
+  author: AuthorRef | null;
+}
+
+interface ReportedComment {
+  id: string;
+  content: string;
+  status: ForumContentStatus;
+  is_anonymous: boolean;
+  post: { id: string; slug: string; title: string; is_locked: boolean } | null;
+  author: AuthorRef | null;
+}
+
+interface ForumReportRow {
+  id: string;
+  reason: ForumReportReason;
+  details: string | null;
+  status: ForumReportStatus;
+  resolved_at: string | null;
+  created_at: string;
+  post: ReportedPost | null;
+  comment: ReportedComment | null;
+}
+
+interface ForumPostRow {
+  id: string;
+  slug: string;
+  title: string;
+  status: ForumContentStatus;
+  is_anonymous: boolean;
+  is_pinned: boolean;
+  is_locked: boolean;
+  like_count: number;
+  comment_count: number;
+  created_at: string;
+  author: AuthorRef | null;
+}
+
+interface ProfileRef {
+  id: string;
+  display_name: string;
+  type: string;
+  email: string | null;
+}
+
+interface ForumExpertRow {
+  profile_id: string;
+  credential: string;
+  created_at: string;
+  profile: ProfileRef | null;
+  verified_by_admin: { email: string } | null;
+}
+
+interface ForumBanRow {
+  account_id: string;
+  reason: string | null;
+  created_at: string;
+  account: { id: string; display_name: string | null } | null;
+  banned_by_admin: { email: string } | null;
+}
+
+export default function AdminCommunityPage() {
+  const [view, setView] = useState<View>("reports");
+
+  const views: { label: string; value: View }[] = [
+    { label: "Reports", value: "reports" },
+    { label: "Discussions", value: "posts" },
+    { label: "Experts", value: "experts" },
+    { label: "Banned", value: "bans" },
+  ];
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Community</h1>
+        <p className="text-lg text-gray-600 mt-1">
+          Handle reported posts and comments, pin and lock discussions, verify experts, and ban authors.
+        </p>
+      </div>
+
+      <div className="flex gap-6 border-b border-gray-200 mb-6">
+        {views.map((v) => (
+          <button
+            key={v.value}
+            onClick={() => setView(v.value)}
+            className={[
+              "pb-3 text-base font-medium border-b-2 -mb-px transition-colors",
+              view === v.value
+                ? "border-primary-600 text-primary-700"
+                : "border-transparent text-gray-500 hover:text-gray-700",
+            ].join(" ")}
+          >
+            {v.label}
+          </button>
+        ))}
+      </div>
+
+      {view === "reports" && <ReportsView />}
+      {view === "posts" && <PostsView />}
+      {view === "experts" && <ExpertsView />}
+      {view === "bans" && <BansView />}
+    </div>
+  );
+}
+
+// ============================================================
+// Shared
+// ============================================================
+
+async function moderatePost(postId: string, action: PostAction): Promise<boolean> {
+  const res = await fetch(`/api/admin/community/posts/${postId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action }),
+  });
+  return res.ok;
+}
+
+async function moderateComment(commentId: string, action: CommentAction): Promise<boolean> {
+  const res = await fetch(`/api/admin/community/comments/${commentId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action }),
+  });
+  return res.ok;
+}
+
+async function banAuthor(author: AuthorRef): Promise<boolean> {
+  if (!confirm(`Ban ${author.display_name} from posting and commenting in the community?`)) {
+    return false;
+  }
+
+  const res = await fetch("/api/admin/community/bans", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ profile_id: author.id }),
+  });
+  return res.ok;
+}
+
+function FilterTabs<T extends string>({
+  tabs,
+  value,
+  onChange,
+}: {
+  tabs: { label: string; value: T }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex gap-2 mb-6">
+      {tabs.map((tab) => (
+        <button
+          key={tab.value}
+          onClick={() => onChange(tab.value)}
+          className={[
+            "px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+            value === tab.value
+              ? "bg-primary-600 text-white"
+              : "bg-gray-100 text-gray-600 hover:bg-gray-200",
+          ].join(" ")}
+        >
+          {tab.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ActionButton({
+  onClick,
+  disabled,
+  tone = "neutral",
+  children,
+}: {
+  onClick: () => void;
+  disabled: boolean;
+  tone?: "neutral" | "danger" | "primary";
+  children: React.ReactNode;
+}) {
+  const tones = {
+    neutral: "bg-gray-100 text-gray-700 hover:bg-gray-200",
+    danger: "bg-red-600 text-white hover:bg-red-700",
+    primary: "bg-primary-600 text-white hover:bg-primary-700",
+  };
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`px-3 py-1.5 text-sm font-medium rounded-lg disabled:opacity-50 transition-colors ${tones[tone]}`}
+    >
+      {children}
+    </button>
+  );
+}
+
+function Loading() {
+  return (
+    <div className="flex items-center justify-center py-12">
+      <div className="text-lg text-gray-500">Loading...</div>
+    </div>
+  );
+}
+
+function Empty({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-8 text-center">
+      <p className="text-gray-500">{children}</p>
+    </div>
+  );
+}
+
+// ============================================================
+// Reports
+// ============================================================
+
+function ReportsView() {
+  const [reports, setReports] = useState<ForumReportRow[]>([]);
+  const [bannedAccountIds, setBannedAccountIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<ReportFilter>("open");
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const fetchReports = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/community?status=${filter}&limit=100`);
+      if (res.ok) {
+        const data = await res.json();
+        setReports(data.reports ?? []);
+        setBannedAccountIds(new Set(data.banned_account_ids ?? []));
+      }
+    } catch (err) {
+      console.error("Failed to fetch forum reports:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  async function run(reportId: string, action: () => Promise<boolean>) {
+    setActionLoading(reportId);
+    try {
+      // Other reports on the same content were resolved too
+      if (await action()) await fetchReports();
+    } catch (err) {
+      console.error("Action failed:", err);
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  const tabs: { label: string; value: ReportFilter }[] = [
+    { label: "Open", value: "open" },
+    { label: "Removed", value: "actioned" },
+    { label: "Dismissed", value: "dismissed" },
+    { label: "All", value: "all" },
+  ];
+
+  return (
+    <>
+      <FilterTabs tabs={tabs} value={filter} onChange={setFilter} />
+
+      {loading ? (
+        <Loading />
+      ) : reports.length === 0 ? (
+        <Empty>No reports found.</Empty>
+      ) : (
+        <div className="space-y-4">
+          {reports.map((report) => {
+            const { post, comment } = report;
+            const target = post ?? comment;
+            const thread = post ?? comment?.post ?? null;
+            const author = target?.author ?? null;
+            const isBanned = !!author?.account_id && bannedAccountIds.has(author.account_id);
+            const busy = actionLoading === report.id;
+
+            return (
+              <div key={report.id} className="bg-white rounded-xl border border-gray-200 p-6">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-500">
+                      {post ? "Discussion" : "Comment on"}{" "}
+                      {thread && (
+                        <Link
+                          href={`/community/post/${thread.slug}`}
+                          target="_blank"
+                          className="text-gray-900 hover:text-primary-700"
+                        >
+                          {thread.title}
+                        </Link>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      By {author?.display_name ?? "Unknown"}
+                      {target?.is_anonymous && " (posted anonymously)"}
+                      {isBanned && " · banned"}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {target && (
+                      <Badge variant={target.status === "published" ? "verified" : "rejected"}>
+                        {target.status}
+                      </Badge>
+                    )}
+                    <Badge variant={getReportVariant(report.status)}>{report.status}</Badge>
+                  </div>
+                </div>
+
+                {target && (
+                  <p className="text-sm text-gray-700 whitespace-pre-line line-clamp-6 mb-4">
+                    {target.content}
+                  </p>
+                )}
+
+                <div className="border-t border-gray-100 pt-4 flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm text-gray-900">
+                      <span className="font-medium">Reported:</span>{" "}
+                      {FORUM_REPORT_REASON_LABELS[report.reason] ?? report.reason}
+                    </p>
+                    {report.details && (
+                      <p className="text-sm text-gray-600 mt-0.5">{report.details}</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">
+                      {new Date(report.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+
+                  {target && (
+                    <div className="flex flex-wrap gap-2">
+                      {report.status === "open" && (
+                        <>
+                          <ActionButton
+                            disabled={busy}
+                            onClick={() =>
+                              run(report.id, () =>
+                                post ? moderatePost(post.id, "dismiss") : moderateComment(comment!.id, "dismiss")
+                              )
+                            }
+                          >
+                            Keep
+                          </ActionButton>
+                          <ActionButton
+                            tone="danger"
+                            disabled={busy}
+                            onClick={() =>
+                              run(report.id, () =>
+                                post ? moderatePost(post.id, "hide") : moderateComment(comment!.id, "hide")
+                              )
+                            }
+                          >
+                            {post ? "Remove discussion" : "Remove comment"}
+                          </ActionButton>
+                        </>
+                      )}
+                      {report.status !== "open" && target.status === "hidden" && (
+                        <ActionButton
+                          tone="primary"
+                          disabled={busy}
+                          onClick={() =>
+                            run(report.id, () =>
+                              post ? moderatePost(post.id, "restore") : moderateComment(comment!.id, "restore")
+                            )
+                          }
+                        >
+                          Restore
+                        </ActionButton>
+                      )}
+                      {thread && (
+                        <ActionButton
+                          disabled={busy}
+                          onClick={() =>
+                            run(report.id, () => moderatePost(thread.id, thread.is_locked ? "unlock" : "lock"))
+                          }
+                        >
+                          {thread.is_locked ? "Unlock thread" : "Lock thread"}
+                        </ActionButton>
+                      )}
+                      {author?.account_id && !isBanned && (
+                        <ActionButton
+                          tone="danger"
+                          disabled={busy}
+                          onClick={() => run(report.id, () => banAuthor(author))}
+                        >
+                          Ban author
+                        </ActionButton>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+}
+
+// ============================================================
+// Discussions
+// ============================================================
+
+function PostsView() {
+  const [posts, setPosts] = useState<ForumPostRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<PostFilter>("all");
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const fetchPosts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/community/posts?status=${filter}&limit=100`);
+      if (res.ok) {
+        const data = await res.json();
+        setPosts(data.posts ?? []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch forum posts:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    fetchPosts();
+  }, [fetchPosts]);
+
+  async function handleAction(post: ForumPostRow, action: PostAction) {
+    setActionLoading(post.id);
+    try {
+      if (await moderatePost(post.id, action)) await fetchPosts();
+    } catch (err) {
+      console.error("Action failed:", err);
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  const tabs: { label: string; value: PostFilter }[] = [
+    { label: "All", value: "all" },
+    { label: "Pinned", value: "pinned" },
+    { label: "Locked", value: "locked" },
+    { label: "Removed", value: "hidden" },
+  ];
+
+  return (
+    <>
+      <FilterTabs tabs={tabs} value={filter} onChange={setFilter} />
+
+      {loading ? (
+        <Loading />
+      ) : posts.length === 0 ? (
+        <Empty>No discussions found.</Empty>
+      ) : (
+        <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+          {posts.map((post) => {
+            const busy = actionLoading === post.id;
+            return (
+              <div key={post.id} className="px-6 py-4 flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <Link
+                      href={`/community/post/${post.slug}`}
+                      target="_blank"
+                      className="text-base font-medium text-gray-900 hover:text-primary-700 truncate"
+                    >
+                      {post.title}
+                    </Link>
+                    {post.is_pinned && <Badge variant="pro">Pinned</Badge>}
+                    {post.is_locked && <Badge variant="default">Locked</Badge>}
+                    {post.status === "hidden" && <Badge variant="rejected">Removed</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-500 mt-0.5">
+                    {post.author?.display_name ?? "Unknown"}
+                    {post.is_anonymous && " (anonymous)"} &middot; {post.comment_count} comments
+                    &middot; {post.like_count} likes &middot;{" "}
+                    {new Date(post.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <ActionButton disabled={busy} onClick={() => handleAction(post, post.is_pinned ? "unpin" : "pin")}>
+                    {post.is_pinned ? "Unpin" : "Pin"}
+                  </ActionButton>
+                  <ActionButton disabled={busy} onClick={() => handleAction(post, post.is_locked ? "unlock" : "lock")}>
+                    {post.is_locked ? "Unlock" : "Lock"}
+                  </ActionButton>
+                  {post.status === "published" ? (
+                    <ActionButton tone="danger" disabled={busy} onClick={() => handleAction(post, "hide")}>
+                      Remove
+                    </ActionButton>
+                  ) : (
+                    <ActionButton tone="primary" disabled={busy} onClick={() => handleAction(post, "restore")}>
+                      Restore
+                    </ActionButton>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+}
+
+// ============================================================
+// Experts
+// ============================================================
+
+function ExpertsView() {
+  const [experts, setExperts] = useState<ForumExpertRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [showVerifyModal, setShowVerifyModal] = useState(false);
+
+  const fetchExperts = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/community/experts");
+      if (res.ok) {
+        const data = await res.json();
+        setExperts(data.experts ?? []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch forum experts:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchExperts();
+  }, [fetchExperts]);
+
+  async function handleRevoke(profileId: string) {
+    if (!confirm("Remove this expert's verified badge?")) return;
+    setActionLoading(profileId);
+    try {
+      const res = await fetch("/api/admin/community/experts", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ profile_id: profileId }),
+      });
+      if (res.ok) await fetchExperts();
+    } catch (err) {
+      console.error("Revoke failed:", err);
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  return (
+    <>
+      <div className="flex justify-end mb-6">
+        <button
+          onClick={() => setShowVerifyModal(true)}
+          className="px-4 py-2 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 transition-colors"
+        >
+          Verify Expert
+        </button>
+      </div>
+
+      {loading ? (
+        <Loading />
+      ) : experts.length === 0 ? (
+        <Empty>No verified experts yet.</Empty>
+      ) : (
+        <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+          {experts.map((expert) => (
+            <div key={expert.profile_id} className="px-6 py-4 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="text-base font-medium text-gray-900">
+                    {expert.profile?.display_name ?? "Deleted profile"}
+                  </p>
+                  <Badge variant="verified">{expert.credential}</Badge>
+                </div>
+                <p className="text-sm text-gray-500">
+                  Verified {new Date(expert.created_at).toLocaleDateString()}
+                  {expert.verified_by_admin && ` by ${expert.verified_by_admin.email}`}
+                </p>
+              </div>
+              <ActionButton
+                disabled={actionLoading === expert.profile_id}
+                onClick={() => handleRevoke(expert.profile_id)}
+              >
+                Remove
+              </ActionButton>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showVerifyModal && (
+        <VerifyExpertModal
+          onClose={() => setShowVerifyModal(false)}
+          onVerified={() => {
+            setShowVerifyModal(false);
+            fetchExperts();
+          }}
+        />
+      )}
+    </>
+  );
+}
+
+function VerifyExpertModal({ onClose, onVerified }: { onClose: () => void; onVerified: () => void }) {
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<ProfileRef[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [selected, setSelected] = useState<ProfileRef | null>(null);
+  const [credential, setCredential] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  async function handleSearch() {
+    if (!search.trim()) return;
+    setSearching(true);
+    try {
+      const res = await fetch(`/api/admin/community/experts?search=${encodeURIComponent(search.trim())}`);
+      if (res.ok) {
+        const data = await res.json();
+        setResults(data.profiles ?? []);
+      }
+    } catch (err) {
+      console.error("Profile search failed:", err);
+    } finally {
+      setSearching(false);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!selected) return;
+    setSubmitting(true);
+    setError("");
+    try {
+      const res = await fetch("/api/admin/community/experts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ profile_id: selected.id, credential }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to verify expert");
+        return;
+      }
+      onVerified();
+    } catch {
+      setError("Failed to verify expert");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl max-w-md w-full p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4">Verify Expert</h2>
+        <form onSubmit={handleSubmit}>
+          <div className="mb-4">
+            <label htmlFor="expert-search" className="block text-sm font-medium text-gray-700 mb-1">
+              Profile
+            </label>
+            {selected ? (
+              <div className="flex items-center justify-between px-4 py-2 border border-gray-300 rounded-lg">
+                <span className="text-sm text-gray-900">
+                  {selected.display_name}
+                  <span className="text-gray-500"> &middot; {selected.type}</span>
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setSelected(null)}
+                  className="text-sm text-primary-600 hover:text-primary-700"
+                >
+                  Change
+                </button>
+              </div>
+            ) : (
+              <>
+                <div className="flex gap-2">
+                  <input
+                    id="expert-search"
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        handleSearch();
+                      }
+                    }}
+                    placeholder="Search by name"
+                    className="flex-1 px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleSearch}
+                    disabled={searching}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg disabled:opacity-50 transition-colors"
+                  >
+                    {searching ? "..." : "Search"}
+                  </button>
+                </div>
+                {results.length > 0 && (
+                  <div className="mt-2 border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-48 overflow-y-auto">
+                    {results.map((profile) => (
+                      <button
+                        key={profile.id}
+                        type="button"
+                        onClick={() => setSelected(profile)}
+                        className="w-full px-4 py-2 text-left text-sm hover:bg-gray-50"
+                      >
+                        <span className="text-gray-900">{profile.display_name}</span>
+                        <span className="text-gray-500">
+                          {" "}
+                          &middot; {profile.type}
+                          {profile.email && ` · ${profile.email}`}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+          <div className="mb-4">
+            <label htmlFor="expert-credential" className="block text-sm font-medium text-gray-700 mb-1">
+              Credential
+            </label>
+            <input
+              id="expert-credential"
+              type="text"
+              value={credential}
+              onChange={(e) => setCredential(e.target.value)}
+              placeholder="e.g. RN, Elder Law Attorney"
+              maxLength={100}
+              required
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Shown on their posts and comments. Check the credential before verifying.
+            </p>
+          </div>
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+          <div className="flex gap-3 justify-end">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!selected || submitting}
+              className="px-4 py-2 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+            >
+              {submitting ? "Verifying..." : "Verify"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================
+// Bans
+// ============================================================
+
+function BansView() {
+  const [bans, setBans] = useState<ForumBanRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const fetchBans = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/community/bans");
+      if (res.ok) {
+        const data = await res.json();
+        setBans(data.bans ?? []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch forum bans:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBans();
+  }, [fetchBans]);
+
+  async function handleUnban(accountId: string) {
+    if (!confirm("Let this account post in the community again?")) return;
+    setActionLoading(accountId);
+    try {
+      const res = await fetch("/api/admin/community/bans", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ account_id: accountId }),
+      });
+      if (res.ok) await fetchBans();
+    } catch (err) {
+      console.error("Unban failed:", err);
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  if (loading) return <Loading />;
+  if (bans.length === 0) return <Empty>No one is banned.</Empty>;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+      {bans.map((ban) => (
+        <div key={ban.account_id} className="px-6 py-4 flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-base font-medium text-gray-900">
+              {ban.account?.display_name ?? "Unnamed account"}
+            </p>
+            <p className="text-sm text-gray-500">
+              {ban.reason ? `${ban.reason} · ` : ""}
+              Banned {new Date(ban.created_at).toLocaleDateString()}
+              {ban.banned_by_admin && ` by ${ban.banned_by_admin.email}`}
+            </p>
+          </div>
+          <ActionButton disabled={actionLoading === ban.account_id} onClick={() => handleUnban(ban.account_id)}>
+            Lift ban
+          </ActionButton>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function getReportVariant(status: ForumReportStatus): "pending" | "verified" | "default" {
+  switch (status) {
+    case "open":
+      return "pending";
+    case "actioned":
+      return "verified";
+    default:
+      return "default";
+  }
+}
@@ -0,0 +1,305 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Link from "next/link";
+import Badge from "@/components/ui/Badge";
+import type { DuplicateDetectionResult, DuplicateRecord } from "@/lib/provider-duplicates";
+import type { DuplicateCluster, DuplicateClusterStatus, DuplicateReason } from "@/lib/types";
+
+type StatusFilter = DuplicateClusterStatus | "all";
+
+interface ClusterRow extends DuplicateCluster {
+  records: DuplicateRecord[];
+}
+
+const PAGE_SIZE = 25;
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: "Same phone",
+  address: "Same address",
+  name_nearby: "Same name nearby",
+};
+
+export default function AdminDuplicatesPage() {
+  const [clusters, setClusters] = useState<ClusterRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<StatusFilter>("open");
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [actionErrors, setActionErrors] = useState<Record<string, string>>({});
+  const [detecting, setDetecting] = useState(false);
+  const [detection, setDetection] = useState<DuplicateDetectionResult | null>(null);
+
+  const fetchClusters = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/duplicates?status=${filter}&limit=${PAGE_SIZE}&offset=${offset}`);
+      if (res.ok) {
+        const data = await res.json();
+        setClusters(data.clusters ?? []);
+        setTotal(data.total ?? 0);
+      }
+    } catch (err) {
+      console.error("Failed to fetch duplicates:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [filter, offset]);
+
+  useEffect(() => {
+    fetchClusters();
+  }, [fetchClusters]);
+
+  function changeFilter(value: StatusFilter) {
+    setFilter(value);
+    setOffset(0);
+  }
+
+  async function runDetection() {
+    setDetecting(true);
+    setDetection(null);
+    try {
+      const res = await fetch("/api/admin/duplicates", { method: "POST" });
+      if (res.ok) {
+        setDetection(await res.json());
+        await fetchClusters();
+      }
+    } catch (err) {
+      console.error("Duplicate detection failed:", err);
+    } finally {
+      setDetecting(false);
+    }
+  }
+
+  async function handleAction(cluster: ClusterRow, action: "merge" | "dismiss") {
+    setActionLoading(cluster.id);
+    setActionErrors((prev) => ({ ...prev, [cluster.id]: "" }));
+    try {
+      const res = await fetch(`/api/admin/duplicates/${cluster.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, survivor: survivors[cluster.id] }),
+      });
+      if (res.ok) {
+        // Merging also clears other open clusters with the same records
+        await fetchClusters();
+      } else {
+        const data = await res.json();
+        setActionErrors((prev) => ({ ...prev, [cluster.id]: data.error || "Action failed" }));
+      }
+    } catch (err) {
+      console.error("Action failed:", err);
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  const tabs: { label: string; value: StatusFilter }[] = [
+    { label: "Open", value: "open" },
+    { label: "Merged", value: "merged" },
+    { label: "Dismissed", value: "dismissed" },
+    { label: "All", value: "all" },
+  ];
+
+  return (
+    <div>
+      <div className="mb-8 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Duplicate Providers</h1>
+          <p className="text-lg text-gray-600 mt-1">
+            Listings and profiles that share a phone, address, or name nearby. Detection runs weekly.
+          </p>
+        </div>
+        <button
+          onClick={runDetection}
+          disabled={detecting}
+          className="px-4 py-2 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+        >
+          {detecting ? "Detecting..." : "Run detection now"}
+        </button>
+      </div>
+
+      {detection && (
+        <div className="mb-6 bg-primary-50 text-primary-800 px-4 py-3 rounded-lg text-sm">
+          Found {detection.clusters} clusters from {detection.pairs} matching pairs.
+          {detection.skipped > 0 && ` Skipped ${detection.skipped} clusters too large to be one provider.`}
+          {detection.stale > 0 && ` Cleared ${detection.stale} that no longer match.`}
+        </div>
+      )}
+
+      {/* Filter tabs */}
+      <div className="flex gap-2 mb-6">
+        {tabs.map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => changeFilter(tab.value)}
+            className={[
+              "px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+              filter === tab.value
+                ? "bg-primary-600 text-white"
+                : "bg-gray-100 text-gray-600 hover:bg-gray-200",
+            ].join(" ")}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-lg text-gray-500">Loading...</div>
+        </div>
+      ) : clusters.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-8 text-center">
+          <p className="text-gray-500">No duplicates found.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {clusters.map((cluster) => {
+            const isOpen = cluster.status === "open";
+            const selected = survivors[cluster.id];
+            return (
+              <div key={cluster.id} className="bg-white rounded-xl border border-gray-200 p-6">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div className="flex flex-wrap gap-2">
+                    {cluster.reasons.map((reason) => (
+                      <Badge key={reason} variant="default">
+                        {REASON_LABELS[reason] ?? reason}
+                      </Badge>
+                    ))}
+                  </div>
+                  <Badge variant={getStatusVariant(cluster.status)}>{cluster.status}</Badge>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-100 text-left text-gray-500">
+                        {isOpen && <th className="py-2 pr-4 font-medium">Keep</th>}
+                        <th className="py-2 pr-4 font-medium">Name</th>
+                        <th className="py-2 pr-4 font-medium">Source</th>
+                        <th className="py-2 pr-4 font-medium">Address</th>
+                        <th className="py-2 font-medium">Phone</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {cluster.records.map((record) => (
+                        <tr key={record.key} className={record.active ? "" : "text-gray-400"}>
+                          {isOpen && (
+                            <td className="py-3 pr-4">
+                              <input
+                                type="radio"
+                                name={`survivor-${cluster.id}`}
+                                aria-label={`Keep ${record.name}`}
+                                checked={selected === record.key}
+                                disabled={!record.active}
+                                onChange={() =>
+                                  setSurvivors((prev) => ({ ...prev, [cluster.id]: record.key }))
+                                }
+                                className="w-4 h-4 text-primary-600 focus:ring-primary-500"
+                              />
+                            </td>
+                          )}
+                          <td className="py-3 pr-4">
+                            <Link
+                              href={`/provider/${record.slug}`}
+                              target="_blank"
+                              className="font-medium text-gray-900 hover:text-primary-700"
+                            >
+                              {record.name}
+                            </Link>
+                            {record.category && (
+                              <p className="text-gray-500">{record.category.replace(/_/g, " ")}</p>
+                            )}
+                          </td>
+                          <td className="py-3 pr-4">
+                            <div className="flex flex-wrap gap-1">
+                              <Badge variant="default">{record.kind === "listing" ? "Listing" : "Profile"}</Badge>
+                              {record.account_id && <Badge variant="verified">Managed</Badge>}
+                              {cluster.survivor === record.key && <Badge variant="pro">Kept</Badge>}
+                              {!record.active && <Badge variant="rejected">Removed</Badge>}
+                            </div>
+                          </td>
+                          <td className="py-3 pr-4 text-gray-600">
+                            {[record.address, record.city, record.state].filter(Boolean).join(", ") || "—"}
+                          </td>
+                          <td className="py-3 text-gray-600">{record.phone || "—"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="border-t border-gray-100 mt-4 pt-4 flex flex-wrap items-center justify-between gap-3">
+                  <p className="text-xs text-gray-400">
+                    {isOpen
+                      ? `Detected ${new Date(cluster.created_at).toLocaleDateString()}`
+                      : `Resolved ${cluster.resolved_at ? new Date(cluster.resolved_at).toLocaleDateString() : ""}`}
+                  </p>
+                  {isOpen && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleAction(cluster, "dismiss")}
+                        disabled={actionLoading === cluster.id}
+                        className="px-3 py-1.5 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+                      >
+                        Not duplicates
+                      </button>
+                      <button
+                        onClick={() => handleAction(cluster, "merge")}
+                        disabled={actionLoading === cluster.id || !selected}
+                        className="px-3 py-1.5 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+                      >
+                        Merge into selected
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {actionErrors[cluster.id] && (
+                  <p className="text-sm text-red-600 mt-2">{actionErrors[cluster.id]}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {total > PAGE_SIZE && (
+        <div className="mt-6 flex items-center justify-between">
+          <p className="text-sm text-gray-500">
+            {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setOffset((prev) => Math.max(prev - PAGE_SIZE, 0))}
+              disabled={offset === 0}
+              className="px-3 py-1.5 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setOffset((prev) => prev + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total}
+              className="px-3 py-1.5 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function getStatusVariant(status: DuplicateClusterStatus): "pending" | "verified" | "default" {
+  switch (status) {
+    case "open":
+      return "pending";
+    case "merged":
+      return "verified";
+    default:
+      return "default";
+  }
+}
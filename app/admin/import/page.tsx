@@ -0,0 +1,299 @@
+"use client";
+
+import { useState } from "react";
+import Badge from "@/components/ui/Badge";
+import {
+  MAX_IMPORT_ROWS,
+  PROVIDER_CATEGORIES,
+  PROVIDER_COLUMNS,
+  US_STATE_CODES,
+  type ImportPreview,
+  type ImportRowResult,
+} from "@/lib/provider-import";
+
+interface ImportResult {
+  imported: number;
+  created: number;
+  updated: number;
+  skipped: number;
+}
+
+/** Rows shown in the preview table; the summary still counts every row. */
+const PREVIEW_LIMIT = 200;
+
+export default function AdminImportPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [busy, setBusy] = useState<"preview" | "import" | null>(null);
+  const [error, setError] = useState("");
+  const [issuesOnly, setIssuesOnly] = useState(false);
+
+  const [exportState, setExportState] = useState("");
+  const [exportCity, setExportCity] = useState("");
+  const [exportCategory, setExportCategory] = useState("");
+  const [includeDeleted, setIncludeDeleted] = useState(false);
+
+  const getErrorMessage = (err: unknown) =>
+    err && typeof err === "object" && "message" in err
+      ? (err as { message: string }).message
+      : "Something went wrong";
+
+  function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    setFile(e.target.files?.[0] ?? null);
+    setPreview(null);
+    setResult(null);
+    setError("");
+  }
+
+  async function submit(dryRun: boolean) {
+    if (!file) return;
+    setBusy(dryRun ? "preview" : "import");
+    setError("");
+    setResult(null);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("dry_run", String(dryRun));
+      const res = await fetch("/api/admin/import", { method: "POST", body: formData });
+      const data = await res.json();
+      if (data.preview) setPreview(data.preview);
+      if (!res.ok) throw new Error(data.error || "Import failed");
+
+      if (!dryRun) {
+        setResult({
+          imported: data.imported,
+          created: data.created,
+          updated: data.updated,
+          skipped: data.skipped,
+        });
+      }
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  const exportParams = new URLSearchParams();
+  if (exportState) exportParams.set("state", exportState);
+  if (exportCity.trim()) exportParams.set("city", exportCity.trim());
+  if (exportCategory) exportParams.set("category", exportCategory);
+  if (includeDeleted) exportParams.set("include_deleted", "true");
+  const exportQuery = exportParams.toString();
+
+  const hasIssues = (row: ImportRowResult) => row.errors.length > 0 || row.warnings.length > 0;
+  const rows = preview ? preview.rows.filter((row) => !issuesOnly || hasIssues(row)) : [];
+  const warningCount = preview ? preview.rows.filter((row) => row.warnings.length > 0).length : 0;
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Import &amp; Export</h1>
+        <p className="text-lg text-gray-600 mt-1">
+          Seed a new market from a spreadsheet, or download providers to edit and import back.
+        </p>
+      </div>
+
+      {/* Import */}
+      <section className="bg-white rounded-xl border border-gray-200 p-6 mb-8">
+        <h2 className="text-xl font-semibold text-gray-900 mb-1">Import providers</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          CSV or JSON with the olera-providers columns, up to {MAX_IMPORT_ROWS.toLocaleString()} rows.
+          Rows are matched on provider_id: existing providers are updated, new ones are created and
+          published. Separate multiple provider_images with &quot;|&quot;.
+        </p>
+        <details className="mb-4 text-sm text-gray-600">
+          <summary className="cursor-pointer text-primary-600 hover:text-primary-700 font-medium">
+            Columns
+          </summary>
+          <p className="mt-2 font-mono text-xs text-gray-700 break-words">{PROVIDER_COLUMNS.join(", ")}</p>
+        </details>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="file"
+            accept=".csv,.json"
+            onChange={handleFileChange}
+            className="text-sm text-gray-700 file:mr-3 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-gray-100 file:text-gray-700 file:font-medium hover:file:bg-gray-200"
+          />
+          <button
+            onClick={() => submit(true)}
+            disabled={!file || busy !== null}
+            className="px-4 py-2 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+          >
+            {busy === "preview" ? "Checking..." : "Preview"}
+          </button>
+          {preview && preview.valid > 0 && !result && (
+            <button
+              onClick={() => submit(false)}
+              disabled={busy !== null}
+              className="px-4 py-2 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+            >
+              {busy === "import"
+                ? "Importing..."
+                : `Import ${preview.valid.toLocaleString()} ${preview.valid === 1 ? "row" : "rows"}`}
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mt-4 bg-red-50 text-red-700 px-4 py-3 rounded-lg text-sm" role="alert">
+            {error}
+          </div>
+        )}
+
+        {result && (
+          <div className="mt-4 bg-primary-50 text-primary-800 px-4 py-3 rounded-lg text-sm">
+            Imported {result.imported.toLocaleString()} providers ({result.created.toLocaleString()} new,{" "}
+            {result.updated.toLocaleString()} updated).
+            {result.skipped > 0 && ` Skipped ${result.skipped.toLocaleString()} rows with errors.`}
+          </div>
+        )}
+
+        {preview && (
+          <div className="mt-6">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <p className="text-sm text-gray-700">
+                <span className="font-medium">{preview.valid.toLocaleString()}</span> ready ·{" "}
+                <span className="font-medium text-red-600">{preview.invalid.toLocaleString()}</span> with errors ·{" "}
+                <span className="font-medium text-warm-700">{warningCount.toLocaleString()}</span> with warnings
+              </p>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={issuesOnly}
+                  onChange={(e) => setIssuesOnly(e.target.checked)}
+                  className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Only rows with issues
+              </label>
+            </div>
+
+            {preview.warnings.map((warning) => (
+              <p key={warning} className="text-sm text-warm-700 mb-2">{warning}</p>
+            ))}
+
+            <div className="overflow-x-auto border border-gray-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 bg-gray-50 text-left text-gray-500">
+                    <th className="px-4 py-2 font-medium">Row</th>
+                    <th className="px-4 py-2 font-medium">Provider</th>
+                    <th className="px-4 py-2 font-medium">Status</th>
+                    <th className="px-4 py-2 font-medium">Notes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                    <tr key={row.row} className="align-top">
+                      <td className="px-4 py-2 text-gray-500">{row.row}</td>
+                      <td className="px-4 py-2">
+                        <p className="text-gray-900">{row.name || "—"}</p>
+                        {row.provider_id && <p className="text-xs text-gray-400">{row.provider_id}</p>}
+                      </td>
+                      <td className="px-4 py-2">
+                        {row.errors.length > 0 ? (
+                          <Badge variant="rejected">Error</Badge>
+                        ) : row.action === "update" ? (
+                          <Badge variant="pending">Update</Badge>
+                        ) : (
+                          <Badge variant="trial">New</Badge>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        {row.errors.map((message) => (
+                          <p key={message} className="text-red-600">{message}</p>
+                        ))}
+                        {row.warnings.map((message) => (
+                          <p key={message} className="text-warm-700">{message}</p>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {rows.length > PREVIEW_LIMIT && (
+              <p className="text-sm text-gray-500 mt-2">
+                Showing the first {PREVIEW_LIMIT} of {rows.length.toLocaleString()} rows.
+              </p>
+            )}
+          </div>
+        )}
+      </section>
+
+      {/* Export */}
+      <section className="bg-white rounded-xl border border-gray-200 p-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-1">Export providers</h2>
+        <p className="text-sm text-gray-600 mb-4">Download providers as CSV in the same columns.</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label htmlFor="export-state" className="block text-sm font-medium text-gray-700 mb-1">
+              State
+            </label>
+            <select
+              id="export-state"
+              value={exportState}
+              onChange={(e) => setExportState(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="">All states</option>
+              {US_STATE_CODES.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="export-city" className="block text-sm font-medium text-gray-700 mb-1">
+              City
+            </label>
+            <input
+              id="export-city"
+              type="text"
+              value={exportCity}
+              onChange={(e) => setExportCity(e.target.value)}
+              placeholder="Any city"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="export-category" className="block text-sm font-medium text-gray-700 mb-1">
+              Category
+            </label>
+            <select
+              id="export-category"
+              value={exportCategory}
+              onChange={(e) => setExportCategory(e.target.value)}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value="">All categories</option>
+              {PROVIDER_CATEGORIES.map((category) => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={includeDeleted}
+              onChange={(e) => setIncludeDeleted(e.target.checked)}
+              className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Include deleted providers
+          </label>
+          <a
+            href={`/api/admin/export${exportQuery ? `?${exportQuery}` : ""}`}
+            className="px-4 py-2 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            Download CSV
+          </a>
+        </div>
+      </section>
+    </div>
+  );
+}
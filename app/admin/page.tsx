@@ -7,6 +7,8 @@ import Badge from "@/components/ui/Badge";
 interface OverviewStats {
   pendingProviders: number;
   totalInquiries: number;
+  openReviewReports: number;
+  openCommunityReports: number;
   adminCount: number;
 }
 
@@ -28,21 +30,27 @@ export default function AdminOverviewPage() {
   useEffect(() => {
     async function fetchData() {
       try {
-        const [providersRes, leadsRes, teamRes, auditRes] = await Promise.all([
+        const [providersRes, leadsRes, reviewsRes, communityRes, teamRes, auditRes] = await Promise.all([
           fetch("/api/admin/providers?status=pending&count_only=true"),
           fetch("/api/admin/leads?count_only=true"),
+          fetch("/api/admin/reviews?status=open&count_only=true"),
+          fetch("/api/admin/community?status=open&count_only=true"),
           fetch("/api/admin/team"),
           fetch("/api/admin/audit?limit=10"),
         ]);
 
         const pendingData = providersRes.ok ? await providersRes.json() : { count: 0 };
         const leadsData = leadsRes.ok ? await leadsRes.json() : { count: 0 };
+        const reviewsData = reviewsRes.ok ? await reviewsRes.json() : { count: 0 };
+        const communityData = communityRes.ok ? await communityRes.json() : { count: 0 };
         const teamData = teamRes.ok ? await teamRes.json() : { admins: [] };
         const auditData = auditRes.ok ? await auditRes.json() : { entries: [] };
 
         setStats({
           pendingProviders: pendingData.count ?? 0,
           totalInquiries: leadsData.count ?? 0,
+          openReviewReports: reviewsData.count ?? 0,
+          openCommunityReports: communityData.count ?? 0,
           adminCount: teamData.admins?.length ?? 0,
         });
         setAuditLog(auditData.entries ?? []);
@@ -69,12 +77,12 @@ export default function AdminOverviewPage() {
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900">Admin Dashboard</h1>
         <p className="text-lg text-gray-600 mt-1">
-          Manage providers, view leads, and administer the team.
+          Manage providers, view leads, moderate reviews and the community, and administer the team.
         </p>
       </div>
 
       {/* Stats grid */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-6 mb-8">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6 mb-8">
         <Link href="/admin/providers" className="block">
           <div className="bg-white p-6 rounded-xl border border-gray-200 hover:border-primary-200 transition-colors">
             <p className="text-base text-gray-500 mb-1">Pending Providers</p>
@@ -93,6 +101,24 @@ export default function AdminOverviewPage() {
             <p className="text-base text-gray-500">All connections</p>
           </div>
         </Link>
+        <Link href="/admin/reviews" className="block">
+          <div className="bg-white p-6 rounded-xl border border-gray-200 hover:border-primary-200 transition-colors">
+            <p className="text-base text-gray-500 mb-1">Reported Reviews</p>
+            <p className="text-3xl font-bold text-gray-900 mb-1">
+              {stats?.openReviewReports ?? 0}
+            </p>
+            <p className="text-base text-gray-500">Open reports</p>
+          </div>
+        </Link>
+        <Link href="/admin/community" className="block">
+          <div className="bg-white p-6 rounded-xl border border-gray-200 hover:border-primary-200 transition-colors">
+            <p className="text-base text-gray-500 mb-1">Community Reports</p>
+            <p className="text-3xl font-bold text-gray-900 mb-1">
+              {stats?.openCommunityReports ?? 0}
+            </p>
+            <p className="text-base text-gray-500">Posts and comments</p>
+          </div>
+        </Link>
         <Link href="/admin/team" className="block">
           <div className="bg-white p-6 rounded-xl border border-gray-200 hover:border-primary-200 transition-colors">
             <p className="text-base text-gray-500 mb-1">Admin Team</p>
@@ -141,8 +167,29 @@ function formatAction(action: string, targetType: string): string {
   const actionLabels: Record<string, string> = {
     approve_provider: "Approved a provider",
     reject_provider: "Rejected a provider",
+    merge_providers: "Merged duplicate providers",
+    dismiss_duplicates: "Dismissed duplicate providers",
+    import_providers: "Imported providers",
     add_admin: "Added an admin",
     remove_admin: "Removed an admin",
+    hide_review: "Removed a review",
+    restore_review: "Restored a review",
+    dismiss_review: "Dismissed review reports",
+    hide_forum_post: "Removed a discussion",
+    restore_forum_post: "Restored a discussion",
+    dismiss_forum_post: "Dismissed discussion reports",
+    lock_forum_post: "Locked a discussion",
+    unlock_forum_post: "Unlocked a discussion",
+    pin_forum_post: "Pinned a discussion",
+    unpin_forum_post: "Unpinned a discussion",
+    hide_forum_comment: "Removed a comment",
+    restore_forum_comment: "Restored a comment",
+    dismiss_forum_comment: "Dismissed comment reports",
+    ban_forum_author: "Banned a community author",
+    unban_forum_author: "Lifted a community ban",
+    verify_forum_expert: "Verified a community expert",
+    revoke_forum_expert: "Removed a community expert",
+    replay_stripe_event: "Replayed a Stripe event",
   };
   return actionLabels[action] ?? `${action} on ${targetType}`;
 }
@@ -158,7 +205,7 @@ function formatDate(dateStr: string): string {
 }
 
 function getActionBadgeVariant(action: string): "verified" | "pending" | "default" {
-  if (action.includes("approve")) return "verified";
-  if (action.includes("reject")) return "pending";
+  if (action.includes("approve") || action.includes("verify")) return "verified";
+  if (action.includes("reject") || action.includes("hide") || action.startsWith("ban")) return "pending";
   return "default";
 }
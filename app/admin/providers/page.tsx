@@ -1,7 +1,9 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { Fragment, useEffect, useState, useCallback } from "react";
 import Badge from "@/components/ui/Badge";
+import type { ListingFieldChange } from "@/lib/provider-merge";
+import type { ClaimCheckStatus, ClaimVerification } from "@/lib/types";
 
 type StatusFilter = "pending" | "claimed" | "rejected" | "all";
 
@@ -16,13 +18,34 @@ interface Provider {
   created_at: string;
   email: string | null;
   phone: string | null;
+  website: string | null;
+  verification:
+    | (Omit<ClaimVerification, "email_code_hash"> & { document_url: string | null })
+    | null;
 }
 
+const CHECK_STATUS_CLASSES: Record<ClaimCheckStatus, string> = {
+  pass: "text-primary-700",
+  fail: "text-red-600",
+  pending: "text-warm-700",
+  missing: "text-gray-400",
+};
+
+const CHECK_STATUS_LABELS: Record<ClaimCheckStatus, string> = {
+  pass: "Pass",
+  fail: "Fail",
+  pending: "Pending",
+  missing: "Missing",
+};
+
 export default function AdminProvidersPage() {
   const [providers, setProviders] = useState<Provider[]>([]);
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<StatusFilter>("pending");
   const [actionLoading, setActionLoading] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [actionError, setActionError] = useState("");
 
   const fetchProviders = useCallback(async () => {
     setLoading(true);
@@ -45,15 +68,21 @@ export default function AdminProvidersPage() {
 
   async function handleAction(id: string, action: "approve" | "reject") {
     setActionLoading(id);
+    setActionError("");
     try {
       const res = await fetch(`/api/admin/providers/${id}`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action }),
+        body: JSON.stringify({ action, reason: action === "reject" ? rejectReason : undefined }),
       });
       if (res.ok) {
         // Remove from list or refresh
         setProviders((prev) => prev.filter((p) => p.id !== id));
+        setExpandedId(null);
+        setRejectReason("");
+      } else {
+        const data = await res.json();
+        setActionError(data.error || "Action failed");
       }
     } catch (err) {
       console.error("Action failed:", err);
@@ -62,6 +91,12 @@ export default function AdminProvidersPage() {
     }
   }
 
+  function toggleReview(id: string) {
+    setExpandedId((prev) => (prev === id ? null : id));
+    setRejectReason("");
+    setActionError("");
+  }
+
   const tabs: { label: string; value: StatusFilter }[] = [
     { label: "Pending", value: "pending" },
     { label: "Approved", value: "claimed" },
@@ -114,59 +149,101 @@ export default function AdminProvidersPage() {
                   <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Type</th>
                   <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Location</th>
                   <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Status</th>
+                  <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Score</th>
                   <th className="text-left px-6 py-3 text-sm font-medium text-gray-500">Date</th>
-                  {filter === "pending" && (
-                    <th className="text-right px-6 py-3 text-sm font-medium text-gray-500">Actions</th>
-                  )}
+                  <th className="text-right px-6 py-3 text-sm font-medium text-gray-500">Actions</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-100">
                 {providers.map((provider) => (
-                  <tr key={provider.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4">
-                      <p className="text-sm font-medium text-gray-900">{provider.display_name}</p>
-                      {provider.email && (
-                        <p className="text-sm text-gray-500">{provider.email}</p>
-                      )}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">
-                      {provider.type === "organization" ? "Organization" : "Caregiver"}
-                      {provider.category && (
-                        <span className="text-gray-400"> / {provider.category.replace(/_/g, " ")}</span>
-                      )}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-600">
-                      {[provider.city, provider.state].filter(Boolean).join(", ") || "—"}
-                    </td>
-                    <td className="px-6 py-4">
-                      <Badge variant={getStatusVariant(provider.claim_state)}>
-                        {provider.claim_state}
-                      </Badge>
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-500">
-                      {new Date(provider.created_at).toLocaleDateString()}
-                    </td>
-                    {filter === "pending" && (
+                  <Fragment key={provider.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <p className="text-sm font-medium text-gray-900">{provider.display_name}</p>
+                        {provider.email && (
+                          <p className="text-sm text-gray-500">{provider.email}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {provider.type === "organization" ? "Organization" : "Caregiver"}
+                        {provider.category && (
+                          <span className="text-gray-400"> / {provider.category.replace(/_/g, " ")}</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {[provider.city, provider.state].filter(Boolean).join(", ") || "—"}
+                      </td>
+                      <td className="px-6 py-4">
+                        <Badge variant={getStatusVariant(provider.claim_state)}>
+                          {provider.claim_state}
+                        </Badge>
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`text-sm font-semibold ${getScoreClass(provider.verification?.score ?? 0)}`}>
+                          {provider.verification?.score ?? 0}
+                        </span>
+                        <span className="text-sm text-gray-400">/100</span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {new Date(provider.created_at).toLocaleDateString()}
+                      </td>
                       <td className="px-6 py-4 text-right">
-                        <div className="flex gap-2 justify-end">
-                          <button
-                            onClick={() => handleAction(provider.id, "approve")}
-                            disabled={actionLoading === provider.id}
-                            className="px-3 py-1.5 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
-                          >
-                            Approve
-                          </button>
-                          <button
-                            onClick={() => handleAction(provider.id, "reject")}
-                            disabled={actionLoading === provider.id}
-                            className="px-3 py-1.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
-                          >
-                            Reject
-                          </button>
-                        </div>
+                        <button
+                          onClick={() => toggleReview(provider.id)}
+                          className="px-3 py-1.5 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 transition-colors"
+                        >
+                          {expandedId === provider.id ? "Close" : "Review"}
+                        </button>
                       </td>
+                    </tr>
+                    {expandedId === provider.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={7} className="px-6 py-6">
+                          <ClaimReview provider={provider} />
+                          <ListingChanges providerId={provider.id} />
+
+                          {provider.claim_state === "pending" && (
+                            <div className="mt-6 flex flex-col sm:flex-row gap-3 sm:items-end">
+                              <div className="flex-1">
+                                <label
+                                  htmlFor={`reject-reason-${provider.id}`}
+                                  className="block text-sm font-medium text-gray-700 mb-1"
+                                >
+                                  Reject reason (emailed to the claimant)
+                                </label>
+                                <textarea
+                                  id={`reject-reason-${provider.id}`}
+                                  rows={2}
+                                  value={rejectReason}
+                                  onChange={(e) => setRejectReason(e.target.value)}
+                                  className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                                />
+                              </div>
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={() => handleAction(provider.id, "approve")}
+                                  disabled={actionLoading === provider.id}
+                                  className="px-3 py-1.5 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+                                >
+                                  Approve
+                                </button>
+                                <button
+                                  onClick={() => handleAction(provider.id, "reject")}
+                                  disabled={actionLoading === provider.id || !rejectReason.trim()}
+                                  className="px-3 py-1.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+                                >
+                                  Reject
+                                </button>
+                              </div>
+                            </div>
+                          )}
+                          {actionError && (
+                            <p className="text-sm text-red-600 mt-2">{actionError}</p>
+                          )}
+                        </td>
+                      </tr>
                     )}
-                  </tr>
+                  </Fragment>
                 ))}
               </tbody>
             </table>
@@ -177,6 +254,152 @@ export default function AdminProvidersPage() {
   );
 }
 
+/**
+ * Evidence on the left, automated checks on the right.
+ */
+function ClaimReview({ provider }: { provider: Provider }) {
+  const v = provider.verification;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">Evidence</h3>
+        <dl className="space-y-2 text-sm">
+          <div>
+            <dt className="text-gray-500">Listing website</dt>
+            <dd className="text-gray-900">{v?.listing_website || "—"}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Business email</dt>
+            <dd className="text-gray-900">
+              {v?.business_email || "—"}
+              {v?.email_verified_at && <span className="text-primary-700"> (verified)</span>}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Phone callback</dt>
+            <dd className="text-gray-900">
+              {v?.phone_verified_at
+                ? `Confirmed via ${v.listing_phone}`
+                : v?.phone_code
+                  ? `Call ${v.listing_phone} and read code ${v.phone_code}`
+                  : "Not requested"}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">License number</dt>
+            <dd className="text-gray-900">{v?.license_number || "—"}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Document</dt>
+            <dd className="text-gray-900">
+              {v?.document_url ? (
+                <a
+                  href={v.document_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-primary-600 hover:text-primary-700 font-medium"
+                >
+                  {v.document_name || "View document"}
+                </a>
+              ) : (
+                "—"
+              )}
+            </dd>
+          </div>
+        </dl>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-3">
+          Automated checks · {v?.score ?? 0}/100
+        </h3>
+        {v && v.checks.length > 0 ? (
+          <ul className="space-y-2 text-sm">
+            {v.checks.map((check) => (
+              <li key={check.id} className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="text-gray-900">{check.label}</p>
+                  <p className="text-gray-500">{check.detail}</p>
+                </div>
+                <span className={`shrink-0 font-medium ${CHECK_STATUS_CLASSES[check.status]}`}>
+                  {CHECK_STATUS_LABELS[check.status]} · {check.weight}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">The claimant hasn&apos;t submitted any evidence yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Fields the owner changed compared with the olera-providers listing
+ * the profile was claimed from. The public page shows the owner's
+ * value wherever there is one.
+ */
+function ListingChanges({ providerId }: { providerId: string }) {
+  const [changes, setChanges] = useState<ListingFieldChange[] | null>(null);
+  const [sourceId, setSourceId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/admin/providers/${providerId}/diff`)
+      .then((res) => (res.ok ? res.json() : { source_provider_id: null, changes: [] }))
+      .then((data) => {
+        if (cancelled) return;
+        setSourceId(data.source_provider_id);
+        setChanges(data.changes ?? []);
+      })
+      .catch((err) => console.error("Failed to fetch listing changes:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [providerId]);
+
+  if (!changes) return null;
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-sm font-semibold text-gray-900 mb-3">Changes from the listing</h3>
+      {!sourceId ? (
+        <p className="text-sm text-gray-500">Not linked to an olera-providers listing.</p>
+      ) : changes.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes from listing {sourceId}.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 pr-4 font-medium">Field</th>
+              <th className="py-1 pr-4 font-medium">Listing</th>
+              <th className="py-1 font-medium">Owner</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {changes.map((change) => (
+              <tr key={change.field} className="align-top">
+                <td className="py-2 pr-4 text-gray-500">{change.label}</td>
+                <td className="py-2 pr-4 text-gray-400 line-through break-words">{change.seed || "—"}</td>
+                <td className="py-2 text-gray-900 break-words">{change.owner}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function getScoreClass(score: number): string {
+  if (score >= 60) return "text-primary-700";
+  if (score >= 30) return "text-warm-700";
+  return "text-red-600";
+}
+
 function getStatusVariant(state: string): "pending" | "verified" | "rejected" | "default" {
   switch (state) {
     case "pending":
@@ -0,0 +1,217 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import Badge from "@/components/ui/Badge";
+import { REVIEW_REPORT_REASON_LABELS } from "@/lib/reviews";
+import type { ReviewReportReason, ReviewReportStatus, ReviewStatus } from "@/lib/types";
+
+type StatusFilter = ReviewReportStatus | "all";
+
+interface ReportedReview {
+  id: string;
+  rating: number;
+  body: string;
+  status: ReviewStatus;
+  provider_response: string | null;
+  created_at: string;
+  provider: { id: string; display_name: string; slug: string } | null;
+  reviewer: { id: string; display_name: string } | null;
+}
+
+interface ReviewReportRow {
+  id: string;
+  reason: ReviewReportReason;
+  details: string | null;
+  status: ReviewReportStatus;
+  resolved_at: string | null;
+  created_at: string;
+  review: ReportedReview | null;
+}
+
+export default function AdminReviewsPage() {
+  const [reports, setReports] = useState<ReviewReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<StatusFilter>("open");
+  const [actionLoading, setActionLoading] = useState<string | null>(null);
+
+  const fetchReports = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/reviews?status=${filter}&limit=100`);
+      if (res.ok) {
+        const data = await res.json();
+        setReports(data.reports ?? []);
+      }
+    } catch (err) {
+      console.error("Failed to fetch review reports:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  async function handleAction(reviewId: string, action: "hide" | "restore" | "dismiss") {
+    setActionLoading(reviewId);
+    try {
+      const res = await fetch(`/api/admin/reviews/${reviewId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      if (res.ok) {
+        // Other reports on the same review were resolved too
+        await fetchReports();
+      }
+    } catch (err) {
+      console.error("Action failed:", err);
+    } finally {
+      setActionLoading(null);
+    }
+  }
+
+  const tabs: { label: string; value: StatusFilter }[] = [
+    { label: "Open", value: "open" },
+    { label: "Removed", value: "actioned" },
+    { label: "Dismissed", value: "dismissed" },
+    { label: "All", value: "all" },
+  ];
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Reported Reviews</h1>
+        <p className="text-lg text-gray-600 mt-1">
+          Review flags from families and providers, and remove reviews that break the rules.
+        </p>
+      </div>
+
+      {/* Filter tabs */}
+      <div className="flex gap-2 mb-6">
+        {tabs.map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => setFilter(tab.value)}
+            className={[
+              "px-4 py-2 rounded-lg text-sm font-medium transition-colors",
+              filter === tab.value
+                ? "bg-primary-600 text-white"
+                : "bg-gray-100 text-gray-600 hover:bg-gray-200",
+            ].join(" ")}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-lg text-gray-500">Loading...</div>
+        </div>
+      ) : reports.length === 0 ? (
+        <div className="bg-white rounded-xl border border-gray-200 p-8 text-center">
+          <p className="text-gray-500">No reports found.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {reports.map((report) => {
+            const review = report.review;
+            return (
+              <div key={report.id} className="bg-white rounded-xl border border-gray-200 p-6">
+                <div className="flex items-start justify-between gap-4 mb-4">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {review?.provider?.display_name ?? "Unknown provider"}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      Reviewed by {review?.reviewer?.display_name ?? "Unknown"}
+                      {review && <> &middot; {"★".repeat(review.rating)}{"☆".repeat(5 - review.rating)}</>}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {review && (
+                      <Badge variant={review.status === "published" ? "verified" : "rejected"}>
+                        {review.status}
+                      </Badge>
+                    )}
+                    <Badge variant={getStatusVariant(report.status)}>{report.status}</Badge>
+                  </div>
+                </div>
+
+                {review && (
+                  <p className="text-sm text-gray-700 whitespace-pre-line mb-4">{review.body}</p>
+                )}
+                {review?.provider_response && (
+                  <div className="bg-gray-50 rounded-lg px-4 py-3 mb-4">
+                    <p className="text-xs font-medium text-gray-500 mb-1">Provider response</p>
+                    <p className="text-sm text-gray-700 whitespace-pre-line">{review.provider_response}</p>
+                  </div>
+                )}
+
+                <div className="border-t border-gray-100 pt-4 flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <p className="text-sm text-gray-900">
+                      <span className="font-medium">Reported:</span>{" "}
+                      {REVIEW_REPORT_REASON_LABELS[report.reason] ?? report.reason}
+                    </p>
+                    {report.details && (
+                      <p className="text-sm text-gray-600 mt-0.5">{report.details}</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">
+                      {new Date(report.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+
+                  {review && (
+                    <div className="flex gap-2">
+                      {report.status === "open" && (
+                        <>
+                          <button
+                            onClick={() => handleAction(review.id, "dismiss")}
+                            disabled={actionLoading === review.id}
+                            className="px-3 py-1.5 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 disabled:opacity-50 transition-colors"
+                          >
+                            Keep review
+                          </button>
+                          <button
+                            onClick={() => handleAction(review.id, "hide")}
+                            disabled={actionLoading === review.id}
+                            className="px-3 py-1.5 bg-red-600 text-white text-sm font-medium rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+                          >
+                            Remove review
+                          </button>
+                        </>
+                      )}
+                      {report.status !== "open" && review.status === "hidden" && (
+                        <button
+                          onClick={() => handleAction(review.id, "restore")}
+                          disabled={actionLoading === review.id}
+                          className="px-3 py-1.5 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50 transition-colors"
+                        >
+                          Restore review
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function getStatusVariant(status: ReviewReportStatus): "pending" | "verified" | "default" {
+  switch (status) {
+    case "open":
+      return "pending";
+    case "actioned":
+      return "verified";
+    default:
+      return "default";
+  }
+}
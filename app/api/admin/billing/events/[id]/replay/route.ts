@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import type Stripe from "stripe";
+import { getAuthUser, getAdminUser, getServiceClient, logAuditAction } from "@/lib/admin";
+import { handleStripeEvent } from "@/lib/stripe-events";
+
+/**
+ * POST /api/admin/billing/events/[id]/replay
+ *
+ * Re-run a failed (or stalled) Stripe event from its stored payload.
+ * Events that were processed or skipped come back as "duplicate".
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const db = getServiceClient();
+
+    const { data: stored, error: fetchError } = await db
+      .from("stripe_events")
+      .select("id, type, status, attempts, payload")
+      .eq("id", id)
+      .single();
+
+    if (fetchError || !stored) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    let outcome: string;
+    let failure: string | null = null;
+    try {
+      outcome = await handleStripeEvent(stored.payload as Stripe.Event);
+    } catch (err) {
+      outcome = "failed";
+      failure = err instanceof Error ? err.message : String(err);
+    }
+
+    await logAuditAction({
+      adminUserId: adminUser.id,
+      action: "replay_stripe_event",
+      targetType: "stripe_event",
+      targetId: id,
+      details: {
+        type: stored.type,
+        previous_status: stored.status,
+        previous_attempts: stored.attempts,
+        outcome,
+      },
+    });
+
+    if (failure) {
+      return NextResponse.json({ outcome, error: failure }, { status: 500 });
+    }
+    return NextResponse.json({ outcome });
+  } catch (err) {
+    console.error("Admin billing event replay error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient } from "@/lib/admin";
+
+/**
+ * GET /api/admin/billing/events
+ *
+ * List Stripe webhook events from the stripe_events ledger, newest first.
+ * Query params: status (default: "failed"), count_only, limit, offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") || "failed";
+    const countOnly = searchParams.get("count_only") === "true";
+    const limit = parseInt(searchParams.get("limit") || "50", 10);
+    const offset = parseInt(searchParams.get("offset") || "0", 10);
+
+    const db = getServiceClient();
+
+    if (countOnly) {
+      let countQuery = db
+        .from("stripe_events")
+        .select("*", { count: "exact", head: true });
+
+      if (status !== "all") countQuery = countQuery.eq("status", status);
+
+      const { count } = await countQuery;
+      return NextResponse.json({ count: count ?? 0 });
+    }
+
+    // The payload stays out of the list; it can be large
+    let query = db
+      .from("stripe_events")
+      .select(`
+        id,
+        type,
+        stripe_created_at,
+        customer_id,
+        status,
+        attempts,
+        error,
+        skip_reason,
+        received_at,
+        last_attempt_at,
+        processed_at
+      `)
+      .order("received_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (status !== "all") query = query.eq("status", status);
+
+    const { data: events, error } = await query;
+
+    if (error) {
+      console.error("Failed to fetch Stripe events:", error);
+      return NextResponse.json({ error: "Failed to fetch Stripe events" }, { status: 500 });
+    }
+
+    return NextResponse.json({ events: events ?? [] });
+  } catch (err) {
+    console.error("Admin billing events error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient, logAuditAction } from "@/lib/admin";
+
+/**
+ * GET /api/admin/community/bans
+ *
+ * List accounts banned from the community forum.
+ */
+export async function GET() {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const db = getServiceClient();
+    const { data: bans, error } = await db
+      .from("forum_bans")
+      .select(`
+        account_id,
+        reason,
+        created_at,
+        account:accounts(id, display_name),
+        banned_by_admin:admin_users(email)
+      `)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Failed to fetch forum bans:", error);
+      return NextResponse.json({ error: "Failed to fetch bans" }, { status: 500 });
+    }
+
+    return NextResponse.json({ bans: bans ?? [] });
+  } catch (err) {
+    console.error("Admin forum bans GET error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/community/bans
+ *
+ * Ban the account behind a forum author from posting and commenting.
+ * Existing content is left for separate moderation.
+ * Body: { profile_id, reason? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const profileId = body.profile_id as string | undefined;
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+
+    if (!profileId) {
+      return NextResponse.json({ error: "profile_id is required" }, { status: 400 });
+    }
+
+    const db = getServiceClient();
+
+    const { data: profile } = await db
+      .from("business_profiles")
+      .select("id, display_name, account_id")
+      .eq("id", profileId)
+      .single();
+
+    if (!profile?.account_id) {
+      return NextResponse.json({ error: "Author not found" }, { status: 404 });
+    }
+
+    const { error: insertError } = await db.from("forum_bans").insert({
+      account_id: profile.account_id,
+      reason: reason || null,
+      banned_by: adminUser.id,
+    });
+
+    if (insertError) {
+      if (insertError.code === "23505") {
+        return NextResponse.json({ error: "This author is already banned" }, { status: 409 });
+      }
+      console.error("Failed to ban forum author:", insertError);
+      return NextResponse.json({ error: "Failed to ban author" }, { status: 500 });
+    }
+
+    await logAuditAction({
+      adminUserId: adminUser.id,
+      action: "ban_forum_author",
+      targetType: "account",
+      targetId: profile.account_id,
+      details: { profile_id: profile.id, display_name: profile.display_name, reason: reason || null },
+    });
+
+    return NextResponse.json({ account_id: profile.account_id });
+  } catch (err) {
+    console.error("Admin forum bans POST error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/community/bans
+ *
+ * Lift a ban.
+ * Body: { account_id }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const accountId = body.account_id as string | undefined;
+
+    if (!accountId) {
+      return NextResponse.json({ error: "account_id is required" }, { status: 400 });
+    }
+
+    const db = getServiceClient();
+
+    const { data: removed, error: deleteError } = await db
+      .from("forum_bans")
+      .delete()
+      .eq("account_id", accountId)
+      .select("account_id");
+
+    if (deleteError) {
+      console.error("Failed to lift forum ban:", deleteError);
+      return NextResponse.json({ error: "Failed to lift ban" }, { status: 500 });
+    }
+    if (!removed || removed.length === 0) {
+      return NextResponse.json({ error: "Ban not found" }, { status: 404 });
+    }
+
+    await logAuditAction({
+      adminUserId: adminUser.id,
+      action: "unban_forum_author",
+      targetType: "account",
+      targetId: accountId,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Admin forum bans DELETE error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
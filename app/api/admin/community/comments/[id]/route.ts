@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient, logAuditAction } from "@/lib/admin";
+
+type CommentAction = "hide" | "restore" | "dismiss";
+
+/**
+ * PATCH /api/admin/community/comments/[id]
+ *
+ * Moderate a forum comment and resolve its open reports.
+ * Body: { action: "hide" | "restore" | "dismiss" }
+ *
+ * - hide: take the comment (and its replies) down, reports are marked actioned
+ * - restore: republish a hidden comment
+ * - dismiss: keep the comment up, reports are marked dismissed
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as CommentAction;
+
+    if (!["hide", "restore", "dismiss"].includes(action)) {
+      return NextResponse.json(
+        { error: "Invalid action. Must be 'hide', 'restore' or 'dismiss'." },
+        { status: 400 }
+      );
+    }
+
+    const db = getServiceClient();
+
+    const { data: comment, error: commentError } = await db
+      .from("forum_comments")
+      .select("id, post_id, status, author_profile_id")
+      .eq("id", id)
+      .single();
+
+    if (commentError || !comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    if (action !== "dismiss") {
+      const { error: updateError } = await db
+        .from("forum_comments")
+        .update({ status: action === "hide" ? "hidden" : "published" })
+        .eq("id", id);
+
+      if (updateError) {
+        console.error("Failed to update forum comment:", updateError);
+        return NextResponse.json({ error: "Failed to update comment" }, { status: 500 });
+      }
+    }
+
+    if (action !== "restore") {
+      const { error: reportsError } = await db
+        .from("forum_reports")
+        .update({
+          status: action === "hide" ? "actioned" : "dismissed",
+          resolved_by: adminUser.id,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq("comment_id", id)
+        .eq("status", "open");
+
+      if (reportsError) {
+        console.error("Failed to resolve forum reports:", reportsError);
+        return NextResponse.json({ error: "Failed to resolve reports" }, { status: 500 });
+      }
+    }
+
+    await logAuditAction({
+      adminUserId: adminUser.id,
+      action: `${action}_forum_comment`,
+      targetType: "forum_comment",
+      targetId: id,
+      details: {
+        post_id: comment.post_id,
+        author_profile_id: comment.author_profile_id,
+        previous_status: comment.status,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Admin forum comment action error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient, logAuditAction } from "@/lib/admin";
+
+const MAX_CREDENTIAL_LENGTH = 100;
+
+/**
+ * GET /api/admin/community/experts
+ *
+ * List verified community experts.
+ * Query params: search — instead list profiles whose name matches,
+ * for picking someone to verify.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    // Wildcards are ours to add
+    const search = searchParams.get("search")?.replace(/[%_]/g, "").trim();
+
+    const db = getServiceClient();
+
+    if (search) {
+      const { data: profiles, error } = await db
+        .from("business_profiles")
+        .select("id, display_name, type, email, image_url")
+        .ilike("display_name", `%${search}%`)
+        .order("display_name")
+        .limit(10);
+
+      if (error) {
+        console.error("Failed to search profiles:", error);
+        return NextResponse.json({ error: "Failed to search profiles" }, { status: 500 });
+      }
+
+      return NextResponse.json({ profiles: profiles ?? [] });
+    }
+
+    const { data: experts, error } = await db
+      .from("forum_experts")
+      .select(`
+        profile_id,
+        credential,
+        created_at,
+        profile:business_profiles(id, display_name, type, email, image_url),
+        verified_by_admin:admin_users(email)
+      `)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Failed to fetch forum experts:", error);
+      return NextResponse.json({ error: "Failed to fetch experts" }, { status: 500 });
+    }
+
+    return NextResponse.json({ experts: experts ?? [] });
+  } catch (err) {
+    console.error("Admin forum experts GET error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/community/experts
+ *
+ * Verify a profile as a community expert, or change the credential
+ * of an existing one.
+ * Body: { profile_id, credential }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const profileId = body.profile_id as string | undefined;
+    const credential = typeof body.credential === "string" ? body.credential.trim() : "";
+
+    if (!profileId) {
+      return NextResponse.json({ error: "profile_id is required" }, { status: 400 });
+    }
+    if (!credential) {
+      return NextResponse.json({ error: "Credential is required" }, { status: 400 });
+    }
+    if (credential.length > MAX_CREDENTIAL_LENGTH) {
+      return NextResponse.json(
+        { error: `Credentials are limited to ${MAX_CREDENTIAL_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const db = getServiceClient();
+
+    const { data: profile } = await db
+      .from("business_profiles")
+      .select("id, display_name")
+      .eq("id", profileId)
+      .single();
+
+    if (!profile) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    const { error: upsertError } = await db.from("forum_experts").upsert(
+      {
+        profile_id: profile.id,
+        credential,
+        verified_by: adminUser.id,
+      },
+      { onConflict: "profile_id" }
+    );
+
+    if (upsertError) {
+      console.error("Failed to verify forum expert:", upsertError);
+      return NextResponse.json({ error: "Failed to verify expert" }, { status: 500 });
+    }
+
+    await logAuditAction({
+      adminUserId: adminUser.id,
+      action: "verify_forum_expert",
+      targetType: "business_profile",
+      targetId: profile.id,
+      details: { display_name: profile.display_name, credential },
+    });
+
+    return NextResponse.json({ profile_id: profile.id, credential });
+  } catch (err) {
+    console.error("Admin forum experts POST error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/community/experts
+ *
+ * Remove a profile's expert verification.
+ * Body: { profile_id }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const profileId = body.profile_id as string | undefined;
+
+    if (!profileId) {
+      return NextResponse.json({ error: "profile_id is required" }, { status: 400 });
+    }
+
+    const db = getServiceClient();
+
+    const { data: removed, error: deleteError } = await db
+      .from("forum_experts")
+      .delete()
+      .eq("profile_id", profileId)
+      .select("profile_id, credential");
+
+    if (deleteError) {
+      console.error("Failed to remove forum expert:", deleteError);
+      return NextResponse.json({ error: "Failed to remove expert" }, { status: 500 });
+    }
+    if (!removed || removed.length === 0) {
+      return NextResponse.json({ error: "Expert not found" }, { status: 404 });
+    }
+
+    await logAuditAction({
+      adminUserId: adminUser.id,
+      action: "revoke_forum_expert",
+      targetType: "business_profile",
+      targetId: profileId,
+      details: { credential: removed[0].credential },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Admin forum experts DELETE error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient, logAuditAction } from "@/lib/admin";
+
+type PostAction = "hide" | "restore" | "lock" | "unlock" | "pin" | "unpin" | "dismiss";
+
+const POST_UPDATES: Record<Exclude<PostAction, "dismiss">, Record<string, unknown>> = {
+  hide: { status: "hidden" },
+  restore: { status: "published" },
+  lock: { is_locked: true },
+  unlock: { is_locked: false },
+  pin: { is_pinned: true },
+  unpin: { is_pinned: false },
+};
+
+/**
+ * PATCH /api/admin/community/posts/[id]
+ *
+ * Moderate a forum post.
+ * Body: { action: "hide" | "restore" | "lock" | "unlock" | "pin" | "unpin" | "dismiss" }
+ *
+ * - hide: take the post down, open reports are marked actioned
+ * - dismiss: keep the post up, open reports are marked dismissed
+ * - the rest flip status, is_locked or is_pinned and leave reports alone
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as PostAction;
+
+    if (action !== "dismiss" && !(action in POST_UPDATES)) {
+      return NextResponse.json(
+        { error: "Invalid action. Must be one of hide, restore, lock, unlock, pin, unpin or dismiss." },
+        { status: 400 }
+      );
+    }
+
+    const db = getServiceClient();
+
+    const { data: post, error: postError } = await db
+      .from("forum_posts")
+      .select("id, title, status, is_locked, is_pinned, author_profile_id")
+      .eq("id", id)
+      .single();
+
+    if (postError || !post) {
+      return NextResponse.json({ error: "Post not found" }, { status: 404 });
+    }
+
+    if (action !== "dismiss") {
+      const { error: updateError } = await db
+        .from("forum_posts")
+        .update(POST_UPDATES[action])
+        .eq("id", id);
+
+      if (updateError) {
+        console.error("Failed to update forum post:", updateError);
+        return NextResponse.json({ error: "Failed to update post" }, { status: 500 });
+      }
+    }
+
+    if (action === "hide" || action === "dismiss") {
+      const { error: reportsError } = await db
+        .from("forum_reports")
+        .update({
+          status: action === "hide" ? "actioned" : "dismissed",
+          resolved_by: adminUser.id,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq("post_id", id)
+        .eq("status", "open");
+
+      if (reportsError) {
+        console.error("Failed to resolve forum reports:", reportsError);
+        return NextResponse.json({ error: "Failed to resolve reports" }, { status: 500 });
+      }
+    }
+
+    await logAuditAction({
+      adminUserId: adminUser.id,
+      action: `${action}_forum_post`,
+      targetType: "forum_post",
+      targetId: id,
+      details: {
+        title: post.title,
+        author_profile_id: post.author_profile_id,
+        previous_status: post.status,
+        was_locked: post.is_locked,
+        was_pinned: post.is_pinned,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Admin forum post action error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
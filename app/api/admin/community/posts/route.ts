@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient } from "@/lib/admin";
+
+/**
+ * GET /api/admin/community/posts
+ *
+ * List forum posts, including hidden ones, for pinning and locking.
+ * Query params: status ("published" | "hidden" | "pinned" | "locked" | "all",
+ * default: "all"), limit, offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") || "all";
+    const limit = parseInt(searchParams.get("limit") || "50", 10);
+    const offset = parseInt(searchParams.get("offset") || "0", 10);
+
+    const db = getServiceClient();
+
+    let query = db
+      .from("forum_posts")
+      .select(`
+        id,
+        slug,
+        title,
+        care_type,
+        status,
+        is_anonymous,
+        is_pinned,
+        is_locked,
+        like_count,
+        comment_count,
+        view_count,
+        created_at,
+        author:business_profiles(id, display_name, account_id)
+      `)
+      .order("is_pinned", { ascending: false })
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (status === "published" || status === "hidden") {
+      query = query.eq("status", status);
+    } else if (status === "pinned") {
+      query = query.eq("is_pinned", true);
+    } else if (status === "locked") {
+      query = query.eq("is_locked", true);
+    }
+
+    const { data: posts, error } = await query;
+
+    if (error) {
+      console.error("Failed to fetch forum posts:", error);
+      return NextResponse.json({ error: "Failed to fetch forum posts" }, { status: 500 });
+    }
+
+    return NextResponse.json({ posts: posts ?? [] });
+  } catch (err) {
+    console.error("Admin community posts error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient } from "@/lib/admin";
+
+/**
+ * GET /api/admin/community
+ *
+ * List forum reports with the reported post or comment and its real
+ * author (anonymous or not), plus which of those authors are banned.
+ * Query params: status (default: "open"), count_only, limit, offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") || "open";
+    const countOnly = searchParams.get("count_only") === "true";
+    const limit = parseInt(searchParams.get("limit") || "50", 10);
+    const offset = parseInt(searchParams.get("offset") || "0", 10);
+
+    const db = getServiceClient();
+
+    if (countOnly) {
+      let countQuery = db
+        .from("forum_reports")
+        .select("*", { count: "exact", head: true });
+
+      if (status !== "all") countQuery = countQuery.eq("status", status);
+
+      const { count } = await countQuery;
+      return NextResponse.json({ count: count ?? 0 });
+    }
+
+    let query = db
+      .from("forum_reports")
+      .select(`
+        id,
+        reason,
+        details,
+        status,
+        resolved_at,
+        created_at,
+        post:forum_posts(
+          id,
+          slug,
+          title,
+          content,
+          status,
+          is_anonymous,
+          is_locked,
+          is_pinned,
+          author:business_profiles(id, display_name, account_id)
+        ),
+        comment:forum_comments(
+          id,
+          content,
+          status,
+          is_anonymous,
+          post:forum_posts(id, slug, title, is_locked),
+          author:business_profiles(id, display_name, account_id)
+        )
+      `)
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (status !== "all") query = query.eq("status", status);
+
+    const { data: reports, error } = await query;
+
+    if (error) {
+      console.error("Failed to fetch forum reports:", error);
+      return NextResponse.json({ error: "Failed to fetch forum reports" }, { status: 500 });
+    }
+
+    type AuthorRef = { account_id: string | null } | null;
+    const accountIds = [
+      ...new Set(
+        (reports ?? [])
+          .map((r) => {
+            const post = r.post as unknown as { author: AuthorRef } | null;
+            const comment = r.comment as unknown as { author: AuthorRef } | null;
+            return (post ?? comment)?.author?.account_id;
+          })
+          .filter((id): id is string => !!id)
+      ),
+    ];
+
+    const { data: bans } = accountIds.length
+      ? await db.from("forum_bans").select("account_id").in("account_id", accountIds)
+      : { data: [] };
+
+    return NextResponse.json({
+      reports: reports ?? [],
+      banned_account_ids: (bans ?? []).map((b) => b.account_id),
+    });
+  } catch (err) {
+    console.error("Admin community error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
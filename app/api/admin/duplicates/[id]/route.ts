@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient, logAuditAction } from "@/lib/admin";
+import { loadDuplicateRecords } from "@/lib/provider-duplicates";
+import type { DuplicateCluster } from "@/lib/types";
+
+/** merge_duplicate_cluster() outcomes (029) */
+type MergeResult = "merged" | "missing" | "resolved" | "managed";
+
+/**
+ * PATCH /api/admin/duplicates/[id]
+ *
+ * Resolve a duplicate cluster.
+ * Body: { action: "merge", survivor } | { action: "dismiss" }
+ *
+ * - merge: keep the survivor (a member key) and merge the rest into it.
+ *   Connections, saves, messages, appointments, reviews and questions
+ *   move to the survivor's business profile; the other profiles are
+ *   deactivated and the other listings soft-deleted, all in one
+ *   transaction (merge_duplicate_cluster)
+ * - dismiss: not duplicates; detection won't reopen the same cluster
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as "merge" | "dismiss";
+
+    if (!["merge", "dismiss"].includes(action)) {
+      return NextResponse.json(
+        { error: "Invalid action. Must be 'merge' or 'dismiss'." },
+        { status: 400 }
+      );
+    }
+
+    const db = getServiceClient();
+
+    const { data: cluster } = await db
+      .from("provider_duplicate_clusters")
+      .select("*")
+      .eq("id", id)
+      .single<DuplicateCluster>();
+
+    if (!cluster) {
+      return NextResponse.json({ error: "Cluster not found" }, { status: 404 });
+    }
+    if (cluster.status !== "open") {
+      return NextResponse.json({ error: "This cluster has already been resolved" }, { status: 409 });
+    }
+
+    const resolved = {
+      resolved_by: adminUser.id,
+      resolved_at: new Date().toISOString(),
+    };
+
+    if (action === "dismiss") {
+      const { data: dismissed, error } = await db
+        .from("provider_duplicate_clusters")
+        .update({ status: "dismissed", ...resolved })
+        .eq("id", id)
+        .eq("status", "open")
+        .select("id");
+
+      if (error) {
+        console.error("Failed to dismiss duplicate cluster:", error);
+        return NextResponse.json({ error: "Failed to dismiss" }, { status: 500 });
+      }
+      if (!dismissed?.length) {
+        return NextResponse.json({ error: "This cluster has already been resolved" }, { status: 409 });
+      }
+
+      await logAuditAction({
+        adminUserId: adminUser.id,
+        action: "dismiss_duplicates",
+        targetType: "provider_duplicate_cluster",
+        targetId: id,
+        details: { members: cluster.members, reasons: cluster.reasons },
+      });
+
+      return NextResponse.json({ success: true });
+    }
+
+    const survivorKey = typeof body.survivor === "string" ? body.survivor : "";
+    if (!cluster.members.includes(survivorKey)) {
+      return NextResponse.json({ error: "Choose a record from this cluster to keep" }, { status: 400 });
+    }
+
+    const records = await loadDuplicateRecords(db, cluster.members);
+    const survivor = records.find((r) => r.key === survivorKey);
+    if (!survivor || !survivor.active) {
+      return NextResponse.json({ error: "The record to keep no longer exists" }, { status: 409 });
+    }
+
+    const duplicates = records.filter((r) => r.key !== survivorKey && r.active);
+    const managed = duplicates.find((r) => r.account_id !== null);
+    if (managed) {
+      return NextResponse.json(
+        { error: `${managed.name} is managed by a provider account. Keep that record instead.` },
+        { status: 409 }
+      );
+    }
+
+    const mergedKeys = duplicates.map((r) => r.key);
+    const { data: result, error } = await db.rpc("merge_duplicate_cluster", {
+      p_cluster: id,
+      p_survivor: survivorKey,
+      p_survivor_profile: survivor.profile_id,
+      p_duplicate_profiles: duplicates
+        .map((r) => r.profile_id)
+        .filter((profileId): profileId is string => profileId !== null),
+      p_duplicate_listings: duplicates.filter((r) => r.kind === "listing").map((r) => r.id),
+      p_merged: mergedKeys,
+      p_resolved_by: adminUser.id,
+    });
+
+    if (error) {
+      console.error("Failed to merge duplicate cluster:", error);
+      return NextResponse.json({ error: "Failed to merge" }, { status: 500 });
+    }
+
+    switch (result as MergeResult) {
+      case "missing":
+        return NextResponse.json({ error: "The record to keep no longer exists" }, { status: 409 });
+      case "resolved":
+        return NextResponse.json({ error: "This cluster has already been resolved" }, { status: 409 });
+      case "managed":
+        return NextResponse.json(
+          { error: "A record in this cluster is now managed by a provider account. Reload and keep that record instead." },
+          { status: 409 }
+        );
+    }
+
+    await logAuditAction({
+      adminUserId: adminUser.id,
+      action: "merge_providers",
+      targetType: "provider_duplicate_cluster",
+      targetId: id,
+      details: {
+        survivor: survivorKey,
+        survivor_name: survivor.name,
+        merged: mergedKeys,
+        reasons: cluster.reasons,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Admin duplicate merge error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient } from "@/lib/admin";
+import { loadDuplicateRecords, runDuplicateDetection } from "@/lib/provider-duplicates";
+import type { DuplicateCluster } from "@/lib/types";
+
+/**
+ * GET /api/admin/duplicates
+ *
+ * List duplicate clusters with their member records.
+ * Query params: status (default: "open"), count_only, limit, offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") || "open";
+    const countOnly = searchParams.get("count_only") === "true";
+    const limit = Math.min(parseInt(searchParams.get("limit") || "25", 10), 100);
+    const offset = parseInt(searchParams.get("offset") || "0", 10);
+
+    const db = getServiceClient();
+
+    let query = db
+      .from("provider_duplicate_clusters")
+      .select("*", { count: "exact", head: countOnly });
+
+    if (status !== "all") query = query.eq("status", status);
+
+    if (countOnly) {
+      const { count } = await query;
+      return NextResponse.json({ count: count ?? 0 });
+    }
+
+    const { data, count, error } = await query
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error("Failed to fetch duplicate clusters:", error);
+      return NextResponse.json({ error: "Failed to fetch duplicates" }, { status: 500 });
+    }
+
+    const clusters = (data as DuplicateCluster[] | null) ?? [];
+    const records = await loadDuplicateRecords(
+      db,
+      [...new Set(clusters.flatMap((c) => c.members))]
+    );
+    const byKey = new Map(records.map((r) => [r.key, r]));
+
+    return NextResponse.json({
+      clusters: clusters.map((cluster) => ({
+        ...cluster,
+        records: cluster.members.flatMap((key) => byKey.get(key) ?? []),
+      })),
+      total: count ?? 0,
+    });
+  } catch (err) {
+    console.error("Admin duplicates error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/duplicates
+ *
+ * Run duplicate detection now instead of waiting for the weekly job.
+ */
+export async function POST() {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const result = await runDuplicateDetection();
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("Duplicate detection error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient } from "@/lib/admin";
+import { PROVIDER_COLUMNS, slugify, toCsvLine } from "@/lib/provider-import";
+import { escapeLike } from "@/lib/provider-search";
+import { PROVIDERS_TABLE, type Provider } from "@/lib/types/provider";
+
+const PAGE_SIZE = 1000;
+
+/**
+ * GET /api/admin/export
+ *
+ * Stream olera-providers as CSV, in the columns /admin/import reads.
+ * Query params: state, city, category, include_deleted
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const state = searchParams.get("state")?.trim().toUpperCase() || null;
+    const city = searchParams.get("city")?.trim() || null;
+    const category = searchParams.get("category")?.trim() || null;
+    const includeDeleted = searchParams.get("include_deleted") === "true";
+
+    const db = getServiceClient();
+    const encoder = new TextEncoder();
+    // Keyset pagination on provider_id keeps each page query cheap
+    let lastId: string | null = null;
+    let headerSent = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (!headerSent) {
+          headerSent = true;
+          controller.enqueue(encoder.encode(toCsvLine(PROVIDER_COLUMNS) + "\n"));
+          return;
+        }
+
+        let query = db
+          .from(PROVIDERS_TABLE)
+          .select(PROVIDER_COLUMNS.join(", "))
+          .order("provider_id")
+          .limit(PAGE_SIZE);
+        if (!includeDeleted) query = query.eq("deleted", false);
+        if (state) query = query.eq("state", state);
+        if (city) query = query.ilike("city", escapeLike(city));
+        if (category) query = query.eq("provider_category", category);
+        if (lastId !== null) query = query.gt("provider_id", lastId);
+
+        const { data, error } = await query;
+        if (error) {
+          console.error("Provider export page failed:", error);
+          controller.error(error);
+          return;
+        }
+
+        const rows = (data as unknown as Provider[] | null) ?? [];
+        if (rows.length > 0) {
+          const lines = rows.map((row) => toCsvLine(PROVIDER_COLUMNS.map((column) => row[column])));
+          controller.enqueue(encoder.encode(lines.join("\n") + "\n"));
+          lastId = String(rows[rows.length - 1].provider_id);
+        }
+        if (rows.length < PAGE_SIZE) controller.close();
+      },
+    });
+
+    const filename = ["olera-providers", state, city && slugify(city), new Date().toISOString().slice(0, 10)]
+      .filter(Boolean)
+      .join("-");
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("Provider export error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,245 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient, logAuditAction } from "@/lib/admin";
+import {
+  ImportFileError,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ROWS,
+  getUnknownColumns,
+  normalizeName,
+  normalizePhone,
+  parseImportFile,
+  validateProviderRow,
+  type ImportFormat,
+  type ImportPreview,
+  type ImportProvider,
+  type ImportRowResult,
+} from "@/lib/provider-import";
+import { PROVIDERS_TABLE } from "@/lib/types/provider";
+
+const UPSERT_BATCH_SIZE = 500;
+const LOOKUP_BATCH_SIZE = 200;
+
+type ServiceClient = ReturnType<typeof getServiceClient>;
+
+interface MatchRow {
+  provider_id: string;
+  provider_name: string;
+  phone_key: string | null;
+  name_key: string | null;
+}
+
+function getNameKey(provider: ImportProvider): string | null {
+  const name = normalizeName(provider.provider_name);
+  if (!name || !provider.city || !provider.state) return null;
+  return `${name}|${provider.city.trim().toLowerCase()}|${provider.state}`;
+}
+
+/** provider_ids from the file that are already in the table. */
+async function findExistingIds(db: ServiceClient, ids: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+  for (let i = 0; i < ids.length; i += LOOKUP_BATCH_SIZE) {
+    const { data, error } = await db
+      .from(PROVIDERS_TABLE)
+      .select("provider_id")
+      .in("provider_id", ids.slice(i, i + LOOKUP_BATCH_SIZE));
+    if (error) throw error;
+    for (const row of data ?? []) existing.add(String(row.provider_id));
+  }
+  return existing;
+}
+
+/**
+ * Validate the file and check each row against the table and the rest
+ * of the file. Rows with errors are skipped on import; warnings are
+ * for the admin to judge.
+ */
+async function buildPreview(
+  db: ServiceClient,
+  records: Record<string, unknown>[]
+): Promise<{ preview: ImportPreview; providers: ImportProvider[] }> {
+  const rows: ImportRowResult[] = [];
+  const valid: { result: ImportRowResult; provider: ImportProvider }[] = [];
+  const seenIds = new Map<string, number>();
+  const seenPhones = new Map<string, number>();
+  const seenNames = new Map<string, number>();
+
+  records.forEach((record, index) => {
+    const { provider, errors } = validateProviderRow(record);
+    const result: ImportRowResult = {
+      row: index + 1,
+      provider_id: provider?.provider_id ?? null,
+      name: String(record.provider_name ?? "").trim(),
+      action: null,
+      errors,
+      warnings: [],
+    };
+    rows.push(result);
+    if (!provider) return;
+
+    const earlier = seenIds.get(provider.provider_id);
+    if (earlier) {
+      result.errors.push(`provider_id ${provider.provider_id} is also on row ${earlier}`);
+      return;
+    }
+    seenIds.set(provider.provider_id, result.row);
+
+    const phoneKey = normalizePhone(provider.phone);
+    const nameKey = getNameKey(provider);
+    if (phoneKey && seenPhones.has(phoneKey)) {
+      result.warnings.push(`Same phone as row ${seenPhones.get(phoneKey)}`);
+    } else if (phoneKey) {
+      seenPhones.set(phoneKey, result.row);
+    }
+    if (nameKey && seenNames.has(nameKey)) {
+      result.warnings.push(`Same name and city as row ${seenNames.get(nameKey)}`);
+    } else if (nameKey) {
+      seenNames.set(nameKey, result.row);
+    }
+
+    valid.push({ result, provider });
+  });
+
+  const providers = valid.map((v) => v.provider);
+  const existing = await findExistingIds(db, providers.map((p) => p.provider_id));
+
+  const phones = [...new Set(providers.map((p) => normalizePhone(p.phone)).filter((k) => k !== null))];
+  const nameKeys = [...new Set(providers.map(getNameKey).filter((k) => k !== null))];
+  const { data: matches, error } = await db.rpc("find_matching_providers", {
+    p_phones: phones,
+    p_name_keys: nameKeys,
+  });
+  if (error) throw error;
+
+  const byPhone = new Map<string, MatchRow[]>();
+  const byName = new Map<string, MatchRow[]>();
+  for (const match of (matches as MatchRow[] | null) ?? []) {
+    if (match.phone_key) byPhone.set(match.phone_key, [...(byPhone.get(match.phone_key) ?? []), match]);
+    if (match.name_key) byName.set(match.name_key, [...(byName.get(match.name_key) ?? []), match]);
+  }
+
+  for (const { result, provider } of valid) {
+    result.action = existing.has(provider.provider_id) ? "update" : "create";
+
+    const others = (list: MatchRow[] | undefined) =>
+      (list ?? []).filter((m) => m.provider_id !== provider.provider_id);
+    const phoneKey = normalizePhone(provider.phone);
+    const nameKey = getNameKey(provider);
+    for (const match of phoneKey ? others(byPhone.get(phoneKey)) : []) {
+      result.warnings.push(`Same phone as ${match.provider_name} (${match.provider_id})`);
+    }
+    for (const match of nameKey ? others(byName.get(nameKey)) : []) {
+      result.warnings.push(`Same name and city as ${match.provider_name} (${match.provider_id})`);
+    }
+  }
+
+  const unknownColumns = getUnknownColumns(records);
+
+  return {
+    preview: {
+      rows,
+      valid: valid.length,
+      invalid: rows.length - valid.length,
+      warnings: unknownColumns.length > 0 ? [`Ignored columns: ${unknownColumns.join(", ")}`] : [],
+    },
+    providers,
+  };
+}
+
+/**
+ * POST /api/admin/import
+ *
+ * Bulk import into olera-providers. Multipart form data:
+ *   file     - .csv or .json in the Provider shape
+ *   dry_run  - "true" to only validate and preview
+ *
+ * Rows with errors are skipped; the rest are upserted on provider_id
+ * and published (deleted = false).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const dryRun = formData.get("dry_run") === "true";
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "A file is required" }, { status: 400 });
+    }
+    if (file.size > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: "Files must be 10 MB or smaller" }, { status: 400 });
+    }
+
+    const extension = file.name.split(".").pop()?.toLowerCase();
+    if (extension !== "csv" && extension !== "json") {
+      return NextResponse.json({ error: "Upload a .csv or .json file" }, { status: 400 });
+    }
+
+    let records: Record<string, unknown>[];
+    try {
+      records = parseImportFile(await file.text(), extension as ImportFormat);
+    } catch (err) {
+      if (err instanceof ImportFileError) {
+        return NextResponse.json({ error: err.message }, { status: 400 });
+      }
+      throw err;
+    }
+
+    if (records.length === 0) {
+      return NextResponse.json({ error: "The file has no provider rows" }, { status: 400 });
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `Import at most ${MAX_IMPORT_ROWS.toLocaleString()} rows at a time` },
+        { status: 400 }
+      );
+    }
+
+    const db = getServiceClient();
+    const { preview, providers } = await buildPreview(db, records);
+
+    if (dryRun) {
+      return NextResponse.json({ preview });
+    }
+
+    let imported = 0;
+    for (let i = 0; i < providers.length; i += UPSERT_BATCH_SIZE) {
+      const batch = providers
+        .slice(i, i + UPSERT_BATCH_SIZE)
+        .map((p) => ({ ...p, deleted: false, deleted_at: null }));
+      const { error } = await db.from(PROVIDERS_TABLE).upsert(batch, { onConflict: "provider_id" });
+      if (error) {
+        console.error("Provider import batch failed:", error);
+        return NextResponse.json(
+          { error: `Import stopped after ${imported} rows: ${error.message}`, imported, preview },
+          { status: 500 }
+        );
+      }
+      imported += batch.length;
+    }
+
+    const created = preview.rows.filter((r) => r.action === "create").length;
+    const updated = preview.rows.filter((r) => r.action === "update").length;
+
+    await logAuditAction({
+      adminUserId: adminUser.id,
+      action: "import_providers",
+      targetType: "olera_providers",
+      targetId: file.name,
+      details: { created, updated, skipped: preview.invalid },
+    });
+
+    return NextResponse.json({ imported, created, updated, skipped: preview.invalid, preview });
+  } catch (err) {
+    console.error("Provider import error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
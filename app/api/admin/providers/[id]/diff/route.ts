@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient } from "@/lib/admin";
+import { iosProviderToProfile } from "@/lib/mock-providers";
+import { diffWithSeed } from "@/lib/provider-merge";
+import type { Profile } from "@/lib/types";
+import { PROVIDERS_TABLE, type Provider as IOSProvider } from "@/lib/types/provider";
+
+/**
+ * GET /api/admin/providers/[id]/diff
+ *
+ * What the owner of a business profile changed compared with the
+ * olera-providers listing it was claimed from. Profiles that didn't
+ * come from a listing have nothing to compare and return no changes.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const db = getServiceClient();
+
+    const { data: profile } = await db
+      .from("business_profiles")
+      .select("*")
+      .eq("id", id)
+      .single<Profile>();
+
+    if (!profile) {
+      return NextResponse.json({ error: "Provider not found" }, { status: 404 });
+    }
+
+    if (!profile.source_provider_id) {
+      return NextResponse.json({ source_provider_id: null, changes: [] });
+    }
+
+    const { data: source } = await db
+      .from(PROVIDERS_TABLE)
+      .select("*")
+      .eq("provider_id", profile.source_provider_id)
+      .maybeSingle<IOSProvider>();
+
+    if (!source) {
+      return NextResponse.json({ source_provider_id: profile.source_provider_id, changes: [] });
+    }
+
+    return NextResponse.json({
+      source_provider_id: profile.source_provider_id,
+      changes: diffWithSeed(iosProviderToProfile(source), profile),
+    });
+  } catch (err) {
+    console.error("Admin provider diff error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
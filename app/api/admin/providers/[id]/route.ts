@@ -1,11 +1,49 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser, getAdminUser, getServiceClient, logAuditAction } from "@/lib/admin";
+import { sendEmail } from "@/lib/email";
+
+type ServiceClient = ReturnType<typeof getServiceClient>;
+
+/**
+ * Tell the claimant how their claim went. The reject reason is
+ * included verbatim so they know what to fix.
+ */
+async function notifyClaimant(
+  db: ServiceClient,
+  accountId: string,
+  profileName: string,
+  approved: boolean,
+  reason: string | null
+) {
+  const { data: account } = await db
+    .from("accounts")
+    .select("user_id")
+    .eq("id", accountId)
+    .single();
+  if (!account) return;
+
+  const { data } = await db.auth.admin.getUserById(account.user_id);
+  const email = data.user?.email;
+  if (!email) return;
+
+  await sendEmail({
+    to: email,
+    subject: approved
+      ? `Your claim for ${profileName} is approved`
+      : `Your claim for ${profileName} wasn't approved`,
+    text: approved
+      ? `Good news: you now manage ${profileName} on Olera. Sign in to your portal to respond to families and keep your listing up to date.`
+      : `We couldn't approve your claim for ${profileName}.\n\nReason: ${reason}\n\nReply to this email if you have more evidence and we'll take another look.`,
+  });
+}
 
 /**
  * PATCH /api/admin/providers/[id]
  *
- * Approve or reject a provider claim.
- * Body: { action: "approve" | "reject" }
+ * Approve or reject a provider claim. The claimant is emailed the
+ * decision, with the reason when rejected. Returns 409 when approving
+ * a claim on a listing that already has an approved owner.
+ * Body: { action: "approve" | "reject", reason? }
  */
 export async function PATCH(
   request: NextRequest,
@@ -25,6 +63,7 @@ export async function PATCH(
     const { id } = await params;
     const body = await request.json();
     const action = body.action as string;
+    const reason = typeof body.reason === "string" ? body.reason.trim() : "";
 
     if (!["approve", "reject"].includes(action)) {
       return NextResponse.json(
@@ -32,6 +71,9 @@ export async function PATCH(
         { status: 400 }
       );
     }
+    if (action === "reject" && !reason) {
+      return NextResponse.json({ error: "A reason is required to reject a claim" }, { status: 400 });
+    }
 
     const newState = action === "approve" ? "claimed" : "rejected";
     const db = getServiceClient();
@@ -40,14 +82,37 @@ export async function PATCH(
       .from("business_profiles")
       .update({ claim_state: newState, updated_at: new Date().toISOString() })
       .eq("id", id)
-      .select("id, display_name, claim_state")
+      .select("id, account_id, display_name, claim_state")
       .single();
 
     if (updateError) {
+      // Another profile is already the approved owner of this listing
+      if (updateError.code === "23505") {
+        return NextResponse.json(
+          { error: "Another profile already manages this listing" },
+          { status: 409 }
+        );
+      }
       console.error("Failed to update provider:", updateError);
       return NextResponse.json({ error: "Failed to update provider" }, { status: 500 });
     }
 
+    if (profile.account_id) {
+      // Upsert so the reason reaches claimants who submitted no evidence
+      await db.from("claim_verifications").upsert(
+        {
+          profile_id: id,
+          account_id: profile.account_id,
+          reject_reason: action === "reject" ? reason : null,
+          reviewed_by: adminUser.id,
+          reviewed_at: new Date().toISOString(),
+        },
+        { onConflict: "profile_id,account_id" }
+      );
+
+      await notifyClaimant(db, profile.account_id, profile.display_name, action === "approve", reason || null);
+    }
+
     // Log audit action
     await logAuditAction({
       adminUserId: adminUser.id,
@@ -57,6 +122,7 @@ export async function PATCH(
       details: {
         provider_name: profile?.display_name,
         new_state: newState,
+        ...(reason && { reason }),
       },
     });
 
@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getAuthUser, getAdminUser, getServiceClient } from "@/lib/admin";
+import type { ClaimVerification } from "@/lib/types";
+
+/** How long document links in the review queue stay valid */
+const DOCUMENT_URL_TTL_SECONDS = 60 * 60;
 
 /**
  * GET /api/admin/providers
  *
- * List business profiles filtered by claim_state.
+ * List business profiles filtered by claim_state, each with the current
+ * claimant's evidence and automated score.
  * Query params: status (default: "pending"), count_only, limit, offset
  */
 export async function GET(request: NextRequest) {
@@ -39,7 +44,7 @@ export async function GET(request: NextRequest) {
 
     let query = db
       .from("business_profiles")
-      .select("id, display_name, type, category, city, state, claim_state, created_at, email, phone")
+      .select("id, account_id, display_name, type, category, city, state, claim_state, created_at, email, phone, website")
       .in("type", ["organization", "caregiver"])
       .order("created_at", { ascending: false })
       .range(offset, offset + limit - 1);
@@ -55,7 +60,40 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Failed to fetch providers" }, { status: 500 });
     }
 
-    return NextResponse.json({ providers: providers ?? [] });
+    const rows = providers ?? [];
+    const { data: verifications } = rows.length
+      ? await db
+          .from("claim_verifications")
+          .select("*")
+          .in("profile_id", rows.map((p) => p.id))
+      : { data: [] };
+
+    // Evidence from whoever holds the profile now; the email code hash
+    // never leaves the server
+    const owners = new Map(rows.map((p) => [p.id, p.account_id]));
+    const byProfile = new Map<string, Omit<ClaimVerification, "email_code_hash"> & { document_url: string | null }>();
+    for (const v of (verifications as ClaimVerification[]) ?? []) {
+      if (owners.get(v.profile_id) !== v.account_id) continue;
+      const { email_code_hash, ...rest } = v;
+      byProfile.set(v.profile_id, { ...rest, document_url: null });
+    }
+
+    const withDocuments = [...byProfile.values()].filter((v) => v.document_path);
+    if (withDocuments.length > 0) {
+      const { data: urls } = await db.storage
+        .from("claim-documents")
+        .createSignedUrls(
+          withDocuments.map((v) => v.document_path!),
+          DOCUMENT_URL_TTL_SECONDS
+        );
+      withDocuments.forEach((v, i) => {
+        v.document_url = urls?.[i]?.signedUrl ?? null;
+      });
+    }
+
+    return NextResponse.json({
+      providers: rows.map((p) => ({ ...p, verification: byProfile.get(p.id) ?? null })),
+    });
   } catch (err) {
     console.error("Admin providers error:", err);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient, logAuditAction } from "@/lib/admin";
+
+type ReviewAction = "hide" | "restore" | "dismiss";
+
+/**
+ * PATCH /api/admin/reviews/[id]
+ *
+ * Moderate a review and resolve its open reports.
+ * Body: { action: "hide" | "restore" | "dismiss" }
+ *
+ * - hide: unpublish the review, reports are marked actioned
+ * - restore: republish a hidden review
+ * - dismiss: keep the review up, reports are marked dismissed
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const action = body.action as ReviewAction;
+
+    if (!["hide", "restore", "dismiss"].includes(action)) {
+      return NextResponse.json(
+        { error: "Invalid action. Must be 'hide', 'restore' or 'dismiss'." },
+        { status: 400 }
+      );
+    }
+
+    const db = getServiceClient();
+
+    const { data: review, error: reviewError } = await db
+      .from("reviews")
+      .select("id, status, provider_profile_id")
+      .eq("id", id)
+      .single();
+
+    if (reviewError || !review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+
+    if (action !== "dismiss") {
+      const { error: updateError } = await db
+        .from("reviews")
+        .update({ status: action === "hide" ? "hidden" : "published" })
+        .eq("id", id);
+
+      if (updateError) {
+        console.error("Failed to update review:", updateError);
+        return NextResponse.json({ error: "Failed to update review" }, { status: 500 });
+      }
+    }
+
+    if (action !== "restore") {
+      const { error: reportsError } = await db
+        .from("review_reports")
+        .update({
+          status: action === "hide" ? "actioned" : "dismissed",
+          resolved_by: adminUser.id,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq("review_id", id)
+        .eq("status", "open");
+
+      if (reportsError) {
+        console.error("Failed to resolve review reports:", reportsError);
+        return NextResponse.json({ error: "Failed to resolve reports" }, { status: 500 });
+      }
+    }
+
+    await logAuditAction({
+      adminUserId: adminUser.id,
+      action: `${action}_review`,
+      targetType: "review",
+      targetId: id,
+      details: {
+        provider_profile_id: review.provider_profile_id,
+        previous_status: review.status,
+      },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Admin review action error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
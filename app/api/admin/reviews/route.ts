@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getAdminUser, getServiceClient } from "@/lib/admin";
+
+/**
+ * GET /api/admin/reviews
+ *
+ * List review reports with the reported review and both profiles.
+ * Query params: status (default: "open"), count_only, limit, offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const adminUser = await getAdminUser(user.id);
+    if (!adminUser) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") || "open";
+    const countOnly = searchParams.get("count_only") === "true";
+    const limit = parseInt(searchParams.get("limit") || "50", 10);
+    const offset = parseInt(searchParams.get("offset") || "0", 10);
+
+    const db = getServiceClient();
+
+    if (countOnly) {
+      let countQuery = db
+        .from("review_reports")
+        .select("*", { count: "exact", head: true });
+
+      if (status !== "all") countQuery = countQuery.eq("status", status);
+
+      const { count } = await countQuery;
+      return NextResponse.json({ count: count ?? 0 });
+    }
+
+    let query = db
+      .from("review_reports")
+      .select(`
+        id,
+        reason,
+        details,
+        status,
+        resolved_at,
+        created_at,
+        review:reviews(
+          id,
+          rating,
+          body,
+          status,
+          provider_response,
+          created_at,
+          provider:business_profiles!reviews_provider_profile_id_fkey(id, display_name, slug),
+          reviewer:business_profiles!reviews_reviewer_profile_id_fkey(id, display_name)
+        )
+      `)
+      .order("created_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (status !== "all") query = query.eq("status", status);
+
+    const { data: reports, error } = await query;
+
+    if (error) {
+      console.error("Failed to fetch review reports:", error);
+      return NextResponse.json({ error: "Failed to fetch review reports" }, { status: 500 });
+    }
+
+    return NextResponse.json({ reports: reports ?? [] });
+  } catch (err) {
+    console.error("Admin reviews error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
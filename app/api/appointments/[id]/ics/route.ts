@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getServiceClient } from "@/lib/admin";
+import { getDetailsAccess } from "@/lib/engagement";
+import { appointmentToEvent, buildCalendar } from "@/lib/ical";
+import type { Appointment, Profile } from "@/lib/types";
+
+/**
+ * GET /api/appointments/[id]/ics
+ *
+ * One-off .ics download for a single appointment. RLS limits the
+ * appointment to its participants; the family is only named once the
+ * provider has access to the inquiry.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    const { data: appointmentData } = await supabase
+      .from("appointments")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (!appointmentData) {
+      return NextResponse.json({ error: "Appointment not found" }, { status: 404 });
+    }
+
+    const appointment = appointmentData as Appointment;
+
+    const { data: profileData } = await supabase
+      .from("business_profiles")
+      .select("*")
+      .in("id", [appointment.provider_profile_id, appointment.family_profile_id]);
+
+    const profiles = new Map<string, Profile>(
+      ((profileData as Profile[]) || []).map((p) => [p.id, p])
+    );
+
+    // Title the event from whichever side the caller is on
+    const { data: account } = await supabase
+      .from("accounts")
+      .select("id")
+      .eq("user_id", user.id)
+      .single();
+
+    const provider = profiles.get(appointment.provider_profile_id);
+    const viewerProfileId =
+      account && provider?.account_id === account.id
+        ? appointment.provider_profile_id
+        : appointment.family_profile_id;
+
+    const viewer = profiles.get(viewerProfileId);
+    const access = viewer
+      ? await getDetailsAccess(getServiceClient(), viewer, [appointment.connection_id])
+      : new Map<string, boolean>();
+
+    const ics = buildCalendar({
+      events: [
+        appointmentToEvent(
+          appointment,
+          viewerProfileId,
+          profiles,
+          request.nextUrl.origin,
+          access.get(appointment.connection_id) ?? false
+        ),
+      ],
+    });
+
+    return new NextResponse(ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="olera-${appointment.appointment_type}.ics"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("Appointment ics error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import {
+  awaitsConfirmationFrom,
+  isAppointmentActive,
+  slotMatchesType,
+} from "@/lib/appointments";
+import { getEngager } from "@/lib/engagement";
+import { hasTeamPermission } from "@/lib/team";
+import type { Appointment, AvailabilitySlot } from "@/lib/types";
+
+type AppointmentAction = "confirm" | "reschedule" | "cancel";
+
+const ACTIONS: AppointmentAction[] = ["confirm", "reschedule", "cancel"];
+
+/**
+ * PATCH /api/appointments/[id]
+ *
+ * Confirm, reschedule or cancel an appointment as one of its participants.
+ * Body: { profile_id, action, slot_id? | starts_at? + ends_at? }
+ *
+ * - confirm: only the participant who did NOT propose the current time
+ * - reschedule: either participant; to one of the provider's open slots
+ *   or a custom time. The proposer becomes the caller, so the other side
+ *   confirms next.
+ * - cancel: either participant, while the appointment is still active
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const profileId = body.profile_id as string | undefined;
+    const action = body.action as AppointmentAction;
+
+    if (!profileId) {
+      return NextResponse.json({ error: "profile_id is required" }, { status: 400 });
+    }
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    const db = getServiceClient();
+    const engager = await getEngager(db, user.id, profileId);
+    if (!engager) {
+      return NextResponse.json({ error: "Appointment not found" }, { status: 404 });
+    }
+
+    const { data: appointmentData } = await db
+      .from("appointments")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+    const appointment = appointmentData as Appointment | null;
+
+    if (
+      !appointment ||
+      (appointment.provider_profile_id !== profileId && appointment.family_profile_id !== profileId)
+    ) {
+      return NextResponse.json({ error: "Appointment not found" }, { status: 404 });
+    }
+    if (!hasTeamPermission(engager.role, "respond")) {
+      return NextResponse.json(
+        { error: "Your team role can't manage appointments for this profile" },
+        { status: 403 }
+      );
+    }
+    if (!isAppointmentActive(appointment) || new Date(appointment.ends_at) < new Date()) {
+      return NextResponse.json({ error: `This appointment is ${appointment.status}` }, { status: 409 });
+    }
+
+    let changes: Partial<Appointment>;
+
+    switch (action) {
+      case "confirm":
+        if (!awaitsConfirmationFrom(appointment, profileId)) {
+          return NextResponse.json(
+            { error: "Only the other participant can confirm this time" },
+            { status: 403 }
+          );
+        }
+        changes = { status: "confirmed" };
+        break;
+
+      case "cancel":
+        changes = { status: "canceled", canceled_by_profile_id: profileId };
+        break;
+
+      case "reschedule": {
+        const time = await resolveNewTime(db, appointment, body);
+        if (time instanceof NextResponse) return time;
+        changes = { ...time, status: "requested", requested_by_profile_id: profileId };
+        break;
+      }
+    }
+
+    const { data: updated, error: updateError } = await db
+      .from("appointments")
+      .update(changes)
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (updateError) {
+      if (updateError.code === "23505") {
+        return NextResponse.json(
+          { error: "That time was just booked. Please pick another." },
+          { status: 409 }
+        );
+      }
+      console.error("Failed to update appointment:", updateError);
+      return NextResponse.json({ error: "Failed to update appointment" }, { status: 500 });
+    }
+
+    return NextResponse.json({ appointment: updated });
+  } catch (err) {
+    console.error("Appointment update error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * The proposed time for a reschedule: one of the provider's open slots
+ * for this appointment type, or a custom future time.
+ */
+async function resolveNewTime(
+  db: ReturnType<typeof getServiceClient>,
+  appointment: Appointment,
+  body: { slot_id?: unknown; starts_at?: unknown; ends_at?: unknown }
+): Promise<Pick<Appointment, "slot_id" | "starts_at" | "ends_at" | "timezone"> | NextResponse> {
+  if (typeof body.slot_id === "string") {
+    const { data } = await db
+      .from("availability_slots")
+      .select("*")
+      .eq("id", body.slot_id)
+      .maybeSingle();
+    const slot = data as AvailabilitySlot | null;
+
+    if (
+      !slot ||
+      slot.profile_id !== appointment.provider_profile_id ||
+      !slotMatchesType(slot, appointment.appointment_type)
+    ) {
+      return NextResponse.json({ error: "That time isn't available" }, { status: 400 });
+    }
+    if (slot.is_booked && slot.id !== appointment.slot_id) {
+      return NextResponse.json(
+        { error: "That time was just booked. Please pick another." },
+        { status: 409 }
+      );
+    }
+    return { slot_id: slot.id, starts_at: slot.starts_at, ends_at: slot.ends_at, timezone: slot.timezone };
+  }
+
+  const startsAt = typeof body.starts_at === "string" ? new Date(body.starts_at) : null;
+  const endsAt = typeof body.ends_at === "string" ? new Date(body.ends_at) : null;
+  if (
+    !startsAt ||
+    !endsAt ||
+    isNaN(startsAt.getTime()) ||
+    isNaN(endsAt.getTime()) ||
+    endsAt <= startsAt
+  ) {
+    return NextResponse.json({ error: "A valid start and end time are required" }, { status: 400 });
+  }
+  if (startsAt < new Date()) {
+    return NextResponse.json({ error: "Pick a time in the future" }, { status: 400 });
+  }
+
+  return {
+    slot_id: null,
+    starts_at: startsAt.toISOString(),
+    ends_at: endsAt.toISOString(),
+    timezone: appointment.timezone,
+  };
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServiceClient } from "@/lib/admin";
+import { getDetailsAccess } from "@/lib/engagement";
+import { appointmentToEvent, buildCalendar } from "@/lib/ical";
+import type { Appointment, Profile } from "@/lib/types";
+
+// Keep past appointments in the feed for a while so calendar history
+// doesn't disappear the moment a visit ends.
+const HISTORY_DAYS = 90;
+
+/**
+ * GET /api/calendar/[token].ics
+ *
+ * Subscribable iCalendar feed of a profile's appointments. The token is
+ * the only credential, so this reads with the service role. Canceled
+ * appointments stay in the feed (STATUS:CANCELLED) so subscribed
+ * clients remove them. Families are only named (and their notes
+ * included) once the provider has access, as in the portal.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token: rawToken } = await params;
+    const token = rawToken.replace(/\.ics$/i, "");
+
+    if (!/^[a-f0-9]{32,}$/.test(token)) {
+      return NextResponse.json({ error: "Feed not found" }, { status: 404 });
+    }
+
+    const db = getServiceClient();
+
+    const { data: feed } = await db
+      .from("calendar_feeds")
+      .select("profile_id")
+      .eq("token", token)
+      .single();
+
+    if (!feed) {
+      return NextResponse.json({ error: "Feed not found" }, { status: 404 });
+    }
+
+    const profileId = feed.profile_id as string;
+    const since = new Date(Date.now() - HISTORY_DAYS * 86_400_000).toISOString();
+
+    const { data: appointmentData, error } = await db
+      .from("appointments")
+      .select("*")
+      .or(`provider_profile_id.eq.${profileId},family_profile_id.eq.${profileId}`)
+      .gte("starts_at", since)
+      .order("starts_at", { ascending: true });
+
+    if (error) {
+      console.error("Calendar feed query error:", error);
+      return NextResponse.json({ error: "Failed to load feed" }, { status: 500 });
+    }
+
+    const appointments = (appointmentData as Appointment[]) || [];
+
+    const profileIds = new Set<string>([profileId]);
+    for (const a of appointments) {
+      profileIds.add(a.provider_profile_id);
+      profileIds.add(a.family_profile_id);
+    }
+
+    const { data: profileData } = await db
+      .from("business_profiles")
+      .select("*")
+      .in("id", Array.from(profileIds));
+
+    const profiles = new Map<string, Profile>(
+      ((profileData as Profile[]) || []).map((p) => [p.id, p])
+    );
+
+    const viewer = profiles.get(profileId);
+    const access = viewer
+      ? await getDetailsAccess(db, viewer, appointments.map((a) => a.connection_id))
+      : new Map<string, boolean>();
+
+    const origin = request.nextUrl.origin;
+    const ics = buildCalendar({
+      name: `Olera — ${viewer?.display_name || "Appointments"}`,
+      events: appointments.map((a) =>
+        appointmentToEvent(a, profileId, profiles, origin, access.get(a.connection_id) ?? false)
+      ),
+    });
+
+    return new NextResponse(ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="olera.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (err) {
+    console.error("Calendar feed error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,146 @@
+import { randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+function generateToken() {
+  return randomBytes(24).toString("hex");
+}
+
+function feedUrl(origin: string, token: string) {
+  return `${origin}/api/calendar/${token}.ics`;
+}
+
+/**
+ * Verify the signed-in user owns the profile. Returns an error response
+ * when they don't.
+ */
+async function authorize(supabase: ServerClient, profileId: string | null) {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  if (!profileId) {
+    return NextResponse.json({ error: "profile_id is required" }, { status: 400 });
+  }
+
+  const { data: account } = await supabase
+    .from("accounts")
+    .select("id")
+    .eq("user_id", user.id)
+    .single();
+
+  const { data: profile } = account
+    ? await supabase
+        .from("business_profiles")
+        .select("id")
+        .eq("id", profileId)
+        .eq("account_id", account.id)
+        .single()
+    : { data: null };
+
+  if (!profile) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/calendar/feed?profile_id=...
+ *
+ * Returns the profile's subscribable feed URL, creating the token on
+ * first use.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+
+    const denied = await authorize(supabase, profileId);
+    if (denied) return denied;
+
+    const { data: existing } = await supabase
+      .from("calendar_feeds")
+      .select("token")
+      .eq("profile_id", profileId)
+      .single();
+
+    let token = existing?.token as string | undefined;
+
+    if (!token) {
+      const { data: created, error } = await supabase
+        .from("calendar_feeds")
+        .insert({ profile_id: profileId, token: generateToken() })
+        .select("token")
+        .single();
+
+      if (error) {
+        // Created concurrently — read the winner
+        if (error.code === "23505") {
+          const { data: raced } = await supabase
+            .from("calendar_feeds")
+            .select("token")
+            .eq("profile_id", profileId)
+            .single();
+          token = raced?.token;
+        } else {
+          console.error("Failed to create calendar feed:", error);
+          return NextResponse.json({ error: "Failed to create feed" }, { status: 500 });
+        }
+      } else {
+        token = created.token;
+      }
+    }
+
+    if (!token) {
+      return NextResponse.json({ error: "Failed to create feed" }, { status: 500 });
+    }
+
+    return NextResponse.json({ url: feedUrl(request.nextUrl.origin, token) });
+  } catch (err) {
+    console.error("Calendar feed error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/calendar/feed
+ *
+ * Rotates the feed token, invalidating any existing subscriptions.
+ * Body: { profile_id: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const body = await request.json();
+    const profileId = (body.profile_id as string) || null;
+
+    const denied = await authorize(supabase, profileId);
+    if (denied) return denied;
+
+    const { data: feed, error } = await supabase
+      .from("calendar_feeds")
+      .upsert(
+        { profile_id: profileId, token: generateToken() },
+        { onConflict: "profile_id" }
+      )
+      .select("token")
+      .single();
+
+    if (error || !feed) {
+      console.error("Failed to rotate calendar feed:", error);
+      return NextResponse.json({ error: "Failed to reset feed" }, { status: 500 });
+    }
+
+    return NextResponse.json({ url: feedUrl(request.nextUrl.origin, feed.token) });
+  } catch (err) {
+    console.error("Calendar feed error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
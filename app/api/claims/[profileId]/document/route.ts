@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import {
+  DOCUMENT_TYPES,
+  MAX_DOCUMENT_BYTES,
+  scoreClaim,
+  toClaimantView,
+} from "@/lib/claim-verification";
+import { UUID_RE } from "@/lib/validation";
+import type { ClaimVerification, Profile } from "@/lib/types";
+
+const BUCKET = "claim-documents";
+
+/**
+ * POST /api/claims/[profileId]/document
+ *
+ * Upload a license, utility bill or other proof of ownership as
+ * multipart form data (field "file"). Replaces any earlier document.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ profileId: string }> }
+) {
+  try {
+    const { profileId } = await params;
+    if (!UUID_RE.test(profileId)) {
+      return NextResponse.json({ error: "Invalid profile id" }, { status: 400 });
+    }
+
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "A file is required" }, { status: 400 });
+    }
+    if (!DOCUMENT_TYPES.includes(file.type)) {
+      return NextResponse.json({ error: "Upload a PDF, JPG or PNG" }, { status: 400 });
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      return NextResponse.json({ error: "Files must be 10 MB or smaller" }, { status: 400 });
+    }
+
+    const db = getServiceClient();
+
+    const { data: account } = await db
+      .from("accounts")
+      .select("id")
+      .eq("user_id", user.id)
+      .single();
+
+    const { data: profile } = await db
+      .from("business_profiles")
+      .select("*")
+      .eq("id", profileId)
+      .single<Profile>();
+
+    if (!account || !profile || profile.account_id !== account.id) {
+      return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+    }
+    if (profile.claim_state !== "pending") {
+      return NextResponse.json({ error: "This claim is no longer under review" }, { status: 409 });
+    }
+
+    const { data: current } = await db
+      .from("claim_verifications")
+      .select("*")
+      .eq("profile_id", profileId)
+      .eq("account_id", account.id)
+      .maybeSingle<ClaimVerification>();
+
+    const safeName = file.name.replace(/[^a-z0-9._-]/gi, "_").slice(-80);
+    const path = `${profileId}/${account.id}/${Date.now()}-${safeName}`;
+
+    const { error: uploadError } = await db.storage
+      .from(BUCKET)
+      .upload(path, file, { contentType: file.type });
+
+    if (uploadError) {
+      console.error("Claim document upload error:", uploadError);
+      return NextResponse.json({ error: "Failed to upload document" }, { status: 500 });
+    }
+
+    const { score, checks } = scoreClaim(
+      {
+        listing_website: current?.listing_website ?? null,
+        listing_phone: current?.listing_phone ?? null,
+        listing_license: current?.listing_license ?? null,
+        business_email: current?.business_email ?? null,
+        email_verified_at: current?.email_verified_at ?? null,
+        callback_requested_at: current?.callback_requested_at ?? null,
+        phone_verified_at: current?.phone_verified_at ?? null,
+        license_number: current?.license_number ?? null,
+        document_path: path,
+      },
+      user.email ?? null
+    );
+
+    const { data: verification, error } = await db
+      .from("claim_verifications")
+      .upsert(
+        {
+          profile_id: profileId,
+          account_id: account.id,
+          document_path: path,
+          document_name: file.name,
+          score,
+          checks,
+        },
+        { onConflict: "profile_id,account_id" }
+      )
+      .select()
+      .single<ClaimVerification>();
+
+    if (error) {
+      console.error("Claim document save error:", error);
+      await db.storage.from(BUCKET).remove([path]);
+      return NextResponse.json({ error: "Failed to save document" }, { status: 500 });
+    }
+
+    if (current?.document_path) {
+      await db.storage.from(BUCKET).remove([current.document_path]);
+    }
+
+    return NextResponse.json({ verification: toClaimantView(verification) });
+  } catch (err) {
+    console.error("Claim document error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,303 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import {
+  CODE_TTL_MINUTES,
+  MAX_CODE_ATTEMPTS,
+  generateCode,
+  hashCode,
+  isCodeExpired,
+  scoreClaim,
+  toClaimantView,
+} from "@/lib/claim-verification";
+import { sendEmail } from "@/lib/email";
+import { UUID_RE } from "@/lib/validation";
+import type { ClaimVerification, Profile } from "@/lib/types";
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** Minimum wait between email codes */
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+type ServiceClient = ReturnType<typeof getServiceClient>;
+
+type EvidenceChanges = Partial<
+  Omit<
+    ClaimVerification,
+    | "id"
+    | "profile_id"
+    | "account_id"
+    | "listing_website"
+    | "listing_phone"
+    | "listing_license"
+    | "score"
+    | "checks"
+    | "created_at"
+    | "updated_at"
+  >
+>;
+
+interface LoadedClaim {
+  accountId: string;
+  accountEmail: string | null;
+  profile: Profile;
+  verification: ClaimVerification | null;
+}
+
+/**
+ * Load the signed-in claimant's profile and evidence so far.
+ * Returns an error response unless the caller owns the profile.
+ */
+async function loadClaim(db: ServiceClient, profileId: string): Promise<LoadedClaim | NextResponse> {
+  if (!UUID_RE.test(profileId)) {
+    return NextResponse.json({ error: "Invalid profile id" }, { status: 400 });
+  }
+
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data: account } = await db
+    .from("accounts")
+    .select("id")
+    .eq("user_id", user.id)
+    .single();
+
+  const { data: profile } = await db
+    .from("business_profiles")
+    .select("*")
+    .eq("id", profileId)
+    .single<Profile>();
+
+  if (!account || !profile || profile.account_id !== account.id) {
+    return NextResponse.json({ error: "Claim not found" }, { status: 404 });
+  }
+
+  const { data: verification } = await db
+    .from("claim_verifications")
+    .select("*")
+    .eq("profile_id", profileId)
+    .eq("account_id", account.id)
+    .maybeSingle<ClaimVerification>();
+
+  return { accountId: account.id, accountEmail: user.email ?? null, profile, verification };
+}
+
+/**
+ * Apply evidence changes, re-run the automated checks and save.
+ */
+async function saveEvidence(
+  db: ServiceClient,
+  claim: LoadedClaim,
+  changes: EvidenceChanges
+): Promise<ClaimVerification> {
+  const merged = {
+    listing_website: null,
+    listing_phone: null,
+    listing_license: null,
+    business_email: null,
+    email_verified_at: null,
+    callback_requested_at: null,
+    phone_verified_at: null,
+    license_number: null,
+    document_path: null,
+    ...claim.verification,
+    ...changes,
+  };
+  const { score, checks } = scoreClaim(merged, claim.accountEmail);
+
+  const { data, error } = await db
+    .from("claim_verifications")
+    .upsert(
+      {
+        profile_id: claim.profile.id,
+        account_id: claim.accountId,
+        ...changes,
+        score,
+        checks,
+      },
+      { onConflict: "profile_id,account_id" }
+    )
+    .select()
+    .single<ClaimVerification>();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * GET /api/claims/[profileId]
+ *
+ * The claimant's evidence, automated checks and, once reviewed, the
+ * reject reason.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ profileId: string }> }
+) {
+  try {
+    const { profileId } = await params;
+    const db = getServiceClient();
+    const claim = await loadClaim(db, profileId);
+    if (claim instanceof NextResponse) return claim;
+
+    return NextResponse.json({ verification: toClaimantView(claim.verification) });
+  } catch (err) {
+    console.error("Claim fetch error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/claims/[profileId]
+ *
+ * Add evidence to a pending claim.
+ * Body: { action, ...fields }
+ *   send_email_code  { email }  - email a code to a business address
+ *   verify_email     { code }
+ *   request_callback            - staff call the listing phone with a code
+ *   verify_phone     { code }
+ *   set_license      { license_number }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ profileId: string }> }
+) {
+  try {
+    const { profileId } = await params;
+    const body = await request.json();
+    const action = body.action as string;
+
+    const db = getServiceClient();
+    const claim = await loadClaim(db, profileId);
+    if (claim instanceof NextResponse) return claim;
+
+    if (claim.profile.claim_state !== "pending") {
+      return NextResponse.json({ error: "This claim is no longer under review" }, { status: 409 });
+    }
+
+    const current = claim.verification;
+    const code = typeof body.code === "string" ? body.code.trim() : "";
+    let changes: EvidenceChanges;
+
+    switch (action) {
+      case "send_email_code": {
+        const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+        if (!EMAIL_RE.test(email)) {
+          return NextResponse.json({ error: "A valid email is required" }, { status: 400 });
+        }
+        if (
+          current?.email_code_sent_at &&
+          Date.now() - new Date(current.email_code_sent_at).getTime() < RESEND_COOLDOWN_MS
+        ) {
+          return NextResponse.json(
+            { error: "Please wait a minute before requesting another code" },
+            { status: 429 }
+          );
+        }
+
+        const emailCode = generateCode();
+        const sent = await sendEmail({
+          to: email,
+          subject: `Your Olera verification code: ${emailCode}`,
+          text: `Use ${emailCode} to confirm you manage ${claim.profile.display_name} on Olera. The code expires in ${CODE_TTL_MINUTES} minutes.\n\nIf you didn't request this, you can ignore this email.`,
+        });
+        if (!sent) {
+          return NextResponse.json({ error: "Couldn't send the code. Please try again later." }, { status: 502 });
+        }
+
+        changes = {
+          business_email: email,
+          email_code_hash: hashCode(emailCode),
+          email_code_sent_at: new Date().toISOString(),
+          email_verified_at: null,
+          failed_code_attempts: 0,
+        };
+        break;
+      }
+
+      case "verify_email": {
+        if (!current?.email_code_hash || isCodeExpired(current.email_code_sent_at)) {
+          return NextResponse.json({ error: "Code expired. Request a new one." }, { status: 400 });
+        }
+        if (hashCode(code) !== current.email_code_hash) {
+          return wrongCode(db, claim, current, { email_code_hash: null });
+        }
+        changes = {
+          email_code_hash: null,
+          email_verified_at: new Date().toISOString(),
+          failed_code_attempts: 0,
+        };
+        break;
+      }
+
+      case "request_callback": {
+        if (!current?.listing_phone) {
+          return NextResponse.json({ error: "This listing has no phone number" }, { status: 400 });
+        }
+        if (current?.phone_code) {
+          return NextResponse.json({ error: "A callback is already scheduled" }, { status: 409 });
+        }
+        changes = {
+          phone_code: generateCode(),
+          callback_requested_at: new Date().toISOString(),
+          phone_verified_at: null,
+          failed_code_attempts: 0,
+        };
+        break;
+      }
+
+      case "verify_phone": {
+        if (!current?.phone_code) {
+          return NextResponse.json({ error: "Request a callback first" }, { status: 400 });
+        }
+        if (code !== current.phone_code) {
+          return wrongCode(db, claim, current, { phone_code: null, callback_requested_at: null });
+        }
+        changes = {
+          phone_code: null,
+          phone_verified_at: new Date().toISOString(),
+          failed_code_attempts: 0,
+        };
+        break;
+      }
+
+      case "set_license": {
+        const license =
+          typeof body.license_number === "string" ? body.license_number.trim().slice(0, 50) : "";
+        changes = { license_number: license || null };
+        break;
+      }
+
+      default:
+        return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+    }
+
+    const verification = await saveEvidence(db, claim, changes);
+    return NextResponse.json({ verification: toClaimantView(verification) });
+  } catch (err) {
+    console.error("Claim evidence error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * Count a wrong code; after MAX_CODE_ATTEMPTS the code is voided
+ * (voidChanges) and the claimant has to request a new one.
+ */
+async function wrongCode(
+  db: ServiceClient,
+  claim: LoadedClaim,
+  current: ClaimVerification,
+  voidChanges: EvidenceChanges
+) {
+  const attempts = current.failed_code_attempts + 1;
+  const voided = attempts >= MAX_CODE_ATTEMPTS;
+
+  await saveEvidence(db, claim, voided ? { ...voidChanges, failed_code_attempts: 0 } : { failed_code_attempts: attempts });
+
+  return NextResponse.json(
+    { error: voided ? "Too many wrong codes. Request a new one." : "That code isn't right" },
+    { status: 400 }
+  );
+}
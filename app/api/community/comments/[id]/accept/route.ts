@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getServiceClient } from "@/lib/admin";
+
+/**
+ * POST /api/community/comments/[id]/accept
+ *
+ * Mark a top-level reply as the accepted answer to the caller's own
+ * discussion. Replaces any previously accepted answer.
+ *
+ * DELETE /api/community/comments/[id]/accept
+ *
+ * Unmark it, so the discussion counts as unanswered again.
+ *
+ * Both return the post's accepted_comment_id afterwards.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return setAccepted(id, true);
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return setAccepted(id, false);
+}
+
+async function setAccepted(commentId: string, accepted: boolean) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { data: comment } = await supabase
+      .from("public_forum_comments")
+      .select("id, post_id, parent_id")
+      .eq("id", commentId)
+      .single();
+
+    if (!comment) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+
+    // RLS only returns the raw post row to its author, anonymous or not
+    const { data: post } = await supabase
+      .from("forum_posts")
+      .select("id")
+      .eq("id", comment.post_id)
+      .maybeSingle();
+
+    if (!post) {
+      return NextResponse.json(
+        { error: "Only the person who started the discussion can accept an answer" },
+        { status: 403 }
+      );
+    }
+
+    if (accepted) {
+      if (comment.parent_id) {
+        return NextResponse.json(
+          { error: "Only top-level replies can be accepted" },
+          { status: 400 }
+        );
+      }
+
+      // Same trick: a visible raw comment row means the caller wrote it
+      const { data: ownComment } = await supabase
+        .from("forum_comments")
+        .select("id")
+        .eq("id", commentId)
+        .maybeSingle();
+
+      if (ownComment) {
+        return NextResponse.json(
+          { error: "You can't accept your own reply" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // No UPDATE policy on forum_comments; ownership was checked above
+    const db = getServiceClient();
+
+    if (accepted) {
+      const { error: clearError } = await db
+        .from("forum_comments")
+        .update({ is_accepted_answer: false })
+        .eq("post_id", comment.post_id)
+        .eq("is_accepted_answer", true)
+        .neq("id", commentId);
+
+      if (clearError) {
+        console.error("Failed to clear accepted answer:", clearError);
+        return NextResponse.json({ error: "Failed to accept answer" }, { status: 500 });
+      }
+    }
+
+    const { error: updateError } = await db
+      .from("forum_comments")
+      .update({ is_accepted_answer: accepted })
+      .eq("id", commentId);
+
+    if (updateError) {
+      console.error("Failed to update accepted answer:", updateError);
+      return NextResponse.json(
+        { error: accepted ? "Failed to accept answer" : "Failed to remove accepted answer" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ accepted_comment_id: accepted ? commentId : null });
+  } catch (err) {
+    console.error("Forum accepted answer error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
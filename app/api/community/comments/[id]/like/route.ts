@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * POST /api/community/comments/[id]/like
+ *
+ * Like a comment. Liking twice is a no-op.
+ *
+ * DELETE /api/community/comments/[id]/like
+ *
+ * Take the like back.
+ *
+ * Both return the updated like_count.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return setLike(id, true);
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return setLike(id, false);
+}
+
+async function setLike(commentId: string, liked: boolean) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    if (liked) {
+      const { error } = await supabase
+        .from("forum_comment_likes")
+        .insert({ comment_id: commentId, user_id: user.id });
+
+      // 23505: already liked
+      if (error && error.code !== "23505") {
+        console.error("Failed to like comment:", error);
+        return NextResponse.json({ error: "Failed to like comment" }, { status: 400 });
+      }
+    } else {
+      const { error } = await supabase
+        .from("forum_comment_likes")
+        .delete()
+        .eq("comment_id", commentId)
+        .eq("user_id", user.id);
+
+      if (error) {
+        console.error("Failed to unlike comment:", error);
+        return NextResponse.json({ error: "Failed to unlike comment" }, { status: 500 });
+      }
+    }
+
+    const { data: comment } = await supabase
+      .from("public_forum_comments")
+      .select("like_count")
+      .eq("id", commentId)
+      .single();
+
+    return NextResponse.json({ like_count: comment?.like_count ?? 0 });
+  } catch (err) {
+    console.error("Forum comment like error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
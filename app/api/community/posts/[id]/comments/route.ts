@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { MAX_COMMENT_LENGTH } from "@/lib/forum";
+
+/**
+ * POST /api/community/posts/[id]/comments
+ *
+ * Respond to a discussion, or reply to a top-level response when
+ * parent_id is given. Locked posts don't take new comments.
+ * Body: { author_profile_id, content, parent_id?, is_anonymous? }
+ * Returns the new row from public_forum_comments.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: postId } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const authorProfileId = body.author_profile_id as string | undefined;
+    const parentId = (body.parent_id as string | undefined) || null;
+    const content = typeof body.content === "string" ? body.content.trim() : "";
+    const isAnonymous = body.is_anonymous === true;
+
+    if (!authorProfileId) {
+      return NextResponse.json({ error: "author_profile_id is required" }, { status: 400 });
+    }
+    if (!content) {
+      return NextResponse.json({ error: "Comment text is required" }, { status: 400 });
+    }
+    if (content.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { data: post } = await supabase
+      .from("public_forum_posts")
+      .select("id, is_locked")
+      .eq("id", postId)
+      .single();
+
+    if (!post) {
+      return NextResponse.json({ error: "Discussion not found" }, { status: 404 });
+    }
+    if (post.is_locked) {
+      return NextResponse.json(
+        { error: "This discussion is locked and can't take new comments" },
+        { status: 403 }
+      );
+    }
+
+    if (parentId) {
+      const { data: parent } = await supabase
+        .from("public_forum_comments")
+        .select("id, parent_id")
+        .eq("id", parentId)
+        .eq("post_id", postId)
+        .single();
+
+      if (!parent) {
+        return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+      }
+      // Replies are one level deep
+      if (parent.parent_id) {
+        return NextResponse.json({ error: "You can only reply to top-level comments" }, { status: 400 });
+      }
+    }
+
+    const { data: account } = await supabase
+      .from("accounts")
+      .select("id")
+      .eq("user_id", user.id)
+      .single();
+
+    const { data: author } = account
+      ? await supabase
+          .from("business_profiles")
+          .select("id")
+          .eq("id", authorProfileId)
+          .eq("account_id", account.id)
+          .single()
+      : { data: null };
+
+    if (!author) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    const { data: ban } = await supabase
+      .from("forum_bans")
+      .select("account_id")
+      .eq("account_id", account!.id)
+      .maybeSingle();
+
+    if (ban) {
+      return NextResponse.json(
+        { error: "Your account can no longer post in the community" },
+        { status: 403 }
+      );
+    }
+
+    const { data: created, error } = await supabase
+      .from("forum_comments")
+      .insert({
+        post_id: postId,
+        parent_id: parentId,
+        author_profile_id: authorProfileId,
+        is_anonymous: isAnonymous,
+        content,
+      })
+      .select("id")
+      .single();
+
+    if (error) {
+      console.error("Failed to create forum comment:", error);
+      return NextResponse.json({ error: "Failed to post comment" }, { status: 500 });
+    }
+
+    const { data: comment } = await supabase
+      .from("public_forum_comments")
+      .select("*")
+      .eq("id", created.id)
+      .single();
+
+    return NextResponse.json({ comment }, { status: 201 });
+  } catch (err) {
+    console.error("Forum comment submit error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * POST /api/community/posts/[id]/like
+ *
+ * Like a discussion. Liking twice is a no-op.
+ *
+ * DELETE /api/community/posts/[id]/like
+ *
+ * Take the like back.
+ *
+ * Both return the updated like_count.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return setLike(id, true);
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return setLike(id, false);
+}
+
+async function setLike(postId: string, liked: boolean) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    if (liked) {
+      const { error } = await supabase
+        .from("forum_post_likes")
+        .insert({ post_id: postId, user_id: user.id });
+
+      // 23505: already liked
+      if (error && error.code !== "23505") {
+        console.error("Failed to like post:", error);
+        return NextResponse.json({ error: "Failed to like post" }, { status: 400 });
+      }
+    } else {
+      const { error } = await supabase
+        .from("forum_post_likes")
+        .delete()
+        .eq("post_id", postId)
+        .eq("user_id", user.id);
+
+      if (error) {
+        console.error("Failed to unlike post:", error);
+        return NextResponse.json({ error: "Failed to unlike post" }, { status: 500 });
+      }
+    }
+
+    const { data: post } = await supabase
+      .from("public_forum_posts")
+      .select("like_count")
+      .eq("id", postId)
+      .single();
+
+    return NextResponse.json({ like_count: post?.like_count ?? 0 });
+  } catch (err) {
+    console.error("Forum post like error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * POST /api/community/posts/[id]/view
+ *
+ * Count a view of a discussion opened in the community drawer. The
+ * post page counts its own views while rendering. No sign-in needed.
+ * Returns the updated view_count.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data, error } = await supabase.rpc("increment_forum_post_view", {
+      p_post_id: id,
+    });
+
+    if (error) {
+      console.error("Failed to count forum view:", error);
+      return NextResponse.json({ error: "Failed to count view" }, { status: 500 });
+    }
+    if (data === null) {
+      return NextResponse.json({ error: "Discussion not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ view_count: data });
+  } catch (err) {
+    console.error("Forum view error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { ALL_CARE_TYPES, type CareTypeId } from "@/types/forum";
+import { MAX_POST_LENGTH, MAX_POST_TITLE_LENGTH, makePostSlug } from "@/lib/forum";
+
+/**
+ * POST /api/community/posts
+ *
+ * Start a discussion from one of the caller's profiles.
+ * Body: { author_profile_id, title, content, care_type, tags?, is_anonymous? }
+ * Returns the new post's id and slug.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const authorProfileId = body.author_profile_id as string | undefined;
+    const title = typeof body.title === "string" ? body.title.trim() : "";
+    const content = typeof body.content === "string" ? body.content.trim() : "";
+    const careType = body.care_type as CareTypeId | undefined;
+    const isAnonymous = body.is_anonymous === true;
+    const tags = Array.isArray(body.tags)
+      ? (body.tags as unknown[])
+          .filter((t): t is string => typeof t === "string" && t.trim() !== "")
+          .map((t) => t.trim().toLowerCase())
+          .slice(0, 5)
+      : [];
+
+    if (!authorProfileId) {
+      return NextResponse.json({ error: "author_profile_id is required" }, { status: 400 });
+    }
+    if (!title || !content) {
+      return NextResponse.json({ error: "Title and content are required" }, { status: 400 });
+    }
+    if (title.length > MAX_POST_TITLE_LENGTH || content.length > MAX_POST_LENGTH) {
+      return NextResponse.json(
+        { error: `Titles are limited to ${MAX_POST_TITLE_LENGTH} characters and posts to ${MAX_POST_LENGTH}` },
+        { status: 400 }
+      );
+    }
+    if (!careType || !ALL_CARE_TYPES.includes(careType)) {
+      return NextResponse.json({ error: "Please select a category" }, { status: 400 });
+    }
+
+    const { data: account } = await supabase
+      .from("accounts")
+      .select("id")
+      .eq("user_id", user.id)
+      .single();
+
+    const { data: author } = account
+      ? await supabase
+          .from("business_profiles")
+          .select("id")
+          .eq("id", authorProfileId)
+          .eq("account_id", account.id)
+          .single()
+      : { data: null };
+
+    if (!author) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    const { data: ban } = await supabase
+      .from("forum_bans")
+      .select("account_id")
+      .eq("account_id", account!.id)
+      .maybeSingle();
+
+    if (ban) {
+      return NextResponse.json(
+        { error: "Your account can no longer post in the community" },
+        { status: 403 }
+      );
+    }
+
+    const { data: created, error } = await supabase
+      .from("forum_posts")
+      .insert({
+        slug: makePostSlug(title),
+        author_profile_id: authorProfileId,
+        is_anonymous: isAnonymous,
+        title,
+        content,
+        care_type: careType,
+        tags,
+      })
+      .select("id, slug")
+      .single();
+
+    if (error) {
+      console.error("Failed to create forum post:", error);
+      return NextResponse.json({ error: "Failed to post discussion" }, { status: 500 });
+    }
+
+    return NextResponse.json({ post: created }, { status: 201 });
+  } catch (err) {
+    console.error("Forum post submit error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
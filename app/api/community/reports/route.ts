@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { FORUM_REPORT_REASONS } from "@/lib/forum";
+import type { ForumReportReason } from "@/lib/types";
+
+/**
+ * POST /api/community/reports
+ *
+ * Flag a forum post or comment for the admin moderation queue.
+ * One report per user per post or comment.
+ * Body: { post_id?, comment_id?, reason, details? } — exactly one id
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const postId = (body.post_id as string | undefined) || null;
+    const commentId = (body.comment_id as string | undefined) || null;
+    const reason = body.reason as ForumReportReason;
+    const details = typeof body.details === "string" ? body.details.trim() : "";
+
+    if (!postId === !commentId) {
+      return NextResponse.json(
+        { error: "Provide either post_id or comment_id" },
+        { status: 400 }
+      );
+    }
+    if (!FORUM_REPORT_REASONS.includes(reason)) {
+      return NextResponse.json({ error: "Invalid reason" }, { status: 400 });
+    }
+    if (details.length > 2000) {
+      return NextResponse.json(
+        { error: "Details are limited to 2000 characters" },
+        { status: 400 }
+      );
+    }
+
+    const { data: target } = postId
+      ? await supabase.from("public_forum_posts").select("id").eq("id", postId).single()
+      : await supabase.from("public_forum_comments").select("id").eq("id", commentId!).single();
+
+    if (!target) {
+      return NextResponse.json(
+        { error: postId ? "Discussion not found" : "Comment not found" },
+        { status: 404 }
+      );
+    }
+
+    const { error } = await supabase.from("forum_reports").insert({
+      post_id: postId,
+      comment_id: commentId,
+      reporter_user_id: user.id,
+      reason,
+      details: details || null,
+    });
+
+    if (error) {
+      if (error.code === "23505") {
+        return NextResponse.json(
+          { error: "You've already reported this" },
+          { status: 409 }
+        );
+      }
+      console.error("Failed to report forum content:", error);
+      return NextResponse.json({ error: "Failed to submit report" }, { status: 500 });
+    }
+
+    return NextResponse.json({ reported: true }, { status: 201 });
+  } catch (err) {
+    console.error("Forum report error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
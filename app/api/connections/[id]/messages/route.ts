@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import {
+  canViewDetails,
+  chargeFirstResponse,
+  getParticipant,
+  undoFirstResponse,
+} from "@/lib/engagement";
+import { blurText } from "@/lib/membership";
+import { hasTeamPermission } from "@/lib/team";
+import type { ConnectionMessage } from "@/lib/types";
+
+const MAX_MESSAGE_LENGTH = 5000;
+
+/**
+ * GET /api/connections/[id]/messages?profile_id=
+ *
+ * The thread, oldest first. Messages from the other side are blurred
+ * while a provider has no access to the inquiry's details.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    if (!profileId) {
+      return NextResponse.json({ error: "profile_id is required" }, { status: 400 });
+    }
+
+    const db = getServiceClient();
+    const participant = await getParticipant(db, user.id, id, profileId);
+    if (!participant) {
+      return NextResponse.json({ error: "Connection not found" }, { status: 404 });
+    }
+
+    const { data, error } = await db
+      .from("connection_messages")
+      .select("*")
+      .eq("connection_id", id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Failed to fetch messages:", error);
+      return NextResponse.json({ error: "Failed to fetch messages" }, { status: 500 });
+    }
+
+    const details = canViewDetails(participant.engager, participant.connection);
+    const messages = ((data as ConnectionMessage[]) ?? []).map((message) =>
+      details || message.sender_profile_id === profileId
+        ? message
+        : { ...message, body: blurText(message.body) }
+    );
+
+    return NextResponse.json({ messages });
+  } catch (err) {
+    console.error("Message fetch error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/connections/[id]/messages
+ *
+ * Send a message in a connection's thread.
+ * Body: { profile_id, body }
+ *
+ * A provider's first reply to an inbound connection is a response and
+ * spends a free connection on the free tier (402 when none are left).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const profileId = body.profile_id as string | undefined;
+    const text = typeof body.body === "string" ? body.body.trim() : "";
+
+    if (!profileId) {
+      return NextResponse.json({ error: "profile_id is required" }, { status: 400 });
+    }
+    if (!text) {
+      return NextResponse.json({ error: "Message is required" }, { status: 400 });
+    }
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        { error: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const db = getServiceClient();
+    const participant = await getParticipant(db, user.id, id, profileId);
+    if (!participant) {
+      return NextResponse.json({ error: "Connection not found" }, { status: 404 });
+    }
+    const { connection, engager } = participant;
+
+    if (!hasTeamPermission(engager.role, "respond")) {
+      return NextResponse.json(
+        { error: "Your team role can't respond for this profile" },
+        { status: 403 }
+      );
+    }
+    if (connection.status === "declined" || connection.status === "archived") {
+      return NextResponse.json(
+        { error: `This connection is ${connection.status}` },
+        { status: 409 }
+      );
+    }
+
+    const charge = await chargeFirstResponse(db, engager, connection);
+    if (!charge) {
+      return NextResponse.json({ error: "Upgrade required" }, { status: 402 });
+    }
+
+    const { data: message, error: insertError } = await db
+      .from("connection_messages")
+      .insert({
+        connection_id: connection.id,
+        sender_profile_id: profileId,
+        recipient_profile_id:
+          connection.from_profile_id === profileId
+            ? connection.to_profile_id
+            : connection.from_profile_id,
+        body: text,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      await undoFirstResponse(db, engager, connection, charge);
+      console.error("Failed to send message:", insertError);
+      return NextResponse.json({ error: "Failed to send message" }, { status: 500 });
+    }
+
+    return NextResponse.json({ message }, { status: 201 });
+  } catch (err) {
+    console.error("Message send error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import {
+  chargeFirstResponse,
+  getParticipant,
+  toVisibleConnection,
+  undoFirstResponse,
+  type Engager,
+  type ResponseCharge,
+} from "@/lib/engagement";
+import { canEngage } from "@/lib/membership";
+import { hasTeamPermission } from "@/lib/team";
+import type { Connection, ConnectionStatus, Profile } from "@/lib/types";
+
+/**
+ * Load the connection for the signed-in user's participating profile.
+ * Returns an error response when they aren't a participant.
+ */
+async function loadParticipant(
+  db: ReturnType<typeof getServiceClient>,
+  connectionId: string,
+  profileId: string | null
+): Promise<{ connection: Connection; engager: Engager } | NextResponse> {
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+  if (!profileId) {
+    return NextResponse.json({ error: "profile_id is required" }, { status: 400 });
+  }
+
+  const participant = await getParticipant(db, user.id, connectionId, profileId);
+  if (!participant) {
+    return NextResponse.json({ error: "Connection not found" }, { status: 404 });
+  }
+  return participant;
+}
+
+/**
+ * GET /api/connections/[id]?profile_id=
+ *
+ * The connection with both profiles, as the given participant may see
+ * them (see toVisibleConnection). The recipient's team also gets which
+ * teammate responded.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const db = getServiceClient();
+    const loaded = await loadParticipant(db, id, request.nextUrl.searchParams.get("profile_id"));
+    if (loaded instanceof NextResponse) return loaded;
+    const { connection, engager } = loaded;
+
+    const { data: profiles } = await db
+      .from("business_profiles")
+      .select("*")
+      .in("id", [connection.from_profile_id, connection.to_profile_id]);
+
+    const isInbound = connection.to_profile_id === engager.profile.id;
+    const respond =
+      hasTeamPermission(engager.role, "respond") &&
+      (!isInbound ||
+        !!connection.responded_at ||
+        canEngage(engager.profile.type, engager.membership, "respond_to_inquiry"));
+
+    let respondedBy: { display_name: string | null; is_you: boolean } | null = null;
+    if (isInbound && connection.responded_by) {
+      const { data: responder } = await db
+        .from("accounts")
+        .select("display_name")
+        .eq("id", connection.responded_by)
+        .maybeSingle();
+      respondedBy = {
+        display_name: responder?.display_name ?? null,
+        is_you: connection.responded_by === engager.actorAccountId,
+      };
+    }
+
+    const visible = toVisibleConnection(
+      engager,
+      connection,
+      new Map(((profiles as Profile[]) ?? []).map((p) => [p.id, p]))
+    );
+
+    return NextResponse.json({
+      connection: visible.connection,
+      fromProfile: visible.fromProfile,
+      toProfile: visible.toProfile,
+      access: { details: visible.details, respond },
+      respondedBy,
+    });
+  } catch (err) {
+    console.error("Connection fetch error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/connections/[id]
+ *
+ * Accept, decline or archive a connection.
+ * Body: { profile_id, status: "accepted" | "declined" | "archived" }
+ *
+ * Only the recipient can accept or decline a pending connection.
+ * Accepting is a response, so a free provider spends a free connection
+ * the first time (402 when none are left).
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const status = body.status as ConnectionStatus;
+
+    if (status !== "accepted" && status !== "declined" && status !== "archived") {
+      return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+    }
+
+    const db = getServiceClient();
+    const loaded = await loadParticipant(db, id, body.profile_id ?? null);
+    if (loaded instanceof NextResponse) return loaded;
+    const { connection, engager } = loaded;
+
+    if (!hasTeamPermission(engager.role, "respond")) {
+      return NextResponse.json(
+        { error: "Your team role can't respond for this profile" },
+        { status: 403 }
+      );
+    }
+
+    if (status !== "archived") {
+      if (connection.to_profile_id !== engager.profile.id) {
+        return NextResponse.json(
+          { error: "Only the recipient can accept or decline" },
+          { status: 403 }
+        );
+      }
+      if (connection.status !== "pending") {
+        return NextResponse.json(
+          { error: `Connection is already ${connection.status}` },
+          { status: 409 }
+        );
+      }
+    }
+
+    let charge: ResponseCharge | null = null;
+    if (status === "accepted") {
+      charge = await chargeFirstResponse(db, engager, connection);
+      if (!charge) {
+        return NextResponse.json({ error: "Upgrade required" }, { status: 402 });
+      }
+    }
+
+    const { data: updated, error: updateError } = await db
+      .from("connections")
+      .update(
+        status === "archived"
+          ? { status }
+          : { status, responded_by: connection.responded_by ?? engager.actorAccountId }
+      )
+      .eq("id", id)
+      .select()
+      .single();
+
+    if (updateError) {
+      if (charge) await undoFirstResponse(db, engager, connection, charge);
+      console.error("Failed to update connection:", updateError);
+      return NextResponse.json({ error: "Failed to update connection" }, { status: 500 });
+    }
+
+    return NextResponse.json({ connection: updated });
+  } catch (err) {
+    console.error("Connection update error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
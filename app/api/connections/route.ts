@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import {
+  getEngager,
+  refundFreeConnection,
+  spendFreeConnection,
+  toVisibleConnection,
+} from "@/lib/engagement";
+import { canEngage } from "@/lib/membership";
+import { hasTeamPermission } from "@/lib/team";
+import { UUID_RE } from "@/lib/validation";
+import type { Connection, ConnectionType, Profile } from "@/lib/types";
+
+const CONNECTION_TYPES: ConnectionType[] = ["inquiry", "application", "invitation"];
+const MAX_MESSAGE_LENGTH = 5000;
+
+/**
+ * GET /api/connections?profile_id=&type=
+ *
+ * The profile's connections (inbound and outbound, saves excluded),
+ * newest first, each anonymized as in GET /api/connections/[id].
+ * Connection and message bodies aren't readable from the browser, so
+ * lists go through here.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    const type = request.nextUrl.searchParams.get("type") as ConnectionType | null;
+    if (!profileId || !UUID_RE.test(profileId)) {
+      return NextResponse.json({ error: "profile_id is required" }, { status: 400 });
+    }
+    if (type && !CONNECTION_TYPES.includes(type)) {
+      return NextResponse.json({ error: "Invalid connection type" }, { status: 400 });
+    }
+
+    const db = getServiceClient();
+    const engager = await getEngager(db, user.id, profileId);
+    if (!engager) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    let query = db
+      .from("connections")
+      .select("*")
+      .or(`to_profile_id.eq.${profileId},from_profile_id.eq.${profileId}`)
+      .neq("type", "save")
+      .order("created_at", { ascending: false });
+    if (type) query = query.eq("type", type);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("Failed to load connections:", error);
+      return NextResponse.json({ error: "Failed to load connections" }, { status: 500 });
+    }
+
+    const connections = (data as Connection[]) ?? [];
+    const profileIds = new Set(connections.flatMap((c) => [c.from_profile_id, c.to_profile_id]));
+
+    let profiles: Profile[] = [];
+    if (profileIds.size > 0) {
+      const { data: profileData } = await db
+        .from("business_profiles")
+        .select("*")
+        .in("id", Array.from(profileIds));
+      profiles = (profileData as Profile[]) ?? [];
+    }
+    const byId = new Map(profiles.map((p) => [p.id, p]));
+
+    return NextResponse.json({
+      connections: connections.map((c) => {
+        const visible = toVisibleConnection(engager, c, byId);
+        return {
+          ...visible.connection,
+          fromProfile: visible.fromProfile,
+          toProfile: visible.toProfile,
+          access: { details: visible.details },
+        };
+      }),
+    });
+  } catch (err) {
+    console.error("Connection list error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/connections
+ *
+ * Create a connection from one of the caller's profiles.
+ * Body: { from_profile_id, to_profile_id, type, message? }
+ *
+ * Providers on the free tier spend one free connection; the check and
+ * the spend happen together in the database. Returns 402 when the
+ * provider needs to upgrade and 409 when the connection already exists.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const fromProfileId = body.from_profile_id as string | undefined;
+    const toProfileId = body.to_profile_id as string | undefined;
+    const type = body.type as ConnectionType;
+    const message = typeof body.message === "string" ? body.message.trim() : "";
+
+    if (
+      !fromProfileId ||
+      !toProfileId ||
+      !UUID_RE.test(fromProfileId) ||
+      !UUID_RE.test(toProfileId) ||
+      fromProfileId === toProfileId
+    ) {
+      return NextResponse.json(
+        { error: "Valid from_profile_id and to_profile_id are required" },
+        { status: 400 }
+      );
+    }
+    if (!CONNECTION_TYPES.includes(type)) {
+      return NextResponse.json({ error: "Invalid connection type" }, { status: 400 });
+    }
+    if (message.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        { error: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const db = getServiceClient();
+    const engager = await getEngager(db, user.id, fromProfileId);
+    if (!engager) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+    if (!hasTeamPermission(engager.role, "respond")) {
+      return NextResponse.json(
+        { error: "Your team role can't respond for this profile" },
+        { status: 403 }
+      );
+    }
+
+    if (!canEngage(engager.profile.type, engager.membership, "initiate_contact")) {
+      return NextResponse.json({ error: "Upgrade required" }, { status: 402 });
+    }
+
+    const { data: existing } = await db
+      .from("connections")
+      .select("id")
+      .eq("from_profile_id", fromProfileId)
+      .eq("to_profile_id", toProfileId)
+      .eq("type", type)
+      .limit(1)
+      .maybeSingle();
+
+    if (existing) {
+      return NextResponse.json({ error: "Already connected" }, { status: 409 });
+    }
+
+    const spent = await spendFreeConnection(db, engager);
+    if (spent === "denied") {
+      return NextResponse.json({ error: "Upgrade required" }, { status: 402 });
+    }
+
+    const { data: connection, error: insertError } = await db
+      .from("connections")
+      .insert({
+        from_profile_id: fromProfileId,
+        to_profile_id: toProfileId,
+        type,
+        status: "pending",
+        message: message || null,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (spent === "consumed") await refundFreeConnection(db, engager.accountId);
+      if (insertError.code === "23505") {
+        return NextResponse.json({ error: "Already connected" }, { status: 409 });
+      }
+      console.error("Failed to create connection:", insertError);
+      return NextResponse.json({ error: "Failed to create connection" }, { status: 500 });
+    }
+
+    return NextResponse.json({ connection }, { status: 201 });
+  } catch (err) {
+    console.error("Connection create error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron";
+import { runDuplicateDetection } from "@/lib/provider-duplicates";
+
+/**
+ * GET /api/cron/duplicates
+ *
+ * Weekly duplicate provider detection. Finds candidate clusters for
+ * /admin/duplicates; nothing is merged without an admin. Scheduled in
+ * vercel.json; to run it locally:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/duplicates
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "CRON_SECRET not configured" }, { status: 503 });
+  }
+
+  if (!isCronAuthorized(request.headers.get("authorization"), secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runDuplicateDetection();
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("Duplicate detection job failed:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isCronAuthorized } from "@/lib/cron";
+import { runMembershipLifecycle } from "@/lib/membership-lifecycle";
+
+/**
+ * GET /api/cron/membership
+ *
+ * Daily membership maintenance: expires trials, sends "trial ending"
+ * notices and resets monthly free connections. Scheduled in vercel.json;
+ * Vercel sends CRON_SECRET as a bearer token. To run it locally:
+ *
+ *   curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/membership
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "CRON_SECRET not configured" }, { status: 503 });
+  }
+
+  if (!isCronAuthorized(request.headers.get("authorization"), secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runMembershipLifecycle();
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("Membership lifecycle job failed:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,233 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import { getLimit } from "@/lib/entitlements";
+import { generateLocationSlug } from "@/lib/organizations";
+import { UUID_RE } from "@/lib/validation";
+import type { Membership, Organization, Profile } from "@/lib/types";
+
+const MAX_NAME_LENGTH = 200;
+
+type ServiceClient = ReturnType<typeof getServiceClient>;
+
+interface OrganizationContext {
+  accountId: string;
+  organization: Organization;
+  membership: Membership | null;
+}
+
+/**
+ * The caller's account, organization and membership, or a response to
+ * return when any of them is missing.
+ */
+async function loadOrganization(
+  db: ServiceClient,
+  userId: string
+): Promise<OrganizationContext | NextResponse> {
+  const { data: account } = await db
+    .from("accounts")
+    .select("id")
+    .eq("user_id", userId)
+    .single();
+
+  if (!account) {
+    return NextResponse.json({ error: "Account not found" }, { status: 404 });
+  }
+
+  const { data: organization } = await db
+    .from("organizations")
+    .select("*")
+    .eq("account_id", account.id)
+    .maybeSingle<Organization>();
+
+  if (!organization) {
+    return NextResponse.json({ error: "Create an organization first" }, { status: 404 });
+  }
+
+  const { data: membership } = await db
+    .from("memberships")
+    .select("*")
+    .eq("account_id", account.id)
+    .maybeSingle<Membership>();
+
+  return { accountId: account.id, organization, membership: membership ?? null };
+}
+
+/**
+ * POST /api/organizations/locations
+ *
+ * Add a location to the caller's organization, either an existing
+ * organization profile of theirs or a new one.
+ * Body: { profile_id } or { display_name, address?, city?, state?, zip?, phone?, email? }
+ *
+ * New locations copy the category and care types of an existing location
+ * and leave branding blank so it comes from the organization. Returns 402
+ * when the plan's location limit is reached.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const db = getServiceClient();
+
+    const context = await loadOrganization(db, user.id);
+    if (context instanceof NextResponse) return context;
+    const { accountId, organization, membership } = context;
+
+    const limit = getLimit(membership, "locations");
+    const { count } = await db
+      .from("business_profiles")
+      .select("id", { count: "exact", head: true })
+      .eq("organization_id", organization.id);
+
+    if (limit !== null && (count ?? 0) >= limit) {
+      return NextResponse.json({ error: "Upgrade required", limit }, { status: 402 });
+    }
+
+    // Group an existing profile
+    if (body.profile_id !== undefined) {
+      const profileId = body.profile_id as string;
+      if (typeof profileId !== "string" || !UUID_RE.test(profileId)) {
+        return NextResponse.json({ error: "Invalid profile_id" }, { status: 400 });
+      }
+
+      const { data: profile } = await db
+        .from("business_profiles")
+        .select("id, organization_id")
+        .eq("id", profileId)
+        .eq("account_id", accountId)
+        .eq("type", "organization")
+        .maybeSingle();
+
+      if (!profile) {
+        return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+      }
+      if (profile.organization_id) {
+        return NextResponse.json({ error: "Already a location" }, { status: 409 });
+      }
+
+      const { data: location, error: updateError } = await db
+        .from("business_profiles")
+        .update({ organization_id: organization.id })
+        .eq("id", profileId)
+        .select()
+        .single<Profile>();
+
+      if (updateError || !location) {
+        console.error("Location attach error:", updateError);
+        return NextResponse.json({ error: "Failed to add location" }, { status: 500 });
+      }
+
+      return NextResponse.json({ location }, { status: 201 });
+    }
+
+    // Create a new location
+    const field = (key: string) =>
+      typeof body[key] === "string" && body[key].trim() ? (body[key].trim() as string) : null;
+
+    const displayName = field("display_name");
+    if (!displayName || displayName.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Location name is required (max ${MAX_NAME_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    const city = field("city");
+    const state = field("state");
+    if (!city && !state) {
+      return NextResponse.json({ error: "City or state is required" }, { status: 400 });
+    }
+
+    const { data: sibling } = await db
+      .from("business_profiles")
+      .select("category, care_types")
+      .eq("organization_id", organization.id)
+      .order("created_at", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: location, error: insertError } = await db
+      .from("business_profiles")
+      .insert({
+        account_id: accountId,
+        organization_id: organization.id,
+        slug: generateLocationSlug(displayName, city, state),
+        type: "organization",
+        category: sibling?.category ?? null,
+        display_name: displayName,
+        address: field("address"),
+        city,
+        state,
+        zip: field("zip"),
+        phone: field("phone"),
+        email: field("email"),
+        care_types: sibling?.care_types ?? [],
+        // New locations are reviewed like any new provider profile
+        claim_state: "pending",
+        verification_state: "unverified",
+        source: "user_created",
+        is_active: true,
+        metadata: {},
+      })
+      .select()
+      .single<Profile>();
+
+    if (insertError || !location) {
+      console.error("Location insert error:", insertError);
+      return NextResponse.json({ error: "Failed to create location" }, { status: 500 });
+    }
+
+    return NextResponse.json({ location }, { status: 201 });
+  } catch (err) {
+    console.error("Location create error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/organizations/locations?profile_id=<uuid>
+ *
+ * Remove a location from the organization. The profile itself stays,
+ * with its own branding only.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const profileId = request.nextUrl.searchParams.get("profile_id");
+    if (!profileId || !UUID_RE.test(profileId)) {
+      return NextResponse.json({ error: "Valid profile_id is required" }, { status: 400 });
+    }
+
+    const db = getServiceClient();
+    const context = await loadOrganization(db, user.id);
+    if (context instanceof NextResponse) return context;
+
+    const { data: removed, error } = await db
+      .from("business_profiles")
+      .update({ organization_id: null })
+      .eq("id", profileId)
+      .eq("organization_id", context.organization.id)
+      .select("id");
+
+    if (error) {
+      console.error("Location remove error:", error);
+      return NextResponse.json({ error: "Failed to remove location" }, { status: 500 });
+    }
+    if (!removed || removed.length === 0) {
+      return NextResponse.json({ error: "Location not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Location remove error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
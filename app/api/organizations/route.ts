@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import { getLimit } from "@/lib/entitlements";
+import type { Membership, Organization } from "@/lib/types";
+
+const MAX_NAME_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 5000;
+
+/**
+ * POST /api/organizations
+ *
+ * Create the caller's parent organization and group their existing
+ * organization profiles under it as locations, oldest first, up to the
+ * plan's location limit.
+ * Body: { name, description?, website?, image_url? }
+ *
+ * Branding edits afterwards go straight to the organizations table (RLS).
+ * Returns 409 when the account already has an organization.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const description = typeof body.description === "string" ? body.description.trim() : "";
+    const website = typeof body.website === "string" ? body.website.trim() : "";
+    const imageUrl = typeof body.image_url === "string" ? body.image_url.trim() : "";
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Name is required (max ${MAX_NAME_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+      return NextResponse.json(
+        { error: `Descriptions are limited to ${MAX_DESCRIPTION_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const db = getServiceClient();
+    const { data: account } = await db
+      .from("accounts")
+      .select("id")
+      .eq("user_id", user.id)
+      .single();
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const { data: existing } = await db
+      .from("organizations")
+      .select("id")
+      .eq("account_id", account.id)
+      .maybeSingle();
+
+    if (existing) {
+      return NextResponse.json({ error: "Organization already exists" }, { status: 409 });
+    }
+
+    const { data: organization, error: insertError } = await db
+      .from("organizations")
+      .insert({
+        account_id: account.id,
+        name,
+        description: description || null,
+        website: website || null,
+        image_url: imageUrl || null,
+      })
+      .select()
+      .single<Organization>();
+
+    if (insertError || !organization) {
+      console.error("Organization insert error:", insertError);
+      return NextResponse.json({ error: "Failed to create organization" }, { status: 500 });
+    }
+
+    const { data: membership } = await db
+      .from("memberships")
+      .select("*")
+      .eq("account_id", account.id)
+      .maybeSingle<Membership>();
+
+    const limit = getLimit(membership, "locations");
+
+    let locations = db
+      .from("business_profiles")
+      .select("id")
+      .eq("account_id", account.id)
+      .eq("type", "organization")
+      .is("organization_id", null)
+      .order("created_at", { ascending: true });
+    if (limit !== null) locations = locations.limit(limit);
+
+    const { data: profiles } = await locations;
+    const profileIds = (profiles ?? []).map((p) => p.id as string);
+    let attached = 0;
+
+    if (profileIds.length > 0) {
+      // Not fatal: locations can still be added one by one afterwards
+      const { error: attachError } = await db
+        .from("business_profiles")
+        .update({ organization_id: organization.id })
+        .in("id", profileIds);
+
+      if (attachError) {
+        console.error("Organization attach error:", attachError);
+      } else {
+        attached = profileIds.length;
+      }
+    }
+
+    return NextResponse.json({ organization, attached }, { status: 201 });
+  } catch (err) {
+    console.error("Organization create error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import { getEngager } from "@/lib/engagement";
+import { PHOTO_BUCKET, checkPhotoFile, getPhotoPath } from "@/lib/profile-photos";
+import { hasTeamPermission } from "@/lib/team";
+import { UUID_RE } from "@/lib/validation";
+
+type ServiceClient = ReturnType<typeof getServiceClient>;
+
+/**
+ * The profile's current logo_url, if the caller may edit it. Returns
+ * an error response otherwise.
+ */
+async function loadLogo(
+  db: ServiceClient,
+  profileId: string
+): Promise<{ logo_url: string | null } | NextResponse> {
+  if (!UUID_RE.test(profileId)) {
+    return NextResponse.json({ error: "Invalid profile id" }, { status: 400 });
+  }
+
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const engager = await getEngager(db, user.id, profileId);
+  if (!engager) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+  if (!hasTeamPermission(engager.role, "edit_profile")) {
+    return NextResponse.json({ error: "Your team role can't edit this profile" }, { status: 403 });
+  }
+  if (engager.profile.type === "family") {
+    return NextResponse.json({ error: "Only provider profiles have a logo" }, { status: 400 });
+  }
+
+  const { data: profile } = await db
+    .from("business_profiles")
+    .select("logo_url")
+    .eq("id", profileId)
+    .single();
+
+  return { logo_url: profile?.logo_url ?? null };
+}
+
+/** Remove an uploaded logo from storage; hand-entered URLs are skipped. */
+async function removeStoredLogo(db: ServiceClient, url: string | null): Promise<void> {
+  const path = getPhotoPath(url);
+  if (path) await db.storage.from(PHOTO_BUCKET).remove([path]);
+}
+
+/**
+ * POST /api/profiles/[id]/logo
+ *
+ * Upload a new logo (multipart field "file": JPG, PNG or WebP, up to
+ * 5 MB), replacing the current one.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const db = getServiceClient();
+    const loaded = await loadLogo(db, id);
+    if (loaded instanceof NextResponse) return loaded;
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "A file is required" }, { status: 400 });
+    }
+
+    const checked = await checkPhotoFile(file);
+    if (!checked.ok) {
+      return NextResponse.json({ error: checked.error }, { status: 400 });
+    }
+
+    const path = `${id}/logo-${crypto.randomUUID()}.${checked.extension}`;
+    const { error: uploadError } = await db.storage
+      .from(PHOTO_BUCKET)
+      .upload(path, checked.bytes, { contentType: checked.contentType });
+
+    if (uploadError) {
+      console.error("Logo upload error:", uploadError);
+      return NextResponse.json({ error: "Failed to upload logo" }, { status: 500 });
+    }
+
+    const logoUrl = db.storage.from(PHOTO_BUCKET).getPublicUrl(path).data.publicUrl;
+    const { error } = await db.from("business_profiles").update({ logo_url: logoUrl }).eq("id", id);
+
+    if (error) {
+      console.error("Logo save error:", error);
+      await db.storage.from(PHOTO_BUCKET).remove([path]);
+      return NextResponse.json({ error: "Failed to save logo" }, { status: 500 });
+    }
+
+    await removeStoredLogo(db, loaded.logo_url);
+
+    return NextResponse.json({ logo_url: logoUrl });
+  } catch (err) {
+    console.error("Logo upload error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/profiles/[id]/logo
+ *
+ * Remove the profile's logo.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const db = getServiceClient();
+    const loaded = await loadLogo(db, id);
+    if (loaded instanceof NextResponse) return loaded;
+
+    const { error } = await db.from("business_profiles").update({ logo_url: null }).eq("id", id);
+    if (error) {
+      console.error("Logo delete error:", error);
+      return NextResponse.json({ error: "Failed to remove logo" }, { status: 500 });
+    }
+
+    await removeStoredLogo(db, loaded.logo_url);
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Logo delete error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
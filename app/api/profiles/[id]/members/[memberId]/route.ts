@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import { getEngager, type Engager } from "@/lib/engagement";
+import { getAssignableRoles, hasTeamPermission, isTeamRole } from "@/lib/team";
+import { UUID_RE } from "@/lib/validation";
+import type { ProfileMember } from "@/lib/types";
+
+/**
+ * Load the caller's role on the profile and the teammate row.
+ * Returns an error response when either is missing.
+ */
+async function loadMember(
+  db: ReturnType<typeof getServiceClient>,
+  profileId: string,
+  memberId: string
+): Promise<{ engager: Engager; member: ProfileMember } | NextResponse> {
+  if (!UUID_RE.test(profileId) || !UUID_RE.test(memberId)) {
+    return NextResponse.json({ error: "Invalid id" }, { status: 400 });
+  }
+
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const engager = await getEngager(db, user.id, profileId);
+  if (!engager) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+
+  const { data: member } = await db
+    .from("profile_members")
+    .select("*")
+    .eq("id", memberId)
+    .eq("profile_id", profileId)
+    .maybeSingle<ProfileMember>();
+
+  if (!member) {
+    return NextResponse.json({ error: "Teammate not found" }, { status: 404 });
+  }
+
+  return { engager, member };
+}
+
+/**
+ * PATCH /api/profiles/[id]/members/[memberId]
+ *
+ * Change a teammate's role. Body: { role }
+ * Managers can only move responders and viewers between those roles.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const { id, memberId } = await params;
+    const body = await request.json();
+    const role = body.role;
+
+    if (!isTeamRole(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+
+    const db = getServiceClient();
+    const loaded = await loadMember(db, id, memberId);
+    if (loaded instanceof NextResponse) return loaded;
+    const { engager, member } = loaded;
+
+    const assignable = getAssignableRoles(engager.role);
+    if (
+      !hasTeamPermission(engager.role, "manage_team") ||
+      member.account_id === engager.actorAccountId ||
+      !assignable.includes(member.role) ||
+      !assignable.includes(role)
+    ) {
+      return NextResponse.json({ error: "You can't change this role" }, { status: 403 });
+    }
+
+    const { data: updated, error } = await db
+      .from("profile_members")
+      .update({ role })
+      .eq("id", memberId)
+      .select()
+      .single<ProfileMember>();
+
+    if (error) {
+      console.error("Team role update error:", error);
+      return NextResponse.json({ error: "Failed to update role" }, { status: 500 });
+    }
+
+    return NextResponse.json({ member: updated });
+  } catch (err) {
+    console.error("Team role update error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/profiles/[id]/members/[memberId]
+ *
+ * Remove a teammate or cancel an invite. Teammates can also remove
+ * themselves to leave the profile.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; memberId: string }> }
+) {
+  try {
+    const { id, memberId } = await params;
+    const db = getServiceClient();
+    const loaded = await loadMember(db, id, memberId);
+    if (loaded instanceof NextResponse) return loaded;
+    const { engager, member } = loaded;
+
+    const isSelf = member.account_id === engager.actorAccountId;
+    const canRemove =
+      hasTeamPermission(engager.role, "manage_team") &&
+      getAssignableRoles(engager.role).includes(member.role);
+
+    if (!isSelf && !canRemove) {
+      return NextResponse.json({ error: "You can't remove this teammate" }, { status: 403 });
+    }
+
+    const { error } = await db.from("profile_members").delete().eq("id", memberId);
+
+    if (error) {
+      console.error("Team remove error:", error);
+      return NextResponse.json({ error: "Failed to remove teammate" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Team remove error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
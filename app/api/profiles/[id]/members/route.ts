@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import { getEngager } from "@/lib/engagement";
+import { getLimit } from "@/lib/entitlements";
+import { getAssignableRoles, hasTeamPermission, isTeamRole } from "@/lib/team";
+import { UUID_RE } from "@/lib/validation";
+import type { ProfileMember } from "@/lib/types";
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type ServiceClient = ReturnType<typeof getServiceClient>;
+
+/**
+ * Distinct teammates (by email, pending invites included) across every
+ * profile the owner account has. Seats are per account, not per profile.
+ */
+async function getSeatEmails(db: ServiceClient, ownerAccountId: string): Promise<Set<string>> {
+  const { data: profiles } = await db
+    .from("business_profiles")
+    .select("id")
+    .eq("account_id", ownerAccountId);
+
+  const profileIds = (profiles ?? []).map((p) => p.id as string);
+  if (profileIds.length === 0) return new Set();
+
+  const { data: members } = await db
+    .from("profile_members")
+    .select("invited_email")
+    .in("profile_id", profileIds);
+
+  return new Set((members ?? []).map((m) => m.invited_email as string));
+}
+
+/**
+ * GET /api/profiles/[id]/members
+ *
+ * The profile's team: its owner, teammates and pending invites, with the
+ * plan's seat usage. Any teammate can view it.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!UUID_RE.test(id)) {
+      return NextResponse.json({ error: "Invalid profile id" }, { status: 400 });
+    }
+
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const db = getServiceClient();
+    const engager = await getEngager(db, user.id, id);
+    if (!engager) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    const { data: rows } = await db
+      .from("profile_members")
+      .select("*")
+      .eq("profile_id", id)
+      .order("created_at", { ascending: true });
+
+    const members = (rows as ProfileMember[]) ?? [];
+    const accountIds = [
+      engager.accountId,
+      ...members.map((m) => m.account_id).filter((a): a is string => !!a),
+    ];
+
+    const { data: accounts } = await db
+      .from("accounts")
+      .select("id, display_name")
+      .in("id", accountIds);
+
+    const names = new Map((accounts ?? []).map((a) => [a.id as string, a.display_name as string | null]));
+    const seats = await getSeatEmails(db, engager.accountId);
+
+    return NextResponse.json({
+      owner: {
+        display_name: names.get(engager.accountId) ?? null,
+        is_you: engager.actorAccountId === engager.accountId,
+      },
+      members: members.map((m) => ({
+        ...m,
+        display_name: m.account_id ? names.get(m.account_id) ?? null : null,
+        is_you: m.account_id === engager.actorAccountId,
+      })),
+      role: engager.role,
+      seats: {
+        used: seats.size + 1,
+        limit: getLimit(engager.membership, "team_seats"),
+      },
+    });
+  } catch (err) {
+    console.error("Team fetch error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/profiles/[id]/members
+ *
+ * Invite a teammate by email. Body: { email, role }
+ *
+ * Owners can invite any role; managers only responders and viewers.
+ * The invitee accepts from the portal once signed in with that email.
+ * Returns 402 when the plan's team seats are used up and 409 when the
+ * email is already on the team.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!UUID_RE.test(id)) {
+      return NextResponse.json({ error: "Invalid profile id" }, { status: 400 });
+    }
+
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+    const role = body.role;
+
+    if (!EMAIL_RE.test(email)) {
+      return NextResponse.json({ error: "A valid email is required" }, { status: 400 });
+    }
+    if (!isTeamRole(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+
+    const db = getServiceClient();
+    const engager = await getEngager(db, user.id, id);
+    if (!engager) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+    if (!hasTeamPermission(engager.role, "manage_team")) {
+      return NextResponse.json({ error: "Only owners and managers can invite" }, { status: 403 });
+    }
+    if (!getAssignableRoles(engager.role).includes(role)) {
+      return NextResponse.json({ error: "You can't invite that role" }, { status: 403 });
+    }
+    if (engager.profile.type === "family") {
+      return NextResponse.json({ error: "Teams are for provider profiles" }, { status: 400 });
+    }
+
+    // Someone already on another of the owner's profiles doesn't take a new seat
+    const seats = await getSeatEmails(db, engager.accountId);
+    const limit = getLimit(engager.membership, "team_seats");
+    if (limit !== null && !seats.has(email) && seats.size + 1 >= limit) {
+      return NextResponse.json({ error: "Upgrade required", limit }, { status: 402 });
+    }
+
+    const { data: member, error: insertError } = await db
+      .from("profile_members")
+      .insert({
+        profile_id: id,
+        invited_email: email,
+        role,
+        invited_by: engager.actorAccountId,
+      })
+      .select()
+      .single<ProfileMember>();
+
+    if (insertError) {
+      // 23505: already invited
+      if (insertError.code === "23505") {
+        return NextResponse.json({ error: "Already on the team" }, { status: 409 });
+      }
+      console.error("Team invite error:", insertError);
+      return NextResponse.json({ error: "Failed to invite" }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      { member: { ...member, display_name: null, is_you: false } },
+      { status: 201 }
+    );
+  } catch (err) {
+    console.error("Team invite error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import { getEngager } from "@/lib/engagement";
+import { MAX_CAPTION_LENGTH, PHOTO_BUCKET, syncCoverImage } from "@/lib/profile-photos";
+import { hasTeamPermission } from "@/lib/team";
+import { UUID_RE } from "@/lib/validation";
+import type { ProfilePhoto } from "@/lib/types";
+
+/**
+ * Load a photo the caller may edit. Returns an error response when
+ * they can't edit the profile or the photo isn't on it.
+ */
+async function loadPhoto(
+  db: ReturnType<typeof getServiceClient>,
+  profileId: string,
+  photoId: string
+): Promise<ProfilePhoto | NextResponse> {
+  if (!UUID_RE.test(profileId) || !UUID_RE.test(photoId)) {
+    return NextResponse.json({ error: "Invalid id" }, { status: 400 });
+  }
+
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const engager = await getEngager(db, user.id, profileId);
+  if (!engager) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+  if (!hasTeamPermission(engager.role, "edit_profile")) {
+    return NextResponse.json({ error: "Your team role can't edit this profile" }, { status: 403 });
+  }
+
+  const { data: photo } = await db
+    .from("profile_photos")
+    .select("*")
+    .eq("id", photoId)
+    .eq("profile_id", profileId)
+    .maybeSingle<ProfilePhoto>();
+
+  if (!photo) {
+    return NextResponse.json({ error: "Photo not found" }, { status: 404 });
+  }
+
+  return photo;
+}
+
+/**
+ * PATCH /api/profiles/[id]/photos/[photoId]
+ *
+ * Update a photo's caption. Body: { caption } (empty to clear)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; photoId: string }> }
+) {
+  try {
+    const { id, photoId } = await params;
+    const body = await request.json();
+    const caption = typeof body.caption === "string" ? body.caption.trim() : "";
+
+    if (caption.length > MAX_CAPTION_LENGTH) {
+      return NextResponse.json(
+        { error: `Captions must be ${MAX_CAPTION_LENGTH} characters or fewer` },
+        { status: 400 }
+      );
+    }
+
+    const db = getServiceClient();
+    const loaded = await loadPhoto(db, id, photoId);
+    if (loaded instanceof NextResponse) return loaded;
+
+    const { data: photo, error } = await db
+      .from("profile_photos")
+      .update({ caption: caption || null })
+      .eq("id", photoId)
+      .select()
+      .single<ProfilePhoto>();
+
+    if (error) {
+      console.error("Photo caption error:", error);
+      return NextResponse.json({ error: "Failed to update caption" }, { status: 500 });
+    }
+
+    return NextResponse.json({ photo });
+  } catch (err) {
+    console.error("Photo update error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/profiles/[id]/photos/[photoId]
+ *
+ * Remove a photo from the gallery and from storage.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; photoId: string }> }
+) {
+  try {
+    const { id, photoId } = await params;
+    const db = getServiceClient();
+    const loaded = await loadPhoto(db, id, photoId);
+    if (loaded instanceof NextResponse) return loaded;
+    const photo = loaded;
+
+    const { error } = await db.from("profile_photos").delete().eq("id", photoId);
+    if (error) {
+      console.error("Photo delete error:", error);
+      return NextResponse.json({ error: "Failed to delete photo" }, { status: 500 });
+    }
+
+    await db.storage.from(PHOTO_BUCKET).remove([photo.storage_path]);
+    await syncCoverImage(db, id);
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Photo delete error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
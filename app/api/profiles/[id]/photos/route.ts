@@ -0,0 +1,214 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import { getEngager, type Engager } from "@/lib/engagement";
+import {
+  MAX_CAPTION_LENGTH,
+  MAX_PHOTOS,
+  PHOTO_BUCKET,
+  checkPhotoFile,
+  getPhotoUrls,
+  syncCoverImage,
+} from "@/lib/profile-photos";
+import { hasTeamPermission } from "@/lib/team";
+import { UUID_RE } from "@/lib/validation";
+import type { ProfilePhoto } from "@/lib/types";
+
+type ServiceClient = ReturnType<typeof getServiceClient>;
+
+/**
+ * Load the caller's role on the profile. Returns an error response
+ * unless they may edit it and it's a provider profile.
+ */
+async function loadEditor(db: ServiceClient, profileId: string): Promise<Engager | NextResponse> {
+  if (!UUID_RE.test(profileId)) {
+    return NextResponse.json({ error: "Invalid profile id" }, { status: 400 });
+  }
+
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const engager = await getEngager(db, user.id, profileId);
+  if (!engager) {
+    return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+  }
+  if (!hasTeamPermission(engager.role, "edit_profile")) {
+    return NextResponse.json({ error: "Your team role can't edit this profile" }, { status: 403 });
+  }
+  if (engager.profile.type === "family") {
+    return NextResponse.json({ error: "Only provider profiles have photos" }, { status: 400 });
+  }
+
+  return engager;
+}
+
+async function listPhotos(db: ServiceClient, profileId: string): Promise<ProfilePhoto[]> {
+  const { data } = await db
+    .from("profile_photos")
+    .select("*")
+    .eq("profile_id", profileId)
+    .order("position", { ascending: true });
+  return (data as ProfilePhoto[]) ?? [];
+}
+
+/**
+ * GET /api/profiles/[id]/photos
+ *
+ * The profile's gallery in display order, with its logo.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const db = getServiceClient();
+    const loaded = await loadEditor(db, id);
+    if (loaded instanceof NextResponse) return loaded;
+
+    const [photos, { data: profile }] = await Promise.all([
+      listPhotos(db, id),
+      db.from("business_profiles").select("logo_url").eq("id", id).single(),
+    ]);
+
+    return NextResponse.json({ photos, logo_url: profile?.logo_url ?? null });
+  } catch (err) {
+    console.error("Photos fetch error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/profiles/[id]/photos
+ *
+ * Add a photo to the end of the gallery. Multipart form data:
+ *   file     - JPG, PNG or WebP, up to 5 MB
+ *   caption  - optional
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const db = getServiceClient();
+    const loaded = await loadEditor(db, id);
+    if (loaded instanceof NextResponse) return loaded;
+    const engager = loaded;
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const caption = String(formData.get("caption") ?? "").trim();
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "A file is required" }, { status: 400 });
+    }
+    if (caption.length > MAX_CAPTION_LENGTH) {
+      return NextResponse.json(
+        { error: `Captions must be ${MAX_CAPTION_LENGTH} characters or fewer` },
+        { status: 400 }
+      );
+    }
+
+    const checked = await checkPhotoFile(file);
+    if (!checked.ok) {
+      return NextResponse.json({ error: checked.error }, { status: 400 });
+    }
+
+    const photos = await listPhotos(db, id);
+    if (photos.length >= MAX_PHOTOS) {
+      return NextResponse.json(
+        { error: `A gallery can have up to ${MAX_PHOTOS} photos` },
+        { status: 409 }
+      );
+    }
+
+    const path = `${id}/${crypto.randomUUID()}.${checked.extension}`;
+    const { error: uploadError } = await db.storage
+      .from(PHOTO_BUCKET)
+      .upload(path, checked.bytes, { contentType: checked.contentType });
+
+    if (uploadError) {
+      console.error("Photo upload error:", uploadError);
+      return NextResponse.json({ error: "Failed to upload photo" }, { status: 500 });
+    }
+
+    const { data: photo, error } = await db
+      .from("profile_photos")
+      .insert({
+        profile_id: id,
+        storage_path: path,
+        ...getPhotoUrls(db, path),
+        caption: caption || null,
+        position: photos.length > 0 ? photos[photos.length - 1].position + 1 : 0,
+        uploaded_by: engager.actorAccountId,
+      })
+      .select()
+      .single<ProfilePhoto>();
+
+    if (error) {
+      console.error("Photo save error:", error);
+      await db.storage.from(PHOTO_BUCKET).remove([path]);
+      return NextResponse.json({ error: "Failed to save photo" }, { status: 500 });
+    }
+
+    if (photos.length === 0) await syncCoverImage(db, id);
+
+    return NextResponse.json({ photo });
+  } catch (err) {
+    console.error("Photo upload error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/profiles/[id]/photos
+ *
+ * Reorder the gallery. Body: { order: photo ids, first to last }
+ * The order must list every photo exactly once; the first becomes the
+ * profile's cover image.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const order: unknown = body.order;
+
+    const db = getServiceClient();
+    const loaded = await loadEditor(db, id);
+    if (loaded instanceof NextResponse) return loaded;
+
+    const photos = await listPhotos(db, id);
+    const ids = new Set(photos.map((p) => p.id));
+    if (
+      !Array.isArray(order) ||
+      order.length !== ids.size ||
+      new Set(order).size !== ids.size ||
+      order.some((photoId) => !ids.has(photoId))
+    ) {
+      return NextResponse.json({ error: "The order must list each photo once" }, { status: 400 });
+    }
+
+    const results = await Promise.all(
+      (order as string[]).map((photoId, position) =>
+        db.from("profile_photos").update({ position }).eq("id", photoId).eq("profile_id", id)
+      )
+    );
+    const failed = results.find((r) => r.error);
+    if (failed?.error) {
+      console.error("Photo reorder error:", failed.error);
+      return NextResponse.json({ error: "Failed to reorder photos" }, { status: 500 });
+    }
+
+    await syncCoverImage(db, id);
+
+    return NextResponse.json({ photos: await listPhotos(db, id) });
+  } catch (err) {
+    console.error("Photo reorder error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getServiceClient } from "@/lib/admin";
+import { MAX_ANSWER_LENGTH } from "@/lib/provider-questions";
+
+/**
+ * PUT /api/questions/[id]/answer
+ *
+ * Answer a question asked on the caller's provider page. Calling this
+ * again replaces the answer.
+ * Body: { answer: string }
+ *
+ * DELETE /api/questions/[id]/answer
+ *
+ * Remove the answer, putting the question back on the to-do list.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = await request.json();
+  const answer = typeof body.answer === "string" ? body.answer.trim() : "";
+
+  if (!answer) {
+    return NextResponse.json({ error: "Answer text is required" }, { status: 400 });
+  }
+  if (answer.length > MAX_ANSWER_LENGTH) {
+    return NextResponse.json(
+      { error: `Answers are limited to ${MAX_ANSWER_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  return setAnswer(id, answer);
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return setAnswer(id, null);
+}
+
+async function setAnswer(questionId: string, answer: string | null) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    // RLS only returns the question to the asker and the provider
+    const { data: question } = await supabase
+      .from("provider_questions")
+      .select("id, provider_profile_id")
+      .eq("id", questionId)
+      .single();
+
+    if (!question) {
+      return NextResponse.json({ error: "Question not found" }, { status: 404 });
+    }
+
+    const { data: account } = await supabase
+      .from("accounts")
+      .select("id")
+      .eq("user_id", user.id)
+      .single();
+
+    const { data: provider } = account
+      ? await supabase
+          .from("business_profiles")
+          .select("id")
+          .eq("id", question.provider_profile_id)
+          .eq("account_id", account.id)
+          .single()
+      : { data: null };
+
+    if (!provider) {
+      return NextResponse.json(
+        { error: "Only the provider can answer this question" },
+        { status: 403 }
+      );
+    }
+
+    // provider_questions has no UPDATE policy, so write with the service role
+    const db = getServiceClient();
+
+    // Votes were for the old answer
+    if (!answer) {
+      await db.from("provider_answer_votes").delete().eq("question_id", questionId);
+    }
+
+    const { data: updated, error } = await db
+      .from("provider_questions")
+      .update({
+        answer,
+        answered_at: answer ? new Date().toISOString() : null,
+      })
+      .eq("id", questionId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Failed to save answer:", error);
+      return NextResponse.json({ error: "Failed to save answer" }, { status: 500 });
+    }
+
+    return NextResponse.json({ question: updated });
+  } catch (err) {
+    console.error("Question answer error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
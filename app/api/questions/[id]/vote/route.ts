@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * POST /api/questions/[id]/vote
+ *
+ * Mark the provider's answer as helpful. Voting twice is a no-op.
+ *
+ * DELETE /api/questions/[id]/vote
+ *
+ * Take the vote back.
+ *
+ * Both return the updated helpful_count.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return setVote(id, true);
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return setVote(id, false);
+}
+
+async function setVote(questionId: string, helpful: boolean) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    if (helpful) {
+      const { error } = await supabase
+        .from("provider_answer_votes")
+        .insert({ question_id: questionId, user_id: user.id });
+
+      // 23505: already voted
+      if (error && error.code !== "23505") {
+        console.error("Failed to record vote:", error);
+        return NextResponse.json(
+          { error: "Only answered questions can be voted on" },
+          { status: 400 }
+        );
+      }
+    } else {
+      const { error } = await supabase
+        .from("provider_answer_votes")
+        .delete()
+        .eq("question_id", questionId)
+        .eq("user_id", user.id);
+
+      if (error) {
+        console.error("Failed to remove vote:", error);
+        return NextResponse.json({ error: "Failed to remove vote" }, { status: 500 });
+      }
+    }
+
+    const { data: question } = await supabase
+      .from("public_provider_questions")
+      .select("helpful_count")
+      .eq("id", questionId)
+      .single();
+
+    return NextResponse.json({ helpful_count: question?.helpful_count ?? 0 });
+  } catch (err) {
+    console.error("Question vote error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { MAX_QUESTION_LENGTH } from "@/lib/provider-questions";
+
+/**
+ * POST /api/questions
+ *
+ * Ask a provider a question from one of the caller's profiles.
+ * Body: { provider_profile_id, asker_profile_id, question, is_anonymous? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const providerProfileId = body.provider_profile_id as string | undefined;
+    const askerProfileId = body.asker_profile_id as string | undefined;
+    const question = typeof body.question === "string" ? body.question.trim() : "";
+    const isAnonymous = body.is_anonymous === true;
+
+    if (!providerProfileId || !askerProfileId) {
+      return NextResponse.json(
+        { error: "provider_profile_id and asker_profile_id are required" },
+        { status: 400 }
+      );
+    }
+    if (!question) {
+      return NextResponse.json({ error: "Question text is required" }, { status: 400 });
+    }
+    if (question.length > MAX_QUESTION_LENGTH) {
+      return NextResponse.json(
+        { error: `Questions are limited to ${MAX_QUESTION_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    if (providerProfileId === askerProfileId) {
+      return NextResponse.json(
+        { error: "You can't ask your own profile a question" },
+        { status: 400 }
+      );
+    }
+
+    const { data: account } = await supabase
+      .from("accounts")
+      .select("id")
+      .eq("user_id", user.id)
+      .single();
+
+    const { data: asker } = account
+      ? await supabase
+          .from("business_profiles")
+          .select("id")
+          .eq("id", askerProfileId)
+          .eq("account_id", account.id)
+          .single()
+      : { data: null };
+
+    if (!asker) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    const { data: provider } = await supabase
+      .from("business_profiles")
+      .select("id")
+      .eq("id", providerProfileId)
+      .in("type", ["organization", "caregiver"])
+      .single();
+
+    if (!provider) {
+      return NextResponse.json({ error: "Provider not found" }, { status: 404 });
+    }
+
+    const { data: created, error } = await supabase
+      .from("provider_questions")
+      .insert({
+        provider_profile_id: providerProfileId,
+        asker_profile_id: askerProfileId,
+        is_anonymous: isAnonymous,
+        question,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Failed to create question:", error);
+      return NextResponse.json({ error: "Failed to post question" }, { status: 500 });
+    }
+
+    return NextResponse.json({ question: created }, { status: 201 });
+  } catch (err) {
+    console.error("Question submit error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { REVIEW_REPORT_REASONS } from "@/lib/reviews";
+import type { ReviewReportReason } from "@/lib/types";
+
+/**
+ * POST /api/reviews/[id]/report
+ *
+ * Flag a review for admin moderation. One report per user per review.
+ * Body: { reason, details? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const reason = body.reason as ReviewReportReason;
+    const details = typeof body.details === "string" ? body.details.trim() : "";
+
+    if (!REVIEW_REPORT_REASONS.includes(reason)) {
+      return NextResponse.json({ error: "Invalid reason" }, { status: 400 });
+    }
+    if (details.length > 2000) {
+      return NextResponse.json(
+        { error: "Details are limited to 2000 characters" },
+        { status: 400 }
+      );
+    }
+
+    const { data: review } = await supabase
+      .from("reviews")
+      .select("id")
+      .eq("id", id)
+      .single();
+
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+
+    const { error } = await supabase.from("review_reports").insert({
+      review_id: id,
+      reporter_user_id: user.id,
+      reason,
+      details: details || null,
+    });
+
+    if (error) {
+      if (error.code === "23505") {
+        return NextResponse.json(
+          { error: "You've already reported this review" },
+          { status: 409 }
+        );
+      }
+      console.error("Failed to report review:", error);
+      return NextResponse.json({ error: "Failed to report review" }, { status: 500 });
+    }
+
+    return NextResponse.json({ reported: true }, { status: 201 });
+  } catch (err) {
+    console.error("Review report error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getServiceClient } from "@/lib/admin";
+import { MAX_REVIEW_LENGTH } from "@/lib/reviews";
+
+/**
+ * PUT /api/reviews/[id]/response
+ *
+ * Set the provider's public response to a review. Each review has a
+ * single response; calling this again replaces it.
+ * Body: { response: string }
+ *
+ * DELETE /api/reviews/[id]/response
+ *
+ * Remove the provider's response.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = await request.json();
+  const response = typeof body.response === "string" ? body.response.trim() : "";
+
+  if (!response) {
+    return NextResponse.json({ error: "Response text is required" }, { status: 400 });
+  }
+  if (response.length > MAX_REVIEW_LENGTH) {
+    return NextResponse.json(
+      { error: `Responses are limited to ${MAX_REVIEW_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  return setResponse(id, response);
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  return setResponse(id, null);
+}
+
+async function setResponse(reviewId: string, response: string | null) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    // RLS only returns the review to its participants
+    const { data: review } = await supabase
+      .from("reviews")
+      .select("id, provider_profile_id")
+      .eq("id", reviewId)
+      .single();
+
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+
+    const { data: account } = await supabase
+      .from("accounts")
+      .select("id")
+      .eq("user_id", user.id)
+      .single();
+
+    const { data: provider } = account
+      ? await supabase
+          .from("business_profiles")
+          .select("id")
+          .eq("id", review.provider_profile_id)
+          .eq("account_id", account.id)
+          .single()
+      : { data: null };
+
+    if (!provider) {
+      return NextResponse.json(
+        { error: "Only the reviewed provider can respond" },
+        { status: 403 }
+      );
+    }
+
+    // Reviews have no UPDATE policy, so write with the service role
+    const db = getServiceClient();
+    const { data: updated, error } = await db
+      .from("reviews")
+      .update({
+        provider_response: response,
+        provider_responded_at: response ? new Date().toISOString() : null,
+      })
+      .eq("id", reviewId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Failed to save review response:", error);
+      return NextResponse.json({ error: "Failed to save response" }, { status: 500 });
+    }
+
+    return NextResponse.json({ review: updated });
+  } catch (err) {
+    console.error("Review response error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { MAX_REVIEW_LENGTH } from "@/lib/reviews";
+import { UUID_RE } from "@/lib/validation";
+
+/**
+ * POST /api/reviews
+ *
+ * Submit a review of a provider from one of the caller's family profiles.
+ * Body: { provider_profile_id, reviewer_profile_id, rating, body }
+ *
+ * The reviewer must have a connection (other than a save) with the
+ * provider. RLS enforces the same rule on insert.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const providerProfileId = body.provider_profile_id as string | undefined;
+    const reviewerProfileId = body.reviewer_profile_id as string | undefined;
+    const rating = Number(body.rating);
+    const text = typeof body.body === "string" ? body.body.trim() : "";
+
+    if (
+      !providerProfileId ||
+      !reviewerProfileId ||
+      !UUID_RE.test(providerProfileId) ||
+      !UUID_RE.test(reviewerProfileId)
+    ) {
+      return NextResponse.json(
+        { error: "Valid provider_profile_id and reviewer_profile_id are required" },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      return NextResponse.json({ error: "Rating must be between 1 and 5" }, { status: 400 });
+    }
+    if (!text) {
+      return NextResponse.json({ error: "Review text is required" }, { status: 400 });
+    }
+    if (text.length > MAX_REVIEW_LENGTH) {
+      return NextResponse.json(
+        { error: `Reviews are limited to ${MAX_REVIEW_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { data: account } = await supabase
+      .from("accounts")
+      .select("id")
+      .eq("user_id", user.id)
+      .single();
+
+    const { data: reviewer } = account
+      ? await supabase
+          .from("business_profiles")
+          .select("id, type")
+          .eq("id", reviewerProfileId)
+          .eq("account_id", account.id)
+          .single()
+      : { data: null };
+
+    if (!reviewer) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+    if (reviewer.type !== "family") {
+      return NextResponse.json(
+        { error: "Only family profiles can leave reviews" },
+        { status: 403 }
+      );
+    }
+
+    // Either side may have started the connection
+    const { data: connection } = await supabase
+      .from("connections")
+      .select("id")
+      .neq("type", "save")
+      .or(
+        `and(from_profile_id.eq.${reviewerProfileId},to_profile_id.eq.${providerProfileId}),` +
+          `and(from_profile_id.eq.${providerProfileId},to_profile_id.eq.${reviewerProfileId})`
+      )
+      .order("created_at", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (!connection) {
+      return NextResponse.json(
+        { error: "You can only review providers you've connected with on Olera" },
+        { status: 403 }
+      );
+    }
+
+    const { data: review, error } = await supabase
+      .from("reviews")
+      .insert({
+        provider_profile_id: providerProfileId,
+        reviewer_profile_id: reviewerProfileId,
+        connection_id: connection.id,
+        rating,
+        body: text,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === "23505") {
+        return NextResponse.json(
+          { error: "You've already reviewed this provider" },
+          { status: 409 }
+        );
+      }
+      console.error("Failed to create review:", error);
+      return NextResponse.json({ error: "Failed to submit review" }, { status: 500 });
+    }
+
+    return NextResponse.json({ review }, { status: 201 });
+  } catch (err) {
+    console.error("Review submit error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
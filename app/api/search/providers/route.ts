@@ -0,0 +1,216 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  PROVIDERS_TABLE,
+  toCardFormat,
+  type Provider,
+} from "@/lib/types/provider";
+import {
+  CARE_TYPE_TO_CATEGORY,
+  MAX_RADIUS_MILES,
+  decodeCursor,
+  encodeCursor,
+  escapeLike,
+  fromSearchQueryString,
+  parseLocation,
+  toCareTypeFacets,
+  toPaymentFacets,
+  type ProviderSearchResponse,
+  type ProviderSearchResult,
+} from "@/lib/provider-search";
+import { formatPriceSummary } from "@/lib/provider-details";
+import type { OrganizationMetadata } from "@/lib/types";
+
+interface SearchRow {
+  provider_id: string;
+  sort_key: number;
+  distance_miles: number | null;
+  total_count: number;
+}
+
+interface FacetRow {
+  facet: "category" | "state" | "payment";
+  value: string;
+  count: number;
+}
+
+/**
+ * GET /api/search/providers
+ *
+ * Query: type, location, min_rating, sort, lat, lng, radius, payment, cursor, limit, facets
+ * Returns one page of provider cards plus the total match count, a
+ * cursor for the next page and (on the first page) facet counts.
+ * payment is a PAYMENT_OPTIONS id, e.g. "medicaid".
+ * When lat/lng are given each result carries its distance in miles.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const params = fromSearchQueryString(request.nextUrl.searchParams);
+
+    const category = params.careType ? CARE_TYPE_TO_CATEGORY[params.careType] : undefined;
+    const location = params.location ? parseLocation(params.location) : null;
+
+    const hasOrigin = params.lat !== undefined && params.lng !== undefined;
+
+    if ((params.lat === undefined) !== (params.lng === undefined)) {
+      return NextResponse.json({ error: "lat and lng must be given together" }, { status: 400 });
+    }
+    if (hasOrigin && (Math.abs(params.lat!) > 90 || Math.abs(params.lng!) > 180)) {
+      return NextResponse.json(
+        { error: "lat must be between -90 and 90 and lng between -180 and 180" },
+        { status: 400 }
+      );
+    }
+
+    if (params.sort === "distance" && !hasOrigin) {
+      return NextResponse.json(
+        { error: "lat and lng are required to sort by distance" },
+        { status: 400 }
+      );
+    }
+
+    if (params.radius !== undefined) {
+      if (!hasOrigin) {
+        return NextResponse.json(
+          { error: "lat and lng are required for a radius search" },
+          { status: 400 }
+        );
+      }
+      if (params.radius <= 0 || params.radius > MAX_RADIUS_MILES) {
+        return NextResponse.json(
+          { error: `radius must be between 0 and ${MAX_RADIUS_MILES} miles` },
+          { status: 400 }
+        );
+      }
+    }
+
+    let after: { sortKey: number; providerId: string } | null = null;
+    if (params.cursor) {
+      after = decodeCursor(params.cursor);
+      if (!after) {
+        return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+      }
+    }
+
+    const filters = {
+      p_category: category ? escapeLike(category) : null,
+      p_city: location?.city ? escapeLike(location.city) : null,
+      p_state: location?.state ?? null,
+      p_query: location?.query ? escapeLike(location.query) : null,
+      p_min_rating: params.minRating ?? null,
+      p_lat: params.lat ?? null,
+      p_lon: params.lng ?? null,
+      p_radius_miles: params.radius ?? null,
+      p_payment: params.payment ?? null,
+    };
+
+    const supabase = await createClient();
+
+    const [searchRes, facetRes] = await Promise.all([
+      supabase.rpc("search_providers", {
+        ...filters,
+        p_sort: params.sort,
+        p_after_key: after?.sortKey ?? null,
+        p_after_id: after?.providerId ?? null,
+        p_limit: params.limit,
+      }),
+      params.facets
+        ? supabase.rpc("search_provider_facets", filters)
+        : Promise.resolve({ data: null, error: null }),
+    ]);
+
+    if (searchRes.error) {
+      console.error("Provider search error:", searchRes.error);
+      return NextResponse.json({ error: "Search failed" }, { status: 500 });
+    }
+    if (facetRes.error) {
+      console.error("Provider facet error:", facetRes.error);
+    }
+
+    const rows = (searchRes.data as SearchRow[]) || [];
+    const ids = rows.map((r) => r.provider_id);
+
+    let results: ProviderSearchResult[] = [];
+    if (ids.length > 0) {
+      const [providerRes, claimedRes] = await Promise.all([
+        supabase.from(PROVIDERS_TABLE).select("*").in("provider_id", ids),
+        supabase
+          .from("business_profiles")
+          .select("id, source_provider_id, metadata")
+          .in("source_provider_id", ids)
+          .eq("claim_state", "claimed"),
+      ]);
+
+      if (providerRes.error) {
+        console.error("Provider fetch error:", providerRes.error);
+        return NextResponse.json({ error: "Search failed" }, { status: 500 });
+      }
+
+      const providers = new Map(
+        ((providerRes.data as Provider[]) || []).map((p) => [String(p.provider_id), p])
+      );
+      const claimed = new Map(
+        (
+          (claimedRes.data as {
+            id: string;
+            source_provider_id: string;
+            metadata: OrganizationMetadata | null;
+          }[]) || []
+        ).map((c) => [c.source_provider_id, c])
+      );
+
+      // Keep the order search_providers returned
+      results = rows.flatMap((row) => {
+        const provider = providers.get(row.provider_id);
+        if (!provider) return [];
+        const card = toCardFormat(provider);
+        // Claimed listings show the owner's structured pricing. Payment
+        // options are copied onto the listing itself, so the card has them.
+        const owner = claimed.get(row.provider_id);
+        return [
+          {
+            ...card,
+            priceRange: formatPriceSummary(owner?.metadata ?? undefined) || card.priceRange,
+            distanceMiles: row.distance_miles ?? undefined,
+            claimedProfileId: owner?.id,
+          },
+        ];
+      });
+    }
+
+    const last = rows[rows.length - 1];
+    const facetRows = (facetRes.data as FacetRow[] | null) ?? null;
+
+    const body: ProviderSearchResponse = {
+      results,
+      total: rows.length > 0 ? Number(rows[0].total_count) : 0,
+      nextCursor:
+        last && rows.length === params.limit
+          ? encodeCursor(last.sort_key, last.provider_id)
+          : null,
+      facets: facetRows
+        ? {
+            careTypes: toCareTypeFacets(
+              facetRows
+                .filter((f) => f.facet === "category")
+                .map((f) => ({ value: f.value, count: Number(f.count) }))
+            ),
+            states: facetRows
+              .filter((f) => f.facet === "state")
+              .map((f) => ({ value: f.value, count: Number(f.count) }))
+              .sort((a, b) => b.count - a.count),
+            payments: toPaymentFacets(
+              facetRows
+                .filter((f) => f.facet === "payment")
+                .map((f) => ({ value: f.value, count: Number(f.count) }))
+            ),
+          }
+        : null,
+    };
+
+    return NextResponse.json(body);
+  } catch (err) {
+    console.error("Provider search error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
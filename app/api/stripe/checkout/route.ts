@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createClient } from "@/lib/supabase/server";
+import { getServiceClient } from "@/lib/admin";
 import { getStripe, isStripeConfigured, PRICE_IDS } from "@/lib/stripe";
+import { isPaidPlan, type PaidPlan } from "@/lib/entitlements";
 
 export async function POST(request: NextRequest) {
   if (!isStripeConfigured()) {
@@ -12,14 +14,20 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { billingCycle } = body as { billingCycle: "monthly" | "annual" };
+    const { billingCycle, plan = "pro" } = body as {
+      billingCycle: "monthly" | "annual";
+      plan?: PaidPlan;
+    };
 
-    // Validate billing cycle
+    // Validate plan and billing cycle
+    if (!isPaidPlan(plan)) {
+      return NextResponse.json({ error: "Invalid plan" }, { status: 400 });
+    }
     const priceId =
-      billingCycle === "annual" ? PRICE_IDS.annual : PRICE_IDS.monthly;
+      billingCycle === "annual" ? PRICE_IDS[plan].annual : PRICE_IDS[plan].monthly;
     if (!priceId) {
       return NextResponse.json(
-        { error: "Price not configured for this billing cycle" },
+        { error: "Price not configured for this plan and billing cycle" },
         { status: 400 }
       );
     }
@@ -65,8 +73,8 @@ export async function POST(request: NextRequest) {
       });
       customerId = customer.id;
 
-      // Save customer ID
-      await supabase
+      // Save customer ID (memberships are read-only to the browser client)
+      await getServiceClient()
         .from("memberships")
         .update({ stripe_customer_id: customerId })
         .eq("account_id", account.id);
@@ -80,7 +88,7 @@ export async function POST(request: NextRequest) {
       line_items: [{ price: priceId, quantity: 1 }],
       success_url: `${origin}/portal/settings?upgraded=true`,
       cancel_url: `${origin}/portal/settings`,
-      metadata: { account_id: account.id },
+      metadata: { account_id: account.id, plan, billing_cycle: billingCycle },
     });
 
     return NextResponse.json({ url: session.url });
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getStripe, isStripeConfigured } from "@/lib/stripe";
+
+/**
+ * GET /api/stripe/invoices
+ *
+ * The signed-in provider's past invoices, newest first, with links to
+ * view and download each one.
+ */
+export async function GET() {
+  if (!isStripeConfigured()) {
+    return NextResponse.json(
+      { error: "Stripe is not configured" },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { data: account } = await supabase
+      .from("accounts")
+      .select("id")
+      .eq("user_id", user.id)
+      .single();
+
+    if (!account) {
+      return NextResponse.json(
+        { error: "Account not found" },
+        { status: 404 }
+      );
+    }
+
+    const { data: membership } = await supabase
+      .from("memberships")
+      .select("stripe_customer_id")
+      .eq("account_id", account.id)
+      .single();
+
+    // Never checked out, so nothing has been billed
+    if (!membership?.stripe_customer_id) {
+      return NextResponse.json({ invoices: [] });
+    }
+
+    const stripe = getStripe();
+    const { data } = await stripe.invoices.list({
+      customer: membership.stripe_customer_id,
+      limit: 24,
+    });
+
+    const invoices = data
+      .filter((invoice) => invoice.status !== "draft")
+      .map((invoice) => ({
+        id: invoice.id,
+        number: invoice.number,
+        status: invoice.status,
+        amount: invoice.total,
+        currency: invoice.currency,
+        created: new Date(invoice.created * 1000).toISOString(),
+        hosted_invoice_url: invoice.hosted_invoice_url ?? null,
+        invoice_pdf: invoice.invoice_pdf ?? null,
+      }));
+
+    return NextResponse.json({ invoices });
+  } catch (err: unknown) {
+    const message =
+      err && typeof err === "object" && "message" in err
+        ? (err as { message: string }).message
+        : "Internal server error";
+    console.error("Stripe invoices error:", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getStripe, isStripeConfigured } from "@/lib/stripe";
+
+/**
+ * POST /api/stripe/portal
+ *
+ * Open a Stripe customer portal session so the provider can update their
+ * card. Returns the portal URL to redirect to.
+ */
+export async function POST(request: NextRequest) {
+  if (!isStripeConfigured()) {
+    return NextResponse.json(
+      { error: "Stripe is not configured" },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { data: account } = await supabase
+      .from("accounts")
+      .select("id")
+      .eq("user_id", user.id)
+      .single();
+
+    if (!account) {
+      return NextResponse.json(
+        { error: "Account not found" },
+        { status: 404 }
+      );
+    }
+
+    const { data: membership } = await supabase
+      .from("memberships")
+      .select("stripe_customer_id")
+      .eq("account_id", account.id)
+      .single();
+
+    if (!membership?.stripe_customer_id) {
+      return NextResponse.json(
+        { error: "No billing account yet" },
+        { status: 400 }
+      );
+    }
+
+    const stripe = getStripe();
+    const session = await stripe.billingPortal.sessions.create({
+      customer: membership.stripe_customer_id,
+      return_url: `${request.nextUrl.origin}/portal/settings`,
+    });
+
+    return NextResponse.json({ url: session.url });
+  } catch (err: unknown) {
+    const message =
+      err && typeof err === "object" && "message" in err
+        ? (err as { message: string }).message
+        : "Internal server error";
+    console.error("Stripe portal error:", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getServiceClient } from "@/lib/admin";
+import { getStripe, isStripeConfigured, PRICE_IDS } from "@/lib/stripe";
+import { updateMembership } from "@/lib/stripe-events";
+import { isPaidPlan, PLANS, type PaidPlan } from "@/lib/entitlements";
+import type { BillingCycle } from "@/lib/types";
+import type Stripe from "stripe";
+
+/**
+ * PATCH /api/stripe/subscription
+ *
+ * Change the signed-in provider's subscription. Body is one of:
+ *   { plan?, billingCycle? }        — switch plan and/or billing cycle, prorated
+ *   { cancelAtPeriodEnd: boolean }  — cancel at period end, or undo it
+ *
+ * The membership row is updated right away so settings reflect the change,
+ * through the same ordering guard as webhooks: the change is stamped with
+ * the time it was made, so older events still in flight don't undo it and
+ * the customer.subscription.updated webhook that follows still applies.
+ */
+export async function PATCH(request: NextRequest) {
+  if (!isStripeConfigured()) {
+    return NextResponse.json(
+      { error: "Stripe is not configured" },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const { plan, billingCycle, cancelAtPeriodEnd } = body as {
+      plan?: PaidPlan;
+      billingCycle?: "monthly" | "annual";
+      cancelAtPeriodEnd?: boolean;
+    };
+
+    if (plan !== undefined && !isPaidPlan(plan)) {
+      return NextResponse.json({ error: "Invalid plan" }, { status: 400 });
+    }
+    if (billingCycle !== undefined && billingCycle !== "monthly" && billingCycle !== "annual") {
+      return NextResponse.json({ error: "Invalid billing cycle" }, { status: 400 });
+    }
+    if (!plan && !billingCycle && typeof cancelAtPeriodEnd !== "boolean") {
+      return NextResponse.json(
+        { error: "plan, billingCycle or cancelAtPeriodEnd is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { data: account } = await supabase
+      .from("accounts")
+      .select("id")
+      .eq("user_id", user.id)
+      .single();
+
+    if (!account) {
+      return NextResponse.json(
+        { error: "Account not found" },
+        { status: 404 }
+      );
+    }
+
+    const { data: membership } = await supabase
+      .from("memberships")
+      .select("stripe_subscription_id, plan, billing_cycle")
+      .eq("account_id", account.id)
+      .single();
+
+    if (!membership?.stripe_subscription_id) {
+      return NextResponse.json(
+        { error: "No active subscription" },
+        { status: 400 }
+      );
+    }
+
+    const stripe = getStripe();
+    let params: Stripe.SubscriptionUpdateParams;
+
+    const nextPlan: PaidPlan = plan ?? (isPaidPlan(membership.plan) ? membership.plan : "pro");
+    const nextCycle: BillingCycle = billingCycle ?? membership.billing_cycle ?? "monthly";
+
+    if (plan || billingCycle) {
+      const priceId = PRICE_IDS[nextPlan][nextCycle];
+      if (!priceId) {
+        return NextResponse.json(
+          { error: "Price not configured for this plan and billing cycle" },
+          { status: 400 }
+        );
+      }
+      if (membership.plan === nextPlan && membership.billing_cycle === nextCycle) {
+        return NextResponse.json(
+          { error: `Already on ${PLANS[nextPlan].label} billed ${nextCycle}` },
+          { status: 400 }
+        );
+      }
+
+      const subscription = await stripe.subscriptions.retrieve(
+        membership.stripe_subscription_id
+      );
+      const item = subscription.items.data[0];
+      if (!item) {
+        return NextResponse.json(
+          { error: "Subscription has no plan" },
+          { status: 400 }
+        );
+      }
+
+      // Swap the price on the existing item; Stripe credits the unused
+      // time and charges the difference on the next invoice
+      params = {
+        items: [{ id: item.id, price: priceId }],
+        proration_behavior: "create_prorations",
+      };
+    } else {
+      params = { cancel_at_period_end: cancelAtPeriodEnd };
+    }
+
+    const updated = await stripe.subscriptions.update(
+      membership.stripe_subscription_id,
+      params
+    );
+
+    const periodEnd = updated.items.data[0]?.current_period_end;
+    const changes = {
+      cancel_at_period_end: updated.cancel_at_period_end,
+      ...((plan || billingCycle) && { plan: nextPlan, billing_cycle: nextCycle }),
+      ...(periodEnd && {
+        current_period_ends_at: new Date(periodEnd * 1000).toISOString(),
+      }),
+    };
+
+    try {
+      await updateMembership(
+        getServiceClient(),
+        { column: "account_id", value: account.id },
+        Math.floor(Date.now() / 1000),
+        changes
+      );
+    } catch (updateError) {
+      // Stripe has the change; the webhook will bring the row up to date
+      console.error("Failed to update membership after subscription change:", updateError);
+    }
+
+    return NextResponse.json({ membership: changes });
+  } catch (err: unknown) {
+    const message =
+      err && typeof err === "object" && "message" in err
+        ? (err as { message: string }).message
+        : "Internal server error";
+    console.error("Stripe subscription error:", message);
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
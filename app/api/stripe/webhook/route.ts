@@ -1,18 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getStripe, isStripeConfigured } from "@/lib/stripe";
-import { createClient } from "@supabase/supabase-js";
+import { handleStripeEvent } from "@/lib/stripe-events";
 import type Stripe from "stripe";
 
-// Use the service role key for webhook processing (bypasses RLS)
-function getAdminClient() {
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-  if (!url || !serviceKey) {
-    throw new Error("Supabase admin credentials not configured");
-  }
-  return createClient(url, serviceKey);
-}
-
 export async function POST(request: NextRequest) {
   if (!isStripeConfigured()) {
     return NextResponse.json({ error: "Not configured" }, { status: 503 });
@@ -42,114 +32,19 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Invalid signature" }, { status: 400 });
   }
 
-  const supabase = getAdminClient();
-
   try {
-    switch (event.type) {
-      case "checkout.session.completed": {
-        const session = event.data.object as Stripe.Checkout.Session;
-        const accountId = session.metadata?.account_id;
-        if (!accountId) break;
-
-        await supabase
-          .from("memberships")
-          .update({
-            plan: "pro",
-            status: "active",
-            stripe_customer_id: session.customer as string,
-            stripe_subscription_id: session.subscription as string,
-            billing_cycle:
-              session.metadata?.billing_cycle === "annual"
-                ? "annual"
-                : "monthly",
-          })
-          .eq("account_id", accountId);
-        break;
-      }
-
-      case "customer.subscription.updated": {
-        const subscription = event.data.object as Stripe.Subscription;
-        const customerId =
-          typeof subscription.customer === "string"
-            ? subscription.customer
-            : subscription.customer.id;
-
-        const { data: membership } = await supabase
-          .from("memberships")
-          .select("id")
-          .eq("stripe_customer_id", customerId)
-          .single();
-
-        if (!membership) break;
+    const outcome = await handleStripeEvent(event);
 
-        let status: string;
-        switch (subscription.status) {
-          case "active":
-            status = "active";
-            break;
-          case "past_due":
-            status = "past_due";
-            break;
-          case "canceled":
-          case "unpaid":
-            status = "canceled";
-            break;
-          default:
-            status = "free";
-        }
-
-        await supabase
-          .from("memberships")
-          .update({
-            status,
-            current_period_ends_at: new Date(
-              subscription.items.data[0]?.current_period_end
-                ? subscription.items.data[0].current_period_end * 1000
-                : Date.now()
-            ).toISOString(),
-          })
-          .eq("id", membership.id);
-        break;
-      }
-
-      case "customer.subscription.deleted": {
-        const subscription = event.data.object as Stripe.Subscription;
-        const customerId =
-          typeof subscription.customer === "string"
-            ? subscription.customer
-            : subscription.customer.id;
-
-        await supabase
-          .from("memberships")
-          .update({
-            status: "free",
-            plan: "free",
-            stripe_subscription_id: null,
-          })
-          .eq("stripe_customer_id", customerId);
-        break;
-      }
-
-      case "invoice.payment_failed": {
-        const invoice = event.data.object as Stripe.Invoice;
-        const customerId =
-          typeof invoice.customer === "string"
-            ? invoice.customer
-            : invoice.customer?.id;
-
-        if (customerId) {
-          await supabase
-            .from("memberships")
-            .update({ status: "past_due" })
-            .eq("stripe_customer_id", customerId);
-        }
-        break;
-      }
+    if (outcome === "in_progress") {
+      // Another delivery is mid-flight; have Stripe check back later
+      return NextResponse.json({ error: "Event is being processed" }, { status: 409 });
     }
+
+    return NextResponse.json({ received: true, outcome });
   } catch (err) {
-    console.error("Webhook handler error:", err);
-    // Return 200 to prevent Stripe from retrying — log the error for debugging
+    // The failure is on the stripe_events ledger. A non-2xx makes Stripe
+    // retry; admins can also replay it from /admin/billing.
+    console.error(`Webhook handler error for ${event.id}:`, err);
+    return NextResponse.json({ error: "Event processing failed" }, { status: 500 });
   }
-
-  return NextResponse.json({ received: true });
 }
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+import { UUID_RE } from "@/lib/validation";
+import type { ProfileMember } from "@/lib/types";
+
+/**
+ * Load a pending invite addressed to the signed-in user's email.
+ * Returns an error response when there is none.
+ */
+async function loadInvite(
+  db: ReturnType<typeof getServiceClient>,
+  inviteId: string
+): Promise<{ invite: ProfileMember; userId: string } | NextResponse> {
+  if (!UUID_RE.test(inviteId)) {
+    return NextResponse.json({ error: "Invalid invite id" }, { status: 400 });
+  }
+
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+
+  const { data: invite } = await db
+    .from("profile_members")
+    .select("*")
+    .eq("id", inviteId)
+    .eq("invited_email", (user.email ?? "").toLowerCase())
+    .is("accepted_at", null)
+    .maybeSingle<ProfileMember>();
+
+  if (!invite) {
+    return NextResponse.json({ error: "Invite not found" }, { status: 404 });
+  }
+
+  return { invite, userId: user.id };
+}
+
+/**
+ * POST /api/team/invites/[id]
+ *
+ * Accept an invite. The profile then shows up in the user's profile
+ * switcher with the invited role.
+ */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const db = getServiceClient();
+    const loaded = await loadInvite(db, id);
+    if (loaded instanceof NextResponse) return loaded;
+    const { invite, userId } = loaded;
+
+    const { data: account } = await db
+      .from("accounts")
+      .select("id, active_profile_id")
+      .eq("user_id", userId)
+      .single();
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+
+    const { data: member, error } = await db
+      .from("profile_members")
+      .update({ account_id: account.id, accepted_at: new Date().toISOString() })
+      .eq("id", invite.id)
+      .select()
+      .single<ProfileMember>();
+
+    if (error) {
+      // 23505: already a teammate on this profile under another invite
+      if (error.code === "23505") {
+        return NextResponse.json({ error: "Already on this team" }, { status: 409 });
+      }
+      console.error("Invite accept error:", error);
+      return NextResponse.json({ error: "Failed to accept invite" }, { status: 500 });
+    }
+
+    // Land new teammates on the shared profile
+    if (!account.active_profile_id) {
+      await db
+        .from("accounts")
+        .update({ active_profile_id: invite.profile_id, onboarding_completed: true })
+        .eq("id", account.id);
+    }
+
+    return NextResponse.json({ member });
+  } catch (err) {
+    console.error("Invite accept error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/team/invites/[id]
+ *
+ * Decline an invite.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const db = getServiceClient();
+    const loaded = await loadInvite(db, id);
+    if (loaded instanceof NextResponse) return loaded;
+
+    const { error } = await db.from("profile_members").delete().eq("id", loaded.invite.id);
+
+    if (error) {
+      console.error("Invite decline error:", error);
+      return NextResponse.json({ error: "Failed to decline invite" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Invite decline error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getAuthUser, getServiceClient } from "@/lib/admin";
+
+/**
+ * GET /api/team/invites
+ *
+ * Pending team invites addressed to the signed-in user's email, with the
+ * profile they're for.
+ */
+export async function GET() {
+  try {
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+    if (!user.email) {
+      return NextResponse.json({ invites: [] });
+    }
+
+    const db = getServiceClient();
+    const { data, error } = await db
+      .from("profile_members")
+      .select("id, role, created_at, profile:business_profiles(id, display_name, city, state)")
+      .eq("invited_email", user.email.toLowerCase())
+      .is("accepted_at", null)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Invites fetch error:", error);
+      return NextResponse.json({ error: "Failed to load invites" }, { status: 500 });
+    }
+
+    return NextResponse.json({ invites: data ?? [] });
+  } catch (err) {
+    console.error("Invites fetch error:", err);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -46,6 +46,8 @@ interface BrowsePageProps {
     type?: string;
     state?: string;
     location?: string;
+    radius?: string;
+    payment?: string;
   }>;
 }
 
@@ -71,5 +73,12 @@ export default async function BrowsePage({ searchParams }: BrowsePageProps) {
   const searchQuery = params.q || params.location || "";
   const careType = params.type || "";
 
-  return <BrowseClient careType={careType} searchQuery={searchQuery} />;
+  return (
+    <BrowseClient
+      careType={careType}
+      searchQuery={searchQuery}
+      radius={params.radius}
+      payment={params.payment}
+    />
+  );
 }
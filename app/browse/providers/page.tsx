@@ -1,11 +1,14 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import Link from "next/link";
 import { useAuth } from "@/components/auth/AuthProvider";
-import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
 import { canEngage } from "@/lib/membership";
-import type { Profile, OrganizationMetadata } from "@/lib/types";
+import {
+  toSearchQueryString,
+  type ProviderSearchResponse,
+  type ProviderSearchResult,
+} from "@/lib/provider-search";
 import RoleGate from "@/components/shared/RoleGate";
 import ConnectButton from "@/components/shared/ConnectButton";
 import UpgradePrompt from "@/components/providers/UpgradePrompt";
@@ -23,8 +26,13 @@ export default function BrowseProvidersForJobsPage() {
 
 function BrowseProvidersContent() {
   const { activeProfile, membership } = useAuth();
-  const [orgs, setOrgs] = useState<Profile[]>([]);
+  const [orgs, setOrgs] = useState<ProviderSearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [locationInput, setLocationInput] = useState("");
+  const [location, setLocation] = useState("");
 
   const hasAccess = canEngage(
     activeProfile?.type,
@@ -34,37 +42,61 @@ function BrowseProvidersContent() {
 
   const profileId = activeProfile?.id;
 
+  const fetchPage = useCallback(
+    async (cursor?: string) => {
+      const qs = toSearchQueryString({
+        location: location || undefined,
+        cursor,
+        facets: false,
+      });
+      const res = await fetch(`/api/search/providers?${qs}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Search failed");
+      return data as ProviderSearchResponse;
+    },
+    [location]
+  );
+
   useEffect(() => {
-    if (!profileId || !isSupabaseConfigured()) {
+    if (!profileId) {
       setLoading(false);
       return;
     }
 
-    const fetchOrgs = async () => {
-      const supabase = createClient();
-      const { data } = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("type", "organization")
-        .eq("is_active", true)
-        .order("created_at", { ascending: false })
-        .limit(50);
-
-      setOrgs((data as Profile[]) || []);
-      setLoading(false);
-    };
+    let cancelled = false;
+    setLoading(true);
+    fetchPage()
+      .then((page) => {
+        if (cancelled) return;
+        setOrgs(page.results);
+        setTotal(page.total);
+        setNextCursor(page.nextCursor);
+      })
+      .catch((err) => {
+        console.error("Browse organizations error:", err);
+        if (!cancelled) setOrgs([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
 
-    fetchOrgs();
-  }, [profileId]);
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId, fetchPage]);
 
-  if (loading) {
-    return (
-      <div className="max-w-7xl mx-auto px-4 py-16 text-center">
-        <div className="animate-spin w-8 h-8 border-4 border-primary-600 border-t-transparent rounded-full mx-auto" />
-        <p className="mt-4 text-gray-500">Loading organizations...</p>
-      </div>
-    );
-  }
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      setOrgs((prev) => [...prev, ...page.results]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Browse organizations error:", err);
+    }
+    setLoadingMore(false);
+  };
 
   return (
     <div className="bg-gray-50 min-h-screen">
@@ -76,6 +108,28 @@ function BrowseProvidersContent() {
           <p className="mt-2 text-lg text-gray-600">
             Browse agencies, facilities, and organizations looking for caregivers.
           </p>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              setLocation(locationInput.trim());
+            }}
+            className="mt-6 flex gap-3 max-w-xl"
+          >
+            <input
+              type="text"
+              value={locationInput}
+              onChange={(e) => setLocationInput(e.target.value)}
+              placeholder="City, state (e.g. Austin, TX)"
+              className="flex-1 px-4 py-2.5 border border-gray-300 rounded-lg text-base focus:ring-2 focus:ring-primary-500"
+              aria-label="Location"
+            />
+            <button
+              type="submit"
+              className="px-5 py-2.5 bg-primary-600 text-white font-medium rounded-lg hover:bg-primary-700 transition-colors"
+            >
+              Search
+            </button>
+          </form>
         </div>
       </div>
 
@@ -86,19 +140,24 @@ function BrowseProvidersContent() {
           </div>
         )}
 
-        {orgs.length === 0 ? (
+        {loading ? (
+          <div className="py-16 text-center">
+            <div className="animate-spin w-8 h-8 border-4 border-primary-600 border-t-transparent rounded-full mx-auto" />
+            <p className="mt-4 text-gray-500">Loading organizations...</p>
+          </div>
+        ) : orgs.length === 0 ? (
           <div className="text-center py-12">
             <h2 className="text-xl font-semibold text-gray-900 mb-2">
               No organizations found
             </h2>
             <p className="text-lg text-gray-600">
-              Organizations who sign up will appear here.
+              Try a different city or state.
             </p>
           </div>
         ) : (
           <>
             <p className="text-base text-gray-500 mb-6">
-              {orgs.length} organization{orgs.length !== 1 ? "s" : ""} found
+              {total.toLocaleString()} organization{total !== 1 ? "s" : ""} found
             </p>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
               {orgs.map((org) => (
@@ -109,6 +168,17 @@ function BrowseProvidersContent() {
                 />
               ))}
             </div>
+            {nextCursor && (
+              <div className="py-8 text-center">
+                <button
+                  onClick={loadMore}
+                  disabled={loadingMore}
+                  className="px-8 py-3 border border-gray-300 rounded-lg font-medium text-gray-900 hover:border-gray-400 hover:bg-gray-50 transition-all bg-white disabled:opacity-60"
+                >
+                  {loadingMore ? "Loading..." : "Load more organizations"}
+                </button>
+              </div>
+            )}
           </>
         )}
       </div>
@@ -120,27 +190,26 @@ function OrgJobCard({
   org,
   fromProfileId,
 }: {
-  org: Profile;
+  org: ProviderSearchResult;
   fromProfileId?: string;
 }) {
-  const meta = org.metadata as OrganizationMetadata;
-  const locationStr = [org.city, org.state].filter(Boolean).join(", ");
+  const hasImage = org.image && org.image !== "/placeholder-provider.jpg";
 
   return (
     <div className="bg-white rounded-xl border border-gray-200 overflow-hidden hover:shadow-md hover:border-primary-200 transition-shadow duration-200 cursor-pointer">
       <Link href={`/provider/${org.slug}`} target="_blank" className="block">
         {/* Image */}
         <div className="relative h-36 bg-gray-200">
-          {org.image_url ? (
+          {hasImage ? (
             <img
-              src={org.image_url}
-              alt={org.display_name}
+              src={org.image}
+              alt={org.name}
               className="w-full h-full object-cover"
             />
           ) : (
             <div className="w-full h-full bg-gradient-to-br from-primary-100 to-primary-300 flex items-center justify-center">
               <span className="text-3xl font-bold text-primary-600/40">
-                {org.display_name.charAt(0)}
+                {org.name.charAt(0)}
               </span>
             </div>
           )}
@@ -148,36 +217,18 @@ function OrgJobCard({
 
         <div className="p-5">
           <h3 className="text-lg font-semibold text-gray-900 mb-1">
-            {org.display_name}
+            {org.name}
           </h3>
 
-          {locationStr && (
-            <p className="text-sm text-gray-500 mb-2">{locationStr}</p>
-          )}
-
-          {org.care_types.length > 0 && (
-            <div className="flex flex-wrap gap-2 mb-3">
-              {org.care_types.slice(0, 2).map((type) => (
-                <span
-                  key={type}
-                  className="bg-primary-50 text-primary-700 text-xs px-2.5 py-1 rounded-full"
-                >
-                  {type}
-                </span>
-              ))}
-              {org.care_types.length > 2 && (
-                <span className="bg-gray-100 text-gray-600 text-xs px-2.5 py-1 rounded-full">
-                  +{org.care_types.length - 2} more
-                </span>
-              )}
-            </div>
+          {org.address && (
+            <p className="text-sm text-gray-500 mb-2">{org.address}</p>
           )}
 
-          {meta?.staff_count && (
-            <p className="text-sm text-gray-500 mb-3">
-              {meta.staff_count} staff members
-            </p>
-          )}
+          <div className="flex flex-wrap gap-2 mb-3">
+            <span className="bg-primary-50 text-primary-700 text-xs px-2.5 py-1 rounded-full">
+              {org.primaryCategory}
+            </span>
+          </div>
 
           <p className="text-primary-600 font-medium text-sm">
             View provider &rarr;
@@ -187,15 +238,21 @@ function OrgJobCard({
 
       {fromProfileId && (
         <div className="px-5 pb-5 -mt-2">
-          <ConnectButton
-            fromProfileId={fromProfileId}
-            toProfileId={org.id}
-            toName={org.display_name}
-            connectionType="application"
-            label="Apply"
-            sentLabel="Applied"
-            fullWidth
-          />
+          {org.claimedProfileId ? (
+            <ConnectButton
+              fromProfileId={fromProfileId}
+              toProfileId={org.claimedProfileId}
+              toName={org.name}
+              connectionType="application"
+              label="Apply"
+              sentLabel="Applied"
+              fullWidth
+            />
+          ) : (
+            <p className="text-sm text-gray-500 text-center">
+              Not on Olera yet — applications open once they claim their page.
+            </p>
+          )}
         </div>
       )}
     </div>
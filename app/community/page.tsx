@@ -5,8 +5,42 @@ import { useRouter, useSearchParams } from "next/navigation";
 import ForumPostCardV3 from "@/components/community/ForumPostCardV3";
 import PostModal from "@/components/community/PostModal";
 import GuidelinesDrawer from "@/components/community/GuidelinesDrawer";
-import { getPostsByCategory, getPostBySlug } from "@/data/mock/forumPosts";
-import { ForumPost, CareTypeId, CARE_TYPE_CONFIG, ALL_CARE_TYPES } from "@/types/forum";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
+import { MAX_POST_LENGTH, MAX_POST_TITLE_LENGTH, toForumPost } from "@/lib/forum";
+import type { PublicForumPost } from "@/lib/types";
+import {
+  ForumPost,
+  CareTypeId,
+  SortOption,
+  CARE_TYPE_CONFIG,
+  ALL_CARE_TYPES,
+  SORT_OPTION_LABELS,
+} from "@/types/forum";
+
+// Newest discussions loaded per category; search filters within these
+const FEED_LIMIT = 100;
+
+type CategoryCounts = Record<CareTypeId | "all", number>;
+
+const EMPTY_COUNTS: CategoryCounts = {
+  all: 0,
+  "home-health": 0,
+  "home-care": 0,
+  "assisted-living": 0,
+  "memory-care": 0,
+  "nursing-homes": 0,
+  "independent-living": 0,
+};
+
+function getInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((n) => n[0].toUpperCase())
+    .join("");
+}
 
 // Category styling with colorful icons
 const CATEGORY_STYLES: Record<CareTypeId | "all", { emoji: string; bg: string; activeBg: string; hoverBg: string }> = {
@@ -22,6 +56,8 @@ const CATEGORY_STYLES: Record<CareTypeId | "all", { emoji: string; bg: string; a
 function CommunityPageContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
+  const { user, activeProfile, openAuthFlow } = useAuth();
+  const composerInitials = activeProfile ? getInitials(activeProfile.display_name) : "";
 
   // Prevent hydration flash by waiting for mount
   const [isMounted, setIsMounted] = useState(false);
@@ -38,6 +74,7 @@ function CommunityPageContent() {
 
   const [searchQuery, setSearchQuery] = useState("");
   const [activeCategory, setActiveCategory] = useState<CareTypeId | "all">(urlCategory);
+  const [sortBy, setSortBy] = useState<SortOption>("recent");
 
   // Sync state with URL when navigating (e.g., from Find Care menu or back button)
   useEffect(() => {
@@ -47,8 +84,91 @@ function CommunityPageContent() {
   const [composerTitle, setComposerTitle] = useState("");
   const [composerText, setComposerText] = useState("");
   const [composerCategory, setComposerCategory] = useState("");
+  const [composerAnonymous, setComposerAnonymous] = useState(false);
+  const [composerSubmitting, setComposerSubmitting] = useState(false);
+  const [composerSubmitError, setComposerSubmitError] = useState("");
   const [showGuidelines, setShowGuidelines] = useState(false);
 
+  const [feedPosts, setFeedPosts] = useState<ForumPost[]>([]);
+  const [feedLoading, setFeedLoading] = useState(true);
+  const [categoryCounts, setCategoryCounts] = useState<CategoryCounts>(EMPTY_COUNTS);
+  const [linkedPost, setLinkedPost] = useState<ForumPost | null>(null);
+  // Bumped after posting so the feed and counts reload
+  const [feedVersion, setFeedVersion] = useState(0);
+
+  // Discussions in the active category, pinned first
+  useEffect(() => {
+    if (!isSupabaseConfigured()) {
+      setFeedLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setFeedLoading(true);
+
+    const fetchPosts = async () => {
+      const supabase = createClient();
+      let query = supabase
+        .from("public_forum_posts")
+        .select("*")
+        .order("is_pinned", { ascending: false });
+      if (sortBy === "popular") {
+        query = query.order("like_count", { ascending: false });
+      } else if (sortBy === "most-discussed") {
+        query = query.order("comment_count", { ascending: false });
+      } else if (sortBy === "unanswered") {
+        query = query.eq("has_accepted_answer", false);
+      }
+      query = query.order("created_at", { ascending: false }).limit(FEED_LIMIT);
+      if (activeCategory !== "all") {
+        query = query.eq("care_type", activeCategory);
+      }
+
+      const { data, error } = await query;
+      if (cancelled) return;
+      if (error) console.error("Failed to load discussions:", error);
+      setFeedPosts(((data as PublicForumPost[] | null) ?? []).map(toForumPost));
+      setFeedLoading(false);
+    };
+
+    fetchPosts();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeCategory, sortBy, feedVersion]);
+
+  // Sidebar counts, one head-only query per category
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+
+    let cancelled = false;
+    const fetchCounts = async () => {
+      const supabase = createClient();
+      const categories: (CareTypeId | "all")[] = ["all", ...ALL_CARE_TYPES];
+      const results = await Promise.all(
+        categories.map((category) => {
+          let query = supabase
+            .from("public_forum_posts")
+            .select("id", { count: "exact", head: true });
+          if (category !== "all") query = query.eq("care_type", category);
+          return query;
+        })
+      );
+      if (cancelled) return;
+
+      const counts = { ...EMPTY_COUNTS };
+      categories.forEach((category, i) => {
+        counts[category] = results[i].count ?? 0;
+      });
+      setCategoryCounts(counts);
+    };
+
+    fetchCounts();
+    return () => {
+      cancelled = true;
+    };
+  }, [feedVersion]);
+
   // Validation error state
   const [composerErrors, setComposerErrors] = useState({
     title: "",
@@ -56,8 +176,26 @@ function CommunityPageContent() {
     category: "",
   });
 
+  const resetComposer = () => {
+    setShowComposer(false);
+    setComposerTitle("");
+    setComposerText("");
+    setComposerCategory("");
+    setComposerAnonymous(false);
+    setComposerSubmitError("");
+    setComposerErrors({ title: "", content: "", category: "" });
+  };
+
+  const openComposer = () => {
+    if (!user || !activeProfile) {
+      openAuthFlow({ intent: "family", defaultToSignIn: true });
+      return;
+    }
+    setShowComposer(true);
+  };
+
   // Handle post submission with validation
-  const handlePostSubmit = () => {
+  const handlePostSubmit = async () => {
     const errors = {
       title: composerTitle.trim() === "" ? "Please add a discussion title" : "",
       content: composerText.trim() === "" ? "Please add content to your post" : "",
@@ -72,15 +210,35 @@ function CommunityPageContent() {
       return;
     }
 
-    // TODO: Submit the post
-    console.log("Submitting post:", { title: composerTitle, content: composerText, category: composerCategory });
+    if (!activeProfile) {
+      openAuthFlow({ intent: "family", defaultToSignIn: true });
+      return;
+    }
 
-    // Reset form on success
-    setShowComposer(false);
-    setComposerTitle("");
-    setComposerText("");
-    setComposerCategory("");
-    setComposerErrors({ title: "", content: "", category: "" });
+    setComposerSubmitting(true);
+    setComposerSubmitError("");
+    try {
+      const res = await fetch("/api/community/posts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          author_profile_id: activeProfile.id,
+          title: composerTitle,
+          content: composerText,
+          care_type: composerCategory,
+          is_anonymous: composerAnonymous,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to post discussion");
+
+      resetComposer();
+      setFeedVersion((v) => v + 1);
+    } catch (err: unknown) {
+      setComposerSubmitError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setComposerSubmitting(false);
+    }
   };
 
   // Clear errors when user starts typing
@@ -105,38 +263,47 @@ function CommunityPageContent() {
     }
   };
 
-  // Get selected post from URL param
+  // Get selected post from URL param. Posts outside the loaded feed
+  // (shared links, other categories) are fetched on their own.
   const selectedPostSlug = searchParams.get("post");
-  const selectedPost = selectedPostSlug ? getPostBySlug(selectedPostSlug) ?? null : null;
+  const feedSelectedPost = selectedPostSlug
+    ? feedPosts.find((post) => post.slug === selectedPostSlug) ?? null
+    : null;
+
+  useEffect(() => {
+    if (!selectedPostSlug || feedSelectedPost || feedLoading || !isSupabaseConfigured()) return;
+
+    let cancelled = false;
+    const fetchPost = async () => {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from("public_forum_posts")
+        .select("*")
+        .eq("slug", selectedPostSlug)
+        .maybeSingle();
+      if (!cancelled) setLinkedPost(data ? toForumPost(data as PublicForumPost) : null);
+    };
+
+    fetchPost();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPostSlug, feedSelectedPost, feedLoading]);
+
+  const selectedPost =
+    feedSelectedPost ?? (linkedPost && linkedPost.slug === selectedPostSlug ? linkedPost : null);
 
   // All hooks must be called before any early returns (React rules of hooks)
   const posts = useMemo(() => {
-    let filtered = getPostsByCategory(activeCategory);
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (post) =>
-          post.title.toLowerCase().includes(query) ||
-          post.content.toLowerCase().includes(query) ||
-          post.tags.some((tag) => tag.toLowerCase().includes(query))
-      );
-    }
-    return filtered;
-  }, [searchQuery, activeCategory]);
-
-  // Calculate category counts
-  const categoryCounts = useMemo(() => {
-    const counts: Record<CareTypeId | "all", number> = {
-      all: getPostsByCategory("all").length,
-      "home-health": getPostsByCategory("home-health").length,
-      "home-care": getPostsByCategory("home-care").length,
-      "assisted-living": getPostsByCategory("assisted-living").length,
-      "memory-care": getPostsByCategory("memory-care").length,
-      "nursing-homes": getPostsByCategory("nursing-homes").length,
-      "independent-living": getPostsByCategory("independent-living").length,
-    };
-    return counts;
-  }, []);
+    if (!searchQuery.trim()) return feedPosts;
+    const query = searchQuery.toLowerCase();
+    return feedPosts.filter(
+      (post) =>
+        post.title.toLowerCase().includes(query) ||
+        post.content.toLowerCase().includes(query) ||
+        post.tags.some((tag) => tag.toLowerCase().includes(query))
+    );
+  }, [searchQuery, feedPosts]);
 
   // Show skeleton until mounted to prevent layout flash
   // (Must be after all hooks to comply with React rules of hooks)
@@ -290,11 +457,11 @@ function CommunityPageContent() {
               <div className="flex-shrink-0 p-4 border-b border-gray-100 bg-white">
                 {!showComposer ? (
                   <div
-                    onClick={() => setShowComposer(true)}
+                    onClick={openComposer}
                     className="w-full flex items-center gap-3 cursor-pointer"
                   >
                     <div className="w-10 h-10 rounded-full bg-primary-100 flex items-center justify-center flex-shrink-0">
-                      <span className="text-primary-600 font-medium text-sm">JD</span>
+                      <span className="text-primary-600 font-medium text-sm">{composerInitials || "?"}</span>
                     </div>
                     <div className="flex-1 text-left px-4 py-3 bg-white border border-gray-300 rounded-lg text-gray-500 text-sm font-medium hover:border-gray-400 hover:bg-gray-50 transition-colors">
                       Start a discussion...
@@ -307,7 +474,7 @@ function CommunityPageContent() {
                   <div className="space-y-4">
                     <div className="flex items-start gap-3">
                       <div className="w-10 h-10 rounded-full bg-primary-100 flex items-center justify-center flex-shrink-0">
-                        <span className="text-primary-600 font-medium text-sm">JD</span>
+                        <span className="text-primary-600 font-medium text-sm">{composerInitials || "?"}</span>
                       </div>
                       <div className="flex-1 space-y-3">
                         <div>
@@ -316,6 +483,7 @@ function CommunityPageContent() {
                             value={composerTitle}
                             onChange={(e) => handleTitleChange(e.target.value)}
                             placeholder="Discussion title..."
+                            maxLength={MAX_POST_TITLE_LENGTH}
                             className={`w-full px-0 py-2 text-lg font-medium text-gray-900 placeholder-gray-400 border-0 border-b focus:outline-none bg-transparent ${
                               composerErrors.title ? "border-red-400 focus:border-red-500" : "border-gray-200 focus:border-primary-500"
                             }`}
@@ -329,6 +497,7 @@ function CommunityPageContent() {
                             value={composerText}
                             onChange={(e) => handleContentChange(e.target.value)}
                             placeholder="Share your thoughts, questions, or experiences..."
+                            maxLength={MAX_POST_LENGTH}
                             className={`w-full px-0 py-2 text-gray-700 placeholder-gray-400 resize-none focus:outline-none bg-transparent ${
                               composerErrors.content ? "border-b border-red-400" : ""
                             }`}
@@ -362,26 +531,33 @@ function CommunityPageContent() {
                         )}
                       </div>
                       <div className="flex items-center gap-2">
+                        <label className="flex items-center gap-2 text-sm text-gray-500 cursor-pointer select-none mr-2">
+                          <input
+                            type="checkbox"
+                            checked={composerAnonymous}
+                            onChange={(e) => setComposerAnonymous(e.target.checked)}
+                            className="w-4 h-4 rounded border-gray-300 text-gray-900 focus:ring-gray-900"
+                          />
+                          Anonymous
+                        </label>
                         <button
-                          onClick={() => {
-                            setShowComposer(false);
-                            setComposerTitle("");
-                            setComposerText("");
-                            setComposerCategory("");
-                            setComposerErrors({ title: "", content: "", category: "" });
-                          }}
+                          onClick={resetComposer}
                           className="px-4 py-2 text-gray-600 text-sm font-medium hover:text-gray-800 transition-colors"
                         >
                           Cancel
                         </button>
                         <button
                           onClick={handlePostSubmit}
-                          className="px-5 py-2 text-sm font-medium rounded-lg transition-colors bg-primary-600 text-white hover:bg-primary-700"
+                          disabled={composerSubmitting}
+                          className="px-5 py-2 text-sm font-medium rounded-lg transition-colors bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
-                          Post Discussion
+                          {composerSubmitting ? "Posting..." : "Post Discussion"}
                         </button>
                       </div>
                     </div>
+                    {composerSubmitError && (
+                      <p className="text-sm text-red-500" role="alert">{composerSubmitError}</p>
+                    )}
                   </div>
                 )}
               </div>
@@ -397,12 +573,17 @@ function CommunityPageContent() {
                     <span className="text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full">
                       {posts.length}
                     </span>
+                    <SortSelect value={sortBy} onChange={setSortBy} className="ml-auto" />
                   </div>
                 </div>
 
                 {/* Posts List */}
                 <div className="p-4 space-y-4">
-                  {posts.length > 0 ? (
+                  {feedLoading ? (
+                    [1, 2, 3].map((i) => (
+                      <div key={i} className="h-48 bg-gray-50 rounded-xl animate-pulse" />
+                    ))
+                  ) : posts.length > 0 ? (
                     posts.map((post) => (
                       <ForumPostCardV3
                         key={post.id}
@@ -479,11 +660,11 @@ function CommunityPageContent() {
               <div className="p-4 border-b border-gray-100">
                 {!showComposer ? (
                   <div
-                    onClick={() => setShowComposer(true)}
+                    onClick={openComposer}
                     className="w-full flex items-center gap-3 cursor-pointer"
                   >
                     <div className="w-10 h-10 rounded-full bg-primary-100 flex items-center justify-center flex-shrink-0">
-                      <span className="text-primary-600 font-medium text-sm">JD</span>
+                      <span className="text-primary-600 font-medium text-sm">{composerInitials || "?"}</span>
                     </div>
                     <div className="flex-1 text-left px-4 py-3 bg-white border border-gray-300 rounded-lg text-gray-500 text-sm font-medium hover:border-gray-400 hover:bg-gray-50 transition-colors">
                       Start a discussion...
@@ -496,7 +677,7 @@ function CommunityPageContent() {
                   <div className="space-y-4">
                     <div className="flex items-start gap-3">
                       <div className="w-10 h-10 rounded-full bg-primary-100 flex items-center justify-center flex-shrink-0">
-                        <span className="text-primary-600 font-medium text-sm">JD</span>
+                        <span className="text-primary-600 font-medium text-sm">{composerInitials || "?"}</span>
                       </div>
                       <div className="flex-1 space-y-3">
                         <div>
@@ -505,6 +686,7 @@ function CommunityPageContent() {
                             value={composerTitle}
                             onChange={(e) => handleTitleChange(e.target.value)}
                             placeholder="Discussion title..."
+                            maxLength={MAX_POST_TITLE_LENGTH}
                             className={`w-full px-0 py-2 text-lg font-medium text-gray-900 placeholder-gray-400 border-0 border-b focus:outline-none bg-transparent ${
                               composerErrors.title ? "border-red-400 focus:border-red-500" : "border-gray-200 focus:border-primary-500"
                             }`}
@@ -518,6 +700,7 @@ function CommunityPageContent() {
                             value={composerText}
                             onChange={(e) => handleContentChange(e.target.value)}
                             placeholder="Share your thoughts, questions, or experiences..."
+                            maxLength={MAX_POST_LENGTH}
                             className={`w-full px-0 py-2 text-gray-700 placeholder-gray-400 resize-none focus:outline-none bg-transparent ${
                               composerErrors.content ? "border-b border-red-400" : ""
                             }`}
@@ -551,33 +734,47 @@ function CommunityPageContent() {
                         )}
                       </div>
                       <div className="flex items-center gap-2">
+                        <label className="flex items-center gap-2 text-sm text-gray-500 cursor-pointer select-none mr-2">
+                          <input
+                            type="checkbox"
+                            checked={composerAnonymous}
+                            onChange={(e) => setComposerAnonymous(e.target.checked)}
+                            className="w-4 h-4 rounded border-gray-300 text-gray-900 focus:ring-gray-900"
+                          />
+                          Anonymous
+                        </label>
                         <button
-                          onClick={() => {
-                            setShowComposer(false);
-                            setComposerTitle("");
-                            setComposerText("");
-                            setComposerCategory("");
-                            setComposerErrors({ title: "", content: "", category: "" });
-                          }}
+                          onClick={resetComposer}
                           className="px-4 py-2 text-gray-600 text-sm font-medium hover:text-gray-800 transition-colors"
                         >
                           Cancel
                         </button>
                         <button
                           onClick={handlePostSubmit}
-                          className="px-5 py-2 text-sm font-medium rounded-lg transition-colors bg-primary-600 text-white hover:bg-primary-700"
+                          disabled={composerSubmitting}
+                          className="px-5 py-2 text-sm font-medium rounded-lg transition-colors bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
-                          Post Discussion
+                          {composerSubmitting ? "Posting..." : "Post Discussion"}
                         </button>
                       </div>
                     </div>
+                    {composerSubmitError && (
+                      <p className="text-sm text-red-500" role="alert">{composerSubmitError}</p>
+                    )}
                   </div>
                 )}
               </div>
 
               {/* Posts Feed */}
               <div className="p-4 space-y-4">
-                {posts.length > 0 ? (
+                <div className="flex justify-end">
+                  <SortSelect value={sortBy} onChange={setSortBy} />
+                </div>
+                {feedLoading ? (
+                  [1, 2, 3].map((i) => (
+                    <div key={i} className="h-48 bg-gray-50 rounded-xl animate-pulse" />
+                  ))
+                ) : posts.length > 0 ? (
                   posts.map((post) => (
                     <ForumPostCardV3
                       key={post.id}
@@ -622,6 +819,31 @@ function CommunityPageContent() {
 }
 
 // Minimal skeleton shown during mount to prevent layout flash
+function SortSelect({
+  value,
+  onChange,
+  className = "",
+}: {
+  value: SortOption;
+  onChange: (value: SortOption) => void;
+  className?: string;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as SortOption)}
+      aria-label="Sort discussions"
+      className={`text-xs font-medium text-gray-600 bg-transparent border-0 focus:outline-none focus:ring-0 cursor-pointer ${className}`}
+    >
+      {(Object.keys(SORT_OPTION_LABELS) as SortOption[]).map((option) => (
+        <option key={option} value={option}>
+          {SORT_OPTION_LABELS[option]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
 function MountingSkeleton() {
   return (
     <main className="min-h-screen lg:h-screen lg:overflow-hidden bg-gray-50/50">
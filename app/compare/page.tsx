@@ -0,0 +1,141 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { createClient } from "@/lib/supabase/server";
+import type { Profile, ReviewStats } from "@/lib/types";
+import type { Provider as IOSProvider } from "@/lib/types/provider";
+import { getProviderBySlug, iosProviderToProfile, mockProviderToProfile } from "@/lib/mock-providers";
+import { mergeWithSeed } from "@/lib/provider-merge";
+import { formatCategory } from "@/lib/provider-utils";
+import {
+  MAX_COMPARE,
+  parseCompareIds,
+  toComparedProvider,
+  type ComparedProvider,
+} from "@/lib/provider-compare";
+import CompareTable from "@/components/compare/CompareTable";
+
+export const metadata: Metadata = {
+  title: "Compare Senior Care Providers | Olera",
+  description: "Compare prices, ratings, services and payment options side by side.",
+};
+
+type StatsRow = Pick<ReviewStats, "provider_profile_id" | "review_count" | "average_rating">;
+
+/**
+ * Same sources as the provider page, batched: olera-providers listings
+ * (merged with the owner's profile once claimed), then business
+ * profiles by slug, then mock providers. Unknown slugs are dropped.
+ */
+async function getComparedProviders(slugs: string[]): Promise<ComparedProvider[]> {
+  const profiles = new Map<string, Profile>();
+  let stats: StatsRow[] = [];
+
+  try {
+    const supabase = await createClient();
+
+    const [{ data: listings }, { data: claimed }, { data: owned }] = await Promise.all([
+      supabase.from("olera-providers").select("*").in("provider_id", slugs).eq("deleted", false),
+      supabase
+        .from("business_profiles")
+        .select("*")
+        .in("source_provider_id", slugs)
+        .eq("claim_state", "claimed")
+        .eq("is_active", true),
+      supabase
+        .from("business_profiles")
+        .select("*")
+        .in("slug", slugs)
+        .in("type", ["organization", "caregiver"])
+        .eq("is_active", true),
+    ]);
+
+    const claimedBySource = new Map(
+      ((claimed as Profile[] | null) ?? []).map((p) => [p.source_provider_id, p])
+    );
+    for (const listing of (listings as IOSProvider[] | null) ?? []) {
+      const slug = String(listing.provider_id);
+      const seed = iosProviderToProfile(listing);
+      const owner = claimedBySource.get(slug);
+      profiles.set(slug, owner ? mergeWithSeed(seed, owner) : seed);
+    }
+
+    // Profiles under their own slug that were claimed from a listing
+    // still show the listing's data underneath their edits
+    const ownedProfiles = ((owned as Profile[] | null) ?? []).filter((p) => !profiles.has(p.slug));
+    const sourceIds = ownedProfiles
+      .filter((p) => p.source_provider_id && p.claim_state === "claimed")
+      .map((p) => p.source_provider_id as string);
+    const { data: sources } = sourceIds.length
+      ? await supabase.from("olera-providers").select("*").in("provider_id", sourceIds).eq("deleted", false)
+      : { data: [] };
+    const sourcesById = new Map(((sources as IOSProvider[] | null) ?? []).map((s) => [String(s.provider_id), s]));
+    for (const profile of ownedProfiles) {
+      const source = profile.source_provider_id ? sourcesById.get(profile.source_provider_id) : undefined;
+      profiles.set(profile.slug, source ? mergeWithSeed(iosProviderToProfile(source), profile) : profile);
+    }
+
+    // Reviews attach to the business profile, which mergeWithSeed keeps
+    const profileIds = [...profiles.values()].filter((p) => p.account_id).map((p) => p.id);
+    if (profileIds.length > 0) {
+      const { data } = await supabase
+        .from("provider_review_stats")
+        .select("provider_profile_id, review_count, average_rating")
+        .in("provider_profile_id", profileIds);
+      stats = (data as StatsRow[] | null) ?? [];
+    }
+  } catch {
+    // Supabase not configured — fall through to mock lookup
+  }
+
+  return slugs.flatMap((slug) => {
+    let profile = profiles.get(slug);
+    if (!profile) {
+      const mock = getProviderBySlug(slug);
+      if (!mock) return [];
+      profile = mockProviderToProfile(mock);
+    }
+    const reviewStats = stats.find((s) => s.provider_profile_id === profile.id);
+    return [toComparedProvider(profile, formatCategory(profile.category), reviewStats)];
+  });
+}
+
+export default async function ComparePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ ids?: string; near?: string }>;
+}) {
+  const params = await searchParams;
+  const slugs = parseCompareIds(params.ids);
+  const providers = slugs.length > 0 ? await getComparedProviders(slugs) : [];
+
+  return (
+    <div className="bg-white min-h-screen">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
+        <h1 className="text-3xl font-bold text-gray-900">Compare providers</h1>
+        <p className="text-lg text-gray-600 mt-1">
+          Side by side, with the differences highlighted.
+        </p>
+
+        {providers.length < 2 ? (
+          <div className="mt-10 bg-gray-50 rounded-xl border border-gray-200 p-8 text-center">
+            <p className="text-lg font-medium text-gray-900">
+              {providers.length === 0 ? "Nothing to compare yet" : "Add one more provider to compare"}
+            </p>
+            <p className="mt-2 text-base text-gray-600">
+              Tap &ldquo;Compare&rdquo; on up to {MAX_COMPARE} providers while you browse, then open
+              them here from the tray at the bottom of the page.
+            </p>
+            <Link
+              href="/browse"
+              className="mt-6 inline-block bg-primary-600 hover:bg-primary-700 text-white font-medium px-5 py-2.5 rounded-lg transition-colors text-sm"
+            >
+              Browse providers
+            </Link>
+          </div>
+        ) : (
+          <CompareTable providers={providers} initialNear={params.near ?? ""} />
+        )}
+      </div>
+    </div>
+  );
+}
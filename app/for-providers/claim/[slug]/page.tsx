@@ -8,11 +8,12 @@ import { useAuth } from "@/components/auth/AuthProvider";
 import type { Profile, OrganizationMetadata } from "@/lib/types";
 import Button from "@/components/ui/Button";
 import Badge from "@/components/ui/Badge";
+import ClaimVerificationSteps from "@/components/providers/ClaimVerificationSteps";
 
 export default function ClaimProfilePage() {
   const { slug } = useParams<{ slug: string }>();
   const router = useRouter();
-  const { user, openAuthFlow } = useAuth();
+  const { user, account, openAuthFlow } = useAuth();
 
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
@@ -31,8 +32,6 @@ export default function ClaimProfilePage() {
 
       if (fetchError || !data) {
         setError("Profile not found.");
-      } else if (data.claim_state !== "unclaimed") {
-        setError("This profile has already been claimed.");
       } else {
         setProfile(data);
       }
@@ -81,6 +80,28 @@ export default function ClaimProfilePage() {
 
   if (!profile) return null;
 
+  // The claimant comes back here to add evidence while their claim is reviewed
+  const isClaimant =
+    !!account &&
+    profile.account_id === account.id &&
+    (profile.claim_state === "pending" || profile.claim_state === "rejected");
+
+  if (profile.claim_state !== "unclaimed" && !isClaimant) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-16 text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">
+          This profile has already been claimed.
+        </h1>
+        <Link
+          href="/for-providers/claim"
+          className="text-primary-600 hover:text-primary-700 font-medium"
+        >
+          Back to search
+        </Link>
+      </div>
+    );
+  }
+
   const meta = profile.metadata as OrganizationMetadata;
 
   return (
@@ -112,7 +133,13 @@ export default function ClaimProfilePage() {
             <h1 className="text-2xl md:text-3xl font-bold text-gray-900">
               {profile.display_name}
             </h1>
-            <Badge variant="unclaimed">Unclaimed</Badge>
+            {isClaimant ? (
+              <Badge variant={profile.claim_state === "rejected" ? "rejected" : "pending"}>
+                {profile.claim_state === "rejected" ? "Not approved" : "In review"}
+              </Badge>
+            ) : (
+              <Badge variant="unclaimed">Unclaimed</Badge>
+            )}
           </div>
 
           {(profile.city || profile.state) && (
@@ -150,33 +177,39 @@ export default function ClaimProfilePage() {
         </div>
       </div>
 
-      {/* Claim CTA */}
-      <div className="mt-8 bg-primary-50 rounded-2xl p-6 md:p-8">
-        <h2 className="text-xl font-semibold text-gray-900 mb-2">
-          Is this your organization?
-        </h2>
-        <p className="text-gray-600 mb-6">
-          Claim this profile to take control of your listing. You&apos;ll be
-          able to update your information, respond to inquiries from families,
-          and start connecting right away.
-        </p>
-
-        {error && (
-          <div className="mb-4 bg-warm-50 text-warm-700 px-4 py-3 rounded-lg text-base" role="alert">
-            {error}
-          </div>
-        )}
+      {isClaimant ? (
+        <div className="mt-8">
+          <ClaimVerificationSteps profile={profile} />
+        </div>
+      ) : (
+        /* Claim CTA */
+        <div className="mt-8 bg-primary-50 rounded-2xl p-6 md:p-8">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            Is this your organization?
+          </h2>
+          <p className="text-gray-600 mb-6">
+            Claim this profile to take control of your listing. You&apos;ll be
+            able to update your information, respond to inquiries from families,
+            and start connecting right away.
+          </p>
 
-        <Button size="lg" fullWidth onClick={handleClaim}>
-          {user ? "Claim This Profile" : "Create Account to Claim"}
-        </Button>
+          {error && (
+            <div className="mb-4 bg-warm-50 text-warm-700 px-4 py-3 rounded-lg text-base" role="alert">
+              {error}
+            </div>
+          )}
 
-        {!user && (
-          <p className="mt-3 text-sm text-gray-500 text-center">
-            You&apos;ll need to create an account or sign in to claim this profile.
-          </p>
-        )}
-      </div>
+          <Button size="lg" fullWidth onClick={handleClaim}>
+            {user ? "Claim This Profile" : "Create Account to Claim"}
+          </Button>
+
+          {!user && (
+            <p className="mt-3 text-sm text-gray-500 text-center">
+              You&apos;ll need to create an account or sign in to claim this profile.
+            </p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
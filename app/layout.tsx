@@ -6,6 +6,8 @@ import AuthProvider from "@/components/auth/AuthProvider";
 import AuthModal from "@/components/auth/AuthModal";
 import GlobalAuthFlowModal from "@/components/auth/GlobalAuthFlowModal";
 import { NavbarProvider } from "@/components/shared/NavbarContext";
+import { CompareProvider } from "@/components/shared/CompareContext";
+import CompareTray from "@/components/shared/CompareTray";
 
 export const metadata: Metadata = {
   title: "Olera | Find Senior Care Near You",
@@ -30,13 +32,16 @@ export default function RootLayout({
     <html lang="en">
       <body className="bg-gray-50 min-h-screen flex flex-col font-sans">
         <AuthProvider>
-          <NavbarProvider>
-            <Navbar />
-            <main className="flex-grow">{children}</main>
-            <Footer />
-            <AuthModal />
-            <GlobalAuthFlowModal />
-          </NavbarProvider>
+          <CompareProvider>
+            <NavbarProvider>
+              <Navbar />
+              <main className="flex-grow">{children}</main>
+              <Footer />
+              <CompareTray />
+              <AuthModal />
+              <GlobalAuthFlowModal />
+            </NavbarProvider>
+          </CompareProvider>
         </AuthProvider>
       </body>
     </html>
@@ -328,7 +328,7 @@ function OnboardingContent() {
               plan: "free",
               status: "free",
             },
-            { onConflict: "account_id" }
+            { onConflict: "account_id", ignoreDuplicates: true }
           );
         }
       } else {
@@ -386,7 +386,7 @@ function OnboardingContent() {
               plan: "free",
               status: "free",
             },
-            { onConflict: "account_id" }
+            { onConflict: "account_id", ignoreDuplicates: true }
           );
         }
       }
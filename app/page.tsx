@@ -15,9 +15,9 @@ import {
   toCardFormat,
   mockToCardFormat,
 } from "@/lib/types/provider";
-import { mockForumPosts } from "@/data/mock/forumPosts";
-import { mockForumComments } from "@/data/mock/forumComments";
-import { CARE_TYPE_CONFIG } from "@/types/forum";
+import { toForumComment, toForumPost } from "@/lib/forum";
+import type { PublicForumComment, PublicForumPost } from "@/lib/types";
+import { CARE_TYPE_CONFIG, ForumComment, ForumPost } from "@/types/forum";
 
 // Hook to detect when element is in view
 function useInView(threshold: number = 0.3) {
@@ -831,6 +831,8 @@ export default function HomePage() {
   const [canScrollRight, setCanScrollRight] = useState(true);
   const [featuredProviders, setFeaturedProviders] = useState<ProviderCardData[]>([]);
   const [isLoadingProviders, setIsLoadingProviders] = useState(true);
+  const [recentForumPosts, setRecentForumPosts] = useState<ForumPost[]>([]);
+  const [forumTopComments, setForumTopComments] = useState<Record<string, ForumComment>>({});
   const router = useRouter();
   const scrollContainerRef = React.useRef<HTMLDivElement>(null);
   const locationInputRef = useRef<HTMLInputElement>(null);
@@ -942,6 +944,42 @@ export default function HomePage() {
     fetchFeaturedProviders();
   }, []);
 
+  // Fetch the newest community discussions, each with its first response
+  useEffect(() => {
+    async function fetchRecentForumPosts() {
+      if (!isSupabaseConfigured()) return;
+
+      try {
+        const supabase = createClient();
+        const { data: posts } = await supabase
+          .from("public_forum_posts")
+          .select("*")
+          .order("created_at", { ascending: false })
+          .limit(3);
+        if (!posts || posts.length === 0) return;
+
+        const { data: comments } = await supabase
+          .from("public_forum_comments")
+          .select("*")
+          .in("post_id", posts.map((p) => p.id))
+          .is("parent_id", null)
+          .order("created_at", { ascending: true });
+
+        const topComments: Record<string, ForumComment> = {};
+        for (const row of (comments as PublicForumComment[] | null) ?? []) {
+          if (!topComments[row.post_id]) topComments[row.post_id] = toForumComment(row);
+        }
+
+        setRecentForumPosts((posts as PublicForumPost[]).map(toForumPost));
+        setForumTopComments(topComments);
+      } catch (err) {
+        console.error("Error fetching forum posts:", err);
+      }
+    }
+
+    fetchRecentForumPosts();
+  }, []);
+
   const updateScrollState = useCallback(() => {
     if (scrollContainerRef.current) {
       const { scrollLeft, scrollWidth, clientWidth } = scrollContainerRef.current;
@@ -1368,11 +1406,8 @@ export default function HomePage() {
           {/* Forum Posts Grid */}
           <div className="relative grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {(() => {
-              // Get 3 most recent posts for the landing page
-              // Sorted by createdAt descending (newest first) - mirrors: SELECT * FROM posts ORDER BY created_at DESC LIMIT 3
-              const recentPosts = [...mockForumPosts]
-                .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-                .slice(0, 3);
+              // 3 most recent posts, loaded from public_forum_posts above
+              const recentPosts = recentForumPosts;
 
               // Format time ago - will show relative timestamps like "2h ago", "3d ago"
               const formatTimeAgo = (dateString: string) => {
@@ -1407,8 +1442,8 @@ export default function HomePage() {
               };
 
               return recentPosts.map((forumPost) => {
-                // Lookup top comment if exists (will be a LEFT JOIN in production)
-                const topComment = mockForumComments.find(c => c.postId === forumPost.id);
+                // First response, if any
+                const topComment = forumTopComments[forumPost.id];
                 const careTypeConfig = CARE_TYPE_CONFIG[forumPost.careType];
                 const accentColor = careTypeToColor[forumPost.careType] || "primary";
                 const iconPath = careTypeToIcon[forumPost.careType] || careTypeToIcon["memory-care"];
@@ -4,15 +4,33 @@ import { useEffect, useState, useCallback, useMemo } from "react";
 import Link from "next/link";
 import { useAuth } from "@/components/auth/AuthProvider";
 import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
-import type { Connection, Profile } from "@/lib/types";
+import {
+  APPOINTMENT_TYPE_LABELS,
+  awaitsConfirmationFrom,
+  formatTimeRange,
+  isAppointmentActive,
+  localDateTimeToISO,
+} from "@/lib/appointments";
+import type { Appointment, AvailabilitySlot, Profile } from "@/lib/types";
 import Badge from "@/components/ui/Badge";
+import Button from "@/components/ui/Button";
+import SlotPicker from "@/components/providers/SlotPicker";
+import AvailabilityEditor from "@/components/portal/AvailabilityEditor";
+import UpgradePrompt from "@/components/providers/UpgradePrompt";
+import CalendarSubscribeCard from "@/components/portal/CalendarSubscribeCard";
 
-interface Appointment {
-  connection: Connection;
+interface AppointmentWithProfile {
+  appointment: Appointment;
   otherProfile: Profile | null;
-  isInbound: boolean;
 }
 
+/** Body for PATCH /api/appointments/[id], minus profile_id */
+type AppointmentUpdate =
+  | { action: "confirm" }
+  | { action: "cancel" }
+  | { action: "reschedule"; slot_id: string }
+  | { action: "reschedule"; starts_at: string; ends_at: string };
+
 // ------------------------------------------------------------------
 // Helper: get the Monday..Sunday range for a given week offset
 // ------------------------------------------------------------------
@@ -57,14 +75,20 @@ const MONTH_NAMES = [
 
 export default function CalendarPage() {
   const { activeProfile } = useAuth();
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [appointments, setAppointments] = useState<AppointmentWithProfile[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
   const [weekOffset, setWeekOffset] = useState(0);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
 
   const weekDays = useMemo(() => getWeekDays(weekOffset), [weekOffset]);
   const today = useMemo(() => new Date(), []);
 
+  const isProvider =
+    activeProfile?.type === "organization" ||
+    activeProfile?.type === "caregiver";
+
   // Derive header label from the week range
   const weekLabel = useMemo(() => {
     const first = weekDays[0];
@@ -83,28 +107,32 @@ export default function CalendarPage() {
 
     const supabase = createClient();
 
-    // Fetch accepted connections — these are your "appointments"
-    const { data: connections } = await supabase
-      .from("connections")
+    const { data, error: fetchError } = await supabase
+      .from("appointments")
       .select("*")
       .or(
-        `to_profile_id.eq.${activeProfile.id},from_profile_id.eq.${activeProfile.id}`
+        `provider_profile_id.eq.${activeProfile.id},family_profile_id.eq.${activeProfile.id}`
       )
-      .eq("status", "accepted")
-      .neq("type", "save")
-      .order("updated_at", { ascending: false });
+      .order("starts_at", { ascending: true });
 
-    if (!connections || connections.length === 0) {
+    if (fetchError) {
+      setError(fetchError.message);
+      setLoading(false);
+      return;
+    }
+
+    const rows = (data as Appointment[]) || [];
+    if (rows.length === 0) {
       setAppointments([]);
       setLoading(false);
       return;
     }
 
-    // Fetch all related profiles
+    // Fetch the other party for each appointment
     const profileIds = new Set<string>();
-    connections.forEach((c: Connection) => {
-      profileIds.add(c.from_profile_id);
-      profileIds.add(c.to_profile_id);
+    rows.forEach((a) => {
+      profileIds.add(a.provider_profile_id);
+      profileIds.add(a.family_profile_id);
     });
 
     const { data: profiles } = await supabase
@@ -116,16 +144,15 @@ export default function CalendarPage() {
       ((profiles as Profile[]) || []).map((p) => [p.id, p])
     );
 
-    const enriched: Appointment[] = (connections as Connection[]).map((c) => ({
-      connection: c,
-      otherProfile:
-        c.from_profile_id === activeProfile.id
-          ? profileMap.get(c.to_profile_id) || null
-          : profileMap.get(c.from_profile_id) || null,
-      isInbound: c.to_profile_id === activeProfile.id,
-    }));
-
-    setAppointments(enriched);
+    setAppointments(
+      rows.map((a) => ({
+        appointment: a,
+        otherProfile:
+          a.provider_profile_id === activeProfile.id
+            ? profileMap.get(a.family_profile_id) || null
+            : profileMap.get(a.provider_profile_id) || null,
+      }))
+    );
     setLoading(false);
   }, [activeProfile]);
 
@@ -133,15 +160,61 @@ export default function CalendarPage() {
     fetchAppointments();
   }, [fetchAppointments]);
 
-  // Filter appointments whose accepted date falls on the selected day
+  const updateAppointment = async (id: string, changes: AppointmentUpdate) => {
+    if (!isSupabaseConfigured()) return;
+
+    setUpdatingId(id);
+    setError("");
+    try {
+      // Through the API, which checks who may confirm, reschedule or cancel
+      const res = await fetch(`/api/appointments/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ profile_id: activeProfile?.id, ...changes }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to update appointment");
+
+      setAppointments((prev) =>
+        prev.map((a) =>
+          a.appointment.id === id ? { ...a, appointment: data.appointment as Appointment } : a
+        )
+      );
+    } catch (err: unknown) {
+      const msg =
+        err && typeof err === "object" && "message" in err
+          ? (err as { message: string }).message
+          : String(err);
+      setError(msg);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
   const selectedDayAppointments = useMemo(
     () =>
       appointments.filter((apt) =>
-        isSameDay(new Date(apt.connection.updated_at), selectedDate)
+        isSameDay(new Date(apt.appointment.starts_at), selectedDate)
       ),
     [appointments, selectedDate]
   );
 
+  const upcoming = useMemo(
+    () =>
+      appointments.filter(
+        (apt) =>
+          isAppointmentActive(apt.appointment) &&
+          new Date(apt.appointment.ends_at) >= today
+      ),
+    [appointments, today]
+  );
+
+  const needsResponse = activeProfile
+    ? upcoming.filter((apt) =>
+        awaitsConfirmationFrom(apt.appointment, activeProfile.id)
+      ).length
+    : 0;
+
   if (loading) {
     return (
       <div className="text-center py-16">
@@ -151,15 +224,43 @@ export default function CalendarPage() {
     );
   }
 
+  const renderCard = (apt: AppointmentWithProfile, compact = false) => (
+    <AppointmentCard
+      key={apt.appointment.id}
+      item={apt}
+      activeProfileId={activeProfile?.id || ""}
+      updating={updatingId === apt.appointment.id}
+      onUpdate={updateAppointment}
+      compact={compact}
+    />
+  );
+
   return (
     <div>
       <div className="mb-6">
         <h1 className="text-3xl font-bold text-gray-900">Activity</h1>
         <p className="text-lg text-gray-600 mt-1">
-          Track your accepted connections and coordinate next steps.
+          {isProvider
+            ? "Tours and consultations booked by families."
+            : "Your tours and consultations with providers."}
         </p>
       </div>
 
+      {error && (
+        <div
+          className="mb-6 bg-red-50 text-red-700 px-4 py-3 rounded-lg text-base"
+          role="alert"
+        >
+          {error}
+        </div>
+      )}
+
+      {needsResponse > 0 && (
+        <div className="mb-6 bg-warm-50 border border-warm-200 rounded-xl px-5 py-4 text-base text-warm-800">
+          {needsResponse} appointment request{needsResponse !== 1 ? "s" : ""} waiting on your confirmation.
+        </div>
+      )}
+
       {/* Week navigation + calendar strip */}
       <div className="bg-white rounded-xl border border-gray-200 mb-6">
         {/* Week header with nav arrows */}
@@ -227,9 +328,11 @@ export default function CalendarPage() {
           {weekDays.map((day, idx) => {
             const isToday = isSameDay(day, today);
             const isSelected = isSameDay(day, selectedDate);
-            // Count appointments on this day
-            const count = appointments.filter((apt) =>
-              isSameDay(new Date(apt.connection.updated_at), day)
+            // Count live appointments on this day
+            const count = appointments.filter(
+              (apt) =>
+                apt.appointment.status !== "canceled" &&
+                isSameDay(new Date(apt.appointment.starts_at), day)
             ).length;
 
             return (
@@ -285,8 +388,8 @@ export default function CalendarPage() {
         </h2>
         <span className="text-sm text-gray-500">
           {selectedDayAppointments.length === 0
-            ? "No activity"
-            : `${selectedDayAppointments.length} connection${selectedDayAppointments.length !== 1 ? "s" : ""}`}
+            ? "No appointments"
+            : `${selectedDayAppointments.length} appointment${selectedDayAppointments.length !== 1 ? "s" : ""}`}
         </span>
       </div>
 
@@ -307,105 +410,166 @@ export default function CalendarPage() {
             />
           </svg>
           <p className="text-base text-gray-500">
-            No connections on this day.
+            No appointments on this day.
           </p>
           {appointments.length === 0 && (
             <p className="text-sm text-gray-400 mt-1">
-              Accepted connections will appear here so you can coordinate next steps.
+              {isProvider
+                ? "Publish availability below so families can request a tour or consultation."
+                : "Request a tour or consultation from any provider page."}
             </p>
           )}
         </div>
       ) : (
         <div className="space-y-4">
-          {selectedDayAppointments.map((apt) => (
-            <AppointmentCard key={apt.connection.id} appointment={apt} />
-          ))}
+          {selectedDayAppointments.map((apt) => renderCard(apt))}
         </div>
       )}
 
-      {/* All appointments list (below calendar) */}
-      {appointments.length > 0 && (
+      {/* Upcoming list (below calendar) */}
+      {upcoming.length > 0 && (
         <div className="mt-10">
           <h2 className="text-lg font-semibold text-gray-900 mb-4">
-            All Connections ({appointments.length})
+            Upcoming ({upcoming.length})
           </h2>
           <div className="space-y-3">
-            {appointments.map((apt) => (
-              <AppointmentCard key={apt.connection.id} appointment={apt} compact />
-            ))}
+            {upcoming.map((apt) => renderCard(apt, true))}
           </div>
         </div>
       )}
+
+      {/* Calendar subscription */}
+      {activeProfile && (
+        <div className="mt-10">
+          <CalendarSubscribeCard profileId={activeProfile.id} />
+        </div>
+      )}
+
+      {/* Provider availability */}
+      {isProvider && activeProfile && (
+        <div className="mt-10 space-y-6">
+          {/* Families only see open slots when the plan includes scheduling */}
+          <UpgradePrompt
+            feature="tour_scheduling"
+            context="let families book tours and consultations from your profile"
+          />
+          <AvailabilityEditor profileId={activeProfile.id} />
+        </div>
+      )}
     </div>
   );
 }
 
+const STATUS_BADGES: Record<
+  Appointment["status"],
+  { variant: "default" | "pending" | "verified" | "rejected"; label: string }
+> = {
+  requested: { variant: "pending", label: "Requested" },
+  confirmed: { variant: "verified", label: "Confirmed" },
+  canceled: { variant: "rejected", label: "Canceled" },
+  completed: { variant: "default", label: "Completed" },
+};
+
 function AppointmentCard({
-  appointment,
+  item,
+  activeProfileId,
+  updating,
+  onUpdate,
   compact = false,
 }: {
-  appointment: Appointment;
+  item: AppointmentWithProfile;
+  activeProfileId: string;
+  updating: boolean;
+  onUpdate: (id: string, changes: AppointmentUpdate) => void;
   compact?: boolean;
 }) {
-  const { connection, otherProfile } = appointment;
-
-  const typeLabel =
-    connection.type === "inquiry"
-      ? "Inquiry"
-      : connection.type === "invitation"
-      ? "Invitation"
-      : connection.type === "application"
-      ? "Application"
-      : connection.type;
-
-  const acceptedDate = new Date(connection.updated_at).toLocaleDateString(
-    "en-US",
-    { month: "short", day: "numeric", year: "numeric" }
+  const { appointment, otherProfile } = item;
+  const [rescheduling, setRescheduling] = useState(false);
+
+  const badge = STATUS_BADGES[appointment.status];
+  const typeLabel = APPOINTMENT_TYPE_LABELS[appointment.appointment_type];
+  const timeLabel = formatTimeRange(appointment.starts_at, appointment.ends_at);
+  const canConfirm = awaitsConfirmationFrom(appointment, activeProfileId);
+  const isActive =
+    isAppointmentActive(appointment) &&
+    new Date(appointment.ends_at) >= new Date();
+  const waitingOnOther =
+    appointment.status === "requested" &&
+    appointment.requested_by_profile_id === activeProfileId;
+
+  const actions = isActive && (
+    <div className="flex flex-wrap items-center gap-2">
+      {canConfirm && (
+        <Button
+          size="sm"
+          loading={updating}
+          onClick={() => onUpdate(appointment.id, { action: "confirm" })}
+        >
+          Confirm
+        </Button>
+      )}
+      <Button
+        size="sm"
+        variant="secondary"
+        disabled={updating}
+        onClick={() => setRescheduling((v) => !v)}
+      >
+        Reschedule
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        disabled={updating}
+        onClick={() => onUpdate(appointment.id, { action: "cancel" })}
+      >
+        Cancel
+      </Button>
+      <Link
+        href={`/portal/connections/${appointment.connection_id}`}
+        className="text-sm text-primary-600 hover:text-primary-700 font-medium ml-1"
+      >
+        Details
+      </Link>
+      <a
+        href={`/api/appointments/${appointment.id}/ics`}
+        className="text-sm text-primary-600 hover:text-primary-700 font-medium ml-1"
+      >
+        Add to calendar
+      </a>
+    </div>
   );
 
-  // Pre-filled mailto for "Propose a time"
-  const proposalSubject = encodeURIComponent(
-    `Meeting time — ${otherProfile?.display_name || "Connection"}`
+  const rescheduleForm = rescheduling && (
+    <RescheduleForm
+      appointment={appointment}
+      updating={updating}
+      onCancel={() => setRescheduling(false)}
+      onSubmit={(changes) => {
+        onUpdate(appointment.id, changes);
+        setRescheduling(false);
+      }}
+    />
   );
-  const proposalBody = encodeURIComponent(
-    `Hi ${otherProfile?.display_name || "there"},\n\nI'd like to propose a time to connect. Would any of these work for you?\n\n- \n- \n\nLooking forward to speaking with you.\n`
-  );
-  const proposeHref = otherProfile?.email
-    ? `mailto:${otherProfile.email}?subject=${proposalSubject}&body=${proposalBody}`
-    : null;
 
   if (compact) {
     return (
-      <div className="bg-white rounded-lg border border-gray-200 p-4 flex items-center justify-between gap-4">
-        <div className="flex items-center gap-3 min-w-0">
-          <div className="w-8 h-8 bg-primary-100 text-primary-700 rounded-full flex items-center justify-center text-xs font-bold shrink-0">
-            {otherProfile?.display_name?.charAt(0).toUpperCase() || "?"}
-          </div>
-          <div className="min-w-0">
-            <p className="text-sm font-semibold text-gray-900 truncate">
-              {otherProfile?.display_name || "Unknown"}
-            </p>
-            <p className="text-xs text-gray-500">
-              {typeLabel} &middot; {acceptedDate}
-            </p>
+      <div className="bg-white rounded-lg border border-gray-200 p-4">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-8 h-8 bg-primary-100 text-primary-700 rounded-full flex items-center justify-center text-xs font-bold shrink-0">
+              {otherProfile?.display_name?.charAt(0).toUpperCase() || "?"}
+            </div>
+            <div className="min-w-0">
+              <p className="text-sm font-semibold text-gray-900 truncate">
+                {typeLabel} with {otherProfile?.display_name || "Unknown"}
+              </p>
+              <p className="text-xs text-gray-500">{timeLabel}</p>
+            </div>
           </div>
+          <Badge variant={badge.variant}>{badge.label}</Badge>
         </div>
-        <div className="flex items-center gap-2 shrink-0">
-          {proposeHref && (
-            <a
-              href={proposeHref}
-              className="inline-flex items-center gap-1.5 bg-primary-600 text-white text-xs font-medium px-3 py-1.5 rounded-lg hover:bg-primary-700 transition-colors"
-            >
-              Propose a Time
-            </a>
-          )}
-          <Link
-            href={`/portal/connections/${connection.id}`}
-            className="text-xs text-primary-600 hover:text-primary-700 font-medium"
-          >
-            Details
-          </Link>
-        </div>
+        {actions && <div className="mt-3">{actions}</div>}
+        {rescheduleForm}
       </div>
     );
   }
@@ -420,89 +584,114 @@ function AppointmentCard({
             </div>
             <div>
               <h3 className="text-lg font-semibold text-gray-900">
-                {otherProfile?.display_name || "Unknown"}
+                {typeLabel} with {otherProfile?.display_name || "Unknown"}
               </h3>
-              <p className="text-sm text-gray-500">
-                {typeLabel} &middot; Accepted {acceptedDate}
-              </p>
+              <p className="text-sm text-gray-500">{timeLabel}</p>
             </div>
           </div>
 
-          {/* Primary CTA: Propose a Time */}
-          <div className="flex flex-wrap gap-2 mt-4">
-            {proposeHref && (
-              <a
-                href={proposeHref}
-                className="inline-flex items-center gap-1.5 bg-primary-600 text-white text-sm font-medium px-4 py-2 rounded-lg hover:bg-primary-700 transition-colors"
-              >
-                <svg
-                  className="w-4 h-4"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
-                  />
-                </svg>
-                Propose a Time
-              </a>
-            )}
-            {otherProfile?.phone && (
-              <a
-                href={`tel:${otherProfile.phone}`}
-                className="inline-flex items-center gap-1.5 bg-primary-50 text-primary-700 text-sm font-medium px-3 py-2 rounded-lg hover:bg-primary-100 transition-colors"
-              >
-                <svg
-                  className="w-4 h-4"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z"
-                  />
-                </svg>
-                Call
-              </a>
-            )}
-            {otherProfile?.email && (
-              <a
-                href={`mailto:${otherProfile.email}`}
-                className="inline-flex items-center gap-1.5 bg-primary-50 text-primary-700 text-sm font-medium px-3 py-2 rounded-lg hover:bg-primary-100 transition-colors"
-              >
-                <svg
-                  className="w-4 h-4"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
-                  />
-                </svg>
-                Email
-              </a>
-            )}
-            <Link
-              href={`/portal/connections/${connection.id}`}
-              className="inline-flex items-center gap-1.5 bg-gray-100 text-gray-700 text-sm font-medium px-3 py-2 rounded-lg hover:bg-gray-200 transition-colors"
-            >
-              View details
-            </Link>
-          </div>
+          {appointment.notes && (
+            <p className="text-base text-gray-600 bg-gray-50 rounded-lg px-4 py-3 mt-3">
+              {appointment.notes}
+            </p>
+          )}
+
+          {waitingOnOther && isActive && (
+            <p className="text-sm text-warm-600 mt-3">
+              Waiting for {otherProfile?.display_name || "the other party"} to confirm.
+            </p>
+          )}
+
+          <div className="mt-4">{actions}</div>
+          {rescheduleForm}
         </div>
 
-        <Badge variant="verified">Connected</Badge>
+        <Badge variant={badge.variant}>{badge.label}</Badge>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Pick a new time: one of the provider's open slots, or a custom time
+ * keeping the original duration.
+ */
+function RescheduleForm({
+  appointment,
+  updating,
+  onCancel,
+  onSubmit,
+}: {
+  appointment: Appointment;
+  updating: boolean;
+  onCancel: () => void;
+  onSubmit: (changes: AppointmentUpdate) => void;
+}) {
+  const [slot, setSlot] = useState<AvailabilitySlot | null>(null);
+  const [date, setDate] = useState("");
+  const [time, setTime] = useState("");
+
+  const durationMs =
+    new Date(appointment.ends_at).getTime() -
+    new Date(appointment.starts_at).getTime();
+
+  const handleSubmit = () => {
+    if (slot) {
+      onSubmit({ action: "reschedule", slot_id: slot.id });
+      return;
+    }
+    if (!date || !time) return;
+    const startsAt = localDateTimeToISO(date, time);
+    onSubmit({
+      action: "reschedule",
+      starts_at: startsAt,
+      ends_at: new Date(new Date(startsAt).getTime() + durationMs).toISOString(),
+    });
+  };
+
+  return (
+    <div className="mt-4 border-t border-gray-100 pt-4 space-y-3">
+      <p className="text-sm font-medium text-gray-700">Pick an open time</p>
+      <SlotPicker
+        providerProfileId={appointment.provider_profile_id}
+        appointmentType={appointment.appointment_type}
+        selectedSlotId={slot?.id ?? null}
+        onSelect={setSlot}
+      />
+      {!slot && (
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-sm font-medium text-gray-700">
+            Or propose a date
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="mt-1 block px-3 py-2 border border-gray-300 rounded-lg text-base focus:ring-2 focus:ring-primary-500"
+            />
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            Time
+            <input
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              className="mt-1 block px-3 py-2 border border-gray-300 rounded-lg text-base focus:ring-2 focus:ring-primary-500"
+            />
+          </label>
+        </div>
+      )}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          loading={updating}
+          disabled={!slot && (!date || !time)}
+          onClick={handleSubmit}
+        >
+          Propose new time
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onCancel}>
+          Never mind
+        </Button>
       </div>
     </div>
   );
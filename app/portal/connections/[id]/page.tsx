@@ -1,29 +1,38 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { useAuth } from "@/components/auth/AuthProvider";
-import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
-import { canEngage } from "@/lib/membership";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { blurName } from "@/lib/membership";
+import { hasTeamPermission } from "@/lib/team";
+import { AMENITY_OPTIONS, getOptionLabel } from "@/lib/provider-details";
 import type { Connection, Profile, OrganizationMetadata, CaregiverMetadata, FamilyMetadata } from "@/lib/types";
 import Badge from "@/components/ui/Badge";
 import Button from "@/components/ui/Button";
 import UpgradePrompt from "@/components/providers/UpgradePrompt";
+import MessageThread from "@/components/portal/MessageThread";
 
 interface ConnectionDetail extends Connection {
   fromProfile: Profile | null;
   toProfile: Profile | null;
+  /** What the viewer's membership allows on this connection, decided server-side */
+  access: { details: boolean; respond: boolean };
+  /** Which teammate accepted, declined or first replied (recipient side only) */
+  respondedBy: { display_name: string | null; is_you: boolean } | null;
 }
 
 export default function ConnectionDetailPage() {
   const params = useParams();
   const router = useRouter();
-  const { activeProfile, membership } = useAuth();
+  const { activeProfile, activeRole, refreshAccountData } = useAuth();
   const [connection, setConnection] = useState<ConnectionDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [responding, setResponding] = useState(false);
   const [error, setError] = useState("");
+  /** The last response was refused because the plan is out of connections */
+  const [needsUpgrade, setNeedsUpgrade] = useState(false);
 
   const connectionId = params.id as string;
 
@@ -31,71 +40,68 @@ export default function ConnectionDetailPage() {
     activeProfile?.type === "organization" ||
     activeProfile?.type === "caregiver";
 
-  const hasFullAccess = canEngage(
-    activeProfile?.type,
-    membership,
-    "view_inquiry_details"
-  );
-
-  useEffect(() => {
+  const fetchConnection = useCallback(async () => {
     if (!activeProfile || !connectionId || !isSupabaseConfigured()) {
       setLoading(false);
       return;
     }
 
-    const fetchConnection = async () => {
-      const supabase = createClient();
-
-      const { data, error: fetchError } = await supabase
-        .from("connections")
-        .select("*")
-        .eq("id", connectionId)
-        .or(`to_profile_id.eq.${activeProfile.id},from_profile_id.eq.${activeProfile.id}`)
-        .single();
-
-      if (fetchError || !data) {
-        setError("Connection not found.");
-        setLoading(false);
-        return;
-      }
-
-      const conn = data as Connection;
-
-      // Fetch both profiles
-      const profileIds = [conn.from_profile_id, conn.to_profile_id];
-      const { data: profiles } = await supabase
-        .from("business_profiles")
-        .select("*")
-        .in("id", profileIds);
-
-      const profileMap = new Map((profiles as Profile[] || []).map((p) => [p.id, p]));
+    // Profiles come back already anonymized when the paywall applies,
+    // and without contact details until the connection is accepted
+    const res = await fetch(
+      `/api/connections/${connectionId}?profile_id=${activeProfile.id}`
+    );
 
-      setConnection({
-        ...conn,
-        fromProfile: profileMap.get(conn.from_profile_id) || null,
-        toProfile: profileMap.get(conn.to_profile_id) || null,
-      });
+    if (!res.ok) {
+      setError("Connection not found.");
       setLoading(false);
-    };
+      return;
+    }
 
-    fetchConnection();
+    const data = await res.json();
+    setConnection({
+      ...(data.connection as Connection),
+      fromProfile: data.fromProfile,
+      toProfile: data.toProfile,
+      access: data.access,
+      respondedBy: data.respondedBy,
+    });
+    setLoading(false);
   }, [activeProfile, connectionId]);
 
+  useEffect(() => {
+    fetchConnection();
+  }, [fetchConnection]);
+
   const handleStatusUpdate = async (newStatus: "accepted" | "declined" | "archived") => {
-    if (!isSupabaseConfigured() || !activeProfile || !connection) return;
+    if (!activeProfile || !connection) return;
 
     setResponding(true);
+    setError("");
+    setNeedsUpgrade(false);
     try {
-      const supabase = createClient();
-      const { error: updateError } = await supabase
-        .from("connections")
-        .update({ status: newStatus })
-        .eq("id", connection.id)
-        .or(`to_profile_id.eq.${activeProfile.id},from_profile_id.eq.${activeProfile.id}`);
+      const res = await fetch(`/api/connections/${connection.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ profile_id: activeProfile.id, status: newStatus }),
+      });
 
-      if (updateError) throw new Error(updateError.message);
+      if (res.status === 402) {
+        await refreshAccountData();
+        setNeedsUpgrade(true);
+        throw new Error("You've used all your free connections. Upgrade your plan to accept.");
+      }
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to update connection");
 
-      setConnection((prev) => prev ? { ...prev, status: newStatus } : null);
+      if (newStatus === "accepted") {
+        // Reload for the contact details and the updated free connection count
+        await Promise.all([fetchConnection(), refreshAccountData()]);
+      } else {
+        // Reload so "responded by" reflects this response
+        await fetchConnection();
+      }
     } catch (err: unknown) {
       const msg =
         err && typeof err === "object" && "message" in err
@@ -128,7 +134,9 @@ export default function ConnectionDetailPage() {
 
   const isInbound = connection.to_profile_id === activeProfile?.id;
   const otherProfile = isInbound ? connection.fromProfile : connection.toProfile;
-  const shouldBlur = isProvider && !hasFullAccess && isInbound;
+  const shouldBlur = isProvider && isInbound && !connection.access.details;
+  const canReply = connection.access.respond;
+  const canRespond = hasTeamPermission(activeRole, "respond");
 
   const typeLabel =
     connection.type === "inquiry" ? "Inquiry"
@@ -161,6 +169,14 @@ export default function ConnectionDetailPage() {
       {error && (
         <div className="mb-6 bg-red-50 text-red-700 px-4 py-3 rounded-lg text-base" role="alert">
           {error}
+          {needsUpgrade && (
+            <>
+              {" "}
+              <Link href="/portal/settings" className="font-medium underline">
+                See plans
+              </Link>
+            </>
+          )}
         </div>
       )}
 
@@ -176,19 +192,20 @@ export default function ConnectionDetailPage() {
         <div className="flex flex-wrap gap-6 text-sm text-gray-500">
           <span>{isInbound ? "Received" : "Sent"} {new Date(connection.created_at).toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" })}</span>
           <span>{isInbound ? "From" : "To"}: {shouldBlur ? "***" : otherProfile?.display_name || "Unknown"}</span>
+          {connection.respondedBy && (
+            <span>
+              Responded by{" "}
+              {connection.respondedBy.is_you
+                ? "you"
+                : connection.respondedBy.display_name || "a teammate"}
+              {connection.responded_at &&
+                ` on ${new Date(connection.responded_at).toLocaleDateString("en-US", { month: "long", day: "numeric" })}`}
+            </span>
+          )}
         </div>
 
-        {connection.message && (
-          <div className="mt-4 bg-gray-50 rounded-lg p-4">
-            <p className="text-sm text-gray-500 mb-1">Note:</p>
-            <p className="text-base text-gray-700">
-              {shouldBlur ? blurText(connection.message) : connection.message}
-            </p>
-          </div>
-        )}
-
         {/* Action buttons */}
-        {isInbound && hasFullAccess && connection.status === "pending" && (
+        {isInbound && canRespond && connection.access.details && connection.status === "pending" && (
           <div className="mt-6 flex gap-3">
             <Button onClick={() => handleStatusUpdate("accepted")} loading={responding}>
               Accept
@@ -240,14 +257,16 @@ export default function ConnectionDetailPage() {
                   Email
                 </a>
               )}
-              <Button
-                variant="secondary"
-                size="sm"
-                onClick={() => handleStatusUpdate("archived")}
-                loading={responding}
-              >
-                Archive
-              </Button>
+              {canRespond && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => handleStatusUpdate("archived")}
+                  loading={responding}
+                >
+                  Archive
+                </Button>
+              )}
             </div>
             {!otherProfile.phone && !otherProfile.email && (
               <p className="text-sm text-primary-600 mt-2">
@@ -264,6 +283,17 @@ export default function ConnectionDetailPage() {
         )}
       </div>
 
+      {/* Conversation thread — replaces the single connection note */}
+      {activeProfile && (
+        <MessageThread
+          connection={connection}
+          activeProfileId={activeProfile.id}
+          otherName={shouldBlur ? blurName(otherProfile?.display_name || "Unknown") : otherProfile?.display_name || "Unknown"}
+          canReply={canReply}
+          blurred={shouldBlur}
+        />
+      )}
+
       {/* Other party's profile (inline) */}
       {otherProfile && !shouldBlur && (
         <div className="bg-white rounded-xl border border-gray-200 p-6">
@@ -454,7 +484,7 @@ function ProfileEmbed({ profile, showContact }: { profile: Profile; showContact:
               <dd className="flex flex-wrap gap-2">
                 {meta.amenities.map((amenity) => (
                   <span key={amenity} className="bg-primary-50 text-primary-700 text-xs px-2.5 py-1 rounded-full">
-                    {amenity}
+                    {getOptionLabel(amenity, AMENITY_OPTIONS)}
                   </span>
                 ))}
               </dd>
@@ -511,15 +541,3 @@ function ProfileEmbed({ profile, showContact }: { profile: Profile; showContact:
     </div>
   );
 }
-
-function blurName(name: string): string {
-  if (!name) return "***";
-  const parts = name.split(" ");
-  return parts.map((p) => p.charAt(0) + "***").join(" ");
-}
-
-function blurText(text: string): string {
-  if (!text) return "";
-  if (text.length <= 20) return "*".repeat(text.length);
-  return text.substring(0, 20) + "...";
-}
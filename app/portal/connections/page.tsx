@@ -3,8 +3,9 @@
 import { useEffect, useState, useCallback } from "react";
 import Link from "next/link";
 import { useAuth } from "@/components/auth/AuthProvider";
-import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
-import { canEngage } from "@/lib/membership";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { blurName, blurText } from "@/lib/membership";
+import { hasTeamPermission } from "@/lib/team";
 import type { Connection, Profile } from "@/lib/types";
 import Badge from "@/components/ui/Badge";
 import Button from "@/components/ui/Button";
@@ -14,6 +15,8 @@ import UpgradePrompt from "@/components/providers/UpgradePrompt";
 interface ConnectionWithProfile extends Connection {
   fromProfile: Profile | null;
   toProfile: Profile | null;
+  /** What the viewer's membership allows on this connection, decided server-side */
+  access: { details: boolean };
 }
 
 type TabKey = "all" | "inquiry" | "invitation" | "application";
@@ -26,23 +29,19 @@ const TAB_LABELS: Record<TabKey, string> = {
 };
 
 export default function ConnectionsPage() {
-  const { activeProfile, membership } = useAuth();
+  const { activeProfile, activeRole, refreshAccountData } = useAuth();
   const [connections, setConnections] = useState<ConnectionWithProfile[]>([]);
   const [loading, setLoading] = useState(true);
   const [responding, setResponding] = useState<string | null>(null);
   const [error, setError] = useState("");
+  /** The last response was refused because the plan is out of connections */
+  const [needsUpgrade, setNeedsUpgrade] = useState(false);
   const [activeTab, setActiveTab] = useState<TabKey>("all");
 
   const isProvider =
     activeProfile?.type === "organization" ||
     activeProfile?.type === "caregiver";
 
-  const hasFullAccess = canEngage(
-    activeProfile?.type,
-    membership,
-    "view_inquiry_details"
-  );
-
   const fetchConnections = useCallback(async () => {
     if (!activeProfile || !isSupabaseConfigured()) {
       setLoading(false);
@@ -50,43 +49,12 @@ export default function ConnectionsPage() {
     }
 
     try {
-      const supabase = createClient();
-
-      // Fetch ALL connections involving this profile (inbound and outbound)
-      const { data, error: fetchError } = await supabase
-        .from("connections")
-        .select("*")
-        .or(`to_profile_id.eq.${activeProfile.id},from_profile_id.eq.${activeProfile.id}`)
-        .neq("type", "save")
-        .order("created_at", { ascending: false });
-
-      if (fetchError) throw new Error(fetchError.message);
-
-      // Fetch associated profiles
-      const connectionData = (data || []) as Connection[];
-      const profileIds = new Set<string>();
-      connectionData.forEach((c) => {
-        profileIds.add(c.from_profile_id);
-        profileIds.add(c.to_profile_id);
-      });
-
-      let profiles: Profile[] = [];
-      if (profileIds.size > 0) {
-        const { data: profileData } = await supabase
-          .from("profiles")
-          .select("*")
-          .in("id", Array.from(profileIds));
-        profiles = (profileData as Profile[]) || [];
-      }
-
-      const profileMap = new Map(profiles.map((p) => [p.id, p]));
-      const enriched: ConnectionWithProfile[] = connectionData.map((c) => ({
-        ...c,
-        fromProfile: profileMap.get(c.from_profile_id) || null,
-        toProfile: profileMap.get(c.to_profile_id) || null,
-      }));
+      // Inbound and outbound, anonymized by the API until we have access
+      const res = await fetch(`/api/connections?profile_id=${activeProfile.id}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load connections");
 
-      setConnections(enriched);
+      setConnections((data.connections || []) as ConnectionWithProfile[]);
     } catch (err: unknown) {
       const msg =
         err && typeof err === "object" && "message" in err
@@ -106,24 +74,37 @@ export default function ConnectionsPage() {
     connectionId: string,
     newStatus: "accepted" | "declined" | "archived"
   ) => {
-    if (!isSupabaseConfigured() || !activeProfile) return;
+    if (!activeProfile) return;
 
     setResponding(connectionId);
+    setError("");
+    setNeedsUpgrade(false);
     try {
-      const supabase = createClient();
-      const { error: updateError } = await supabase
-        .from("connections")
-        .update({ status: newStatus })
-        .eq("id", connectionId)
-        .or(`to_profile_id.eq.${activeProfile.id},from_profile_id.eq.${activeProfile.id}`);
-
-      if (updateError) throw new Error(updateError.message);
-
-      setConnections((prev) =>
-        prev.map((c) =>
-          c.id === connectionId ? { ...c, status: newStatus } : c
-        )
-      );
+      const res = await fetch(`/api/connections/${connectionId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ profile_id: activeProfile.id, status: newStatus }),
+      });
+
+      if (res.status === 402) {
+        await refreshAccountData();
+        setNeedsUpgrade(true);
+        throw new Error("You've used all your free connections. Upgrade your plan to accept.");
+      }
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to update connection");
+      }
+      if (newStatus === "accepted") {
+        // Accepting can use up the last free connection, which locks other rows
+        await Promise.all([fetchConnections(), refreshAccountData()]);
+      } else {
+        setConnections((prev) =>
+          prev.map((c) =>
+            c.id === connectionId ? { ...c, status: newStatus } : c
+          )
+        );
+      }
     } catch (err: unknown) {
       const msg =
         err && typeof err === "object" && "message" in err
@@ -177,6 +158,14 @@ export default function ConnectionsPage() {
           role="alert"
         >
           {error}
+          {needsUpgrade && (
+            <>
+              {" "}
+              <Link href="/portal/settings" className="font-medium underline">
+                See plans
+              </Link>
+            </>
+          )}
         </div>
       )}
 
@@ -227,7 +216,7 @@ export default function ConnectionsPage() {
               connection={connection}
               activeProfileId={activeProfile?.id || ""}
               isProvider={!!isProvider}
-              hasFullAccess={hasFullAccess}
+              canRespond={hasTeamPermission(activeRole, "respond")}
               responding={responding === connection.id}
               onStatusUpdate={handleStatusUpdate}
             />
@@ -235,7 +224,7 @@ export default function ConnectionsPage() {
         </div>
       )}
 
-      {isProvider && !hasFullAccess && connections.length > 0 && (
+      {isProvider && connections.some((c) => !c.access.details) && (
         <div className="mt-8">
           <UpgradePrompt context="view full details and respond to connections" />
         </div>
@@ -248,14 +237,15 @@ function ConnectionCard({
   connection,
   activeProfileId,
   isProvider,
-  hasFullAccess,
+  canRespond,
   responding,
   onStatusUpdate,
 }: {
   connection: ConnectionWithProfile;
   activeProfileId: string;
   isProvider: boolean;
-  hasFullAccess: boolean;
+  /** The viewer's team role allows accepting and declining */
+  canRespond: boolean;
   responding: boolean;
   onStatusUpdate: (id: string, status: "accepted" | "declined" | "archived") => void;
 }) {
@@ -290,8 +280,8 @@ function ConnectionCard({
     { month: "short", day: "numeric", year: "numeric" }
   );
 
-  // Should we blur details?
-  const shouldBlur = isProvider && !hasFullAccess && isInbound;
+  // Inquiries already answered stay open even once the free allowance runs out
+  const shouldBlur = isProvider && isInbound && !connection.access.details;
 
   return (
     <div className="bg-white rounded-xl border border-gray-200 hover:shadow-sm hover:border-gray-300 transition-all duration-150">
@@ -338,12 +328,6 @@ function ConnectionCard({
               </div>
             )}
 
-            {shouldBlur && (
-              <p className="mt-3 text-sm text-warm-600 font-medium">
-                Upgrade to Pro to see full details and respond.
-              </p>
-            )}
-
             <div className="flex items-center justify-between mt-3">
               <p className="text-sm text-gray-400">{createdAt}</p>
               <span className="text-sm text-primary-600 font-medium">
@@ -354,8 +338,19 @@ function ConnectionCard({
         </div>
       </Link>
 
+      {shouldBlur && (
+        <div className="px-6 pb-6 -mt-2">
+          <Link
+            href="/portal/settings"
+            className="text-sm text-warm-600 font-medium hover:underline"
+          >
+            Upgrade your plan to see full details and respond &rarr;
+          </Link>
+        </div>
+      )}
+
       {/* Quick actions — outside the link to avoid nested interactives */}
-      {isInbound && hasFullAccess && connection.status === "pending" && (
+      {isInbound && connection.access.details && canRespond && connection.status === "pending" && (
         <div className="px-6 pb-6 -mt-2 flex gap-3">
           <Button
             size="sm"
@@ -415,15 +410,3 @@ function ConnectionCard({
     </div>
   );
 }
-
-function blurName(name: string): string {
-  if (!name) return "***";
-  const parts = name.split(" ");
-  return parts.map((p) => p.charAt(0) + "***").join(" ");
-}
-
-function blurText(text: string): string {
-  if (!text) return "";
-  if (text.length <= 20) return "*".repeat(text.length);
-  return text.substring(0, 20) + "...";
-}
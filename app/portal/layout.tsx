@@ -3,6 +3,7 @@
 import Link from "next/link";
 import { useAuth } from "@/components/auth/AuthProvider";
 import PortalSidebar from "@/components/portal/PortalSidebar";
+import PendingInvites from "@/components/portal/PendingInvites";
 import Button from "@/components/ui/Button";
 import type { ReactNode } from "react";
 
@@ -36,6 +37,7 @@ export default function PortalLayout({ children }: { children: ReactNode }) {
     return (
       <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center py-16 px-4">
         <div className="text-center max-w-md">
+          <PendingInvites />
           <h1 className="text-2xl font-bold text-gray-900 mb-2">
             Complete your profile
           </h1>
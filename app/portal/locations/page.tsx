@@ -0,0 +1,430 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
+import { getLimit } from "@/lib/entitlements";
+import { getInheritedFields } from "@/lib/organizations";
+import type { Organization, Profile } from "@/lib/types";
+import Badge from "@/components/ui/Badge";
+import Button from "@/components/ui/Button";
+import Input from "@/components/ui/Input";
+import LocationInquiries from "@/components/portal/LocationInquiries";
+
+const EMPTY_LOCATION = { display_name: "", address: "", city: "", state: "", zip: "", phone: "" };
+
+const INHERITED_LABELS: Record<string, string> = {
+  description: "description",
+  image_url: "logo",
+  website: "website",
+};
+
+export default function LocationsPage() {
+  const { account, activeProfile, profiles, membership, refreshAccountData } = useAuth();
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState("");
+  const [brandForm, setBrandForm] = useState({ name: "", description: "", website: "", image_url: "" });
+  const [locationForm, setLocationForm] = useState(EMPTY_LOCATION);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [limitReached, setLimitReached] = useState(false);
+
+  const fetchOrganization = useCallback(async () => {
+    if (!account || !isSupabaseConfigured()) {
+      setLoading(false);
+      return;
+    }
+
+    const supabase = createClient();
+    const { data } = await supabase
+      .from("organizations")
+      .select("*")
+      .eq("account_id", account.id)
+      .maybeSingle<Organization>();
+
+    setOrganization(data);
+    setBrandForm({
+      name: data?.name ?? activeProfile?.display_name ?? "",
+      description: data?.description ?? "",
+      website: data?.website ?? "",
+      image_url: data?.image_url ?? "",
+    });
+    setLoading(false);
+  }, [account, activeProfile?.display_name]);
+
+  useEffect(() => {
+    fetchOrganization();
+  }, [fetchOrganization]);
+
+  if (activeProfile?.type !== "organization") {
+    return (
+      <div className="text-center py-16">
+        <p className="text-lg text-gray-600">Locations are available for organization profiles.</p>
+      </div>
+    );
+  }
+
+  if (activeProfile.account_id !== account?.id) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-lg text-gray-600">Locations are managed by the profile owner.</p>
+      </div>
+    );
+  }
+
+  const locations = organization
+    ? profiles.filter((p) => p.organization_id === organization.id)
+    : [];
+  const ungrouped = profiles.filter(
+    (p) => p.type === "organization" && !p.organization_id && p.account_id === account?.id
+  );
+  const locationLimit = getLimit(membership, "locations");
+  const atLimit = limitReached || (locationLimit !== null && locations.length >= locationLimit);
+
+  const getErrorMessage = (err: unknown) =>
+    err && typeof err === "object" && "message" in err
+      ? (err as { message: string }).message
+      : "Something went wrong";
+
+  const handleCreateOrganization = async () => {
+    setSaving(true);
+    setError("");
+    try {
+      const res = await fetch("/api/organizations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(brandForm),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to create organization");
+
+      await refreshAccountData();
+      await fetchOrganization();
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveBranding = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organization) return;
+
+    setSaving(true);
+    setSaved(false);
+    setError("");
+    try {
+      const supabase = createClient();
+      const { data, error: updateError } = await supabase
+        .from("organizations")
+        .update({
+          name: brandForm.name.trim(),
+          description: brandForm.description.trim() || null,
+          website: brandForm.website.trim() || null,
+          image_url: brandForm.image_url.trim() || null,
+        })
+        .eq("id", organization.id)
+        .select()
+        .single<Organization>();
+
+      if (updateError) throw updateError;
+      setOrganization(data);
+      setSaved(true);
+    } catch (err: unknown) {
+      console.error("Organization update error:", err);
+      setError("Failed to save changes. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addLocation = async (body: Record<string, string>, busyKey: string) => {
+    setBusyId(busyKey);
+    setError("");
+    try {
+      const res = await fetch("/api/organizations/locations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (res.status === 402) {
+        setLimitReached(true);
+        return;
+      }
+      if (!res.ok) throw new Error(data.error || "Failed to add location");
+
+      setLocationForm(EMPTY_LOCATION);
+      setShowAddForm(false);
+      await refreshAccountData();
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemoveLocation = async (location: Profile) => {
+    if (
+      !confirm(
+        `Remove ${location.display_name} from ${organization?.name}? The profile stays live but no longer shares your organization's branding.`
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(location.id);
+    setError("");
+    try {
+      const res = await fetch(`/api/organizations/locations?profile_id=${location.id}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to remove location");
+
+      setLimitReached(false);
+      await refreshAccountData();
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-16">
+        <div className="animate-spin w-8 h-8 border-4 border-primary-600 border-t-transparent rounded-full mx-auto" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Locations</h1>
+        <p className="text-lg text-gray-600 mt-1">
+          Manage every branch under one organization and one subscription.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 text-red-700 px-4 py-3 rounded-lg text-base" role="alert">
+          {error}
+        </div>
+      )}
+
+      {!organization ? (
+        <section className="bg-white rounded-xl border border-gray-200 p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">Set up your organization</h2>
+          <p className="text-base text-gray-600">
+            Group your branches under one organization to share a description, logo and
+            website, and see inquiries for all of them in one place. Your existing
+            organization profiles become its first locations.
+          </p>
+          <Input
+            label="Organization name"
+            value={brandForm.name}
+            onChange={(e) => setBrandForm((f) => ({ ...f, name: e.target.value }))}
+          />
+          <Input
+            as="textarea"
+            label="Description"
+            helpText="Shown on any location that doesn't have its own description."
+            rows={4}
+            value={brandForm.description}
+            onChange={(e) => setBrandForm((f) => ({ ...f, description: e.target.value }))}
+          />
+          <Button onClick={handleCreateOrganization} loading={saving} disabled={!brandForm.name.trim()}>
+            Create organization
+          </Button>
+        </section>
+      ) : (
+        <div className="space-y-8">
+          {/* Shared branding */}
+          <section>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Shared branding</h2>
+            <form
+              onSubmit={handleSaveBranding}
+              className="bg-white rounded-xl border border-gray-200 p-6 space-y-4"
+            >
+              <p className="text-base text-gray-600">
+                Locations that leave these blank show your organization&apos;s instead.
+              </p>
+              <Input
+                label="Organization name"
+                value={brandForm.name}
+                onChange={(e) => setBrandForm((f) => ({ ...f, name: e.target.value }))}
+                required
+              />
+              <Input
+                as="textarea"
+                label="Description"
+                rows={4}
+                value={brandForm.description}
+                onChange={(e) => setBrandForm((f) => ({ ...f, description: e.target.value }))}
+              />
+              <Input
+                label="Website"
+                type="url"
+                value={brandForm.website}
+                onChange={(e) => setBrandForm((f) => ({ ...f, website: e.target.value }))}
+              />
+              <Input
+                label="Logo URL"
+                type="url"
+                value={brandForm.image_url}
+                onChange={(e) => setBrandForm((f) => ({ ...f, image_url: e.target.value }))}
+              />
+              <div className="flex items-center gap-3">
+                <Button type="submit" loading={saving}>
+                  Save branding
+                </Button>
+                {saved && <span className="text-sm text-primary-700">Saved</span>}
+              </div>
+            </form>
+          </section>
+
+          {/* Locations */}
+          <section>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-gray-900">Locations</h2>
+              <p className="text-sm text-gray-500">
+                {locations.length}
+                {locationLimit === null ? "" : ` of ${locationLimit}`}{" "}
+                {locationLimit === 1 ? "location" : "locations"}
+              </p>
+            </div>
+            <div className="bg-white rounded-xl border border-gray-200">
+              <ul className="divide-y divide-gray-100">
+                {locations.map((location) => {
+                  const inherited = getInheritedFields(location, organization);
+                  return (
+                    <li key={location.id} className="flex items-center justify-between gap-4 px-6 py-4">
+                      <div className="min-w-0">
+                        <p className="text-base font-medium text-gray-900 truncate">
+                          {location.display_name}
+                          {location.id === activeProfile.id && (
+                            <span className="ml-2 text-sm font-normal text-gray-400">(current)</span>
+                          )}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {[location.city, location.state].filter(Boolean).join(", ") || "No location set"}
+                          {inherited.length > 0 &&
+                            ` · Uses organization ${inherited.map((f) => INHERITED_LABELS[f]).join(", ")}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3 shrink-0">
+                        {location.claim_state === "pending" && <Badge variant="pending">In review</Badge>}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveLocation(location)}
+                          loading={busyId === location.id}
+                          disabled={busyId !== null}
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              <div className="border-t border-gray-100 p-6 space-y-4">
+                {atLimit ? (
+                  <p className="text-base text-gray-600">
+                    Your plan includes {locationLimit} {locationLimit === 1 ? "location" : "locations"}.{" "}
+                    <Link href="/portal/settings" className="font-medium text-primary-600 hover:text-primary-700">
+                      Upgrade to add more
+                    </Link>
+                    .
+                  </p>
+                ) : showAddForm ? (
+                  <div className="space-y-4">
+                    <Input
+                      label="Location name"
+                      value={locationForm.display_name}
+                      onChange={(e) => setLocationForm((f) => ({ ...f, display_name: e.target.value }))}
+                    />
+                    <Input
+                      label="Street address"
+                      value={locationForm.address}
+                      onChange={(e) => setLocationForm((f) => ({ ...f, address: e.target.value }))}
+                    />
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                      <Input
+                        label="City"
+                        value={locationForm.city}
+                        onChange={(e) => setLocationForm((f) => ({ ...f, city: e.target.value }))}
+                      />
+                      <Input
+                        label="State"
+                        value={locationForm.state}
+                        onChange={(e) => setLocationForm((f) => ({ ...f, state: e.target.value }))}
+                      />
+                      <Input
+                        label="ZIP"
+                        value={locationForm.zip}
+                        onChange={(e) => setLocationForm((f) => ({ ...f, zip: e.target.value }))}
+                      />
+                    </div>
+                    <Input
+                      label="Phone"
+                      type="tel"
+                      value={locationForm.phone}
+                      onChange={(e) => setLocationForm((f) => ({ ...f, phone: e.target.value }))}
+                    />
+                    <div className="flex gap-3">
+                      <Button
+                        onClick={() => addLocation(locationForm, "new")}
+                        loading={busyId === "new"}
+                        disabled={
+                          busyId !== null ||
+                          !locationForm.display_name.trim() ||
+                          (!locationForm.city.trim() && !locationForm.state.trim())
+                        }
+                      >
+                        Add location
+                      </Button>
+                      <Button variant="ghost" onClick={() => setShowAddForm(false)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    <Button variant="secondary" onClick={() => setShowAddForm(true)}>
+                      Add a new location
+                    </Button>
+                    {ungrouped.map((profile) => (
+                      <div key={profile.id} className="flex items-center justify-between gap-4">
+                        <p className="text-base text-gray-700 truncate">{profile.display_name}</p>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => addLocation({ profile_id: profile.id }, profile.id)}
+                          loading={busyId === profile.id}
+                          disabled={busyId !== null}
+                        >
+                          Add as location
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </section>
+
+          {locations.length > 0 && <LocationInquiries locations={locations} />}
+        </div>
+      )}
+    </div>
+  );
+}
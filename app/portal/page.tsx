@@ -4,12 +4,23 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { useAuth } from "@/components/auth/AuthProvider";
 import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
-import { getFreeConnectionsRemaining, FREE_CONNECTION_LIMIT, isProfileShareable } from "@/lib/membership";
+import {
+  getFreeConnectionsRemaining,
+  getTrialDaysRemaining,
+  FREE_CONNECTION_LIMIT,
+  isProfileShareable,
+} from "@/lib/membership";
+import { PLANS, TRIAL_PLAN } from "@/lib/entitlements";
 import UpgradePrompt from "@/components/providers/UpgradePrompt";
+import UnansweredQuestions from "@/components/portal/UnansweredQuestions";
+import PendingInvites from "@/components/portal/PendingInvites";
+import { useUnreadMessages } from "@/hooks/use-unread-messages";
 
 export default function PortalDashboard() {
   const { activeProfile, membership } = useAuth();
   const [inquiryCount, setInquiryCount] = useState<number | null>(null);
+  const [unansweredCount, setUnansweredCount] = useState<number | null>(null);
+  const unreadCount = useUnreadMessages(activeProfile?.id);
 
   // activeProfile is guaranteed by the portal layout guard
   if (!activeProfile) return null;
@@ -28,7 +39,7 @@ export default function PortalDashboard() {
       const column = isProvider ? "to_profile_id" : "from_profile_id";
       const { count } = await supabase
         .from("connections")
-        .select("*", { count: "exact", head: true })
+        .select("id", { count: "exact", head: true })
         .eq(column, activeProfile.id)
         .eq("type", "inquiry");
 
@@ -38,7 +49,10 @@ export default function PortalDashboard() {
     fetchCounts();
   }, [activeProfile, isProvider]);
 
-  const freeRemaining = getFreeConnectionsRemaining(membership);
+  const allowance = getFreeConnectionsRemaining(membership);
+  const freeRemaining = allowance?.remaining ?? null;
+  const resetsOn = allowance?.resetsAt ? formatDate(allowance.resetsAt) : null;
+  const trialDaysRemaining = getTrialDaysRemaining(membership);
 
   return (
     <div>
@@ -56,6 +70,12 @@ export default function PortalDashboard() {
               <p className="text-base text-warm-700">
                 Your profile is being reviewed by our team. You&apos;ll have full access once approved. In the meantime, you can complete your profile details.
               </p>
+              <Link
+                href={`/for-providers/claim/${activeProfile.slug}`}
+                className="inline-block mt-2 text-base font-medium text-warm-800 underline hover:text-warm-900"
+              >
+                Verify your claim to speed up review
+              </Link>
             </div>
           </div>
         </div>
@@ -73,7 +93,13 @@ export default function PortalDashboard() {
                 Profile not approved
               </h2>
               <p className="text-base text-red-700">
-                Your profile was not approved. Please contact support for more information.
+                Your profile was not approved.{" "}
+                <Link
+                  href={`/for-providers/claim/${activeProfile.slug}`}
+                  className="font-medium underline hover:text-red-800"
+                >
+                  See why
+                </Link>
               </p>
             </div>
           </div>
@@ -88,16 +114,41 @@ export default function PortalDashboard() {
         </p>
       </div>
 
+      <PendingInvites />
+
+      {/* Trial ending notice, sent by the membership lifecycle job */}
+      {isProvider && trialDaysRemaining !== null && membership?.trial_notice_sent_at && (
+        <div className="mb-8 bg-warm-50 border border-warm-200 rounded-xl p-6">
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-warm-800 mb-1">
+                Your free trial ends in {trialDaysRemaining}{" "}
+                {trialDaysRemaining === 1 ? "day" : "days"}
+              </h2>
+              <p className="text-base text-warm-700">
+                After that you&apos;ll have {FREE_CONNECTION_LIMIT} free connections a month. Upgrade to {PLANS[TRIAL_PLAN].label} to keep unlimited access.
+              </p>
+            </div>
+            <Link
+              href="/portal/settings"
+              className="bg-primary-600 hover:bg-primary-700 text-white font-semibold py-2 px-5 rounded-lg transition-colors text-sm"
+            >
+              Upgrade
+            </Link>
+          </div>
+        </div>
+      )}
+
       {/* Free connections banner for providers */}
       {isProvider && freeRemaining !== null && freeRemaining > 0 && (
         <div className="mb-8 bg-primary-50 border border-primary-200 rounded-xl p-6">
           <div className="flex items-center justify-between flex-wrap gap-4">
             <div>
               <h2 className="text-lg font-semibold text-primary-800 mb-1">
-                {freeRemaining} of {FREE_CONNECTION_LIMIT} free connections remaining
+                {freeRemaining} of {allowance?.limit} connections remaining this month
               </h2>
               <p className="text-base text-primary-700">
-                Upgrade to Pro for unlimited connections.
+                {resetsOn && `Resets ${resetsOn}. `}Upgrade for more connections.
               </p>
             </div>
             <Link
@@ -143,6 +194,30 @@ export default function PortalDashboard() {
             />
           </Link>
         )}
+        {isProvider && (
+          <a href="#questions" className="block">
+            <StatCard
+              label="Unanswered questions"
+              value={unansweredCount !== null ? String(unansweredCount) : "—"}
+              description={
+                unansweredCount === 0
+                  ? "Every question has an answer"
+                  : "Families are waiting to hear from you"
+              }
+            />
+          </a>
+        )}
+        <Link href="/portal/connections" className="block">
+          <StatCard
+            label="Unread messages"
+            value={String(unreadCount)}
+            description={
+              unreadCount === 0
+                ? "You're all caught up"
+                : "Click to read and reply"
+            }
+          />
+        </Link>
         {isFamily && (
           <>
             <Link href="/portal/connections" className="block">
@@ -167,6 +242,13 @@ export default function PortalDashboard() {
         )}
       </div>
 
+      {/* Questions from the public profile */}
+      {isProvider && (
+        <div id="questions" className="scroll-mt-20">
+          <UnansweredQuestions profileId={activeProfile.id} onCountChange={setUnansweredCount} />
+        </div>
+      )}
+
       {/* Quick actions */}
       <div>
         <h2 className="text-xl font-semibold text-gray-900 mb-4">
@@ -270,3 +352,10 @@ function QuickAction({
     </Link>
   );
 }
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  });
+}
@@ -3,14 +3,37 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/components/auth/AuthProvider";
 import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
+import { hasTeamPermission } from "@/lib/team";
 import type {
   ProfileCategory,
   OrganizationMetadata,
+  PaymentOption,
   CaregiverMetadata,
   FamilyMetadata,
 } from "@/lib/types";
 import Input from "@/components/ui/Input";
 import Button from "@/components/ui/Button";
+import PhotoManager from "@/components/portal/PhotoManager";
+import PricingEditor from "@/components/portal/PricingEditor";
+import WeeklyHoursEditor from "@/components/portal/WeeklyHoursEditor";
+import OptionPicker from "@/components/portal/OptionPicker";
+import {
+  AMENITY_OPTIONS,
+  CARE_SERVICE_OPTIONS,
+  PAYMENT_OPTIONS,
+  formatPriceSummary,
+  getPaymentOptions,
+  normalizeOptionValues,
+  parsePricingDrafts,
+  parseWeeklyHoursDraft,
+  summarizeWeeklyHours,
+  toHourlyPricingDraft,
+  toRoomPriceDrafts,
+  toWeeklyHoursDraft,
+  type HourlyPricingDraft,
+  type RoomPriceDraft,
+  type WeeklyHoursDraft,
+} from "@/lib/provider-details";
 
 const ORG_CATEGORIES: { value: ProfileCategory; label: string }[] = [
   { value: "assisted_living", label: "Assisted Living" },
@@ -39,23 +62,6 @@ const CARE_TYPES = [
   "Rehabilitation",
 ];
 
-const COMMON_AMENITIES = [
-  "24/7 Staff",
-  "Activities Program",
-  "Beauty Salon",
-  "Chapel",
-  "Dining Room",
-  "Fitness Center",
-  "Garden",
-  "Library",
-  "Pet Friendly",
-  "Physical Therapy",
-  "Private Rooms",
-  "Secure Memory Unit",
-  "Transportation",
-  "WiFi",
-];
-
 const COMMON_CERTIFICATIONS = [
   "CNA",
   "HHA",
@@ -106,11 +112,15 @@ interface OrgMeta {
   year_founded: string;
   bed_count: string;
   staff_count: string;
-  accepts_medicaid: boolean;
-  accepts_medicare: boolean;
+  payment_options: PaymentOption[];
   amenities: string[];
-  hours: string;
-  price_range: string;
+  services: string[];
+  rooms: RoomPriceDraft[];
+  hourly: HourlyPricingDraft;
+  weekly_hours: WeeklyHoursDraft;
+  /** Free text from before structured pricing and hours, kept until replaced */
+  legacy_hours: string;
+  legacy_price_range: string;
 }
 
 interface CaregiverMeta {
@@ -130,7 +140,8 @@ interface FamilyMeta {
 }
 
 export default function PortalProfilePage() {
-  const { activeProfile, refreshAccountData } = useAuth();
+  const { activeProfile, activeRole, refreshAccountData } = useAuth();
+  const canEdit = hasTeamPermission(activeRole, "edit_profile");
   const [form, setForm] = useState<FormData>({
     display_name: "",
     description: "",
@@ -149,11 +160,14 @@ export default function PortalProfilePage() {
     year_founded: "",
     bed_count: "",
     staff_count: "",
-    accepts_medicaid: false,
-    accepts_medicare: false,
+    payment_options: [],
     amenities: [],
-    hours: "",
-    price_range: "",
+    services: [],
+    rooms: [],
+    hourly: toHourlyPricingDraft(undefined),
+    weekly_hours: toWeeklyHoursDraft(undefined),
+    legacy_hours: "",
+    legacy_price_range: "",
   });
   const [caregiverMeta, setCaregiverMeta] = useState<CaregiverMeta>({
     hourly_rate_min: "",
@@ -200,11 +214,15 @@ export default function PortalProfilePage() {
         year_founded: m.year_founded ? String(m.year_founded) : "",
         bed_count: m.bed_count ? String(m.bed_count) : "",
         staff_count: m.staff_count ? String(m.staff_count) : "",
-        accepts_medicaid: m.accepts_medicaid || false,
-        accepts_medicare: m.accepts_medicare || false,
-        amenities: m.amenities || [],
-        hours: m.hours || "",
-        price_range: m.price_range || "",
+        payment_options: getPaymentOptions(m),
+        amenities: normalizeOptionValues(m.amenities || [], AMENITY_OPTIONS),
+        services: normalizeOptionValues(m.services || [], CARE_SERVICE_OPTIONS),
+        rooms: toRoomPriceDrafts(m.room_pricing),
+        hourly: toHourlyPricingDraft(m.hourly_pricing),
+        weekly_hours: toWeeklyHoursDraft(m.weekly_hours),
+        legacy_hours: m.weekly_hours ? "" : m.hours || "",
+        legacy_price_range:
+          m.room_pricing?.length || m.hourly_pricing ? "" : m.price_range || "",
       });
     } else if (activeProfile.type === "caregiver") {
       const m = meta as CaregiverMetadata;
@@ -232,6 +250,10 @@ export default function PortalProfilePage() {
   // activeProfile is guaranteed by the portal layout guard
   if (!activeProfile) return null;
 
+  const isOrg = activeProfile.type === "organization";
+  const isCaregiver = activeProfile.type === "caregiver";
+  const isFamily = activeProfile.type === "family";
+
   const handleChange = (field: keyof FormData, value: string) => {
     setForm((prev) => ({ ...prev, [field]: value }));
     setSaved(false);
@@ -260,6 +282,15 @@ export default function PortalProfilePage() {
     setSaved(false);
   };
 
+  const updateOrgMeta = (changes: Partial<OrgMeta>) => {
+    setOrgMeta((p) => ({ ...p, ...changes }));
+    setSaved(false);
+  };
+
+  // Structured pricing and hours are parsed up front so errors show before saving
+  const pricing = parsePricingDrafts(orgMeta.rooms, orgMeta.hourly);
+  const weeklyHours = parseWeeklyHoursDraft(orgMeta.weekly_hours);
+
   const buildMetadata = (): Record<string, unknown> => {
     if (activeProfile.type === "organization") {
       const m: Record<string, unknown> = {};
@@ -267,11 +298,27 @@ export default function PortalProfilePage() {
       if (orgMeta.year_founded) m.year_founded = parseInt(orgMeta.year_founded);
       if (orgMeta.bed_count) m.bed_count = parseInt(orgMeta.bed_count);
       if (orgMeta.staff_count) m.staff_count = parseInt(orgMeta.staff_count);
-      m.accepts_medicaid = orgMeta.accepts_medicaid;
-      m.accepts_medicare = orgMeta.accepts_medicare;
+      m.payment_options = orgMeta.payment_options;
+      m.accepts_medicaid = orgMeta.payment_options.includes("medicaid");
+      m.accepts_medicare = orgMeta.payment_options.includes("medicare");
       if (orgMeta.amenities.length > 0) m.amenities = orgMeta.amenities;
-      if (orgMeta.hours) m.hours = orgMeta.hours;
-      if (orgMeta.price_range) m.price_range = orgMeta.price_range;
+      if (orgMeta.services.length > 0) m.services = orgMeta.services;
+
+      if (pricing.room_pricing.length > 0) m.room_pricing = pricing.room_pricing;
+      if (pricing.hourly_pricing) m.hourly_pricing = pricing.hourly_pricing;
+      const priceSummary = formatPriceSummary({
+        room_pricing: pricing.room_pricing,
+        hourly_pricing: pricing.hourly_pricing ?? undefined,
+      });
+      if (priceSummary) m.price_range = priceSummary;
+      else if (orgMeta.legacy_price_range) m.price_range = orgMeta.legacy_price_range;
+
+      if (Object.keys(weeklyHours.weekly_hours).length > 0) {
+        m.weekly_hours = weeklyHours.weekly_hours;
+        m.hours = summarizeWeeklyHours(weeklyHours.weekly_hours);
+      } else if (orgMeta.legacy_hours) {
+        m.hours = orgMeta.legacy_hours;
+      }
       return m;
     }
 
@@ -311,6 +358,14 @@ export default function PortalProfilePage() {
     e.preventDefault();
     if (!isSupabaseConfigured()) return;
 
+    if (isOrg) {
+      const errors = [...pricing.errors, ...weeklyHours.errors];
+      if (errors.length > 0) {
+        setError(errors.join(". "));
+        return;
+      }
+    }
+
     setSaving(true);
     setError("");
 
@@ -346,10 +401,6 @@ export default function PortalProfilePage() {
     }
   };
 
-  const isOrg = activeProfile.type === "organization";
-  const isCaregiver = activeProfile.type === "caregiver";
-  const isFamily = activeProfile.type === "family";
-
   const profileLabel = isOrg
     ? "Keep your information up to date so families can find you."
     : isCaregiver
@@ -363,6 +414,19 @@ export default function PortalProfilePage() {
         <p className="text-lg text-gray-600 mt-1">{profileLabel}</p>
       </div>
 
+      {!canEdit && (
+        <div className="mb-6 bg-gray-50 text-gray-700 px-4 py-3 rounded-lg text-base">
+          Your team role can view this profile but not edit it.
+        </div>
+      )}
+
+      {/* Photos save as they're uploaded, separately from the form */}
+      {canEdit && !isFamily && (
+        <div className="mb-8">
+          <PhotoManager profileId={activeProfile.id} onChange={refreshAccountData} />
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-8">
         {/* Basic info section */}
         <section>
@@ -606,98 +670,30 @@ export default function PortalProfilePage() {
                 />
               </div>
 
-              <Input
-                label="Hours of operation"
-                name="hours"
-                value={orgMeta.hours}
-                onChange={(e) => {
-                  setOrgMeta((p) => ({
-                    ...p,
-                    hours: (e.target as HTMLInputElement).value,
-                  }));
-                  setSaved(false);
-                }}
-                placeholder="e.g. Mon-Fri 8am-6pm, 24/7 for residents"
-              />
-
-              <Input
-                label="Price range"
-                name="price_range"
-                value={orgMeta.price_range}
-                onChange={(e) => {
-                  setOrgMeta((p) => ({
-                    ...p,
-                    price_range: (e.target as HTMLInputElement).value,
-                  }));
-                  setSaved(false);
-                }}
-                placeholder="e.g. $3,500 - $6,000/month"
-              />
-
               <div className="space-y-3">
                 <p className="text-base font-medium text-gray-700">
                   Accepted payment types
                 </p>
                 <div className="flex flex-wrap gap-4">
-                  <label className="flex items-center gap-2 cursor-pointer min-h-[44px]">
-                    <input
-                      type="checkbox"
-                      checked={orgMeta.accepts_medicare}
-                      onChange={(e) => {
-                        setOrgMeta((p) => ({
-                          ...p,
-                          accepts_medicare: e.target.checked,
-                        }));
-                        setSaved(false);
-                      }}
-                      className="w-5 h-5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
-                    />
-                    <span className="text-base text-gray-700">Medicare</span>
-                  </label>
-                  <label className="flex items-center gap-2 cursor-pointer min-h-[44px]">
-                    <input
-                      type="checkbox"
-                      checked={orgMeta.accepts_medicaid}
-                      onChange={(e) => {
-                        setOrgMeta((p) => ({
-                          ...p,
-                          accepts_medicaid: e.target.checked,
-                        }));
-                        setSaved(false);
-                      }}
-                      className="w-5 h-5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
-                    />
-                    <span className="text-base text-gray-700">Medicaid</span>
-                  </label>
-                </div>
-              </div>
-
-              <div className="space-y-3">
-                <p className="text-base font-medium text-gray-700">
-                  Amenities & features
-                </p>
-                <div className="flex flex-wrap gap-2">
-                  {COMMON_AMENITIES.map((amenity) => (
-                    <button
-                      key={amenity}
-                      type="button"
-                      onClick={() =>
-                        handleToggleList(
-                          orgMeta.amenities,
-                          (items) =>
-                            setOrgMeta((p) => ({ ...p, amenities: items })),
-                          amenity
-                        )
-                      }
-                      className={[
-                        "px-3 py-1.5 rounded-lg text-sm font-medium transition-colors border min-h-[36px]",
-                        orgMeta.amenities.includes(amenity)
-                          ? "bg-primary-50 border-primary-500 text-primary-700"
-                          : "bg-white border-gray-300 text-gray-700 hover:border-gray-400",
-                      ].join(" ")}
+                  {PAYMENT_OPTIONS.map((option) => (
+                    <label
+                      key={option.id}
+                      className="flex items-center gap-2 cursor-pointer min-h-[44px]"
                     >
-                      {amenity}
-                    </button>
+                      <input
+                        type="checkbox"
+                        checked={orgMeta.payment_options.includes(option.id)}
+                        onChange={(e) =>
+                          updateOrgMeta({
+                            payment_options: e.target.checked
+                              ? [...orgMeta.payment_options, option.id]
+                              : orgMeta.payment_options.filter((p) => p !== option.id),
+                          })
+                        }
+                        className="w-5 h-5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                      <span className="text-base text-gray-700">{option.label}</span>
+                    </label>
                   ))}
                 </div>
               </div>
@@ -705,6 +701,63 @@ export default function PortalProfilePage() {
           </section>
         )}
 
+        {/* Pricing and hours section */}
+        {isOrg && (
+          <section>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Pricing & hours
+            </h2>
+            <div className="space-y-8 bg-white p-6 rounded-xl border border-gray-200">
+              {orgMeta.legacy_price_range && (
+                <p className="text-sm text-gray-500">
+                  Your listing currently shows &ldquo;{orgMeta.legacy_price_range}&rdquo;.
+                  Add prices below to replace it.
+                </p>
+              )}
+              <PricingEditor
+                rooms={orgMeta.rooms}
+                hourly={orgMeta.hourly}
+                onRoomsChange={(rooms) => updateOrgMeta({ rooms })}
+                onHourlyChange={(hourly) => updateOrgMeta({ hourly })}
+              />
+
+              {orgMeta.legacy_hours && (
+                <p className="text-sm text-gray-500">
+                  Your listing currently shows &ldquo;{orgMeta.legacy_hours}&rdquo;.
+                  Set your hours below to replace it.
+                </p>
+              )}
+              <WeeklyHoursEditor
+                hours={orgMeta.weekly_hours}
+                onChange={(weekly_hours) => updateOrgMeta({ weekly_hours })}
+              />
+            </div>
+          </section>
+        )}
+
+        {/* Services and amenities section */}
+        {isOrg && (
+          <section>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">
+              Services & amenities
+            </h2>
+            <div className="space-y-8 bg-white p-6 rounded-xl border border-gray-200">
+              <OptionPicker
+                label="Care services"
+                options={CARE_SERVICE_OPTIONS}
+                selected={orgMeta.services}
+                onChange={(services) => updateOrgMeta({ services })}
+              />
+              <OptionPicker
+                label="Amenities & features"
+                options={AMENITY_OPTIONS}
+                selected={orgMeta.amenities}
+                onChange={(amenities) => updateOrgMeta({ amenities })}
+              />
+            </div>
+          </section>
+        )}
+
         {/* Caregiver details section */}
         {isCaregiver && (
           <section>
@@ -946,7 +999,7 @@ export default function PortalProfilePage() {
         )}
 
         <div className="flex items-center gap-4">
-          <Button type="submit" size="lg" loading={saving}>
+          <Button type="submit" size="lg" loading={saving} disabled={!canEdit}>
             {saved ? "Saved" : "Save changes"}
           </Button>
           {saved && (
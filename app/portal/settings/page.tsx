@@ -1,35 +1,95 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useSearchParams } from "next/navigation";
 import { useAuth } from "@/components/auth/AuthProvider";
-import { canEngage, getFreeConnectionsRemaining, FREE_CONNECTION_LIMIT } from "@/lib/membership";
+import {
+  canEngage,
+  getFreeConnectionsRemaining,
+  getTrialDaysRemaining,
+  FREE_CONNECTION_LIMIT,
+} from "@/lib/membership";
+import {
+  getEffectivePlan,
+  PAID_PLANS,
+  PLANS,
+  TRIAL_PLAN,
+  type PaidPlan,
+} from "@/lib/entitlements";
+import type { BillingCycle, MembershipPlan } from "@/lib/types";
 import Badge from "@/components/ui/Badge";
 import Button from "@/components/ui/Button";
 
+type BillingAction = BillingCycle | PaidPlan | "portal" | "cancel" | "resume";
+
+interface Invoice {
+  id: string;
+  number: string | null;
+  status: string | null;
+  amount: number;
+  currency: string;
+  created: string;
+  hosted_invoice_url: string | null;
+  invoice_pdf: string | null;
+}
+
 export default function SettingsPage() {
-  const { user, account, activeProfile, membership } = useAuth();
+  const { user, account, activeProfile, membership, refreshAccountData } = useAuth();
   const searchParams = useSearchParams();
   const justUpgraded = searchParams.get("upgraded") === "true";
 
-  const [loading, setLoading] = useState<"monthly" | "annual" | null>(null);
+  const [loading, setLoading] = useState<BillingAction | null>(null);
   const [error, setError] = useState("");
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [invoicesLoading, setInvoicesLoading] = useState(false);
+  const [billingCycle, setBillingCycle] = useState<BillingCycle>("monthly");
 
   const isProvider =
     activeProfile?.type === "organization" ||
     activeProfile?.type === "caregiver";
+  // Teammates share the owner's subscription but can't manage it
+  const isTeammate = !!activeProfile && activeProfile.account_id !== account?.id;
   const hasAccess = canEngage(activeProfile?.type, membership, "respond_to_inquiry");
-  const freeRemaining = getFreeConnectionsRemaining(membership);
+  const allowance = getFreeConnectionsRemaining(membership);
+  const freeRemaining = allowance?.remaining ?? null;
+  const trialDaysRemaining = getTrialDaysRemaining(membership);
+  const hasSubscription =
+    !!membership?.stripe_subscription_id &&
+    (membership.status === "active" || membership.status === "past_due");
+  const customerId = membership?.stripe_customer_id;
+  const effectivePlan = getEffectivePlan(membership);
+  const subscribedPlan = hasSubscription && membership ? membership.plan : null;
+  const subscribedCycle = membership?.billing_cycle ?? "monthly";
 
-  const handleUpgrade = async (billingCycle: "monthly" | "annual") => {
-    setLoading(billingCycle);
+  useEffect(() => {
+    if (!isProvider || isTeammate || !customerId) return;
+
+    let cancelled = false;
+    setInvoicesLoading(true);
+    fetch("/api/stripe/invoices")
+      .then((res) => (res.ok ? res.json() : { invoices: [] }))
+      .then((data) => {
+        if (!cancelled) setInvoices(data.invoices ?? []);
+      })
+      .catch((err) => console.error("Failed to fetch invoices:", err))
+      .finally(() => {
+        if (!cancelled) setInvoicesLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isProvider, isTeammate, customerId]);
+
+  const handleUpgrade = async (plan: PaidPlan) => {
+    setLoading(plan);
     setError("");
 
     try {
       const res = await fetch("/api/stripe/checkout", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ billingCycle }),
+        body: JSON.stringify({ plan, billingCycle }),
       });
 
       const data = await res.json();
@@ -52,6 +112,101 @@ export default function SettingsPage() {
     }
   };
 
+  const handleManageBilling = async () => {
+    setLoading("portal");
+    setError("");
+
+    try {
+      const res = await fetch("/api/stripe/portal", { method: "POST" });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to open billing portal");
+      }
+
+      if (data.url) {
+        window.location.href = data.url;
+      }
+    } catch (err: unknown) {
+      const msg =
+        err && typeof err === "object" && "message" in err
+          ? (err as { message: string }).message
+          : "Something went wrong";
+      setError(msg);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const updateSubscription = async (
+    action: BillingAction,
+    changes: { plan?: PaidPlan; billingCycle?: BillingCycle } | { cancelAtPeriodEnd: boolean }
+  ) => {
+    setLoading(action);
+    setError("");
+
+    try {
+      const res = await fetch("/api/stripe/subscription", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to update subscription");
+      }
+
+      await refreshAccountData();
+    } catch (err: unknown) {
+      const msg =
+        err && typeof err === "object" && "message" in err
+          ? (err as { message: string }).message
+          : "Something went wrong";
+      setError(msg);
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const handleSwitchCycle = (nextCycle: BillingCycle) => {
+    if (!subscribedPlan) return;
+    const price = PLANS[subscribedPlan].price;
+    const message =
+      nextCycle === "annual"
+        ? `Switch to annual billing at $${price?.annual}/yr? Unused time on your monthly plan is credited toward the change.`
+        : `Switch to monthly billing at $${price?.monthly}/mo? Unused time on your annual plan is credited toward future invoices.`;
+    if (!confirm(message)) return;
+    updateSubscription(nextCycle, { billingCycle: nextCycle });
+  };
+
+  const handleSwitchPlan = (plan: PaidPlan) => {
+    const price = PLANS[plan].price;
+    const amount =
+      subscribedCycle === "annual" ? `$${price?.annual}/yr` : `$${price?.monthly}/mo`;
+    if (
+      !confirm(
+        `Switch to ${PLANS[plan].label} at ${amount}? The change is prorated on your next invoice.`
+      )
+    ) {
+      return;
+    }
+    updateSubscription(plan, { plan });
+  };
+
+  const handleCancel = () => {
+    const label = subscribedPlan ? PLANS[subscribedPlan].label : "";
+    if (
+      !confirm(
+        `Cancel your ${label} subscription? You keep ${label} access until the end of the current billing period.`
+      )
+    ) {
+      return;
+    }
+    updateSubscription("cancel", { cancelAtPeriodEnd: true });
+  };
+
   return (
     <div>
       <div className="mb-8">
@@ -96,8 +251,21 @@ export default function SettingsPage() {
         </div>
       </section>
 
+      {isProvider && isTeammate && (
+        <section className="mb-8">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">
+            Subscription
+          </h2>
+          <div className="bg-white rounded-xl border border-gray-200 p-6">
+            <p className="text-base text-gray-600">
+              Billing for {activeProfile.display_name} is managed by the profile owner.
+            </p>
+          </div>
+        </section>
+      )}
+
       {/* Subscription section (providers only) */}
-      {isProvider && (
+      {isProvider && !isTeammate && (
         <section className="mb-8">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">
             Subscription
@@ -109,9 +277,13 @@ export default function SettingsPage() {
                 Current plan:
               </p>
               {membership?.status === "active" && (
-                <Badge variant="pro">Pro</Badge>
+                <Badge variant="pro">{PLANS[membership.plan].label}</Badge>
+              )}
+              {trialDaysRemaining !== null && (
+                <Badge variant="trial">Trial</Badge>
               )}
-              {(membership?.status === "free" || membership?.status === "trialing" || !membership) && (
+              {trialDaysRemaining === null &&
+                (membership?.status === "free" || membership?.status === "trialing" || !membership) && (
                 <Badge variant="default">Free</Badge>
               )}
               {membership?.status === "past_due" && (
@@ -122,18 +294,35 @@ export default function SettingsPage() {
               )}
             </div>
 
+            {/* Trial info */}
+            {trialDaysRemaining !== null && membership?.trial_ends_at && (
+              <div className="mb-4">
+                <p className="text-base text-gray-600">
+                  Your free trial includes everything in {PLANS[TRIAL_PLAN].label} until{" "}
+                  <span className="font-semibold text-gray-900">
+                    {formatDate(membership.trial_ends_at)}
+                  </span>{" "}
+                  ({trialDaysRemaining} {trialDaysRemaining === 1 ? "day" : "days"} left).
+                  After that you get {FREE_CONNECTION_LIMIT} free connections a month.
+                </p>
+              </div>
+            )}
+
             {/* Free tier info */}
             {freeRemaining !== null && (
               <div className="mb-4">
                 <p className="text-base text-gray-600">
                   You have{" "}
                   <span className="font-semibold text-gray-900">
-                    {freeRemaining} of {FREE_CONNECTION_LIMIT}
+                    {freeRemaining} of {allowance?.limit}
                   </span>{" "}
-                  free connections remaining.
+                  connections remaining this month
+                  {allowance?.resetsAt
+                    ? ` until ${formatDate(allowance.resetsAt)}.`
+                    : "."}
                   {freeRemaining === 0
-                    ? " Upgrade to Pro to continue connecting."
-                    : " Upgrade to Pro for unlimited connections."}
+                    ? " Upgrade to continue connecting."
+                    : " Upgrade for more connections."}
                 </p>
               </div>
             )}
@@ -142,24 +331,28 @@ export default function SettingsPage() {
             {membership?.status === "active" && (
               <div className="mb-4">
                 <p className="text-base text-gray-600">
-                  You have unlimited access to all Pro features.
+                  You have access to all {PLANS[membership.plan].label} features.
                 </p>
                 {membership.billing_cycle && (
                   <p className="text-sm text-gray-500 mt-1">
                     Billed {membership.billing_cycle === "annual" ? "annually" : "monthly"}
                     {membership.current_period_ends_at &&
-                      ` · Next billing date: ${new Date(
-                        membership.current_period_ends_at
-                      ).toLocaleDateString("en-US", {
-                        month: "short",
-                        day: "numeric",
-                        year: "numeric",
-                      })}`}
+                      !membership.cancel_at_period_end &&
+                      ` · Next billing date: ${formatDate(membership.current_period_ends_at)}`}
                   </p>
                 )}
               </div>
             )}
 
+            {/* Scheduled cancellation */}
+            {hasSubscription && membership?.cancel_at_period_end && (
+              <div className="mb-4 bg-warm-50 text-warm-700 px-4 py-3 rounded-lg text-base">
+                Your subscription is canceled and won&apos;t renew.
+                {membership.current_period_ends_at &&
+                  ` You keep ${PLANS[membership.plan].label} access until ${formatDate(membership.current_period_ends_at)}.`}
+              </div>
+            )}
+
             {/* Past due warning */}
             {membership?.status === "past_due" && (
               <div className="mb-4 bg-warm-50 text-warm-700 px-4 py-3 rounded-lg text-base">
@@ -168,8 +361,8 @@ export default function SettingsPage() {
               </div>
             )}
 
-            {/* Upgrade options */}
-            {membership?.status !== "active" && (
+            {/* Manage existing subscription */}
+            {hasSubscription && (
               <div className="space-y-4">
                 {error && (
                   <div
@@ -180,56 +373,146 @@ export default function SettingsPage() {
                   </div>
                 )}
 
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  {/* Monthly */}
-                  <div className="border-2 border-gray-200 rounded-xl p-5 hover:border-primary-300 transition-colors">
-                    <p className="text-lg font-semibold text-gray-900">
-                      Monthly
-                    </p>
-                    <p className="text-3xl font-bold text-gray-900 mt-1">
-                      $25
-                      <span className="text-base font-normal text-gray-500">
-                        /mo
-                      </span>
-                    </p>
+                <div className="flex flex-wrap gap-3">
+                  <Button
+                    variant="secondary"
+                    onClick={handleManageBilling}
+                    loading={loading === "portal"}
+                    disabled={loading !== null}
+                  >
+                    Update payment method
+                  </Button>
+                  {membership?.cancel_at_period_end ? (
                     <Button
-                      fullWidth
-                      className="mt-4"
-                      onClick={() => handleUpgrade("monthly")}
-                      loading={loading === "monthly"}
+                      onClick={() => updateSubscription("resume", { cancelAtPeriodEnd: false })}
+                      loading={loading === "resume"}
                       disabled={loading !== null}
                     >
-                      Subscribe Monthly
+                      Resume subscription
                     </Button>
+                  ) : (
+                    <>
+                      {PAID_PLANS.filter((plan) => plan !== subscribedPlan).map((plan) => (
+                        <Button
+                          key={plan}
+                          variant="secondary"
+                          onClick={() => handleSwitchPlan(plan)}
+                          loading={loading === plan}
+                          disabled={loading !== null}
+                        >
+                          Switch to {PLANS[plan].label}
+                        </Button>
+                      ))}
+                      {membership?.billing_cycle === "annual" ? (
+                        <Button
+                          variant="secondary"
+                          onClick={() => handleSwitchCycle("monthly")}
+                          loading={loading === "monthly"}
+                          disabled={loading !== null}
+                        >
+                          Switch to monthly
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="secondary"
+                          onClick={() => handleSwitchCycle("annual")}
+                          loading={loading === "annual"}
+                          disabled={loading !== null}
+                        >
+                          Switch to annual (save 17%)
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        onClick={handleCancel}
+                        loading={loading === "cancel"}
+                        disabled={loading !== null}
+                      >
+                        Cancel subscription
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Upgrade options */}
+            {!hasSubscription && (
+              <div className="space-y-4">
+                {error && (
+                  <div
+                    className="bg-red-50 text-red-700 px-4 py-3 rounded-lg text-base"
+                    role="alert"
+                  >
+                    {error}
                   </div>
+                )}
 
-                  {/* Annual */}
-                  <div className="border-2 border-primary-300 rounded-xl p-5 relative">
-                    <div className="absolute -top-3 right-4 bg-primary-600 text-white text-xs font-semibold px-3 py-1 rounded-full">
-                      Save 17%
-                    </div>
-                    <p className="text-lg font-semibold text-gray-900">
-                      Annual
-                    </p>
-                    <p className="text-3xl font-bold text-gray-900 mt-1">
-                      $249
-                      <span className="text-base font-normal text-gray-500">
-                        /yr
-                      </span>
-                    </p>
-                    <p className="text-sm text-gray-500 mt-1">
-                      ~$20.75/mo
-                    </p>
-                    <Button
-                      fullWidth
-                      className="mt-4"
-                      onClick={() => handleUpgrade("annual")}
-                      loading={loading === "annual"}
-                      disabled={loading !== null}
+                <div className="flex items-center gap-2">
+                  {(["monthly", "annual"] as const).map((cycle) => (
+                    <button
+                      key={cycle}
+                      type="button"
+                      onClick={() => setBillingCycle(cycle)}
+                      className={[
+                        "px-4 py-2 rounded-full text-sm font-medium transition-colors",
+                        billingCycle === cycle
+                          ? "bg-primary-600 text-white"
+                          : "bg-gray-100 text-gray-700 hover:bg-gray-200",
+                      ].join(" ")}
                     >
-                      Subscribe Annually
-                    </Button>
-                  </div>
+                      {cycle === "monthly" ? "Monthly" : "Annual (save 17%)"}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  {PAID_PLANS.map((plan) => {
+                    const price = PLANS[plan].price;
+                    const recommended = plan === TRIAL_PLAN;
+                    return (
+                      <div
+                        key={plan}
+                        className={`border-2 rounded-xl p-5 relative flex flex-col ${
+                          recommended
+                            ? "border-primary-300"
+                            : "border-gray-200 hover:border-primary-300 transition-colors"
+                        }`}
+                      >
+                        {recommended && (
+                          <div className="absolute -top-3 right-4 bg-primary-600 text-white text-xs font-semibold px-3 py-1 rounded-full">
+                            Most popular
+                          </div>
+                        )}
+                        <p className="text-lg font-semibold text-gray-900">
+                          {PLANS[plan].label}
+                        </p>
+                        <p className="text-3xl font-bold text-gray-900 mt-1">
+                          ${billingCycle === "annual" ? price?.annual : price?.monthly}
+                          <span className="text-base font-normal text-gray-500">
+                            {billingCycle === "annual" ? "/yr" : "/mo"}
+                          </span>
+                        </p>
+                        <ul className="mt-4 space-y-2 flex-1">
+                          {getPlanHighlights(plan).map((item) => (
+                            <li key={item} className="text-sm text-gray-600">
+                              {item}
+                            </li>
+                          ))}
+                        </ul>
+                        <Button
+                          fullWidth
+                          className="mt-4"
+                          variant={recommended ? "primary" : "secondary"}
+                          onClick={() => handleUpgrade(plan)}
+                          loading={loading === plan}
+                          disabled={loading !== null}
+                        >
+                          Choose {PLANS[plan].label}
+                        </Button>
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             )}
@@ -237,21 +520,75 @@ export default function SettingsPage() {
         </section>
       )}
 
+      {/* Invoice history */}
+      {isProvider && !isTeammate && customerId && (
+        <section className="mb-8">
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">
+            Invoices
+          </h2>
+          <div className="bg-white rounded-xl border border-gray-200">
+            {invoicesLoading ? (
+              <p className="p-6 text-base text-gray-500">Loading...</p>
+            ) : invoices.length === 0 ? (
+              <p className="p-6 text-base text-gray-500">No invoices yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {invoices.map((invoice) => (
+                  <li
+                    key={invoice.id}
+                    className="flex items-center justify-between gap-4 px-6 py-4"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-base font-medium text-gray-900">
+                        {formatDate(invoice.created)}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {invoice.number ?? invoice.id}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4 shrink-0">
+                      <span className="text-base text-gray-900">
+                        {formatAmount(invoice.amount, invoice.currency)}
+                      </span>
+                      <Badge variant={getInvoiceVariant(invoice.status)}>
+                        {invoice.status ?? "unknown"}
+                      </Badge>
+                      {invoice.hosted_invoice_url && (
+                        <a
+                          href={invoice.hosted_invoice_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm font-medium text-primary-600 hover:text-primary-700"
+                        >
+                          View
+                        </a>
+                      )}
+                      {invoice.invoice_pdf && (
+                        <a
+                          href={invoice.invoice_pdf}
+                          className="text-sm font-medium text-primary-600 hover:text-primary-700"
+                        >
+                          Download
+                        </a>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </section>
+      )}
+
       {/* What's included */}
       {isProvider && (
         <section>
           <h2 className="text-xl font-semibold text-gray-900 mb-4">
-            What&apos;s included in Pro
+            What&apos;s included in {PLANS[effectivePlan].label}
           </h2>
           <div className="bg-white rounded-xl border border-gray-200 p-6">
             <ul className="space-y-3">
-              {[
-                "Unlimited connections with families and providers",
-                "View full profile details and contact info",
-                "Respond to all inquiries and invitations",
-                "Browse and connect with family profiles",
-                "Priority listing in search results",
-              ].map((feature) => (
+              {getPlanHighlights(effectivePlan).map((feature) => (
                 <li
                   key={feature}
                   className="flex items-center gap-3 text-base text-gray-700"
@@ -279,3 +616,56 @@ export default function SettingsPage() {
     </div>
   );
 }
+
+/** Plan features and limits as they read in the portal. */
+function getPlanHighlights(plan: MembershipPlan): string[] {
+  const { features, limits } = PLANS[plan];
+  const highlights = [
+    limits.monthly_responses === null
+      ? "Unlimited connections with families and providers"
+      : `${limits.monthly_responses} connections a month`,
+  ];
+
+  if (features.includes("tour_scheduling")) highlights.push("Tour and consultation scheduling");
+  if (features.includes("featured_placement")) highlights.push("Priority listing in search results");
+
+  highlights.push(
+    limits.locations === null
+      ? "Unlimited locations"
+      : `${limits.locations} ${limits.locations === 1 ? "location" : "locations"}`
+  );
+  highlights.push(
+    `${limits.team_seats} team ${limits.team_seats === 1 ? "seat" : "seats"}`
+  );
+
+  return highlights;
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+/** Stripe amounts are in the currency's smallest unit (cents). */
+function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(amount / 100);
+}
+
+function getInvoiceVariant(status: string | null): "verified" | "pending" | "rejected" | "default" {
+  switch (status) {
+    case "paid":
+      return "verified";
+    case "open":
+      return "pending";
+    case "uncollectible":
+      return "rejected";
+    default:
+      return "default";
+  }
+}
@@ -0,0 +1,327 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import {
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  getAssignableRoles,
+  hasTeamPermission,
+} from "@/lib/team";
+import type { ProfileMember, TeamRole } from "@/lib/types";
+import Badge from "@/components/ui/Badge";
+import Button from "@/components/ui/Button";
+import Input from "@/components/ui/Input";
+
+type TeamMember = ProfileMember & { display_name: string | null; is_you: boolean };
+
+interface TeamData {
+  owner: { display_name: string | null; is_you: boolean };
+  members: TeamMember[];
+  role: TeamRole;
+  seats: { used: number; limit: number | null };
+}
+
+const SELECT_CLASS =
+  "w-full px-4 py-3 rounded-lg border border-gray-300 text-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent min-h-[44px]";
+
+export default function TeamPage() {
+  const { activeProfile, refreshAccountData } = useAuth();
+  const router = useRouter();
+  const [team, setTeam] = useState<TeamData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<TeamRole>("responder");
+  const [inviting, setInviting] = useState(false);
+  const [limitReached, setLimitReached] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const profileId = activeProfile?.id;
+
+  const fetchTeam = useCallback(async () => {
+    if (!profileId || !isSupabaseConfigured()) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/profiles/${profileId}/members`);
+      if (res.ok) {
+        setTeam(await res.json());
+      }
+    } catch (err) {
+      console.error("Failed to fetch team:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  if (activeProfile?.type === "family") {
+    return (
+      <div className="text-center py-16">
+        <p className="text-lg text-gray-600">Teams are available for provider profiles.</p>
+      </div>
+    );
+  }
+
+  const getErrorMessage = (err: unknown) =>
+    err && typeof err === "object" && "message" in err
+      ? (err as { message: string }).message
+      : "Something went wrong";
+
+  const assignable = getAssignableRoles(team?.role ?? null);
+  const canManage = hasTeamPermission(team?.role ?? null, "manage_team");
+  const atLimit =
+    limitReached || (team?.seats.limit != null && team.seats.used >= team.seats.limit);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profileId) return;
+
+    setInviting(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/profiles/${profileId}/members`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, role: inviteRole }),
+      });
+      const data = await res.json();
+      if (res.status === 402) {
+        setLimitReached(true);
+        return;
+      }
+      if (!res.ok) throw new Error(data.error || "Failed to invite");
+
+      setEmail("");
+      await fetchTeam();
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: TeamMember, role: TeamRole) => {
+    setBusyId(member.id);
+    setError("");
+    try {
+      const res = await fetch(`/api/profiles/${profileId}/members/${member.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to update role");
+
+      setTeam((prev) =>
+        prev
+          ? { ...prev, members: prev.members.map((m) => (m.id === member.id ? { ...m, role } : m)) }
+          : prev
+      );
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (member: TeamMember) => {
+    const prompt = member.is_you
+      ? `Leave ${activeProfile?.display_name}? You'll lose access to its inquiries.`
+      : member.accepted_at
+        ? `Remove ${member.display_name || member.invited_email} from the team?`
+        : `Cancel the invite to ${member.invited_email}?`;
+    if (!confirm(prompt)) return;
+
+    setBusyId(member.id);
+    setError("");
+    try {
+      const res = await fetch(`/api/profiles/${profileId}/members/${member.id}`, {
+        method: "DELETE",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to remove teammate");
+
+      if (member.is_you) {
+        await refreshAccountData();
+        router.push("/portal");
+        return;
+      }
+
+      setLimitReached(false);
+      await fetchTeam();
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-16">
+        <div className="animate-spin w-8 h-8 border-4 border-primary-600 border-t-transparent rounded-full mx-auto" />
+      </div>
+    );
+  }
+
+  if (!team) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-lg text-gray-600">Couldn&apos;t load your team. Please try again.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900">Team</h1>
+        <p className="text-lg text-gray-600 mt-1">
+          Share {activeProfile?.display_name} with the people who answer your inquiries.
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 bg-red-50 text-red-700 px-4 py-3 rounded-lg text-base" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-8">
+        {/* Members */}
+        <section>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">Members</h2>
+            <p className="text-sm text-gray-500">
+              {team.seats.used}
+              {team.seats.limit === null ? "" : ` of ${team.seats.limit}`}{" "}
+              {team.seats.limit === 1 ? "seat" : "seats"}
+            </p>
+          </div>
+          <div className="bg-white rounded-xl border border-gray-200">
+            <ul className="divide-y divide-gray-100">
+              <li className="flex items-center justify-between gap-4 px-6 py-4">
+                <p className="text-base font-medium text-gray-900 truncate">
+                  {team.owner.display_name || "Profile owner"}
+                  {team.owner.is_you && (
+                    <span className="ml-2 text-sm font-normal text-gray-400">(you)</span>
+                  )}
+                </p>
+                <Badge>{ROLE_LABELS.owner}</Badge>
+              </li>
+              {team.members.map((member) => {
+                const editable = !member.is_you && assignable.includes(member.role);
+                return (
+                  <li key={member.id} className="flex items-center justify-between gap-4 px-6 py-4 flex-wrap">
+                    <div className="min-w-0">
+                      <p className="text-base font-medium text-gray-900 truncate">
+                        {member.display_name || member.invited_email}
+                        {member.is_you && (
+                          <span className="ml-2 text-sm font-normal text-gray-400">(you)</span>
+                        )}
+                      </p>
+                      {member.display_name && (
+                        <p className="text-sm text-gray-500 truncate">{member.invited_email}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3 shrink-0">
+                      {!member.accepted_at && <Badge variant="pending">Invited</Badge>}
+                      {editable ? (
+                        <select
+                          aria-label={`Role for ${member.display_name || member.invited_email}`}
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member, e.target.value as TeamRole)}
+                          disabled={busyId !== null}
+                          className="px-3 py-2 rounded-lg border border-gray-300 text-base focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                        >
+                          {assignable.map((role) => (
+                            <option key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <Badge>{ROLE_LABELS[member.role]}</Badge>
+                      )}
+                      {(editable || member.is_you) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(member)}
+                          loading={busyId === member.id}
+                          disabled={busyId !== null}
+                        >
+                          {member.is_you ? "Leave" : member.accepted_at ? "Remove" : "Cancel invite"}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </section>
+
+        {/* Invite */}
+        {canManage && (
+          <section>
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Invite a teammate</h2>
+            <div className="bg-white rounded-xl border border-gray-200 p-6">
+              {atLimit ? (
+                <p className="text-base text-gray-600">
+                  Your plan includes {team.seats.limit} {team.seats.limit === 1 ? "seat" : "seats"}.{" "}
+                  <Link href="/portal/settings" className="font-medium text-primary-600 hover:text-primary-700">
+                    Upgrade to add more
+                  </Link>
+                  .
+                </p>
+              ) : (
+                <form onSubmit={handleInvite} className="space-y-4">
+                  <Input
+                    label="Email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    helpText="They'll see the invite in their portal after signing in with this email."
+                    required
+                  />
+                  <div className="space-y-1.5">
+                    <label htmlFor="invite-role" className="block text-base font-medium text-gray-700">
+                      Role
+                    </label>
+                    <select
+                      id="invite-role"
+                      value={inviteRole}
+                      onChange={(e) => setInviteRole(e.target.value as TeamRole)}
+                      className={SELECT_CLASS}
+                    >
+                      {assignable.map((role) => (
+                        <option key={role} value={role}>
+                          {ROLE_LABELS[role]}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-sm text-gray-500">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+                  </div>
+                  <Button type="submit" loading={inviting} disabled={!email.trim()}>
+                    Send invite
+                  </Button>
+                </form>
+              )}
+            </div>
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
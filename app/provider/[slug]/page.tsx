@@ -1,6 +1,6 @@
 import Link from "next/link";
 import { createClient } from "@/lib/supabase/server";
-import type { Profile, OrganizationMetadata, CaregiverMetadata } from "@/lib/types";
+import type { Profile, Organization, OrganizationMetadata, CaregiverMetadata } from "@/lib/types";
 import { getProviderBySlug, mockProviderToProfile, iosProviderToProfile } from "@/lib/mock-providers";
 import type { Provider as IOSProvider } from "@/lib/types/provider";
 import Badge from "@/components/ui/Badge";
@@ -9,10 +9,27 @@ import ImageCarousel from "@/components/providers/ImageCarousel";
 import ExpandableText from "@/components/providers/ExpandableText";
 import CompactProviderCard from "@/components/providers/CompactProviderCard";
 import CareServicesList from "@/components/providers/CareServicesList";
+import CareServicesGrid from "@/components/providers/CareServicesGrid";
 import QASectionV2 from "@/components/providers/QASectionV2";
 import SectionNav from "@/components/providers/SectionNav";
 import type { SectionItem } from "@/components/providers/SectionNav";
 import ClaimBadge from "@/components/providers/ClaimBadge";
+import ReviewCard from "@/components/providers/ReviewCard";
+import WriteReviewButton from "@/components/providers/WriteReviewButton";
+import { formatReviewerName, type PublicReview } from "@/lib/reviews";
+import { sortProviderQuestions } from "@/lib/provider-questions";
+import { withOrganizationBranding } from "@/lib/organizations";
+import { mergeWithSeed } from "@/lib/provider-merge";
+import {
+  AMENITY_OPTIONS,
+  CARE_SERVICE_OPTIONS,
+  formatPriceSummary,
+  formatWeeklyHours,
+  getOptionLabel,
+  getPaymentLabels,
+  getPricingRows,
+} from "@/lib/provider-details";
+import type { ProfilePhoto, PublicProviderQuestion, ReviewStats } from "@/lib/types";
 import {
   getInitials,
   formatCategory,
@@ -32,7 +49,6 @@ interface ExtendedMetadata extends OrganizationMetadata, CaregiverMetadata {
   accepted_payments?: string[];
   pricing_details?: { service: string; rate: string; rateType: string }[];
   staff_screening?: { background_checked: boolean; licensed: boolean; insured: boolean };
-  reviews?: { name: string; rating: number; date: string; comment: string; relationship?: string }[];
   community_score?: number;
   value_score?: number;
   info_score?: number;
@@ -112,6 +128,180 @@ const factIcons: Record<QuickFact["icon"], (props: { className?: string }) => Re
   ),
 };
 
+// ============================================================
+// Profile loading
+// ============================================================
+
+/** Locations fall back to their organization's branding. */
+async function applyBranding(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  profile: Profile
+): Promise<Profile> {
+  if (!profile.organization_id) return profile;
+  const { data: organization } = await supabase
+    .from("organizations")
+    .select("*")
+    .eq("id", profile.organization_id)
+    .single<Organization>();
+  return withOrganizationBranding(profile, organization);
+}
+
+/**
+ * Listings from olera-providers show the seeded data until a claim on
+ * them is approved; from then on the owner's edits override the seed
+ * field by field (see lib/provider-merge.ts).
+ */
+async function getProviderProfile(slug: string): Promise<Profile | null> {
+  const supabase = await createClient();
+
+  const { data: iosProvider } = await supabase
+    .from("olera-providers")
+    .select("*")
+    .eq("provider_id", slug)
+    .eq("deleted", false)
+    .maybeSingle<IOSProvider>();
+
+  if (iosProvider) {
+    const seed = iosProviderToProfile(iosProvider);
+    const { data: owned } = await supabase
+      .from("business_profiles")
+      .select("*")
+      .eq("source_provider_id", slug)
+      .eq("claim_state", "claimed")
+      .eq("is_active", true)
+      .maybeSingle<Profile>();
+    if (!owned) return seed;
+    return mergeWithSeed(seed, await applyBranding(supabase, owned));
+  }
+
+  const { data: owned } = await supabase
+    .from("business_profiles")
+    .select("*")
+    .eq("slug", slug)
+    .in("type", ["organization", "caregiver"])
+    .eq("is_active", true)
+    .maybeSingle<Profile>();
+  if (!owned) return null;
+
+  const profile = await applyBranding(supabase, owned);
+  if (!profile.source_provider_id || profile.claim_state !== "claimed") return profile;
+
+  const { data: source } = await supabase
+    .from("olera-providers")
+    .select("*")
+    .eq("provider_id", profile.source_provider_id)
+    .eq("deleted", false)
+    .maybeSingle<IOSProvider>();
+  return source ? mergeWithSeed(iosProviderToProfile(source), profile) : profile;
+}
+
+// ============================================================
+// Reviews & Q&A
+// ============================================================
+
+/**
+ * Reviews and questions attach to a business profile. Listings from
+ * olera-providers only have one once claimed (source_provider_id = slug).
+ */
+async function getBusinessProfileId(slug: string): Promise<string | null> {
+  try {
+    const supabase = await createClient();
+
+    // The approved owner (one per listing), else the profile seeded for it
+    const { data: linked } = await supabase
+      .from("business_profiles")
+      .select("id, claim_state")
+      .eq("source_provider_id", slug)
+      .eq("is_active", true)
+      .order("created_at", { ascending: true });
+    const claimed = linked?.find((p) => p.claim_state === "claimed") ?? linked?.[0];
+    if (claimed) return claimed.id as string;
+
+    const { data: owned } = await supabase
+      .from("business_profiles")
+      .select("id")
+      .eq("slug", slug)
+      .in("type", ["organization", "caregiver"])
+      .eq("is_active", true)
+      .maybeSingle();
+    return owned?.id ?? null;
+  } catch {
+    // Supabase not configured
+    return null;
+  }
+}
+
+interface ProviderReviews {
+  stats: Pick<ReviewStats, "review_count" | "average_rating"> | null;
+  reviews: PublicReview[];
+}
+
+async function getProviderReviews(providerProfileId: string): Promise<ProviderReviews> {
+  try {
+    const supabase = await createClient();
+
+    const [{ data: stats }, { data: rows }] = await Promise.all([
+      supabase
+        .from("provider_review_stats")
+        .select("review_count, average_rating")
+        .eq("provider_profile_id", providerProfileId)
+        .maybeSingle(),
+      supabase
+        .from("public_reviews")
+        .select("*")
+        .eq("provider_profile_id", providerProfileId)
+        .order("created_at", { ascending: false })
+        .limit(30),
+    ]);
+
+    return {
+      stats,
+      reviews: ((rows as PublicReview[] | null) ?? []).map((review) => ({
+        ...review,
+        reviewer_name: formatReviewerName(review.reviewer_name),
+      })),
+    };
+  } catch {
+    return { stats: null, reviews: [] };
+  }
+}
+
+async function getProviderQuestions(providerProfileId: string): Promise<PublicProviderQuestion[]> {
+  try {
+    const supabase = await createClient();
+    const { data } = await supabase
+      .from("public_provider_questions")
+      .select("*")
+      .eq("provider_profile_id", providerProfileId)
+      .order("created_at", { ascending: false })
+      .limit(50);
+
+    return sortProviderQuestions(
+      ((data as PublicProviderQuestion[] | null) ?? []).map((q) => ({
+        ...q,
+        asker_name: q.asker_name ? formatReviewerName(q.asker_name) : null,
+      }))
+    );
+  } catch {
+    return [];
+  }
+}
+
+async function getProviderPhotos(providerProfileId: string): Promise<ProfilePhoto[]> {
+  try {
+    const supabase = await createClient();
+    const { data } = await supabase
+      .from("profile_photos")
+      .select("*")
+      .eq("profile_id", providerProfileId)
+      .order("position", { ascending: true });
+
+    return (data as ProfilePhoto[] | null) ?? [];
+  } catch {
+    return [];
+  }
+}
+
 // ============================================================
 // Page Component
 // ============================================================
@@ -126,40 +316,14 @@ export default async function ProviderPage({
   // --- Data fetching ---
   let profile: Profile | null = null;
 
-  // 1. Try iOS Supabase (olera-providers table) first
+  // 1. Supabase: olera-providers listing or business profile, merged once claimed
   try {
-    const supabase = await createClient();
-    const { data: iosProvider } = await supabase
-      .from("olera-providers")
-      .select("*")
-      .eq("provider_id", slug)
-      .eq("deleted", false)
-      .single<IOSProvider>();
-
-    if (iosProvider) {
-      profile = iosProviderToProfile(iosProvider);
-    }
+    profile = await getProviderProfile(slug);
   } catch {
-    // iOS Supabase not configured or provider not found
-  }
-
-  // 2. Try web profiles table
-  if (!profile) {
-    try {
-      const supabase = await createClient();
-      const { data } = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("slug", slug)
-        .in("type", ["organization", "caregiver"])
-        .single<Profile>();
-      profile = data;
-    } catch {
-      // Supabase not configured — fall through to mock lookup
-    }
+    // Supabase not configured — fall through to mock lookup
   }
 
-  // 3. Fall back to mock data
+  // 2. Fall back to mock data
   if (!profile) {
     const mockProvider = getProviderBySlug(slug);
     if (mockProvider) {
@@ -185,19 +349,38 @@ export default async function ProviderPage({
 
   // --- Data extraction ---
   const meta = profile.metadata as ExtendedMetadata;
-  const amenities = meta?.amenities || [];
+  const amenities = (meta?.amenities || []).map((a) => getOptionLabel(a, AMENITY_OPTIONS));
+  const services = meta?.services || [];
+  const weeklyHours = formatWeeklyHours(meta?.weekly_hours);
   const priceRange =
+    formatPriceSummary(meta) ||
     meta?.price_range ||
     (meta?.hourly_rate_min && meta?.hourly_rate_max
       ? `$${meta.hourly_rate_min}-${meta.hourly_rate_max}/hr`
       : null);
 
-  const rating = meta?.rating;
-  const reviewCount = meta?.review_count;
-  const images = meta?.images || (profile.image_url ? [profile.image_url] : []);
+  // Star rating comes from Olera reviews once there are any, otherwise
+  // from the listing itself (e.g. Google rating for olera-providers)
+  const businessProfileId = await getBusinessProfileId(slug);
+  const [{ stats: reviewStats, reviews }, questions, photos] = businessProfileId
+    ? await Promise.all([
+        getProviderReviews(businessProfileId),
+        getProviderQuestions(businessProfileId),
+        getProviderPhotos(businessProfileId),
+      ])
+    : [{ stats: null, reviews: [] }, [], []];
+  const reviewCount = reviewStats?.review_count ?? 0;
+  const rating = reviewCount > 0 ? reviewStats?.average_rating : meta?.rating;
+  // An uploaded gallery replaces seeded images whenever the page shows
+  // the owner's profile (not while a claim on the listing is pending)
+  const ownerGallery = photos.length > 0 && profile.id === businessProfileId;
+  const images = ownerGallery
+    ? photos.map((p) => p.url)
+    : meta?.images || (profile.image_url ? [profile.image_url] : []);
+  const captions = ownerGallery ? photos.map((p) => p.caption) : undefined;
   const staff = meta?.staff;
   const badge = meta?.badge;
-  const acceptedPayments = meta?.accepted_payments || [];
+  const acceptedPayments = meta?.accepted_payments || getPaymentLabels(meta);
 
   const categoryLabel = formatCategory(profile.category);
   const locationStr = [profile.city, profile.state].filter(Boolean).join(", ");
@@ -216,9 +399,8 @@ export default async function ProviderPage({
 
   const similarProviders = getSimilarProviders(profile.category, profile.slug, 4);
 
-  const pricingDetails = meta?.pricing_details || [];
+  const pricingDetails = meta?.pricing_details || getPricingRows(meta);
   const staffScreening = meta?.staff_screening;
-  const reviews = meta?.reviews || [];
   const defaultQA = getDefaultQA(profile.category, profile.display_name);
 
   // Olera Score: use community_score if available, otherwise rating
@@ -236,13 +418,13 @@ export default async function ProviderPage({
   // ============================================================
   const sectionItems: SectionItem[] = [];
   if (profile.description) sectionItems.push({ id: "about", label: "Overview" });
-  if (profile.care_types && profile.care_types.length > 0) sectionItems.push({ id: "services", label: "Services" });
+  if ((profile.care_types && profile.care_types.length > 0) || services.length > 0) sectionItems.push({ id: "services", label: "Services" });
   if (pricingDetails.length > 0) sectionItems.push({ id: "pricing", label: "Pricing" });
   if (acceptedPayments.length > 0 || meta?.accepts_medicaid || meta?.accepts_medicare) sectionItems.push({ id: "payment", label: "Payment" });
   if (staffScreening) sectionItems.push({ id: "safety", label: "Safety" });
   if (staff) sectionItems.push({ id: "team", label: "Team" });
-  if (defaultQA.length > 0) sectionItems.push({ id: "qa", label: "Q&A" });
-  if (oleraScore || reviews.length > 0) sectionItems.push({ id: "reviews", label: "Reviews" });
+  if (businessProfileId || questions.length > 0 || defaultQA.length > 0) sectionItems.push({ id: "qa", label: "Q&A" });
+  if (oleraScore || businessProfileId || reviews.length > 0) sectionItems.push({ id: "reviews", label: "Reviews" });
 
   // ============================================================
   // Render
@@ -300,6 +482,13 @@ export default async function ProviderPage({
           )}
           <div className="flex items-center justify-between">
             <h1 className="text-2xl md:text-3xl font-bold text-gray-900 leading-tight flex items-center gap-2">
+              {profile.logo_url && (
+                <img
+                  src={profile.logo_url}
+                  alt=""
+                  className="w-10 h-10 md:w-12 md:h-12 rounded-lg border border-gray-200 bg-white object-contain flex-shrink-0 mr-1"
+                />
+              )}
               {profile.display_name}
               {profile.claim_state === "claimed" && (
                 <svg className="w-6 h-6 text-primary-600 flex-shrink-0" viewBox="0 0 24 24" fill="currentColor">
@@ -340,7 +529,7 @@ export default async function ProviderPage({
               {/* Image Carousel */}
               {images.length > 0 && (
                 <div className="relative">
-                  <ImageCarousel images={images} alt={profile.display_name} className="h-[420px]" />
+                  <ImageCarousel images={images} alt={profile.display_name} captions={captions} className="h-[420px]" />
                   {/* Claim status badge — positioned outside overflow-hidden via outer relative wrapper */}
                   <div className="absolute top-4 left-4 z-20">
                     <ClaimBadge
@@ -410,10 +599,25 @@ export default async function ProviderPage({
             )}
 
             {/* 3. Care Services */}
-            {profile.care_types && profile.care_types.length > 0 && (
+            {((profile.care_types && profile.care_types.length > 0) || services.length > 0) && (
               <div id="services" className="py-10 scroll-mt-20 border-t border-gray-200">
                 <h2 className="text-xl font-semibold text-gray-900 mb-4">Care Services</h2>
-                <CareServicesList services={profile.care_types} initialCount={9} />
+                {profile.care_types && profile.care_types.length > 0 && (
+                  <CareServicesList services={profile.care_types} initialCount={9} />
+                )}
+                {services.length > 0 && (
+                  <div className={profile.care_types?.length ? "mt-8" : undefined}>
+                    <CareServicesGrid services={services} options={CARE_SERVICE_OPTIONS} />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* 3b. Amenities, from the owner's portal profile (seeded listings only have highlights) */}
+            {meta?.amenities && meta.amenities.length > 0 && profile.id === businessProfileId && (
+              <div id="amenities" className="py-10 scroll-mt-20 border-t border-gray-200">
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">Amenities</h2>
+                <CareServicesGrid services={meta.amenities} options={AMENITY_OPTIONS} />
               </div>
             )}
 
@@ -524,11 +728,13 @@ export default async function ProviderPage({
             )}
 
             {/* 9. Q&A */}
-            {defaultQA.length > 0 && (
+            {(businessProfileId || questions.length > 0 || defaultQA.length > 0) && (
               <div id="qa" className="py-10 scroll-mt-20 border-t border-gray-200">
                 <QASectionV2
                   providerName={profile.display_name}
-                  questions={defaultQA}
+                  providerProfileId={businessProfileId}
+                  questions={questions}
+                  fallbackQuestions={defaultQA}
                 />
               </div>
             )}
@@ -625,7 +831,23 @@ export default async function ProviderPage({
                 </div>
 
                 {/* Hours */}
-                {meta?.hours && (
+                {weeklyHours.length > 0 ? (
+                  <div className="pt-4 border-t border-gray-100">
+                    <div className="flex items-start gap-2">
+                      <svg className="w-4 h-4 text-gray-400 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      <dl className="flex-1 space-y-1">
+                        {weeklyHours.map((row) => (
+                          <div key={row.days} className="flex justify-between gap-3 text-sm">
+                            <dt className="text-gray-500">{row.days}</dt>
+                            <dd className="text-gray-600">{row.hours}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    </div>
+                  </div>
+                ) : meta?.hours && (
                   <div className="pt-4 border-t border-gray-100">
                     <div className="flex items-center gap-2">
                       <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -659,7 +881,7 @@ export default async function ProviderPage({
       </div>
 
       {/* ===== Olera Score & Reviews — Full-Width Section ===== */}
-      {(oleraScore || reviews.length > 0) && (
+      {(oleraScore || businessProfileId || reviews.length > 0) && (
         <div id="reviews" className="bg-gradient-to-b from-gray-50 to-white scroll-mt-16">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
 
@@ -704,50 +926,33 @@ export default async function ProviderPage({
                   <h2 className="text-3xl font-bold text-gray-900 tracking-tight">
                     What families are saying
                   </h2>
-                  {reviews.length > 0 && (
-                    <p className="text-base text-gray-500 mt-1">{reviews.length} {reviews.length === 1 ? "family" : "families"} shared their experience</p>
+                  {reviewCount > 0 && (
+                    <p className="text-base text-gray-500 mt-1">
+                      {reviewCount} {reviewCount === 1 ? "family" : "families"} shared their experience
+                      {rating ? ` · ${rating.toFixed(1)} average` : ""}
+                    </p>
                   )}
                 </div>
-                <button className="px-5 py-2.5 text-sm font-semibold text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors">
-                  Write a review
-                </button>
+                {businessProfileId && (
+                  <WriteReviewButton
+                    providerProfileId={businessProfileId}
+                    providerName={profile.display_name}
+                  />
+                )}
               </div>
               {reviews.length > 0 ? (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5">
-                  {reviews.map((review, index) => (
-                    <div key={index} className="bg-white rounded-2xl p-6 border border-gray-100">
-                      {/* Quote mark decoration */}
-                      <svg className="w-8 h-8 text-primary-100 mb-3" fill="currentColor" viewBox="0 0 24 24">
-                        <path d="M14.017 21v-7.391c0-5.704 3.731-9.57 8.983-10.609l.995 2.151c-2.432.917-3.995 3.638-3.995 5.849h4v10H14.017zM0 21v-7.391c0-5.704 3.731-9.57 8.983-10.609L9.978 5.151c-2.432.917-3.995 3.638-3.995 5.849h4v10H0z" />
-                      </svg>
-                      {/* Review text first (Airbnb pattern) */}
-                      <p className="text-base text-gray-600 leading-relaxed mb-5">
-                        {review.comment.length > 200 ? review.comment.slice(0, 200).trimEnd() + "..." : review.comment}
-                      </p>
-                      {/* Reviewer identity at bottom */}
-                      <div className="pt-4 border-t border-gray-100 flex items-center gap-3">
-                        <div className="w-9 h-9 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0">
-                          <span className="text-xs font-semibold text-gray-600">{review.name.split(" ").map(n => n[0]).join("")}</span>
-                        </div>
-                        <div className="flex-1 min-w-0">
-                          <p className="text-sm font-semibold text-gray-900">{review.name}</p>
-                          <div className="flex items-center gap-1.5 mt-0.5">
-                            <div className="flex items-center gap-0.5">
-                              {[1, 2, 3, 4, 5].map((star) => (
-                                <StarIcon key={star} className={`w-3 h-3 ${star <= review.rating ? "text-yellow-400" : "text-gray-200"}`} filled={star <= review.rating} />
-                              ))}
-                            </div>
-                            <span className="text-xs text-gray-400">·</span>
-                            <span className="text-xs text-gray-400">{review.date}</span>
-                          </div>
-                        </div>
-                      </div>
-                    </div>
+                  {reviews.map((review) => (
+                    <ReviewCard key={review.id} review={review} providerName={profile.display_name} />
                   ))}
                 </div>
               ) : (
                 <div className="bg-white rounded-2xl p-10 border border-gray-100 text-center">
-                  <p className="text-base text-gray-500">No reviews yet. Be the first to share your experience.</p>
+                  <p className="text-base text-gray-500">
+                    {businessProfileId
+                      ? "No reviews yet. Families who have connected with this provider can share their experience."
+                      : "Families can leave reviews once this provider joins Olera."}
+                  </p>
                 </div>
               )}
             </div>
@@ -922,7 +922,7 @@ export default function AuthFlowModal({
       if (data.intent === "provider") {
         await supabase.from("memberships").upsert(
           { account_id: accountRow.id, plan: "free", status: "free" },
-          { onConflict: "account_id" }
+          { onConflict: "account_id", ignoreDuplicates: true }
         );
       }
 
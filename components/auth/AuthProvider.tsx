@@ -10,7 +10,14 @@ import {
   type ReactNode,
 } from "react";
 import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
-import type { AuthState, Account, Profile, Membership, DeferredAction } from "@/lib/types";
+import type {
+  AuthState,
+  Account,
+  Profile,
+  Membership,
+  DeferredAction,
+  TeamRole,
+} from "@/lib/types";
 import { setDeferredAction } from "@/lib/deferred-action";
 
 export type AuthModalView = "sign-in" | "sign-up";
@@ -48,6 +55,8 @@ interface AuthContextValue extends AuthState {
   signOut: (onComplete?: () => void) => Promise<void>;
   refreshAccountData: () => Promise<void>;
   switchProfile: (profileId: string) => Promise<void>;
+  /** The signed-in user's role on the active profile; "owner" for their own profiles */
+  activeRole: TeamRole | null;
 }
 
 const AuthContext = createContext<AuthContextValue | null>(null);
@@ -65,6 +74,7 @@ const EMPTY_STATE: AuthState = {
   account: null,
   activeProfile: null,
   profiles: [],
+  teamRoles: {},
   membership: null,
   isLoading: false,
 };
@@ -125,8 +135,8 @@ export default function AuthProvider({ children }: AuthProviderProps) {
       const account = accountResult?.data ?? null;
       if (!account) return null;
 
-      // Step 2: Fetch profiles and membership in parallel
-      const [profilesResult, membershipResult] = await Promise.all([
+      // Step 2: Fetch profiles, team profiles and membership in parallel
+      const [profilesResult, teamResult, membershipResult] = await Promise.all([
         withTimeout(
           supabase
             .from("business_profiles")
@@ -135,6 +145,14 @@ export default function AuthProvider({ children }: AuthProviderProps) {
             .order("created_at", { ascending: true }),
           FETCH_TIMEOUT_MS
         ),
+        withTimeout(
+          supabase
+            .from("profile_members")
+            .select("role, profile:business_profiles(*)")
+            .eq("account_id", account.id)
+            .not("accepted_at", "is", null),
+          FETCH_TIMEOUT_MS
+        ),
         withTimeout(
           supabase
             .from("memberships")
@@ -145,15 +163,37 @@ export default function AuthProvider({ children }: AuthProviderProps) {
         ),
       ]);
 
-      const profiles = (profilesResult?.data as Profile[]) || [];
-      const membership = membershipResult?.data ?? null;
+      // Profiles shared with this account by their owners come after its own
+      const teamRoles: Record<string, TeamRole> = {};
+      const teamProfiles: Profile[] = [];
+      for (const row of (teamResult?.data ?? []) as unknown as { role: TeamRole; profile: Profile | null }[]) {
+        if (!row.profile) continue;
+        teamRoles[row.profile.id] = row.role;
+        teamProfiles.push(row.profile);
+      }
+
+      const profiles = [...((profilesResult?.data as Profile[]) || []), ...teamProfiles];
+      let membership = membershipResult?.data ?? null;
 
       let activeProfile: Profile | null = null;
       if (account.active_profile_id) {
         activeProfile = profiles.find((p) => p.id === account.active_profile_id) || null;
       }
 
-      return { account, activeProfile, profiles, membership };
+      // Working on a teammate's profile: their plan applies
+      if (activeProfile?.account_id && activeProfile.account_id !== account.id) {
+        const ownerResult = await withTimeout(
+          supabase
+            .from("memberships")
+            .select("*")
+            .eq("account_id", activeProfile.account_id)
+            .maybeSingle<Membership>(),
+          FETCH_TIMEOUT_MS
+        );
+        membership = ownerResult?.data ?? null;
+      }
+
+      return { account, activeProfile, profiles, teamRoles, membership };
     },
     [configured]
   );
@@ -184,6 +224,7 @@ export default function AuthProvider({ children }: AuthProviderProps) {
           account: data?.account ?? null,
           activeProfile: data?.activeProfile ?? null,
           profiles: data?.profiles ?? [],
+          teamRoles: data?.teamRoles ?? {},
           membership: data?.membership ?? null,
           isLoading: false,
         });
@@ -219,6 +260,7 @@ export default function AuthProvider({ children }: AuthProviderProps) {
           account: data?.account ?? null,
           activeProfile: data?.activeProfile ?? null,
           profiles: data?.profiles ?? [],
+          teamRoles: data?.teamRoles ?? {},
           membership: data?.membership ?? null,
           isLoading: false,
         });
@@ -239,6 +281,7 @@ export default function AuthProvider({ children }: AuthProviderProps) {
             account: data.account,
             activeProfile: data.activeProfile,
             profiles: data.profiles,
+            teamRoles: data.teamRoles,
             membership: data.membership,
             isLoading: false,
           });
@@ -325,6 +368,7 @@ export default function AuthProvider({ children }: AuthProviderProps) {
         account: data.account,
         activeProfile: data.activeProfile,
         profiles: data.profiles,
+        teamRoles: data.teamRoles,
         membership: data.membership,
       }));
     }
@@ -366,10 +410,17 @@ export default function AuthProvider({ children }: AuthProviderProps) {
     [configured, refreshAccountData]
   );
 
+  const activeRole: TeamRole | null = !state.activeProfile
+    ? null
+    : state.activeProfile.account_id === state.account?.id
+    ? "owner"
+    : state.teamRoles[state.activeProfile.id] ?? null;
+
   return (
     <AuthContext.Provider
       value={{
         ...state,
+        activeRole,
         openAuthModal,
         openAuthFlow,
         closeAuthModal,
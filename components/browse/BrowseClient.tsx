@@ -2,17 +2,20 @@
 
 import { useState, useEffect, useRef, useMemo, useCallback } from "react";
 import { useCitySearch } from "@/hooks/use-city-search";
+import { resolveLocation } from "@/lib/us-city-search";
 import { useRouter } from "next/navigation";
 import ProviderCard from "@/components/providers/ProviderCard";
 import type { Provider as ProviderCardType } from "@/components/providers/ProviderCard";
 import { useNavbar } from "@/components/shared/NavbarContext";
-import { createClient } from "@/lib/supabase/client";
 import {
-  type Provider as SupabaseProvider,
-  PROVIDERS_TABLE,
-  toCardFormat,
-  type ProviderCardData,
-} from "@/lib/types/provider";
+  SEARCH_RADIUS_OPTIONS,
+  toSearchQueryString,
+  type ProviderSearchFacets,
+  type ProviderSearchResponse,
+  type ProviderSearchResult,
+  type ProviderSearchSort,
+} from "@/lib/provider-search";
+import { PAYMENT_OPTIONS, isPaymentOption } from "@/lib/provider-details";
 
 // Location suggestions moved to useCitySearch hook for comprehensive US city search
 
@@ -28,11 +31,7 @@ const careTypes = [
 
 const paymentTypeOptions = [
   { value: "any", label: "Any Payment Type" },
-  { value: "Medicare", label: "Medicare" },
-  { value: "Medicaid", label: "Medicaid" },
-  { value: "Private Pay", label: "Private Pay" },
-  { value: "Long-term Insurance", label: "Long-term Care Insurance" },
-  { value: "Veterans Benefits", label: "VA Benefits" },
+  ...PAYMENT_OPTIONS.map((o) => ({ value: o.id, label: o.label })),
 ];
 
 const ratingOptions = [
@@ -43,24 +42,14 @@ const ratingOptions = [
   { value: "3.0", label: "3.0+ Stars" },
 ];
 
-const sortOptions = [
+const sortOptions: { value: ProviderSearchSort; label: string }[] = [
   { value: "recommended", label: "Recommended" },
   { value: "rating", label: "Highest Rated" },
-  { value: "reviews", label: "Most Reviewed" },
   { value: "price-low", label: "Price: Low to High" },
   { value: "price-high", label: "Price: High to Low" },
+  { value: "distance", label: "Nearest" },
 ];
 
-// Map URL care type params to Supabase provider_category values
-const CARE_TYPE_TO_SUPABASE: Record<string, string> = {
-  "home-care": "Home Care (Non-medical)",
-  "home-health": "Home Health Care",
-  "assisted-living": "Assisted Living",
-  "memory-care": "Memory Care",
-  "nursing-homes": "Nursing Home",
-  "independent-living": "Independent Living",
-};
-
 // Helper to get care type label from ID
 function getCareTypeLabel(id: string): string {
   const ct = careTypes.find((c) => c.id === id);
@@ -69,14 +58,6 @@ function getCareTypeLabel(id: string): string {
 
 type ViewMode = "carousel" | "grid" | "map";
 
-// Helper function to parse price for sorting
-function parsePrice(price: string): number {
-  const numericValue = parseInt(price.replace(/[^0-9]/g, ""));
-  if (price.includes("/hr")) return numericValue * 160;
-  if (price.includes("/day")) return numericValue * 30;
-  return numericValue;
-}
-
 // Carousel Section Component
 function CarouselSection({
   title,
@@ -136,9 +117,13 @@ function CarouselSection({
 interface BrowseClientProps {
   careType: string;
   searchQuery: string;
+  /** Initial "within N miles" radius from the URL. */
+  radius?: string;
+  /** Initial payment type (a PAYMENT_OPTIONS id) from the URL. */
+  payment?: string;
 }
 
-export default function BrowseClient({ careType, searchQuery }: BrowseClientProps) {
+export default function BrowseClient({ careType, searchQuery, radius, payment }: BrowseClientProps) {
   const router = useRouter();
   const { visible: navbarVisible, enableAutoHide, disableAutoHide, setForceHidden } = useNavbar();
   const isAllTypes = !careType || careType === "all";
@@ -155,8 +140,13 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
   const [searchLocation, setSearchLocation] = useState(initialLocation);
   const [locationInput, setLocationInput] = useState(initialLocation);
   const [selectedRating, setSelectedRating] = useState("any");
-  const [selectedPayment, setSelectedPayment] = useState("any");
-  const [sortBy, setSortBy] = useState("recommended");
+  const [selectedPayment, setSelectedPayment] = useState(
+    payment && isPaymentOption(payment) ? payment : "any"
+  );
+  const [sortBy, setSortBy] = useState<ProviderSearchSort>("recommended");
+  const [selectedRadius, setSelectedRadius] = useState(
+    radius && SEARCH_RADIUS_OPTIONS.includes(Number(radius)) ? radius : "any"
+  );
   const [viewMode, setViewMode] = useState<ViewMode>("carousel");
   const [hoveredProviderId, setHoveredProviderId] = useState<string | null>(null);
 
@@ -170,60 +160,92 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
   // Geolocation state
   const [isGeolocating, setIsGeolocating] = useState(false);
 
-  // Provider data from Supabase
-  const [providers, setProviders] = useState<ProviderCardData[]>([]);
+  // Provider data from /api/search/providers
+  const [providers, setProviders] = useState<ProviderSearchResult[]>([]);
+  const [totalResults, setTotalResults] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [facets, setFacets] = useState<ProviderSearchFacets | null>(null);
   const [isLoadingProviders, setIsLoadingProviders] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+
+  // Coordinates for the current location (city, "City, ST" or ZIP),
+  // used for distances, "Nearest" sorting and radius search
+  const [origin, setOrigin] = useState<{ location: string; lat?: number; lng?: number } | null>(null);
 
-  // Fetch providers from Supabase
+  useEffect(() => {
+    if (!searchLocation) return;
+    let cancelled = false;
+    resolveLocation(searchLocation).then((city) => {
+      if (!cancelled) setOrigin({ location: searchLocation, lat: city?.lat, lng: city?.lng });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchLocation]);
+
+  const originReady = !searchLocation || origin?.location === searchLocation;
+  const originLat = originReady ? origin?.lat : undefined;
+  const originLng = originReady ? origin?.lng : undefined;
+  const hasCoords = originLat !== undefined && originLng !== undefined;
+  const radiusActive = hasCoords && selectedRadius !== "any";
+  const visibleSortOptions = sortOptions.filter((o) => o.value !== "distance" || hasCoords);
+
+  const searchParams = useMemo(
+    () => ({
+      careType,
+      // A radius search replaces the text match on city name
+      location: radiusActive ? undefined : searchLocation,
+      minRating: selectedRating !== "any" ? parseFloat(selectedRating) : undefined,
+      sort: sortBy === "distance" && !hasCoords ? "recommended" : sortBy,
+      lat: originLat,
+      lng: originLng,
+      radius: radiusActive ? Number(selectedRadius) : undefined,
+      payment: isPaymentOption(selectedPayment) ? selectedPayment : undefined,
+    }),
+    [careType, searchLocation, selectedRating, sortBy, selectedRadius, selectedPayment, radiusActive, hasCoords, originLat, originLng]
+  );
+
+  // Fetch the first page (with facets) whenever filters change
   const fetchProviders = useCallback(async () => {
+    if (!originReady) return;
     setIsLoadingProviders(true);
     try {
-      const supabase = createClient();
-      let query = supabase
-        .from(PROVIDERS_TABLE)
-        .select("*")
-        .eq("deleted", false);
-
-      // Apply care type filter
-      if (careType && careType !== "all") {
-        const supabaseCategory = CARE_TYPE_TO_SUPABASE[careType];
-        if (supabaseCategory) {
-          query = query.ilike("provider_category", `%${supabaseCategory}%`);
-        }
-      }
-
-      // Apply location filter
-      if (searchLocation) {
-        const trimmed = searchLocation.trim();
-        const cityStateMatch = trimmed.match(/^(.+),\s*([A-Z]{2})$/i);
-        if (cityStateMatch) {
-          const city = cityStateMatch[1].trim();
-          const state = cityStateMatch[2].toUpperCase();
-          query = query.ilike("city", `%${city}%`).eq("state", state);
-        } else if (/^[A-Z]{2}$/i.test(trimmed)) {
-          query = query.eq("state", trimmed.toUpperCase());
-        } else {
-          query = query.or(`city.ilike.%${trimmed}%,provider_name.ilike.%${trimmed}%`);
-        }
-      }
-
-      // Order by rating and limit
-      const { data, error } = await query
-        .order("google_rating", { ascending: false })
-        .limit(100);
-
-      if (error) {
-        console.error("Browse fetch error:", error.message);
-        setProviders([]);
-      } else {
-        setProviders((data as SupabaseProvider[]).map(toCardFormat));
-      }
+      const res = await fetch(`/api/search/providers?${toSearchQueryString(searchParams)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Search failed");
+
+      const page = data as ProviderSearchResponse;
+      setProviders(page.results);
+      setTotalResults(page.total);
+      setNextCursor(page.nextCursor);
+      setFacets(page.facets);
     } catch (err) {
-      console.error("Browse page error:", err);
+      console.error("Browse fetch error:", err);
       setProviders([]);
+      setTotalResults(0);
+      setNextCursor(null);
     }
     setIsLoadingProviders(false);
-  }, [careType, searchLocation]);
+  }, [searchParams, originReady]);
+
+  const loadMore = async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const res = await fetch(
+        `/api/search/providers?${toSearchQueryString({ ...searchParams, cursor: nextCursor, facets: false })}`
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Search failed");
+
+      const page = data as ProviderSearchResponse;
+      setProviders((prev) => [...prev, ...page.results]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error("Browse load more error:", err);
+    }
+    setIsLoadingMore(false);
+  };
 
   // Fetch on mount and when filters change
   useEffect(() => {
@@ -349,96 +371,75 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
     return () => document.removeEventListener("click", handleClickOutside);
   }, []);
 
-  // Filter and sort providers (Supabase already filtered by care type and location)
-  const filteredProviders = useMemo(() => {
-    let result = [...providers];
-
-    // Apply rating filter (client-side)
-    if (selectedRating !== "any") {
-      const minRating = parseFloat(selectedRating);
-      result = result.filter((p) => p.rating >= minRating);
-    }
-
-    // Apply payment filter (client-side)
-    if (selectedPayment !== "any") {
-      result = result.filter((p) => p.acceptedPayments?.includes(selectedPayment));
-    }
+  // Per-care-type counts for the current location/rating
+  const facetCount = (typeId: string): number | null => {
+    if (!facets) return null;
+    if (typeId === "all") return null;
+    return facets.careTypes.find((c) => c.id === typeId)?.count ?? 0;
+  };
 
-    // Apply sorting
-    switch (sortBy) {
-      case "rating":
-        result.sort((a, b) => b.rating - a.rating);
-        break;
-      case "price-low":
-        result.sort((a, b) => parsePrice(a.priceRange) - parsePrice(b.priceRange));
-        break;
-      case "price-high":
-        result.sort((a, b) => parsePrice(b.priceRange) - parsePrice(a.priceRange));
-        break;
-      case "reviews":
-        result.sort((a, b) => (b.reviewCount || 0) - (a.reviewCount || 0));
-        break;
-      default:
-        // Recommended - mix of rating and reviews
-        result.sort((a, b) => b.rating * (b.reviewCount || 1) - a.rating * (a.reviewCount || 1));
-    }
+  // Per-payment-type counts for the other filters
+  const paymentFacetCount = (paymentId: string): number | null => {
+    if (!facets) return null;
+    if (paymentId === "any") return null;
+    return facets.payments.find((p) => p.id === paymentId)?.count ?? 0;
+  };
 
-    return result;
-  }, [providers, selectedRating, selectedPayment, sortBy]);
+  const selectedPaymentLabel = paymentTypeOptions.find((o) => o.value === selectedPayment)?.label;
 
   // Categorized providers for carousel view - override badges to match section
   const topRatedProviders = useMemo(
-    () => [...filteredProviders]
+    () => [...providers]
       .sort((a, b) => b.rating - a.rating)
       .slice(0, 8)
       .map((p) => ({ ...p, badge: "Top Rated" })),
-    [filteredProviders]
+    [providers]
   );
 
   const affordableProviders = useMemo(
-    () => filteredProviders
+    () => providers
       .filter((p) => p.acceptedPayments?.includes("Medicaid"))
       .slice(0, 8)
       .map((p) => ({ ...p, badge: undefined })), // No badge for affordable section
-    [filteredProviders]
+    [providers]
   );
 
   const highlyReviewedProviders = useMemo(
     () =>
-      [...filteredProviders]
+      [...providers]
         .sort((a, b) => (b.reviewCount || 0) - (a.reviewCount || 0))
         .slice(0, 8)
         .map((p) => ({ ...p, badge: "Top Rated" })),
-    [filteredProviders]
+    [providers]
   );
 
   const featuredProviders = useMemo(
-    () => filteredProviders
+    () => providers
       .filter((p) => p.verified)
       .slice(0, 8)
       .map((p) => ({ ...p, badge: "Featured" })),
-    [filteredProviders]
+    [providers]
   );
 
   // For "all" view, group by type - keep original badges for category sections
   const homeCareProviders = useMemo(
-    () => filteredProviders.filter((p) => p.primaryCategory === "Home Care").slice(0, 8),
-    [filteredProviders]
+    () => providers.filter((p) => p.primaryCategory === "Home Care").slice(0, 8),
+    [providers]
   );
 
   const assistedLivingProviders = useMemo(
-    () => filteredProviders.filter((p) => p.primaryCategory === "Assisted Living").slice(0, 8),
-    [filteredProviders]
+    () => providers.filter((p) => p.primaryCategory === "Assisted Living").slice(0, 8),
+    [providers]
   );
 
   const memoryCareProviders = useMemo(
-    () => filteredProviders.filter((p) => p.primaryCategory === "Memory Care").slice(0, 8),
-    [filteredProviders]
+    () => providers.filter((p) => p.primaryCategory === "Memory Care").slice(0, 8),
+    [providers]
   );
 
   const nursingHomeProviders = useMemo(
-    () => filteredProviders.filter((p) => p.primaryCategory === "Nursing Home").slice(0, 8),
-    [filteredProviders]
+    () => providers.filter((p) => p.primaryCategory === "Nursing Home").slice(0, 8),
+    [providers]
   );
 
   const isMapView = viewMode === "map";
@@ -446,6 +447,7 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
   // Check if any filters are active
   const hasActiveFilters =
     selectedRating !== "any" ||
+    selectedRadius !== "any" ||
     selectedPayment !== "any" ||
     sortBy !== "recommended";
 
@@ -454,6 +456,7 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
     setSearchLocation(DEFAULT_LOCATION);
     setLocationInput(DEFAULT_LOCATION);
     setSelectedRating("any");
+    setSelectedRadius("any");
     setSelectedPayment("any");
     setSortBy("recommended");
   };
@@ -501,7 +504,11 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
                     </svg>
                   )}
-                  <span className="truncate">{isGeolocating ? "Detecting..." : (searchLocation || "Enter location")}</span>
+                  <span className="truncate">
+                    {isGeolocating
+                      ? "Detecting..."
+                      : `${searchLocation || "Enter location"}${radiusActive ? ` · ${selectedRadius} mi` : ""}`}
+                  </span>
                 </div>
                 <svg className="w-4 h-4 text-gray-400 ml-2 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
@@ -552,6 +559,27 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
                     </button>
                   </div>
 
+                  {/* Radius */}
+                  <div className="px-3 pb-2">
+                    <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">Distance</span>
+                    <div className="flex flex-wrap gap-1.5 mt-1.5">
+                      {["any", ...SEARCH_RADIUS_OPTIONS.map(String)].map((value) => (
+                        <button
+                          key={value}
+                          onClick={() => setSelectedRadius(value)}
+                          disabled={value !== "any" && originReady && !hasCoords}
+                          className={`h-7 px-2.5 rounded-full text-xs font-medium border transition-colors disabled:opacity-40 ${
+                            selectedRadius === value
+                              ? "bg-gray-900 text-white border-gray-900"
+                              : "bg-white text-gray-700 border-gray-200 hover:border-gray-400"
+                          }`}
+                        >
+                          {value === "any" ? "Any" : `${value} mi`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
                   {/* Divider */}
                   <div className="flex items-center gap-3 px-3 py-1">
                     <div className="flex-1 h-px bg-gray-200" />
@@ -647,7 +675,10 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
                         ) : (
                           <span className="w-5" />
                         )}
-                        {type.label}
+                        <span className="flex-1">{type.label}</span>
+                        {facetCount(type.id) !== null && (
+                          <span className="text-sm text-gray-400">{facetCount(type.id)?.toLocaleString()}</span>
+                        )}
                       </button>
                     );
                   })}
@@ -727,7 +758,7 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
                     : "bg-white border border-gray-300 text-gray-900 hover:border-gray-400"
                 }`}
               >
-                <span className="truncate">{selectedPayment === "any" ? "Payments" : selectedPayment}</span>
+                <span className="truncate">{selectedPayment === "any" ? "Payments" : selectedPaymentLabel}</span>
                 <svg
                   className={`w-4 h-4 ml-2 flex-shrink-0 transition-transform ${showPaymentDropdown ? "rotate-180" : ""} ${selectedPayment !== "any" ? "text-gray-900" : "text-gray-400"}`}
                   fill="none"
@@ -758,7 +789,10 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
                       ) : (
                         <span className="w-5" />
                       )}
-                      {option.label}
+                      <span className="flex-1">{option.label}</span>
+                      {paymentFacetCount(option.value) !== null && (
+                        <span className="text-sm text-gray-400">{paymentFacetCount(option.value)?.toLocaleString()}</span>
+                      )}
                     </button>
                   ))}
                 </div>
@@ -797,7 +831,7 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
 
               {showSortDropdown && (
                 <div className="absolute left-0 top-[calc(100%+6px)] w-52 bg-white rounded-xl shadow-xl border border-gray-100 py-1 z-[100]">
-                  {sortOptions.map((option) => (
+                  {visibleSortOptions.map((option) => (
                     <button
                       key={option.value}
                       onClick={() => {
@@ -898,7 +932,7 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
                 {careTypeLabel} in {searchLocation}
               </h1>
               <span className="px-3 py-1 bg-gray-100 rounded-full text-sm font-medium text-gray-900">
-                {filteredProviders.length} results
+                {totalResults.toLocaleString()} results
               </span>
             </div>
 
@@ -930,7 +964,7 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
                   scrollId="nursing-homes-scroll"
                 />
               </>
-            ) : filteredProviders.length > 0 ? (
+            ) : providers.length > 0 ? (
               <>
                 <CarouselSection
                   title={`Top Rated ${careTypeLabel} in ${searchLocation}`}
@@ -971,22 +1005,28 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
                 {careTypeLabel} in {searchLocation}
               </h1>
               <span className="px-3 py-1 bg-gray-100 rounded-full text-sm font-medium text-gray-900">
-                {filteredProviders.length} results
+                {totalResults.toLocaleString()} results
               </span>
             </div>
 
-            {filteredProviders.length > 0 ? (
+            {providers.length > 0 ? (
               <>
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-5">
-                  {filteredProviders.map((provider, index) => (
+                  {providers.map((provider, index) => (
                     <ProviderCard key={`${provider.id}-${index}`} provider={provider} />
                   ))}
                 </div>
-                <div className="py-8 text-center">
-                  <button className="px-8 py-3 border border-gray-300 rounded-lg font-medium text-gray-900 hover:border-gray-400 hover:bg-gray-50 transition-all">
-                    Load more providers
-                  </button>
-                </div>
+                {nextCursor && (
+                  <div className="py-8 text-center">
+                    <button
+                      onClick={loadMore}
+                      disabled={isLoadingMore}
+                      className="px-8 py-3 border border-gray-300 rounded-lg font-medium text-gray-900 hover:border-gray-400 hover:bg-gray-50 transition-all disabled:opacity-60"
+                    >
+                      {isLoadingMore ? "Loading..." : "Load more providers"}
+                    </button>
+                  </div>
+                )}
               </>
             ) : (
               <EmptyState onClear={clearFilters} />
@@ -1008,14 +1048,14 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
                     {careTypeLabel} in {searchLocation}
                   </h1>
                   <span className="px-3 py-1 bg-gray-100 rounded-full text-sm font-medium text-gray-900">
-                    {filteredProviders.length} results
+                    {totalResults.toLocaleString()} results
                   </span>
                 </div>
 
-                {filteredProviders.length > 0 ? (
+                {providers.length > 0 ? (
                   <>
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-5">
-                      {filteredProviders.map((provider, index) => (
+                      {providers.map((provider, index) => (
                         <div
                           key={`${provider.id}-${index}`}
                           onMouseEnter={() => setHoveredProviderId(provider.id)}
@@ -1025,11 +1065,17 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
                         </div>
                       ))}
                     </div>
-                    <div className="py-6 text-center">
-                      <button className="px-8 py-3 border border-gray-300 rounded-lg font-medium text-gray-900 hover:border-gray-400 hover:bg-gray-50 transition-all bg-white">
-                        Load more providers
-                      </button>
-                    </div>
+                    {nextCursor && (
+                      <div className="py-6 text-center">
+                        <button
+                          onClick={loadMore}
+                          disabled={isLoadingMore}
+                          className="px-8 py-3 border border-gray-300 rounded-lg font-medium text-gray-900 hover:border-gray-400 hover:bg-gray-50 transition-all bg-white disabled:opacity-60"
+                        >
+                          {isLoadingMore ? "Loading..." : "Load more providers"}
+                        </button>
+                      </div>
+                    )}
                   </>
                 ) : (
                   <EmptyState onClear={clearFilters} />
@@ -1048,7 +1094,7 @@ export default function BrowseClient({ careType, searchQuery }: BrowseClientProp
 
                 {/* Mock Map Markers */}
                 <div className="absolute inset-0 pointer-events-none">
-                  {filteredProviders.slice(0, 15).map((provider, index) => (
+                  {providers.slice(0, 15).map((provider, index) => (
                     <div
                       key={`marker-${provider.id}-${index}`}
                       className={`absolute transform -translate-x-1/2 -translate-y-1/2 pointer-events-auto cursor-pointer transition-all duration-200 ${
@@ -2,12 +2,15 @@
 
 import { useRouter, useSearchParams } from "next/navigation";
 import { useState, useEffect, useRef } from "react";
+import { SEARCH_RADIUS_OPTIONS } from "@/lib/provider-search";
 
 interface BrowseFiltersProps {
   careTypes: string[];
   currentQuery: string;
   currentType: string;
   currentState: string;
+  /** "Within N miles" of the searched city or ZIP. */
+  currentRadius?: string;
 }
 
 export default function BrowseFilters({
@@ -15,6 +18,7 @@ export default function BrowseFilters({
   currentQuery,
   currentType,
   currentState,
+  currentRadius = "",
 }: BrowseFiltersProps) {
   const router = useRouter();
   const searchParams = useSearchParams();
@@ -144,6 +148,21 @@ export default function BrowseFilters({
         )}
       </div>
 
+      {/* Radius - applies to the city or ZIP in the search box */}
+      <select
+        value={currentRadius}
+        onChange={(e) => updateFilters({ radius: e.target.value })}
+        className="w-full sm:w-40 px-4 py-2.5 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent text-sm text-gray-700"
+        aria-label="Distance"
+      >
+        <option value="">Any distance</option>
+        {SEARCH_RADIUS_OPTIONS.map((miles) => (
+          <option key={miles} value={String(miles)}>
+            Within {miles} miles
+          </option>
+        ))}
+      </select>
+
       {/* State Filter (simple input for now) */}
       <input
         type="text"
@@ -1,36 +1,194 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { ForumComment } from "@/types/forum";
-import ForumCommentV2 from "./ForumCommentV2";
+import type { PublicForumComment } from "@/lib/types";
+import { MAX_COMMENT_LENGTH, toForumComment } from "@/lib/forum";
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
+import { useAuth } from "@/components/auth/AuthProvider";
+import ForumCommentV2, { type CommentLikes } from "./ForumCommentV2";
 
 interface CommentThreadProps {
   comments: ForumComment[];
   postId: string;
+  /** Locked discussions show their comments but take no new ones. */
+  isLocked?: boolean;
 }
 
 type SortType = "relevant" | "recent";
 
-export default function CommentThread({ comments }: CommentThreadProps) {
+export default function CommentThread({ comments: initialComments, postId, isLocked = false }: CommentThreadProps) {
+  const { user, activeProfile, openAuthFlow } = useAuth();
+  const [comments, setComments] = useState(initialComments);
   const [commentText, setCommentText] = useState("");
   const [isAnonymous, setIsAnonymous] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
   const [sortBy, setSortBy] = useState<SortType>("relevant");
+  const [error, setError] = useState("");
+  const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
+  const [likeCounts, setLikeCounts] = useState<Record<string, number>>({});
+  const [acceptedId, setAcceptedId] = useState<string | null>(
+    initialComments.find((c) => c.isAcceptedAnswer)?.id ?? null
+  );
+  const [isPostAuthor, setIsPostAuthor] = useState(false);
+  const [ownCommentIds, setOwnCommentIds] = useState<Set<string>>(new Set());
+
+  // Which comments the signed-in user already liked
+  useEffect(() => {
+    const ids = initialComments.flatMap((c) => [c.id, ...(c.replies ?? []).map((r) => r.id)]);
+    if (!user || ids.length === 0 || !isSupabaseConfigured()) return;
+
+    const fetchLikes = async () => {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from("forum_comment_likes")
+        .select("comment_id")
+        .eq("user_id", user.id)
+        .in("comment_id", ids);
+      setLikedIds(new Set((data ?? []).map((l) => l.comment_id as string)));
+    };
+
+    fetchLikes();
+  }, [user, initialComments]);
+
+  // Whether the signed-in user started this discussion, and which
+  // comments are theirs. RLS only returns raw rows to their author.
+  useEffect(() => {
+    if (!user || !isSupabaseConfigured()) {
+      setIsPostAuthor(false);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchOwnership = async () => {
+      const supabase = createClient();
+      const [{ data: post }, { data: own }] = await Promise.all([
+        supabase.from("forum_posts").select("id").eq("id", postId).maybeSingle(),
+        supabase.from("forum_comments").select("id").eq("post_id", postId),
+      ]);
+      if (cancelled) return;
+      setIsPostAuthor(!!post);
+      setOwnCommentIds(new Set((own ?? []).map((c) => c.id as string)));
+    };
+
+    fetchOwnership();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, postId]);
+
+  const toggleAccepted = async (comment: ForumComment) => {
+    const previous = acceptedId;
+    const accept = previous !== comment.id;
+
+    // Optimistic update, rolled back on failure
+    setAcceptedId(accept ? comment.id : null);
+    try {
+      const res = await fetch(`/api/community/comments/${comment.id}/accept`, {
+        method: accept ? "POST" : "DELETE",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setAcceptedId(data.accepted_comment_id);
+    } catch {
+      setAcceptedId(previous);
+    }
+  };
+
+  const toggleLike = async (comment: ForumComment) => {
+    if (!user) {
+      openAuthFlow({ defaultToSignIn: true });
+      return;
+    }
+
+    const liked = likedIds.has(comment.id);
+    const current = likeCounts[comment.id] ?? comment.likeCount;
+
+    // Optimistic update, rolled back on failure
+    const apply = (isLiked: boolean, count: number) => {
+      setLikedIds((prev) => {
+        const next = new Set(prev);
+        if (isLiked) next.add(comment.id);
+        else next.delete(comment.id);
+        return next;
+      });
+      setLikeCounts((prev) => ({ ...prev, [comment.id]: count }));
+    };
+
+    apply(!liked, Math.max(0, current + (liked ? -1 : 1)));
+    try {
+      const res = await fetch(`/api/community/comments/${comment.id}/like`, {
+        method: liked ? "DELETE" : "POST",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setLikeCounts((prev) => ({ ...prev, [comment.id]: data.like_count }));
+    } catch {
+      apply(liked, current);
+    }
+  };
+
+  const likes: CommentLikes = { likedIds, counts: likeCounts, toggle: toggleLike };
+
+  /** Posts a comment or reply and adds it to the thread. Throws on failure. */
+  const postComment = async (content: string, anonymous: boolean, parentId?: string) => {
+    const res = await fetch(`/api/community/posts/${postId}/comments`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        author_profile_id: activeProfile!.id,
+        content,
+        parent_id: parentId,
+        is_anonymous: anonymous,
+      }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to post comment");
+
+    const created = toForumComment(data.comment as PublicForumComment);
+    setOwnCommentIds((prev) => new Set(prev).add(created.id));
+    setComments((prev) =>
+      parentId
+        ? prev.map((c) => (c.id === parentId ? { ...c, replies: [...(c.replies ?? []), created] } : c))
+        : [...prev, { ...created, replies: [] }]
+    );
+  };
+
+  const requireProfile = () => {
+    if (user && activeProfile) return true;
+    openAuthFlow({ defaultToSignIn: true });
+    return false;
+  };
 
   const handleSubmit = async () => {
-    if (!commentText.trim()) return;
+    if (!commentText.trim() || !requireProfile()) return;
     setIsSubmitting(true);
-    setTimeout(() => {
+    setError("");
+    try {
+      await postComment(commentText.trim(), isAnonymous);
       setCommentText("");
-      setIsSubmitting(false);
+      setIsAnonymous(false);
       setIsFocused(false);
-    }, 500);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
+  const handleReply = async (parentId: string, content: string, anonymous: boolean) => {
+    if (!requireProfile()) return;
+    await postComment(content, anonymous, parentId);
+  };
+
+  // The accepted answer always leads
   const sortedComments = [...comments].sort((a, b) => {
+    if (a.id === acceptedId || b.id === acceptedId) {
+      return a.id === acceptedId ? -1 : 1;
+    }
     if (sortBy === "relevant") {
-      return b.likeCount - a.likeCount;
+      return (likeCounts[b.id] ?? b.likeCount) - (likeCounts[a.id] ?? a.likeCount);
     }
     return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
   });
@@ -38,75 +196,90 @@ export default function CommentThread({ comments }: CommentThreadProps) {
   return (
     <section>
       {/* Comment Input - Medium Style */}
-      <div className="mb-6">
-        <div className="flex items-start gap-3">
-          {/* User Avatar */}
-          <div className="w-9 h-9 rounded-full bg-primary-100 flex items-center justify-center flex-shrink-0">
-            <span className="text-primary-600 font-medium text-sm">Y</span>
-          </div>
+      {isLocked ? (
+        <div className="mb-6 flex items-center gap-2 px-4 py-3 bg-gray-50 rounded-lg text-sm text-gray-500">
+          <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          This discussion is locked. New responses are turned off.
+        </div>
+      ) : (
+        <div className="mb-6">
+          <div className="flex items-start gap-3">
+            {/* User Avatar */}
+            <div className="w-9 h-9 rounded-full bg-primary-100 flex items-center justify-center flex-shrink-0">
+              <span className="text-primary-600 font-medium text-sm">Y</span>
+            </div>
 
-          {/* Input Area */}
-          <div className="flex-1">
-            <div
-              className={`border rounded-lg transition-all ${
-                isFocused
-                  ? "border-gray-300 shadow-sm"
-                  : "border-gray-200 hover:border-gray-300"
-              }`}
-            >
-              <textarea
-                value={commentText}
-                onChange={(e) => setCommentText(e.target.value)}
-                onFocus={() => setIsFocused(true)}
-                placeholder="What are your thoughts?"
-                className="w-full px-4 py-3 text-sm text-gray-700 placeholder-gray-400 bg-transparent resize-none focus:outline-none"
-                rows={isFocused ? 4 : 2}
-              />
-
-              {/* Expanded state with formatting + actions */}
-              {isFocused && (
-                <div className="flex items-center justify-between px-4 py-3 border-t border-gray-100">
-                  <div className="flex items-center gap-1">
-                    <button className="w-8 h-8 flex items-center justify-center text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors">
-                      <span className="font-bold text-sm">B</span>
-                    </button>
-                    <button className="w-8 h-8 flex items-center justify-center text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors">
-                      <span className="italic text-sm">i</span>
-                    </button>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <label className="flex items-center gap-2 text-xs text-gray-500 cursor-pointer select-none mr-2">
-                      <input
-                        type="checkbox"
-                        checked={isAnonymous}
-                        onChange={(e) => setIsAnonymous(e.target.checked)}
-                        className="w-3.5 h-3.5 rounded border-gray-300 text-gray-900 focus:ring-gray-900"
-                      />
-                      Anonymous
-                    </label>
-                    <button
-                      onClick={() => {
-                        setIsFocused(false);
-                        setCommentText("");
-                      }}
-                      className="px-3 py-1.5 text-sm text-gray-500 hover:text-gray-700 transition-colors"
-                    >
-                      Cancel
-                    </button>
-                    <button
-                      onClick={handleSubmit}
-                      disabled={!commentText.trim() || isSubmitting}
-                      className="px-4 py-1.5 bg-primary-600 text-white text-sm font-medium rounded-full hover:bg-primary-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
-                    >
-                      {isSubmitting ? "..." : "Respond"}
-                    </button>
+            {/* Input Area */}
+            <div className="flex-1">
+              <div
+                className={`border rounded-lg transition-all ${
+                  isFocused
+                    ? "border-gray-300 shadow-sm"
+                    : "border-gray-200 hover:border-gray-300"
+                }`}
+              >
+                <textarea
+                  value={commentText}
+                  onChange={(e) => setCommentText(e.target.value)}
+                  onFocus={() => setIsFocused(true)}
+                  placeholder="What are your thoughts?"
+                  className="w-full px-4 py-3 text-sm text-gray-700 placeholder-gray-400 bg-transparent resize-none focus:outline-none"
+                  rows={isFocused ? 4 : 2}
+                  maxLength={MAX_COMMENT_LENGTH}
+                />
+
+                {/* Expanded state with formatting + actions */}
+                {isFocused && (
+                  <div className="flex items-center justify-between px-4 py-3 border-t border-gray-100">
+                    <div className="flex items-center gap-1">
+                      <button className="w-8 h-8 flex items-center justify-center text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors">
+                        <span className="font-bold text-sm">B</span>
+                      </button>
+                      <button className="w-8 h-8 flex items-center justify-center text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded transition-colors">
+                        <span className="italic text-sm">i</span>
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="flex items-center gap-2 text-xs text-gray-500 cursor-pointer select-none mr-2">
+                        <input
+                          type="checkbox"
+                          checked={isAnonymous}
+                          onChange={(e) => setIsAnonymous(e.target.checked)}
+                          className="w-3.5 h-3.5 rounded border-gray-300 text-gray-900 focus:ring-gray-900"
+                        />
+                        Anonymous
+                      </label>
+                      <button
+                        onClick={() => {
+                          setIsFocused(false);
+                          setCommentText("");
+                        }}
+                        className="px-3 py-1.5 text-sm text-gray-500 hover:text-gray-700 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={handleSubmit}
+                        disabled={!commentText.trim() || isSubmitting}
+                        className="px-4 py-1.5 bg-primary-600 text-white text-sm font-medium rounded-full hover:bg-primary-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        {isSubmitting ? "..." : "Respond"}
+                      </button>
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
             </div>
           </div>
+          {error && (
+            <p className="text-sm text-red-600 mt-2 ml-12" role="alert">
+              {error}
+            </p>
+          )}
         </div>
-      </div>
+      )}
 
       {/* Sort Dropdown */}
       {comments.length > 0 && (
@@ -127,7 +300,18 @@ export default function CommentThread({ comments }: CommentThreadProps) {
       {comments.length > 0 ? (
         <div className="space-y-0 divide-y divide-gray-100">
           {sortedComments.map((comment) => (
-            <ForumCommentV2 key={comment.id} comment={comment} />
+            <ForumCommentV2
+              key={comment.id}
+              comment={comment}
+              likes={likes}
+              onReply={isLocked ? undefined : handleReply}
+              isAccepted={comment.id === acceptedId}
+              onToggleAccepted={
+                isPostAuthor && !ownCommentIds.has(comment.id)
+                  ? () => toggleAccepted(comment)
+                  : undefined
+              }
+            />
           ))}
         </div>
       ) : (
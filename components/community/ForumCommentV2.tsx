@@ -2,18 +2,28 @@
 
 import { useState } from "react";
 import { ForumComment as ForumCommentType } from "@/types/forum";
+import { MAX_COMMENT_LENGTH } from "@/lib/forum";
+import { useAuth } from "@/components/auth/AuthProvider";
+import ReportModal from "@/components/community/ReportModal";
+import ExpertBadge from "@/components/community/ExpertBadge";
 
-const REPORT_REASONS = [
-  { id: "offensive", label: "Offensive or inappropriate" },
-  { id: "spam", label: "Spam or misleading" },
-  { id: "harassment", label: "Harassment or bullying" },
-  { id: "misinformation", label: "Medical misinformation" },
-  { id: "other", label: "Other" },
-];
+/** Like state for a whole thread, owned by CommentThread. */
+export interface CommentLikes {
+  likedIds: Set<string>;
+  counts: Record<string, number>;
+  toggle: (comment: ForumCommentType) => void;
+}
 
 interface ForumCommentV2Props {
   comment: ForumCommentType;
   isReply?: boolean;
+  likes?: CommentLikes;
+  /** Posts a reply; throws with a user-facing message on failure. Omit to hide Reply. */
+  onReply?: (parentId: string, content: string, isAnonymous: boolean) => Promise<void>;
+  /** Marked by the original poster as the answer to the discussion. */
+  isAccepted?: boolean;
+  /** Accepts or unaccepts this comment. Only passed to the original poster. */
+  onToggleAccepted?: () => void;
 }
 
 function formatDate(dateString: string): string {
@@ -50,37 +60,57 @@ function AuthorAvatar({ author }: { author: ForumCommentType["author"] }) {
   );
 }
 
-export default function ForumCommentV2({ comment, isReply = false }: ForumCommentV2Props) {
-  const [isLiked, setIsLiked] = useState(false);
-  const [likeCount, setLikeCount] = useState(comment.likeCount);
+export default function ForumCommentV2({
+  comment,
+  isReply = false,
+  likes,
+  onReply,
+  isAccepted = false,
+  onToggleAccepted,
+}: ForumCommentV2Props) {
+  const isLiked = likes?.likedIds.has(comment.id) ?? false;
+  const likeCount = likes?.counts[comment.id] ?? comment.likeCount;
   const [showReplyForm, setShowReplyForm] = useState(false);
+  const [replyText, setReplyText] = useState("");
+  const [replyAnonymous, setReplyAnonymous] = useState(false);
+  const [replying, setReplying] = useState(false);
+  const [replyError, setReplyError] = useState("");
   const [showReplies, setShowReplies] = useState(true);
   const [isExpanded, setIsExpanded] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
   const [showReportModal, setShowReportModal] = useState(false);
-  const [selectedReason, setSelectedReason] = useState<string | null>(null);
-  const [reportSubmitted, setReportSubmitted] = useState(false);
+  const { user, openAuthFlow } = useAuth();
 
   const handleLike = () => {
-    setIsLiked(!isLiked);
-    setLikeCount(isLiked ? likeCount - 1 : likeCount + 1);
+    likes?.toggle(comment);
+  };
+
+  const handleReply = async () => {
+    if (!onReply || !replyText.trim()) return;
+    setReplying(true);
+    setReplyError("");
+    try {
+      await onReply(comment.id, replyText.trim(), replyAnonymous);
+      setReplyText("");
+      setReplyAnonymous(false);
+      setShowReplyForm(false);
+      setShowReplies(true);
+    } catch (err: unknown) {
+      setReplyError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setReplying(false);
+    }
   };
 
   const handleReport = () => {
     setShowMenu(false);
+    if (!user) {
+      openAuthFlow({ defaultToSignIn: true });
+      return;
+    }
     setShowReportModal(true);
   };
 
-  const handleSubmitReport = () => {
-    // In production, this would send to an API
-    setReportSubmitted(true);
-    setTimeout(() => {
-      setShowReportModal(false);
-      setReportSubmitted(false);
-      setSelectedReason(null);
-    }, 2000);
-  };
-
   const isLongContent = comment.content.length > 280;
   const displayContent = isLongContent && !isExpanded
     ? comment.content.slice(0, 280) + "..."
@@ -89,7 +119,7 @@ export default function ForumCommentV2({ comment, isReply = false }: ForumCommen
   const hasReplies = comment.replies && comment.replies.length > 0;
 
   return (
-    <div className={`py-5 ${isReply ? "pl-12" : ""}`}>
+    <div className={`py-5 ${isReply ? "pl-12" : ""} ${isAccepted ? "bg-green-50/50 -mx-4 px-4 rounded-lg" : ""}`}>
       <div className="flex gap-3">
         <AuthorAvatar author={comment.author} />
 
@@ -98,7 +128,16 @@ export default function ForumCommentV2({ comment, isReply = false }: ForumCommen
           <div className="flex items-center justify-between mb-2">
             <div className="flex items-center gap-2 flex-wrap">
               <span className="font-medium text-gray-900 text-sm">{comment.author.displayName}</span>
+              {comment.author.role === "expert" && <ExpertBadge credential={comment.author.credential} />}
               <span className="text-xs text-gray-400">{formatDate(comment.createdAt)}</span>
+              {isAccepted && (
+                <span className="inline-flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full bg-green-100 text-green-700">
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M5 13l4 4L19 7" />
+                  </svg>
+                  Accepted answer
+                </span>
+              )}
             </div>
 
             {/* Menu button */}
@@ -166,7 +205,7 @@ export default function ForumCommentV2({ comment, isReply = false }: ForumCommen
             )}
 
             {/* Reply */}
-            {!isReply && (
+            {!isReply && onReply && (
               <button
                 onClick={() => setShowReplyForm(!showReplyForm)}
                 className="text-gray-400 hover:text-gray-600 transition-colors font-medium"
@@ -174,6 +213,18 @@ export default function ForumCommentV2({ comment, isReply = false }: ForumCommen
                 Reply
               </button>
             )}
+
+            {/* Accept answer */}
+            {!isReply && onToggleAccepted && (
+              <button
+                onClick={onToggleAccepted}
+                className={`transition-colors font-medium ${
+                  isAccepted ? "text-green-600 hover:text-green-700" : "text-gray-400 hover:text-gray-600"
+                }`}
+              >
+                {isAccepted ? "Unmark answer" : "Accept answer"}
+              </button>
+            )}
           </div>
 
           {/* Reply Form */}
@@ -184,19 +235,40 @@ export default function ForumCommentV2({ comment, isReply = false }: ForumCommen
               </div>
               <div className="flex-1">
                 <textarea
+                  value={replyText}
+                  onChange={(e) => setReplyText(e.target.value)}
+                  maxLength={MAX_COMMENT_LENGTH}
                   placeholder="Write a reply..."
                   className="w-full px-3 py-2.5 border border-gray-200 rounded-lg text-sm resize-none focus:outline-none focus:ring-1 focus:ring-gray-300 focus:border-gray-300"
                   rows={2}
                 />
-                <div className="flex justify-end gap-2 mt-2">
+                {replyError && (
+                  <p className="text-xs text-red-600 mt-1" role="alert">
+                    {replyError}
+                  </p>
+                )}
+                <div className="flex items-center justify-end gap-2 mt-2">
+                  <label className="flex items-center gap-2 text-xs text-gray-500 cursor-pointer select-none mr-auto">
+                    <input
+                      type="checkbox"
+                      checked={replyAnonymous}
+                      onChange={(e) => setReplyAnonymous(e.target.checked)}
+                      className="w-3.5 h-3.5 rounded border-gray-300 text-gray-900 focus:ring-gray-900"
+                    />
+                    Anonymous
+                  </label>
                   <button
                     onClick={() => setShowReplyForm(false)}
                     className="px-3 py-1.5 text-sm text-gray-500 hover:text-gray-700 transition-colors"
                   >
                     Cancel
                   </button>
-                  <button className="px-4 py-1.5 text-sm bg-primary-600 text-white rounded-full hover:bg-primary-700 transition-colors">
-                    Reply
+                  <button
+                    onClick={handleReply}
+                    disabled={!replyText.trim() || replying}
+                    className="px-4 py-1.5 text-sm bg-primary-600 text-white rounded-full hover:bg-primary-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    {replying ? "..." : "Reply"}
                   </button>
                 </div>
               </div>
@@ -207,7 +279,7 @@ export default function ForumCommentV2({ comment, isReply = false }: ForumCommen
           {hasReplies && showReplies && (
             <div className="mt-4 space-y-0 divide-y divide-gray-100 border-l-2 border-gray-100 -ml-6 pl-6">
               {comment.replies!.map((reply) => (
-                <ForumCommentV2 key={reply.id} comment={reply} isReply />
+                <ForumCommentV2 key={reply.id} comment={reply} isReply likes={likes} />
               ))}
             </div>
           )}
@@ -216,74 +288,7 @@ export default function ForumCommentV2({ comment, isReply = false }: ForumCommen
 
       {/* Report Modal */}
       {showReportModal && (
-        <div
-          className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
-          onClick={() => {
-            setShowReportModal(false);
-            setSelectedReason(null);
-          }}
-        >
-          <div
-            className="bg-white rounded-xl shadow-xl max-w-md w-full mx-4 overflow-hidden"
-            onClick={(e) => e.stopPropagation()}
-          >
-            {reportSubmitted ? (
-              <div className="p-6 text-center">
-                <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                  <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-                  </svg>
-                </div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">Report Submitted</h3>
-                <p className="text-gray-500 text-sm">Thank you for helping keep our community safe.</p>
-              </div>
-            ) : (
-              <>
-                <div className="p-4 border-b border-gray-100">
-                  <h3 className="text-lg font-semibold text-gray-900">Report Comment</h3>
-                  <p className="text-sm text-gray-500 mt-1">Why are you reporting this?</p>
-                </div>
-                <div className="p-4 space-y-2">
-                  {REPORT_REASONS.map((reason) => (
-                    <button
-                      key={reason.id}
-                      onClick={() => setSelectedReason(reason.id)}
-                      className={`w-full px-4 py-3 text-left text-sm rounded-lg border transition-colors ${
-                        selectedReason === reason.id
-                          ? "border-primary-500 bg-primary-50 text-primary-700"
-                          : "border-gray-200 text-gray-700 hover:bg-gray-50"
-                      }`}
-                    >
-                      {reason.label}
-                    </button>
-                  ))}
-                </div>
-                <div className="p-4 border-t border-gray-100 flex gap-3">
-                  <button
-                    onClick={() => {
-                      setShowReportModal(false);
-                      setSelectedReason(null);
-                    }}
-                    className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg transition-colors"
-                  >
-                    Cancel
-                  </button>
-                  <button
-                    onClick={handleSubmitReport}
-                    disabled={!selectedReason}
-                    className={`flex-1 px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
-                      selectedReason
-                        ? "bg-primary-600 text-white hover:bg-primary-700"
-                        : "bg-gray-100 text-gray-400 cursor-not-allowed"
-                    }`}
-                  >
-                    Submit Report
-                  </button>
-                </div>
-              </>
-            )}
-          </div>
-        </div>
+        <ReportModal target={{ commentId: comment.id }} onClose={() => setShowReportModal(false)} />
       )}
     </div>
   );
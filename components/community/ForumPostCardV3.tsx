@@ -3,14 +3,9 @@
 import { useState } from "react";
 import Link from "next/link";
 import { ForumPost, CARE_TYPE_CONFIG } from "@/types/forum";
-
-const REPORT_REASONS = [
-  { id: "offensive", label: "Offensive or inappropriate" },
-  { id: "spam", label: "Spam or misleading" },
-  { id: "harassment", label: "Harassment or bullying" },
-  { id: "misinformation", label: "Medical misinformation" },
-  { id: "other", label: "Other" },
-];
+import { useAuth } from "@/components/auth/AuthProvider";
+import ReportModal from "@/components/community/ReportModal";
+import ExpertBadge from "@/components/community/ExpertBadge";
 
 interface ForumPostCardV3Props {
   post: ForumPost;
@@ -58,27 +53,20 @@ function AuthorAvatar({ author, size = "md" }: { author: ForumPost["author"]; si
 export default function ForumPostCardV3({ post, onClick, isSelected, compact }: ForumPostCardV3Props) {
   const [showMenu, setShowMenu] = useState(false);
   const [showReportModal, setShowReportModal] = useState(false);
-  const [selectedReason, setSelectedReason] = useState<string | null>(null);
-  const [reportSubmitted, setReportSubmitted] = useState(false);
+  const { user, openAuthFlow } = useAuth();
   const careTypeConfig = CARE_TYPE_CONFIG[post.careType];
 
   const handleReport = (e: React.MouseEvent) => {
     e.stopPropagation();
     e.preventDefault();
     setShowMenu(false);
+    if (!user) {
+      openAuthFlow({ defaultToSignIn: true });
+      return;
+    }
     setShowReportModal(true);
   };
 
-  const handleSubmitReport = () => {
-    // In production, this would send to an API
-    setReportSubmitted(true);
-    setTimeout(() => {
-      setShowReportModal(false);
-      setReportSubmitted(false);
-      setSelectedReason(null);
-    }, 2000);
-  };
-
   // Compact variant for V3 two-panel list
   if (compact) {
     return (
@@ -98,6 +86,7 @@ export default function ForumPostCardV3({ post, onClick, isSelected, compact }:
             </h3>
             <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
               <span>{post.author.displayName}</span>
+              {post.author.role === "expert" && <ExpertBadge credential={post.author.credential} />}
               <span className="text-gray-300">·</span>
               <span>{formatTimeAgo(post.createdAt)}</span>
             </div>
@@ -136,6 +125,7 @@ export default function ForumPostCardV3({ post, onClick, isSelected, compact }:
           <AuthorAvatar author={post.author} />
           <div className="flex items-center gap-2 text-sm">
             <span className="text-gray-900 font-medium">{post.author.displayName}</span>
+            {post.author.role === "expert" && <ExpertBadge credential={post.author.credential} />}
             <span className="text-gray-300">·</span>
             <span className="text-gray-500">{formatTimeAgo(post.createdAt)}</span>
           </div>
@@ -236,81 +226,21 @@ export default function ForumPostCardV3({ post, onClick, isSelected, compact }:
           </svg>
           {post.viewCount}
         </span>
+        {post.hasAcceptedAnswer && (
+          <span className="flex items-center gap-1.5 ml-auto text-green-600 font-medium">
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+            Answered
+          </span>
+        )}
       </div>
     </article>
   );
 
   // Report Modal
   const reportModal = showReportModal && (
-    <div
-      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
-      onClick={(e) => {
-        e.stopPropagation();
-        setShowReportModal(false);
-        setSelectedReason(null);
-      }}
-    >
-      <div
-        className="bg-white rounded-xl shadow-xl max-w-md w-full mx-4 overflow-hidden"
-        onClick={(e) => e.stopPropagation()}
-      >
-        {reportSubmitted ? (
-          <div className="p-6 text-center">
-            <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
-              <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-              </svg>
-            </div>
-            <h3 className="text-lg font-semibold text-gray-900 mb-2">Report Submitted</h3>
-            <p className="text-gray-500 text-sm">Thank you for helping keep our community safe.</p>
-          </div>
-        ) : (
-          <>
-            <div className="p-4 border-b border-gray-100">
-              <h3 className="text-lg font-semibold text-gray-900">Report Conversation</h3>
-              <p className="text-sm text-gray-500 mt-1">Why are you reporting this?</p>
-            </div>
-            <div className="p-4 space-y-2">
-              {REPORT_REASONS.map((reason) => (
-                <button
-                  key={reason.id}
-                  onClick={() => setSelectedReason(reason.id)}
-                  className={`w-full px-4 py-3 text-left text-sm rounded-lg border transition-colors ${
-                    selectedReason === reason.id
-                      ? "border-primary-500 bg-primary-50 text-primary-700"
-                      : "border-gray-200 text-gray-700 hover:bg-gray-50"
-                  }`}
-                >
-                  {reason.label}
-                </button>
-              ))}
-            </div>
-            <div className="p-4 border-t border-gray-100 flex gap-3">
-              <button
-                onClick={() => {
-                  setShowReportModal(false);
-                  setSelectedReason(null);
-                }}
-                className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg transition-colors"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleSubmitReport}
-                disabled={!selectedReason}
-                className={`flex-1 px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
-                  selectedReason
-                    ? "bg-primary-600 text-white hover:bg-primary-700"
-                    : "bg-gray-100 text-gray-400 cursor-not-allowed"
-                }`}
-              >
-                Submit Report
-              </button>
-            </div>
-          </>
-        )}
-      </div>
-    </div>
+    <ReportModal target={{ postId: post.id }} onClose={() => setShowReportModal(false)} />
   );
 
   // If onClick is provided (modal mode), render as button
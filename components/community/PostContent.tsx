@@ -1,7 +1,11 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { ForumPost, CARE_TYPE_CONFIG } from "@/types/forum";
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
+import { useAuth } from "@/components/auth/AuthProvider";
+import ReportModal from "@/components/community/ReportModal";
+import ExpertBadge from "@/components/community/ExpertBadge";
 
 interface PostContentProps {
   post: ForumPost;
@@ -43,12 +47,64 @@ function AuthorAvatar({ author }: { author: ForumPost["author"] }) {
 
 export default function PostContent({ post, onClose }: PostContentProps) {
   const careTypeConfig = CARE_TYPE_CONFIG[post.careType];
+  const { user, openAuthFlow } = useAuth();
   const [isLiked, setIsLiked] = useState(false);
   const [likeCount, setLikeCount] = useState(post.likeCount);
+  const [showReportModal, setShowReportModal] = useState(false);
 
-  const handleLike = () => {
-    setIsLiked(!isLiked);
-    setLikeCount(isLiked ? likeCount - 1 : likeCount + 1);
+  // Whether the signed-in user already liked this post
+  useEffect(() => {
+    if (!user || !isSupabaseConfigured()) return;
+
+    let cancelled = false;
+    const fetchLike = async () => {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from("forum_post_likes")
+        .select("post_id")
+        .eq("post_id", post.id)
+        .eq("user_id", user.id)
+        .maybeSingle();
+      if (!cancelled) setIsLiked(!!data);
+    };
+
+    fetchLike();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, post.id]);
+
+  const handleLike = async () => {
+    if (!user) {
+      openAuthFlow({ defaultToSignIn: true });
+      return;
+    }
+
+    const wasLiked = isLiked;
+    const previousCount = likeCount;
+
+    // Optimistic update, rolled back on failure
+    setIsLiked(!wasLiked);
+    setLikeCount(Math.max(0, previousCount + (wasLiked ? -1 : 1)));
+    try {
+      const res = await fetch(`/api/community/posts/${post.id}/like`, {
+        method: wasLiked ? "DELETE" : "POST",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setLikeCount(data.like_count);
+    } catch {
+      setIsLiked(wasLiked);
+      setLikeCount(previousCount);
+    }
+  };
+
+  const handleReport = () => {
+    if (!user) {
+      openAuthFlow({ defaultToSignIn: true });
+      return;
+    }
+    setShowReportModal(true);
   };
 
   return (
@@ -58,7 +114,10 @@ export default function PostContent({ post, onClose }: PostContentProps) {
         <div className="flex items-center gap-3">
           <AuthorAvatar author={post.author} />
           <div>
-            <span className="font-medium text-gray-900">{post.author.displayName}</span>
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-gray-900">{post.author.displayName}</span>
+              {post.author.role === "expert" && <ExpertBadge credential={post.author.credential} />}
+            </div>
             <div className="flex items-center gap-2 text-sm text-gray-500">
               <span>{formatTimeAgo(post.createdAt)}</span>
               <span className="text-gray-300">·</span>
@@ -128,7 +187,20 @@ export default function PostContent({ post, onClose }: PostContentProps) {
           </svg>
           Share
         </button>
+        <button
+          onClick={handleReport}
+          className="flex items-center gap-2 px-3 py-2 text-sm text-gray-500 hover:text-gray-700 hover:bg-gray-50 rounded-lg transition-colors"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9" />
+          </svg>
+          Report
+        </button>
       </div>
+
+      {showReportModal && (
+        <ReportModal target={{ postId: post.id }} onClose={() => setShowReportModal(false)} />
+      )}
     </article>
   );
 }
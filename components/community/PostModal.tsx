@@ -2,8 +2,10 @@
 
 import { useEffect, useRef, useState, useCallback } from "react";
 import { createPortal } from "react-dom";
-import { ForumPost } from "@/types/forum";
-import { getCommentsByPostId } from "@/data/mock/forumComments";
+import { ForumPost, ForumComment } from "@/types/forum";
+import type { PublicForumComment } from "@/lib/types";
+import { buildCommentTree } from "@/lib/forum";
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
 import PostContent from "./PostContent";
 import CommentThread from "./CommentThread";
 
@@ -17,6 +19,7 @@ export default function PostModal({ post, isOpen, onClose }: PostModalProps) {
   const panelRef = useRef<HTMLDivElement>(null);
   const [mounted, setMounted] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
+  const [comments, setComments] = useState<ForumComment[] | null>(null);
 
   const onCloseRef = useRef(onClose);
   onCloseRef.current = onClose;
@@ -59,10 +62,39 @@ export default function PostModal({ post, isOpen, onClose }: PostModalProps) {
     }
   }, [isOpen, post?.id]);
 
+  // Load the thread and count the view each time a post is opened
+  const postId = isOpen ? post?.id : undefined;
+  useEffect(() => {
+    if (!postId) return;
+
+    let cancelled = false;
+    setComments(null);
+
+    const fetchComments = async () => {
+      if (!isSupabaseConfigured()) {
+        setComments([]);
+        return;
+      }
+      const supabase = createClient();
+      const { data } = await supabase
+        .from("public_forum_comments")
+        .select("*")
+        .eq("post_id", postId)
+        .order("created_at", { ascending: true });
+      if (!cancelled) setComments(buildCommentTree((data as PublicForumComment[] | null) ?? []));
+    };
+
+    fetchComments();
+    fetch(`/api/community/posts/${postId}/view`, { method: "POST" }).catch(() => {});
+
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
   if (!mounted || !post) return null;
 
-  const comments = getCommentsByPostId(post.id);
-  const totalResponses = comments.reduce(
+  const totalResponses = (comments ?? []).reduce(
     (acc, c) => acc + 1 + (c.replies?.length || 0),
     0
   );
@@ -118,12 +150,25 @@ export default function PostModal({ post, isOpen, onClose }: PostModalProps) {
 
         {/* Post Content - Compact summary */}
         <div className="px-6 py-5 border-b border-gray-100 bg-gray-50/30">
-          <PostContent post={post} />
+          <PostContent key={post.id} post={post} />
         </div>
 
         {/* Comments Section */}
         <div className="px-6 py-6">
-          <CommentThread comments={comments} postId={post.id} />
+          {comments ? (
+            <CommentThread
+              key={post.id}
+              comments={comments}
+              postId={post.id}
+              isLocked={post.isLocked}
+            />
+          ) : (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 bg-gray-50 rounded-lg animate-pulse" />
+              ))}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { FORUM_REPORT_REASONS, FORUM_REPORT_REASON_LABELS } from "@/lib/forum";
+import type { ForumReportReason } from "@/lib/types";
+
+interface ReportModalProps {
+  /** What is being reported — exactly one of the two ids. */
+  target: { postId: string } | { commentId: string };
+  onClose: () => void;
+}
+
+export default function ReportModal({ target, onClose }: ReportModalProps) {
+  const isPost = "postId" in target;
+  const [selectedReason, setSelectedReason] = useState<ForumReportReason | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async () => {
+    if (!selectedReason) return;
+    setSubmitting(true);
+    setError("");
+    try {
+      const res = await fetch("/api/community/reports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...(isPost ? { post_id: target.postId } : { comment_id: target.commentId }),
+          reason: selectedReason,
+        }),
+      });
+      // 409: already reported by this user, which is fine
+      if (!res.ok && res.status !== 409) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to submit report");
+      }
+      setSubmitted(true);
+      setTimeout(onClose, 2000);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-xl max-w-md w-full mx-4 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {submitted ? (
+          <div className="p-6 text-center">
+            <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <svg className="w-6 h-6 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+              </svg>
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Report Submitted</h3>
+            <p className="text-gray-500 text-sm">Thank you for helping keep our community safe.</p>
+          </div>
+        ) : (
+          <>
+            <div className="p-4 border-b border-gray-100">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {isPost ? "Report Discussion" : "Report Comment"}
+              </h3>
+              <p className="text-sm text-gray-500 mt-1">Why are you reporting this?</p>
+            </div>
+            <div className="p-4 space-y-2">
+              {FORUM_REPORT_REASONS.map((reason) => (
+                <button
+                  key={reason}
+                  onClick={() => setSelectedReason(reason)}
+                  className={`w-full px-4 py-3 text-left text-sm rounded-lg border transition-colors ${
+                    selectedReason === reason
+                      ? "border-primary-500 bg-primary-50 text-primary-700"
+                      : "border-gray-200 text-gray-700 hover:bg-gray-50"
+                  }`}
+                >
+                  {FORUM_REPORT_REASON_LABELS[reason]}
+                </button>
+              ))}
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+            <div className="p-4 border-t border-gray-100 flex gap-3">
+              <button
+                onClick={onClose}
+                className="flex-1 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={!selectedReason || submitting}
+                className={`flex-1 px-4 py-2 text-sm font-medium rounded-lg transition-colors ${
+                  selectedReason && !submitting
+                    ? "bg-primary-600 text-white hover:bg-primary-700"
+                    : "bg-gray-100 text-gray-400 cursor-not-allowed"
+                }`}
+              >
+                {submitting ? "Submitting..." : "Submit Report"}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
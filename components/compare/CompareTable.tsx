@@ -0,0 +1,244 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { resolveLocation } from "@/lib/us-city-search";
+import { useCompare } from "@/components/shared/CompareContext";
+import {
+  buildCompareRows,
+  distanceMiles,
+  getCompareUrl,
+  type CompareRow,
+  type ComparedProvider,
+} from "@/lib/provider-compare";
+
+interface CompareTableProps {
+  providers: ComparedProvider[];
+  /** Location from ?near=, distances are measured from here */
+  initialNear: string;
+}
+
+function RowValue({ row, index }: { row: CompareRow; index: number }) {
+  if (row.kind === "text") {
+    const value = row.values[index];
+    return value ? (
+      <span className="text-gray-900">{value}</span>
+    ) : (
+      <span className="text-gray-400">Not listed</span>
+    );
+  }
+
+  const items = row.values[index];
+  if (items.length === 0) return <span className="text-gray-400">Not listed</span>;
+  return (
+    <ul className="space-y-1">
+      {items.map((item) => {
+        const unique = !row.shared.includes(item);
+        return (
+          <li key={item} className={unique ? "text-primary-700 font-medium" : "text-gray-700"}>
+            {item}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+/** Aligned columns for /compare. Rows where providers differ are highlighted. */
+export default function CompareTable({ providers, initialNear }: CompareTableProps) {
+  const router = useRouter();
+  const { toggle, isComparing, canAdd } = useCompare();
+  const [nearInput, setNearInput] = useState(initialNear);
+  const [near, setNear] = useState(initialNear);
+  const [origin, setOrigin] = useState<{ location: string; lat?: number; lng?: number } | null>(null);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const slugs = providers.map((p) => p.slug);
+
+  useEffect(() => {
+    if (!near) return;
+    let cancelled = false;
+    resolveLocation(near).then((city) => {
+      if (!cancelled) setOrigin({ location: near, lat: city?.lat, lng: city?.lng });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [near]);
+
+  const originReady = near !== "" && origin?.location === near;
+  const originLat = originReady ? origin?.lat : undefined;
+  const originLng = originReady ? origin?.lng : undefined;
+  const locationNotFound = originReady && (originLat === undefined || originLng === undefined);
+
+  const rows = useMemo(() => {
+    const distances = providers.map((p) =>
+      originLat !== undefined && originLng !== undefined && p.lat !== null && p.lng !== null
+        ? distanceMiles(originLat, originLng, p.lat, p.lng)
+        : null
+    );
+    return buildCompareRows(providers, distances);
+  }, [providers, originLat, originLng]);
+
+  const visibleRows = onlyDifferences ? rows.filter((r) => r.differs) : rows;
+  const allInTray = providers.every((p) => isComparing(p.slug));
+
+  const applyNear = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = nearInput.trim();
+    setNear(value);
+    router.replace(getCompareUrl(slugs, value || undefined), { scroll: false });
+  };
+
+  const removeProvider = (slug: string) => {
+    router.push(getCompareUrl(slugs.filter((s) => s !== slug), near || undefined));
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.origin + getCompareUrl(slugs, near || undefined));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard unavailable (insecure context or denied)
+    }
+  };
+
+  // Opened from a shared link: let the visitor keep these in their own
+  // tray. toggle() stops adding once the tray is full.
+  const addAllToTray = () => {
+    for (const p of providers) {
+      if (!isComparing(p.slug)) toggle({ slug: p.slug, name: p.name, image: p.image });
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex flex-wrap items-end gap-4 mb-6">
+        <form onSubmit={applyNear} className="flex items-end gap-2">
+          <div>
+            <label htmlFor="compare-near" className="block text-sm font-medium text-gray-700 mb-1">
+              Distance from
+            </label>
+            <input
+              id="compare-near"
+              type="text"
+              value={nearInput}
+              onChange={(e) => setNearInput(e.target.value)}
+              placeholder="City, state or ZIP"
+              className="w-64 px-3 py-2 border border-gray-300 rounded-lg text-base focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+          <button
+            type="submit"
+            className="px-4 py-2 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Update
+          </button>
+        </form>
+
+        <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={onlyDifferences}
+            onChange={(e) => setOnlyDifferences(e.target.checked)}
+            className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          Only show differences
+        </label>
+
+        <div className="ml-auto flex items-center gap-3">
+          {!allInTray && (
+            <button
+              type="button"
+              onClick={addAllToTray}
+              disabled={!canAdd}
+              className="text-sm font-medium text-primary-600 hover:text-primary-700 disabled:text-gray-400"
+            >
+              Save to my compare list
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={copyLink}
+            className="px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium transition-colors"
+          >
+            {copied ? "Link copied" : "Copy link"}
+          </button>
+        </div>
+      </div>
+
+      {locationNotFound && (
+        <p className="text-sm text-gray-500 mb-4">
+          We couldn&apos;t find &ldquo;{near}&rdquo;. Try a city and state or a ZIP code.
+        </p>
+      )}
+
+      <div className="overflow-x-auto rounded-xl border border-gray-200">
+        <table className="w-full table-fixed min-w-[640px] text-sm">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="w-40 p-4 text-left align-bottom font-medium text-gray-500">
+                {providers.length} providers
+              </th>
+              {providers.map((p) => (
+                <th key={p.slug} className="p-4 text-left align-top font-normal">
+                  {p.image ? (
+                    <img src={p.image} alt="" className="w-full h-28 rounded-lg object-cover" />
+                  ) : (
+                    <div className="w-full h-28 rounded-lg bg-primary-50 flex items-center justify-center">
+                      <span className="text-2xl font-bold text-primary-300">{p.name.charAt(0).toUpperCase()}</span>
+                    </div>
+                  )}
+                  <Link
+                    href={`/provider/${p.slug}`}
+                    className="mt-3 block text-base font-semibold text-gray-900 hover:text-primary-600 transition-colors"
+                  >
+                    {p.name}
+                  </Link>
+                  {p.location && <p className="text-gray-500 mt-0.5">{p.location}</p>}
+                  {providers.length > 2 && (
+                    <button
+                      type="button"
+                      onClick={() => removeProvider(p.slug)}
+                      className="mt-2 text-xs font-medium text-gray-400 hover:text-gray-600"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map((row) => (
+              <tr
+                key={row.label}
+                className={`border-b border-gray-100 last:border-0 ${row.differs ? "bg-warm-50" : ""}`}
+              >
+                <th scope="row" className="p-4 text-left align-top font-medium text-gray-700">
+                  {row.label}
+                  {row.differs && <span className="block text-xs font-normal text-warm-700">Differs</span>}
+                </th>
+                {providers.map((p, i) => (
+                  <td key={p.slug} className="p-4 align-top">
+                    <RowValue row={row} index={i} />
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {visibleRows.length === 0 && (
+              <tr>
+                <td colSpan={providers.length + 1} className="p-6 text-center text-gray-500">
+                  These providers match on everything we compare.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
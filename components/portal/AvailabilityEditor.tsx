@@ -0,0 +1,240 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
+import {
+  formatTimeRange,
+  getLocalTimeZone,
+  localDateTimeToISO,
+} from "@/lib/appointments";
+import type { AvailabilitySlot } from "@/lib/types";
+import Badge from "@/components/ui/Badge";
+import Button from "@/components/ui/Button";
+
+const SLOT_TYPE_OPTIONS: { value: AvailabilitySlot["appointment_type"]; label: string }[] = [
+  { value: "any", label: "Tour or consultation" },
+  { value: "tour", label: "Tours only" },
+  { value: "consultation", label: "Consultations only" },
+];
+
+const REPEAT_OPTIONS = [1, 2, 4, 8];
+
+interface AvailabilityEditorProps {
+  profileId: string;
+}
+
+/**
+ * Lets a provider publish bookable availability slots that families
+ * can request from the provider page.
+ */
+export default function AvailabilityEditor({ profileId }: AvailabilityEditorProps) {
+  const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const [date, setDate] = useState("");
+  const [startTime, setStartTime] = useState("10:00");
+  const [endTime, setEndTime] = useState("10:30");
+  const [slotType, setSlotType] = useState<AvailabilitySlot["appointment_type"]>("any");
+  const [repeatWeeks, setRepeatWeeks] = useState(1);
+
+  const fetchSlots = useCallback(async () => {
+    if (!isSupabaseConfigured()) {
+      setLoading(false);
+      return;
+    }
+
+    const supabase = createClient();
+    const { data } = await supabase
+      .from("availability_slots")
+      .select("*")
+      .eq("profile_id", profileId)
+      .gte("ends_at", new Date().toISOString())
+      .order("starts_at", { ascending: true });
+
+    setSlots((data as AvailabilitySlot[]) || []);
+    setLoading(false);
+  }, [profileId]);
+
+  useEffect(() => {
+    fetchSlots();
+  }, [fetchSlots]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date || !startTime || !endTime || !isSupabaseConfigured()) return;
+
+    const startsAt = new Date(localDateTimeToISO(date, startTime));
+    const endsAt = new Date(localDateTimeToISO(date, endTime));
+    if (endsAt <= startsAt) {
+      setError("End time must be after start time.");
+      return;
+    }
+    if (startsAt <= new Date()) {
+      setError("Availability must be in the future.");
+      return;
+    }
+
+    setSaving(true);
+    setError("");
+    try {
+      const timezone = getLocalTimeZone();
+      const rows = Array.from({ length: repeatWeeks }, (_, week) => {
+        const s = new Date(startsAt);
+        const e2 = new Date(endsAt);
+        s.setDate(s.getDate() + week * 7);
+        e2.setDate(e2.getDate() + week * 7);
+        return {
+          profile_id: profileId,
+          appointment_type: slotType,
+          starts_at: s.toISOString(),
+          ends_at: e2.toISOString(),
+          timezone,
+        };
+      });
+
+      const supabase = createClient();
+      const { error: insertError } = await supabase
+        .from("availability_slots")
+        .insert(rows);
+
+      if (insertError) throw new Error(insertError.message);
+
+      setDate("");
+      await fetchSlots();
+    } catch (err: unknown) {
+      const msg =
+        err && typeof err === "object" && "message" in err
+          ? (err as { message: string }).message
+          : String(err);
+      setError(msg);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (slotId: string) => {
+    if (!isSupabaseConfigured()) return;
+
+    const supabase = createClient();
+    const { error: deleteError } = await supabase
+      .from("availability_slots")
+      .delete()
+      .eq("id", slotId)
+      .eq("is_booked", false);
+
+    if (deleteError) {
+      setError(deleteError.message);
+      return;
+    }
+    setSlots((prev) => prev.filter((s) => s.id !== slotId));
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Your availability</h2>
+      <p className="text-sm text-gray-500 mb-5">
+        Families can request a tour or consultation in any open slot from your public profile.
+      </p>
+
+      <form onSubmit={handleAdd} className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end mb-6">
+        <label className="col-span-2 text-sm font-medium text-gray-700">
+          Date
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            required
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-base focus:ring-2 focus:ring-primary-500"
+          />
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          From
+          <input
+            type="time"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            required
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-base focus:ring-2 focus:ring-primary-500"
+          />
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          To
+          <input
+            type="time"
+            value={endTime}
+            onChange={(e) => setEndTime(e.target.value)}
+            required
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-base focus:ring-2 focus:ring-primary-500"
+          />
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          For
+          <select
+            value={slotType}
+            onChange={(e) => setSlotType(e.target.value as AvailabilitySlot["appointment_type"])}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-base focus:ring-2 focus:ring-primary-500"
+          >
+            {SLOT_TYPE_OPTIONS.map((opt) => (
+              <option key={opt.value} value={opt.value}>{opt.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          Repeat
+          <select
+            value={repeatWeeks}
+            onChange={(e) => setRepeatWeeks(Number(e.target.value))}
+            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-base focus:ring-2 focus:ring-primary-500"
+          >
+            {REPEAT_OPTIONS.map((n) => (
+              <option key={n} value={n}>{n === 1 ? "Once" : `${n} weeks`}</option>
+            ))}
+          </select>
+        </label>
+        <div className="col-span-2 md:col-span-6 flex justify-end">
+          <Button type="submit" size="sm" loading={saving}>
+            Add availability
+          </Button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="mb-4 bg-red-50 text-red-700 px-4 py-3 rounded-lg text-base" role="alert">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="animate-spin w-6 h-6 border-4 border-primary-600 border-t-transparent rounded-full mx-auto" />
+      ) : slots.length === 0 ? (
+        <p className="text-sm text-gray-500">No upcoming availability published.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {slots.map((slot) => (
+            <li key={slot.id} className="flex items-center justify-between gap-4 py-3">
+              <div>
+                <p className="text-base text-gray-900">{formatTimeRange(slot.starts_at, slot.ends_at)}</p>
+                <p className="text-xs text-gray-500">
+                  {SLOT_TYPE_OPTIONS.find((o) => o.value === slot.appointment_type)?.label}
+                </p>
+              </div>
+              {slot.is_booked ? (
+                <Badge variant="pending">Booked</Badge>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(slot.id)}
+                  className="text-sm text-gray-500 hover:text-red-600 font-medium"
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
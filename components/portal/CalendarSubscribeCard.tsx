@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Button from "@/components/ui/Button";
+
+interface CalendarSubscribeCardProps {
+  profileId: string;
+}
+
+/**
+ * Shows the profile's private .ics feed URL for subscribing from Google
+ * Calendar, Outlook or Apple Calendar, with a way to reset it.
+ */
+export default function CalendarSubscribeCard({ profileId }: CalendarSubscribeCardProps) {
+  const [url, setUrl] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [resetting, setResetting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchFeed = async () => {
+      try {
+        const res = await fetch(`/api/calendar/feed?profile_id=${profileId}`);
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) throw new Error(data.error || "Failed to load calendar link");
+        setUrl(data.url);
+      } catch (err: unknown) {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchFeed();
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard unavailable — the field is selectable as a fallback
+    }
+  };
+
+  const handleReset = async () => {
+    setResetting(true);
+    setError("");
+    try {
+      const res = await fetch("/api/calendar/feed", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ profile_id: profileId }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to reset calendar link");
+      setUrl(data.url);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  const webcalUrl = url.replace(/^https?:\/\//, "webcal://");
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Subscribe in your calendar</h2>
+      <p className="text-sm text-gray-500 mb-5">
+        Add this private link to Google Calendar, Outlook or Apple Calendar to keep your
+        appointments in sync. Anyone with the link can see your schedule.
+      </p>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-3" role="alert">
+          {error}
+        </p>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading calendar link...</p>
+      ) : (
+        url && (
+          <>
+            <input
+              type="text"
+              readOnly
+              value={url}
+              onFocus={(e) => e.target.select()}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-gray-50 mb-3"
+              aria-label="Calendar feed URL"
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="sm" onClick={handleCopy}>
+                {copied ? "Copied" : "Copy link"}
+              </Button>
+              <a
+                href={webcalUrl}
+                className="text-sm text-primary-600 hover:text-primary-700 font-medium px-2"
+              >
+                Open in calendar app
+              </a>
+              <Button size="sm" variant="ghost" loading={resetting} onClick={handleReset}>
+                Reset link
+              </Button>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import type { Connection, Profile } from "@/lib/types";
+import Badge from "@/components/ui/Badge";
+import EmptyState from "@/components/ui/EmptyState";
+
+interface LocationInquiriesProps {
+  locations: Profile[];
+}
+
+interface InquiryRow extends Connection {
+  familyName: string | null;
+}
+
+const STATUS_VARIANTS: Record<Connection["status"], "pending" | "verified" | "rejected" | "default"> = {
+  pending: "pending",
+  accepted: "verified",
+  declined: "rejected",
+  archived: "default",
+};
+
+/**
+ * Inquiries across every location of an organization, newest first,
+ * with a location filter. Opening one switches to that location.
+ */
+export default function LocationInquiries({ locations }: LocationInquiriesProps) {
+  const { activeProfile, switchProfile } = useAuth();
+  const router = useRouter();
+  const [inquiries, setInquiries] = useState<InquiryRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [locationFilter, setLocationFilter] = useState<string>("all");
+
+  const locationIds = locations.map((l) => l.id).join(",");
+
+  useEffect(() => {
+    if (!locationIds || !isSupabaseConfigured()) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchInquiries = async () => {
+      // Through the API, which hides the family until the location has access
+      const lists = await Promise.all(
+        locationIds.split(",").map(async (id) => {
+          const res = await fetch(`/api/connections?profile_id=${id}&type=inquiry`);
+          if (!res.ok) return [];
+          const data = await res.json();
+          const connections = (data.connections || []) as (Connection & {
+            fromProfile: Profile | null;
+            access: { details: boolean };
+          })[];
+          return connections.filter((c) => c.to_profile_id === id);
+        })
+      );
+
+      setInquiries(
+        lists
+          .flat()
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))
+          .map(({ fromProfile, access, ...c }) => ({
+            ...c,
+            familyName: access.details ? fromProfile?.display_name ?? null : null,
+          }))
+      );
+      setLoading(false);
+    };
+
+    fetchInquiries();
+  }, [locationIds]);
+
+  const locationNames = new Map(locations.map((l) => [l.id, l.display_name]));
+  const filtered =
+    locationFilter === "all"
+      ? inquiries
+      : inquiries.filter((i) => i.to_profile_id === locationFilter);
+
+  const openInquiry = async (inquiry: InquiryRow) => {
+    if (inquiry.to_profile_id !== activeProfile?.id) {
+      await switchProfile(inquiry.to_profile_id);
+    }
+    router.push(`/portal/connections/${inquiry.id}`);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <div className="flex items-center justify-between flex-wrap gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Inquiries across locations</h2>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Location
+          <select
+            value={locationFilter}
+            onChange={(e) => setLocationFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value="all">All locations</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.display_name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="py-8 text-center">
+          <div className="animate-spin w-6 h-6 border-4 border-primary-600 border-t-transparent rounded-full mx-auto" />
+        </div>
+      ) : filtered.length === 0 ? (
+        <EmptyState
+          title="No inquiries yet"
+          description="Inquiries families send to any of your locations show up here."
+        />
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {filtered.map((inquiry) => (
+            <li key={inquiry.id}>
+              <button
+                type="button"
+                onClick={() => openInquiry(inquiry)}
+                className="w-full flex items-center justify-between gap-4 py-4 text-left hover:bg-gray-50 rounded-lg px-2 transition-colors"
+              >
+                <div className="min-w-0">
+                  <p className="text-base font-medium text-gray-900 truncate">
+                    {inquiry.familyName ?? "A family"}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {locationNames.get(inquiry.to_profile_id)} &middot;{" "}
+                    {new Date(inquiry.created_at).toLocaleDateString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                    })}
+                  </p>
+                </div>
+                <Badge variant={STATUS_VARIANTS[inquiry.status]}>{inquiry.status}</Badge>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import { useEffect, useState, useCallback, useRef } from "react";
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { hasTeamPermission } from "@/lib/team";
+import { notifyMessagesRead } from "@/hooks/use-unread-messages";
+import type { Connection, ConnectionMessage } from "@/lib/types";
+import Button from "@/components/ui/Button";
+import UpgradePrompt from "@/components/providers/UpgradePrompt";
+
+const MAX_MESSAGE_LENGTH = 5000;
+
+interface MessageThreadProps {
+  connection: Connection;
+  /** The profile viewing the thread. */
+  activeProfileId: string;
+  /** Display name of the other participant. */
+  otherName: string;
+  /** Whether the viewer may send messages (paywall for provider replies). */
+  canReply: boolean;
+  /** Provider without access to inquiry details; the API blurs their bodies. */
+  blurred: boolean;
+}
+
+/**
+ * Conversation thread for a single connection.
+ * Marks inbound messages as read when opened and shows a read receipt
+ * under the viewer's most recent message.
+ */
+export default function MessageThread({
+  connection,
+  activeProfileId,
+  otherName,
+  canReply,
+  blurred,
+}: MessageThreadProps) {
+  const [messages, setMessages] = useState<ConnectionMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const { activeRole } = useAuth();
+
+  const isClosed =
+    connection.status === "declined" || connection.status === "archived";
+
+  const fetchMessages = useCallback(async () => {
+    if (!isSupabaseConfigured()) {
+      setLoading(false);
+      return;
+    }
+
+    // Bodies from the other side come back blurred when the paywall applies
+    const res = await fetch(
+      `/api/connections/${connection.id}/messages?profile_id=${activeProfileId}`
+    );
+    const data = await res.json();
+
+    if (!res.ok) {
+      setError(data.error || "Failed to load messages");
+      setLoading(false);
+      return;
+    }
+
+    const thread = (data.messages as ConnectionMessage[]) || [];
+    setMessages(thread);
+    setLoading(false);
+
+    // Read receipts — only once the viewer can actually see the content
+    if (blurred) return;
+    const hasUnread = thread.some(
+      (m) => m.recipient_profile_id === activeProfileId && !m.read_at
+    );
+    if (!hasUnread) return;
+
+    const supabase = createClient();
+    const { error: readError } = await supabase
+      .from("connection_messages")
+      .update({ read_at: new Date().toISOString() })
+      .eq("connection_id", connection.id)
+      .eq("recipient_profile_id", activeProfileId)
+      .is("read_at", null);
+
+    if (!readError) notifyMessagesRead();
+  }, [connection.id, activeProfileId, blurred]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [messages.length]);
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body) return;
+
+    setSending(true);
+    setError("");
+    try {
+      // Sent through the API so provider replies are checked against the paywall
+      const res = await fetch(`/api/connections/${connection.id}/messages`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ profile_id: activeProfileId, body }),
+      });
+
+      const data = await res.json();
+      if (res.status === 402) {
+        throw new Error("you've used all your free connections. Upgrade to Pro to reply.");
+      }
+      if (!res.ok) throw new Error(data.error || "Failed to send");
+
+      setMessages((prev) => [...prev, data.message as ConnectionMessage]);
+      setDraft("");
+    } catch (err: unknown) {
+      const msg =
+        err && typeof err === "object" && "message" in err
+          ? (err as { message: string }).message
+          : String(err);
+      setError(`Message not sent: ${msg}`);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const lastOwnMessageId = [...messages]
+    .reverse()
+    .find((m) => m.sender_profile_id === activeProfileId)?.id;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6 mb-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">Messages</h2>
+
+      {loading ? (
+        <div className="py-8 text-center">
+          <div className="animate-spin w-6 h-6 border-4 border-primary-600 border-t-transparent rounded-full mx-auto" />
+        </div>
+      ) : messages.length === 0 ? (
+        <p className="text-base text-gray-500 py-4">
+          No messages yet. Start the conversation with {otherName}.
+        </p>
+      ) : (
+        <div className="space-y-4 max-h-[28rem] overflow-y-auto pr-1">
+          {messages.map((message) => {
+            const isOwn = message.sender_profile_id === activeProfileId;
+            return (
+              <div
+                key={message.id}
+                className={`flex flex-col ${isOwn ? "items-end" : "items-start"}`}
+              >
+                <div
+                  className={[
+                    "max-w-[80%] rounded-2xl px-4 py-3 text-base whitespace-pre-wrap break-words",
+                    isOwn
+                      ? "bg-primary-600 text-white rounded-br-sm"
+                      : "bg-gray-100 text-gray-800 rounded-bl-sm",
+                  ].join(" ")}
+                >
+                  {message.body}
+                </div>
+                <p className="text-xs text-gray-400 mt-1">
+                  {formatTimestamp(message.created_at)}
+                  {message.id === lastOwnMessageId && (
+                    <span className="ml-2">
+                      {message.read_at
+                        ? `Read ${formatTimestamp(message.read_at)}`
+                        : "Sent"}
+                    </span>
+                  )}
+                </p>
+              </div>
+            );
+          })}
+          <div ref={bottomRef} />
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 bg-red-50 text-red-700 px-4 py-3 rounded-lg text-base" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="mt-6 border-t border-gray-100 pt-4">
+        {isClosed ? (
+          <p className="text-sm text-gray-500">
+            This connection is {connection.status}. Messaging is closed.
+          </p>
+        ) : !hasTeamPermission(activeRole, "respond") ? (
+          <p className="text-sm text-gray-500">
+            Your role on this profile is view-only.
+          </p>
+        ) : !canReply ? (
+          // The page already shows a full upgrade prompt when details are blurred
+          blurred ? (
+            <p className="text-sm text-warm-600 font-medium">
+              Upgrade to Pro to read and reply to messages.
+            </p>
+          ) : (
+            <UpgradePrompt context="reply to messages from families" />
+          )
+        ) : (
+          <div className="space-y-3">
+            <label htmlFor="message-draft" className="sr-only">
+              Write a message
+            </label>
+            <textarea
+              id="message-draft"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value.slice(0, MAX_MESSAGE_LENGTH))}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                  e.preventDefault();
+                  handleSend();
+                }
+              }}
+              placeholder={`Write a message to ${otherName}...`}
+              rows={3}
+              className="w-full px-4 py-3 text-base border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-colors"
+            />
+            <div className="flex justify-end">
+              <Button
+                size="sm"
+                onClick={handleSend}
+                loading={sending}
+                disabled={!draft.trim()}
+              >
+                Send
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
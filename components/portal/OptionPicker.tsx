@@ -0,0 +1,89 @@
+"use client";
+
+import type { DetailOption } from "@/lib/provider-details";
+
+interface OptionPickerProps {
+  label: string;
+  options: DetailOption[];
+  /** Option ids, plus any free text from older profiles */
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Grouped toggle chips for a controlled taxonomy (amenities, care
+ * services). Free-text values from before the taxonomy are listed
+ * separately so they can be removed.
+ */
+export default function OptionPicker({
+  label,
+  options,
+  selected,
+  onChange,
+  disabled = false,
+}: OptionPickerProps) {
+  const groups = [...new Set(options.map((o) => o.group))];
+  const extras = selected.filter((value) => !options.some((o) => o.id === value));
+
+  const toggle = (id: string) => {
+    onChange(selected.includes(id) ? selected.filter((v) => v !== id) : [...selected, id]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-base font-medium text-gray-700">{label}</p>
+      {groups.map((group) => (
+        <div key={group}>
+          <p className="text-sm text-gray-500 mb-2">{group}</p>
+          <div className="flex flex-wrap gap-2">
+            {options
+              .filter((o) => o.group === group)
+              .map((option) => (
+                <button
+                  key={option.id}
+                  type="button"
+                  onClick={() => toggle(option.id)}
+                  disabled={disabled}
+                  aria-pressed={selected.includes(option.id)}
+                  className={[
+                    "px-3 py-1.5 rounded-lg text-sm font-medium transition-colors border min-h-[36px]",
+                    selected.includes(option.id)
+                      ? "bg-primary-50 border-primary-500 text-primary-700"
+                      : "bg-white border-gray-300 text-gray-700 hover:border-gray-400",
+                  ].join(" ")}
+                >
+                  {option.label}
+                </button>
+              ))}
+          </div>
+        </div>
+      ))}
+
+      {extras.length > 0 && (
+        <div>
+          <p className="text-sm text-gray-500 mb-2">Added before (not in the list above)</p>
+          <div className="flex flex-wrap gap-2">
+            {extras.map((value) => (
+              <span
+                key={value}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm font-medium border bg-gray-50 border-gray-300 text-gray-700"
+              >
+                {value}
+                <button
+                  type="button"
+                  onClick={() => toggle(value)}
+                  disabled={disabled}
+                  className="text-gray-400 hover:text-gray-600"
+                  aria-label={`Remove ${value}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { ROLE_LABELS } from "@/lib/team";
+import type { Profile, TeamRole } from "@/lib/types";
+import Button from "@/components/ui/Button";
+
+interface Invite {
+  id: string;
+  role: TeamRole;
+  created_at: string;
+  profile: Pick<Profile, "id" | "display_name" | "city" | "state"> | null;
+}
+
+/**
+ * Team invites waiting for the signed-in user. Renders nothing when
+ * there are none.
+ */
+export default function PendingInvites() {
+  const { user, refreshAccountData } = useAuth();
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!user || !isSupabaseConfigured()) return;
+
+    let cancelled = false;
+    fetch("/api/team/invites")
+      .then((res) => (res.ok ? res.json() : { invites: [] }))
+      .then((data) => {
+        if (!cancelled) setInvites(data.invites ?? []);
+      })
+      .catch((err) => console.error("Failed to fetch invites:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const respond = async (invite: Invite, accept: boolean) => {
+    setBusyId(invite.id);
+    setError("");
+    try {
+      const res = await fetch(`/api/team/invites/${invite.id}`, {
+        method: accept ? "POST" : "DELETE",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to respond to invite");
+
+      setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+      if (accept) await refreshAccountData();
+    } catch (err: unknown) {
+      const msg =
+        err && typeof err === "object" && "message" in err
+          ? (err as { message: string }).message
+          : String(err);
+      setError(msg);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (invites.length === 0) return null;
+
+  return (
+    <div className="mb-8 bg-primary-50 border border-primary-200 rounded-xl p-6 text-left">
+      <h2 className="text-lg font-semibold text-primary-800 mb-3">Team invites</h2>
+      {error && (
+        <p className="mb-3 text-sm text-red-700" role="alert">
+          {error}
+        </p>
+      )}
+      <ul className="space-y-3">
+        {invites.map((invite) => (
+          <li key={invite.id} className="flex items-center justify-between gap-4 flex-wrap">
+            <p className="text-base text-primary-900">
+              Join <span className="font-semibold">{invite.profile?.display_name ?? "a provider"}</span>{" "}
+              as {ROLE_LABELS[invite.role].toLowerCase()}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => respond(invite, true)}
+                loading={busyId === invite.id}
+                disabled={busyId !== null}
+              >
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => respond(invite, false)}
+                disabled={busyId !== null}
+              >
+                Decline
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,368 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  MAX_CAPTION_LENGTH,
+  MAX_PHOTO_BYTES,
+  MAX_PHOTOS,
+  PHOTO_TYPES,
+} from "@/lib/profile-photos";
+import type { ProfilePhoto } from "@/lib/types";
+
+interface PhotoManagerProps {
+  profileId: string;
+  /** Called after the logo or cover photo changes, to refresh the active profile */
+  onChange?: () => void;
+}
+
+function getErrorMessage(err: unknown): string {
+  return err && typeof err === "object" && "message" in err
+    ? (err as { message: string }).message
+    : String(err);
+}
+
+/** Same checks as the API, so a bad file fails before it's uploaded. */
+function checkFile(file: File): string | null {
+  if (!PHOTO_TYPES.includes(file.type)) return `${file.name}: upload a JPG, PNG or WebP image`;
+  if (file.size > MAX_PHOTO_BYTES) return `${file.name}: images must be 5 MB or smaller`;
+  return null;
+}
+
+/**
+ * Lets a provider upload their logo and a photo gallery, then caption,
+ * reorder and delete photos. The first photo is the cover families see
+ * in search results.
+ */
+export default function PhotoManager({ profileId, onChange }: PhotoManagerProps) {
+  const [photos, setPhotos] = useState<ProfilePhoto[]>([]);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [captions, setCaptions] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const fetchPhotos = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/profiles/${profileId}/photos`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load photos");
+      setPhotos(data.photos);
+      setLogoUrl(data.logo_url);
+      setCaptions(
+        Object.fromEntries((data.photos as ProfilePhoto[]).map((p) => [p.id, p.caption ?? ""]))
+      );
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [profileId]);
+
+  useEffect(() => {
+    fetchPhotos();
+  }, [fetchPhotos]);
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const invalid = checkFile(file);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setBusyId("logo");
+    setError("");
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch(`/api/profiles/${profileId}/logo`, { method: "POST", body: formData });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to upload logo");
+      setLogoUrl(data.logo_url);
+      onChange?.();
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleLogoRemove = async () => {
+    setBusyId("logo");
+    setError("");
+    try {
+      const res = await fetch(`/api/profiles/${profileId}/logo`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to remove logo");
+      setLogoUrl(null);
+      onChange?.();
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    const room = MAX_PHOTOS - photos.length;
+    const invalid = files.map(checkFile).find(Boolean);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    if (files.length > room) {
+      setError(`You can add ${room} more ${room === 1 ? "photo" : "photos"} (up to ${MAX_PHOTOS}).`);
+      return;
+    }
+
+    setUploading(true);
+    setError("");
+    const hadPhotos = photos.length > 0;
+    try {
+      // One at a time so the gallery keeps the order the files were picked in
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append("file", file);
+        const res = await fetch(`/api/profiles/${profileId}/photos`, { method: "POST", body: formData });
+        const data = await res.json();
+        if (!res.ok) throw new Error(`${file.name}: ${data.error || "Failed to upload"}`);
+        const photo = data.photo as ProfilePhoto;
+        setPhotos((prev) => [...prev, photo]);
+        setCaptions((prev) => ({ ...prev, [photo.id]: "" }));
+      }
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setUploading(false);
+      if (!hadPhotos) onChange?.();
+    }
+  };
+
+  const handleCaptionSave = async (photo: ProfilePhoto) => {
+    const caption = (captions[photo.id] ?? "").trim();
+    if (caption === (photo.caption ?? "")) return;
+
+    setBusyId(photo.id);
+    setError("");
+    try {
+      const res = await fetch(`/api/profiles/${profileId}/photos/${photo.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ caption }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save caption");
+      setPhotos((prev) => prev.map((p) => (p.id === photo.id ? data.photo : p)));
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= photos.length) return;
+
+    const reordered = [...photos];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    const previous = photos;
+    setPhotos(reordered);
+    setBusyId(photos[index].id);
+    setError("");
+    try {
+      const res = await fetch(`/api/profiles/${profileId}/photos`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ order: reordered.map((p) => p.id) }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to reorder photos");
+      setPhotos(data.photos);
+      if (index === 0 || target === 0) onChange?.();
+    } catch (err: unknown) {
+      setPhotos(previous);
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (photo: ProfilePhoto, index: number) => {
+    if (!confirm("Delete this photo? This can't be undone.")) return;
+
+    setBusyId(photo.id);
+    setError("");
+    try {
+      const res = await fetch(`/api/profiles/${profileId}/photos/${photo.id}`, { method: "DELETE" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to delete photo");
+      setPhotos((prev) => prev.filter((p) => p.id !== photo.id));
+      if (index === 0) onChange?.();
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const accept = PHOTO_TYPES.join(",");
+
+  return (
+    <section>
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Photos</h2>
+      <div className="space-y-8 bg-white p-6 rounded-xl border border-gray-200">
+        {error && (
+          <div className="bg-red-50 text-red-700 px-4 py-3 rounded-lg text-base" role="alert">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-base text-gray-500">Loading photos...</p>
+        ) : (
+          <>
+            {/* Logo */}
+            <div className="flex items-center gap-5">
+              <div className="w-20 h-20 rounded-xl border border-gray-200 bg-gray-50 flex items-center justify-center overflow-hidden flex-shrink-0">
+                {logoUrl ? (
+                  <img src={logoUrl} alt="Your logo" className="w-full h-full object-contain" />
+                ) : (
+                  <span className="text-sm text-gray-400">No logo</span>
+                )}
+              </div>
+              <div>
+                <p className="text-base font-medium text-gray-700">Logo</p>
+                <p className="text-sm text-gray-500 mb-2">Shown next to your name. A square image works best.</p>
+                <div className="flex items-center gap-3">
+                  <label className="px-3 py-1.5 bg-gray-100 text-gray-700 text-sm font-medium rounded-lg hover:bg-gray-200 transition-colors cursor-pointer">
+                    {busyId === "logo" ? "Saving..." : logoUrl ? "Replace logo" : "Upload logo"}
+                    <input
+                      type="file"
+                      accept={accept}
+                      onChange={handleLogoUpload}
+                      disabled={busyId === "logo"}
+                      className="sr-only"
+                    />
+                  </label>
+                  {logoUrl && (
+                    <button
+                      type="button"
+                      onClick={handleLogoRemove}
+                      disabled={busyId === "logo"}
+                      className="text-sm text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {/* Gallery */}
+            <div>
+              <div className="flex items-center justify-between gap-4 mb-3">
+                <div>
+                  <p className="text-base font-medium text-gray-700">Gallery</p>
+                  <p className="text-sm text-gray-500">
+                    {photos.length} of {MAX_PHOTOS} photos. The first photo is your cover image.
+                  </p>
+                </div>
+                {photos.length < MAX_PHOTOS && (
+                  <label className="px-3 py-1.5 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 transition-colors cursor-pointer flex-shrink-0">
+                    {uploading ? "Uploading..." : "Add photos"}
+                    <input
+                      type="file"
+                      accept={accept}
+                      multiple
+                      onChange={handlePhotoUpload}
+                      disabled={uploading}
+                      className="sr-only"
+                    />
+                  </label>
+                )}
+              </div>
+
+              {photos.length === 0 ? (
+                <p className="text-base text-gray-500 py-6 text-center border border-dashed border-gray-300 rounded-lg">
+                  No photos yet. JPG, PNG or WebP, up to 5 MB each.
+                </p>
+              ) : (
+                <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {photos.map((photo, index) => (
+                    <li key={photo.id} className="border border-gray-200 rounded-lg overflow-hidden">
+                      <div className="relative aspect-[4/3] bg-gray-100">
+                        <img
+                          src={photo.thumbnail_url}
+                          alt={photo.caption || `Photo ${index + 1}`}
+                          className="w-full h-full object-cover"
+                        />
+                        {index === 0 && (
+                          <span className="absolute top-2 left-2 bg-black/60 text-white text-xs font-medium px-2 py-0.5 rounded-full">
+                            Cover
+                          </span>
+                        )}
+                      </div>
+                      <div className="p-3 space-y-2">
+                        <input
+                          type="text"
+                          value={captions[photo.id] ?? ""}
+                          onChange={(e) =>
+                            setCaptions((prev) => ({ ...prev, [photo.id]: e.target.value }))
+                          }
+                          onBlur={() => handleCaptionSave(photo)}
+                          maxLength={MAX_CAPTION_LENGTH}
+                          placeholder="Add a caption"
+                          aria-label={`Caption for photo ${index + 1}`}
+                          className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        />
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-1">
+                            <button
+                              type="button"
+                              onClick={() => handleMove(index, -1)}
+                              disabled={index === 0 || busyId !== null}
+                              className="px-2 py-1 text-sm text-gray-600 rounded hover:bg-gray-100 disabled:opacity-40"
+                              aria-label="Move earlier"
+                            >
+                              ←
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleMove(index, 1)}
+                              disabled={index === photos.length - 1 || busyId !== null}
+                              className="px-2 py-1 text-sm text-gray-600 rounded hover:bg-gray-100 disabled:opacity-40"
+                              aria-label="Move later"
+                            >
+                              →
+                            </button>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(photo, index)}
+                            disabled={busyId !== null}
+                            className="text-sm text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -4,6 +4,7 @@ import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { useAuth } from "@/components/auth/AuthProvider";
 import ProfileSwitcher from "@/components/shared/ProfileSwitcher";
+import { useUnreadMessages } from "@/hooks/use-unread-messages";
 import type { Profile } from "@/lib/types";
 
 interface PortalSidebarProps {
@@ -14,6 +15,8 @@ interface NavItem {
   label: string;
   href: string;
   icon: React.ReactNode;
+  /** Show the unread message count next to this item. */
+  showUnread?: boolean;
 }
 
 interface NavSection {
@@ -53,6 +56,17 @@ const icons = {
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
     </svg>
   ),
+  locations: (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+    </svg>
+  ),
+  team: (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+    </svg>
+  ),
   search: (
     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
@@ -79,14 +93,19 @@ function getSidebarNav(profileType: string | undefined): SidebarNav {
 
   if (profileType === "organization" || profileType === "caregiver") {
     mainItems.push(
-      { label: "Connections", href: "/portal/connections", icon: icons.connections },
-      { label: "Activity", href: "/portal/calendar", icon: icons.calendar }
+      { label: "Connections", href: "/portal/connections", icon: icons.connections, showUnread: true },
+      { label: "Activity", href: "/portal/calendar", icon: icons.calendar },
+      { label: "Team", href: "/portal/team", icon: icons.team }
     );
   }
 
+  if (profileType === "organization") {
+    mainItems.push({ label: "Locations", href: "/portal/locations", icon: icons.locations });
+  }
+
   if (profileType === "family") {
     mainItems.push(
-      { label: "My Inquiries", href: "/portal/connections", icon: icons.inquiries },
+      { label: "My Inquiries", href: "/portal/connections", icon: icons.inquiries, showUnread: true },
       { label: "Activity", href: "/portal/calendar", icon: icons.calendar }
     );
   }
@@ -127,6 +146,7 @@ function getSidebarNav(profileType: string | undefined): SidebarNav {
 export default function PortalSidebar({ profile }: PortalSidebarProps) {
   const pathname = usePathname();
   const sidebarNav = getSidebarNav(profile?.type);
+  const unreadCount = useUnreadMessages(profile?.id);
 
   // Flat list of main items for mobile bottom nav (first 4 max)
   const mobileItems = (sidebarNav.main[0]?.items || []).slice(0, 4);
@@ -150,8 +170,23 @@ export default function PortalSidebar({ profile }: PortalSidebarProps) {
             : compact ? "text-gray-500" : "text-gray-600 hover:bg-gray-50 hover:text-gray-900",
         ].join(" ")}
       >
-        {item.icon}
-        <span>{item.label}</span>
+        <span className="relative">
+          {item.icon}
+          {compact && item.showUnread && unreadCount > 0 && (
+            <span className="absolute -top-1.5 -right-2 min-w-[16px] h-4 px-1 rounded-full bg-primary-600 text-white text-[10px] font-semibold leading-4 text-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </span>
+        <span className={compact ? "" : "flex-1"}>{item.label}</span>
+        {!compact && item.showUnread && unreadCount > 0 && (
+          <span
+            className="min-w-[22px] px-1.5 py-0.5 rounded-full bg-primary-600 text-white text-xs font-semibold text-center"
+            aria-label={`${unreadCount} unread messages`}
+          >
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
       </Link>
     );
   };
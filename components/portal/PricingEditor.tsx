@@ -0,0 +1,149 @@
+"use client";
+
+import {
+  ROOM_TYPES,
+  type HourlyPricingDraft,
+  type RoomPriceDraft,
+} from "@/lib/provider-details";
+
+interface PricingEditorProps {
+  rooms: RoomPriceDraft[];
+  hourly: HourlyPricingDraft;
+  onRoomsChange: (rooms: RoomPriceDraft[]) => void;
+  onHourlyChange: (hourly: HourlyPricingDraft) => void;
+  disabled?: boolean;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg text-base focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50";
+
+/**
+ * Monthly prices per room type (residential care) and hourly rates
+ * with a minimum shift (in-home care). Validated on save with
+ * parsePricingDrafts().
+ */
+export default function PricingEditor({
+  rooms,
+  hourly,
+  onRoomsChange,
+  onHourlyChange,
+  disabled = false,
+}: PricingEditorProps) {
+  const unusedTypes = ROOM_TYPES.filter((t) => !rooms.some((r) => r.room_type === t.id));
+
+  const updateRoom = (index: number, changes: Partial<RoomPriceDraft>) => {
+    onRoomsChange(rooms.map((room, i) => (i === index ? { ...room, ...changes } : room)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div>
+          <p className="text-base font-medium text-gray-700">Monthly pricing by room type</p>
+          <p className="text-sm text-gray-500">For residential care. Leave the second price blank for a single rate.</p>
+        </div>
+
+        {rooms.map((room, index) => (
+          <div key={room.room_type} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-3 items-center">
+            <select
+              value={room.room_type}
+              onChange={(e) => updateRoom(index, { room_type: e.target.value as RoomPriceDraft["room_type"] })}
+              disabled={disabled}
+              aria-label="Room type"
+              className={inputClass}
+            >
+              {ROOM_TYPES.filter((t) => t.id === room.room_type || unusedTypes.includes(t)).map((t) => (
+                <option key={t.id} value={t.id}>{t.label}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={room.min}
+              onChange={(e) => updateRoom(index, { min: e.target.value })}
+              disabled={disabled}
+              placeholder="From $/mo"
+              aria-label="Monthly price from"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              inputMode="decimal"
+              value={room.max}
+              onChange={(e) => updateRoom(index, { max: e.target.value })}
+              disabled={disabled}
+              placeholder="To $/mo"
+              aria-label="Monthly price to"
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={() => onRoomsChange(rooms.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="text-sm text-red-600 hover:text-red-700 font-medium disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+
+        {unusedTypes.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onRoomsChange([...rooms, { room_type: unusedTypes[0].id, min: "", max: "" }])}
+            disabled={disabled}
+            className="text-sm font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50"
+          >
+            + Add a room type
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <p className="text-base font-medium text-gray-700">Hourly rates</p>
+          <p className="text-sm text-gray-500">For in-home care. Leave blank if you don&apos;t bill by the hour.</p>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <label className="text-sm font-medium text-gray-700">
+            From ($/hr)
+            <input
+              type="text"
+              inputMode="decimal"
+              value={hourly.min}
+              onChange={(e) => onHourlyChange({ ...hourly, min: e.target.value })}
+              disabled={disabled}
+              placeholder="e.g. 28"
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            To ($/hr)
+            <input
+              type="text"
+              inputMode="decimal"
+              value={hourly.max}
+              onChange={(e) => onHourlyChange({ ...hourly, max: e.target.value })}
+              disabled={disabled}
+              placeholder="e.g. 35"
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            Minimum shift (hours)
+            <input
+              type="number"
+              min={1}
+              max={24}
+              value={hourly.min_shift_hours}
+              onChange={(e) => onHourlyChange({ ...hourly, min_shift_hours: e.target.value })}
+              disabled={disabled}
+              placeholder="e.g. 4"
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+}
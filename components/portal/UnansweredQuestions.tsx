@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
+import Button from "@/components/ui/Button";
+import { MAX_ANSWER_LENGTH } from "@/lib/provider-questions";
+import type { PublicProviderQuestion } from "@/lib/types";
+
+interface UnansweredQuestionsProps {
+  profileId: string;
+  /** Reports the number still waiting, for the dashboard stat card. */
+  onCountChange?: (count: number) => void;
+}
+
+/**
+ * To-do list of questions families asked on the provider's public page,
+ * answered inline. Answers appear on the page right away.
+ */
+export default function UnansweredQuestions({ profileId, onCountChange }: UnansweredQuestionsProps) {
+  const [questions, setQuestions] = useState<PublicProviderQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [answer, setAnswer] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!isSupabaseConfigured()) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchQuestions = async () => {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from("public_provider_questions")
+        .select("*")
+        .eq("provider_profile_id", profileId)
+        .is("answer", null)
+        .order("created_at", { ascending: true });
+
+      if (cancelled) return;
+      setQuestions((data as PublicProviderQuestion[] | null) ?? []);
+      setLoading(false);
+    };
+
+    fetchQuestions();
+    return () => {
+      cancelled = true;
+    };
+  }, [profileId]);
+
+  useEffect(() => {
+    if (!loading) onCountChange?.(questions.length);
+  }, [loading, questions.length, onCountChange]);
+
+  const handleAnswer = async (questionId: string) => {
+    setSaving(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/questions/${questionId}/answer`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ answer }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save answer");
+
+      setQuestions((prev) => prev.filter((q) => q.id !== questionId));
+      setOpenId(null);
+      setAnswer("");
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || questions.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-1">
+        Questions waiting for you
+      </h2>
+      <p className="text-base text-gray-500 mb-4">
+        Families asked these on your public profile. Your answers are shown to everyone.
+      </p>
+      <div className="bg-white rounded-xl border border-gray-200 divide-y divide-gray-100">
+        {questions.map((q) => (
+          <div key={q.id} className="px-6 py-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="text-base text-gray-900">{q.question}</p>
+                <p className="text-sm text-gray-500 mt-0.5">
+                  {q.asker_name || "Anonymous"} &middot;{" "}
+                  {new Date(q.created_at).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+                </p>
+              </div>
+              {openId !== q.id && (
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => {
+                    setOpenId(q.id);
+                    setAnswer("");
+                    setError("");
+                  }}
+                >
+                  Answer
+                </Button>
+              )}
+            </div>
+
+            {openId === q.id && (
+              <div className="mt-3 space-y-2">
+                <textarea
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  rows={3}
+                  maxLength={MAX_ANSWER_LENGTH}
+                  autoFocus
+                  placeholder="Write a clear, helpful answer..."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-base focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+                {error && (
+                  <p className="text-sm text-red-600" role="alert">
+                    {error}
+                  </p>
+                )}
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    loading={saving}
+                    disabled={!answer.trim()}
+                    onClick={() => handleAnswer(q.id)}
+                  >
+                    Post answer
+                  </Button>
+                  <Button size="sm" variant="ghost" disabled={saving} onClick={() => setOpenId(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { WEEKDAYS, type WeeklyHoursDraft } from "@/lib/provider-details";
+import type { Weekday } from "@/lib/types";
+
+interface WeeklyHoursEditorProps {
+  hours: WeeklyHoursDraft;
+  onChange: (hours: WeeklyHoursDraft) => void;
+  disabled?: boolean;
+}
+
+const DEFAULT_HOURS = { open: "09:00", close: "17:00" };
+const ALL_DAY = { open: "00:00", close: "23:59" };
+
+const timeClass =
+  "px-3 py-2 border border-gray-300 rounded-lg text-base focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50";
+
+/** Opening hours per weekday. Validated on save with parseWeeklyHoursDraft(). */
+export default function WeeklyHoursEditor({ hours, onChange, disabled = false }: WeeklyHoursEditorProps) {
+  const setDay = (day: Weekday, value: WeeklyHoursDraft[Weekday]) => {
+    onChange({ ...hours, [day]: value });
+  };
+
+  const copyToWeekdays = () => {
+    const monday = hours.mon;
+    onChange({ ...hours, tue: monday, wed: monday, thu: monday, fri: monday });
+  };
+
+  const isAllDay = (day: Weekday) =>
+    hours[day]?.open === ALL_DAY.open && hours[day]?.close === ALL_DAY.close;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <p className="text-base font-medium text-gray-700">Hours of operation</p>
+          <p className="text-sm text-gray-500">When families can visit or reach your office.</p>
+        </div>
+        <button
+          type="button"
+          onClick={copyToWeekdays}
+          disabled={disabled}
+          className="text-sm font-medium text-primary-600 hover:text-primary-700 disabled:opacity-50 flex-shrink-0"
+        >
+          Copy Monday to weekdays
+        </button>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {WEEKDAYS.map((day) => {
+          const value = hours[day.id];
+          return (
+            <div key={day.id} className="flex flex-wrap items-center gap-3 py-2">
+              <label className="flex items-center gap-2 w-32 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={value !== null}
+                  onChange={(e) => setDay(day.id, e.target.checked ? DEFAULT_HOURS : null)}
+                  disabled={disabled}
+                  className="w-5 h-5 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <span className="text-base text-gray-700">{day.label}</span>
+              </label>
+
+              {value === null ? (
+                <span className="text-sm text-gray-400">Closed</span>
+              ) : (
+                <>
+                  <input
+                    type="time"
+                    value={value.open}
+                    onChange={(e) => setDay(day.id, { ...value, open: e.target.value })}
+                    disabled={disabled || isAllDay(day.id)}
+                    aria-label={`${day.label} opening time`}
+                    className={timeClass}
+                  />
+                  <span className="text-gray-400">to</span>
+                  <input
+                    type="time"
+                    value={value.close}
+                    onChange={(e) => setDay(day.id, { ...value, close: e.target.value })}
+                    disabled={disabled || isAllDay(day.id)}
+                    aria-label={`${day.label} closing time`}
+                    className={timeClass}
+                  />
+                  <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={isAllDay(day.id)}
+                      onChange={(e) => setDay(day.id, e.target.checked ? ALL_DAY : DEFAULT_HOURS)}
+                      disabled={disabled}
+                      className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    24 hours
+                  </label>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,30 +1,56 @@
 "use client";
 
 import { useState } from "react";
+import { groupOptionValues, type DetailOption } from "@/lib/provider-details";
 
 interface CareServicesGridProps {
   services: string[];
   initialCount?: number;
+  /** Taxonomy to label and group the values by (see lib/provider-details) */
+  options?: DetailOption[];
 }
 
 export default function CareServicesGrid({
   services,
   initialCount = 12,
+  options,
 }: CareServicesGridProps) {
   const [expanded, setExpanded] = useState(false);
-  const needsExpand = services.length > initialCount;
-  const visible = needsExpand && !expanded ? services.slice(0, initialCount) : services;
+  const groups = options
+    ? groupOptionValues(services, options)
+    : [{ group: "", labels: services }];
+  const total = groups.reduce((sum, g) => sum + g.labels.length, 0);
+  const needsExpand = total > initialCount;
+
+  // Trim groups in order until initialCount chips are shown
+  let remaining = needsExpand && !expanded ? initialCount : total;
+  const visibleGroups = groups
+    .map((g) => {
+      const labels = g.labels.slice(0, Math.max(remaining, 0));
+      remaining -= labels.length;
+      return { ...g, labels };
+    })
+    .filter((g) => g.labels.length > 0);
 
   return (
     <div>
-      <div className="flex flex-wrap gap-2.5">
-        {visible.map((service) => (
-          <span
-            key={service}
-            className="px-4 py-2 rounded-full text-text-sm text-gray-600 bg-white border border-gray-200 hover:border-primary-300 hover:text-gray-900 transition-colors cursor-default"
-          >
-            {service}
-          </span>
+      <div className="space-y-5">
+        {visibleGroups.map((g) => (
+          <div key={g.group}>
+            {g.group && (
+              <p className="text-sm font-medium text-gray-500 mb-2.5">{g.group}</p>
+            )}
+            <div className="flex flex-wrap gap-2.5">
+              {g.labels.map((service) => (
+                <span
+                  key={service}
+                  className="px-4 py-2 rounded-full text-text-sm text-gray-600 bg-white border border-gray-200 hover:border-primary-300 hover:text-gray-900 transition-colors cursor-default"
+                >
+                  {service}
+                </span>
+              ))}
+            </div>
+          </div>
         ))}
       </div>
       {needsExpand && (
@@ -32,7 +58,7 @@ export default function CareServicesGrid({
           onClick={() => setExpanded(!expanded)}
           className="mt-4 text-text-sm font-semibold text-primary-600 hover:text-primary-700 transition-colors"
         >
-          {expanded ? "Show less" : `Show all ${services.length} services`}
+          {expanded ? "Show less" : `Show all ${total} services`}
         </button>
       )}
     </div>
@@ -0,0 +1,326 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ClaimCheck, ClaimCheckStatus, ClaimVerification, Profile } from "@/lib/types";
+import Badge from "@/components/ui/Badge";
+import Button from "@/components/ui/Button";
+import Input from "@/components/ui/Input";
+
+type ClaimantVerification = Omit<
+  ClaimVerification,
+  "email_code_hash" | "phone_code" | "failed_code_attempts"
+>;
+
+interface ClaimVerificationStepsProps {
+  profile: Profile;
+}
+
+const STATUS_LABELS: Record<ClaimCheckStatus, string> = {
+  pass: "Verified",
+  fail: "Doesn't match",
+  pending: "In progress",
+  missing: "Not started",
+};
+
+const STATUS_VARIANTS: Record<ClaimCheckStatus, "verified" | "rejected" | "pending" | "default"> = {
+  pass: "verified",
+  fail: "rejected",
+  pending: "pending",
+  missing: "default",
+};
+
+/**
+ * Evidence steps for a pending claim: business email, phone callback,
+ * license number and a supporting document. Each one strengthens the
+ * claim for the admin reviewing it; none are required.
+ */
+export default function ClaimVerificationSteps({ profile }: ClaimVerificationStepsProps) {
+  const [verification, setVerification] = useState<ClaimantVerification | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState("");
+  const [email, setEmail] = useState("");
+  const [emailCode, setEmailCode] = useState("");
+  const [phoneCode, setPhoneCode] = useState("");
+  const [license, setLicense] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/claims/${profile.id}`)
+      .then((res) => (res.ok ? res.json() : { verification: null }))
+      .then((data) => {
+        if (cancelled) return;
+        setVerification(data.verification);
+        setEmail(data.verification?.business_email ?? "");
+        setLicense(data.verification?.license_number ?? "");
+      })
+      .catch((err) => console.error("Failed to fetch claim:", err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile.id]);
+
+  const getErrorMessage = (err: unknown) =>
+    err && typeof err === "object" && "message" in err
+      ? (err as { message: string }).message
+      : "Something went wrong";
+
+  const submit = async (action: string, fields: Record<string, string> = {}) => {
+    setBusy(action);
+    setError("");
+    try {
+      const res = await fetch(`/api/claims/${profile.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, ...fields }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save");
+
+      setVerification(data.verification);
+      if (action === "verify_email") setEmailCode("");
+      if (action === "verify_phone") setPhoneCode("");
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setBusy("document");
+    setError("");
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch(`/api/claims/${profile.id}/document`, {
+        method: "POST",
+        body: formData,
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to upload");
+
+      setVerification(data.verification);
+    } catch (err: unknown) {
+      setError(getErrorMessage(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="py-8 text-center">
+        <div className="animate-spin w-8 h-8 border-4 border-primary-600 border-t-transparent rounded-full mx-auto" />
+      </div>
+    );
+  }
+
+  if (profile.claim_state === "rejected") {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-2xl p-6 md:p-8">
+        <h2 className="text-xl font-semibold text-red-800 mb-2">Your claim wasn&apos;t approved</h2>
+        <p className="text-base text-red-700">
+          {verification?.reject_reason ?? "Please contact support for more information."}
+        </p>
+      </div>
+    );
+  }
+
+  const checks = new Map<string, ClaimCheck>((verification?.checks ?? []).map((c) => [c.id, c]));
+  const statusBadge = (id: ClaimCheck["id"]) => {
+    const status = checks.get(id)?.status ?? "missing";
+    return <Badge variant={STATUS_VARIANTS[status]}>{STATUS_LABELS[status]}</Badge>;
+  };
+
+  const emailSent = !!verification?.email_code_sent_at && !verification.email_verified_at;
+  const callbackRequested = !!verification?.callback_requested_at && !verification.phone_verified_at;
+  // What the listing had on file when the claim started
+  const listingWebsite = verification?.listing_website ?? null;
+  const listingPhone = verification?.listing_phone ?? null;
+
+  return (
+    <div className="bg-white rounded-2xl border-2 border-gray-200 p-6 md:p-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Verify your claim</h2>
+      <p className="text-gray-600 mb-6">
+        Your claim is under review. Each step below helps us confirm you manage{" "}
+        {profile.display_name} and speeds up approval.
+      </p>
+
+      {error && (
+        <div className="mb-6 bg-red-50 text-red-700 px-4 py-3 rounded-lg text-base" role="alert">
+          {error}
+        </div>
+      )}
+
+      <div className="divide-y divide-gray-100">
+        {/* Business email */}
+        <section className="py-5 first:pt-0 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="text-lg font-semibold text-gray-900">Business email</h3>
+            {statusBadge("business_email")}
+          </div>
+          <p className="text-base text-gray-600">
+            {listingWebsite
+              ? `Use an address on your website's domain (${listingWebsite}).`
+              : "Use the email address your business uses with clients."}
+          </p>
+          {!verification?.email_verified_at && (
+            <>
+              <div className="flex gap-3 items-end">
+                <div className="flex-1">
+                  <Input
+                    label="Email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                  />
+                </div>
+                <Button
+                  variant="secondary"
+                  onClick={() => submit("send_email_code", { email })}
+                  loading={busy === "send_email_code"}
+                  disabled={busy !== null || !email.trim()}
+                >
+                  {emailSent ? "Resend code" : "Send code"}
+                </Button>
+              </div>
+              {emailSent && (
+                <div className="flex gap-3 items-end">
+                  <div className="flex-1">
+                    <Input
+                      label="Code from the email"
+                      inputMode="numeric"
+                      value={emailCode}
+                      onChange={(e) => setEmailCode(e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    onClick={() => submit("verify_email", { code: emailCode })}
+                    loading={busy === "verify_email"}
+                    disabled={busy !== null || !emailCode.trim()}
+                  >
+                    Verify
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </section>
+
+        {/* Phone callback */}
+        <section className="py-5 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="text-lg font-semibold text-gray-900">Phone callback</h3>
+            {statusBadge("phone_callback")}
+          </div>
+          {!listingPhone ? (
+            <p className="text-base text-gray-600">This listing has no phone number on file.</p>
+          ) : verification?.phone_verified_at ? (
+            <p className="text-base text-gray-600">Confirmed by a call to {listingPhone}.</p>
+          ) : callbackRequested ? (
+            <>
+              <p className="text-base text-gray-600">
+                We&apos;ll call {listingPhone} during business hours and read out a 6-digit
+                code. Enter it here.
+              </p>
+              <div className="flex gap-3 items-end">
+                <div className="flex-1">
+                  <Input
+                    label="Code from the call"
+                    inputMode="numeric"
+                    value={phoneCode}
+                    onChange={(e) => setPhoneCode(e.target.value)}
+                  />
+                </div>
+                <Button
+                  onClick={() => submit("verify_phone", { code: phoneCode })}
+                  loading={busy === "verify_phone"}
+                  disabled={busy !== null || !phoneCode.trim()}
+                >
+                  Verify
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-base text-gray-600">
+                We&apos;ll call the number on your listing, {listingPhone}, with a code.
+              </p>
+              <Button
+                variant="secondary"
+                onClick={() => submit("request_callback")}
+                loading={busy === "request_callback"}
+                disabled={busy !== null}
+              >
+                Request a call
+              </Button>
+            </>
+          )}
+        </section>
+
+        {/* License */}
+        <section className="py-5 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="text-lg font-semibold text-gray-900">License number</h3>
+            {statusBadge("license")}
+          </div>
+          <div className="flex gap-3 items-end">
+            <div className="flex-1">
+              <Input
+                label="State license number"
+                value={license}
+                onChange={(e) => setLicense(e.target.value)}
+              />
+            </div>
+            <Button
+              variant="secondary"
+              onClick={() => submit("set_license", { license_number: license })}
+              loading={busy === "set_license"}
+              disabled={busy !== null || license.trim() === (verification?.license_number ?? "")}
+            >
+              Save
+            </Button>
+          </div>
+        </section>
+
+        {/* Document */}
+        <section className="py-5 last:pb-0 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="text-lg font-semibold text-gray-900">Supporting document</h3>
+            {statusBadge("document")}
+          </div>
+          <p className="text-base text-gray-600">
+            A license certificate, business registration or utility bill showing your business name
+            and address. PDF, JPG or PNG up to 10 MB.
+          </p>
+          {verification?.document_name && (
+            <p className="text-base text-gray-900">Uploaded: {verification.document_name}</p>
+          )}
+          <label className="inline-flex items-center px-4 py-2 rounded-lg border border-gray-300 text-base font-medium text-gray-700 hover:bg-gray-50 cursor-pointer">
+            {busy === "document"
+              ? "Uploading..."
+              : verification?.document_name
+                ? "Replace document"
+                : "Upload document"}
+            <input
+              type="file"
+              accept=".pdf,.jpg,.jpeg,.png"
+              className="sr-only"
+              onChange={handleUpload}
+              disabled={busy !== null}
+            />
+          </label>
+        </section>
+      </div>
+    </div>
+  );
+}
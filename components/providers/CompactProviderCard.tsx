@@ -1,6 +1,7 @@
 import Link from "next/link";
 import type { Provider } from "./ProviderCard";
 import { getInitials } from "@/lib/provider-utils";
+import CompareButton from "./CompareButton";
 
 interface CompactProviderCardProps {
   provider: Provider;
@@ -32,6 +33,12 @@ export default function CompactProviderCard({ provider }: CompactProviderCardPro
             {provider.badge}
           </span>
         )}
+        <div className="absolute top-2 right-2">
+          <CompareButton
+            provider={{ slug: provider.slug, name: provider.name, image: provider.image || null }}
+            size="compact"
+          />
+        </div>
       </div>
 
       {/* Content */}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useCompare } from "@/components/shared/CompareContext";
+import { MAX_COMPARE } from "@/lib/provider-compare";
+import type { CompareItem } from "@/lib/types";
+
+interface CompareButtonProps {
+  provider: CompareItem;
+  /** "card" sits on a ProviderCard image; "compact" on a CompactProviderCard */
+  size?: "card" | "compact";
+}
+
+/** Adds a provider to the compare tray. Lives inside card links, so it stops the click. */
+export default function CompareButton({ provider, size = "card" }: CompareButtonProps) {
+  const { isComparing, canAdd, toggle } = useCompare();
+  const selected = isComparing(provider.slug);
+  const disabled = !selected && !canAdd;
+
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (!disabled) toggle(provider);
+      }}
+      aria-pressed={selected}
+      disabled={disabled}
+      title={disabled ? `You can compare up to ${MAX_COMPARE} providers` : undefined}
+      className={[
+        "inline-flex items-center gap-1.5 rounded-full font-medium shadow-sm backdrop-blur-sm transition-colors disabled:opacity-60 disabled:cursor-not-allowed",
+        size === "card" ? "h-9 px-3 text-xs" : "h-7 px-2.5 text-xs",
+        selected
+          ? "bg-primary-600 text-white hover:bg-primary-700"
+          : "bg-white/95 text-gray-700 hover:bg-white",
+      ].join(" ")}
+    >
+      {selected ? (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+        </svg>
+      ) : (
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+        </svg>
+      )}
+      {selected ? "Comparing" : "Compare"}
+    </button>
+  );
+}
@@ -5,10 +5,12 @@ import { useState } from "react";
 interface ImageCarouselProps {
   images: string[];
   alt: string;
+  /** Optional caption per image, e.g. from an uploaded gallery */
+  captions?: (string | null)[];
   className?: string;
 }
 
-export default function ImageCarousel({ images, alt, className }: ImageCarouselProps) {
+export default function ImageCarousel({ images, alt, captions, className }: ImageCarouselProps) {
   const [current, setCurrent] = useState(0);
 
   if (images.length === 0) return null;
@@ -20,10 +22,17 @@ export default function ImageCarousel({ images, alt, className }: ImageCarouselP
     <div className={`group/carousel relative rounded-lg overflow-hidden bg-gray-100 ${className || "h-[400px]"}`}>
       <img
         src={images[current]}
-        alt={`${alt} - Image ${current + 1}`}
+        alt={captions?.[current] || `${alt} - Image ${current + 1}`}
         className="w-full h-full object-cover"
       />
 
+      {/* Caption */}
+      {captions?.[current] && (
+        <p className="absolute bottom-5 left-5 max-w-[55%] bg-black/60 text-white text-sm px-3 py-1.5 rounded-lg">
+          {captions[current]}
+        </p>
+      )}
+
       {/* Navigation arrows */}
       {images.length > 1 && (
         <>
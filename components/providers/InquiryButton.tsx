@@ -7,6 +7,10 @@ import { getDeferredAction, clearDeferredAction } from "@/lib/deferred-action";
 import Button from "@/components/ui/Button";
 import Modal from "@/components/ui/Modal";
 import Input from "@/components/ui/Input";
+import SlotPicker from "@/components/providers/SlotPicker";
+import { APPOINTMENT_TYPE_LABELS } from "@/lib/appointments";
+import { hasEntitlement } from "@/lib/entitlements";
+import type { AppointmentType, AvailabilitySlot, MembershipPlan } from "@/lib/types";
 
 interface InquiryButtonProps {
   providerProfileId: string;
@@ -36,6 +40,12 @@ export default function InquiryButton({
   const [success, setSuccess] = useState(false);
   const [error, setError] = useState("");
   const [alreadySent, setAlreadySent] = useState(false);
+  const [existingConnectionId, setExistingConnectionId] = useState<string | null>(null);
+  const [hasOpenSlots, setHasOpenSlots] = useState(false);
+  const [scheduleOnly, setScheduleOnly] = useState(false);
+  const [wantsVisit, setWantsVisit] = useState(false);
+  const [appointmentType, setAppointmentType] = useState<AppointmentType>("tour");
+  const [selectedSlot, setSelectedSlot] = useState<AvailabilitySlot | null>(null);
   const [showCompleteProfileHint, setShowCompleteProfileHint] = useState(false);
   const autoInquiryTriggered = useRef(false);
 
@@ -53,12 +63,44 @@ export default function InquiryButton({
         .eq("type", "inquiry")
         .single();
 
-      if (data) setAlreadySent(true);
+      if (data) {
+        setAlreadySent(true);
+        setExistingConnectionId(data.id);
+      }
     };
 
     checkExisting();
   }, [user, activeProfile, providerProfileId]);
 
+  // Check whether the provider's plan includes tour scheduling and
+  // whether they publish any open availability
+  useEffect(() => {
+    if (!isSupabaseConfigured()) return;
+
+    const checkSlots = async () => {
+      const supabase = createClient();
+      const { data: plan } = await supabase.rpc("get_profile_plan", {
+        p_profile_id: providerProfileId,
+      });
+
+      if (!hasEntitlement((plan as MembershipPlan | null) ?? "free", "tour_scheduling")) {
+        setHasOpenSlots(false);
+        return;
+      }
+
+      const { count } = await supabase
+        .from("availability_slots")
+        .select("id", { count: "exact", head: true })
+        .eq("profile_id", providerProfileId)
+        .eq("is_booked", false)
+        .gt("starts_at", new Date().toISOString());
+
+      setHasOpenSlots((count ?? 0) > 0);
+    };
+
+    checkSlots();
+  }, [providerProfileId]);
+
   /**
    * Ensure the user has a family profile to send inquiries from.
    * If they signed up through the inquiry flow (skipping onboarding),
@@ -143,28 +185,76 @@ export default function InquiryButton({
         // Ensure we have a profile to send from
         const fromProfileId = await ensureFamilyProfile(supabase, account);
 
-        const { error: insertError } = await supabase
-          .from("connections")
-          .insert({
-            from_profile_id: fromProfileId,
-            to_profile_id: providerProfileId,
-            type: "inquiry",
-            status: "pending",
-            message: inquiryMessage.trim() || null,
-          });
-
-        if (insertError) {
-          // PostgreSQL unique violation error code
-          if (
-            insertError.code === "23505" ||
-            insertError.message.includes("duplicate") ||
-            insertError.message.includes("unique")
-          ) {
-            setAlreadySent(true);
-            setShowModal(false);
-            return;
+        // Reuse the existing inquiry when only scheduling a visit
+        let connectionId = existingConnectionId;
+        if (!connectionId) {
+          const { data: created, error: insertError } = await supabase
+            .from("connections")
+            .insert({
+              from_profile_id: fromProfileId,
+              to_profile_id: providerProfileId,
+              type: "inquiry",
+              status: "pending",
+              message: inquiryMessage.trim() || null,
+            })
+            .select("id")
+            .single();
+
+          if (insertError) {
+            // PostgreSQL unique violation error code
+            if (
+              insertError.code === "23505" ||
+              insertError.message.includes("duplicate") ||
+              insertError.message.includes("unique")
+            ) {
+              setAlreadySent(true);
+              if (!selectedSlot) {
+                setShowModal(false);
+                return;
+              }
+              const { data: existing } = await supabase
+                .from("connections")
+                .select("id")
+                .eq("from_profile_id", fromProfileId)
+                .eq("to_profile_id", providerProfileId)
+                .eq("type", "inquiry")
+                .single();
+              connectionId = existing?.id ?? null;
+            } else {
+              throw new Error(insertError.message);
+            }
+          } else {
+            connectionId = created.id;
+          }
+
+          if (connectionId) setExistingConnectionId(connectionId);
+        }
+
+        // Request the selected tour/consultation slot
+        if (selectedSlot && connectionId) {
+          const { error: appointmentError } = await supabase
+            .from("appointments")
+            .insert({
+              connection_id: connectionId,
+              slot_id: selectedSlot.id,
+              provider_profile_id: providerProfileId,
+              family_profile_id: fromProfileId,
+              appointment_type: appointmentType,
+              status: "requested",
+              starts_at: selectedSlot.starts_at,
+              ends_at: selectedSlot.ends_at,
+              timezone: selectedSlot.timezone,
+              notes: scheduleOnly ? inquiryMessage.trim() || null : null,
+              requested_by_profile_id: fromProfileId,
+            });
+
+          if (appointmentError) {
+            if (appointmentError.code === "23505") {
+              setSelectedSlot(null);
+              throw new Error("That time was just booked. Please pick another.");
+            }
+            throw new Error(appointmentError.message);
           }
-          throw new Error(insertError.message);
         }
 
         setSuccess(true);
@@ -180,6 +270,9 @@ export default function InquiryButton({
           setShowModal(false);
           setSuccess(false);
           setMessage("");
+          setSelectedSlot(null);
+          setWantsVisit(false);
+          setScheduleOnly(false);
           if (needsCompletion) {
             setShowCompleteProfileHint(true);
           }
@@ -195,7 +288,16 @@ export default function InquiryButton({
         setSubmitting(false);
       }
     },
-    [account, ensureFamilyProfile, providerProfileId]
+    [
+      account,
+      activeProfile,
+      ensureFamilyProfile,
+      providerProfileId,
+      existingConnectionId,
+      selectedSlot,
+      appointmentType,
+      scheduleOnly,
+    ]
   );
 
   // Auto-open inquiry modal after returning from auth
@@ -229,11 +331,22 @@ export default function InquiryButton({
     }
 
     if (alreadySent) return;
+    setScheduleOnly(false);
+    setShowModal(true);
+  };
+
+  const handleScheduleClick = () => {
+    setScheduleOnly(true);
+    setWantsVisit(true);
     setShowModal(true);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (scheduleOnly && !selectedSlot) {
+      setError("Please pick a time.");
+      return;
+    }
     submitInquiry(message);
   };
 
@@ -252,6 +365,17 @@ export default function InquiryButton({
           : "Sign Up to Request Consultation"}
       </Button>
 
+      {alreadySent && hasOpenSlots && (
+        <Button
+          fullWidth
+          variant="secondary"
+          className="mt-2.5"
+          onClick={handleScheduleClick}
+        >
+          Schedule a Tour or Consultation
+        </Button>
+      )}
+
       {showCompleteProfileHint && (
         <div className="mt-3 bg-primary-50 border border-primary-200 rounded-lg p-3 text-sm">
           <p className="text-primary-800 font-medium mb-1">
@@ -278,7 +402,11 @@ export default function InquiryButton({
             setError("");
           }
         }}
-        title={success ? "Inquiry Sent" : `Contact ${providerName}`}
+        title={
+          success
+            ? scheduleOnly ? "Request Sent" : "Inquiry Sent"
+            : scheduleOnly ? `Schedule with ${providerName}` : `Contact ${providerName}`
+        }
         size="md"
       >
         {success ? (
@@ -299,22 +427,72 @@ export default function InquiryButton({
               </svg>
             </div>
             <p className="text-lg text-gray-900 mb-1">
-              Your profile has been shared!
+              {scheduleOnly ? "Your request has been sent!" : "Your profile has been shared!"}
             </p>
             <p className="text-base text-gray-600">
-              {providerName} can now see your profile and respond to you.
+              {selectedSlot
+                ? `${providerName} will confirm your ${APPOINTMENT_TYPE_LABELS[appointmentType].toLowerCase()}. Track it under Activity in your portal.`
+                : `${providerName} can now see your profile and respond to you.`}
             </p>
           </div>
         ) : (
           <form onSubmit={handleSubmit} className="space-y-4">
-            <p className="text-base text-gray-600">
-              Share your profile with {providerName} to start a conversation.
-              They&#39;ll see your care needs and can reach out to you directly.
-            </p>
+            {!scheduleOnly && (
+              <p className="text-base text-gray-600">
+                Share your profile with {providerName} to start a conversation.
+                They&#39;ll see your care needs and can reach out to you directly.
+              </p>
+            )}
+
+            {hasOpenSlots && !scheduleOnly && (
+              <label className="flex items-center gap-2 text-base text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={wantsVisit}
+                  onChange={(e) => {
+                    setWantsVisit(e.target.checked);
+                    if (!e.target.checked) setSelectedSlot(null);
+                  }}
+                  className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Also request a tour or consultation
+              </label>
+            )}
+
+            {wantsVisit && (
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  {(Object.keys(APPOINTMENT_TYPE_LABELS) as AppointmentType[]).map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => {
+                        setAppointmentType(type);
+                        setSelectedSlot(null);
+                      }}
+                      className={[
+                        "px-4 py-2 rounded-lg text-sm font-medium transition-colors min-h-[36px]",
+                        appointmentType === type
+                          ? "bg-primary-600 text-white"
+                          : "bg-gray-100 text-gray-600 hover:bg-gray-200",
+                      ].join(" ")}
+                    >
+                      {APPOINTMENT_TYPE_LABELS[type]}
+                    </button>
+                  ))}
+                </div>
+                <SlotPicker
+                  providerProfileId={providerProfileId}
+                  appointmentType={appointmentType}
+                  selectedSlotId={selectedSlot?.id ?? null}
+                  onSelect={setSelectedSlot}
+                />
+              </div>
+            )}
 
             <Input
               as="textarea"
-              label="Add a note (optional)"
+              label={scheduleOnly ? "Anything the provider should know? (optional)" : "Add a note (optional)"}
               name="message"
               value={message}
               onChange={(e) =>
@@ -334,7 +512,7 @@ export default function InquiryButton({
             )}
 
             <Button type="submit" fullWidth loading={submitting}>
-              Share Profile
+              {scheduleOnly ? "Request Time" : selectedSlot ? "Share Profile & Request Time" : "Share Profile"}
             </Button>
           </form>
         )}
@@ -2,6 +2,7 @@
 
 import { useState } from "react";
 import Link from "next/link";
+import CompareButton from "@/components/providers/CompareButton";
 
 export interface StaffMember {
   name: string;
@@ -30,6 +31,7 @@ export interface Provider {
   staffImage?: string; // Optional staff/caregiver avatar (legacy, use staff instead)
   staff?: StaffMember; // Staff member info for overlay
   description?: string; // Short tagline or description
+  distanceMiles?: number; // Set when browsing near a location
   // Detailed pricing breakdown
   pricingDetails?: {
     service: string; // e.g., "Assisted Living"
@@ -72,6 +74,11 @@ const getCareTypeColor = (type: string) => {
   return careTypeColors[type] || "bg-gray-100 text-gray-700 border-gray-200";
 };
 
+function formatDistance(miles: number): string {
+  if (miles < 0.1) return "< 0.1 mi";
+  return `${miles < 10 ? miles.toFixed(1) : Math.round(miles)} mi`;
+}
+
 export default function ProviderCard({ provider }: ProviderCardProps) {
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [showPricingInfo, setShowPricingInfo] = useState(false);
@@ -185,6 +192,15 @@ export default function ProviderCard({ provider }: ProviderCardProps) {
         {/* Gradient overlay for better text readability */}
         <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent" />
 
+        {/* Compare toggle - bottom left, clear of the staff avatar */}
+        {!showStaffInfo && (
+          <div className="absolute bottom-4 left-4 z-20">
+            <CompareButton
+              provider={{ slug: provider.slug, name: provider.name, image: provider.image || null }}
+            />
+          </div>
+        )}
+
         {/* Top badges row */}
         <div className="absolute top-4 left-4 right-4 flex items-start justify-between">
           {/* Dynamic Badge (Top Rated, New, Featured, etc.) */}
@@ -291,6 +307,9 @@ export default function ProviderCard({ provider }: ProviderCardProps) {
           </div>
           <p className="text-gray-500 text-text-sm mt-1">
             {provider.address}
+            {provider.distanceMiles !== undefined && (
+              <span> · {formatDistance(provider.distanceMiles)}</span>
+            )}
           </p>
         </div>
 
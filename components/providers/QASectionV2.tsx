@@ -1,26 +1,42 @@
 "use client";
 
-import { useState } from "react";
-
-interface QAEntry {
-  question: string;
-  answer: string;
-}
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { MAX_QUESTION_LENGTH } from "@/lib/provider-questions";
+import type { QAItem } from "@/lib/provider-utils";
+import type { PublicProviderQuestion } from "@/lib/types";
 
 interface QASectionProps {
   providerName: string;
-  questions: QAEntry[];
+  /** business_profiles.id questions are asked of; null until the listing is on Olera. */
+  providerProfileId: string | null;
+  questions: PublicProviderQuestion[];
+  /** General FAQ shown, clearly labelled, when nobody has asked anything yet. */
+  fallbackQuestions?: QAItem[];
   suggestedQuestions?: string[];
 }
 
-// Mock community members who asked the questions
-const MOCK_ASKERS = [
-  { name: "Margaret T.", initials: "MT", timeAgo: "2 weeks ago" },
-  { name: "Robert K.", initials: "RK", timeAgo: "1 month ago" },
-  { name: "Linda W.", initials: "LW", timeAgo: "3 weeks ago" },
-  { name: "James P.", initials: "JP", timeAgo: "1 month ago" },
-  { name: "Susan M.", initials: "SM", timeAgo: "5 days ago" },
-];
+function formatTimeAgo(dateString: string): string {
+  const date = new Date(dateString);
+  const now = new Date();
+  const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
+  if (diffInSeconds < 60) return "just now";
+  if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`;
+  if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
+  if (diffInSeconds < 604800) return `${Math.floor(diffInSeconds / 86400)}d ago`;
+  return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+function getInitials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((n) => n[0].toUpperCase())
+    .join("");
+}
 
 /**
  * QASection V2 - Premium, minimal refinements
@@ -30,21 +46,123 @@ const MOCK_ASKERS = [
  * - Typography: arbitrary values → standard Tailwind scale
  * - Button: added shadow-sm, rounded-lg
  * - Chips: bg-white → bg-gray-50 with hover state
+ *
+ * Questions come from provider_questions. Until the first one is asked,
+ * the general FAQ is shown under its own label rather than as if the
+ * provider had answered it.
  */
 export default function QASectionV2({
   providerName,
+  providerProfileId,
   questions,
+  fallbackQuestions = [],
   suggestedQuestions = [
     "When can a caregiver be available?",
     "Do you have shift minimums?",
     "What are the per-hour costs?",
   ],
 }: QASectionProps) {
+  const router = useRouter();
+  const { user, activeProfile, openAuthFlow } = useAuth();
   const [inputValue, setInputValue] = useState("");
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState("");
   const [showAll, setShowAll] = useState(false);
+  const [votedIds, setVotedIds] = useState<Set<string>>(new Set());
+  const [helpfulCounts, setHelpfulCounts] = useState<Record<string, number>>({});
+
+  const answeredCount = questions.filter((q) => q.answer).length;
+  const showFallback = questions.length === 0 && fallbackQuestions.length > 0;
+  const visibleQuestions = showAll ? questions : questions.slice(0, 4);
+  const hasMore = questions.length > 4;
+  const canAsk = providerProfileId !== null && activeProfile?.id !== providerProfileId;
+
+  // Which answers the signed-in user already marked helpful
+  useEffect(() => {
+    if (!user || questions.length === 0 || !isSupabaseConfigured()) return;
+
+    const fetchVotes = async () => {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from("provider_answer_votes")
+        .select("question_id")
+        .eq("user_id", user.id)
+        .in("question_id", questions.map((q) => q.id));
+      setVotedIds(new Set((data ?? []).map((v) => v.question_id as string)));
+    };
+
+    fetchVotes();
+  }, [user, questions]);
 
-  const visibleQuestions = showAll ? questions : questions.slice(0, 2);
-  const hasMore = questions.length > 2;
+  const handleAsk = async () => {
+    const question = inputValue.trim();
+    if (!question || !providerProfileId) return;
+
+    if (!user || !activeProfile) {
+      openAuthFlow({ intent: "family", defaultToSignIn: true });
+      return;
+    }
+
+    setSubmitting(true);
+    setError("");
+    try {
+      const res = await fetch("/api/questions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          provider_profile_id: providerProfileId,
+          asker_profile_id: activeProfile.id,
+          question,
+          is_anonymous: isAnonymous,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to post question");
+
+      setInputValue("");
+      setSubmitted(true);
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleHelpful = async (question: PublicProviderQuestion) => {
+    if (!user) {
+      openAuthFlow({ defaultToSignIn: true });
+      return;
+    }
+
+    const voted = votedIds.has(question.id);
+    const current = helpfulCounts[question.id] ?? question.helpful_count;
+
+    // Optimistic update, rolled back on failure
+    const apply = (isVoted: boolean, count: number) => {
+      setVotedIds((prev) => {
+        const next = new Set(prev);
+        if (isVoted) next.add(question.id);
+        else next.delete(question.id);
+        return next;
+      });
+      setHelpfulCounts((prev) => ({ ...prev, [question.id]: count }));
+    };
+
+    apply(!voted, Math.max(0, current + (voted ? -1 : 1)));
+    try {
+      const res = await fetch(`/api/questions/${question.id}/vote`, {
+        method: voted ? "DELETE" : "POST",
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setHelpfulCounts((prev) => ({ ...prev, [question.id]: data.helpful_count }));
+    } catch {
+      apply(voted, current);
+    }
+  };
 
   return (
     <div>
@@ -58,77 +176,133 @@ export default function QASectionV2({
         </h2>
       </div>
       <p className="text-base text-gray-500 mb-6">
-        {questions.length} {questions.length === 1 ? "question" : "questions"} answered about {providerName}
+        {questions.length > 0
+          ? `${answeredCount} of ${questions.length} ${questions.length === 1 ? "question" : "questions"} answered by ${providerName}`
+          : `No questions asked about ${providerName} yet`}
       </p>
 
       {/* ── Ask a Question Prompt (top) ── V2: elevated card */}
-      <div className="bg-white rounded-xl p-5 mb-6 border border-gray-100 shadow-xs">
-        <p className="text-base font-medium text-gray-900 mb-3">
-          Have a question about {providerName}?
-        </p>
-
-        {/* Input row with avatar placeholder */}
-        <div className="flex items-center gap-3">
-          <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0">
-            <svg className="w-4 h-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
-              <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 6a3.75 3.75 0 11-7.5 0 3.75 3.75 0 017.5 0zM4.501 20.118a7.5 7.5 0 0114.998 0A17.933 17.933 0 0112 21.75c-2.676 0-5.216-.584-7.499-1.632z" />
-            </svg>
-          </div>
-          <div className="flex-1 relative">
-            <input
-              type="text"
-              value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
-              placeholder="Ask a question..."
-              className="w-full pl-4 pr-20 py-3 text-base text-gray-900 placeholder-gray-400 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-100 focus:border-primary-300 focus:bg-white transition-all"
-            />
-            {/* V2: rounded-lg, shadow-sm */}
-            <button className="absolute right-1.5 top-1/2 -translate-y-1/2 px-4 py-1.5 text-sm font-semibold text-white bg-primary-600 rounded-lg shadow-sm hover:bg-primary-700 transition-colors">
-              Ask
-            </button>
-          </div>
-        </div>
+      {canAsk ? (
+        <div className="bg-white rounded-xl p-5 mb-6 border border-gray-100 shadow-xs">
+          <p className="text-base font-medium text-gray-900 mb-3">
+            Have a question about {providerName}?
+          </p>
 
-        {/* Suggested questions - V2: bg-gray-50 with hover */}
-        {suggestedQuestions.length > 0 && (
-          <div className="mt-3 ml-11">
-            <div className="flex flex-wrap gap-2">
-              {suggestedQuestions.slice(0, 3).map((q) => (
-                <button
-                  key={q}
-                  onClick={() => setInputValue(q)}
-                  className="text-sm text-gray-600 hover:text-primary-700 px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-full hover:bg-gray-100 hover:border-gray-300 transition-colors"
-                >
-                  {q}
-                </button>
-              ))}
+          {/* Input row with avatar placeholder */}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleAsk();
+            }}
+            className="flex items-center gap-3"
+          >
+            <div className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0">
+              <svg className="w-4 h-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 6a3.75 3.75 0 11-7.5 0 3.75 3.75 0 017.5 0zM4.501 20.118a7.5 7.5 0 0114.998 0A17.933 17.933 0 0112 21.75c-2.676 0-5.216-.584-7.499-1.632z" />
+              </svg>
+            </div>
+            <div className="flex-1 relative">
+              <input
+                type="text"
+                value={inputValue}
+                onChange={(e) => {
+                  setInputValue(e.target.value);
+                  setSubmitted(false);
+                }}
+                maxLength={MAX_QUESTION_LENGTH}
+                placeholder="Ask a question..."
+                className="w-full pl-4 pr-20 py-3 text-base text-gray-900 placeholder-gray-400 bg-gray-50 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-100 focus:border-primary-300 focus:bg-white transition-all"
+              />
+              {/* V2: rounded-lg, shadow-sm */}
+              <button
+                type="submit"
+                disabled={submitting || !inputValue.trim()}
+                className="absolute right-1.5 top-1/2 -translate-y-1/2 px-4 py-1.5 text-sm font-semibold text-white bg-primary-600 rounded-lg shadow-sm hover:bg-primary-700 disabled:opacity-50 transition-colors"
+              >
+                {submitting ? "Asking..." : "Ask"}
+              </button>
             </div>
+          </form>
+
+          <div className="mt-3 ml-11 space-y-3">
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={isAnonymous}
+                onChange={(e) => setIsAnonymous(e.target.checked)}
+                className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Ask anonymously
+            </label>
+
+            {error && (
+              <p className="text-sm text-red-600" role="alert">
+                {error}
+              </p>
+            )}
+            {submitted && (
+              <p className="text-sm text-primary-700">
+                Your question was sent to {providerName}. It will show here with their answer.
+              </p>
+            )}
+
+            {/* Suggested questions - V2: bg-gray-50 with hover */}
+            {suggestedQuestions.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {suggestedQuestions.slice(0, 3).map((q) => (
+                  <button
+                    key={q}
+                    type="button"
+                    onClick={() => setInputValue(q)}
+                    className="text-sm text-gray-600 hover:text-primary-700 px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-full hover:bg-gray-100 hover:border-gray-300 transition-colors"
+                  >
+                    {q}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
-        )}
-      </div>
+        </div>
+      ) : (
+        providerProfileId === null && (
+          <div className="bg-gray-50 rounded-xl px-5 py-4 mb-6 border border-gray-100">
+            <p className="text-sm text-gray-600">
+              Questions open once {providerName} joins Olera and can answer them.
+            </p>
+          </div>
+        )
+      )}
 
       {/* ── Conversation Threads (2-column grid) ── V2: elevated cards */}
       {visibleQuestions.length > 0 && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {visibleQuestions.map((qa, index) => {
-            const asker = MOCK_ASKERS[index % MOCK_ASKERS.length];
+          {visibleQuestions.map((qa) => {
+            const askerName = qa.asker_name || "Anonymous";
+            const voted = votedIds.has(qa.id);
+            const helpfulCount = helpfulCounts[qa.id] ?? qa.helpful_count;
             return (
               // V2: bg-white with border and shadow
-              <div key={index} className="bg-white rounded-xl p-5 flex flex-col border border-gray-100 shadow-xs">
+              <div key={qa.id} className="bg-white rounded-xl p-5 flex flex-col border border-gray-100 shadow-xs">
                 {/* Questioner */}
                 <div className="flex items-start gap-3">
                   <div className="w-8 h-8 rounded-full bg-primary-50 flex items-center justify-center flex-shrink-0 mt-0.5">
-                    <span className="text-xs font-semibold text-primary-700">
-                      {asker.initials}
-                    </span>
+                    {qa.asker_name ? (
+                      <span className="text-xs font-semibold text-primary-700">
+                        {getInitials(qa.asker_name)}
+                      </span>
+                    ) : (
+                      <svg className="w-4 h-4 text-primary-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                      </svg>
+                    )}
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
                       <span className="text-sm font-semibold text-gray-900">
-                        {asker.name}
+                        {askerName}
                       </span>
                       <span className="text-xs text-gray-400">
-                        {asker.timeAgo}
+                        {formatTimeAgo(qa.created_at)}
                       </span>
                     </div>
                     <p className="text-sm text-gray-700 leading-relaxed mt-1">
@@ -138,7 +312,7 @@ export default function QASectionV2({
                 </div>
 
                 {/* Provider Reply */}
-                {qa.answer && (
+                {qa.answer ? (
                   <div className="flex items-start gap-3 mt-4 ml-11">
                     <div className="w-7 h-7 rounded-full bg-primary-600 flex items-center justify-center flex-shrink-0 mt-0.5">
                       <svg className="w-3.5 h-3.5 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
@@ -154,13 +328,28 @@ export default function QASectionV2({
                           Provider
                         </span>
                       </div>
-                      <p className="text-sm text-gray-600 leading-relaxed mt-1">
-                        {qa.answer.length > 150
-                          ? qa.answer.slice(0, 150).trimEnd() + "..."
-                          : qa.answer}
+                      <p className="text-sm text-gray-600 leading-relaxed mt-1 whitespace-pre-line">
+                        {qa.answer}
                       </p>
+                      <button
+                        onClick={() => toggleHelpful(qa)}
+                        aria-pressed={voted}
+                        className={[
+                          "mt-2 inline-flex items-center gap-1.5 text-xs font-medium transition-colors",
+                          voted ? "text-primary-700" : "text-gray-500 hover:text-gray-700",
+                        ].join(" ")}
+                      >
+                        <svg className="w-3.5 h-3.5" fill={voted ? "currentColor" : "none"} viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M6.633 10.5c.806 0 1.533-.446 2.031-1.08a9.041 9.041 0 012.861-2.4c.723-.384 1.35-.956 1.653-1.715a4.498 4.498 0 00.322-1.672V3a.75.75 0 01.75-.75A2.25 2.25 0 0116.5 4.5c0 1.152-.26 2.243-.723 3.218-.266.558.107 1.282.725 1.282h3.126c1.026 0 1.945.694 2.054 1.715.045.422.068.85.068 1.285a11.95 11.95 0 01-2.649 7.521c-.388.482-.987.729-1.605.729H13.48a4.53 4.53 0 01-1.423-.23l-3.114-1.04a4.501 4.501 0 00-1.423-.23H5.904M6.633 10.5H5.25A2.25 2.25 0 003 12.75v6a2.25 2.25 0 002.25 2.25h.654m.729-10.5l-.729 10.5" />
+                        </svg>
+                        Helpful{helpfulCount > 0 ? ` (${helpfulCount})` : ""}
+                      </button>
                     </div>
                   </div>
+                ) : (
+                  <p className="mt-4 ml-11 text-xs text-gray-400">
+                    Waiting for {providerName} to answer
+                  </p>
                 )}
               </div>
             );
@@ -190,6 +379,34 @@ export default function QASectionV2({
           </svg>
         </button>
       )}
+
+      {/* ── General FAQ fallback ── not written by the provider */}
+      {showFallback && (
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <h3 className="text-base font-semibold text-gray-900">Common questions</h3>
+            <span className="inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">
+              General info
+            </span>
+          </div>
+          <p className="text-sm text-gray-500 mb-4">
+            Typical answers for this type of care from Olera, not from {providerName}.
+            Ask above to hear from them directly.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {fallbackQuestions.map((qa) => (
+              <div key={qa.question} className="bg-gray-50 rounded-xl p-5 border border-gray-100">
+                <p className="text-sm font-semibold text-gray-900 leading-relaxed">
+                  {qa.question}
+                </p>
+                <p className="text-sm text-gray-600 leading-relaxed mt-2">
+                  {qa.answer}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
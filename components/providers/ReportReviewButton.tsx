@@ -0,0 +1,125 @@
+"use client";
+
+import { useState } from "react";
+import { useAuth } from "@/components/auth/AuthProvider";
+import Button from "@/components/ui/Button";
+import Modal from "@/components/ui/Modal";
+import { REVIEW_REPORT_REASONS, REVIEW_REPORT_REASON_LABELS } from "@/lib/reviews";
+import type { ReviewReportReason } from "@/lib/types";
+
+interface ReportReviewButtonProps {
+  reviewId: string;
+}
+
+/**
+ * Flag a review for the admin moderation queue.
+ */
+export default function ReportReviewButton({ reviewId }: ReportReviewButtonProps) {
+  const { user, openAuthFlow } = useAuth();
+  const [showModal, setShowModal] = useState(false);
+  const [reason, setReason] = useState<ReviewReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [reported, setReported] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleClick = () => {
+    if (!user) {
+      openAuthFlow({ defaultToSignIn: true });
+      return;
+    }
+    setError("");
+    setShowModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason) {
+      setError("Please choose a reason.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/reviews/${reviewId}/report`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reason, details }),
+      });
+      const data = await res.json();
+      // A repeat report is still a successful outcome for the user
+      if (!res.ok && res.status !== 409) {
+        throw new Error(data.error || "Failed to report review");
+      }
+      setReported(true);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (reported && !showModal) {
+    return <span className="text-xs text-gray-400">Reported</span>;
+  }
+
+  return (
+    <>
+      <button
+        onClick={handleClick}
+        className="text-xs text-gray-400 hover:text-gray-600 transition-colors"
+      >
+        Report
+      </button>
+
+      <Modal isOpen={showModal} onClose={() => setShowModal(false)} title="Report this review">
+        {reported ? (
+          <div className="text-center py-4">
+            <p className="text-base text-gray-600 mb-6">
+              Thanks for letting us know. Our team will take a look.
+            </p>
+            <Button onClick={() => setShowModal(false)}>Done</Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <fieldset className="space-y-2">
+              <legend className="text-base font-medium text-gray-700 mb-2">
+                What&apos;s wrong with this review?
+              </legend>
+              {REVIEW_REPORT_REASONS.map((value) => (
+                <label key={value} className="flex items-center gap-3 text-base text-gray-700">
+                  <input
+                    type="radio"
+                    name="report-reason"
+                    value={value}
+                    checked={reason === value}
+                    onChange={() => setReason(value)}
+                    className="w-4 h-4 text-primary-600 focus:ring-primary-500"
+                  />
+                  {REVIEW_REPORT_REASON_LABELS[value]}
+                </label>
+              ))}
+            </fieldset>
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              placeholder="Anything else we should know? (optional)"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg text-base focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            />
+            {error && (
+              <p className="text-sm text-red-600" role="alert">
+                {error}
+              </p>
+            )}
+            <Button type="submit" loading={submitting} fullWidth>
+              Submit report
+            </Button>
+          </form>
+        )}
+      </Modal>
+    </>
+  );
+}
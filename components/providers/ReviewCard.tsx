@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAuth } from "@/components/auth/AuthProvider";
+import Button from "@/components/ui/Button";
+import ReportReviewButton from "@/components/providers/ReportReviewButton";
+import { MAX_REVIEW_LENGTH, formatReviewDate, type PublicReview } from "@/lib/reviews";
+
+interface ReviewCardProps {
+  review: PublicReview;
+  providerName: string;
+}
+
+const PREVIEW_LENGTH = 200;
+
+/**
+ * One family review on the provider page, with the provider's public
+ * response. The provider who owns the listing can add or edit it.
+ */
+export default function ReviewCard({ review, providerName }: ReviewCardProps) {
+  const router = useRouter();
+  const { profiles } = useAuth();
+  const [expanded, setExpanded] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [response, setResponse] = useState(review.provider_response ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const isProvider = profiles.some((p) => p.id === review.provider_profile_id);
+  const isReviewer = profiles.some((p) => p.id === review.reviewer_profile_id);
+
+  const needsTruncation = review.body.length > PREVIEW_LENGTH;
+  const bodyText =
+    needsTruncation && !expanded
+      ? review.body.slice(0, PREVIEW_LENGTH).trimEnd() + "..."
+      : review.body;
+
+  const saveResponse = async (remove = false) => {
+    setSaving(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/reviews/${review.id}/response`, {
+        method: remove ? "DELETE" : "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: remove ? undefined : JSON.stringify({ response }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save response");
+      setEditing(false);
+      if (remove) setResponse("");
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-gray-100 flex flex-col">
+      {/* Quote mark decoration */}
+      <svg className="w-8 h-8 text-primary-100 mb-3" fill="currentColor" viewBox="0 0 24 24">
+        <path d="M14.017 21v-7.391c0-5.704 3.731-9.57 8.983-10.609l.995 2.151c-2.432.917-3.995 3.638-3.995 5.849h4v10H14.017zM0 21v-7.391c0-5.704 3.731-9.57 8.983-10.609L9.978 5.151c-2.432.917-3.995 3.638-3.995 5.849h4v10H0z" />
+      </svg>
+      {/* Review text first (Airbnb pattern) */}
+      <p className="text-base text-gray-600 leading-relaxed mb-5 whitespace-pre-line">
+        {bodyText}
+        {needsTruncation && (
+          <>
+            {" "}
+            <button
+              onClick={() => setExpanded(!expanded)}
+              className="text-primary-600 hover:text-primary-700 font-medium transition-colors"
+            >
+              {expanded ? "Show less" : "Read more"}
+            </button>
+          </>
+        )}
+      </p>
+
+      {/* Provider response */}
+      {review.provider_response && !editing && (
+        <div className="bg-gray-50 rounded-xl px-4 py-3 mb-5">
+          <p className="text-xs font-semibold text-gray-900 mb-1">Response from {providerName}</p>
+          <p className="text-sm text-gray-600 leading-relaxed whitespace-pre-line">
+            {review.provider_response}
+          </p>
+        </div>
+      )}
+
+      {editing && (
+        <div className="mb-5 space-y-2">
+          <textarea
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            rows={4}
+            maxLength={MAX_REVIEW_LENGTH}
+            placeholder="Thank the family or address their feedback. Your response is public."
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+          {error && (
+            <p className="text-sm text-red-600" role="alert">
+              {error}
+            </p>
+          )}
+          <div className="flex items-center gap-2">
+            <Button size="sm" loading={saving} disabled={!response.trim()} onClick={() => saveResponse()}>
+              Post response
+            </Button>
+            {review.provider_response && (
+              <Button size="sm" variant="ghost" disabled={saving} onClick={() => saveResponse(true)}>
+                Delete
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" disabled={saving} onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Reviewer identity at bottom */}
+      <div className="mt-auto pt-4 border-t border-gray-100 flex items-center gap-3">
+        <div className="w-9 h-9 rounded-full bg-gray-100 flex items-center justify-center flex-shrink-0">
+          <span className="text-xs font-semibold text-gray-600">
+            {review.reviewer_name.split(" ").map((n) => n[0]).join("")}
+          </span>
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold text-gray-900">{review.reviewer_name}</p>
+          <div className="flex items-center gap-1.5 mt-0.5">
+            <div className="flex items-center gap-0.5">
+              {[1, 2, 3, 4, 5].map((star) => (
+                <svg
+                  key={star}
+                  className={`w-3 h-3 ${star <= review.rating ? "text-yellow-400" : "text-gray-200"}`}
+                  fill="currentColor"
+                  viewBox="0 0 20 20"
+                >
+                  <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                </svg>
+              ))}
+            </div>
+            <span className="text-xs text-gray-400">·</span>
+            <span className="text-xs text-gray-400">{formatReviewDate(review.created_at)}</span>
+          </div>
+          <p className="text-xs text-primary-600 mt-0.5">Connected through Olera</p>
+        </div>
+        <div className="flex-shrink-0">
+          {isProvider ? (
+            !editing && (
+              <button
+                onClick={() => setEditing(true)}
+                className="text-xs font-medium text-primary-600 hover:text-primary-700 transition-colors"
+              >
+                {review.provider_response ? "Edit response" : "Respond"}
+              </button>
+            )
+          ) : (
+            !isReviewer && <ReportReviewButton reviewId={review.id} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
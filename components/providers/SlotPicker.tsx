@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
+import { formatTimeRange, slotMatchesType } from "@/lib/appointments";
+import type { AppointmentType, AvailabilitySlot } from "@/lib/types";
+
+interface SlotPickerProps {
+  providerProfileId: string;
+  appointmentType: AppointmentType;
+  selectedSlotId: string | null;
+  onSelect: (slot: AvailabilitySlot | null) => void;
+  /** Called once slots load, so callers can hide scheduling when none exist. */
+  onLoaded?: (slots: AvailabilitySlot[]) => void;
+}
+
+/**
+ * Lists a provider's open, upcoming availability slots as selectable chips.
+ */
+export default function SlotPicker({
+  providerProfileId,
+  appointmentType,
+  selectedSlotId,
+  onSelect,
+  onLoaded,
+}: SlotPickerProps) {
+  const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!providerProfileId || !isSupabaseConfigured()) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchSlots = async () => {
+      const supabase = createClient();
+      const { data } = await supabase
+        .from("availability_slots")
+        .select("*")
+        .eq("profile_id", providerProfileId)
+        .eq("is_booked", false)
+        .gt("starts_at", new Date().toISOString())
+        .order("starts_at", { ascending: true })
+        .limit(50);
+
+      if (cancelled) return;
+      const open = (data as AvailabilitySlot[]) || [];
+      setSlots(open);
+      setLoading(false);
+      onLoaded?.(open);
+    };
+
+    fetchSlots();
+    return () => {
+      cancelled = true;
+    };
+    // onLoaded is a notification callback — don't refetch when its identity changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [providerProfileId]);
+
+  const matching = slots.filter((s) => slotMatchesType(s, appointmentType));
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading available times...</p>;
+  }
+
+  if (matching.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No open times for a {appointmentType} right now.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 max-h-56 overflow-y-auto">
+      {matching.map((slot) => {
+        const isSelected = slot.id === selectedSlotId;
+        return (
+          <button
+            key={slot.id}
+            type="button"
+            onClick={() => onSelect(isSelected ? null : slot)}
+            className={[
+              "text-left px-3 py-2 rounded-lg border text-sm transition-colors min-h-[44px]",
+              isSelected
+                ? "border-primary-600 bg-primary-50 text-primary-800 font-medium"
+                : "border-gray-200 text-gray-700 hover:border-primary-300",
+            ].join(" ")}
+            aria-pressed={isSelected}
+          >
+            {formatTimeRange(slot.starts_at, slot.ends_at)}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
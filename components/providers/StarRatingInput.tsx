@@ -0,0 +1,44 @@
+"use client";
+
+import { useState } from "react";
+
+interface StarRatingInputProps {
+  value: number;
+  onChange: (value: number) => void;
+}
+
+const LABELS = ["", "Poor", "Fair", "Good", "Very good", "Excellent"];
+
+export default function StarRatingInput({ value, onChange }: StarRatingInputProps) {
+  const [hovered, setHovered] = useState(0);
+  const shown = hovered || value;
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="flex items-center gap-1" role="radiogroup" aria-label="Rating">
+        {[1, 2, 3, 4, 5].map((star) => (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={value === star}
+            aria-label={`${star} star${star === 1 ? "" : "s"}`}
+            onClick={() => onChange(star)}
+            onMouseEnter={() => setHovered(star)}
+            onMouseLeave={() => setHovered(0)}
+            className="p-0.5"
+          >
+            <svg
+              className={`w-8 h-8 transition-colors ${star <= shown ? "text-yellow-400" : "text-gray-200"}`}
+              fill="currentColor"
+              viewBox="0 0 20 20"
+            >
+              <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+            </svg>
+          </button>
+        ))}
+      </div>
+      {shown > 0 && <span className="text-sm text-gray-500">{LABELS[shown]}</span>}
+    </div>
+  );
+}
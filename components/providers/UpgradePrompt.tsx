@@ -1,15 +1,28 @@
 "use client";
 
 import Link from "next/link";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { getUpgradePlan, hasEntitlement, PLANS, type Feature } from "@/lib/entitlements";
 
 interface UpgradePromptProps {
   /** What the user was trying to do when they hit the paywall */
   context?: string;
+  /** The feature being unlocked; picks the cheapest plan that has it */
+  feature?: Feature;
 }
 
 export default function UpgradePrompt({
   context = "respond to inquiries and connect with families",
+  feature = "unlimited_responses",
 }: UpgradePromptProps) {
+  const { membership } = useAuth();
+
+  if (hasEntitlement(membership, feature)) return null;
+
+  const plan = PLANS[getUpgradePlan(feature)];
+  const price = plan.price ?? { monthly: 0, annual: 0 };
+  const savings = Math.round((1 - price.annual / (price.monthly * 12)) * 100);
+
   return (
     <div className="bg-warm-50 border border-warm-200 rounded-xl p-6 text-center">
       <div className="w-12 h-12 bg-warm-100 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -28,7 +41,7 @@ export default function UpgradePrompt({
         </svg>
       </div>
       <h3 className="text-lg font-semibold text-gray-900 mb-2">
-        Upgrade to Pro
+        Upgrade to {plan.label}
       </h3>
       <p className="text-base text-gray-600 mb-4">
         Upgrade to {context}.
@@ -38,10 +51,10 @@ export default function UpgradePrompt({
           href="/portal/settings"
           className="block w-full bg-primary-600 hover:bg-primary-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors text-center min-h-[44px]"
         >
-          Upgrade — $25/month
+          Upgrade — ${price.monthly}/month
         </Link>
         <p className="text-sm text-gray-500">
-          or $249/year (save 17%)
+          or ${price.annual}/year (save {savings}%)
         </p>
       </div>
     </div>
@@ -0,0 +1,201 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
+import { useAuth } from "@/components/auth/AuthProvider";
+import Button from "@/components/ui/Button";
+import Modal from "@/components/ui/Modal";
+import StarRatingInput from "@/components/providers/StarRatingInput";
+import { MAX_REVIEW_LENGTH } from "@/lib/reviews";
+
+interface WriteReviewButtonProps {
+  /** business_profiles.id of the provider being reviewed. */
+  providerProfileId: string;
+  providerName: string;
+}
+
+type Eligibility = "checking" | "eligible" | "no-family-profile" | "not-connected" | "already-reviewed";
+
+/**
+ * "Write a review" for families who have connected with the provider.
+ * Eligibility is checked when the modal opens; the API and RLS enforce
+ * the same rules on submit.
+ */
+export default function WriteReviewButton({
+  providerProfileId,
+  providerName,
+}: WriteReviewButtonProps) {
+  const router = useRouter();
+  const { user, activeProfile, profiles, openAuthFlow } = useAuth();
+  const [showModal, setShowModal] = useState(false);
+  const [eligibility, setEligibility] = useState<Eligibility>("checking");
+  const [rating, setRating] = useState(0);
+  const [body, setBody] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState("");
+
+  // Prefer the active profile when it's a family, otherwise any family profile
+  const familyProfile =
+    activeProfile?.type === "family"
+      ? activeProfile
+      : profiles.find((p) => p.type === "family") ?? null;
+
+  const checkEligibility = async () => {
+    if (!familyProfile) {
+      setEligibility("no-family-profile");
+      return;
+    }
+    if (!isSupabaseConfigured()) {
+      setEligibility("not-connected");
+      return;
+    }
+
+    setEligibility("checking");
+    const supabase = createClient();
+
+    const [{ data: existing }, { data: connection }] = await Promise.all([
+      supabase
+        .from("reviews")
+        .select("id")
+        .eq("provider_profile_id", providerProfileId)
+        .eq("reviewer_profile_id", familyProfile.id)
+        .maybeSingle(),
+      supabase
+        .from("connections")
+        .select("id")
+        .neq("type", "save")
+        .or(
+          `and(from_profile_id.eq.${familyProfile.id},to_profile_id.eq.${providerProfileId}),` +
+            `and(from_profile_id.eq.${providerProfileId},to_profile_id.eq.${familyProfile.id})`
+        )
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    if (existing) setEligibility("already-reviewed");
+    else if (!connection) setEligibility("not-connected");
+    else setEligibility("eligible");
+  };
+
+  const handleClick = () => {
+    if (!user) {
+      openAuthFlow({ intent: "family", defaultToSignIn: true });
+      return;
+    }
+    setError("");
+    setSuccess(false);
+    setShowModal(true);
+    checkEligibility();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!familyProfile) return;
+    if (rating === 0) {
+      setError("Please choose a star rating.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError("");
+    try {
+      const res = await fetch("/api/reviews", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          provider_profile_id: providerProfileId,
+          reviewer_profile_id: familyProfile.id,
+          rating,
+          body,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to submit review");
+
+      setSuccess(true);
+      setRating(0);
+      setBody("");
+      router.refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={handleClick}
+        className="px-5 py-2.5 text-sm font-semibold text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors"
+      >
+        Write a review
+      </button>
+
+      <Modal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        title={`Review ${providerName}`}
+        size="lg"
+      >
+        {success ? (
+          <div className="text-center py-4">
+            <p className="text-lg font-semibold text-gray-900 mb-1">Thanks for your review</p>
+            <p className="text-base text-gray-600 mb-6">
+              Your review helps other families make a confident choice.
+            </p>
+            <Button onClick={() => setShowModal(false)}>Done</Button>
+          </div>
+        ) : eligibility === "checking" ? (
+          <p className="text-base text-gray-500 py-4">Checking your connection...</p>
+        ) : eligibility === "no-family-profile" ? (
+          <p className="text-base text-gray-600 py-4">
+            Reviews come from families who have worked with a provider. Switch to a family
+            profile to leave a review.
+          </p>
+        ) : eligibility === "not-connected" ? (
+          <p className="text-base text-gray-600 py-4">
+            You can review {providerName} once you&apos;ve connected with them on Olera.
+            Send an inquiry to get started.
+          </p>
+        ) : eligibility === "already-reviewed" ? (
+          <p className="text-base text-gray-600 py-4">
+            You&apos;ve already reviewed {providerName}. Thanks for sharing your experience.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div>
+              <p className="text-base font-medium text-gray-700 mb-2">Your rating</p>
+              <StarRatingInput value={rating} onChange={setRating} />
+            </div>
+            <div>
+              <label htmlFor="review-body" className="block text-base font-medium text-gray-700 mb-2">
+                Your experience
+              </label>
+              <textarea
+                id="review-body"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={5}
+                required
+                maxLength={MAX_REVIEW_LENGTH}
+                placeholder="What stood out about the care, the staff, or the communication?"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg text-base focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              />
+            </div>
+            {error && (
+              <p className="text-sm text-red-600" role="alert">
+                {error}
+              </p>
+            )}
+            <Button type="submit" loading={submitting} fullWidth>
+              Post review
+            </Button>
+          </form>
+        )}
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { createContext, useContext, useState, useEffect, useCallback, useRef } from "react";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
+import {
+  COMPARE_ACCOUNT_STORAGE_KEY,
+  COMPARE_STORAGE_KEY,
+  MAX_COMPARE,
+  sanitizeCompareItems,
+} from "@/lib/provider-compare";
+import type { CompareItem } from "@/lib/types";
+
+interface CompareContextValue {
+  /** Providers queued for /compare, oldest first */
+  items: CompareItem[];
+  isComparing: (slug: string) => boolean;
+  /** Whether another provider can be added (at most MAX_COMPARE) */
+  canAdd: boolean;
+  toggle: (item: CompareItem) => void;
+  remove: (slug: string) => void;
+  clear: () => void;
+}
+
+const CompareContext = createContext<CompareContextValue>({
+  items: [],
+  isComparing: () => false,
+  canAdd: true,
+  toggle: () => {},
+  remove: () => {},
+  clear: () => {},
+});
+
+function readStoredItems(): CompareItem[] {
+  try {
+    return sanitizeCompareItems(JSON.parse(localStorage.getItem(COMPARE_STORAGE_KEY) || "[]"));
+  } catch {
+    // localStorage unavailable or corrupt
+    return [];
+  }
+}
+
+/** The account this device's list belongs to; null if it was made signed out. */
+function readStoredAccount(): string | null {
+  try {
+    return localStorage.getItem(COMPARE_ACCOUNT_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The compare tray's list. Kept in localStorage so it survives
+ * reloads; for signed-in users it's also saved to
+ * accounts.compare_list. On sign-in, a list made while signed out is
+ * merged into the account's; one left by another account is dropped.
+ * Signing out clears it.
+ */
+export function CompareProvider({ children }: { children: React.ReactNode }) {
+  const { user, account } = useAuth();
+  const [items, setItems] = useState<CompareItem[]>([]);
+  const accountId = account?.id ?? null;
+  const userId = user?.id ?? null;
+  // Account whose saved list has been merged in; changes are only
+  // written back after that, so a stale local list can't overwrite it
+  const syncedAccountRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    setItems(readStoredItems());
+  }, []);
+
+  // On sign-in: saved list first, then anything added on this device
+  // while signed out (or earlier by this account)
+  useEffect(() => {
+    if (!accountId || syncedAccountRef.current === accountId) return;
+    syncedAccountRef.current = accountId;
+    const saved = sanitizeCompareItems(account?.compare_list);
+    const owner = readStoredAccount();
+    const keepLocal = owner === null || owner === accountId;
+    setItems((local) => sanitizeCompareItems([...saved, ...(keepLocal ? local : [])]));
+    // Only the account id matters; compare_list is read once per sign-in
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [accountId]);
+
+  useEffect(() => {
+    if (!accountId) syncedAccountRef.current = null;
+  }, [accountId]);
+
+  // On sign-out the list is the account's, not the next visitor's
+  const signedInUserRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (signedInUserRef.current && !userId) {
+      setItems([]);
+      try {
+        localStorage.removeItem(COMPARE_ACCOUNT_STORAGE_KEY);
+      } catch {
+        // localStorage unavailable
+      }
+    }
+    signedInUserRef.current = userId;
+  }, [userId]);
+
+  const persist = useCallback(
+    (next: CompareItem[]) => {
+      const synced = !!accountId && syncedAccountRef.current === accountId;
+      try {
+        localStorage.setItem(COMPARE_STORAGE_KEY, JSON.stringify(next));
+        if (synced) localStorage.setItem(COMPARE_ACCOUNT_STORAGE_KEY, accountId);
+      } catch {
+        // localStorage unavailable
+      }
+
+      if (!synced || !isSupabaseConfigured()) return;
+      createClient()
+        .from("accounts")
+        .update({ compare_list: next })
+        .eq("id", accountId)
+        .then(({ error }) => {
+          if (error) console.error("Failed to save compare list:", error.message);
+        });
+    },
+    [accountId]
+  );
+
+  // Write through after the merge above, and on every change
+  const isFirstRender = useRef(true);
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+    persist(items);
+  }, [items, persist]);
+
+  const toggle = useCallback((item: CompareItem) => {
+    setItems((prev) => {
+      if (prev.some((i) => i.slug === item.slug)) return prev.filter((i) => i.slug !== item.slug);
+      if (prev.length >= MAX_COMPARE) return prev;
+      return [...prev, item];
+    });
+  }, []);
+
+  const remove = useCallback((slug: string) => {
+    setItems((prev) => prev.filter((i) => i.slug !== slug));
+  }, []);
+
+  const clear = useCallback(() => setItems([]), []);
+
+  const isComparing = useCallback((slug: string) => items.some((i) => i.slug === slug), [items]);
+
+  return (
+    <CompareContext.Provider
+      value={{ items, isComparing, canAdd: items.length < MAX_COMPARE, toggle, remove, clear }}
+    >
+      {children}
+    </CompareContext.Provider>
+  );
+}
+
+export function useCompare() {
+  return useContext(CompareContext);
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import { useCompare } from "@/components/shared/CompareContext";
+import { MAX_COMPARE, getCompareUrl } from "@/lib/provider-compare";
+
+/** Bottom bar listing the providers queued for /compare. Hidden on /compare, the portal and admin. */
+export default function CompareTray() {
+  const pathname = usePathname();
+  const { items, remove, clear } = useCompare();
+
+  if (items.length === 0 || pathname === "/compare" || pathname.startsWith("/portal") || pathname.startsWith("/admin")) {
+    return null;
+  }
+
+  const canCompare = items.length >= 2;
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-[90] bg-white border-t border-gray-200 shadow-[0_-4px_16px_rgba(0,0,0,0.08)]">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center gap-4">
+        <div className="flex-1 flex items-center gap-3 overflow-x-auto">
+          {items.map((item) => (
+            <div
+              key={item.slug}
+              className="flex items-center gap-2 pl-1 pr-2 py-1 rounded-lg border border-gray-200 bg-gray-50 flex-shrink-0 max-w-[220px]"
+            >
+              {item.image ? (
+                <img src={item.image} alt="" className="w-9 h-9 rounded-md object-cover flex-shrink-0" />
+              ) : (
+                <div className="w-9 h-9 rounded-md bg-primary-50 flex items-center justify-center flex-shrink-0">
+                  <span className="text-xs font-bold text-primary-400">{item.name.charAt(0).toUpperCase()}</span>
+                </div>
+              )}
+              <span className="text-sm font-medium text-gray-900 truncate">{item.name}</span>
+              <button
+                type="button"
+                onClick={() => remove(item.slug)}
+                className="text-gray-400 hover:text-gray-600 flex-shrink-0"
+                aria-label={`Remove ${item.name} from compare`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+          {items.length < MAX_COMPARE && (
+            <span className="text-sm text-gray-400 flex-shrink-0">
+              Add up to {MAX_COMPARE - items.length} more
+            </span>
+          )}
+        </div>
+
+        <button
+          type="button"
+          onClick={clear}
+          className="text-sm font-medium text-gray-500 hover:text-gray-700 flex-shrink-0"
+        >
+          Clear
+        </button>
+        {canCompare ? (
+          <Link
+            href={getCompareUrl(items.map((i) => i.slug))}
+            className="bg-primary-600 hover:bg-primary-700 text-white font-medium px-5 py-2.5 rounded-lg transition-colors text-sm flex-shrink-0"
+          >
+            Compare {items.length}
+          </Link>
+        ) : (
+          <span className="bg-gray-100 text-gray-400 font-medium px-5 py-2.5 rounded-lg text-sm flex-shrink-0">
+            Pick one more to compare
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,8 +8,8 @@ import {
   canEngage,
   isProfileShareable,
   getProfileCompletionGaps,
-  FREE_CONNECTION_LIMIT,
 } from "@/lib/membership";
+import { getLimit, hasEntitlement } from "@/lib/entitlements";
 import type { ConnectionType } from "@/lib/types";
 import Button from "@/components/ui/Button";
 import Modal from "@/components/ui/Modal";
@@ -85,12 +85,12 @@ export default function ConnectButton({
     "initiate_contact"
   );
 
-  // If on free tier, also check local count hasn't exceeded limit
-  const isFree =
-    membership?.status === "free" || membership?.status === "trialing";
+  // If the plan has a monthly allowance, also check local count hasn't exceeded it
+  const hasQuota = !!membership && !hasEntitlement(membership, "unlimited_responses");
+  const monthlyLimit = getLimit(membership, "monthly_responses") ?? 0;
   const serverUsed = membership?.free_responses_used ?? 0;
-  const hasEngageAccess = isFree
-    ? serverUsed + localConnectionsMade < FREE_CONNECTION_LIMIT && serverAccess
+  const hasEngageAccess = hasQuota
+    ? serverUsed + localConnectionsMade < monthlyLimit && serverAccess
     : serverAccess;
 
   // Check for existing connection
@@ -121,41 +121,34 @@ export default function ConnectButton({
     setError("");
 
     try {
-      const supabase = createClient();
-      const { error: insertError } = await supabase
-        .from("connections")
-        .insert({
+      // The server checks the paywall and spends the free connection
+      const res = await fetch("/api/connections", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
           from_profile_id: fromProfileId,
           to_profile_id: toProfileId,
           type: connectionType,
-          status: "pending",
           message: note.trim() || null,
-        });
-
-      if (insertError) {
-        if (
-          insertError.code === "23505" ||
-          insertError.message.includes("duplicate") ||
-          insertError.message.includes("unique")
-        ) {
-          setAlreadySent(true);
-          setModal(CLOSED);
-          return;
-        }
-        throw new Error(insertError.message);
-      }
+        }),
+      });
 
-      // Increment free_responses_used for non-paid memberships
-      if (
-        membership &&
-        (membership.status === "free" || membership.status === "trialing")
-      ) {
-        const newCount = (membership.free_responses_used ?? 0) + 1;
-        await supabase
-          .from("memberships")
-          .update({ free_responses_used: newCount })
-          .eq("account_id", membership.account_id);
+      if (res.status === 409) {
+        setAlreadySent(true);
+        setModal(CLOSED);
+        return;
+      }
+      if (res.status === 402) {
+        await refreshAccountData();
+        setModal({ kind: "upgrade" });
+        return;
+      }
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to connect");
+      }
 
+      if (hasQuota) {
         // Optimistic local increment — immediately gates next click
         setLocalConnectionsMade((prev) => prev + 1);
 
@@ -179,7 +172,7 @@ export default function ConnectButton({
     } finally {
       setSubmitting(false);
     }
-  }, [fromProfileId, toProfileId, connectionType, note, membership, refreshAccountData]);
+  }, [fromProfileId, toProfileId, connectionType, note, hasQuota, refreshAccountData]);
 
   const handleClick = () => {
     if (!user) {
@@ -333,8 +326,8 @@ export default function ConnectButton({
               </svg>
             </div>
             <p className="text-base text-gray-600 mb-6">
-              You&#39;ve used all {FREE_CONNECTION_LIMIT} free connections.
-              Upgrade to Pro to continue sharing your profile and connecting with
+              You&#39;ve used all {monthlyLimit} connections for this month.
+              Upgrade to continue sharing your profile and connecting with
               others on Olera.
             </p>
             <Link
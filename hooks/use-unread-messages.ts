@@ -0,0 +1,57 @@
+/**
+ * React hook for the number of unread connection messages addressed to a profile.
+ *
+ * Usage:
+ * ```tsx
+ * const unread = useUnreadMessages(activeProfile?.id);
+ * ```
+ *
+ * Re-counts when the profile changes, on an interval, and whenever
+ * a thread is marked read (see notifyMessagesRead).
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { createClient, isSupabaseConfigured } from "@/lib/supabase/client";
+
+const REFRESH_INTERVAL_MS = 60_000;
+const MESSAGES_READ_EVENT = "olera:messages-read";
+
+/** Tell every mounted useUnreadMessages hook to re-count. */
+export function notifyMessagesRead() {
+  if (typeof window !== "undefined") {
+    window.dispatchEvent(new Event(MESSAGES_READ_EVENT));
+  }
+}
+
+export function useUnreadMessages(profileId: string | undefined): number {
+  const [count, setCount] = useState(0);
+
+  const fetchCount = useCallback(async () => {
+    if (!profileId || !isSupabaseConfigured()) {
+      setCount(0);
+      return;
+    }
+
+    const supabase = createClient();
+    const { count: unread } = await supabase
+      .from("connection_messages")
+      .select("id", { count: "exact", head: true })
+      .eq("recipient_profile_id", profileId)
+      .is("read_at", null);
+
+    setCount(unread ?? 0);
+  }, [profileId]);
+
+  useEffect(() => {
+    fetchCount();
+
+    const interval = setInterval(fetchCount, REFRESH_INTERVAL_MS);
+    window.addEventListener(MESSAGES_READ_EVENT, fetchCount);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener(MESSAGES_READ_EVENT, fetchCount);
+    };
+  }, [fetchCount]);
+
+  return count;
+}
@@ -0,0 +1,70 @@
+import type { Appointment, AppointmentType, AvailabilitySlot } from "@/lib/types";
+
+export const APPOINTMENT_TYPE_LABELS: Record<AppointmentType, string> = {
+  tour: "Tour",
+  consultation: "Consultation",
+};
+
+/**
+ * Appointments still on the books (requested or confirmed).
+ */
+export function isAppointmentActive(appointment: Appointment): boolean {
+  return appointment.status === "requested" || appointment.status === "confirmed";
+}
+
+/**
+ * A requested appointment waits on whoever did NOT propose the current time.
+ */
+export function awaitsConfirmationFrom(
+  appointment: Appointment,
+  profileId: string
+): boolean {
+  return (
+    appointment.status === "requested" &&
+    appointment.requested_by_profile_id !== profileId
+  );
+}
+
+/**
+ * Whether a slot can be booked for the given appointment type.
+ */
+export function slotMatchesType(
+  slot: AvailabilitySlot,
+  type: AppointmentType
+): boolean {
+  return slot.appointment_type === "any" || slot.appointment_type === type;
+}
+
+/**
+ * The browser's IANA time zone, stored alongside slots and appointments.
+ */
+export function getLocalTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+/**
+ * "Tue, Mar 4 · 10:00 – 10:30 AM" in the viewer's local time.
+ */
+export function formatTimeRange(startsAt: string, endsAt: string): string {
+  const start = new Date(startsAt);
+  const end = new Date(endsAt);
+  const day = start.toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+  const time = (d: Date) =>
+    d.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+  return `${day} · ${time(start)} – ${time(end)}`;
+}
+
+/**
+ * Convert a "YYYY-MM-DD" date and "HH:MM" time (local) to an ISO timestamp.
+ */
+export function localDateTimeToISO(date: string, time: string): string {
+  return new Date(`${date}T${time}`).toISOString();
+}
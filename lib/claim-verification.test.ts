@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { scoreClaim } from "@/lib/claim-verification";
+import { fixture } from "@/lib/test-fixtures";
+
+type Evidence = Parameters<typeof scoreClaim>[0];
+
+const makeEvidence = fixture<Evidence>({
+  listing_website: "https://www.sunrise.example.com",
+  listing_phone: "512-555-0100",
+  listing_license: "TX-123-456",
+  business_email: null,
+  email_verified_at: null,
+  callback_requested_at: null,
+  phone_verified_at: null,
+  license_number: null,
+  document_path: null,
+});
+
+function statuses(result: ReturnType<typeof scoreClaim>) {
+  return Object.fromEntries(result.checks.map((c) => [c.id, c.status]));
+}
+
+describe("scoreClaim", () => {
+  it("scores 100 when every check passes", () => {
+    const result = scoreClaim(
+      makeEvidence({
+        business_email: "owner@sunrise.example.com",
+        email_verified_at: "2026-07-01T00:00:00Z",
+        phone_verified_at: "2026-07-01T00:00:00Z",
+        license_number: "tx 123456",
+        document_path: "claims/profile-1/license.pdf",
+      }),
+      "owner@mail.sunrise.example.com"
+    );
+
+    expect(result.score).toBe(100);
+    expect(result.checks.every((c) => c.status === "pass")).toBe(true);
+  });
+
+  it("scores 0 with no evidence", () => {
+    const result = scoreClaim(makeEvidence(), "someone@gmail.com");
+
+    expect(result.score).toBe(0);
+    expect(statuses(result)).toEqual({
+      business_email: "missing",
+      phone_callback: "missing",
+      license: "missing",
+      document: "missing",
+      account_email: "fail",
+    });
+  });
+
+  it("only counts checks that pass", () => {
+    const result = scoreClaim(
+      makeEvidence({
+        business_email: "owner@sunrise.example.com",
+        callback_requested_at: "2026-07-01T00:00:00Z",
+        document_path: "claims/profile-1/license.pdf",
+      }),
+      null
+    );
+
+    expect(statuses(result)).toMatchObject({
+      business_email: "pending",
+      phone_callback: "pending",
+      document: "pass",
+    });
+    expect(result.score).toBe(10);
+  });
+
+  it("fails a business email on another domain", () => {
+    const result = scoreClaim(
+      makeEvidence({
+        business_email: "owner@sunrise-fake.example.net",
+        email_verified_at: "2026-07-01T00:00:00Z",
+      }),
+      null
+    );
+
+    expect(statuses(result).business_email).toBe("fail");
+    expect(result.score).toBe(0);
+  });
+
+  it("can't match emails when the listing has no website", () => {
+    const result = scoreClaim(
+      makeEvidence({
+        listing_website: null,
+        business_email: "owner@sunrise.example.com",
+        email_verified_at: "2026-07-01T00:00:00Z",
+      }),
+      "owner@sunrise.example.com"
+    );
+
+    expect(statuses(result)).toMatchObject({ business_email: "missing", account_email: "fail" });
+  });
+
+  it("can't call back a listing without a phone", () => {
+    const result = scoreClaim(
+      makeEvidence({ listing_phone: null, phone_verified_at: "2026-07-01T00:00:00Z" }),
+      null
+    );
+
+    expect(statuses(result).phone_callback).toBe("missing");
+  });
+
+  it("compares license numbers ignoring case and punctuation", () => {
+    const match = scoreClaim(makeEvidence({ license_number: "tx123-456" }), null);
+    const mismatch = scoreClaim(makeEvidence({ license_number: "TX-999-999" }), null);
+    const nothingOnFile = scoreClaim(
+      makeEvidence({ listing_license: null, license_number: "TX-123-456" }),
+      null
+    );
+
+    expect(statuses(match).license).toBe("pass");
+    expect(match.score).toBe(20);
+    expect(statuses(mismatch).license).toBe("fail");
+    expect(statuses(nothingOnFile).license).toBe("pending");
+  });
+
+  it("weights the checks 30/30/20/10/10", () => {
+    const { checks } = scoreClaim(makeEvidence(), null);
+    expect(Object.fromEntries(checks.map((c) => [c.id, c.weight]))).toEqual({
+      business_email: 30,
+      phone_callback: 30,
+      license: 20,
+      document: 10,
+      account_email: 10,
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { createHash, randomInt } from "crypto";
+import type { ClaimCheck, ClaimVerification } from "@/lib/types";
+
+/**
+ * Automated checks on the evidence behind a provider claim.
+ *
+ * Each check that passes adds its weight to a 0-100 score shown to
+ * admins next to the claim. The score informs the review; approving
+ * is still a person's decision in /admin/providers.
+ *
+ * Server-side only (uses node crypto).
+ */
+
+/** Verification codes expire after this long */
+export const CODE_TTL_MINUTES = 30;
+
+/** Wrong guesses allowed before a code is voided and a new one is needed */
+export const MAX_CODE_ATTEMPTS = 5;
+
+/** Largest document accepted as claim evidence */
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+export const DOCUMENT_TYPES = ["application/pdf", "image/jpeg", "image/png"];
+
+const WEIGHTS: Record<ClaimCheck["id"], number> = {
+  business_email: 30,
+  phone_callback: 30,
+  license: 20,
+  document: 10,
+  account_email: 10,
+};
+
+/** Six-digit code for email and phone verification. */
+export function generateCode(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+export function hashCode(code: string): string {
+  return createHash("sha256").update(code.trim()).digest("hex");
+}
+
+export function isCodeExpired(sentAt: string | null): boolean {
+  if (!sentAt) return true;
+  return Date.now() - new Date(sentAt).getTime() > CODE_TTL_MINUTES * 60 * 1000;
+}
+
+/** Hostname of a website without "www.", or null if it doesn't parse. */
+export function getWebsiteDomain(website: string | null): string | null {
+  if (!website?.trim()) return null;
+  try {
+    const url = new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`);
+    return url.hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+export function getEmailDomain(email: string | null): string | null {
+  const domain = email?.split("@")[1]?.trim().toLowerCase();
+  return domain || null;
+}
+
+/** Same domain, or one is a subdomain of the other (mail.acme.com / acme.com). */
+export function domainsMatch(a: string | null, b: string | null): boolean {
+  if (!a || !b) return false;
+  return a === b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+}
+
+/** Evidence as the claimant sees it, without the verification codes. */
+export function toClaimantView(verification: ClaimVerification | null) {
+  if (!verification) return null;
+  const { email_code_hash, phone_code, failed_code_attempts, ...rest } = verification;
+  return rest;
+}
+
+function normalizeLicense(value: string): string {
+  return value.replace(/[^a-z0-9]/gi, "").toUpperCase();
+}
+
+function check(
+  id: ClaimCheck["id"],
+  label: string,
+  status: ClaimCheck["status"],
+  detail: string
+): ClaimCheck {
+  return { id, label, status, detail, weight: WEIGHTS[id] };
+}
+
+/**
+ * Run every check against the claim's evidence. The website, phone and
+ * license come from the listing snapshot taken when the claim started
+ * (listing_*), so editing the profile afterwards doesn't change them.
+ * accountEmail is the claimant's sign-in email.
+ */
+export function scoreClaim(
+  verification: Pick<
+    ClaimVerification,
+    | "listing_website"
+    | "listing_phone"
+    | "listing_license"
+    | "business_email"
+    | "email_verified_at"
+    | "callback_requested_at"
+    | "phone_verified_at"
+    | "license_number"
+    | "document_path"
+  >,
+  accountEmail: string | null
+): { score: number; checks: ClaimCheck[] } {
+  const siteDomain = getWebsiteDomain(verification.listing_website);
+  const checks: ClaimCheck[] = [];
+
+  // Business email on the listing's domain
+  if (!siteDomain) {
+    checks.push(check("business_email", "Business email", "missing", "Listing has no website to match"));
+  } else if (!verification.business_email) {
+    checks.push(check("business_email", "Business email", "missing", "No business email submitted"));
+  } else if (!domainsMatch(getEmailDomain(verification.business_email), siteDomain)) {
+    checks.push(
+      check("business_email", "Business email", "fail", `${verification.business_email} isn't on ${siteDomain}`)
+    );
+  } else if (!verification.email_verified_at) {
+    checks.push(
+      check("business_email", "Business email", "pending", `Code sent to ${verification.business_email}`)
+    );
+  } else {
+    checks.push(
+      check("business_email", "Business email", "pass", `Verified ${verification.business_email}`)
+    );
+  }
+
+  // Callback to the listing's phone
+  const phone = verification.listing_phone;
+  if (!phone) {
+    checks.push(check("phone_callback", "Phone callback", "missing", "Listing has no phone number"));
+  } else if (verification.phone_verified_at) {
+    checks.push(check("phone_callback", "Phone callback", "pass", `Code confirmed via ${phone}`));
+  } else if (verification.callback_requested_at) {
+    checks.push(check("phone_callback", "Phone callback", "pending", `Callback to ${phone} requested`));
+  } else {
+    checks.push(check("phone_callback", "Phone callback", "missing", "No callback requested"));
+  }
+
+  // License number against the one on file
+  const licenseOnFile = verification.listing_license;
+  if (!verification.license_number) {
+    checks.push(check("license", "License number", "missing", "No license number submitted"));
+  } else if (!licenseOnFile) {
+    checks.push(
+      check("license", "License number", "pending", "No license on file; check the state registry")
+    );
+  } else if (normalizeLicense(licenseOnFile) === normalizeLicense(verification.license_number)) {
+    checks.push(check("license", "License number", "pass", "Matches the license on file"));
+  } else {
+    checks.push(
+      check("license", "License number", "fail", `Doesn't match the license on file (${licenseOnFile})`)
+    );
+  }
+
+  // Supporting document
+  checks.push(
+    verification.document_path
+      ? check("document", "Document", "pass", "Uploaded; review before approving")
+      : check("document", "Document", "missing", "No document uploaded")
+  );
+
+  // Sign-in email on the listing's domain
+  const accountDomain = getEmailDomain(accountEmail);
+  checks.push(
+    siteDomain && domainsMatch(accountDomain, siteDomain)
+      ? check("account_email", "Account email", "pass", `Signed in as ${accountEmail}`)
+      : check("account_email", "Account email", "fail", `Signed in as ${accountEmail ?? "unknown"}`)
+  );
+
+  const score = checks.reduce((sum, c) => sum + (c.status === "pass" ? c.weight : 0), 0);
+  return { score, checks };
+}
@@ -0,0 +1,12 @@
+import { timingSafeEqual } from "crypto";
+
+/**
+ * Check a cron request's Authorization header. Vercel sends
+ * CRON_SECRET as a bearer token to the routes scheduled in vercel.json.
+ */
+export function isCronAuthorized(header: string | null, secret: string): boolean {
+  if (!header) return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
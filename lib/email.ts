@@ -0,0 +1,56 @@
+/**
+ * Transactional email through Resend's HTTP API.
+ * Server-side only. Without RESEND_API_KEY, sends are logged and
+ * skipped so local development works without an email provider.
+ */
+
+const RESEND_URL = "https://api.resend.com/emails";
+const DEFAULT_FROM = "Olera <notifications@olera.care>";
+
+export function isEmailConfigured(): boolean {
+  return !!process.env.RESEND_API_KEY;
+}
+
+/**
+ * Send a plain-text email. Returns whether it was accepted for delivery.
+ */
+export async function sendEmail({
+  to,
+  subject,
+  text,
+}: {
+  to: string;
+  subject: string;
+  text: string;
+}): Promise<boolean> {
+  const key = process.env.RESEND_API_KEY;
+  if (!key) {
+    console.warn(`RESEND_API_KEY is not set; skipped email "${subject}" to ${to}`);
+    return false;
+  }
+
+  try {
+    const res = await fetch(RESEND_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${key}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: process.env.EMAIL_FROM || DEFAULT_FROM,
+        to,
+        subject,
+        text,
+      }),
+    });
+
+    if (!res.ok) {
+      console.error("Email send failed:", res.status, await res.text());
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error("Email send error:", err);
+    return false;
+  }
+}
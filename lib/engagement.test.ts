@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  canViewDetails,
+  chargeFirstResponse,
+  getDetailsAccess,
+  toVisibleConnection,
+  undoFirstResponse,
+  type Engager,
+} from "@/lib/engagement";
+import {
+  createFakeDb,
+  fixture,
+  makeConnection,
+  makeMembership,
+  makeProfile,
+  type FakeDb,
+} from "@/lib/test-fixtures";
+import type { Profile } from "@/lib/types";
+
+const provider = makeProfile();
+const family = makeProfile({
+  id: "family-1",
+  account_id: "account-2",
+  type: "family",
+  display_name: "Jane Doe",
+  email: "jane@example.com",
+  phone: "512-555-0111",
+  description: "Caring for my mother",
+  metadata: { timeline: "within_1_month" } as Profile["metadata"],
+});
+const profiles = new Map([provider, family].map((p) => [p.id, p]));
+
+/** profile-1's owner on the free plan with responses left this month. */
+const makeEngager = fixture<Engager>({
+  accountId: "account-1",
+  actorAccountId: "account-1",
+  role: "owner",
+  profile: { id: provider.id, type: provider.type, display_name: provider.display_name },
+  membership: makeMembership(),
+});
+const outOfResponses = makeEngager({ membership: makeMembership({ free_responses_used: 3 }) });
+
+describe("canViewDetails", () => {
+  it("opens inbound inquiries while the plan has responses left", () => {
+    expect(canViewDetails(makeEngager(), makeConnection())).toBe(true);
+    expect(canViewDetails(outOfResponses, makeConnection())).toBe(false);
+  });
+
+  it("keeps a connection open once it's been answered", () => {
+    const answered = makeConnection({ responded_at: "2026-07-02T00:00:00.000Z" });
+    expect(canViewDetails(outOfResponses, answered)).toBe(true);
+  });
+
+  it("doesn't gate outbound connections or families", () => {
+    const outbound = makeConnection({ from_profile_id: "profile-1", to_profile_id: "family-1" });
+    const familyViewer = makeEngager({
+      profile: { id: "profile-1", type: "family", display_name: "Jane Doe" },
+      membership: null,
+    });
+
+    expect(canViewDetails(outOfResponses, outbound)).toBe(true);
+    expect(canViewDetails(familyViewer, makeConnection())).toBe(true);
+  });
+});
+
+describe("toVisibleConnection", () => {
+  it("anonymizes the family and their message without access", () => {
+    const visible = toVisibleConnection(outOfResponses, makeConnection(), profiles);
+
+    expect(visible.details).toBe(false);
+    expect(visible.connection.message).toBe("Looking for memory c...");
+    expect(visible.fromProfile).toMatchObject({
+      display_name: "J*** D***",
+      email: null,
+      phone: null,
+      description: null,
+      metadata: { timeline: "within_1_month" },
+    });
+    expect(visible.toProfile).toBe(provider);
+  });
+
+  it("shows who it is but not how to reach them until accepted", () => {
+    const pending = toVisibleConnection(makeEngager(), makeConnection(), profiles);
+    const accepted = toVisibleConnection(
+      makeEngager(),
+      makeConnection({ status: "accepted", responded_at: "2026-07-02T00:00:00.000Z" }),
+      profiles
+    );
+
+    expect(pending.connection.message).toBe(makeConnection().message);
+    expect(pending.fromProfile).toMatchObject({ display_name: "Jane Doe", email: null, phone: null });
+    expect(accepted.fromProfile).toBe(family);
+  });
+});
+
+describe("first response charge", () => {
+  let fake: FakeDb;
+  let used: number;
+
+  beforeEach(() => {
+    used = 0;
+    fake = createFakeDb({
+      tables: { connections: [{ ...makeConnection() }] },
+      rpcs: {
+        consume_free_connection: ({ p_limit }) => {
+          if (p_limit === null) return "unlimited";
+          if (used >= (p_limit as number)) return "denied";
+          used += 1;
+          return "consumed";
+        },
+        refund_free_connection: () => {
+          used -= 1;
+        },
+      },
+    });
+  });
+
+  const stored = () => fake.tables.connections[0];
+
+  it("spends a response and records who answered", async () => {
+    const charge = await chargeFirstResponse(fake.client, makeEngager(), makeConnection());
+
+    expect(charge).toEqual({ recorded: true, consumed: true });
+    expect(used).toBe(1);
+    expect(stored().responded_at).not.toBeNull();
+    expect(stored().responded_by).toBe("account-1");
+  });
+
+  it("refuses when the plan is out of responses", async () => {
+    used = 3;
+    const charge = await chargeFirstResponse(fake.client, makeEngager(), makeConnection());
+
+    expect(charge).toBeNull();
+    expect(stored().responded_at).toBeNull();
+  });
+
+  it("doesn't charge again once answered, or for unlimited plans", async () => {
+    const answered = makeConnection({ responded_at: "2026-07-02T00:00:00.000Z" });
+    const pro = makeEngager({ membership: makeMembership({ plan: "pro", status: "active" }) });
+
+    expect(await chargeFirstResponse(fake.client, makeEngager(), answered)).toEqual({
+      recorded: false,
+      consumed: false,
+    });
+    expect(await chargeFirstResponse(fake.client, pro, makeConnection())).toEqual({
+      recorded: true,
+      consumed: false,
+    });
+    expect(used).toBe(0);
+  });
+
+  it("refunds when a concurrent response already paid", async () => {
+    stored().responded_at = "2026-07-02T00:00:00.000Z";
+
+    const charge = await chargeFirstResponse(fake.client, makeEngager(), makeConnection());
+
+    expect(charge).toEqual({ recorded: false, consumed: false });
+    expect(used).toBe(0);
+  });
+
+  it("refunds and throws when the response can't be recorded", async () => {
+    fake.failNext("connections", "update");
+
+    await expect(chargeFirstResponse(fake.client, makeEngager(), makeConnection())).rejects.toThrow(
+      "Failed to record response"
+    );
+    expect(used).toBe(0);
+  });
+
+  it("undoes a charge whose reply didn't go through", async () => {
+    const connection = makeConnection();
+    const charge = await chargeFirstResponse(fake.client, makeEngager(), connection);
+
+    await undoFirstResponse(fake.client, makeEngager(), connection, charge!);
+
+    expect(stored().responded_at).toBeNull();
+    expect(stored().responded_by).toBeNull();
+    expect(used).toBe(0);
+  });
+});
+
+describe("getDetailsAccess", () => {
+  it("checks each connection against the viewer's membership", async () => {
+    const fake = createFakeDb({
+      tables: {
+        memberships: [makeMembership({ free_responses_used: 3 })],
+        connections: [
+          makeConnection(),
+          makeConnection({ id: "connection-2", responded_at: "2026-07-02T00:00:00.000Z" }),
+          makeConnection({ id: "connection-3", from_profile_id: "profile-1", to_profile_id: "x" }),
+        ],
+      },
+    });
+
+    const access = await getDetailsAccess(fake.client, provider, [
+      "connection-1",
+      "connection-2",
+      "connection-3",
+      "connection-1",
+    ]);
+
+    expect(Object.fromEntries(access)).toEqual({
+      "connection-1": false,
+      "connection-2": true,
+      "connection-3": true,
+    });
+  });
+});
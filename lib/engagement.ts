@@ -0,0 +1,312 @@
+import { getServiceClient } from "@/lib/admin";
+import { getLimit } from "@/lib/entitlements";
+import { blurName, blurText, canEngage } from "@/lib/membership";
+import type { Connection, Membership, Profile, TeamRole } from "@/lib/types";
+
+/**
+ * Server-side half of the engagement paywall. Client components use
+ * canEngage() for display; API routes use these helpers to decide and
+ * to spend free connections, so the rules can't be skipped from the browser.
+ */
+
+type ServiceClient = ReturnType<typeof getServiceClient>;
+
+export interface Engager {
+  /** The profile's owning account, whose plan pays for responses */
+  accountId: string;
+  /** The signed-in user's account: the owner or a teammate */
+  actorAccountId: string;
+  role: TeamRole;
+  profile: Pick<Profile, "id" | "type" | "display_name">;
+  membership: Membership | null;
+}
+
+export type SpendResult = "unlimited" | "consumed" | "denied";
+
+/**
+ * An account's role on a profile: "owner" for its own profiles, the
+ * accepted teammate role otherwise, or null.
+ */
+export async function getProfileRole(
+  db: ServiceClient,
+  accountId: string,
+  profile: { id: string; account_id: string | null }
+): Promise<TeamRole | null> {
+  if (profile.account_id === accountId) return "owner";
+
+  const { data: member } = await db
+    .from("profile_members")
+    .select("role")
+    .eq("profile_id", profile.id)
+    .eq("account_id", accountId)
+    .not("accepted_at", "is", null)
+    .maybeSingle();
+
+  return (member?.role as TeamRole) ?? null;
+}
+
+/**
+ * Load a profile the user owns or is a teammate on, with the owning
+ * account's membership. Returns null when the user has no role on it;
+ * callers check the role for anything beyond reading.
+ */
+export async function getEngager(
+  db: ServiceClient,
+  userId: string,
+  profileId: string
+): Promise<Engager | null> {
+  const { data: account } = await db
+    .from("accounts")
+    .select("id")
+    .eq("user_id", userId)
+    .single();
+
+  if (!account) return null;
+
+  const { data: profile } = await db
+    .from("business_profiles")
+    .select("id, type, display_name, account_id")
+    .eq("id", profileId)
+    .single();
+
+  if (!profile?.account_id) return null;
+
+  const role = await getProfileRole(db, account.id, profile);
+  if (!role) return null;
+
+  const { data: membership } = await db
+    .from("memberships")
+    .select("*")
+    .eq("account_id", profile.account_id)
+    .maybeSingle();
+
+  return {
+    accountId: profile.account_id,
+    actorAccountId: account.id,
+    role,
+    profile: { id: profile.id, type: profile.type, display_name: profile.display_name },
+    membership: (membership as Membership) ?? null,
+  };
+}
+
+/**
+ * Load a connection together with the caller's profile on it.
+ * Returns null unless the profile is the user's and a participant.
+ */
+export async function getParticipant(
+  db: ServiceClient,
+  userId: string,
+  connectionId: string,
+  profileId: string
+): Promise<{ connection: Connection; engager: Engager } | null> {
+  const engager = await getEngager(db, userId, profileId);
+  if (!engager) return null;
+
+  const { data: connection } = await db
+    .from("connections")
+    .select("*")
+    .eq("id", connectionId)
+    .maybeSingle();
+
+  if (
+    !connection ||
+    (connection.from_profile_id !== profileId && connection.to_profile_id !== profileId)
+  ) {
+    return null;
+  }
+
+  return { connection: connection as Connection, engager };
+}
+
+/**
+ * Check and spend one of the plan's monthly responses in a single
+ * database step. Families never pay (a profile's type can't be changed
+ * from the browser); unlimited plans aren't counted.
+ */
+export async function spendFreeConnection(
+  db: ServiceClient,
+  engager: Engager
+): Promise<SpendResult> {
+  if (engager.profile.type === "family") return "unlimited";
+
+  const { data, error } = await db.rpc("consume_free_connection", {
+    p_account_id: engager.accountId,
+    p_limit: getLimit(engager.membership, "monthly_responses"),
+  });
+
+  if (error) throw new Error(`Failed to check free connections: ${error.message}`);
+  return data as SpendResult;
+}
+
+export async function refundFreeConnection(db: ServiceClient, accountId: string) {
+  const { error } = await db.rpc("refund_free_connection", { p_account_id: accountId });
+  if (error) console.error(`Failed to refund free connection for ${accountId}:`, error);
+}
+
+/**
+ * Whether the viewer may see who is on the other side of a connection.
+ * Only inbound connections are gated, and only until the provider has
+ * responded (which is when the free connection was spent).
+ */
+export function canViewDetails(
+  viewer: Pick<Engager, "profile" | "membership">,
+  connection: Pick<Connection, "to_profile_id" | "responded_at">
+): boolean {
+  if (connection.to_profile_id !== viewer.profile.id) return true;
+  if (connection.responded_at) return true;
+  return canEngage(viewer.profile.type, viewer.membership, "view_inquiry_details");
+}
+
+/**
+ * canViewDetails() for a profile on each of the given connections, keyed
+ * by connection id. For readers that act as a profile without a
+ * signed-in engager, like the calendar feed. Connections that can't be
+ * loaded are treated as locked.
+ */
+export async function getDetailsAccess(
+  db: ServiceClient,
+  viewer: Pick<Profile, "id" | "type" | "display_name" | "account_id">,
+  connectionIds: string[]
+): Promise<Map<string, boolean>> {
+  const access = new Map<string, boolean>();
+  if (connectionIds.length === 0) return access;
+
+  const [{ data: membership }, { data: connections }] = await Promise.all([
+    viewer.account_id
+      ? db.from("memberships").select("*").eq("account_id", viewer.account_id).maybeSingle()
+      : Promise.resolve({ data: null }),
+    db
+      .from("connections")
+      .select("id, to_profile_id, responded_at")
+      .in("id", Array.from(new Set(connectionIds))),
+  ]);
+
+  const engager = { profile: viewer, membership: (membership as Membership) ?? null };
+  for (const connection of connections ?? []) {
+    access.set(connection.id, canViewDetails(engager, connection));
+  }
+  return access;
+}
+
+/** What chargeFirstResponse() did, so undoFirstResponse() can reverse it. */
+export interface ResponseCharge {
+  /** This call set responded_at (it was the first response) */
+  recorded: boolean;
+  /** And spent one of the plan's monthly responses on it */
+  consumed: boolean;
+}
+
+/**
+ * Charge the recipient's first response (accept or reply) to an inbound
+ * connection. Later responses, outbound connections and families are free.
+ * Returns null when the provider is out of free connections. If the
+ * write the response paid for then fails, call undoFirstResponse().
+ */
+export async function chargeFirstResponse(
+  db: ServiceClient,
+  engager: Engager,
+  connection: Connection
+): Promise<ResponseCharge | null> {
+  if (connection.to_profile_id !== engager.profile.id || connection.responded_at) {
+    return { recorded: false, consumed: false };
+  }
+
+  const spent = await spendFreeConnection(db, engager);
+  if (spent === "denied") return null;
+
+  const { data: marked, error } = await db
+    .from("connections")
+    .update({
+      responded_at: new Date().toISOString(),
+      responded_by: connection.responded_by ?? engager.actorAccountId,
+    })
+    .eq("id", connection.id)
+    .is("responded_at", null)
+    .select("id");
+
+  if (error) {
+    if (spent === "consumed") await refundFreeConnection(db, engager.accountId);
+    throw new Error(`Failed to record response: ${error.message}`);
+  }
+
+  // A concurrent response already paid for this connection
+  if (!marked || marked.length === 0) {
+    if (spent === "consumed") await refundFreeConnection(db, engager.accountId);
+    return { recorded: false, consumed: false };
+  }
+
+  return { recorded: true, consumed: spent === "consumed" };
+}
+
+/**
+ * Reverse a charge whose response didn't go through: the connection
+ * counts as unanswered again and the free connection is refunded.
+ */
+export async function undoFirstResponse(
+  db: ServiceClient,
+  engager: Engager,
+  connection: Connection,
+  charge: ResponseCharge
+) {
+  if (charge.recorded) {
+    const { error } = await db
+      .from("connections")
+      .update({ responded_at: null, responded_by: connection.responded_by })
+      .eq("id", connection.id);
+    if (error) console.error(`Failed to clear response on ${connection.id}:`, error);
+  }
+  if (charge.consumed) await refundFreeConnection(db, engager.accountId);
+}
+
+/**
+ * A connection and both of its profiles as the engager may see them: the
+ * other side (and its opening message) is anonymized until a provider
+ * has access, and contact details are only included once accepted.
+ */
+export function toVisibleConnection(
+  engager: Engager,
+  connection: Connection,
+  profiles: Map<string, Profile>
+) {
+  const details = canViewDetails(engager, connection);
+
+  const visible = (profile: Profile | undefined) => {
+    if (!profile) return null;
+    if (profile.id === engager.profile.id) return profile;
+    if (!details) return hideIdentity(profile);
+    return connection.status === "accepted" ? profile : hideContact(profile);
+  };
+
+  return {
+    connection:
+      details || connection.from_profile_id === engager.profile.id
+        ? connection
+        : { ...connection, message: connection.message ? blurText(connection.message) : null },
+    fromProfile: visible(profiles.get(connection.from_profile_id)),
+    toProfile: visible(profiles.get(connection.to_profile_id)),
+    details,
+  };
+}
+
+/**
+ * Strip what a provider without access may not see about the other side
+ * of an inbound connection. Location, care types and timeline stay
+ * visible so they can tell what the inquiry is about.
+ */
+export function hideIdentity(profile: Profile): Profile {
+  const timeline = (profile.metadata as { timeline?: string })?.timeline;
+  return {
+    ...hideContact(profile),
+    display_name: blurName(profile.display_name),
+    description: null,
+    image_url: null,
+    lat: null,
+    lng: null,
+    metadata: (timeline ? { timeline } : {}) as Profile["metadata"],
+  };
+}
+
+/** Contact details are only shared once a connection is accepted. */
+export function hideContact(profile: Profile): Profile {
+  return { ...profile, phone: null, email: null, website: null, address: null };
+}
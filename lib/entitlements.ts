@@ -0,0 +1,120 @@
+import type { BillingCycle, Membership, MembershipPlan } from "@/lib/types";
+
+/**
+ * Plans and what they unlock.
+ *
+ * Everything plan-dependent goes through hasEntitlement() or getLimit()
+ * so adding a plan or moving a feature between plans is a change to
+ * PLANS only. Stripe price ids per plan live in lib/stripe.ts. The
+ * database enforces the same matrix (get_profile_plan() and
+ * 027_plan_enforcement.sql), so keep both in step.
+ */
+
+export type PaidPlan = Exclude<MembershipPlan, "free">;
+
+export type Feature =
+  /** No monthly cap on responses and outbound connections */
+  | "unlimited_responses"
+  /** Families can book tours and consultations from the profile */
+  | "tour_scheduling"
+  /** Ranked above non-featured providers in recommended search order */
+  | "featured_placement";
+
+export type Limit =
+  /** Responses and outbound connections per month */
+  | "monthly_responses"
+  /** Provider profiles (locations) per account */
+  | "locations"
+  /** Accounts that can manage the organization, including the owner */
+  | "team_seats";
+
+export interface PlanDefinition {
+  label: string;
+  /** List price in dollars, shown in the portal. Stripe is the source of truth. */
+  price: Record<BillingCycle, number> | null;
+  features: Feature[];
+  /** null means unlimited */
+  limits: Record<Limit, number | null>;
+}
+
+export const PLANS: Record<MembershipPlan, PlanDefinition> = {
+  free: {
+    label: "Free",
+    price: null,
+    features: [],
+    limits: { monthly_responses: 3, locations: 1, team_seats: 1 },
+  },
+  basic: {
+    label: "Basic",
+    price: { monthly: 12, annual: 119 },
+    features: ["tour_scheduling"],
+    limits: { monthly_responses: 20, locations: 1, team_seats: 2 },
+  },
+  pro: {
+    label: "Pro",
+    price: { monthly: 25, annual: 249 },
+    features: ["unlimited_responses", "tour_scheduling", "featured_placement"],
+    limits: { monthly_responses: null, locations: 3, team_seats: 5 },
+  },
+  enterprise: {
+    label: "Enterprise",
+    price: { monthly: 99, annual: 990 },
+    features: ["unlimited_responses", "tour_scheduling", "featured_placement"],
+    limits: { monthly_responses: null, locations: null, team_seats: 25 },
+  },
+};
+
+export const PAID_PLANS: PaidPlan[] = ["basic", "pro", "enterprise"];
+
+/** New providers trial this plan. Mirrored in get_profile_plan() in SQL. */
+export const TRIAL_PLAN: PaidPlan = "pro";
+
+/**
+ * The plan a membership currently gets: its paid plan while the
+ * subscription is active (or in the past-due grace period), the trial
+ * plan during a trial, and free otherwise.
+ */
+export function getEffectivePlan(membership: Membership | null, now = new Date()): MembershipPlan {
+  if (!membership) return "free";
+
+  if (membership.status === "active" || membership.status === "past_due") {
+    return membership.plan;
+  }
+
+  if (
+    membership.status === "trialing" &&
+    membership.trial_ends_at &&
+    new Date(membership.trial_ends_at).getTime() > now.getTime()
+  ) {
+    return TRIAL_PLAN;
+  }
+
+  return "free";
+}
+
+/**
+ * Whether a membership's plan includes a feature. Also takes a plan
+ * directly, for when only the plan is known (another provider's plan
+ * via get_profile_plan()).
+ */
+export function hasEntitlement(
+  membership: Membership | MembershipPlan | null,
+  feature: Feature
+): boolean {
+  const plan = typeof membership === "string" ? membership : getEffectivePlan(membership);
+  return PLANS[plan].features.includes(feature);
+}
+
+/** A plan limit for the membership; null means unlimited. */
+export function getLimit(membership: Membership | null, limit: Limit): number | null {
+  return PLANS[getEffectivePlan(membership)].limits[limit];
+}
+
+/** The cheapest paid plan that includes a feature. */
+export function getUpgradePlan(feature: Feature): PaidPlan {
+  return PAID_PLANS.find((plan) => PLANS[plan].features.includes(feature)) ?? "enterprise";
+}
+
+export function isPaidPlan(value: unknown): value is PaidPlan {
+  return PAID_PLANS.includes(value as PaidPlan);
+}
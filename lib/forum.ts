@@ -0,0 +1,149 @@
+import type {
+  ForumReportReason,
+  ProfileType,
+  PublicForumComment,
+  PublicForumPost,
+} from "@/lib/types";
+import type { AuthorRole, CareTypeId, ForumAuthor, ForumComment, ForumPost } from "@/types/forum";
+
+export const MAX_POST_TITLE_LENGTH = 200;
+export const MAX_POST_LENGTH = 10000;
+export const MAX_COMMENT_LENGTH = 5000;
+
+const EXCERPT_LENGTH = 160;
+
+export const FORUM_REPORT_REASON_LABELS: Record<ForumReportReason, string> = {
+  offensive: "Offensive or inappropriate",
+  spam: "Spam or misleading",
+  harassment: "Harassment or bullying",
+  misinformation: "Medical misinformation",
+  other: "Other",
+};
+
+export const FORUM_REPORT_REASONS = Object.keys(
+  FORUM_REPORT_REASON_LABELS
+) as ForumReportReason[];
+
+const ROLE_BY_PROFILE_TYPE: Record<ProfileType, AuthorRole> = {
+  family: "family",
+  caregiver: "caregiver",
+  organization: "provider",
+};
+
+type AuthorColumns = Pick<
+  PublicForumPost,
+  | "id"
+  | "author_profile_id"
+  | "is_anonymous"
+  | "author_name"
+  | "author_image_url"
+  | "author_type"
+  | "author_joined_at"
+  | "author_post_count"
+  | "author_credential"
+>;
+
+function toForumAuthor(row: AuthorColumns): ForumAuthor {
+  const role = row.author_credential
+    ? "expert"
+    : row.author_type
+      ? ROLE_BY_PROFILE_TYPE[row.author_type]
+      : "family";
+
+  if (row.is_anonymous || !row.author_profile_id) {
+    return {
+      // Keyed by the post/comment so anonymous authors can't be correlated
+      id: `anonymous-${row.id}`,
+      displayName: "Anonymous",
+      isAnonymous: true,
+      role,
+      joinedDate: "",
+      postCount: 0,
+    };
+  }
+
+  return {
+    id: row.author_profile_id,
+    displayName: row.author_name || "Olera member",
+    avatar: row.author_image_url ?? undefined,
+    isAnonymous: false,
+    role,
+    credential: row.author_credential ?? undefined,
+    joinedDate: row.author_joined_at ?? "",
+    postCount: row.author_post_count ?? 0,
+  };
+}
+
+export function makeExcerpt(content: string): string {
+  const flat = content.replace(/\s+/g, " ").trim();
+  if (flat.length <= EXCERPT_LENGTH) return flat;
+  return flat.slice(0, EXCERPT_LENGTH).replace(/\s+\S*$/, "") + "...";
+}
+
+export function toForumPost(row: PublicForumPost): ForumPost {
+  return {
+    id: row.id,
+    slug: row.slug,
+    title: row.title,
+    content: row.content,
+    excerpt: makeExcerpt(row.content),
+    author: toForumAuthor(row),
+    careType: row.care_type as CareTypeId,
+    tags: row.tags ?? [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    likeCount: row.like_count,
+    commentCount: row.comment_count,
+    viewCount: row.view_count,
+    isPinned: row.is_pinned,
+    isLocked: row.is_locked,
+    hasAcceptedAnswer: row.has_accepted_answer,
+  };
+}
+
+export function toForumComment(row: PublicForumComment): ForumComment {
+  return {
+    id: row.id,
+    postId: row.post_id,
+    parentId: row.parent_id ?? undefined,
+    content: row.content,
+    author: toForumAuthor(row),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    likeCount: row.like_count,
+    isAcceptedAnswer: row.is_accepted_answer,
+  };
+}
+
+/**
+ * Nest replies under their parent comment. Rows are expected oldest
+ * first so replies read top to bottom.
+ */
+export function buildCommentTree(rows: PublicForumComment[]): ForumComment[] {
+  const byId = new Map<string, ForumComment>();
+  for (const row of rows) {
+    byId.set(row.id, { ...toForumComment(row), replies: [] });
+  }
+
+  const roots: ForumComment[] = [];
+  for (const comment of byId.values()) {
+    const parent = comment.parentId ? byId.get(comment.parentId) : undefined;
+    if (parent) parent.replies!.push(comment);
+    else roots.push(comment);
+  }
+  return roots;
+}
+
+/** URL slug for a new post. The random suffix keeps repeated titles unique. */
+export function makePostSlug(title: string): string {
+  const base = title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, "")
+    .trim()
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-")
+    .slice(0, 80)
+    .replace(/-$/, "");
+  const suffix = crypto.randomUUID().slice(0, 6);
+  return base ? `${base}-${suffix}` : suffix;
+}
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import { appointmentToEvent, buildCalendar, foldLine, type CalendarEvent } from "@/lib/ical";
+import { fixture, makeProfile } from "@/lib/test-fixtures";
+import type { Appointment, Profile } from "@/lib/types";
+
+const octets = (s: string) => new TextEncoder().encode(s).length;
+
+const makeEvent = fixture<CalendarEvent>({
+  uid: "appointment-1@olera.care",
+  sequence: 0,
+  status: "CONFIRMED",
+  start: new Date("2026-07-15T14:00:00Z"),
+  end: new Date("2026-07-15T15:00:00Z"),
+  timezone: "America/New_York",
+  summary: "Tour at Sunrise Senior Living",
+  created: new Date("2026-07-01T12:00:00Z"),
+  lastModified: new Date("2026-07-02T12:00:00Z"),
+});
+
+/** Undo folding: a CRLF followed by a space continues the previous line. */
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, "").split("\r\n");
+}
+
+describe("foldLine", () => {
+  it("leaves lines of 75 octets or fewer alone", () => {
+    const line = "X".repeat(75);
+    expect(foldLine(line)).toBe(line);
+  });
+
+  it("folds longer lines into 75-octet chunks with space continuations", () => {
+    const line = "SUMMARY:" + "a".repeat(200);
+    const parts = foldLine(line).split("\r\n");
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(octets(parts[0])).toBe(75);
+    for (const part of parts.slice(1)) {
+      expect(part.startsWith(" ")).toBe(true);
+      expect(octets(part)).toBeLessThanOrEqual(75);
+    }
+    expect(parts.map((p, i) => (i === 0 ? p : p.slice(1))).join("")).toBe(line);
+  });
+
+  it("never splits a multi-byte character", () => {
+    // 3-octet characters; 75 isn't reachable exactly after the 8-octet name
+    const line = "SUMMARY:" + "日".repeat(60);
+    const parts = foldLine(line).split("\r\n");
+
+    for (const part of parts) {
+      expect(octets(part)).toBeLessThanOrEqual(75);
+      expect(part).not.toContain("\uFFFD");
+    }
+    expect(parts.map((p, i) => (i === 0 ? p : p.slice(1))).join("")).toBe(line);
+  });
+});
+
+describe("buildCalendar", () => {
+  it("writes a VCALENDAR with CRLF line endings", () => {
+    const ics = buildCalendar({ name: "Olera", events: [makeEvent()] });
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.replace(/\r\n/g, "")).not.toContain("\n");
+    expect(ics).toContain("X-WR-CALNAME:Olera\r\n");
+  });
+
+  it("writes times as wall-clock in the event's zone with a matching VTIMEZONE", () => {
+    const lines = unfold(buildCalendar({ events: [makeEvent()] }));
+
+    expect(lines).toContain("DTSTART;TZID=America/New_York:20260715T100000");
+    expect(lines).toContain("DTEND;TZID=America/New_York:20260715T110000");
+    expect(lines).toContain("TZID:America/New_York");
+    expect(lines).toContain("BEGIN:DAYLIGHT");
+    expect(lines).toContain("BEGIN:STANDARD");
+    expect(lines).toContain("DTSTAMP:20260702T120000Z");
+  });
+
+  it("falls back to UTC for an unknown time zone", () => {
+    const lines = unfold(buildCalendar({ events: [makeEvent({ timezone: "Not/A_Zone" })] }));
+
+    expect(lines).toContain("DTSTART;TZID=UTC:20260715T140000");
+    expect(lines).toContain("TZID:UTC");
+    expect(lines.some((l) => l.includes("Not/A_Zone"))).toBe(false);
+  });
+
+  it("escapes text values", () => {
+    const lines = unfold(
+      buildCalendar({
+        events: [
+          makeEvent({
+            summary: "Tour; Sunrise, Austin",
+            description: "Awaiting confirmation.\n\nBring C:\\notes",
+          }),
+        ],
+      })
+    );
+
+    expect(lines).toContain("SUMMARY:Tour\\; Sunrise\\, Austin");
+    expect(lines).toContain("DESCRIPTION:Awaiting confirmation.\\n\\nBring C:\\\\notes");
+  });
+
+  it("marks cancelled events transparent", () => {
+    const lines = unfold(buildCalendar({ events: [makeEvent({ status: "CANCELLED", sequence: 2 })] }));
+
+    expect(lines).toContain("STATUS:CANCELLED");
+    expect(lines).toContain("SEQUENCE:2");
+    expect(lines).toContain("TRANSP:TRANSPARENT");
+  });
+
+  it("folds long lines in the output", () => {
+    const ics = buildCalendar({
+      events: [makeEvent({ description: "Ask about memory care. ".repeat(20) })],
+    });
+
+    for (const line of ics.split("\r\n")) {
+      expect(octets(line)).toBeLessThanOrEqual(75);
+    }
+  });
+});
+
+describe("appointmentToEvent", () => {
+  const makeAppointment = fixture<Appointment>({
+    id: "appointment-1",
+    connection_id: "connection-1",
+    slot_id: null,
+    provider_profile_id: "profile-1",
+    family_profile_id: "family-1",
+    appointment_type: "tour",
+    status: "requested",
+    starts_at: "2026-07-15T14:00:00.000Z",
+    ends_at: "2026-07-15T15:00:00.000Z",
+    timezone: "America/Chicago",
+    notes: "Mom uses a walker",
+    requested_by_profile_id: "family-1",
+    canceled_by_profile_id: null,
+    sequence: 1,
+    created_at: "2026-07-01T00:00:00.000Z",
+    updated_at: "2026-07-02T00:00:00.000Z",
+  });
+
+  const profiles = new Map<string, Profile>([
+    ["profile-1", makeProfile({ address: "100 Congress Ave", zip: "78701" })],
+    ["family-1", makeProfile({ id: "family-1", type: "family", display_name: "Jane Doe" })],
+  ]);
+  const origin = "https://olera.care";
+
+  it("names the family and includes their notes for a provider with access", () => {
+    const event = appointmentToEvent(makeAppointment(), "profile-1", profiles, origin, true);
+
+    expect(event.summary).toBe("Tour with Jane Doe");
+    expect(event.description).toContain("Mom uses a walker");
+    expect(event.location).toBe("100 Congress Ave, Austin, TX, 78701");
+  });
+
+  it("hides the family and their notes from a provider without access", () => {
+    const event = appointmentToEvent(makeAppointment(), "profile-1", profiles, origin, false);
+
+    expect(event.summary).toBe("Tour with family");
+    expect(event.description).not.toContain("Mom uses a walker");
+    expect(event.description).toContain("Awaiting confirmation.");
+  });
+
+  it("titles the family's event with the provider", () => {
+    const event = appointmentToEvent(makeAppointment(), "family-1", profiles, origin, true);
+
+    expect(event.summary).toBe("Tour at Sunrise of Austin");
+    expect(event).toMatchObject({
+      uid: "appointment-appointment-1@olera.care",
+      status: "TENTATIVE",
+      sequence: 1,
+      url: "https://olera.care/portal/connections/connection-1",
+    });
+  });
+});
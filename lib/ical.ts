@@ -0,0 +1,355 @@
+/**
+ * iCalendar (RFC 5545) generation for appointments.
+ *
+ * Used by the subscribable feed at /api/calendar/[token].ics and the
+ * one-off "Add to calendar" download. Times are written in the zone the
+ * appointment was booked in, with a generated VTIMEZONE so Outlook and
+ * Google Calendar render them correctly. Reschedules bump SEQUENCE and
+ * cancellations are kept in the feed with STATUS:CANCELLED so clients
+ * remove them instead of leaving stale events behind.
+ */
+
+import type { Appointment, Profile } from "@/lib/types";
+import { APPOINTMENT_TYPE_LABELS } from "@/lib/appointments";
+
+const PRODID = "-//Olera//Olera Care Calendar//EN";
+const UID_DOMAIN = "olera.care";
+const MAX_LINE_OCTETS = 75;
+
+export type CalendarEventStatus = "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  status: CalendarEventStatus;
+  start: Date;
+  end: Date;
+  /** IANA zone the wall-clock times are expressed in. */
+  timezone: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  created: Date;
+  lastModified: Date;
+}
+
+// ------------------------------------------------------------------
+// Time zone helpers (Intl-based, no tz database dependency)
+// ------------------------------------------------------------------
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock fields of an instant in a zone. */
+function getZonedParts(date: Date, timeZone: string) {
+  const dtf = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+  const parts: Record<string, number> = {};
+  for (const p of dtf.formatToParts(date)) {
+    if (p.type !== "literal") parts[p.type] = Number(p.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/** UTC offset of the zone at the given instant, in minutes. */
+function getOffsetMinutes(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / 60000);
+}
+
+interface Transition {
+  at: Date;
+  from: number;
+  to: number;
+}
+
+/** Offset changes (DST switches) within a calendar year. */
+function findTransitions(year: number, timeZone: string): Transition[] {
+  const transitions: Transition[] = [];
+  const DAY = 86_400_000;
+  let prev = new Date(Date.UTC(year, 0, 1));
+  let prevOffset = getOffsetMinutes(prev, timeZone);
+
+  while (prev.getUTCFullYear() === year) {
+    const next = new Date(prev.getTime() + DAY);
+    const nextOffset = getOffsetMinutes(next, timeZone);
+    if (nextOffset !== prevOffset) {
+      // Binary search the exact minute of the switch
+      let lo = prev.getTime();
+      let hi = next.getTime();
+      while (hi - lo > 60_000) {
+        const mid = lo + Math.floor((hi - lo) / 120_000) * 60_000;
+        if (getOffsetMinutes(new Date(mid), timeZone) === prevOffset) lo = mid;
+        else hi = mid;
+      }
+      transitions.push({ at: new Date(hi), from: prevOffset, to: nextOffset });
+    }
+    prev = next;
+    prevOffset = nextOffset;
+  }
+
+  return transitions;
+}
+
+// ------------------------------------------------------------------
+// Formatting
+// ------------------------------------------------------------------
+
+function pad(n: number, width = 2): string {
+  return String(n).padStart(width, "0");
+}
+
+/** 20260304T150000Z */
+function formatUtc(date: Date): string {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+/** 20260304T090000 — wall-clock time in the zone, no suffix. */
+function formatLocal(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+/** -0500 */
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+/** Escape a TEXT value (RFC 5545 §3.3.11). */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Fold a content line at 75 octets (RFC 5545 §3.1), never splitting a character. */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  // Continuation lines start with a space, which counts toward the limit
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = "";
+      currentOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+// ------------------------------------------------------------------
+// Components
+// ------------------------------------------------------------------
+
+function buildTimezone(timeZone: string, fromYear: number, toYear: number): string[] {
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+
+  // Include the prior year so the observance in effect at the start of
+  // the range has an onset before it.
+  const transitions: Transition[] = [];
+  for (let year = fromYear - 1; year <= toYear; year++) {
+    transitions.push(...findTransitions(year, timeZone));
+  }
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(getOffsetMinutes(new Date(Date.UTC(fromYear, 0, 1)), timeZone));
+    lines.push(
+      "BEGIN:STANDARD",
+      "DTSTART:19700101T000000",
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      "END:STANDARD"
+    );
+  } else {
+    for (const t of transitions) {
+      const kind = t.to > t.from ? "DAYLIGHT" : "STANDARD";
+      // DTSTART is the local time of onset, expressed in the offset being left
+      const onsetWallClock = new Date(t.at.getTime() + t.from * 60_000);
+      lines.push(
+        `BEGIN:${kind}`,
+        `DTSTART:${formatUtc(onsetWallClock).slice(0, -1)}`,
+        `TZOFFSETFROM:${formatOffset(t.from)}`,
+        `TZOFFSETTO:${formatOffset(t.to)}`,
+        `END:${kind}`
+      );
+    }
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+function buildEvent(event: CalendarEvent): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(event.lastModified)}`,
+    `DTSTART;TZID=${event.timezone}:${formatLocal(event.start, event.timezone)}`,
+    `DTEND;TZID=${event.timezone}:${formatLocal(event.end, event.timezone)}`,
+    `SEQUENCE:${event.sequence}`,
+    `STATUS:${event.status}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  lines.push(
+    `CREATED:${formatUtc(event.created)}`,
+    `LAST-MODIFIED:${formatUtc(event.lastModified)}`,
+    `TRANSP:${event.status === "CANCELLED" ? "TRANSPARENT" : "OPAQUE"}`,
+    "END:VEVENT"
+  );
+  return lines;
+}
+
+/**
+ * Serialize events into a complete VCALENDAR document (CRLF line endings).
+ */
+export function buildCalendar(options: {
+  name?: string;
+  events: CalendarEvent[];
+}): string {
+  const events = options.events.map((e) => ({
+    ...e,
+    timezone: isValidTimeZone(e.timezone) ? e.timezone : "UTC",
+  }));
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+
+  // One VTIMEZONE per zone, covering the years its events span
+  const zoneYears = new Map<string, { min: number; max: number }>();
+  for (const e of events) {
+    const years = zoneYears.get(e.timezone);
+    const startYear = e.start.getUTCFullYear();
+    const endYear = e.end.getUTCFullYear();
+    zoneYears.set(e.timezone, {
+      min: Math.min(years?.min ?? startYear, startYear),
+      max: Math.max(years?.max ?? endYear, endYear),
+    });
+  }
+  zoneYears.forEach((range, zone) => {
+    lines.push(...buildTimezone(zone, range.min, range.max));
+  });
+
+  for (const e of events) {
+    lines.push(...buildEvent(e));
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// ------------------------------------------------------------------
+// Appointment mapping
+// ------------------------------------------------------------------
+
+const STATUS_MAP: Record<Appointment["status"], CalendarEventStatus> = {
+  requested: "TENTATIVE",
+  confirmed: "CONFIRMED",
+  completed: "CONFIRMED",
+  canceled: "CANCELLED",
+};
+
+/**
+ * Map an appointment to a calendar event from the viewer's point of view.
+ * `profiles` must contain both the provider and family profiles.
+ * `details` is canViewDetails() for the appointment's connection: a
+ * provider without access sees neither the family's name nor their notes.
+ */
+export function appointmentToEvent(
+  appointment: Appointment,
+  viewerProfileId: string,
+  profiles: Map<string, Profile>,
+  origin: string,
+  details: boolean
+): CalendarEvent {
+  const provider = profiles.get(appointment.provider_profile_id);
+  const family = details ? profiles.get(appointment.family_profile_id) : undefined;
+  const isProviderView = viewerProfileId === appointment.provider_profile_id;
+  const other = isProviderView ? family : provider;
+  const typeLabel = APPOINTMENT_TYPE_LABELS[appointment.appointment_type];
+
+  const summary = isProviderView
+    ? `${typeLabel} with ${other?.display_name || "family"}`
+    : `${typeLabel} at ${other?.display_name || "provider"}`;
+
+  const descriptionParts: string[] = [];
+  if (appointment.status === "requested") {
+    descriptionParts.push("Awaiting confirmation.");
+  }
+  if (appointment.notes && details) descriptionParts.push(appointment.notes);
+  descriptionParts.push(`Manage on Olera: ${origin}/portal/calendar`);
+
+  const location = provider
+    ? [provider.address, provider.city, provider.state, provider.zip]
+        .filter(Boolean)
+        .join(", ")
+    : "";
+
+  return {
+    uid: `appointment-${appointment.id}@${UID_DOMAIN}`,
+    sequence: appointment.sequence ?? 0,
+    status: STATUS_MAP[appointment.status],
+    start: new Date(appointment.starts_at),
+    end: new Date(appointment.ends_at),
+    timezone: appointment.timezone || "UTC",
+    summary,
+    description: descriptionParts.join("\n\n"),
+    location: appointment.appointment_type === "tour" && location ? location : undefined,
+    url: `${origin}/portal/connections/${appointment.connection_id}`,
+    created: new Date(appointment.created_at),
+    lastModified: new Date(appointment.updated_at),
+  };
+}
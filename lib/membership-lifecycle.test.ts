@@ -0,0 +1,142 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { sendEmail } from "@/lib/email";
+import { runMembershipLifecycle } from "@/lib/membership-lifecycle";
+import { createFakeDb, makeMembership, type FakeDb } from "@/lib/test-fixtures";
+import type { Membership } from "@/lib/types";
+
+let fake: FakeDb;
+
+vi.mock("@/lib/admin", () => ({ getServiceClient: () => fake.client }));
+vi.mock("@/lib/email", () => ({ sendEmail: vi.fn() }));
+
+const send = vi.mocked(sendEmail);
+const now = new Date("2026-07-10T06:00:00.000Z");
+
+function setup(memberships: Membership[]) {
+  fake = createFakeDb({
+    tables: {
+      memberships,
+      accounts: [{ id: "account-1", user_id: "user-1" }],
+    },
+    users: { "user-1": { id: "user-1", email: "owner@sunrise.example.com" } },
+  });
+}
+
+const find = (id: string) => fake.tables.memberships.find((m) => m.id === id);
+
+beforeEach(() => {
+  send.mockReset().mockResolvedValue(true);
+});
+
+describe("runMembershipLifecycle", () => {
+  it("expires trials that have ended onto a fresh allowance", async () => {
+    setup([
+      makeMembership({
+        id: "ended",
+        status: "trialing",
+        trial_ends_at: "2026-07-09T00:00:00.000Z",
+        free_responses_used: 3,
+        created_at: "2026-06-25T12:00:00.000Z",
+      }),
+      makeMembership({
+        id: "running",
+        status: "trialing",
+        trial_ends_at: "2026-07-30T00:00:00.000Z",
+        trial_notice_sent_at: "2026-07-01T00:00:00.000Z",
+      }),
+    ]);
+
+    const result = await runMembershipLifecycle(now);
+
+    expect(result.trialsExpired).toBe(1);
+    expect(find("ended")).toMatchObject({
+      status: "free",
+      free_responses_used: 0,
+      free_responses_reset_at: "2026-07-25T12:00:00.000Z",
+    });
+    expect(find("running")?.status).toBe("trialing");
+  });
+
+  it("emails a notice once for trials ending soon", async () => {
+    setup([
+      makeMembership({ status: "trialing", trial_ends_at: "2026-07-12T00:00:00.000Z" }),
+    ]);
+
+    expect((await runMembershipLifecycle(now)).trialNoticesSent).toBe(1);
+    expect(send).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "owner@sunrise.example.com",
+        subject: "Your Olera trial ends July 12",
+      })
+    );
+    expect(find("membership-1")?.trial_notice_sent_at).toBe(now.toISOString());
+
+    expect((await runMembershipLifecycle(now)).trialNoticesSent).toBe(0);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries a notice whose email didn't go out", async () => {
+    setup([
+      makeMembership({ status: "trialing", trial_ends_at: "2026-07-12T00:00:00.000Z" }),
+    ]);
+    send.mockResolvedValueOnce(false);
+
+    expect((await runMembershipLifecycle(now)).trialNoticesSent).toBe(0);
+    expect(find("membership-1")?.trial_notice_sent_at).toBeNull();
+
+    expect((await runMembershipLifecycle(now)).trialNoticesSent).toBe(1);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it("leaves the notice unsent when the account has no email", async () => {
+    setup([
+      makeMembership({
+        account_id: "account-2",
+        status: "trialing",
+        trial_ends_at: "2026-07-12T00:00:00.000Z",
+      }),
+    ]);
+
+    expect((await runMembershipLifecycle(now)).trialNoticesSent).toBe(0);
+    expect(send).not.toHaveBeenCalled();
+    expect(find("membership-1")?.trial_notice_sent_at).toBeNull();
+  });
+
+  it("resets quotas on each membership's own anniversary", async () => {
+    setup([
+      makeMembership({
+        id: "due",
+        free_responses_used: 5,
+        free_responses_reset_at: "2026-07-01T00:00:00.000Z",
+        created_at: "2026-01-31T00:00:00.000Z",
+      }),
+      makeMembership({
+        id: "later",
+        free_responses_used: 2,
+        free_responses_reset_at: "2026-07-20T00:00:00.000Z",
+      }),
+      makeMembership({ id: "unscheduled", created_at: "2026-05-15T09:00:00.000Z" }),
+    ]);
+
+    const result = await runMembershipLifecycle(now);
+
+    expect(result).toMatchObject({ quotasReset: 1, quotasScheduled: 1 });
+    expect(find("due")).toMatchObject({
+      free_responses_used: 0,
+      free_responses_reset_at: "2026-07-31T00:00:00.000Z",
+    });
+    expect(find("later")).toMatchObject({ free_responses_used: 2 });
+    expect(find("unscheduled")?.free_responses_reset_at).toBe("2026-07-15T09:00:00.000Z");
+  });
+
+  it("works through more memberships than fit in one page", async () => {
+    setup(
+      Array.from({ length: 1_201 }, (_, i) =>
+        makeMembership({ id: `membership-${String(i).padStart(4, "0")}` })
+      )
+    );
+
+    expect((await runMembershipLifecycle(now)).quotasScheduled).toBe(1_201);
+    expect(fake.tables.memberships.every((m) => m.free_responses_reset_at)).toBe(true);
+  });
+});
@@ -0,0 +1,249 @@
+import { getServiceClient } from "@/lib/admin";
+import { sendEmail } from "@/lib/email";
+import { PLANS, TRIAL_PLAN } from "@/lib/entitlements";
+import { getNextFreeReset, TRIAL_NOTICE_DAYS } from "@/lib/membership";
+
+export interface MembershipLifecycleResult {
+  trialsExpired: number;
+  trialNoticesSent: number;
+  quotasReset: number;
+  quotasScheduled: number;
+}
+
+type ServiceClient = ReturnType<typeof getServiceClient>;
+
+/** Memberships are read in pages of this many, in id order. */
+const PAGE_SIZE = 500;
+
+type Page<T> = PromiseLike<{ data: T[] | null; error: { message: string } | null }>;
+
+/**
+ * Pages of due memberships, each starting after the last id of the one
+ * before, so rows that are still due after an update (or a failed
+ * notice) can't be read twice.
+ */
+async function* pages<T extends { id: string }>(
+  load: (afterId: string | null) => Page<T>,
+  failure: string
+): AsyncGenerator<T[]> {
+  let afterId: string | null = null;
+  for (;;) {
+    const { data, error } = await load(afterId);
+    if (error) throw new Error(`${failure}: ${error.message}`);
+
+    const rows = data ?? [];
+    if (rows.length > 0) yield rows;
+    if (rows.length < PAGE_SIZE) return;
+    afterId = rows[rows.length - 1].id;
+  }
+}
+
+/**
+ * Scheduled membership maintenance, run by /api/cron/membership.
+ *
+ * Every step only touches rows that are due, so running it more than
+ * once (or late) is harmless.
+ */
+export async function runMembershipLifecycle(
+  now = new Date()
+): Promise<MembershipLifecycleResult> {
+  const db = getServiceClient();
+
+  // Expire trials before resetting quotas so expired trials start
+  // on a fresh allowance rather than waiting for the next reset
+  const trialsExpired = await expireTrials(db, now);
+  const trialNoticesSent = await sendTrialNotices(db, now);
+  const { reset, scheduled } = await resetFreeQuotas(db, now);
+
+  return {
+    trialsExpired,
+    trialNoticesSent,
+    quotasReset: reset,
+    quotasScheduled: scheduled,
+  };
+}
+
+/**
+ * Group memberships by their next reset date, so each date is one
+ * update. Every membership resets on its own monthly anniversary
+ * (created_at), not on a date shared by everyone.
+ */
+function groupByNextReset(
+  rows: { id: string; created_at: string }[],
+  now: Date
+): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  for (const row of rows) {
+    const nextReset = getNextFreeReset(new Date(row.created_at), now).toISOString();
+    groups.set(nextReset, [...(groups.get(nextReset) ?? []), row.id]);
+  }
+  return groups;
+}
+
+/** Trials past trial_ends_at drop to the free tier with a full allowance. */
+async function expireTrials(db: ServiceClient, now: Date): Promise<number> {
+  let expired = 0;
+
+  for await (const due of pages<{ id: string; created_at: string }>((afterId) => {
+    let query = db
+      .from("memberships")
+      .select("id, created_at")
+      .eq("status", "trialing")
+      .lte("trial_ends_at", now.toISOString());
+    if (afterId) query = query.gt("id", afterId);
+    return query.order("id").limit(PAGE_SIZE);
+  }, "Failed to expire trials")) {
+    for (const [nextReset, ids] of groupByNextReset(due, now)) {
+      const { data, error } = await db
+        .from("memberships")
+        .update({ status: "free", free_responses_used: 0, free_responses_reset_at: nextReset })
+        .in("id", ids)
+        .eq("status", "trialing")
+        .select("id");
+
+      if (error) throw new Error(`Failed to expire trials: ${error.message}`);
+      expired += data?.length ?? 0;
+    }
+  }
+  return expired;
+}
+
+/** The sign-in email of an account, for notices. */
+async function getAccountEmail(db: ServiceClient, accountId: string): Promise<string | null> {
+  const { data: account } = await db
+    .from("accounts")
+    .select("user_id")
+    .eq("id", accountId)
+    .single();
+  if (!account) return null;
+
+  const { data } = await db.auth.admin.getUserById(account.user_id);
+  return data.user?.email ?? null;
+}
+
+/**
+ * Email a "trial ending" notice for trials ending within
+ * TRIAL_NOTICE_DAYS. trial_notice_sent_at is stamped before sending so
+ * overlapping runs can't email twice, and cleared again if the email
+ * doesn't go out so the next run retries; the portal shows the same
+ * notice once it's set. Returns how many emails went out.
+ */
+async function sendTrialNotices(db: ServiceClient, now: Date): Promise<number> {
+  const noticeFrom = new Date(now.getTime() + TRIAL_NOTICE_DAYS * 24 * 60 * 60 * 1000);
+  const stamp = now.toISOString();
+
+  type Due = { id: string; account_id: string; trial_ends_at: string };
+
+  let sent = 0;
+  for await (const due of pages<Due>((afterId) => {
+    let query = db
+      .from("memberships")
+      .select("id, account_id, trial_ends_at")
+      .eq("status", "trialing")
+      .is("trial_notice_sent_at", null)
+      .gt("trial_ends_at", now.toISOString())
+      .lte("trial_ends_at", noticeFrom.toISOString());
+    if (afterId) query = query.gt("id", afterId);
+    return query.order("id").limit(PAGE_SIZE);
+  }, "Failed to send trial notices")) {
+    for (const membership of due) {
+      const { data: claimed } = await db
+        .from("memberships")
+        .update({ trial_notice_sent_at: stamp })
+        .eq("id", membership.id)
+        .is("trial_notice_sent_at", null)
+        .select("id");
+      if (!claimed?.length) continue;
+
+      if (await sendTrialNotice(db, membership)) {
+        sent += 1;
+        continue;
+      }
+
+      const { error } = await db
+        .from("memberships")
+        .update({ trial_notice_sent_at: null })
+        .eq("id", membership.id)
+        .eq("trial_notice_sent_at", stamp);
+      if (error) {
+        console.error(`Failed to clear trial notice for ${membership.id}:`, error);
+      }
+    }
+  }
+  return sent;
+}
+
+async function sendTrialNotice(
+  db: ServiceClient,
+  membership: { account_id: string; trial_ends_at: string }
+): Promise<boolean> {
+  const email = await getAccountEmail(db, membership.account_id);
+  if (!email) return false;
+
+  const endsOn = new Date(membership.trial_ends_at).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+  return sendEmail({
+    to: email,
+    subject: `Your Olera trial ends ${endsOn}`,
+    text: `Your free trial of Olera ${PLANS[TRIAL_PLAN].label} ends on ${endsOn}. After that your account moves to the free plan, with a limited number of responses to families each month.\n\nTo keep unlimited responses, choose a plan in your portal settings before your trial ends.`,
+  });
+}
+
+/**
+ * Give memberships their monthly responses back once the reset date
+ * passes, and schedule a first reset for any that don't have one yet.
+ * Runs for every plan; unlimited plans simply never read the count.
+ */
+async function resetFreeQuotas(
+  db: ServiceClient,
+  now: Date
+): Promise<{ reset: number; scheduled: number }> {
+  type Due = { id: string; created_at: string; free_responses_reset_at: string | null };
+
+  let reset = 0;
+  let scheduled = 0;
+
+  for await (const rows of pages<Due>((afterId) => {
+    let query = db
+      .from("memberships")
+      .select("id, created_at, free_responses_reset_at")
+      .or(`free_responses_reset_at.is.null,free_responses_reset_at.lte.${now.toISOString()}`);
+    if (afterId) query = query.gt("id", afterId);
+    return query.order("id").limit(PAGE_SIZE);
+  }, "Failed to reset free quotas")) {
+    for (const [nextReset, ids] of groupByNextReset(
+      rows.filter((r) => r.free_responses_reset_at !== null),
+      now
+    )) {
+      const { data, error } = await db
+        .from("memberships")
+        .update({ free_responses_used: 0, free_responses_reset_at: nextReset })
+        .in("id", ids)
+        .lte("free_responses_reset_at", now.toISOString())
+        .select("id");
+
+      if (error) throw new Error(`Failed to reset free quotas: ${error.message}`);
+      reset += data?.length ?? 0;
+    }
+
+    for (const [nextReset, ids] of groupByNextReset(
+      rows.filter((r) => r.free_responses_reset_at === null),
+      now
+    )) {
+      const { data, error } = await db
+        .from("memberships")
+        .update({ free_responses_reset_at: nextReset })
+        .in("id", ids)
+        .is("free_responses_reset_at", null)
+        .select("id");
+
+      if (error) throw new Error(`Failed to schedule free quota resets: ${error.message}`);
+      scheduled += data?.length ?? 0;
+    }
+  }
+
+  return { reset, scheduled };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { getNextFreeReset } from "@/lib/membership";
+
+const at = (iso: string) => new Date(iso);
+
+describe("getNextFreeReset", () => {
+  it("resets one month after the anchor by default", () => {
+    expect(getNextFreeReset(at("2026-01-15T10:30:00Z"))).toEqual(at("2026-02-15T10:30:00Z"));
+  });
+
+  it("clamps to the end of shorter months", () => {
+    expect(getNextFreeReset(at("2026-01-31T00:00:00Z"))).toEqual(at("2026-02-28T00:00:00Z"));
+    expect(getNextFreeReset(at("2024-01-31T00:00:00Z"))).toEqual(at("2024-02-29T00:00:00Z"));
+    expect(getNextFreeReset(at("2026-03-31T00:00:00Z"))).toEqual(at("2026-04-30T00:00:00Z"));
+  });
+
+  it("doesn't drift after a clamped month", () => {
+    const anchor = at("2026-01-31T00:00:00Z");
+    expect(getNextFreeReset(anchor, at("2026-02-28T00:00:00Z"))).toEqual(at("2026-03-31T00:00:00Z"));
+    expect(getNextFreeReset(anchor, at("2026-04-30T00:00:00Z"))).toEqual(at("2026-05-31T00:00:00Z"));
+  });
+
+  it("crosses the year boundary", () => {
+    expect(getNextFreeReset(at("2025-12-31T00:00:00Z"))).toEqual(at("2026-01-31T00:00:00Z"));
+    expect(getNextFreeReset(at("2025-12-31T00:00:00Z"), at("2026-01-31T00:00:00Z"))).toEqual(
+      at("2026-02-28T00:00:00Z")
+    );
+  });
+
+  it("returns the first anniversary strictly after `after`", () => {
+    const anchor = at("2025-03-10T09:00:00Z");
+    expect(getNextFreeReset(anchor, at("2026-07-05T00:00:00Z"))).toEqual(at("2026-07-10T09:00:00Z"));
+    expect(getNextFreeReset(anchor, at("2026-07-20T00:00:00Z"))).toEqual(at("2026-08-10T09:00:00Z"));
+    expect(getNextFreeReset(anchor, at("2026-07-10T09:00:00Z"))).toEqual(at("2026-08-10T09:00:00Z"));
+  });
+
+  it("is at least a month after the anchor even when `after` is earlier", () => {
+    expect(getNextFreeReset(at("2026-05-20T00:00:00Z"), at("2026-01-01T00:00:00Z"))).toEqual(
+      at("2026-06-20T00:00:00Z")
+    );
+  });
+});
@@ -1,3 +1,4 @@
+import { getLimit, PLANS } from "@/lib/entitlements";
 import type { Membership, Profile } from "@/lib/types";
 
 /**
@@ -37,12 +38,20 @@ export function getProfileCompletionGaps(profile: Profile | null): string[] {
  * - Families always have full access (they never pay).
  * - Saves and viewing inquiry existence are always free.
  * - For providers, engagement actions (viewing details, responding,
- *   initiating contact) require either:
- *   1. An active Pro membership, OR
- *   2. Remaining free connections (3 total before paywall)
+ *   initiating contact) require a plan with unlimited responses, or
+ *   responses left in the plan's monthly allowance (3 on the free tier).
+ *   Plans and their limits are defined in lib/entitlements.ts.
+ *
+ * Free connections reset monthly and trials expire via the membership
+ * lifecycle job (lib/membership-lifecycle.ts). Client components use
+ * these rules for display only; API routes enforce them and spend free
+ * connections through lib/engagement.ts.
  */
 
-export const FREE_CONNECTION_LIMIT = 3;
+export const FREE_CONNECTION_LIMIT = PLANS.free.limits.monthly_responses ?? 0;
+
+/** Providers get a "trial ending" notice this many days before it ends. */
+export const TRIAL_NOTICE_DAYS = 3;
 
 export type EngageAction =
   | "save"
@@ -67,35 +76,104 @@ export function canEngage(
   if (action === "receive_inquiry" || action === "view_inquiry_metadata")
     return true;
 
-  // Everything else requires paid membership OR remaining free connections
+  // Everything else requires unlimited responses OR some left this month
   if (!membership) return false;
 
-  // Active paid membership
-  if (membership.status === "active") return true;
+  const limit = getLimit(membership, "monthly_responses");
+  if (limit === null) return true;
+
+  return (membership.free_responses_used ?? 0) < limit;
+}
+
+/** First letters only, e.g. "J*** D***". */
+export function blurName(name: string): string {
+  if (!name) return "***";
+  return name
+    .split(" ")
+    .map((part) => part.charAt(0) + "***")
+    .join(" ");
+}
+
+/** Keep the opening of a message so a provider can tell it's real. */
+export function blurText(text: string): string {
+  if (!text) return "";
+  if (text.length <= 20) return "*".repeat(text.length);
+  return text.substring(0, 20) + "...";
+}
+
+export function isTrialActive(membership: Membership | null, now = new Date()): boolean {
+  if (membership?.status !== "trialing" || !membership.trial_ends_at) return false;
+  return new Date(membership.trial_ends_at).getTime() > now.getTime();
+}
 
-  // Past due — grace period
-  if (membership.status === "past_due") return true;
+/**
+ * Whole days left in the trial, or null when not on an active trial.
+ */
+export function getTrialDaysRemaining(membership: Membership | null, now = new Date()): number | null {
+  if (!membership?.trial_ends_at || !isTrialActive(membership, now)) return null;
+  const msLeft = new Date(membership.trial_ends_at).getTime() - now.getTime();
+  return Math.ceil(msLeft / (24 * 60 * 60 * 1000));
+}
 
-  // Free tier — check connection limit
-  if (membership.status === "free" || membership.status === "trialing") {
-    return (membership.free_responses_used ?? 0) < FREE_CONNECTION_LIMIT;
+/**
+ * When a membership's monthly responses next reset: the first monthly
+ * anniversary of `anchor` (the membership's start) after `after`,
+ * clamped to the end of shorter months. Counting from the anchor each
+ * time keeps a cycle starting on the 31st from drifting to the 28th.
+ */
+export function getNextFreeReset(anchor: Date, after: Date = anchor): Date {
+  let months = Math.max(
+    (after.getUTCFullYear() - anchor.getUTCFullYear()) * 12 +
+      after.getUTCMonth() -
+      anchor.getUTCMonth(),
+    1
+  );
+  let next = addMonths(anchor, months);
+  while (next.getTime() <= after.getTime()) {
+    months += 1;
+    next = addMonths(anchor, months);
   }
+  return next;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const next = new Date(date);
+  const day = next.getUTCDate();
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  const daysInMonth = new Date(
+    Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  next.setUTCDate(Math.min(day, daysInMonth));
+  return next;
+}
 
-  return false;
+export interface FreeConnectionAllowance {
+  remaining: number;
+  /** The plan's monthly allowance */
+  limit: number;
+  /** When `remaining` goes back to `limit`, if scheduled */
+  resetsAt: string | null;
 }
 
 /**
- * Returns how many free connections remain, or null if on a paid plan.
+ * Returns how many connections remain this month and when they reset,
+ * or null if the plan (or trial) has unlimited responses.
  */
 export function getFreeConnectionsRemaining(
   membership: Membership | null
-): number | null {
-  if (!membership) return FREE_CONNECTION_LIMIT;
-
-  if (membership.status === "active" || membership.status === "past_due") {
-    return null; // unlimited on paid plan
+): FreeConnectionAllowance | null {
+  if (!membership) {
+    return { remaining: FREE_CONNECTION_LIMIT, limit: FREE_CONNECTION_LIMIT, resetsAt: null };
   }
 
+  const limit = getLimit(membership, "monthly_responses");
+  if (limit === null) return null;
+
   const used = membership.free_responses_used ?? 0;
-  return Math.max(0, FREE_CONNECTION_LIMIT - used);
+  return {
+    remaining: Math.max(0, limit - used),
+    limit,
+    resetsAt: membership.free_responses_reset_at,
+  };
 }
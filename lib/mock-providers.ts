@@ -7,6 +7,7 @@
 
 import type { Provider, StaffMember } from "@/components/providers/ProviderCard";
 import type { Profile, ProfileCategory, OrganizationMetadata } from "@/lib/types";
+import { PAYMENT_OPTIONS } from "@/lib/provider-details";
 
 // ============================================================
 // Top Providers (the 6 featured cards on the homepage)
@@ -106,7 +107,7 @@ export const topProviders: Provider[] = [
       "Social activities", "Light housekeeping",
     ],
     highlights: ["Dementia Specialists", "Secured Facility", "Family Support"],
-    acceptedPayments: ["Medicaid", "Long-term Insurance"],
+    acceptedPayments: ["Medicaid", "Long-term Care Insurance"],
     verified: true,
     description:
       "Specialized memory care community with 24/7 nursing support. Our evidence-based approach combines clinical excellence with compassionate care, providing a secure and stimulating environment for individuals with Alzheimer's and dementia.",
@@ -141,7 +142,7 @@ export const topProviders: Provider[] = [
       "Wellness checks", "Fall prevention", "Assistance with mobility",
     ],
     highlights: ["Active Lifestyle", "On-site Fitness", "Social Events"],
-    acceptedPayments: ["Private Pay", "Veterans Benefits"],
+    acceptedPayments: ["Private Pay", "VA Benefits"],
     verified: true,
     badge: "New",
     description:
@@ -275,7 +276,7 @@ export const topProviders: Provider[] = [
       "Escort to appointments", "Shopping", "Errands",
     ],
     highlights: ["Golf Course Access", "Fine Dining", "Spa Services"],
-    acceptedPayments: ["Private Pay", "Long-term Insurance"],
+    acceptedPayments: ["Private Pay", "Long-term Care Insurance"],
     verified: true,
     badge: "Featured",
     description:
@@ -550,6 +551,9 @@ export function mockProviderToProfile(provider: Provider): Profile {
     amenities: provider.highlights || [],
     accepts_medicaid: provider.acceptedPayments?.includes("Medicaid") ?? false,
     accepts_medicare: provider.acceptedPayments?.includes("Medicare") ?? false,
+    payment_options: PAYMENT_OPTIONS.filter((o) => provider.acceptedPayments?.includes(o.label)).map(
+      (o) => o.id
+    ),
     // Extra fields the detail page can read from metadata
     rating: provider.rating,
     review_count: provider.reviewCount,
@@ -566,12 +570,14 @@ export function mockProviderToProfile(provider: Provider): Profile {
     id: provider.id,
     account_id: null,
     source_provider_id: null,
+    organization_id: null,
     slug: provider.slug,
     type: "organization",
     category: categoryMap[provider.primaryCategory] || "assisted_living",
     display_name: provider.name,
     description: provider.description || null,
     image_url: provider.image,
+    logo_url: null,
     phone: "(512) 555-0100",
     email: `info@${provider.slug}.com`,
     website: `https://www.${provider.slug}.com`,
@@ -647,6 +653,14 @@ export function iosProviderToProfile(provider: IOSProvider): Profile {
   } = {
     price_range: priceRange || undefined,
     amenities: [categoryDisplay],
+    // An empty list means the listing doesn't say, not that nothing is accepted
+    ...(provider.payment_options?.length
+      ? {
+          payment_options: PAYMENT_OPTIONS.filter((o) => provider.payment_options!.includes(o.id)).map((o) => o.id),
+          accepts_medicaid: provider.payment_options.includes("medicaid"),
+          accepts_medicare: provider.payment_options.includes("medicare"),
+        }
+      : {}),
     // iOS scores
     rating: provider.google_rating || undefined,
     review_count: undefined,
@@ -666,12 +680,14 @@ export function iosProviderToProfile(provider: IOSProvider): Profile {
     id: provider.provider_id,
     account_id: null,
     source_provider_id: provider.provider_id, // Links back to the original olera-providers record
+    organization_id: null,
     slug: provider.provider_id, // iOS uses provider_id as the slug
     type: "organization",
     category: iosCategoryMap[provider.provider_category] || "assisted_living",
     display_name: provider.provider_name,
     description: provider.provider_description,
     image_url: primaryImage,
+    logo_url: provider.provider_logo,
     phone: provider.phone,
     email: provider.email,
     website: provider.website,
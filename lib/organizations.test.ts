@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { withOrganizationBranding } from "@/lib/organizations";
+import { fixture, makeProfile } from "@/lib/test-fixtures";
+import type { Organization } from "@/lib/types";
+
+const organization: Organization = {
+  id: "org-1",
+  account_id: "account-1",
+  name: "Sunrise Senior Living",
+  description: "Family-owned since 1985.",
+  image_url: "https://example.com/org.jpg",
+  website: "https://sunrise.example.com",
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+};
+
+const makeLocation = fixture(makeProfile({ organization_id: "org-1" }));
+
+describe("withOrganizationBranding", () => {
+  it("fills blank branding fields from the organization", () => {
+    const branded = withOrganizationBranding(makeLocation(), organization);
+
+    expect(branded.description).toBe(organization.description);
+    expect(branded.image_url).toBe(organization.image_url);
+    expect(branded.website).toBe(organization.website);
+  });
+
+  it("keeps the location's own values", () => {
+    const location = makeLocation({
+      description: "Our Austin campus.",
+      image_url: "https://example.com/austin.jpg",
+      website: "https://austin.example.com",
+    });
+
+    expect(withOrganizationBranding(location, organization)).toEqual(location);
+  });
+
+  it("treats whitespace-only values as blank", () => {
+    const branded = withOrganizationBranding(makeLocation({ description: "   " }), organization);
+    expect(branded.description).toBe(organization.description);
+  });
+
+  it("only inherits branding, not contact details", () => {
+    const branded = withOrganizationBranding(makeLocation({ phone: null }), organization);
+
+    expect(branded.phone).toBeNull();
+    expect(branded.display_name).toBe("Sunrise of Austin");
+  });
+
+  it("ignores an organization the profile doesn't belong to", () => {
+    const location = makeLocation({ organization_id: "org-2" });
+    expect(withOrganizationBranding(location, organization)).toBe(location);
+  });
+
+  it("returns the profile unchanged without an organization", () => {
+    const location = makeLocation({ organization_id: null });
+    expect(withOrganizationBranding(location, null)).toBe(location);
+  });
+
+  it("doesn't modify the profile it was given", () => {
+    const location = makeLocation();
+    withOrganizationBranding(location, organization);
+
+    expect(location.description).toBeNull();
+    expect(location.website).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import type { Organization, Profile } from "@/lib/types";
+
+/**
+ * Multi-location organizations.
+ *
+ * An organization groups an account's location profiles. Each location
+ * keeps its own address, contact details and inquiries; branding fields
+ * left blank on a location fall back to the organization's. The account's
+ * membership covers every location, up to the plan's "locations" limit
+ * (lib/entitlements.ts), enforced by /api/organizations/locations.
+ */
+
+/** Location fields that fall back to the organization when blank. */
+export const INHERITED_FIELDS = ["description", "image_url", "website"] as const;
+
+export type InheritedField = (typeof INHERITED_FIELDS)[number];
+
+/**
+ * The profile as shown publicly: blank branding fields are filled in
+ * from its organization.
+ */
+export function withOrganizationBranding<T extends Profile>(
+  profile: T,
+  organization: Organization | null
+): T {
+  if (!organization || profile.organization_id !== organization.id) return profile;
+
+  const branded = { ...profile };
+  for (const field of INHERITED_FIELDS) {
+    if (!branded[field]?.trim()) branded[field] = organization[field];
+  }
+  return branded;
+}
+
+/** Which of a location's branding fields come from its organization. */
+export function getInheritedFields(
+  profile: Profile,
+  organization: Organization | null
+): InheritedField[] {
+  if (!organization || profile.organization_id !== organization.id) return [];
+  return INHERITED_FIELDS.filter(
+    (field) => !profile[field]?.trim() && !!organization[field]
+  );
+}
+
+/** Location slug: name, city and state plus a short random suffix. */
+export function generateLocationSlug(name: string, city: string | null, state: string | null): string {
+  const slug = [name, city, state]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  const suffix = Math.random().toString(36).substring(2, 6);
+  return `${slug}-${suffix}`;
+}
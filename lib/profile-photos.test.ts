@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { checkPhotoFile, detectImageType, MAX_PHOTO_BYTES } from "@/lib/profile-photos";
+
+const ascii = (s: string) => Array.from(s, (c) => c.charCodeAt(0));
+
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, ...ascii("JFIF")]);
+const PNG = new Uint8Array([0x89, ...ascii("PNG"), 0x0d, 0x0a, 0x1a, 0x0a]);
+const WEBP = new Uint8Array([...ascii("RIFF"), 0x24, 0x00, 0x00, 0x00, ...ascii("WEBPVP8 ")]);
+
+describe("detectImageType", () => {
+  it("recognizes JPEG, PNG and WebP by their first bytes", () => {
+    expect(detectImageType(JPEG)).toBe("image/jpeg");
+    expect(detectImageType(PNG)).toBe("image/png");
+    expect(detectImageType(WEBP)).toBe("image/webp");
+  });
+
+  it("rejects other formats", () => {
+    expect(detectImageType(new Uint8Array(ascii("GIF89a")))).toBeNull();
+    expect(detectImageType(new Uint8Array(ascii("%PDF-1.7")))).toBeNull();
+    expect(detectImageType(new Uint8Array(ascii("<svg xmlns=")))).toBeNull();
+    // RIFF container that isn't WebP (a WAV file)
+    expect(detectImageType(new Uint8Array([...ascii("RIFF"), 0, 0, 0, 0, ...ascii("WAVE")]))).toBeNull();
+  });
+
+  it("needs the whole signature", () => {
+    expect(detectImageType(new Uint8Array([0xff, 0xd8]))).toBeNull();
+    expect(detectImageType(new Uint8Array(ascii("PNG")))).toBeNull();
+    expect(detectImageType(new Uint8Array(ascii("RIFF")))).toBeNull();
+    expect(detectImageType(new Uint8Array())).toBeNull();
+  });
+});
+
+describe("checkPhotoFile", () => {
+  it("uses the sniffed type rather than the one the browser sent", async () => {
+    const result = await checkPhotoFile(new File([PNG], "photo.jpg", { type: "image/jpeg" }));
+    expect(result).toMatchObject({ ok: true, contentType: "image/png", extension: "png" });
+  });
+
+  it("rejects a file whose bytes aren't an image", async () => {
+    const file = new File([new Uint8Array(ascii("<html>"))], "photo.png", { type: "image/png" });
+    expect(await checkPhotoFile(file)).toEqual({ ok: false, error: "That file isn't a valid image" });
+  });
+
+  it("rejects unsupported types and oversized files", async () => {
+    const gif = new File([new Uint8Array(ascii("GIF89a"))], "photo.gif", { type: "image/gif" });
+    const large = new File([JPEG, new Uint8Array(MAX_PHOTO_BYTES)], "photo.jpg", {
+      type: "image/jpeg",
+    });
+
+    expect(await checkPhotoFile(gif)).toMatchObject({ ok: false });
+    expect(await checkPhotoFile(large)).toEqual({ ok: false, error: "Images must be 5 MB or smaller" });
+  });
+});
@@ -0,0 +1,109 @@
+import type { getServiceClient } from "@/lib/admin";
+
+/**
+ * Uploaded gallery and logo for provider profiles.
+ *
+ * Files go to the public profile-photos bucket under the profile's id,
+ * through /api/profiles/[id]/photos and /api/profiles/[id]/logo. The
+ * API checks type and size (and sniffs the file's first bytes, since
+ * the browser's content type can't be trusted); thumbnails are rendered
+ * by Storage image transformations, so only the original is stored.
+ */
+
+type ServiceClient = ReturnType<typeof getServiceClient>;
+
+export const PHOTO_BUCKET = "profile-photos";
+
+export const PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024;
+export const MAX_PHOTOS = 20;
+export const MAX_CAPTION_LENGTH = 200;
+
+const THUMBNAIL_WIDTH = 480;
+const THUMBNAIL_HEIGHT = 360;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+/** The image type from a file's first bytes, or null if it isn't one we accept. */
+export function detectImageType(bytes: Uint8Array): string | null {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (ascii(1, 4) === "PNG" && bytes[0] === 0x89) return "image/png";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  return null;
+}
+
+export type PhotoCheck =
+  | { ok: true; bytes: Uint8Array; contentType: string; extension: string }
+  | { ok: false; error: string };
+
+/** Server-side validation of an uploaded image. */
+export async function checkPhotoFile(file: File): Promise<PhotoCheck> {
+  if (!PHOTO_TYPES.includes(file.type)) {
+    return { ok: false, error: "Upload a JPG, PNG or WebP image" };
+  }
+  if (file.size > MAX_PHOTO_BYTES) {
+    return { ok: false, error: "Images must be 5 MB or smaller" };
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const contentType = detectImageType(bytes);
+  if (!contentType) {
+    return { ok: false, error: "That file isn't a valid image" };
+  }
+
+  return { ok: true, bytes, contentType, extension: EXTENSIONS[contentType] };
+}
+
+/** Public URL of a stored image and of its generated thumbnail. */
+export function getPhotoUrls(db: ServiceClient, path: string): { url: string; thumbnail_url: string } {
+  const bucket = db.storage.from(PHOTO_BUCKET);
+  return {
+    url: bucket.getPublicUrl(path).data.publicUrl,
+    thumbnail_url: bucket.getPublicUrl(path, {
+      transform: { width: THUMBNAIL_WIDTH, height: THUMBNAIL_HEIGHT, resize: "cover" },
+    }).data.publicUrl,
+  };
+}
+
+/** The object path of a URL in the profile-photos bucket, or null for any other URL. */
+export function getPhotoPath(url: string | null): string | null {
+  const marker = `/storage/v1/object/public/${PHOTO_BUCKET}/`;
+  const index = url?.indexOf(marker) ?? -1;
+  return url && index >= 0 ? decodeURIComponent(url.slice(index + marker.length).split("?")[0]) : null;
+}
+
+/**
+ * Copy the first gallery photo to business_profiles.image_url, which
+ * cards and search results show. An uploaded cover is cleared when the
+ * gallery is emptied; a hand-entered image_url is left alone.
+ */
+export async function syncCoverImage(db: ServiceClient, profileId: string): Promise<void> {
+  const { data: first } = await db
+    .from("profile_photos")
+    .select("url")
+    .eq("profile_id", profileId)
+    .order("position", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (first) {
+    await db.from("business_profiles").update({ image_url: first.url }).eq("id", profileId);
+    return;
+  }
+
+  const { data: profile } = await db
+    .from("business_profiles")
+    .select("image_url")
+    .eq("id", profileId)
+    .single();
+
+  if (getPhotoPath(profile?.image_url ?? null)) {
+    await db.from("business_profiles").update({ image_url: null }).eq("id", profileId);
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Side-by-side provider comparison.
+ *
+ * Families queue up to MAX_COMPARE providers from ProviderCard /
+ * CompactProviderCard (see components/shared/CompareContext.tsx);
+ * /compare?ids=<slug>,<slug> lays them out row by row. The ids in
+ * the URL are the whole state, so a comparison can be shared.
+ */
+
+import type {
+  ClaimState,
+  CompareItem,
+  OrganizationMetadata,
+  Profile,
+  VerificationState,
+} from "@/lib/types";
+import {
+  CARE_SERVICE_OPTIONS,
+  formatPriceSummary,
+  getOptionLabel,
+  getPaymentLabels,
+} from "@/lib/provider-details";
+
+export const MAX_COMPARE = 4;
+
+/** localStorage key for signed-out visitors (and the last list on this device) */
+export const COMPARE_STORAGE_KEY = "olera_compare";
+
+/** localStorage key for the account the stored list was last saved to, if any */
+export const COMPARE_ACCOUNT_STORAGE_KEY = "olera_compare_account";
+
+/** Provider slugs from ?ids=, deduplicated and capped at MAX_COMPARE. */
+export function parseCompareIds(value: string | null | undefined): string[] {
+  if (!value) return [];
+  const slugs = value.split(",").map((s) => s.trim()).filter(Boolean);
+  return [...new Set(slugs)].slice(0, MAX_COMPARE);
+}
+
+/** Shareable /compare URL. near is the location distances are measured from. */
+export function getCompareUrl(slugs: string[], near?: string): string {
+  const qs = new URLSearchParams({ ids: slugs.join(",") });
+  if (near) qs.set("near", near);
+  return `/compare?${qs.toString().replace(/%2C/g, ",")}`;
+}
+
+/** Keep only well-formed items, e.g. from localStorage or accounts.compare_list. */
+export function sanitizeCompareItems(value: unknown): CompareItem[] {
+  if (!Array.isArray(value)) return [];
+  const items = value.flatMap((v) =>
+    v && typeof v === "object" && typeof v.slug === "string" && typeof v.name === "string"
+      ? [{ slug: v.slug, name: v.name, image: typeof v.image === "string" ? v.image : null }]
+      : []
+  );
+  return items.filter((item, i) => items.findIndex((o) => o.slug === item.slug) === i).slice(0, MAX_COMPARE);
+}
+
+/** Great-circle distance in miles; same formula as distance_miles() in 007_provider_radius_search.sql. */
+export function distanceMiles(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const a =
+    Math.sin(rad(lat2 - lat1) / 2) ** 2 +
+    Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(rad(lng2 - lng1) / 2) ** 2;
+  return 3958.8 * 2 * Math.asin(Math.sqrt(a));
+}
+
+// ------------------------------------------------------------------
+// Rows
+// ------------------------------------------------------------------
+
+/** What /compare shows for one provider. Plain data, passed to the client table. */
+export interface ComparedProvider {
+  slug: string;
+  name: string;
+  image: string | null;
+  location: string | null;
+  lat: number | null;
+  lng: number | null;
+  category: string | null;
+  priceRange: string | null;
+  rating: number | null;
+  reviewCount: number;
+  careServices: string[];
+  payments: string[];
+  bedCount: number | null;
+  staffCount: number | null;
+  claimState: ClaimState;
+  verificationState: VerificationState;
+}
+
+type ComparableMetadata = OrganizationMetadata & {
+  rating?: number;
+  review_count?: number;
+  accepted_payments?: string[];
+  hourly_rate_min?: number;
+  hourly_rate_max?: number;
+};
+
+/**
+ * Flatten a provider profile for comparison. category is the display
+ * label (formatCategory in lib/provider-utils, which this module
+ * doesn't import so the compare tray stays out of the mock data).
+ * Review stats, when the provider has Olera reviews, replace the
+ * listing's own rating.
+ */
+export function toComparedProvider(
+  profile: Profile,
+  category: string | null,
+  reviewStats?: { review_count: number; average_rating: number | null } | null
+): ComparedProvider {
+  const meta = (profile.metadata ?? {}) as ComparableMetadata;
+  const reviewCount = reviewStats?.review_count ?? 0;
+
+  const careServices = [
+    ...(profile.care_types ?? []),
+    ...(meta.services ?? []).map((s) => getOptionLabel(s, CARE_SERVICE_OPTIONS)),
+  ];
+
+  return {
+    slug: profile.slug,
+    name: profile.display_name,
+    image: profile.image_url,
+    location: [profile.city, profile.state].filter(Boolean).join(", ") || null,
+    lat: profile.lat,
+    lng: profile.lng,
+    category,
+    priceRange:
+      formatPriceSummary(meta) ||
+      meta.price_range ||
+      (meta.hourly_rate_min && meta.hourly_rate_max
+        ? `$${meta.hourly_rate_min}-${meta.hourly_rate_max}/hr`
+        : null),
+    rating: reviewCount > 0 ? reviewStats?.average_rating ?? null : meta.rating ?? null,
+    reviewCount: reviewCount > 0 ? reviewCount : meta.review_count ?? 0,
+    careServices: [...new Set(careServices)],
+    payments: meta.accepted_payments || getPaymentLabels(meta),
+    bedCount: meta.bed_count ?? null,
+    staffCount: meta.staff_count ?? null,
+    claimState: profile.claim_state,
+    verificationState: profile.verification_state,
+  };
+}
+
+export type CompareRow =
+  | { label: string; kind: "text"; values: (string | null)[]; differs: boolean }
+  | { label: string; kind: "list"; values: string[][]; shared: string[]; differs: boolean };
+
+function textRow(label: string, values: (string | null)[]): CompareRow {
+  return { label, kind: "text", values, differs: new Set(values).size > 1 };
+}
+
+/** A list row; items every provider has are "shared" and not highlighted. */
+function listRow(label: string, values: string[][]): CompareRow {
+  const shared = values.length > 0 ? values[0].filter((item) => values.every((v) => v.includes(item))) : [];
+  const differs = values.some((v) => v.length !== shared.length);
+  return { label, kind: "list", values, shared, differs };
+}
+
+function formatStatus(p: ComparedProvider): string {
+  if (p.claimState !== "claimed") return p.claimState === "pending" ? "Claim pending" : "Not claimed";
+  return p.verificationState === "verified" ? "Claimed & verified" : "Claimed";
+}
+
+/**
+ * The comparison rows, in display order. distances are miles from the
+ * chosen location, or null when it (or the provider's) isn't known.
+ */
+export function buildCompareRows(providers: ComparedProvider[], distances: (number | null)[]): CompareRow[] {
+  const rows: CompareRow[] = [
+    textRow("Price range", providers.map((p) => p.priceRange)),
+    textRow(
+      "Rating",
+      providers.map((p) =>
+        p.rating
+          ? `${p.rating.toFixed(1)} / 5${p.reviewCount > 0 ? ` (${p.reviewCount} review${p.reviewCount === 1 ? "" : "s"})` : ""}`
+          : null
+      )
+    ),
+    textRow("Category", providers.map((p) => p.category)),
+    listRow("Care services", providers.map((p) => p.careServices)),
+    listRow("Payment accepted", providers.map((p) => p.payments)),
+    textRow("Capacity", providers.map((p) => (p.bedCount ? `${p.bedCount} beds` : null))),
+    textRow("Staff", providers.map((p) => (p.staffCount ? `${p.staffCount} staff` : null))),
+  ];
+
+  if (distances.some((d) => d !== null)) {
+    rows.push(
+      textRow(
+        "Distance",
+        distances.map((d) => (d === null ? null : `${d < 10 ? d.toFixed(1) : Math.round(d)} mi`))
+      )
+    );
+  }
+
+  rows.push(textRow("Status", providers.map(formatStatus)));
+  return rows;
+}
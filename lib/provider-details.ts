@@ -0,0 +1,388 @@
+import type {
+  DayHours,
+  HourlyPricing,
+  OrganizationMetadata,
+  PaymentOption,
+  RoomPrice,
+  RoomType,
+  Weekday,
+} from "@/lib/types";
+
+/**
+ * Structured provider details: pricing, hours, amenities, care services
+ * and payment options.
+ *
+ * Providers fill these in from the portal profile page and they're kept
+ * in business_profiles.metadata (see OrganizationMetadata). Amenities
+ * and services are ids from the taxonomies below, shared by the portal
+ * editor, CareServicesGrid on the provider page and browse filters, so
+ * every screen agrees on names. Older profiles may still hold free-text
+ * amenities, price_range and hours; the helpers here fall back to them.
+ */
+
+export interface DetailOption {
+  id: string;
+  label: string;
+  group: string;
+}
+
+export const ROOM_TYPES: { id: RoomType; label: string }[] = [
+  { id: "studio", label: "Studio" },
+  { id: "one_bedroom", label: "One bedroom" },
+  { id: "two_bedroom", label: "Two bedroom" },
+  { id: "private", label: "Private room" },
+  { id: "companion", label: "Companion suite" },
+  { id: "shared", label: "Shared room" },
+];
+
+/**
+ * Ids are stored in metadata.payment_options and copied to
+ * olera-providers.payment_options for the browse filter (see
+ * 024_provider_payment_options.sql, which keeps its own copy of the
+ * ids). Labels are shown on cards.
+ */
+export const PAYMENT_OPTIONS: { id: PaymentOption; label: string }[] = [
+  { id: "medicaid", label: "Medicaid" },
+  { id: "medicare", label: "Medicare" },
+  { id: "va", label: "VA Benefits" },
+  { id: "ltc_insurance", label: "Long-term Care Insurance" },
+  { id: "private_insurance", label: "Private Insurance" },
+  { id: "private_pay", label: "Private Pay" },
+];
+
+export function isPaymentOption(value: string): value is PaymentOption {
+  return PAYMENT_OPTIONS.some((o) => o.id === value);
+}
+
+export const WEEKDAYS: { id: Weekday; label: string; short: string }[] = [
+  { id: "mon", label: "Monday", short: "Mon" },
+  { id: "tue", label: "Tuesday", short: "Tue" },
+  { id: "wed", label: "Wednesday", short: "Wed" },
+  { id: "thu", label: "Thursday", short: "Thu" },
+  { id: "fri", label: "Friday", short: "Fri" },
+  { id: "sat", label: "Saturday", short: "Sat" },
+  { id: "sun", label: "Sunday", short: "Sun" },
+];
+
+export const AMENITY_OPTIONS: DetailOption[] = [
+  { id: "private_rooms", label: "Private Rooms", group: "Living" },
+  { id: "furnished", label: "Furnished Apartments", group: "Living" },
+  { id: "kitchenette", label: "Kitchenettes", group: "Living" },
+  { id: "secure_memory_unit", label: "Secure Memory Unit", group: "Living" },
+  { id: "pet_friendly", label: "Pet Friendly", group: "Living" },
+  { id: "wifi", label: "WiFi", group: "Living" },
+  { id: "dining_room", label: "Dining Room", group: "Dining" },
+  { id: "restaurant_dining", label: "Restaurant-style Dining", group: "Dining" },
+  { id: "special_diets", label: "Special Diets", group: "Dining" },
+  { id: "activities", label: "Activities Program", group: "Activities & wellness" },
+  { id: "fitness_center", label: "Fitness Center", group: "Activities & wellness" },
+  { id: "physical_therapy", label: "Physical Therapy", group: "Activities & wellness" },
+  { id: "garden", label: "Garden", group: "Activities & wellness" },
+  { id: "library", label: "Library", group: "Activities & wellness" },
+  { id: "chapel", label: "Chapel", group: "Activities & wellness" },
+  { id: "beauty_salon", label: "Beauty Salon", group: "Activities & wellness" },
+  { id: "staff_24_7", label: "24/7 Staff", group: "Services" },
+  { id: "housekeeping", label: "Housekeeping", group: "Services" },
+  { id: "laundry", label: "Laundry Service", group: "Services" },
+  { id: "transportation", label: "Transportation", group: "Services" },
+];
+
+export const CARE_SERVICE_OPTIONS: DetailOption[] = [
+  { id: "bathing", label: "Bathing & Grooming", group: "Personal care" },
+  { id: "dressing", label: "Dressing", group: "Personal care" },
+  { id: "toileting", label: "Toileting & Incontinence Care", group: "Personal care" },
+  { id: "mobility", label: "Mobility & Transfers", group: "Personal care" },
+  { id: "meal_preparation", label: "Meal Preparation", group: "Personal care" },
+  { id: "companionship", label: "Companionship", group: "Personal care" },
+  { id: "medication_management", label: "Medication Management", group: "Health care" },
+  { id: "skilled_nursing", label: "Skilled Nursing", group: "Health care" },
+  { id: "wound_care", label: "Wound Care", group: "Health care" },
+  { id: "diabetes_care", label: "Diabetes Care", group: "Health care" },
+  { id: "physical_therapy", label: "Physical Therapy", group: "Health care" },
+  { id: "occupational_therapy", label: "Occupational Therapy", group: "Health care" },
+  { id: "speech_therapy", label: "Speech Therapy", group: "Health care" },
+  { id: "dementia_care", label: "Dementia & Alzheimer's Care", group: "Specialty care" },
+  { id: "parkinsons_care", label: "Parkinson's Care", group: "Specialty care" },
+  { id: "respite_care", label: "Respite Care", group: "Specialty care" },
+  { id: "post_hospital", label: "Post-hospital Recovery", group: "Specialty care" },
+  { id: "hospice_support", label: "Hospice Support", group: "Specialty care" },
+  { id: "light_housekeeping", label: "Light Housekeeping", group: "Around the home" },
+  { id: "errands", label: "Errands & Shopping", group: "Around the home" },
+  { id: "appointment_transport", label: "Transportation to Appointments", group: "Around the home" },
+];
+
+// ------------------------------------------------------------------
+// Taxonomy
+// ------------------------------------------------------------------
+
+/** The option's label, or the value itself for free text from older profiles. */
+export function getOptionLabel(value: string, options: DetailOption[]): string {
+  return options.find((o) => o.id === value)?.label ?? value;
+}
+
+/**
+ * Map stored values to option ids: ids stay, labels (any case) become
+ * their id, and unknown free text is kept so nothing is silently lost.
+ */
+export function normalizeOptionValues(values: string[], options: DetailOption[]): string[] {
+  const normalized = values.map((value) => {
+    const lower = value.trim().toLowerCase();
+    return options.find((o) => o.id === value || o.label.toLowerCase() === lower)?.id ?? value.trim();
+  });
+  return [...new Set(normalized.filter(Boolean))];
+}
+
+/** Values grouped in taxonomy order; free text goes under "Other". */
+export function groupOptionValues(
+  values: string[],
+  options: DetailOption[]
+): { group: string; labels: string[] }[] {
+  const ids = new Set(normalizeOptionValues(values, options));
+  const groups: { group: string; labels: string[] }[] = [];
+
+  for (const option of options) {
+    if (!ids.has(option.id)) continue;
+    ids.delete(option.id);
+    const existing = groups.find((g) => g.group === option.group);
+    if (existing) existing.labels.push(option.label);
+    else groups.push({ group: option.group, labels: [option.label] });
+  }
+
+  if (ids.size > 0) groups.push({ group: "Other", labels: [...ids] });
+  return groups;
+}
+
+/**
+ * Payment option ids from profile metadata, falling back to the older
+ * accepts_medicaid / accepts_medicare flags. Mirrors
+ * metadata_payment_options() in 024_provider_payment_options.sql.
+ */
+export function getPaymentOptions(meta: OrganizationMetadata | undefined): PaymentOption[] {
+  if (meta?.payment_options) return meta.payment_options.filter(isPaymentOption);
+  return PAYMENT_OPTIONS.filter(
+    (o) => (o.id === "medicaid" && meta?.accepts_medicaid) || (o.id === "medicare" && meta?.accepts_medicare)
+  ).map((o) => o.id);
+}
+
+/** Labels for payment option ids, in PAYMENT_OPTIONS order. Unknown ids are dropped. */
+export function toPaymentLabels(ids: readonly string[] | null | undefined): string[] {
+  return PAYMENT_OPTIONS.filter((o) => ids?.includes(o.id)).map((o) => o.label);
+}
+
+/** Payment labels for a profile's metadata. */
+export function getPaymentLabels(meta: OrganizationMetadata | undefined): string[] {
+  return toPaymentLabels(getPaymentOptions(meta));
+}
+
+// ------------------------------------------------------------------
+// Pricing
+// ------------------------------------------------------------------
+
+function formatDollars(amount: number): string {
+  return `$${amount.toLocaleString("en-US", { maximumFractionDigits: amount % 1 === 0 ? 0 : 2 })}`;
+}
+
+function formatRange(min: number, max: number | null): string {
+  return max !== null && max > min ? `${formatDollars(min)} - ${formatDollars(max)}` : formatDollars(min);
+}
+
+/**
+ * One-line price for cards and the provider page sidebar, in the same
+ * style as formatPriceRange for seeded listings.
+ */
+export function formatPriceSummary(meta: OrganizationMetadata | undefined): string | null {
+  const rooms = meta?.room_pricing ?? [];
+  if (rooms.length > 0) {
+    const min = Math.min(...rooms.map((r) => r.monthly_min));
+    const max = Math.max(...rooms.map((r) => r.monthly_max ?? r.monthly_min));
+    return max > min ? `${formatRange(min, max)}/mo` : `From ${formatDollars(min)}/mo`;
+  }
+
+  const hourly = meta?.hourly_pricing;
+  if (hourly) {
+    return hourly.rate_max !== null && hourly.rate_max > hourly.rate_min
+      ? `${formatRange(hourly.rate_min, hourly.rate_max)}/hr`
+      : `From ${formatDollars(hourly.rate_min)}/hr`;
+  }
+
+  return null;
+}
+
+/** Rows for the provider page's pricing table. */
+export function getPricingRows(
+  meta: OrganizationMetadata | undefined
+): { service: string; rate: string; rateType: string }[] {
+  const rows = ROOM_TYPES.flatMap((type) => {
+    const room = meta?.room_pricing?.find((r) => r.room_type === type.id);
+    return room
+      ? [{ service: type.label, rate: formatRange(room.monthly_min, room.monthly_max), rateType: "per month" }]
+      : [];
+  });
+
+  const hourly = meta?.hourly_pricing;
+  if (hourly) {
+    rows.push({
+      service: hourly.min_shift_hours
+        ? `In-home care (${hourly.min_shift_hours}-hour minimum)`
+        : "In-home care",
+      rate: formatRange(hourly.rate_min, hourly.rate_max),
+      rateType: "per hour",
+    });
+  }
+
+  return rows;
+}
+
+// ------------------------------------------------------------------
+// Hours
+// ------------------------------------------------------------------
+
+/** "13:30" -> "1:30 PM" */
+export function formatTime(time: string): string {
+  const [h, m] = time.split(":").map(Number);
+  const period = h >= 12 ? "PM" : "AM";
+  const hour = h % 12 === 0 ? 12 : h % 12;
+  return `${hour}:${String(m).padStart(2, "0")} ${period}`;
+}
+
+function formatDayHours(day: DayHours | undefined): string {
+  if (!day) return "Closed";
+  if (day.open === "00:00" && day.close === "23:59") return "Open 24 hours";
+  return `${formatTime(day.open)} - ${formatTime(day.close)}`;
+}
+
+/** Weekly hours with consecutive days that share hours collapsed, e.g. "Mon - Fri". */
+export function formatWeeklyHours(
+  hours: Partial<Record<Weekday, DayHours>> | undefined
+): { days: string; hours: string }[] {
+  if (!hours || Object.keys(hours).length === 0) return [];
+
+  const rows: { first: string; last: string; hours: string }[] = [];
+  for (const day of WEEKDAYS) {
+    const text = formatDayHours(hours[day.id]);
+    const previous = rows[rows.length - 1];
+    if (previous && previous.hours === text) previous.last = day.short;
+    else rows.push({ first: day.short, last: day.short, hours: text });
+  }
+
+  return rows.map((r) => ({
+    days: r.first === r.last ? r.first : `${r.first} - ${r.last}`,
+    hours: r.hours,
+  }));
+}
+
+// ------------------------------------------------------------------
+// Portal editor drafts
+// ------------------------------------------------------------------
+
+/** Form state for the portal editor: numbers stay strings until saved. */
+export interface RoomPriceDraft {
+  room_type: RoomType;
+  min: string;
+  max: string;
+}
+
+export interface HourlyPricingDraft {
+  min: string;
+  max: string;
+  min_shift_hours: string;
+}
+
+export type WeeklyHoursDraft = Record<Weekday, DayHours | null>;
+
+export function toRoomPriceDrafts(rooms: RoomPrice[] | undefined): RoomPriceDraft[] {
+  return (rooms ?? []).map((r) => ({
+    room_type: r.room_type,
+    min: String(r.monthly_min),
+    max: r.monthly_max !== null ? String(r.monthly_max) : "",
+  }));
+}
+
+export function toHourlyPricingDraft(hourly: HourlyPricing | undefined): HourlyPricingDraft {
+  return {
+    min: hourly ? String(hourly.rate_min) : "",
+    max: hourly?.rate_max != null ? String(hourly.rate_max) : "",
+    min_shift_hours: hourly?.min_shift_hours != null ? String(hourly.min_shift_hours) : "",
+  };
+}
+
+export function toWeeklyHoursDraft(
+  hours: Partial<Record<Weekday, DayHours>> | undefined
+): WeeklyHoursDraft {
+  return Object.fromEntries(WEEKDAYS.map((d) => [d.id, hours?.[d.id] ?? null])) as WeeklyHoursDraft;
+}
+
+function parseAmount(value: string): number | null {
+  const trimmed = value.replace(/[$,\s]/g, "");
+  if (trimmed === "") return null;
+  const n = Number(trimmed);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+/** Validate the pricing drafts. Blank hourly fields mean no hourly pricing. */
+export function parsePricingDrafts(
+  rooms: RoomPriceDraft[],
+  hourly: HourlyPricingDraft
+): { room_pricing: RoomPrice[]; hourly_pricing: HourlyPricing | null; errors: string[] } {
+  const errors: string[] = [];
+  const room_pricing: RoomPrice[] = [];
+
+  for (const room of rooms) {
+    const label = ROOM_TYPES.find((t) => t.id === room.room_type)?.label ?? room.room_type;
+    const min = parseAmount(room.min);
+    const max = parseAmount(room.max);
+    if (min === null || Number.isNaN(min) || min <= 0) {
+      errors.push(`${label}: enter a monthly price`);
+    } else if (max !== null && (Number.isNaN(max) || max < min)) {
+      errors.push(`${label}: the top of the range must be at least ${formatDollars(min)}`);
+    } else {
+      room_pricing.push({ room_type: room.room_type, monthly_min: min, monthly_max: max });
+    }
+  }
+
+  let hourly_pricing: HourlyPricing | null = null;
+  const rateMin = parseAmount(hourly.min);
+  const rateMax = parseAmount(hourly.max);
+  const shift = parseAmount(hourly.min_shift_hours);
+  if (rateMin !== null || rateMax !== null || shift !== null) {
+    if (rateMin === null || Number.isNaN(rateMin) || rateMin <= 0) {
+      errors.push("Hourly rate: enter the starting rate");
+    } else if (rateMax !== null && (Number.isNaN(rateMax) || rateMax < rateMin)) {
+      errors.push(`Hourly rate: the top of the range must be at least ${formatDollars(rateMin)}`);
+    } else if (shift !== null && (Number.isNaN(shift) || shift < 1 || shift > 24)) {
+      errors.push("Minimum shift must be between 1 and 24 hours");
+    } else {
+      hourly_pricing = { rate_min: rateMin, rate_max: rateMax, min_shift_hours: shift };
+    }
+  }
+
+  return { room_pricing, hourly_pricing, errors };
+}
+
+/** Validate weekly hours: each open day needs a closing time after its opening time. */
+export function parseWeeklyHoursDraft(
+  draft: WeeklyHoursDraft
+): { weekly_hours: Partial<Record<Weekday, DayHours>>; errors: string[] } {
+  const errors: string[] = [];
+  const weekly_hours: Partial<Record<Weekday, DayHours>> = {};
+
+  for (const day of WEEKDAYS) {
+    const hours = draft[day.id];
+    if (!hours) continue;
+    if (!hours.open || !hours.close || hours.close <= hours.open) {
+      errors.push(`${day.label}: closing time must be after opening time`);
+    } else {
+      weekly_hours[day.id] = hours;
+    }
+  }
+
+  return { weekly_hours, errors };
+}
+
+/** Free-text summary of weekly hours, kept in metadata.hours for older readers. */
+export function summarizeWeeklyHours(hours: Partial<Record<Weekday, DayHours>>): string {
+  return formatWeeklyHours(hours)
+    .filter((r) => r.hours !== "Closed")
+    .map((r) => `${r.days} ${r.hours}`)
+    .join(", ");
+}
@@ -0,0 +1,294 @@
+import { getServiceClient } from "@/lib/admin";
+import type { ClaimState, DuplicateReason } from "@/lib/types";
+import { PROVIDERS_TABLE } from "@/lib/types/provider";
+
+/**
+ * Duplicate provider detection, run weekly by /api/cron/duplicates
+ * and on demand from /admin/duplicates.
+ *
+ * find_provider_duplicate_pairs (migration 021) does the matching in
+ * SQL; here the pairs are grouped into clusters and stored in
+ * provider_duplicate_clusters for review. Re-running is safe: known
+ * clusters keep their status, and open clusters that no longer match
+ * are dropped.
+ */
+
+export type DuplicateRecordKind = "listing" | "profile";
+
+/** Clusters bigger than this are usually a chain, not one agency. */
+export const MAX_CLUSTER_SIZE = 8;
+
+const PAIR_PAGE_SIZE = 1000;
+const UPSERT_BATCH_SIZE = 500;
+
+type ServiceClient = ReturnType<typeof getServiceClient>;
+
+interface DuplicatePair {
+  a: string;
+  b: string;
+  reason: DuplicateReason;
+}
+
+export interface DetectedCluster {
+  key: string;
+  members: string[];
+  reasons: DuplicateReason[];
+}
+
+export interface DuplicateDetectionResult {
+  pairs: number;
+  clusters: number;
+  skipped: number;
+  stale: number;
+}
+
+/** A cluster member as shown to admins. */
+export interface DuplicateRecord {
+  key: string;
+  kind: DuplicateRecordKind;
+  id: string;
+  name: string;
+  category: string | null;
+  address: string | null;
+  city: string | null;
+  state: string | null;
+  phone: string | null;
+  slug: string;
+  /** Business profile holding the record's connections and reviews, if any */
+  profile_id: string | null;
+  claim_state: ClaimState | null;
+  /** Account managing the record; managed records can only be kept */
+  account_id: string | null;
+  active: boolean;
+}
+
+export function parseRecordKey(key: string): { kind: DuplicateRecordKind; id: string } | null {
+  const [kind, ...rest] = key.split(":");
+  const id = rest.join(":");
+  if ((kind !== "listing" && kind !== "profile") || !id) return null;
+  return { kind, id };
+}
+
+/**
+ * Group matching pairs into clusters: records connected through any
+ * chain of pairs end up together. Members are sorted so the same
+ * cluster always gets the same key.
+ */
+export function clusterPairs(pairs: DuplicatePair[]): DetectedCluster[] {
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    // Path compression
+    let node = key;
+    while (node !== root) {
+      const next = parent.get(node)!;
+      parent.set(node, root);
+      node = next;
+    }
+    return root;
+  };
+
+  for (const { a, b } of pairs) {
+    if (!parent.has(a)) parent.set(a, a);
+    if (!parent.has(b)) parent.set(b, b);
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootA, rootB);
+  }
+
+  const members = new Map<string, string[]>();
+  for (const key of parent.keys()) {
+    const root = find(key);
+    members.set(root, [...(members.get(root) ?? []), key]);
+  }
+
+  const reasons = new Map<string, Set<DuplicateReason>>();
+  for (const { a, reason } of pairs) {
+    const root = find(a);
+    reasons.set(root, (reasons.get(root) ?? new Set()).add(reason));
+  }
+
+  return [...members.entries()].map(([root, keys]) => {
+    const sorted = keys.sort();
+    return {
+      key: sorted.join(","),
+      members: sorted,
+      reasons: [...(reasons.get(root) ?? [])].sort(),
+    };
+  });
+}
+
+async function fetchPairs(db: ServiceClient): Promise<DuplicatePair[]> {
+  const pairs: DuplicatePair[] = [];
+  for (let from = 0; ; from += PAIR_PAGE_SIZE) {
+    const { data, error } = await db
+      .rpc("find_provider_duplicate_pairs")
+      .range(from, from + PAIR_PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to find duplicate pairs: ${error.message}`);
+
+    const page = (data as DuplicatePair[] | null) ?? [];
+    pairs.push(...page);
+    if (page.length < PAIR_PAGE_SIZE) return pairs;
+  }
+}
+
+export async function runDuplicateDetection(now = new Date()): Promise<DuplicateDetectionResult> {
+  const db = getServiceClient();
+  const detectedAt = now.toISOString();
+
+  const pairs = await fetchPairs(db);
+  const all = clusterPairs(pairs);
+  const clusters = all.filter((c) => c.members.length <= MAX_CLUSTER_SIZE);
+
+  // Upserting without status keeps merged and dismissed clusters as they are
+  for (let i = 0; i < clusters.length; i += UPSERT_BATCH_SIZE) {
+    const batch = clusters.slice(i, i + UPSERT_BATCH_SIZE).map((c) => ({
+      cluster_key: c.key,
+      members: c.members,
+      reasons: c.reasons,
+      detected_at: detectedAt,
+    }));
+    const { error } = await db
+      .from("provider_duplicate_clusters")
+      .upsert(batch, { onConflict: "cluster_key" });
+    if (error) throw new Error(`Failed to save duplicate clusters: ${error.message}`);
+  }
+
+  const { data: stale, error: staleError } = await db
+    .from("provider_duplicate_clusters")
+    .delete()
+    .eq("status", "open")
+    .lt("detected_at", detectedAt)
+    .select("id");
+  if (staleError) throw new Error(`Failed to clear stale clusters: ${staleError.message}`);
+
+  return {
+    pairs: pairs.length,
+    clusters: clusters.length,
+    skipped: all.length - clusters.length,
+    stale: stale?.length ?? 0,
+  };
+}
+
+/**
+ * Look up cluster members for review and merging. Listings are
+ * represented by their linked business profile (source_provider_id)
+ * when they have one, preferring a claimed one. Unknown keys are left
+ * out.
+ */
+export async function loadDuplicateRecords(
+  db: ServiceClient,
+  keys: string[]
+): Promise<DuplicateRecord[]> {
+  const parsed = keys.map(parseRecordKey).filter((k) => k !== null);
+  const listingIds = parsed.filter((k) => k.kind === "listing").map((k) => k.id);
+  const profileIds = parsed.filter((k) => k.kind === "profile").map((k) => k.id);
+
+  const profileColumns =
+    "id, slug, source_provider_id, display_name, category, address, city, state, phone, claim_state, account_id, is_active";
+  type ProfileRow = {
+    id: string;
+    slug: string;
+    source_provider_id: string | null;
+    display_name: string;
+    category: string | null;
+    address: string | null;
+    city: string | null;
+    state: string | null;
+    phone: string | null;
+    claim_state: ClaimState;
+    account_id: string | null;
+    is_active: boolean;
+  };
+  type ListingRow = {
+    provider_id: string;
+    provider_name: string;
+    provider_category: string | null;
+    address: string | null;
+    city: string | null;
+    state: string | null;
+    phone: string | null;
+    deleted: boolean;
+  };
+
+  const [listingsRes, linkedRes, profilesRes] = await Promise.all([
+    listingIds.length > 0
+      ? db
+          .from(PROVIDERS_TABLE)
+          .select("provider_id, provider_name, provider_category, address, city, state, phone, deleted")
+          .in("provider_id", listingIds)
+      : Promise.resolve({ data: [] }),
+    listingIds.length > 0
+      ? db
+          .from("business_profiles")
+          .select(profileColumns)
+          .in("source_provider_id", listingIds)
+          .eq("is_active", true)
+      : Promise.resolve({ data: [] }),
+    profileIds.length > 0
+      ? db.from("business_profiles").select(profileColumns).in("id", profileIds)
+      : Promise.resolve({ data: [] }),
+  ]);
+
+  const linked = new Map<string, ProfileRow>();
+  for (const row of (linkedRes.data as ProfileRow[] | null) ?? []) {
+    const current = linked.get(row.source_provider_id!);
+    if (!current || (row.claim_state === "claimed" && current.claim_state !== "claimed")) {
+      linked.set(row.source_provider_id!, row);
+    }
+  }
+
+  const listings = new Map(
+    ((listingsRes.data as ListingRow[] | null) ?? []).map((l) => [String(l.provider_id), l])
+  );
+  const profiles = new Map(((profilesRes.data as ProfileRow[] | null) ?? []).map((p) => [p.id, p]));
+
+  return parsed.flatMap(({ kind, id }): DuplicateRecord[] => {
+    const key = `${kind}:${id}`;
+    if (kind === "listing") {
+      const listing = listings.get(id);
+      if (!listing) return [];
+      const profile = linked.get(id);
+      return [
+        {
+          key,
+          kind,
+          id,
+          name: listing.provider_name,
+          category: listing.provider_category,
+          address: listing.address,
+          city: listing.city,
+          state: listing.state,
+          phone: listing.phone,
+          slug: id,
+          profile_id: profile?.id ?? null,
+          claim_state: profile?.claim_state ?? null,
+          account_id: profile?.account_id ?? null,
+          active: !listing.deleted,
+        },
+      ];
+    }
+
+    const profile = profiles.get(id);
+    if (!profile) return [];
+    return [
+      {
+        key,
+        kind,
+        id,
+        name: profile.display_name,
+        category: profile.category,
+        address: profile.address,
+        city: profile.city,
+        state: profile.state,
+        phone: profile.phone,
+        slug: profile.slug,
+        profile_id: profile.id,
+        claim_state: profile.claim_state,
+        account_id: profile.account_id,
+        active: profile.is_active,
+      },
+    ];
+  });
+}
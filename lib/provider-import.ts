@@ -0,0 +1,370 @@
+/**
+ * Bulk provider import and export for /admin/import.
+ *
+ * Files are CSV or JSON in the olera-providers shape (see Provider in
+ * lib/types/provider.ts). Rows are validated here; duplicate checks
+ * against the table and the upsert happen in /api/admin/import.
+ * /api/admin/export writes the same columns, so an export can be
+ * edited and imported back.
+ */
+
+import { categoryDisplayNames, type Provider } from "@/lib/types/provider";
+import { PAYMENT_OPTIONS } from "@/lib/provider-details";
+
+export type ImportFormat = "csv" | "json";
+
+/** A validated row, ready to upsert. */
+export type ImportProvider = Omit<Provider, "deleted" | "deleted_at">;
+
+export interface ImportRowResult {
+  /** 1-based row number in the file (CSV header excluded) */
+  row: number;
+  provider_id: string | null;
+  name: string;
+  /** Set once checked against the table; null when the row has errors */
+  action: "create" | "update" | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportPreview {
+  rows: ImportRowResult[];
+  valid: number;
+  invalid: number;
+  /** File-level notes, e.g. ignored columns */
+  warnings: string[];
+}
+
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+
+/** Columns read on import and written on export, in order. */
+export const PROVIDER_COLUMNS: (keyof ImportProvider)[] = [
+  "provider_id",
+  "provider_name",
+  "provider_category",
+  "main_category",
+  "phone",
+  "email",
+  "website",
+  "google_rating",
+  "address",
+  "city",
+  "state",
+  "zipcode",
+  "lat",
+  "lon",
+  "place_id",
+  "provider_images",
+  "provider_logo",
+  "provider_description",
+  "community_Score",
+  "value_score",
+  "information_availability_score",
+  "lower_price",
+  "upper_price",
+  "contact_for_price",
+  "payment_options",
+];
+
+export const PROVIDER_CATEGORIES = Object.keys(categoryDisplayNames);
+
+export const US_STATE_CODES = [
+  "AL", "AK", "AZ", "AR", "CA", "CO", "CT", "DE", "DC", "FL", "GA", "HI", "ID", "IL",
+  "IN", "IA", "KS", "KY", "LA", "ME", "MD", "MA", "MI", "MN", "MS", "MO", "MT", "NE",
+  "NV", "NH", "NJ", "NM", "NY", "NC", "ND", "OH", "OK", "OR", "PA", "RI", "SC", "SD",
+  "TN", "TX", "UT", "VT", "VA", "WA", "WV", "WI", "WY", "PR",
+];
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class ImportFileError extends Error {}
+
+// ------------------------------------------------------------------
+// CSV
+// ------------------------------------------------------------------
+
+/** RFC 4180 CSV: quoted fields may hold commas, quotes ("") and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+
+  if (quoted) throw new ImportFileError("Unclosed quote in CSV");
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines
+  return rows.filter((r) => r.some((v) => v.trim() !== ""));
+}
+
+export function toCsvLine(values: unknown[]): string {
+  return values
+    .map((value) => {
+      if (value === null || value === undefined) return "";
+      // Lists are pipe-separated, like provider_images
+      const text = Array.isArray(value) ? value.join(" | ") : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",");
+}
+
+/**
+ * Raw records from a CSV (header row first) or JSON file (an array of
+ * objects, or { providers: [...] }). Throws ImportFileError when the
+ * file can't be read at all.
+ */
+export function parseImportFile(text: string, format: ImportFormat): Record<string, unknown>[] {
+  // Excel adds a byte order mark
+  const content = text.replace(/^\uFEFF/, "");
+
+  if (format === "json") {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new ImportFileError("The file isn't valid JSON");
+    }
+    const list = Array.isArray(data)
+      ? data
+      : (data as { providers?: unknown } | null)?.providers;
+    if (!Array.isArray(list) || list.some((r) => !r || typeof r !== "object" || Array.isArray(r))) {
+      throw new ImportFileError("JSON must be an array of provider objects");
+    }
+    return list as Record<string, unknown>[];
+  }
+
+  const [header, ...lines] = parseCsv(content);
+  if (!header) throw new ImportFileError("The file is empty");
+  const columns = header.map((h) => h.trim());
+  return lines.map((values) =>
+    Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ""]))
+  );
+}
+
+/** Columns in the file that aren't provider fields. */
+export function getUnknownColumns(records: Record<string, unknown>[]): string[] {
+  const known = new Set<string>([...PROVIDER_COLUMNS, "deleted", "deleted_at"]);
+  const unknown = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!known.has(key)) unknown.add(key);
+    }
+  }
+  return [...unknown];
+}
+
+// ------------------------------------------------------------------
+// Validation
+// ------------------------------------------------------------------
+
+function clean(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const trimmed = String(value).trim();
+  return trimmed === "" ? null : trimmed;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/** "Sunrise Home Care" -> "sunrise-home-care" */
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/** Same normalization as normalize_provider_phone in migration 021. */
+export function normalizePhone(phone: string | null): string | null {
+  const digits = (phone ?? "").replace(/\D/g, "");
+  return digits.length >= 10 ? digits.slice(-10) : null;
+}
+
+/** Lowercase words without punctuation or company suffixes. */
+export function normalizeName(name: string | null): string | null {
+  const normalized = (name ?? "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\b(the|inc|llc|pllc|corp|corporation|co|company|ltd|lp)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return normalized || null;
+}
+
+/**
+ * Validate and normalize one record. Returns the provider to upsert,
+ * or null with the reasons it can't be imported.
+ */
+export function validateProviderRow(
+  record: Record<string, unknown>
+): { provider: ImportProvider | null; errors: string[] } {
+  const errors: string[] = [];
+
+  const number = (field: keyof ImportProvider, min: number, max: number): number | null => {
+    const raw = clean(record[field]);
+    if (raw === null) return null;
+    const value = Number(raw.replace(/[$,]/g, ""));
+    if (!Number.isFinite(value) || value < min || value > max) {
+      errors.push(`${field} must be a number from ${min} to ${max}`);
+      return null;
+    }
+    return value;
+  };
+
+  const name = clean(record.provider_name);
+  if (!name) errors.push("provider_name is required");
+  else if (name.length > 200) errors.push("provider_name must be 200 characters or fewer");
+
+  const category = clean(record.provider_category);
+  if (!category) errors.push("provider_category is required");
+  else if (!PROVIDER_CATEGORIES.includes(category)) {
+    errors.push(`provider_category must be one of: ${PROVIDER_CATEGORIES.join("; ")}`);
+  }
+
+  const city = clean(record.city);
+  if (!city) errors.push("city is required");
+
+  const state = clean(record.state)?.toUpperCase() ?? null;
+  if (!state) errors.push("state is required");
+  else if (!US_STATE_CODES.includes(state)) errors.push(`state "${state}" isn't a US state code`);
+
+  const zipRaw = clean(record.zipcode);
+  let zipcode: number | null = null;
+  if (zipRaw !== null) {
+    // zipcode is numeric, so exported ZIPs have lost their leading zeros
+    const match = zipRaw.match(/^(\d{3,5})(-\d{4})?$/);
+    if (match) zipcode = Number(match[1]);
+    else errors.push("zipcode must be 5 digits (or ZIP+4)");
+  }
+
+  const phone = clean(record.phone);
+  if (phone !== null) {
+    const digits = phone.replace(/\D/g, "");
+    const valid =
+      /^[\d\s().+-]+$/.test(phone) &&
+      (digits.length === 10 || (digits.length === 11 && digits.startsWith("1")));
+    if (!valid) errors.push("phone must be a 10-digit US number");
+  }
+
+  const email = clean(record.email);
+  if (email !== null && !EMAIL_RE.test(email)) errors.push("email isn't a valid address");
+
+  const website = clean(record.website);
+  if (website !== null && !isHttpUrl(/^https?:\/\//i.test(website) ? website : `https://${website}`)) {
+    errors.push("website isn't a valid URL");
+  }
+
+  const lat = number("lat", -90, 90);
+  const lon = number("lon", -180, 180);
+  if ((lat === null) !== (lon === null) && !errors.some((e) => e.startsWith("lat") || e.startsWith("lon"))) {
+    errors.push("lat and lon must be given together");
+  }
+
+  const imagesRaw = clean(record.provider_images);
+  let images: string | null = null;
+  if (imagesRaw !== null) {
+    const urls = imagesRaw.split("|").map((u) => u.trim()).filter(Boolean);
+    const bad = urls.filter((u) => !isHttpUrl(u));
+    if (bad.length > 0) errors.push(`provider_images has invalid URLs: ${bad.slice(0, 3).join(", ")}`);
+    else images = urls.join(" | ");
+  }
+
+  const logo = clean(record.provider_logo);
+  if (logo !== null && !isHttpUrl(logo)) errors.push("provider_logo isn't a valid URL");
+
+  const lowerPrice = number("lower_price", 0, 1_000_000);
+  const upperPrice = number("upper_price", 0, 1_000_000);
+  if (lowerPrice !== null && upperPrice !== null && lowerPrice > upperPrice) {
+    errors.push("lower_price is higher than upper_price");
+  }
+
+  const contactRaw = clean(record.contact_for_price)?.toLowerCase() ?? null;
+  let contactForPrice: string | null = null;
+  if (contactRaw !== null) {
+    if (["true", "yes", "1"].includes(contactRaw)) contactForPrice = "True";
+    else if (["false", "no", "0"].includes(contactRaw)) contactForPrice = "False";
+    else errors.push("contact_for_price must be True or False");
+  }
+
+  // Pipe- or comma-separated ids or labels, e.g. "medicaid | VA Benefits"
+  const paymentRaw = record.payment_options;
+  const paymentValues = (Array.isArray(paymentRaw) ? paymentRaw.map(String) : (clean(paymentRaw) ?? "").split(/[|,]/))
+    .map((v) => v.trim())
+    .filter(Boolean);
+  const paymentOptions: string[] = [];
+  for (const value of paymentValues) {
+    const option = PAYMENT_OPTIONS.find(
+      (o) => o.id === value.toLowerCase() || o.label.toLowerCase() === value.toLowerCase()
+    );
+    if (!option) errors.push(`payment_options: "${value}" isn't one of ${PAYMENT_OPTIONS.map((o) => o.id).join(", ")}`);
+    else if (!paymentOptions.includes(option.id)) paymentOptions.push(option.id);
+  }
+
+  const provider: ImportProvider = {
+    provider_id: clean(record.provider_id) ?? slugify(`${name ?? ""}-${city ?? ""}-${state ?? ""}`),
+    provider_name: name ?? "",
+    provider_category: category ?? "",
+    main_category: clean(record.main_category),
+    phone,
+    email,
+    website,
+    google_rating: number("google_rating", 0, 5),
+    address: clean(record.address),
+    city,
+    state,
+    zipcode,
+    lat,
+    lon,
+    place_id: clean(record.place_id),
+    provider_images: images,
+    provider_logo: logo,
+    provider_description: clean(record.provider_description),
+    community_Score: number("community_Score", 0, 100),
+    value_score: number("value_score", 0, 100),
+    information_availability_score: number("information_availability_score", 0, 100),
+    lower_price: lowerPrice,
+    upper_price: upperPrice,
+    contact_for_price: contactForPrice,
+    payment_options: paymentOptions,
+  };
+
+  return { provider: errors.length === 0 ? provider : null, errors };
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { mergeWithSeed } from "@/lib/provider-merge";
+import { fixture, makeProfile } from "@/lib/test-fixtures";
+import type { OrganizationMetadata } from "@/lib/types";
+
+const seed = makeProfile({
+  id: "seed-1",
+  account_id: null,
+  source_provider_id: "prov_1",
+  slug: "sunrise-austin",
+  description: "Assisted living in central Austin.",
+  image_url: "https://example.com/seed.jpg",
+  website: "https://sunrise.example.com",
+  address: "100 Congress Ave",
+  zip: "78701",
+  lat: 30.26,
+  lng: -97.74,
+  care_types: ["Assisted Living"],
+  metadata: {
+    bed_count: 80,
+    amenities: ["garden"],
+    images: ["https://example.com/seed.jpg", "https://example.com/seed-2.jpg"],
+  } as OrganizationMetadata,
+  claim_state: "unclaimed",
+  source: "seeded",
+});
+
+/** The owner's profile for the same listing, with nothing filled in yet. */
+const makeOwned = fixture(
+  makeProfile({
+    id: "owned-1",
+    source_provider_id: "prov_1",
+    slug: "sunrise-austin-owned",
+    display_name: "",
+    phone: null,
+    city: null,
+    state: null,
+  })
+);
+
+describe("mergeWithSeed", () => {
+  it("keeps the owner's identity", () => {
+    const merged = mergeWithSeed(seed, makeOwned());
+
+    expect(merged.id).toBe("owned-1");
+    expect(merged.account_id).toBe("account-1");
+    expect(merged.slug).toBe("sunrise-austin-owned");
+    expect(merged.claim_state).toBe("claimed");
+  });
+
+  it("falls back to the seed for blank listing fields", () => {
+    const merged = mergeWithSeed(seed, makeOwned({ display_name: "  " }));
+
+    expect(merged.display_name).toBe(seed.display_name);
+    expect(merged.description).toBe(seed.description);
+    expect(merged.phone).toBe(seed.phone);
+    expect(merged.city).toBe("Austin");
+    expect(merged.care_types).toEqual(["Assisted Living"]);
+  });
+
+  it("prefers the owner's filled-in fields", () => {
+    const merged = mergeWithSeed(
+      seed,
+      makeOwned({
+        display_name: "Sunrise Austin",
+        phone: "512-555-0199",
+        care_types: ["Memory Care"],
+      })
+    );
+
+    expect(merged.display_name).toBe("Sunrise Austin");
+    expect(merged.phone).toBe("512-555-0199");
+    expect(merged.care_types).toEqual(["Memory Care"]);
+  });
+
+  it("takes coordinates as a pair", () => {
+    expect(mergeWithSeed(seed, makeOwned({ lat: 30.3, lng: null }))).toMatchObject({
+      lat: 30.26,
+      lng: -97.74,
+    });
+    expect(mergeWithSeed(seed, makeOwned({ lat: 30.3, lng: -97.7 }))).toMatchObject({
+      lat: 30.3,
+      lng: -97.7,
+    });
+  });
+
+  it("merges metadata key by key, ignoring the owner's blanks", () => {
+    const merged = mergeWithSeed(
+      seed,
+      makeOwned({
+        metadata: { bed_count: 60, amenities: [], hours: "Open 24 hours" },
+      })
+    );
+
+    expect(merged.metadata).toMatchObject({
+      bed_count: 60,
+      amenities: ["garden"],
+      hours: "Open 24 hours",
+    });
+  });
+
+  it("puts a new owner photo at the front of the seeded gallery", () => {
+    const photo = "https://example.com/owner.jpg";
+    const merged = mergeWithSeed(seed, makeOwned({ image_url: photo }));
+    const images = (merged.metadata as Record<string, unknown>).images;
+
+    expect(merged.image_url).toBe(photo);
+    expect(images).toEqual([photo, "https://example.com/seed.jpg", "https://example.com/seed-2.jpg"]);
+  });
+
+  it("doesn't repeat a photo already in the gallery", () => {
+    const merged = mergeWithSeed(seed, makeOwned({ image_url: "https://example.com/seed-2.jpg" }));
+    const images = (merged.metadata as Record<string, unknown>).images;
+
+    expect(images).toEqual(["https://example.com/seed.jpg", "https://example.com/seed-2.jpg"]);
+  });
+
+  it("doesn't modify its inputs", () => {
+    const owned = makeOwned({ image_url: "https://example.com/owner.jpg" });
+    const before = structuredClone({ seed, owned });
+    mergeWithSeed(seed, owned);
+
+    expect({ seed, owned }).toEqual(before);
+  });
+});
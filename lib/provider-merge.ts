@@ -0,0 +1,137 @@
+import type { Profile } from "@/lib/types";
+
+/**
+ * Merge layer between seeded listings and claimed profiles.
+ *
+ * Seeded listings live in olera-providers (shared with iOS, read-only
+ * here). When a provider claims one, their business_profiles row links
+ * back to it through source_provider_id. Once the claim is approved, the
+ * public page shows the two merged field by field: anything the owner
+ * has filled in wins, and blanks fall back to the seed. Unclaimed and
+ * pending listings show the seed as is.
+ */
+
+/** Listing fields an owner can override, in the order the admin diff shows them. */
+export const MERGED_FIELDS = [
+  "display_name",
+  "description",
+  "image_url",
+  "logo_url",
+  "phone",
+  "email",
+  "website",
+  "address",
+  "city",
+  "state",
+  "zip",
+  "category",
+  "care_types",
+] as const;
+
+export type MergedField = (typeof MERGED_FIELDS)[number];
+
+export const MERGED_FIELD_LABELS: Record<MergedField, string> = {
+  display_name: "Name",
+  description: "Description",
+  image_url: "Photo",
+  logo_url: "Logo",
+  phone: "Phone",
+  email: "Email",
+  website: "Website",
+  address: "Address",
+  city: "City",
+  state: "State",
+  zip: "ZIP",
+  category: "Category",
+  care_types: "Care types",
+};
+
+/** One field where the owner's profile differs from the seeded listing. */
+export interface ListingFieldChange {
+  field: string;
+  label: string;
+  seed: string | null;
+  owner: string;
+}
+
+function hasValue(value: unknown): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === "string") return value.trim() !== "";
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+function formatValue(value: unknown): string | null {
+  if (!hasValue(value)) return null;
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * The claimed profile as shown publicly. Identity (id, owner, claim
+ * state) comes from the owner's row; listing fields and metadata keys
+ * come from the owner where filled in and from the seed otherwise.
+ */
+export function mergeWithSeed(seed: Profile, owned: Profile): Profile {
+  const merged: Profile = { ...owned };
+  const target = merged as unknown as Record<MergedField, unknown>;
+  for (const field of MERGED_FIELDS) {
+    if (!hasValue(owned[field])) target[field] = seed[field];
+  }
+
+  if (owned.lat === null || owned.lng === null) {
+    merged.lat = seed.lat;
+    merged.lng = seed.lng;
+  }
+
+  const seedMeta = (seed.metadata ?? {}) as Record<string, unknown>;
+  const ownedMeta = (owned.metadata ?? {}) as Record<string, unknown>;
+  const metadata: Record<string, unknown> = { ...seedMeta };
+  for (const [key, value] of Object.entries(ownedMeta)) {
+    if (hasValue(value)) metadata[key] = value;
+  }
+
+  // A new photo from the owner leads the seeded gallery
+  const images = Array.isArray(metadata.images) ? (metadata.images as string[]) : [];
+  if (owned.image_url && !images.includes(owned.image_url)) {
+    metadata.images = [owned.image_url, ...images];
+  }
+
+  merged.metadata = metadata as Profile["metadata"];
+  return merged;
+}
+
+/**
+ * What the owner changed compared with the seeded listing. Only fields
+ * the owner has filled in are compared, since blanks fall back to the
+ * seed anyway.
+ */
+export function diffWithSeed(seed: Profile, owned: Profile): ListingFieldChange[] {
+  const changes: ListingFieldChange[] = [];
+
+  for (const field of MERGED_FIELDS) {
+    const owner = formatValue(owned[field]);
+    const original = formatValue(seed[field]);
+    if (owner !== null && owner !== original) {
+      changes.push({ field, label: MERGED_FIELD_LABELS[field], seed: original, owner });
+    }
+  }
+
+  const seedMeta = (seed.metadata ?? {}) as Record<string, unknown>;
+  const ownedMeta = (owned.metadata ?? {}) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(ownedMeta)) {
+    const owner = formatValue(value);
+    const original = formatValue(seedMeta[key]);
+    if (owner !== null && owner !== original) {
+      changes.push({
+        field: `metadata.${key}`,
+        label: key.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase()),
+        seed: original,
+        owner,
+      });
+    }
+  }
+
+  return changes;
+}
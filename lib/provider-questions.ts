@@ -0,0 +1,20 @@
+import type { PublicProviderQuestion } from "@/lib/types";
+
+export const MAX_QUESTION_LENGTH = 1000;
+export const MAX_ANSWER_LENGTH = 5000;
+
+/**
+ * Answered questions first (most helpful, then newest), then
+ * unanswered ones newest first.
+ */
+export function sortProviderQuestions(
+  questions: PublicProviderQuestion[]
+): PublicProviderQuestion[] {
+  return [...questions].sort((a, b) => {
+    if (!!a.answer !== !!b.answer) return a.answer ? -1 : 1;
+    if (a.answer && b.helpful_count !== a.helpful_count) {
+      return b.helpful_count - a.helpful_count;
+    }
+    return b.created_at.localeCompare(a.created_at);
+  });
+}
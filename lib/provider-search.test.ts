@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { decodeCursor, encodeCursor } from "@/lib/provider-search";
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+describe("search cursor", () => {
+  it("round-trips the sort key and provider id", () => {
+    const cursor = encodeCursor(-4.75, "prov_123");
+    expect(decodeCursor(cursor)).toEqual({ sortKey: -4.75, providerId: "prov_123" });
+  });
+
+  it("keeps large sentinel keys and unusual ids intact", () => {
+    const cursor = encodeCursor(1e12, "a/b+c=d ü");
+    expect(decodeCursor(cursor)).toEqual({ sortKey: 1e12, providerId: "a/b+c=d ü" });
+  });
+
+  it("is safe to put in a query string", () => {
+    const cursor = encodeCursor(-4.123456789, "x".repeat(40) + "?&=");
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it("rejects cursors that aren't base64 JSON", () => {
+    expect(decodeCursor("not a cursor")).toBeNull();
+    expect(decodeCursor("")).toBeNull();
+  });
+
+  it("rejects cursors with the wrong shape", () => {
+    expect(decodeCursor(encode({ sortKey: 1, providerId: "p" }))).toBeNull();
+    expect(decodeCursor(encode(null))).toBeNull();
+    expect(decodeCursor(encode(["1", "p"]))).toBeNull();
+    expect(decodeCursor(encode([1, 2]))).toBeNull();
+    expect(decodeCursor(encode([1]))).toBeNull();
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Provider search — shared between /api/search/providers and the
+ * browse UI. Filtering, sorting and facet counts run in Postgres
+ * (see supabase/migrations/006_provider_search.sql).
+ */
+
+import type { ProviderCardData } from "@/lib/types/provider";
+import type { PaymentOption } from "@/lib/types";
+import { PAYMENT_OPTIONS, isPaymentOption } from "@/lib/provider-details";
+
+export type ProviderSearchSort =
+  /**
+   * Featured (Pro and Enterprise) listings first, then rating nudged up
+   * for pricing, photos and a phone (026 and 027 in supabase/migrations)
+   */
+  | "recommended"
+  | "rating"
+  | "price-low"
+  | "price-high"
+  | "distance";
+
+export const PROVIDER_SEARCH_SORTS: ProviderSearchSort[] = [
+  "recommended",
+  "rating",
+  "price-low",
+  "price-high",
+  "distance",
+];
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+
+// "Within N miles" choices offered in the browse filters
+export const SEARCH_RADIUS_OPTIONS = [5, 10, 25, 50, 100];
+export const MAX_RADIUS_MILES = 250;
+
+// URL care type ids → olera-providers.provider_category values
+export const CARE_TYPE_TO_CATEGORY: Record<string, string> = {
+  "home-care": "Home Care (Non-medical)",
+  "home-health": "Home Health Care",
+  "assisted-living": "Assisted Living",
+  "memory-care": "Memory Care",
+  "nursing-homes": "Nursing Home",
+  "independent-living": "Independent Living",
+};
+
+export interface ProviderSearchParams {
+  careType?: string;
+  location?: string;
+  minRating?: number;
+  sort?: ProviderSearchSort;
+  /** Origin for distance sorting and radius filtering. */
+  lat?: number;
+  lng?: number;
+  /** Only providers within this many miles of lat/lng. */
+  radius?: number;
+  /** Only providers that accept this payment type. */
+  payment?: PaymentOption;
+  cursor?: string;
+  limit?: number;
+  /** Skip facet counts (e.g. when loading the next page). */
+  facets?: boolean;
+}
+
+export interface ProviderSearchResult extends ProviderCardData {
+  /** business_profiles.id when the listing has been claimed. */
+  claimedProfileId?: string;
+}
+
+export interface ProviderSearchFacets {
+  careTypes: { id: string; count: number }[];
+  states: { value: string; count: number }[];
+  payments: { id: PaymentOption; count: number }[];
+}
+
+export interface ProviderSearchResponse {
+  results: ProviderSearchResult[];
+  total: number;
+  nextCursor: string | null;
+  facets: ProviderSearchFacets | null;
+}
+
+// ------------------------------------------------------------------
+// Location parsing
+// ------------------------------------------------------------------
+
+export interface ParsedLocation {
+  city?: string;
+  state?: string;
+  /** Free text matched against city or provider name. */
+  query?: string;
+}
+
+/**
+ * "Austin, TX" → city + state, "TX" → state, anything else is matched
+ * against city or provider name.
+ */
+export function parseLocation(location: string): ParsedLocation | null {
+  const trimmed = location.trim();
+  if (!trimmed) return null;
+
+  const cityStateMatch = trimmed.match(/^(.+),\s*([A-Z]{2})$/i);
+  if (cityStateMatch) {
+    return { city: cityStateMatch[1].trim(), state: cityStateMatch[2].toUpperCase() };
+  }
+  if (/^[A-Z]{2}$/i.test(trimmed)) {
+    return { state: trimmed.toUpperCase() };
+  }
+  return { query: trimmed };
+}
+
+/** Escape LIKE wildcards in user input. */
+export function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+// ------------------------------------------------------------------
+// Cursor
+// ------------------------------------------------------------------
+
+/** Opaque keyset cursor: the last row's (sort_key, provider_id). */
+export function encodeCursor(sortKey: number, providerId: string): string {
+  return Buffer.from(JSON.stringify([sortKey, providerId])).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): { sortKey: number; providerId: string } | null {
+  try {
+    const [sortKey, providerId] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf8")
+    );
+    if (typeof sortKey !== "number" || typeof providerId !== "string") return null;
+    return { sortKey, providerId };
+  } catch {
+    return null;
+  }
+}
+
+// ------------------------------------------------------------------
+// Query string <-> params
+// ------------------------------------------------------------------
+
+export function toSearchQueryString(params: ProviderSearchParams): string {
+  const qs = new URLSearchParams();
+  if (params.careType && params.careType !== "all") qs.set("type", params.careType);
+  if (params.location) qs.set("location", params.location);
+  if (params.minRating) qs.set("min_rating", String(params.minRating));
+  if (params.sort && params.sort !== "recommended") qs.set("sort", params.sort);
+  if (params.lat !== undefined && params.lng !== undefined) {
+    qs.set("lat", String(params.lat));
+    qs.set("lng", String(params.lng));
+    if (params.radius) qs.set("radius", String(params.radius));
+  }
+  if (params.payment) qs.set("payment", params.payment);
+  if (params.cursor) qs.set("cursor", params.cursor);
+  if (params.limit) qs.set("limit", String(params.limit));
+  if (params.facets === false) qs.set("facets", "0");
+  return qs.toString();
+}
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value === "") return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export function fromSearchQueryString(qs: URLSearchParams): ProviderSearchParams {
+  const sort = qs.get("sort") as ProviderSearchSort | null;
+  const limit = parseNumber(qs.get("limit"));
+  const payment = qs.get("payment");
+
+  return {
+    careType: qs.get("type") || undefined,
+    location: qs.get("location") || undefined,
+    minRating: parseNumber(qs.get("min_rating")),
+    sort: sort && PROVIDER_SEARCH_SORTS.includes(sort) ? sort : "recommended",
+    lat: parseNumber(qs.get("lat")),
+    lng: parseNumber(qs.get("lng")),
+    radius: parseNumber(qs.get("radius")),
+    payment: payment && isPaymentOption(payment) ? payment : undefined,
+    cursor: qs.get("cursor") || undefined,
+    limit: Math.min(Math.max(Math.floor(limit ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE),
+    facets: qs.get("facets") !== "0",
+  };
+}
+
+/**
+ * Roll raw provider_category counts up into care type ids. A listing
+ * like "Memory Care | Assisted Living" counts toward both, matching
+ * how the category filter itself matches.
+ */
+export function toCareTypeFacets(
+  categoryCounts: { value: string; count: number }[]
+): ProviderSearchFacets["careTypes"] {
+  return Object.entries(CARE_TYPE_TO_CATEGORY).map(([id, category]) => ({
+    id,
+    count: categoryCounts
+      .filter((c) => c.value.toLowerCase().includes(category.toLowerCase()))
+      .reduce((sum, c) => sum + c.count, 0),
+  }));
+}
+
+/** Counts for every payment type, including ones no result accepts. */
+export function toPaymentFacets(
+  paymentCounts: { value: string; count: number }[]
+): ProviderSearchFacets["payments"] {
+  return PAYMENT_OPTIONS.map((o) => ({
+    id: o.id,
+    count: paymentCounts.find((c) => c.value === o.id)?.count ?? 0,
+  }));
+}
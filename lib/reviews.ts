@@ -0,0 +1,37 @@
+import type { Review, ReviewReportReason } from "@/lib/types";
+
+export const MAX_REVIEW_LENGTH = 5000;
+
+export const REVIEW_REPORT_REASON_LABELS: Record<ReviewReportReason, string> = {
+  spam: "Spam or advertising",
+  offensive: "Offensive or abusive",
+  not_a_customer: "Not a real customer",
+  conflict_of_interest: "Conflict of interest",
+  other: "Something else",
+};
+
+export const REVIEW_REPORT_REASONS = Object.keys(
+  REVIEW_REPORT_REASON_LABELS
+) as ReviewReportReason[];
+
+// Review as rendered on the provider page, with the reviewer's name
+export interface PublicReview extends Review {
+  reviewer_name: string;
+}
+
+/**
+ * "Jane Smith" → "Jane S." so full family names aren't published.
+ */
+export function formatReviewerName(displayName: string | null | undefined): string {
+  const parts = (displayName || "").trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "Olera family";
+  if (parts.length === 1) return parts[0];
+  return `${parts[0]} ${parts[parts.length - 1][0].toUpperCase()}.`;
+}
+
+/**
+ * "March 2026" — reviews show month precision only.
+ */
+export function formatReviewDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("en-US", { month: "long", year: "numeric" });
+}
@@ -0,0 +1,155 @@
+import type Stripe from "stripe";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { handleStripeEvent, updateMembership } from "@/lib/stripe-events";
+import { createFakeDb, makeMembership, type FakeDb } from "@/lib/test-fixtures";
+
+let fake: FakeDb;
+
+vi.mock("@/lib/admin", () => ({ getServiceClient: () => fake.client }));
+
+function makeEvent(id: string, type: string, created: number, object: object): Stripe.Event {
+  return { id, type, created, data: { object } } as unknown as Stripe.Event;
+}
+
+const checkoutCompleted = (created: number) =>
+  makeEvent("evt_checkout", "checkout.session.completed", created, {
+    customer: "cus_1",
+    subscription: "sub_1",
+    metadata: { account_id: "account-1", plan: "basic", billing_cycle: "annual" },
+  });
+
+const subscriptionUpdated = (id: string, created: number, status: string) =>
+  makeEvent(id, "customer.subscription.updated", created, {
+    customer: "cus_1",
+    status,
+    cancel_at_period_end: false,
+    items: {
+      data: [
+        {
+          current_period_end: 1_800_000_000,
+          price: { id: "price_unknown", recurring: { interval: "year" } },
+        },
+      ],
+    },
+  });
+
+const ledger = (id: string) => fake.tables.stripe_events.find((e) => e.id === id);
+const membership = () => fake.tables.memberships[0];
+
+beforeEach(() => {
+  fake = createFakeDb({
+    tables: { memberships: [makeMembership()], stripe_events: [] },
+    defaults: {
+      stripe_events: () => ({
+        status: "processing",
+        attempts: 1,
+        last_attempt_at: new Date().toISOString(),
+      }),
+    },
+  });
+});
+
+describe("handleStripeEvent", () => {
+  it("applies a completed checkout to the account's membership", async () => {
+    await expect(handleStripeEvent(checkoutCompleted(1_000))).resolves.toBe("processed");
+
+    expect(membership()).toMatchObject({
+      plan: "basic",
+      status: "active",
+      billing_cycle: "annual",
+      stripe_customer_id: "cus_1",
+      stripe_subscription_id: "sub_1",
+      stripe_event_at: new Date(1_000_000).toISOString(),
+    });
+    expect(ledger("evt_checkout")).toMatchObject({ status: "processed", customer_id: "cus_1" });
+  });
+
+  it("applies each event once", async () => {
+    await handleStripeEvent(checkoutCompleted(1_000));
+    membership().plan = "free";
+
+    await expect(handleStripeEvent(checkoutCompleted(1_000))).resolves.toBe("duplicate");
+    expect(membership().plan).toBe("free");
+  });
+
+  it("leaves a delivery that's in flight to the other handler", async () => {
+    fake.tables.stripe_events.push({
+      id: "evt_checkout",
+      status: "processing",
+      attempts: 1,
+      last_attempt_at: new Date().toISOString(),
+    });
+
+    await expect(handleStripeEvent(checkoutCompleted(1_000))).resolves.toBe("in_progress");
+    expect(membership().plan).toBe("free");
+  });
+
+  it("ignores an event older than the one already applied", async () => {
+    await handleStripeEvent(checkoutCompleted(1_000));
+    await handleStripeEvent(subscriptionUpdated("evt_new", 3_000, "past_due"));
+
+    await expect(handleStripeEvent(subscriptionUpdated("evt_old", 2_000, "active"))).resolves.toBe(
+      "skipped"
+    );
+    expect(membership().status).toBe("past_due");
+    expect(ledger("evt_old")?.skip_reason).toBe("A newer change was already applied");
+  });
+
+  it("fails an event that arrives before checkout so Stripe retries it", async () => {
+    const early = subscriptionUpdated("evt_early", 2_000, "past_due");
+
+    await expect(handleStripeEvent(early)).rejects.toThrow("No membership for stripe_customer_id cus_1");
+    expect(ledger("evt_early")).toMatchObject({ status: "failed", processed_at: null });
+    expect(membership().status).toBe("free");
+
+    await handleStripeEvent(checkoutCompleted(1_000));
+    await expect(handleStripeEvent(early)).resolves.toBe("processed");
+    expect(membership().status).toBe("past_due");
+    expect(ledger("evt_early")).toMatchObject({ status: "processed", attempts: 2, error: null });
+  });
+
+  it("records a failed update and rethrows", async () => {
+    fake.failNext("memberships", "update", "connection reset");
+
+    await expect(handleStripeEvent(checkoutCompleted(1_000))).rejects.toThrow("connection reset");
+    expect(ledger("evt_checkout")).toMatchObject({ status: "failed" });
+    expect(ledger("evt_checkout")?.error).toContain("connection reset");
+  });
+
+  it("drops a cancelled subscription to the free plan", async () => {
+    await handleStripeEvent(checkoutCompleted(1_000));
+    await handleStripeEvent(
+      makeEvent("evt_deleted", "customer.subscription.deleted", 2_000, { customer: "cus_1" })
+    );
+
+    expect(membership()).toMatchObject({ plan: "free", status: "free", stripe_subscription_id: null });
+  });
+
+  it("skips event types it doesn't handle", async () => {
+    await expect(
+      handleStripeEvent(makeEvent("evt_other", "customer.created", 1_000, {}))
+    ).resolves.toBe("skipped");
+    expect(ledger("evt_other")?.skip_reason).toBe("Unhandled event type customer.created");
+  });
+});
+
+describe("updateMembership", () => {
+  it("orders settings changes with webhook events", async () => {
+    await handleStripeEvent(checkoutCompleted(1_000));
+
+    const byAccount = { column: "account_id" as const, value: "account-1" };
+    await expect(updateMembership(fake.client, byAccount, 3_000, { plan: "pro" })).resolves.toEqual({
+      status: "processed",
+    });
+
+    // An event from before the change doesn't undo it
+    await handleStripeEvent(subscriptionUpdated("evt_before", 2_000, "active"));
+    expect(membership()).toMatchObject({ plan: "pro", billing_cycle: "annual" });
+
+    // The event the change triggers, created the same second, still applies
+    await expect(handleStripeEvent(subscriptionUpdated("evt_after", 3_000, "past_due"))).resolves.toBe(
+      "processed"
+    );
+    expect(membership().status).toBe("past_due");
+  });
+});
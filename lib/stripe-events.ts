@@ -0,0 +1,285 @@
+import type Stripe from "stripe";
+import { getServiceClient } from "@/lib/admin";
+import { isPaidPlan } from "@/lib/entitlements";
+import { getPlanForPrice } from "@/lib/stripe";
+import type { MembershipStatus, StripeEventStatus } from "@/lib/types";
+
+/** A "processing" row older than this is assumed dead and can be retried. */
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+export type StripeEventOutcome =
+  | "processed"
+  | "skipped"
+  // Already processed or skipped earlier
+  | "duplicate"
+  // Another delivery of the same event is being handled right now
+  | "in_progress";
+
+export type ApplyResult = { status: "processed" } | { status: "skipped"; reason: string };
+
+type ServiceClient = ReturnType<typeof getServiceClient>;
+
+/**
+ * Record a Stripe event in the stripe_events ledger and apply it to
+ * memberships, once.
+ *
+ * New and failed events are claimed and applied; processed and skipped
+ * ones are left alone. When applying fails the error is stored on the
+ * ledger row and rethrown so the webhook can ask Stripe to retry.
+ * Also used by the admin replay, with the payload read back from the ledger.
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<StripeEventOutcome> {
+  const db = getServiceClient();
+
+  const claimed = await claimEvent(db, event);
+  if (claimed !== true) return claimed;
+
+  let result: ApplyResult;
+  try {
+    result = await applyStripeEvent(db, event);
+  } catch (err) {
+    await finishEvent(db, event.id, "failed", {
+      error: err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  }
+
+  await finishEvent(
+    db,
+    event.id,
+    result.status,
+    result.status === "skipped" ? { skip_reason: result.reason } : {}
+  );
+  return result.status;
+}
+
+/**
+ * Insert the ledger row, or take over a failed or stalled one.
+ * Returns true when this caller owns the event.
+ */
+async function claimEvent(
+  db: ServiceClient,
+  event: Stripe.Event
+): Promise<true | "duplicate" | "in_progress"> {
+  const { error: insertError } = await db.from("stripe_events").insert({
+    id: event.id,
+    type: event.type,
+    stripe_created_at: toTimestamp(event.created),
+    customer_id: getCustomerId(event),
+    payload: event,
+  });
+
+  if (!insertError) return true;
+  if (insertError.code !== "23505") {
+    throw new Error(`Failed to record Stripe event: ${insertError.message}`);
+  }
+
+  const { data: existing, error: fetchError } = await db
+    .from("stripe_events")
+    .select("status, attempts, last_attempt_at")
+    .eq("id", event.id)
+    .single();
+
+  if (fetchError || !existing) {
+    throw new Error(`Failed to load Stripe event ${event.id}`);
+  }
+
+  if (existing.status === "processed" || existing.status === "skipped") {
+    return "duplicate";
+  }
+  if (
+    existing.status === "processing" &&
+    Date.now() - new Date(existing.last_attempt_at).getTime() < PROCESSING_TIMEOUT_MS
+  ) {
+    return "in_progress";
+  }
+
+  // Conditional on the row we read, so only one retry wins the claim
+  const { data: reclaimed, error: claimError } = await db
+    .from("stripe_events")
+    .update({
+      status: "processing",
+      attempts: existing.attempts + 1,
+      last_attempt_at: new Date().toISOString(),
+      error: null,
+    })
+    .eq("id", event.id)
+    .eq("status", existing.status)
+    .eq("attempts", existing.attempts)
+    .select("id");
+
+  if (claimError) {
+    throw new Error(`Failed to claim Stripe event: ${claimError.message}`);
+  }
+  return reclaimed && reclaimed.length > 0 ? true : "in_progress";
+}
+
+async function finishEvent(
+  db: ServiceClient,
+  eventId: string,
+  status: StripeEventStatus,
+  fields: { error?: string; skip_reason?: string }
+) {
+  const { error } = await db
+    .from("stripe_events")
+    .update({
+      status,
+      error: fields.error ?? null,
+      skip_reason: fields.skip_reason ?? null,
+      processed_at: status === "failed" ? null : new Date().toISOString(),
+    })
+    .eq("id", eventId);
+
+  if (error) {
+    console.error(`Failed to mark Stripe event ${eventId} as ${status}:`, error);
+  }
+}
+
+// ============================================================
+// Applying events to memberships
+// ============================================================
+
+async function applyStripeEvent(db: ServiceClient, event: Stripe.Event): Promise<ApplyResult> {
+  switch (event.type) {
+    case "checkout.session.completed": {
+      const session = event.data.object as Stripe.Checkout.Session;
+      const accountId = session.metadata?.account_id;
+      if (!accountId) return { status: "skipped", reason: "Checkout session has no account_id" };
+
+      return updateMembership(db, { column: "account_id", value: accountId }, event.created, {
+        plan: isPaidPlan(session.metadata?.plan) ? session.metadata.plan : "pro",
+        status: "active",
+        stripe_customer_id: session.customer as string,
+        stripe_subscription_id: session.subscription as string,
+        billing_cycle: session.metadata?.billing_cycle === "annual" ? "annual" : "monthly",
+      });
+    }
+
+    case "customer.subscription.updated": {
+      const subscription = event.data.object as Stripe.Subscription;
+      const item = subscription.items.data[0];
+      const periodEnd = item?.current_period_end;
+      const interval = item?.price.recurring?.interval;
+      const price = item ? getPlanForPrice(item.price.id) : null;
+
+      return updateMembership(db, byCustomer(subscription.customer), event.created, {
+        status: toMembershipStatus(subscription.status),
+        current_period_ends_at: periodEnd ? toTimestamp(periodEnd) : new Date().toISOString(),
+        cancel_at_period_end: subscription.cancel_at_period_end,
+        // Plan switches from settings change the price
+        ...(interval && { billing_cycle: interval === "year" ? "annual" : "monthly" }),
+        ...(price && { plan: price.plan }),
+      });
+    }
+
+    case "customer.subscription.deleted": {
+      const subscription = event.data.object as Stripe.Subscription;
+
+      return updateMembership(db, byCustomer(subscription.customer), event.created, {
+        status: "free",
+        plan: "free",
+        stripe_subscription_id: null,
+        cancel_at_period_end: false,
+      });
+    }
+
+    case "invoice.payment_failed": {
+      const invoice = event.data.object as Stripe.Invoice;
+      if (!invoice.customer) return { status: "skipped", reason: "Invoice has no customer" };
+
+      return updateMembership(db, byCustomer(invoice.customer), event.created, {
+        status: "past_due",
+      });
+    }
+
+    default:
+      return { status: "skipped", reason: `Unhandled event type ${event.type}` };
+  }
+}
+
+/**
+ * Apply changes to one membership unless it already reflects a newer
+ * change. Stripe doesn't guarantee delivery order, so each membership
+ * remembers when the last change applied to it happened (stripe_event_at):
+ * an event's created time, or when settings changed the subscription.
+ * `at` is in seconds, like Stripe timestamps.
+ *
+ * Subscription events can also arrive before checkout.session.completed
+ * has linked the customer to a membership. Those fail rather than being
+ * skipped, so Stripe delivers them again once the link exists.
+ */
+export async function updateMembership(
+  db: ServiceClient,
+  match: { column: "account_id" | "stripe_customer_id"; value: string },
+  at: number,
+  changes: Record<string, unknown>
+): Promise<ApplyResult> {
+  const eventAt = toTimestamp(at);
+
+  const { data: membership, error: fetchError } = await db
+    .from("memberships")
+    .select("id, stripe_event_at")
+    .eq(match.column, match.value)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new Error(`Failed to load membership: ${fetchError.message}`);
+  }
+  if (!membership) {
+    throw new Error(`No membership for ${match.column} ${match.value} yet`);
+  }
+  if (
+    membership.stripe_event_at &&
+    new Date(membership.stripe_event_at).getTime() > at * 1000
+  ) {
+    return { status: "skipped", reason: "A newer change was already applied" };
+  }
+
+  // Re-checked in the update in case a newer event landed in between
+  const { data: updated, error: updateError } = await db
+    .from("memberships")
+    .update({ ...changes, stripe_event_at: eventAt })
+    .eq("id", membership.id)
+    .or(`stripe_event_at.is.null,stripe_event_at.lte.${eventAt}`)
+    .select("id");
+
+  if (updateError) {
+    throw new Error(`Failed to update membership: ${updateError.message}`);
+  }
+  if (!updated || updated.length === 0) {
+    return { status: "skipped", reason: "A newer change was already applied" };
+  }
+  return { status: "processed" };
+}
+
+function byCustomer(customer: string | { id: string }) {
+  return {
+    column: "stripe_customer_id" as const,
+    value: typeof customer === "string" ? customer : customer.id,
+  };
+}
+
+function toMembershipStatus(status: Stripe.Subscription.Status): MembershipStatus {
+  switch (status) {
+    case "active":
+      return "active";
+    case "past_due":
+      return "past_due";
+    case "canceled":
+    case "unpaid":
+      return "canceled";
+    default:
+      return "free";
+  }
+}
+
+function getCustomerId(event: Stripe.Event): string | null {
+  const object = event.data.object as { customer?: string | { id: string } | null };
+  if (!object.customer) return null;
+  return typeof object.customer === "string" ? object.customer : object.customer.id;
+}
+
+/** Stripe timestamps are seconds since the epoch. */
+function toTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
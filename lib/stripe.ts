@@ -1,4 +1,6 @@
 import Stripe from "stripe";
+import type { PaidPlan } from "@/lib/entitlements";
+import type { BillingCycle } from "@/lib/types";
 
 let stripeInstance: Stripe | null = null;
 
@@ -25,10 +27,33 @@ export function isStripeConfigured(): boolean {
 }
 
 /**
- * Price IDs for subscription plans.
+ * Price IDs for each paid plan and billing cycle.
  * Set these in .env.local once you create the products in your Stripe dashboard.
+ * Pro keeps the original STRIPE_PRICE_MONTHLY / STRIPE_PRICE_ANNUAL names.
  */
-export const PRICE_IDS = {
-  monthly: process.env.STRIPE_PRICE_MONTHLY || "",
-  annual: process.env.STRIPE_PRICE_ANNUAL || "",
+export const PRICE_IDS: Record<PaidPlan, Record<BillingCycle, string>> = {
+  basic: {
+    monthly: process.env.STRIPE_PRICE_BASIC_MONTHLY || "",
+    annual: process.env.STRIPE_PRICE_BASIC_ANNUAL || "",
+  },
+  pro: {
+    monthly: process.env.STRIPE_PRICE_MONTHLY || "",
+    annual: process.env.STRIPE_PRICE_ANNUAL || "",
+  },
+  enterprise: {
+    monthly: process.env.STRIPE_PRICE_ENTERPRISE_MONTHLY || "",
+    annual: process.env.STRIPE_PRICE_ENTERPRISE_ANNUAL || "",
+  },
 };
+
+/** Which plan and billing cycle a Stripe price id belongs to. */
+export function getPlanForPrice(
+  priceId: string
+): { plan: PaidPlan; billingCycle: BillingCycle } | null {
+  for (const plan of Object.keys(PRICE_IDS) as PaidPlan[]) {
+    for (const billingCycle of ["monthly", "annual"] as const) {
+      if (PRICE_IDS[plan][billingCycle] === priceId) return { plan, billingCycle };
+    }
+  }
+  return null;
+}
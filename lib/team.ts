@@ -0,0 +1,62 @@
+import type { TeamRole } from "@/lib/types";
+
+/**
+ * Team roles on a provider profile.
+ *
+ * The profile's own account is always its owner (and pays for it);
+ * teammates are invited by email into profile_members with a role.
+ * Client components use these rules to hide actions; API routes check
+ * them again through getEngager() (lib/engagement.ts) and RLS enforces
+ * read access via has_profile_role().
+ */
+
+export type TeamPermission =
+  /** Invite, remove and change roles of teammates */
+  | "manage_team"
+  /** Edit the profile, availability and locations */
+  | "edit_profile"
+  /** Accept, decline and reply to connections */
+  | "respond"
+  /** Read connections and messages */
+  | "view";
+
+export const TEAM_ROLES: TeamRole[] = ["owner", "manager", "responder", "viewer"];
+
+export const ROLE_LABELS: Record<TeamRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  responder: "Responder",
+  viewer: "Viewer",
+};
+
+export const ROLE_DESCRIPTIONS: Record<TeamRole, string> = {
+  owner: "Full access, including the team",
+  manager: "Edit the profile, respond, and manage responders and viewers",
+  responder: "Respond to inquiries and messages",
+  viewer: "Read-only access to inquiries and messages",
+};
+
+const ROLE_PERMISSIONS: Record<TeamRole, TeamPermission[]> = {
+  owner: ["manage_team", "edit_profile", "respond", "view"],
+  manager: ["manage_team", "edit_profile", "respond", "view"],
+  responder: ["respond", "view"],
+  viewer: ["view"],
+};
+
+export function hasTeamPermission(role: TeamRole | null, permission: TeamPermission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Roles a teammate may hand out or change. Managers can't create owners
+ * or other managers, so they can't out-rank themselves.
+ */
+export function getAssignableRoles(role: TeamRole | null): TeamRole[] {
+  if (role === "owner") return TEAM_ROLES;
+  if (role === "manager") return ["responder", "viewer"];
+  return [];
+}
+
+export function isTeamRole(value: unknown): value is TeamRole {
+  return TEAM_ROLES.includes(value as TeamRole);
+}
@@ -0,0 +1,348 @@
+import type { getServiceClient } from "@/lib/admin";
+import type { Connection, Membership, Profile } from "@/lib/types";
+
+/**
+ * Test data builders shared by the lib/*.test.ts suites.
+ */
+
+/** A factory for test objects: `defaults` with per-test overrides. */
+export function fixture<T extends object>(defaults: T): (overrides?: Partial<T>) => T {
+  return (overrides = {}) => ({ ...defaults, ...overrides });
+}
+
+/** A claimed, active provider profile. */
+export const makeProfile = fixture<Profile>({
+  id: "profile-1",
+  account_id: "account-1",
+  source_provider_id: null,
+  organization_id: null,
+  slug: "sunrise-austin-tx-ab12",
+  type: "organization",
+  category: "assisted_living",
+  display_name: "Sunrise of Austin",
+  description: null,
+  image_url: null,
+  logo_url: null,
+  phone: "512-555-0100",
+  email: null,
+  website: null,
+  address: null,
+  city: "Austin",
+  state: "TX",
+  zip: null,
+  lat: null,
+  lng: null,
+  service_area: null,
+  care_types: [],
+  metadata: {},
+  claim_state: "claimed",
+  verification_state: "unverified",
+  source: "user_created",
+  is_active: true,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+});
+
+/** A free-tier membership with its whole monthly allowance left. */
+export const makeMembership = fixture<Membership>({
+  id: "membership-1",
+  account_id: "account-1",
+  plan: "free",
+  billing_cycle: null,
+  status: "free",
+  trial_ends_at: null,
+  trial_notice_sent_at: null,
+  current_period_ends_at: null,
+  cancel_at_period_end: false,
+  free_responses_used: 0,
+  free_responses_reset_at: null,
+  stripe_customer_id: null,
+  stripe_subscription_id: null,
+  stripe_event_at: null,
+  created_at: "2026-01-01T00:00:00.000Z",
+  updated_at: "2026-01-01T00:00:00.000Z",
+});
+
+/** A family's inquiry to profile-1 that hasn't been answered yet. */
+export const makeConnection = fixture<Connection>({
+  id: "connection-1",
+  from_profile_id: "family-1",
+  to_profile_id: "profile-1",
+  type: "inquiry",
+  status: "pending",
+  message: "Looking for memory care for my mother starting next month.",
+  responded_at: null,
+  responded_by: null,
+  created_at: "2026-07-01T00:00:00.000Z",
+  updated_at: "2026-07-01T00:00:00.000Z",
+});
+
+// ------------------------------------------------------------------
+// In-memory Supabase
+// ------------------------------------------------------------------
+
+type Row = Record<string, unknown>;
+type Op = "select" | "insert" | "update" | "delete";
+type Result = { data: unknown; error: { message: string; code?: string } | null; count?: number };
+
+export interface FakeDbOptions {
+  /** Rows by table name; the fake reads and writes these arrays */
+  tables?: Record<string, object[]>;
+  /** Column defaults applied to inserted rows, by table name */
+  defaults?: Record<string, () => Row>;
+  /** db.rpc() handlers by function name */
+  rpcs?: Record<string, (args: Row) => unknown>;
+  /** auth.admin.getUserById() users by id */
+  users?: Record<string, { id: string; email: string }>;
+}
+
+export interface FakeDb {
+  client: ReturnType<typeof getServiceClient>;
+  tables: Record<string, Row[]>;
+  /** Every db.rpc() call, in order */
+  rpcCalls: { name: string; args: Row }[];
+  /** Make the next `op` on `table` return an error */
+  failNext(table: string, op: Op, message?: string): void;
+}
+
+/**
+ * A stand-in for the service client covering the query builder calls
+ * lib/ code makes: filters, single/maybeSingle, insert (with a unique
+ * violation on a repeated id), update, delete and rpc.
+ */
+export function createFakeDb(options: FakeDbOptions = {}): FakeDb {
+  const tables = (options.tables ?? {}) as Record<string, Row[]>;
+  const failures = new Map<string, string>();
+  const rpcCalls: FakeDb["rpcCalls"] = [];
+
+  const client = {
+    from: (table: string) =>
+      new FakeQuery(tables, failures, table, options.defaults?.[table] ?? (() => ({}))),
+    rpc: async (name: string, args: Row = {}): Promise<Result> => {
+      rpcCalls.push({ name, args });
+      const handler = options.rpcs?.[name];
+      if (!handler) return { data: null, error: { message: `Unknown function ${name}` } };
+      return { data: handler(args), error: null };
+    },
+    auth: {
+      admin: {
+        getUserById: async (id: string) => ({
+          data: { user: options.users?.[id] ?? null },
+          error: null,
+        }),
+      },
+    },
+  };
+
+  return {
+    client: client as unknown as FakeDb["client"],
+    tables,
+    rpcCalls,
+    failNext: (table, op, message = `${op} on ${table} failed`) => {
+      failures.set(`${table}.${op}`, message);
+    },
+  };
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  const [x, y] = [String(a), String(b)];
+  const [tx, ty] = [Date.parse(x), Date.parse(y)];
+  if (x.includes("T") && y.includes("T") && !isNaN(tx) && !isNaN(ty)) return tx - ty;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function matches(value: unknown, op: string, expected: unknown): boolean {
+  const present = value !== null && value !== undefined;
+  switch (op) {
+    case "eq":
+      return present && compare(value, expected) === 0;
+    case "neq":
+      return present && compare(value, expected) !== 0;
+    case "is":
+      return expected === null || expected === "null" ? !present : value === expected;
+    case "in":
+      return (expected as unknown[]).some((e) => compare(value, e) === 0);
+    case "lt":
+      return present && compare(value, expected) < 0;
+    case "lte":
+      return present && compare(value, expected) <= 0;
+    case "gt":
+      return present && compare(value, expected) > 0;
+    case "gte":
+      return present && compare(value, expected) >= 0;
+    default:
+      throw new Error(`Unsupported filter ${op}`);
+  }
+}
+
+class FakeQuery implements PromiseLike<Result> {
+  private op: Op = "select";
+  private values: Row[] = [];
+  private filters: ((row: Row) => boolean)[] = [];
+  private returning = false;
+  private head = false;
+  private counted = false;
+  private max: number | null = null;
+  private sorts: ((a: Row, b: Row) => number)[] = [];
+
+  constructor(
+    private tables: Record<string, Row[]>,
+    private failures: Map<string, string>,
+    private table: string,
+    private defaults: () => Row
+  ) {}
+
+  select(_columns?: string, options?: { count?: string; head?: boolean }) {
+    if (this.op !== "select") this.returning = true;
+    this.counted = !!options?.count;
+    this.head = !!options?.head;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.op = "insert";
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(values: Row) {
+    this.op = "update";
+    this.values = [values];
+    return this;
+  }
+
+  delete() {
+    this.op = "delete";
+    return this;
+  }
+
+  private where(column: string, op: string, value: unknown) {
+    this.filters.push((row) => matches(row[column], op, value));
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    return this.where(column, "eq", value);
+  }
+  neq(column: string, value: unknown) {
+    return this.where(column, "neq", value);
+  }
+  is(column: string, value: unknown) {
+    return this.where(column, "is", value);
+  }
+  in(column: string, values: unknown[]) {
+    return this.where(column, "in", values);
+  }
+  lt(column: string, value: unknown) {
+    return this.where(column, "lt", value);
+  }
+  lte(column: string, value: unknown) {
+    return this.where(column, "lte", value);
+  }
+  gt(column: string, value: unknown) {
+    return this.where(column, "gt", value);
+  }
+  gte(column: string, value: unknown) {
+    return this.where(column, "gte", value);
+  }
+
+  not(column: string, op: string, value: unknown) {
+    this.filters.push((row) => !matches(row[column], op, value));
+    return this;
+  }
+
+  /** PostgREST "col.op.value,col.op.value" */
+  or(expression: string) {
+    const conditions = expression.split(",").map((part) => {
+      const [column, op] = part.split(".", 2);
+      const value = part.slice(column.length + op.length + 2);
+      return (row: Row) => matches(row[column], op, value === "null" ? null : value);
+    });
+    this.filters.push((row) => conditions.some((c) => c(row)));
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean }) {
+    const direction = options?.ascending === false ? -1 : 1;
+    this.sorts.push((a, b) => direction * compare(a[column], b[column]));
+    return this;
+  }
+
+  limit(count: number) {
+    this.max = count;
+    return this;
+  }
+
+  async single(): Promise<Result> {
+    const { data, error } = await this.run();
+    const rows = (data as Row[] | null) ?? [];
+    if (error) return { data: null, error };
+    if (rows.length !== 1) return { data: null, error: { message: "Not one row", code: "PGRST116" } };
+    return { data: rows[0], error: null };
+  }
+
+  async maybeSingle(): Promise<Result> {
+    const { data, error } = await this.run();
+    const rows = (data as Row[] | null) ?? [];
+    if (error) return { data: null, error };
+    if (rows.length > 1) return { data: null, error: { message: "Multiple rows", code: "PGRST116" } };
+    return { data: rows[0] ?? null, error: null };
+  }
+
+  then<A = Result, B = never>(
+    onFulfilled?: ((value: Result) => A | PromiseLike<A>) | null,
+    onRejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): PromiseLike<A | B> {
+    return this.run().then(onFulfilled, onRejected);
+  }
+
+  private async run(): Promise<Result> {
+    const failure = this.failures.get(`${this.table}.${this.op}`);
+    if (failure) {
+      this.failures.delete(`${this.table}.${this.op}`);
+      return { data: null, error: { message: failure } };
+    }
+
+    const rows = (this.tables[this.table] ??= []);
+    const selected = rows.filter((row) => this.filters.every((f) => f(row)));
+
+    switch (this.op) {
+      case "select": {
+        const sorted = [...selected].sort((a, b) => {
+          for (const sort of this.sorts) {
+            const order = sort(a, b);
+            if (order !== 0) return order;
+          }
+          return 0;
+        });
+        const limited = this.max === null ? sorted : sorted.slice(0, this.max);
+        return {
+          data: this.head ? null : limited.map((row) => ({ ...row })),
+          error: null,
+          ...(this.counted && { count: selected.length }),
+        };
+      }
+      case "insert": {
+        for (const value of this.values) {
+          if (value.id !== undefined && rows.some((row) => row.id === value.id)) {
+            return { data: null, error: { message: "duplicate key value", code: "23505" } };
+          }
+        }
+        const inserted = this.values.map((value) => ({
+          id: crypto.randomUUID(),
+          ...this.defaults(),
+          ...value,
+        }));
+        rows.push(...inserted);
+        return { data: this.returning ? inserted.map((row) => ({ ...row })) : null, error: null };
+      }
+      case "update":
+        for (const row of selected) Object.assign(row, this.values[0]);
+        return { data: this.returning ? selected.map((row) => ({ ...row })) : null, error: null };
+      case "delete":
+        this.tables[this.table] = rows.filter((row) => !selected.includes(row));
+        return { data: this.returning ? selected : null, error: null };
+    }
+  }
+}
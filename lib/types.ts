@@ -25,7 +25,7 @@ export type ClaimState = "unclaimed" | "pending" | "claimed" | "rejected";
 export type VerificationState = "unverified" | "pending" | "verified";
 export type ProfileSource = "seeded" | "user_created";
 
-export type MembershipPlan = "free" | "pro";
+export type MembershipPlan = "free" | "basic" | "pro" | "enterprise";
 export type MembershipStatus =
   | "trialing"
   | "active"
@@ -37,6 +37,47 @@ export type BillingCycle = "monthly" | "annual";
 export type ConnectionType = "inquiry" | "save" | "application" | "invitation";
 export type ConnectionStatus = "pending" | "accepted" | "declined" | "archived";
 
+export type TeamRole = "owner" | "manager" | "responder" | "viewer";
+
+export type AppointmentType = "tour" | "consultation";
+export type AppointmentStatus = "requested" | "confirmed" | "canceled" | "completed";
+
+export type ReviewStatus = "published" | "hidden";
+export type ReviewReportReason =
+  | "spam"
+  | "offensive"
+  | "not_a_customer"
+  | "conflict_of_interest"
+  | "other";
+export type ReviewReportStatus = "open" | "dismissed" | "actioned";
+
+export type ForumContentStatus = "published" | "hidden";
+export type ForumReportReason =
+  | "offensive"
+  | "spam"
+  | "harassment"
+  | "misinformation"
+  | "other";
+export type ForumReportStatus = "open" | "dismissed" | "actioned";
+
+export type StripeEventStatus = "processing" | "processed" | "skipped" | "failed";
+
+export type ClaimCheckId = "business_email" | "phone_callback" | "license" | "document" | "account_email";
+export type ClaimCheckStatus = "pass" | "fail" | "pending" | "missing";
+
+export type RoomType = "studio" | "one_bedroom" | "two_bedroom" | "shared" | "companion" | "private";
+export type PaymentOption =
+  | "medicaid"
+  | "medicare"
+  | "va"
+  | "ltc_insurance"
+  | "private_insurance"
+  | "private_pay";
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+export type DuplicateReason = "phone" | "address" | "name_nearby";
+export type DuplicateClusterStatus = "open" | "merged" | "dismissed";
+
 // ============================================================
 // Table Row Types
 // ============================================================
@@ -48,22 +89,33 @@ export interface Account {
   display_name: string | null;
   avatar_url: string | null;
   onboarding_completed: boolean;
+  /** Providers queued for /compare (see lib/provider-compare.ts) */
+  compare_list: CompareItem[];
   created_at: string;
   updated_at: string;
 }
 
+/** A provider in the compare tray: enough to show it without a fetch. */
+export interface CompareItem {
+  slug: string;
+  name: string;
+  image: string | null;
+}
+
 // BusinessProfile - stored in "business_profiles" table
 // Note: iOS has a separate "profiles" table for user identity (like our "accounts")
 export interface BusinessProfile {
   id: string;
   account_id: string | null;
   source_provider_id: string | null; // Links to olera-providers.provider_id when claiming
+  organization_id: string | null; // Parent organization for multi-location providers
   slug: string;
   type: ProfileType;
   category: ProfileCategory | null;
   display_name: string;
   description: string | null;
   image_url: string | null;
+  logo_url: string | null;
   phone: string | null;
   email: string | null;
   website: string | null;
@@ -87,6 +139,19 @@ export interface BusinessProfile {
 // Alias for backwards compatibility
 export type Profile = BusinessProfile;
 
+/** Parent brand grouping an account's location profiles. */
+export interface Organization {
+  id: string;
+  account_id: string;
+  name: string;
+  /** Inherited by locations that leave their own blank */
+  description: string | null;
+  image_url: string | null;
+  website: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Membership {
   id: string;
   account_id: string;
@@ -94,11 +159,81 @@ export interface Membership {
   billing_cycle: BillingCycle | null;
   status: MembershipStatus;
   trial_ends_at: string | null;
+  trial_notice_sent_at: string | null;
   current_period_ends_at: string | null;
+  /** Subscription stays active until current_period_ends_at, then ends */
+  cancel_at_period_end: boolean;
   free_responses_used: number;
   free_responses_reset_at: string | null;
   stripe_customer_id: string | null;
   stripe_subscription_id: string | null;
+  stripe_event_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A teammate (or pending invite) on a provider profile. */
+/** One automated check on a claim's evidence (lib/claim-verification.ts). */
+export interface ClaimCheck {
+  id: ClaimCheckId;
+  label: string;
+  status: ClaimCheckStatus;
+  detail: string;
+  /** Points added to the score when the check passes */
+  weight: number;
+}
+
+export interface ClaimVerification {
+  id: string;
+  profile_id: string;
+  account_id: string;
+  business_email: string | null;
+  email_code_hash: string | null;
+  email_code_sent_at: string | null;
+  email_verified_at: string | null;
+  phone_code: string | null;
+  callback_requested_at: string | null;
+  phone_verified_at: string | null;
+  failed_code_attempts: number;
+  license_number: string | null;
+  /** The listing as it was when the claim started; evidence is checked against these */
+  listing_website: string | null;
+  listing_phone: string | null;
+  listing_license: string | null;
+  document_path: string | null;
+  document_name: string | null;
+  score: number;
+  checks: ClaimCheck[];
+  reject_reason: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProfileMember {
+  id: string;
+  profile_id: string;
+  /** Null until the invite is accepted */
+  account_id: string | null;
+  invited_email: string;
+  role: TeamRole;
+  invited_by: string | null;
+  accepted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** An uploaded gallery photo, in the public profile-photos bucket. */
+export interface ProfilePhoto {
+  id: string;
+  profile_id: string;
+  storage_path: string;
+  url: string;
+  thumbnail_url: string;
+  caption: string | null;
+  position: number;
+  uploaded_by: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -110,23 +245,256 @@ export interface Connection {
   type: ConnectionType;
   status: ConnectionStatus;
   message: string | null;
+  /** When the recipient first accepted or replied */
+  responded_at: string | null;
+  /** Account (owner or teammate) that accepted, declined or first replied */
+  responded_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ConnectionMessage - one entry in a connection's conversation thread.
+// The opening connections.message is copied in as the first entry.
+export interface ConnectionMessage {
+  id: string;
+  connection_id: string;
+  sender_profile_id: string;
+  recipient_profile_id: string;
+  body: string;
+  read_at: string | null;
+  created_at: string;
+}
+
+// AvailabilitySlot - a bookable window published by a provider
+export interface AvailabilitySlot {
+  id: string;
+  profile_id: string;
+  appointment_type: AppointmentType | "any";
+  starts_at: string;
+  ends_at: string;
+  timezone: string;
+  is_booked: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// Appointment - a tour or consultation between a family and a provider.
+// requested_by_profile_id is whoever proposed the current time; the
+// other party confirms.
+export interface Appointment {
+  id: string;
+  connection_id: string;
+  slot_id: string | null;
+  provider_profile_id: string;
+  family_profile_id: string;
+  appointment_type: AppointmentType;
+  status: AppointmentStatus;
+  starts_at: string;
+  ends_at: string;
+  timezone: string;
+  notes: string | null;
+  requested_by_profile_id: string;
+  canceled_by_profile_id: string | null;
+  sequence: number; // bumped on reschedule/status change, for iCalendar SEQUENCE
+  created_at: string;
+  updated_at: string;
+}
+
+// CalendarFeed - secret token for a profile's subscribable .ics feed
+export interface CalendarFeed {
+  id: string;
+  profile_id: string;
+  token: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Review - a family's rating of a provider they connected with.
+// provider_response is the provider's single public reply.
+export interface Review {
+  id: string;
+  provider_profile_id: string;
+  reviewer_profile_id: string;
+  connection_id: string;
+  rating: number;
+  body: string;
+  status: ReviewStatus;
+  provider_response: string | null;
+  provider_responded_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
+// ReviewReport - a flag raised against a review for admin moderation
+export interface ReviewReport {
+  id: string;
+  review_id: string;
+  reporter_user_id: string;
+  reason: ReviewReportReason;
+  details: string | null;
+  status: ReviewReportStatus;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+// ReviewStats - row of the provider_review_stats view
+export interface ReviewStats {
+  provider_profile_id: string;
+  review_count: number;
+  average_rating: number;
+}
+
+// ProviderQuestion - a question asked on a provider page, with the
+// provider's answer once given. Public reads use the
+// public_provider_questions view, which hides anonymous askers.
+export interface ProviderQuestion {
+  id: string;
+  provider_profile_id: string;
+  asker_profile_id: string;
+  is_anonymous: boolean;
+  question: string;
+  answer: string | null;
+  answered_at: string | null;
+  helpful_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// PublicProviderQuestion - row of the public_provider_questions view
+export interface PublicProviderQuestion {
+  id: string;
+  provider_profile_id: string;
+  asker_name: string | null; // null when asked anonymously
+  question: string;
+  answer: string | null;
+  answered_at: string | null;
+  helpful_count: number;
+  created_at: string;
+}
+
+// PublicForumPost - row of the public_forum_posts view. Author fields
+// are null when the post is anonymous; lib/forum.ts maps rows to the
+// ForumPost shape in types/forum.ts.
+export interface PublicForumPost {
+  id: string;
+  slug: string;
+  author_profile_id: string | null;
+  is_anonymous: boolean;
+  author_name: string | null;
+  author_image_url: string | null;
+  author_type: ProfileType | null;
+  author_joined_at: string | null;
+  author_post_count: number | null;
+  title: string;
+  content: string;
+  care_type: string;
+  tags: string[];
+  like_count: number;
+  comment_count: number;
+  view_count: number;
+  is_pinned: boolean;
+  is_locked: boolean;
+  created_at: string;
+  updated_at: string;
+  author_credential: string | null;
+  has_accepted_answer: boolean;
+}
+
+// PublicForumComment - row of the public_forum_comments view
+export interface PublicForumComment {
+  id: string;
+  post_id: string;
+  parent_id: string | null;
+  author_profile_id: string | null;
+  is_anonymous: boolean;
+  author_name: string | null;
+  author_image_url: string | null;
+  author_type: ProfileType | null;
+  author_joined_at: string | null;
+  author_post_count: number | null;
+  content: string;
+  like_count: number;
+  is_accepted_answer: boolean;
+  created_at: string;
+  updated_at: string;
+  author_credential: string | null;
+}
+
+// ForumReport - a user's flag on a forum post or comment (exactly one is set)
+export interface ForumReport {
+  id: string;
+  post_id: string | null;
+  comment_id: string | null;
+  reporter_user_id: string;
+  reason: ForumReportReason;
+  details: string | null;
+  status: ForumReportStatus;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+// ForumBan - an account barred from posting in the community
+export interface ForumBan {
+  account_id: string;
+  reason: string | null;
+  banned_by: string | null;
+  created_at: string;
+}
+
+// ForumExpert - a profile verified as a community expert
+export interface ForumExpert {
+  profile_id: string;
+  credential: string;
+  verified_by: string | null;
+  created_at: string;
+}
+
 // ============================================================
 // Metadata Types (JSONB per profile type)
 // ============================================================
 
+/** Monthly price for one room type, in dollars */
+export interface RoomPrice {
+  room_type: RoomType;
+  monthly_min: number;
+  monthly_max: number | null;
+}
+
+/** Hourly in-home care rates, in dollars */
+export interface HourlyPricing {
+  rate_min: number;
+  rate_max: number | null;
+  min_shift_hours: number | null;
+}
+
+/** Opening and closing time as "HH:MM" (24-hour) */
+export interface DayHours {
+  open: string;
+  close: string;
+}
+
 export interface OrganizationMetadata {
   license_number?: string;
   year_founded?: number;
   bed_count?: number;
   staff_count?: number;
+  /** Kept in sync with payment_options for older readers */
   accepts_medicaid?: boolean;
   accepts_medicare?: boolean;
+  /** AMENITY_OPTIONS ids (lib/provider-details.ts); older profiles may hold free text */
   amenities?: string[];
+  /** CARE_SERVICE_OPTIONS ids */
+  services?: string[];
+  payment_options?: PaymentOption[];
+  room_pricing?: RoomPrice[];
+  hourly_pricing?: HourlyPricing;
+  /** Days left out are closed */
+  weekly_hours?: Partial<Record<Weekday, DayHours>>;
+  /** Free text; derived from weekly_hours once those are set */
   hours?: string;
+  /** Free text; derived from room_pricing / hourly_pricing once those are set */
   price_range?: string;
 }
 
@@ -167,6 +535,8 @@ export interface AuthState {
   account: Account | null;
   activeProfile: Profile | null;
   profiles: Profile[];
+  /** Roles on profiles shared by other accounts, by profile id */
+  teamRoles: Record<string, TeamRole>;
   membership: Membership | null;
   isLoading: boolean;
 }
@@ -198,3 +568,35 @@ export interface AuditLogEntry {
   // Joined fields
   admin_email?: string;
 }
+
+// StripeEvent - ledger row for a Stripe webhook event
+export interface StripeEvent {
+  id: string;
+  type: string;
+  stripe_created_at: string;
+  customer_id: string | null;
+  payload: Record<string, unknown>;
+  status: StripeEventStatus;
+  attempts: number;
+  error: string | null;
+  skip_reason: string | null;
+  received_at: string;
+  last_attempt_at: string;
+  processed_at: string | null;
+}
+
+// DuplicateCluster - candidate duplicate providers. Members are record
+// keys: "listing:<provider_id>" or "profile:<business_profiles.id>"
+export interface DuplicateCluster {
+  id: string;
+  cluster_key: string;
+  members: string[];
+  reasons: DuplicateReason[];
+  status: DuplicateClusterStatus;
+  survivor: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  detected_at: string;
+  created_at: string;
+  updated_at: string;
+}
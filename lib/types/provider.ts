@@ -7,6 +7,8 @@
  * Table: olera-providers (39,355+ records)
  */
 
+import { toPaymentLabels } from "@/lib/provider-details";
+
 export interface Provider {
   provider_id: string;
   provider_name: string;
@@ -32,6 +34,7 @@ export interface Provider {
   lower_price: number | null;
   upper_price: number | null;
   contact_for_price: string | null; // "True" or "False"
+  payment_options: string[] | null; // PAYMENT_OPTIONS ids, e.g. ["medicaid", "va"]
   deleted: boolean;
   deleted_at: string | null;
 }
@@ -123,6 +126,7 @@ export interface ProviderCardData {
   acceptedPayments: string[];
   verified: boolean;
   description?: string;
+  distanceMiles?: number;
 }
 
 /**
@@ -147,7 +151,7 @@ export function toCardFormat(provider: Provider): ProviderCardData {
     highlights: [
       provider.main_category || provider.provider_category,
     ].filter(Boolean) as string[],
-    acceptedPayments: [],
+    acceptedPayments: toPaymentLabels(provider.payment_options),
     verified: false,
     description: provider.provider_description?.slice(0, 100) || undefined,
   };
@@ -231,6 +231,52 @@ class USCitySearchService {
     return this.searchByName(trimmed, limit);
   }
 
+  /**
+   * Resolve typed text ("Austin, TX", "Austin", "78701") to one city with
+   * coordinates, for radius search. Tries the loaded tier first and only
+   * pulls the full city list (and ZIP index) when needed.
+   * Returns null for states, unknown places, or matches without coordinates.
+   */
+  async resolve(query: string): Promise<CitySearchResult | null> {
+    const trimmed = query.trim();
+    if (!trimmed || /^[A-Z]{2}$/i.test(trimmed)) return null;
+
+    await this.preloadTier1();
+
+    let cityState: [string, string] | null = null;
+    if (/^\d{3,5}$/.test(trimmed)) {
+      await this.preloadZips();
+      const [match] = this.searchByZip(trimmed, 1);
+      if (!match) return null;
+      cityState = [match.city, match.state];
+    } else {
+      const parts = trimmed.match(/^(.+),\s*([A-Z]{2})$/i);
+      if (parts) cityState = [parts[1].trim(), parts[2].toUpperCase()];
+    }
+
+    const lookup = () => {
+      if (cityState) return this.findCity(cityState[0], cityState[1]);
+      // Bare city name: most populous match
+      const [best] = this.search(trimmed, 1);
+      return best?.lat !== undefined ? best : null;
+    };
+
+    const found = lookup();
+    if (found || this.tier2Loaded) return found;
+
+    await this.preloadTier2();
+    return lookup();
+  }
+
+  private findCity(city: string, stateCode: string): CitySearchResult | null {
+    const cities = this.tier2Loaded ? this.tier2Cities : this.tier1Cities;
+    const lowerCity = city.toLowerCase();
+    const match = cities.find(
+      ([name, state]) => state === stateCode && name.toLowerCase() === lowerCity
+    );
+    return match ? this.toResult(match) : null;
+  }
+
   private searchByZip(query: string, limit: number): CitySearchResult[] {
     // Use at least 3 digits for prefix lookup
     const prefix = query.substring(0, 3);
@@ -323,3 +369,7 @@ export function preloadFullCityData(): Promise<void> {
 export function preloadZipData(): Promise<void> {
   return citySearchService.preloadZips();
 }
+
+export function resolveLocation(query: string): Promise<CitySearchResult | null> {
+  return citySearchService.resolve(query);
+}
@@ -0,0 +1,2 @@
+/** Matches a Postgres uuid, for rejecting bad ids before they reach a query. */
+export const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
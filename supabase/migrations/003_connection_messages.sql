@@ -0,0 +1,80 @@
+-- ============================================================
+-- Connection Messages
+-- Threaded conversation per connection, replacing the single
+-- connections.message note. connections.message is kept as the
+-- opening message and copied into the thread on insert.
+-- ============================================================
+
+CREATE TABLE connection_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id UUID NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+  sender_profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  recipient_profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 5000),
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX idx_connection_messages_connection ON connection_messages(connection_id, created_at);
+CREATE INDEX idx_connection_messages_unread ON connection_messages(recipient_profile_id) WHERE read_at IS NULL;
+
+COMMENT ON TABLE connection_messages IS 'Messages exchanged inside a connection. recipient_profile_id is denormalized for cheap unread counts.';
+
+-- RLS
+ALTER TABLE connection_messages ENABLE ROW LEVEL SECURITY;
+
+-- Participants of the connection can read the thread
+CREATE POLICY "Users can view messages in own connections" ON connection_messages
+  FOR SELECT USING (
+    sender_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+    OR
+    recipient_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+  );
+
+-- Users can send from their own profile, to the other participant of the connection
+CREATE POLICY "Users can send messages from own profiles" ON connection_messages
+  FOR INSERT WITH CHECK (
+    sender_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+    AND EXISTS (
+      SELECT 1 FROM connections c
+      WHERE c.id = connection_id
+      AND (
+        (c.from_profile_id = sender_profile_id AND c.to_profile_id = recipient_profile_id)
+        OR
+        (c.to_profile_id = sender_profile_id AND c.from_profile_id = recipient_profile_id)
+      )
+    )
+  );
+
+-- Recipients can mark messages as read
+CREATE POLICY "Recipients can mark messages read" ON connection_messages
+  FOR UPDATE USING (
+    recipient_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+  );
+
+-- Recipients may only touch read_at
+REVOKE UPDATE ON connection_messages FROM authenticated;
+GRANT UPDATE (read_at) ON connection_messages TO authenticated;
+
+-- Copy the opening note of new connections into the thread
+CREATE OR REPLACE FUNCTION copy_connection_message()
+RETURNS TRIGGER AS $func$
+BEGIN
+  IF NEW.message IS NOT NULL AND btrim(NEW.message) <> '' AND NEW.type <> 'save' THEN
+    INSERT INTO connection_messages (connection_id, sender_profile_id, recipient_profile_id, body, created_at)
+    VALUES (NEW.id, NEW.from_profile_id, NEW.to_profile_id, left(NEW.message, 5000), NEW.created_at);
+  END IF;
+  RETURN NEW;
+END;
+$func$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER connections_copy_message
+  AFTER INSERT ON connections
+  FOR EACH ROW EXECUTE FUNCTION copy_connection_message();
+
+-- Backfill existing notes
+INSERT INTO connection_messages (connection_id, sender_profile_id, recipient_profile_id, body, created_at, read_at)
+SELECT id, from_profile_id, to_profile_id, left(message, 5000), created_at, CASE WHEN status = 'pending' THEN NULL ELSE updated_at END
+FROM connections
+WHERE message IS NOT NULL AND btrim(message) <> '' AND type <> 'save';
@@ -0,0 +1,147 @@
+-- ============================================================
+-- Appointments & Availability
+-- Providers publish bookable availability slots; families request
+-- a tour or consultation in one of them. Appointments hang off the
+-- connection between the two profiles.
+-- ============================================================
+
+-- availability_slots: bookable windows published by a provider
+CREATE TABLE availability_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  appointment_type TEXT NOT NULL DEFAULT 'any' CHECK (appointment_type IN ('tour', 'consultation', 'any')),
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC', -- IANA zone the provider published in
+  is_booked BOOLEAN NOT NULL DEFAULT FALSE, -- maintained by trigger below
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+-- appointments: a requested or booked meeting between two profiles
+CREATE TABLE appointments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  connection_id UUID NOT NULL REFERENCES connections(id) ON DELETE CASCADE,
+  slot_id UUID REFERENCES availability_slots(id) ON DELETE SET NULL,
+  provider_profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  family_profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  appointment_type TEXT NOT NULL CHECK (appointment_type IN ('tour', 'consultation')),
+  status TEXT NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'confirmed', 'canceled', 'completed')),
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  notes TEXT,
+  requested_by_profile_id UUID NOT NULL REFERENCES business_profiles(id), -- who proposed the current time
+  canceled_by_profile_id UUID REFERENCES business_profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+-- Indexes
+CREATE INDEX idx_availability_slots_profile ON availability_slots(profile_id, starts_at);
+CREATE INDEX idx_appointments_provider ON appointments(provider_profile_id, starts_at);
+CREATE INDEX idx_appointments_family ON appointments(family_profile_id, starts_at);
+CREATE INDEX idx_appointments_connection ON appointments(connection_id);
+
+-- A slot can hold at most one live appointment
+CREATE UNIQUE INDEX idx_appointments_active_slot ON appointments(slot_id)
+  WHERE slot_id IS NOT NULL AND status IN ('requested', 'confirmed');
+
+COMMENT ON TABLE availability_slots IS 'Bookable tour/consultation windows published by providers.';
+COMMENT ON TABLE appointments IS 'Tours and consultations between a family and a provider, scoped to their connection.';
+
+-- RLS
+ALTER TABLE availability_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+
+-- AVAILABILITY_SLOTS: public read so families can pick a time, owners manage their own
+CREATE POLICY "Anyone can view availability" ON availability_slots
+  FOR SELECT USING (TRUE);
+
+CREATE POLICY "Users can manage own availability" ON availability_slots
+  FOR ALL USING (
+    profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+  );
+
+-- APPOINTMENTS: same participant rules as connections
+CREATE POLICY "Users can view own appointments" ON appointments
+  FOR SELECT USING (
+    provider_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+    OR
+    family_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+  );
+
+-- New requests only, on the participants' connection, and in one of
+-- the provider's own slots (same times) when a slot is given
+CREATE POLICY "Users can request appointments on own connections" ON appointments
+  FOR INSERT WITH CHECK (
+    requested_by_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+    AND requested_by_profile_id IN (provider_profile_id, family_profile_id)
+    AND status = 'requested'
+    AND canceled_by_profile_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM connections c
+      WHERE c.id = connection_id
+      AND (
+        (c.from_profile_id = family_profile_id AND c.to_profile_id = provider_profile_id)
+        OR
+        (c.from_profile_id = provider_profile_id AND c.to_profile_id = family_profile_id)
+      )
+    )
+    AND (
+      slot_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM availability_slots s
+        WHERE s.id = slot_id
+        AND s.profile_id = provider_profile_id
+        AND s.starts_at = appointments.starts_at
+        AND s.ends_at = appointments.ends_at
+        AND s.appointment_type IN ('any', appointments.appointment_type)
+      )
+    )
+  );
+
+-- Confirm, reschedule and cancel go through /api/appointments/[id],
+-- which checks which participant may do what
+
+-- Keep availability_slots.is_booked in sync with live appointments.
+-- SECURITY DEFINER so families can flag a provider's slot as booked.
+CREATE OR REPLACE FUNCTION sync_slot_booking()
+RETURNS TRIGGER AS $func$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.slot_id IS NOT NULL THEN
+    UPDATE availability_slots
+    SET is_booked = EXISTS (
+      SELECT 1 FROM appointments
+      WHERE slot_id = OLD.slot_id AND status IN ('requested', 'confirmed')
+    )
+    WHERE id = OLD.slot_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.slot_id IS NOT NULL THEN
+    UPDATE availability_slots
+    SET is_booked = EXISTS (
+      SELECT 1 FROM appointments
+      WHERE slot_id = NEW.slot_id AND status IN ('requested', 'confirmed')
+    )
+    WHERE id = NEW.slot_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$func$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER appointments_sync_slot_booking
+  AFTER INSERT OR UPDATE OR DELETE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION sync_slot_booking();
+
+-- updated_at triggers (function from 001_provider_portal_tables.sql)
+CREATE TRIGGER update_availability_slots_updated_at
+  BEFORE UPDATE ON availability_slots
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_appointments_updated_at
+  BEFORE UPDATE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
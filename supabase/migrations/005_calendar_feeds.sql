@@ -0,0 +1,50 @@
+-- ============================================================
+-- Calendar Feeds
+-- Secret-token iCalendar subscription per profile, plus a
+-- SEQUENCE counter on appointments so calendar clients pick up
+-- reschedules and cancellations (RFC 5545 §3.8.7.4).
+-- ============================================================
+
+-- calendar_feeds: one secret token per profile
+CREATE TABLE calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID UNIQUE NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  token TEXT UNIQUE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE calendar_feeds IS 'Secret tokens for /api/calendar/[token].ics. Anyone holding the token can read the feed, so it is never exposed publicly.';
+
+-- RLS: owners only. The feed route itself reads with the service role.
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own calendar feeds" ON calendar_feeds
+  FOR ALL USING (
+    profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+  );
+
+CREATE TRIGGER update_calendar_feeds_updated_at
+  BEFORE UPDATE ON calendar_feeds
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- appointments.sequence: bumped whenever the time or status changes
+ALTER TABLE appointments ADD COLUMN sequence INTEGER NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION bump_appointment_sequence()
+RETURNS TRIGGER AS $func$
+BEGIN
+  IF NEW.starts_at IS DISTINCT FROM OLD.starts_at
+    OR NEW.ends_at IS DISTINCT FROM OLD.ends_at
+    OR NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.sequence = OLD.sequence + 1;
+  ELSE
+    NEW.sequence = OLD.sequence;
+  END IF;
+  RETURN NEW;
+END;
+$func$ LANGUAGE plpgsql;
+
+CREATE TRIGGER appointments_bump_sequence
+  BEFORE UPDATE ON appointments
+  FOR EACH ROW EXECUTE FUNCTION bump_appointment_sequence();
@@ -0,0 +1,117 @@
+-- ============================================================
+-- Provider Search
+-- Server-side filtering, sorting, keyset pagination and facet
+-- counts over olera-providers, used by /api/search/providers.
+-- PostgREST can't sort by computed expressions or GROUP BY, so
+-- both live here as SQL functions.
+-- ============================================================
+
+-- Shared WHERE clause for search and facets, so facet counts
+-- always agree with the result set. Callers escape LIKE wildcards.
+CREATE OR REPLACE FUNCTION filter_providers(
+  p_category TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL
+)
+RETURNS SETOF "olera-providers"
+LANGUAGE sql STABLE AS $func$
+  SELECT p.*
+  FROM "olera-providers" p
+  WHERE p.deleted = FALSE
+    AND (p_category IS NULL OR p.provider_category ILIKE '%' || p_category || '%')
+    AND (p_city IS NULL OR p.city ILIKE '%' || p_city || '%')
+    AND (p_state IS NULL OR p.state = p_state)
+    AND (p_query IS NULL
+      OR p.city ILIKE '%' || p_query || '%'
+      OR p.provider_name ILIKE '%' || p_query || '%')
+    AND (p_min_rating IS NULL OR p.google_rating >= p_min_rating);
+$func$;
+
+-- One page of provider IDs in sort order.
+-- Every sort is reduced to an ascending sort_key (missing values last)
+-- with provider_id as tiebreaker, so the cursor is (sort_key, provider_id).
+CREATE OR REPLACE FUNCTION search_providers(
+  p_category TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_sort TEXT DEFAULT 'recommended',
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lon DOUBLE PRECISION DEFAULT NULL,
+  p_after_key DOUBLE PRECISION DEFAULT NULL,
+  p_after_id TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+  provider_id TEXT,
+  sort_key DOUBLE PRECISION,
+  distance_miles DOUBLE PRECISION,
+  total_count BIGINT
+)
+LANGUAGE sql STABLE AS $func$
+  WITH filtered AS (
+    SELECT
+      f.provider_id::TEXT AS provider_id,
+      f.google_rating,
+      f.lower_price,
+      f.upper_price,
+      CASE
+        WHEN p_lat IS NOT NULL AND p_lon IS NOT NULL AND f.lat IS NOT NULL AND f.lon IS NOT NULL
+        THEN 3958.8 * 2 * asin(sqrt(
+          power(sin(radians(f.lat - p_lat) / 2), 2) +
+          cos(radians(p_lat)) * cos(radians(f.lat)) * power(sin(radians(f.lon - p_lon) / 2), 2)
+        ))
+      END AS distance_miles
+    FROM filter_providers(p_category, p_city, p_state, p_query, p_min_rating) f
+  ),
+  keyed AS (
+    SELECT
+      filtered.provider_id,
+      filtered.distance_miles,
+      (CASE p_sort
+        WHEN 'price-low' THEN COALESCE(filtered.lower_price, filtered.upper_price, 1e12)
+        WHEN 'price-high' THEN -COALESCE(filtered.upper_price, filtered.lower_price, -1e12)
+        WHEN 'distance' THEN COALESCE(filtered.distance_miles, 1e12)
+        ELSE -COALESCE(filtered.google_rating, -1e12)
+      END)::DOUBLE PRECISION AS sort_key
+    FROM filtered
+  )
+  SELECT
+    k.provider_id,
+    k.sort_key,
+    k.distance_miles,
+    (SELECT count(*) FROM keyed) AS total_count
+  FROM keyed k
+  WHERE p_after_id IS NULL OR (k.sort_key, k.provider_id) > (p_after_key, p_after_id)
+  ORDER BY k.sort_key, k.provider_id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$func$;
+
+-- Facet counts by category and state. Each facet ignores its own
+-- filter so the other options keep meaningful counts.
+CREATE OR REPLACE FUNCTION search_provider_facets(
+  p_category TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (facet TEXT, value TEXT, count BIGINT)
+LANGUAGE sql STABLE AS $func$
+  SELECT 'category'::TEXT, f.provider_category::TEXT, count(*)
+  FROM filter_providers(NULL, p_city, p_state, p_query, p_min_rating) f
+  WHERE f.provider_category IS NOT NULL
+  GROUP BY f.provider_category
+  UNION ALL
+  SELECT 'state'::TEXT, f.state::TEXT, count(*)
+  FROM filter_providers(p_category, NULL, NULL, p_query, p_min_rating) f
+  WHERE f.state IS NOT NULL
+  GROUP BY f.state;
+$func$;
+
+-- Indexes for the common filters
+CREATE INDEX IF NOT EXISTS idx_olera_providers_state ON "olera-providers"(state) WHERE deleted = FALSE;
+CREATE INDEX IF NOT EXISTS idx_olera_providers_rating ON "olera-providers"(google_rating DESC) WHERE deleted = FALSE;
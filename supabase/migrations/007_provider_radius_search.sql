@@ -0,0 +1,142 @@
+-- ============================================================
+-- Provider Radius Search
+-- Adds "within N miles" filtering to the provider search
+-- functions from 006. The filter moves into filter_providers so
+-- facet counts respect the radius too.
+-- ============================================================
+
+DROP FUNCTION IF EXISTS search_provider_facets(TEXT, TEXT, TEXT, TEXT, NUMERIC);
+DROP FUNCTION IF EXISTS search_providers(TEXT, TEXT, TEXT, TEXT, NUMERIC, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER);
+DROP FUNCTION IF EXISTS filter_providers(TEXT, TEXT, TEXT, TEXT, NUMERIC);
+
+-- Great-circle distance in miles (haversine)
+CREATE OR REPLACE FUNCTION distance_miles(
+  lat1 DOUBLE PRECISION,
+  lon1 DOUBLE PRECISION,
+  lat2 DOUBLE PRECISION,
+  lon2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql IMMUTABLE AS $func$
+  SELECT 3958.8 * 2 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lon2 - lon1) / 2), 2)
+  ));
+$func$;
+
+CREATE OR REPLACE FUNCTION filter_providers(
+  p_category TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lon DOUBLE PRECISION DEFAULT NULL,
+  p_radius_miles DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS SETOF "olera-providers"
+LANGUAGE sql STABLE AS $func$
+  SELECT p.*
+  FROM "olera-providers" p
+  WHERE p.deleted = FALSE
+    AND (p_category IS NULL OR p.provider_category ILIKE '%' || p_category || '%')
+    AND (p_city IS NULL OR p.city ILIKE '%' || p_city || '%')
+    AND (p_state IS NULL OR p.state = p_state)
+    AND (p_query IS NULL
+      OR p.city ILIKE '%' || p_query || '%'
+      OR p.provider_name ILIKE '%' || p_query || '%')
+    AND (p_min_rating IS NULL OR p.google_rating >= p_min_rating)
+    AND (p_radius_miles IS NULL OR p_lat IS NULL OR p_lon IS NULL OR (
+      -- Bounding box first so the index can narrow rows before haversine
+      p.lat BETWEEN p_lat - p_radius_miles / 69.0 AND p_lat + p_radius_miles / 69.0
+      AND p.lon BETWEEN p_lon - p_radius_miles / (69.0 * GREATEST(cos(radians(p_lat)), 0.01))
+                    AND p_lon + p_radius_miles / (69.0 * GREATEST(cos(radians(p_lat)), 0.01))
+      AND distance_miles(p_lat, p_lon, p.lat, p.lon) <= p_radius_miles
+    ));
+$func$;
+
+CREATE OR REPLACE FUNCTION search_providers(
+  p_category TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_sort TEXT DEFAULT 'recommended',
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lon DOUBLE PRECISION DEFAULT NULL,
+  p_radius_miles DOUBLE PRECISION DEFAULT NULL,
+  p_after_key DOUBLE PRECISION DEFAULT NULL,
+  p_after_id TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+  provider_id TEXT,
+  sort_key DOUBLE PRECISION,
+  distance_miles DOUBLE PRECISION,
+  total_count BIGINT
+)
+LANGUAGE sql STABLE AS $func$
+  WITH filtered AS (
+    SELECT
+      f.provider_id::TEXT AS provider_id,
+      f.google_rating,
+      f.lower_price,
+      f.upper_price,
+      CASE
+        WHEN p_lat IS NOT NULL AND p_lon IS NOT NULL AND f.lat IS NOT NULL AND f.lon IS NOT NULL
+        THEN distance_miles(p_lat, p_lon, f.lat, f.lon)
+      END AS distance_miles
+    FROM filter_providers(
+      p_category, p_city, p_state, p_query, p_min_rating, p_lat, p_lon, p_radius_miles
+    ) f
+  ),
+  keyed AS (
+    SELECT
+      filtered.provider_id,
+      filtered.distance_miles,
+      (CASE p_sort
+        WHEN 'price-low' THEN COALESCE(filtered.lower_price, filtered.upper_price, 1e12)
+        WHEN 'price-high' THEN -COALESCE(filtered.upper_price, filtered.lower_price, -1e12)
+        WHEN 'distance' THEN COALESCE(filtered.distance_miles, 1e12)
+        ELSE -COALESCE(filtered.google_rating, -1e12)
+      END)::DOUBLE PRECISION AS sort_key
+    FROM filtered
+  )
+  SELECT
+    k.provider_id,
+    k.sort_key,
+    k.distance_miles,
+    (SELECT count(*) FROM keyed) AS total_count
+  FROM keyed k
+  WHERE p_after_id IS NULL OR (k.sort_key, k.provider_id) > (p_after_key, p_after_id)
+  ORDER BY k.sort_key, k.provider_id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$func$;
+
+-- The state facet still ignores the radius: a radius search is
+-- already scoped to one area, and counts per state are only
+-- useful when browsing by text location.
+CREATE OR REPLACE FUNCTION search_provider_facets(
+  p_category TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lon DOUBLE PRECISION DEFAULT NULL,
+  p_radius_miles DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (facet TEXT, value TEXT, count BIGINT)
+LANGUAGE sql STABLE AS $func$
+  SELECT 'category'::TEXT, f.provider_category::TEXT, count(*)
+  FROM filter_providers(NULL, p_city, p_state, p_query, p_min_rating, p_lat, p_lon, p_radius_miles) f
+  WHERE f.provider_category IS NOT NULL
+  GROUP BY f.provider_category
+  UNION ALL
+  SELECT 'state'::TEXT, f.state::TEXT, count(*)
+  FROM filter_providers(p_category, NULL, NULL, p_query, p_min_rating) f
+  WHERE f.state IS NOT NULL
+  GROUP BY f.state;
+$func$;
+
+CREATE INDEX IF NOT EXISTS idx_olera_providers_lat_lon ON "olera-providers"(lat, lon) WHERE deleted = FALSE;
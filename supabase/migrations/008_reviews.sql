@@ -0,0 +1,109 @@
+-- ============================================================
+-- Reviews
+-- Families rate and review providers they have connected with.
+-- Each review can carry one public response from the provider,
+-- and anyone signed in can report a review for admin moderation.
+-- ============================================================
+
+CREATE TABLE reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  reviewer_profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  connection_id UUID NOT NULL REFERENCES connections(id) ON DELETE CASCADE, -- proof the family actually reached out
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 5000),
+  status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('published', 'hidden')),
+  provider_response TEXT CHECK (char_length(provider_response) BETWEEN 1 AND 5000),
+  provider_responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (provider_profile_id, reviewer_profile_id)
+);
+
+-- review_reports: flags raised against a review, worked in /admin/reviews
+CREATE TABLE review_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  reporter_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'offensive', 'not_a_customer', 'conflict_of_interest', 'other')),
+  details TEXT CHECK (char_length(details) <= 2000),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  resolved_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (review_id, reporter_user_id)
+);
+
+-- Indexes
+CREATE INDEX idx_reviews_provider ON reviews(provider_profile_id, created_at DESC) WHERE status = 'published';
+CREATE INDEX idx_reviews_reviewer ON reviews(reviewer_profile_id);
+CREATE INDEX idx_review_reports_open ON review_reports(review_id) WHERE status = 'open';
+
+COMMENT ON TABLE reviews IS 'Family reviews of providers. Only families with a connection to the provider can post; one review per family per provider.';
+COMMENT ON TABLE review_reports IS 'User reports against reviews, resolved by admins.';
+
+-- Star aggregation for provider pages and cards (published reviews only)
+CREATE VIEW provider_review_stats AS
+SELECT
+  provider_profile_id,
+  count(*)::INTEGER AS review_count,
+  round(avg(rating)::NUMERIC, 1)::DOUBLE PRECISION AS average_rating
+FROM reviews
+WHERE status = 'published'
+GROUP BY provider_profile_id;
+
+-- RLS
+ALTER TABLE reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE review_reports ENABLE ROW LEVEL SECURITY;
+
+-- REVIEWS: published reviews are public; reviewers and the reviewed provider also see hidden ones
+CREATE POLICY "Anyone can view published reviews" ON reviews
+  FOR SELECT USING (status = 'published');
+
+CREATE POLICY "Participants can view own reviews" ON reviews
+  FOR SELECT USING (
+    reviewer_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+    OR
+    provider_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+  );
+
+-- Families can review a provider they have an inquiry, request or match with.
+-- Saves don't count: bookmarking a provider isn't contact.
+CREATE POLICY "Families can review connected providers" ON reviews
+  FOR INSERT WITH CHECK (
+    reviewer_profile_id IN (
+      SELECT id FROM business_profiles
+      WHERE type = 'family'
+      AND account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid())
+    )
+    AND status = 'published'
+    AND provider_response IS NULL
+    AND provider_responded_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM connections c
+      WHERE c.id = connection_id
+      AND c.type <> 'save'
+      AND (
+        (c.from_profile_id = reviewer_profile_id AND c.to_profile_id = provider_profile_id)
+        OR
+        (c.to_profile_id = reviewer_profile_id AND c.from_profile_id = provider_profile_id)
+      )
+    )
+  );
+
+-- No UPDATE policy: provider responses and moderation go through
+-- /api/reviews and /api/admin/reviews with the service role.
+
+-- REVIEW_REPORTS: signed-in users file reports and can see their own
+CREATE POLICY "Users can report reviews" ON review_reports
+  FOR INSERT WITH CHECK (
+    reporter_user_id = auth.uid()
+    AND status = 'open'
+  );
+
+CREATE POLICY "Users can view own reports" ON review_reports
+  FOR SELECT USING (reporter_user_id = auth.uid());
+
+CREATE TRIGGER update_reviews_updated_at
+  BEFORE UPDATE ON reviews
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,110 @@
+-- ============================================================
+-- Provider Q&A
+-- Families ask questions on provider pages (optionally anonymously),
+-- the provider answers from the portal, and signed-in users mark
+-- answers as helpful.
+-- ============================================================
+
+CREATE TABLE provider_questions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider_profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  asker_profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  is_anonymous BOOLEAN NOT NULL DEFAULT FALSE,
+  question TEXT NOT NULL CHECK (char_length(question) BETWEEN 1 AND 1000),
+  answer TEXT CHECK (char_length(answer) BETWEEN 1 AND 5000),
+  answered_at TIMESTAMPTZ,
+  helpful_count INTEGER NOT NULL DEFAULT 0, -- maintained by trigger below
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- provider_answer_votes: one "helpful" vote per user per answer
+CREATE TABLE provider_answer_votes (
+  question_id UUID NOT NULL REFERENCES provider_questions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (question_id, user_id)
+);
+
+-- Indexes
+CREATE INDEX idx_provider_questions_provider ON provider_questions(provider_profile_id, created_at DESC);
+CREATE INDEX idx_provider_questions_unanswered ON provider_questions(provider_profile_id) WHERE answer IS NULL;
+CREATE INDEX idx_provider_answer_votes_user ON provider_answer_votes(user_id);
+
+COMMENT ON TABLE provider_questions IS 'Questions asked on provider pages, each with at most one answer from the provider.';
+COMMENT ON TABLE provider_answer_votes IS 'Helpful votes on provider answers. provider_questions.helpful_count is the cached total.';
+
+-- Public read goes through this view so anonymous askers can't be
+-- traced back to their profile. Neither asker_profile_id nor the
+-- name of an anonymous asker is exposed.
+CREATE VIEW public_provider_questions AS
+SELECT
+  q.id,
+  q.provider_profile_id,
+  CASE WHEN q.is_anonymous THEN NULL ELSE bp.display_name END AS asker_name,
+  q.question,
+  q.answer,
+  q.answered_at,
+  q.helpful_count,
+  q.created_at
+FROM provider_questions q
+LEFT JOIN business_profiles bp ON bp.id = q.asker_profile_id;
+
+-- RLS
+ALTER TABLE provider_questions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE provider_answer_votes ENABLE ROW LEVEL SECURITY;
+
+-- PROVIDER_QUESTIONS: askers and the provider see the raw rows
+CREATE POLICY "Participants can view own questions" ON provider_questions
+  FOR SELECT USING (
+    asker_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+    OR
+    provider_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+  );
+
+CREATE POLICY "Users can ask from own profiles" ON provider_questions
+  FOR INSERT WITH CHECK (
+    asker_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+    AND asker_profile_id <> provider_profile_id
+    AND answer IS NULL
+    AND answered_at IS NULL
+    AND helpful_count = 0
+  );
+
+-- No UPDATE policy: answers are written by /api/questions with the service role.
+
+-- PROVIDER_ANSWER_VOTES: users manage their own votes on answered questions
+CREATE POLICY "Users can view own votes" ON provider_answer_votes
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can vote on answers" ON provider_answer_votes
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    -- Checked against the view: voters usually can't see the raw question row
+    AND EXISTS (SELECT 1 FROM public_provider_questions q WHERE q.id = question_id AND q.answer IS NOT NULL)
+  );
+
+CREATE POLICY "Users can remove own votes" ON provider_answer_votes
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Keep provider_questions.helpful_count in sync with votes.
+-- SECURITY DEFINER so voters can bump a question they can't update.
+CREATE OR REPLACE FUNCTION sync_answer_helpful_count()
+RETURNS TRIGGER AS $func$
+DECLARE
+  target UUID := COALESCE(NEW.question_id, OLD.question_id);
+BEGIN
+  UPDATE provider_questions
+  SET helpful_count = (SELECT count(*) FROM provider_answer_votes WHERE question_id = target)
+  WHERE id = target;
+  RETURN NULL;
+END;
+$func$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_answer_helpful_count
+  AFTER INSERT OR DELETE ON provider_answer_votes
+  FOR EACH ROW EXECUTE FUNCTION sync_answer_helpful_count();
+
+CREATE TRIGGER update_provider_questions_updated_at
+  BEFORE UPDATE ON provider_questions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,248 @@
+-- ============================================================
+-- Community Forum
+-- Discussions, one level of nested replies, likes and view counts
+-- for /community. Posts and comments can be anonymous; public reads
+-- go through views that hide the author of anonymous content.
+-- ============================================================
+
+CREATE TABLE forum_posts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT UNIQUE NOT NULL,
+  author_profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  is_anonymous BOOLEAN NOT NULL DEFAULT FALSE,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 200),
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 10000),
+  care_type TEXT NOT NULL CHECK (care_type IN (
+    'home-health', 'home-care', 'assisted-living',
+    'memory-care', 'nursing-homes', 'independent-living'
+  )),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  like_count INTEGER NOT NULL DEFAULT 0,    -- maintained by trigger below
+  comment_count INTEGER NOT NULL DEFAULT 0, -- maintained by trigger below
+  view_count INTEGER NOT NULL DEFAULT 0,    -- bumped by increment_forum_post_view()
+  is_pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  is_locked BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE forum_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL REFERENCES forum_posts(id) ON DELETE CASCADE,
+  parent_id UUID,
+  author_profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  is_anonymous BOOLEAN NOT NULL DEFAULT FALSE,
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 5000),
+  like_count INTEGER NOT NULL DEFAULT 0, -- maintained by trigger below
+  is_accepted_answer BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (id, post_id),
+  -- A reply must belong to the same post as its parent
+  FOREIGN KEY (parent_id, post_id) REFERENCES forum_comments(id, post_id) ON DELETE CASCADE
+);
+
+-- One like per user per post / comment
+CREATE TABLE forum_post_likes (
+  post_id UUID NOT NULL REFERENCES forum_posts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (post_id, user_id)
+);
+
+CREATE TABLE forum_comment_likes (
+  comment_id UUID NOT NULL REFERENCES forum_comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (comment_id, user_id)
+);
+
+-- Indexes
+CREATE INDEX idx_forum_posts_feed ON forum_posts(is_pinned DESC, created_at DESC);
+CREATE INDEX idx_forum_posts_care_type ON forum_posts(care_type, created_at DESC);
+CREATE INDEX idx_forum_posts_author ON forum_posts(author_profile_id);
+CREATE INDEX idx_forum_comments_post ON forum_comments(post_id, created_at);
+CREATE INDEX idx_forum_comments_author ON forum_comments(author_profile_id);
+CREATE INDEX idx_forum_post_likes_user ON forum_post_likes(user_id);
+CREATE INDEX idx_forum_comment_likes_user ON forum_comment_likes(user_id);
+
+COMMENT ON TABLE forum_posts IS 'Community discussions. like_count, comment_count and view_count are cached totals.';
+COMMENT ON TABLE forum_comments IS 'Responses to forum posts. parent_id is set for replies to another comment on the same post.';
+
+-- Public read goes through these views. For anonymous content neither
+-- author_profile_id nor anything identifying the author is exposed.
+CREATE VIEW public_forum_posts AS
+SELECT
+  p.id,
+  p.slug,
+  CASE WHEN p.is_anonymous THEN NULL ELSE p.author_profile_id END AS author_profile_id,
+  p.is_anonymous,
+  CASE WHEN p.is_anonymous THEN NULL ELSE bp.display_name END AS author_name,
+  CASE WHEN p.is_anonymous THEN NULL ELSE bp.image_url END AS author_image_url,
+  bp.type AS author_type,
+  CASE WHEN p.is_anonymous THEN NULL ELSE bp.created_at END AS author_joined_at,
+  CASE WHEN p.is_anonymous THEN NULL ELSE (
+    SELECT count(*) FROM forum_posts ap WHERE ap.author_profile_id = p.author_profile_id
+  ) END AS author_post_count,
+  p.title,
+  p.content,
+  p.care_type,
+  p.tags,
+  p.like_count,
+  p.comment_count,
+  p.view_count,
+  p.is_pinned,
+  p.is_locked,
+  p.created_at,
+  p.updated_at
+FROM forum_posts p
+LEFT JOIN business_profiles bp ON bp.id = p.author_profile_id;
+
+CREATE VIEW public_forum_comments AS
+SELECT
+  c.id,
+  c.post_id,
+  c.parent_id,
+  CASE WHEN c.is_anonymous THEN NULL ELSE c.author_profile_id END AS author_profile_id,
+  c.is_anonymous,
+  CASE WHEN c.is_anonymous THEN NULL ELSE bp.display_name END AS author_name,
+  CASE WHEN c.is_anonymous THEN NULL ELSE bp.image_url END AS author_image_url,
+  bp.type AS author_type,
+  CASE WHEN c.is_anonymous THEN NULL ELSE bp.created_at END AS author_joined_at,
+  CASE WHEN c.is_anonymous THEN NULL ELSE (
+    SELECT count(*) FROM forum_posts ap WHERE ap.author_profile_id = c.author_profile_id
+  ) END AS author_post_count,
+  c.content,
+  c.like_count,
+  c.is_accepted_answer,
+  c.created_at,
+  c.updated_at
+FROM forum_comments c
+LEFT JOIN business_profiles bp ON bp.id = c.author_profile_id;
+
+-- RLS
+ALTER TABLE forum_posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forum_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forum_post_likes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forum_comment_likes ENABLE ROW LEVEL SECURITY;
+
+-- FORUM_POSTS: authors see their own raw rows, everyone else uses the view
+CREATE POLICY "Authors can view own posts" ON forum_posts
+  FOR SELECT USING (
+    author_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+  );
+
+CREATE POLICY "Users can post from own profiles" ON forum_posts
+  FOR INSERT WITH CHECK (
+    author_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+    AND like_count = 0
+    AND comment_count = 0
+    AND view_count = 0
+    AND NOT is_pinned
+    AND NOT is_locked
+  );
+
+-- FORUM_COMMENTS
+CREATE POLICY "Authors can view own comments" ON forum_comments
+  FOR SELECT USING (
+    author_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+  );
+
+CREATE POLICY "Users can comment on open posts" ON forum_comments
+  FOR INSERT WITH CHECK (
+    author_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+    -- Checked against the view: commenters usually can't see the raw post row
+    AND EXISTS (SELECT 1 FROM public_forum_posts p WHERE p.id = post_id AND NOT p.is_locked)
+    AND like_count = 0
+    AND NOT is_accepted_answer
+  );
+
+-- No UPDATE policies: moderation goes through the service role.
+
+-- LIKES: users manage their own likes
+CREATE POLICY "Users can view own post likes" ON forum_post_likes
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can like posts" ON forum_post_likes
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove own post likes" ON forum_post_likes
+  FOR DELETE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view own comment likes" ON forum_comment_likes
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can like comments" ON forum_comment_likes
+  FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can remove own comment likes" ON forum_comment_likes
+  FOR DELETE USING (user_id = auth.uid());
+
+-- Cached counters. SECURITY DEFINER so users can bump rows they can't update.
+CREATE OR REPLACE FUNCTION sync_forum_post_like_count()
+RETURNS TRIGGER AS $func$
+DECLARE
+  target UUID := COALESCE(NEW.post_id, OLD.post_id);
+BEGIN
+  UPDATE forum_posts
+  SET like_count = (SELECT count(*) FROM forum_post_likes WHERE post_id = target)
+  WHERE id = target;
+  RETURN NULL;
+END;
+$func$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_forum_post_like_count
+  AFTER INSERT OR DELETE ON forum_post_likes
+  FOR EACH ROW EXECUTE FUNCTION sync_forum_post_like_count();
+
+CREATE OR REPLACE FUNCTION sync_forum_comment_like_count()
+RETURNS TRIGGER AS $func$
+DECLARE
+  target UUID := COALESCE(NEW.comment_id, OLD.comment_id);
+BEGIN
+  UPDATE forum_comments
+  SET like_count = (SELECT count(*) FROM forum_comment_likes WHERE comment_id = target)
+  WHERE id = target;
+  RETURN NULL;
+END;
+$func$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_forum_comment_like_count
+  AFTER INSERT OR DELETE ON forum_comment_likes
+  FOR EACH ROW EXECUTE FUNCTION sync_forum_comment_like_count();
+
+CREATE OR REPLACE FUNCTION sync_forum_comment_count()
+RETURNS TRIGGER AS $func$
+DECLARE
+  target UUID := COALESCE(NEW.post_id, OLD.post_id);
+BEGIN
+  UPDATE forum_posts
+  SET comment_count = (SELECT count(*) FROM forum_comments WHERE post_id = target)
+  WHERE id = target;
+  RETURN NULL;
+END;
+$func$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER sync_forum_comment_count
+  AFTER INSERT OR DELETE ON forum_comments
+  FOR EACH ROW EXECUTE FUNCTION sync_forum_comment_count();
+
+-- Views are counted without a per-viewer table; anyone may bump a post.
+CREATE OR REPLACE FUNCTION increment_forum_post_view(p_post_id UUID)
+RETURNS INTEGER AS $func$
+  UPDATE forum_posts
+  SET view_count = view_count + 1
+  WHERE id = p_post_id
+  RETURNING view_count;
+$func$ LANGUAGE sql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION increment_forum_post_view(UUID) TO anon, authenticated;
+
+-- Only edits to the text count as an update; counters and views don't.
+CREATE TRIGGER update_forum_posts_updated_at
+  BEFORE UPDATE OF title, content, care_type, tags ON forum_posts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_forum_comments_updated_at
+  BEFORE UPDATE OF content ON forum_comments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,173 @@
+-- ============================================================
+-- Community Moderation
+-- Users report posts and comments; admins hide content, lock and
+-- pin threads, and ban authors from posting. Admin actions are
+-- written with the service role and recorded in audit_log.
+-- ============================================================
+
+-- Hidden content stays in the table for the audit trail but drops
+-- out of the public views.
+ALTER TABLE forum_posts
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('published', 'hidden'));
+
+ALTER TABLE forum_comments
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('published', 'hidden'));
+
+-- forum_reports: one report per user per post or comment
+CREATE TABLE forum_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID REFERENCES forum_posts(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES forum_comments(id) ON DELETE CASCADE,
+  reporter_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('offensive', 'spam', 'harassment', 'misinformation', 'other')),
+  details TEXT CHECK (char_length(details) <= 2000),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  resolved_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Exactly one target
+  CHECK ((post_id IS NULL) <> (comment_id IS NULL))
+);
+
+-- forum_bans: accounts that can no longer post or comment
+CREATE TABLE forum_bans (
+  account_id UUID PRIMARY KEY REFERENCES accounts(id) ON DELETE CASCADE,
+  reason TEXT,
+  banned_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes
+CREATE UNIQUE INDEX idx_forum_reports_post_reporter ON forum_reports(post_id, reporter_user_id) WHERE post_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_forum_reports_comment_reporter ON forum_reports(comment_id, reporter_user_id) WHERE comment_id IS NOT NULL;
+CREATE INDEX idx_forum_reports_status ON forum_reports(status, created_at DESC);
+
+COMMENT ON TABLE forum_reports IS 'User flags on forum posts and comments, resolved from /admin/community.';
+COMMENT ON TABLE forum_bans IS 'Accounts banned from posting in the community forum.';
+
+-- Public views only show published content
+CREATE OR REPLACE VIEW public_forum_posts AS
+SELECT
+  p.id,
+  p.slug,
+  CASE WHEN p.is_anonymous THEN NULL ELSE p.author_profile_id END AS author_profile_id,
+  p.is_anonymous,
+  CASE WHEN p.is_anonymous THEN NULL ELSE bp.display_name END AS author_name,
+  CASE WHEN p.is_anonymous THEN NULL ELSE bp.image_url END AS author_image_url,
+  bp.type AS author_type,
+  CASE WHEN p.is_anonymous THEN NULL ELSE bp.created_at END AS author_joined_at,
+  CASE WHEN p.is_anonymous THEN NULL ELSE (
+    SELECT count(*) FROM forum_posts ap
+    WHERE ap.author_profile_id = p.author_profile_id AND ap.status = 'published'
+  ) END AS author_post_count,
+  p.title,
+  p.content,
+  p.care_type,
+  p.tags,
+  p.like_count,
+  p.comment_count,
+  p.view_count,
+  p.is_pinned,
+  p.is_locked,
+  p.created_at,
+  p.updated_at
+FROM forum_posts p
+LEFT JOIN business_profiles bp ON bp.id = p.author_profile_id
+WHERE p.status = 'published';
+
+-- Replies under a hidden comment are hidden with it
+CREATE OR REPLACE VIEW public_forum_comments AS
+SELECT
+  c.id,
+  c.post_id,
+  c.parent_id,
+  CASE WHEN c.is_anonymous THEN NULL ELSE c.author_profile_id END AS author_profile_id,
+  c.is_anonymous,
+  CASE WHEN c.is_anonymous THEN NULL ELSE bp.display_name END AS author_name,
+  CASE WHEN c.is_anonymous THEN NULL ELSE bp.image_url END AS author_image_url,
+  bp.type AS author_type,
+  CASE WHEN c.is_anonymous THEN NULL ELSE bp.created_at END AS author_joined_at,
+  CASE WHEN c.is_anonymous THEN NULL ELSE (
+    SELECT count(*) FROM forum_posts ap
+    WHERE ap.author_profile_id = c.author_profile_id AND ap.status = 'published'
+  ) END AS author_post_count,
+  c.content,
+  c.like_count,
+  c.is_accepted_answer,
+  c.created_at,
+  c.updated_at
+FROM forum_comments c
+LEFT JOIN business_profiles bp ON bp.id = c.author_profile_id
+WHERE c.status = 'published'
+  AND NOT EXISTS (
+    SELECT 1 FROM forum_comments parent
+    WHERE parent.id = c.parent_id AND parent.status = 'hidden'
+  );
+
+-- comment_count only counts what readers can see
+CREATE OR REPLACE FUNCTION sync_forum_comment_count()
+RETURNS TRIGGER AS $func$
+DECLARE
+  target UUID := COALESCE(NEW.post_id, OLD.post_id);
+BEGIN
+  UPDATE forum_posts
+  SET comment_count = (
+    SELECT count(*) FROM public_forum_comments WHERE post_id = target
+  )
+  WHERE id = target;
+  RETURN NULL;
+END;
+$func$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER sync_forum_comment_count ON forum_comments;
+CREATE TRIGGER sync_forum_comment_count
+  AFTER INSERT OR DELETE OR UPDATE OF status ON forum_comments
+  FOR EACH ROW EXECUTE FUNCTION sync_forum_comment_count();
+
+-- RLS
+ALTER TABLE forum_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forum_bans ENABLE ROW LEVEL SECURITY;
+
+-- Banned accounts can't post or comment
+DROP POLICY "Users can post from own profiles" ON forum_posts;
+CREATE POLICY "Users can post from own profiles" ON forum_posts
+  FOR INSERT WITH CHECK (
+    author_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+    AND NOT EXISTS (SELECT 1 FROM forum_bans WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+    AND status = 'published'
+    AND like_count = 0
+    AND comment_count = 0
+    AND view_count = 0
+    AND NOT is_pinned
+    AND NOT is_locked
+  );
+
+DROP POLICY "Users can comment on open posts" ON forum_comments;
+CREATE POLICY "Users can comment on open posts" ON forum_comments
+  FOR INSERT WITH CHECK (
+    author_profile_id IN (SELECT id FROM business_profiles WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+    AND NOT EXISTS (SELECT 1 FROM forum_bans WHERE account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid()))
+    -- Checked against the view: commenters usually can't see the raw post row
+    AND EXISTS (SELECT 1 FROM public_forum_posts p WHERE p.id = post_id AND NOT p.is_locked)
+    AND status = 'published'
+    AND like_count = 0
+    AND NOT is_accepted_answer
+  );
+
+-- FORUM_REPORTS: users file and see their own reports
+CREATE POLICY "Users can report forum content" ON forum_reports
+  FOR INSERT WITH CHECK (
+    reporter_user_id = auth.uid()
+    AND status = 'open'
+    AND resolved_by IS NULL
+    AND resolved_at IS NULL
+  );
+
+CREATE POLICY "Users can view own forum reports" ON forum_reports
+  FOR SELECT USING (reporter_user_id = auth.uid());
+
+-- FORUM_BANS: users can see whether they're banned
+CREATE POLICY "Users can view own ban" ON forum_bans
+  FOR SELECT USING (
+    account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid())
+  );
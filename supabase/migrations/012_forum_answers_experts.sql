@@ -0,0 +1,90 @@
+-- ============================================================
+-- Accepted Answers & Verified Experts
+-- The original poster can mark one top-level reply as the accepted
+-- answer. Admins verify experts (RNs, elder law attorneys, ...) whose
+-- credential is shown next to their name in the community.
+-- ============================================================
+
+-- forum_experts: profiles verified by an admin, with the credential to display
+CREATE TABLE forum_experts (
+  profile_id UUID PRIMARY KEY REFERENCES business_profiles(id) ON DELETE CASCADE,
+  credential TEXT NOT NULL CHECK (char_length(credential) BETWEEN 1 AND 100),
+  verified_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE forum_experts IS 'Verified community experts, managed from /admin/community.';
+
+-- At most one accepted answer per discussion
+CREATE UNIQUE INDEX idx_forum_comments_accepted_answer
+  ON forum_comments(post_id) WHERE is_accepted_answer;
+
+-- Written with the service role only; credentials reach readers through the views
+ALTER TABLE forum_experts ENABLE ROW LEVEL SECURITY;
+
+-- New columns go last so the views can be replaced in place.
+-- Anonymous authors never carry a credential: it would identify them.
+CREATE OR REPLACE VIEW public_forum_posts AS
+SELECT
+  p.id,
+  p.slug,
+  CASE WHEN p.is_anonymous THEN NULL ELSE p.author_profile_id END AS author_profile_id,
+  p.is_anonymous,
+  CASE WHEN p.is_anonymous THEN NULL ELSE bp.display_name END AS author_name,
+  CASE WHEN p.is_anonymous THEN NULL ELSE bp.image_url END AS author_image_url,
+  bp.type AS author_type,
+  CASE WHEN p.is_anonymous THEN NULL ELSE bp.created_at END AS author_joined_at,
+  CASE WHEN p.is_anonymous THEN NULL ELSE (
+    SELECT count(*) FROM forum_posts ap
+    WHERE ap.author_profile_id = p.author_profile_id AND ap.status = 'published'
+  ) END AS author_post_count,
+  p.title,
+  p.content,
+  p.care_type,
+  p.tags,
+  p.like_count,
+  p.comment_count,
+  p.view_count,
+  p.is_pinned,
+  p.is_locked,
+  p.created_at,
+  p.updated_at,
+  CASE WHEN p.is_anonymous THEN NULL ELSE fe.credential END AS author_credential,
+  EXISTS (
+    SELECT 1 FROM forum_comments ac
+    WHERE ac.post_id = p.id AND ac.is_accepted_answer AND ac.status = 'published'
+  ) AS has_accepted_answer
+FROM forum_posts p
+LEFT JOIN business_profiles bp ON bp.id = p.author_profile_id
+LEFT JOIN forum_experts fe ON fe.profile_id = p.author_profile_id
+WHERE p.status = 'published';
+
+CREATE OR REPLACE VIEW public_forum_comments AS
+SELECT
+  c.id,
+  c.post_id,
+  c.parent_id,
+  CASE WHEN c.is_anonymous THEN NULL ELSE c.author_profile_id END AS author_profile_id,
+  c.is_anonymous,
+  CASE WHEN c.is_anonymous THEN NULL ELSE bp.display_name END AS author_name,
+  CASE WHEN c.is_anonymous THEN NULL ELSE bp.image_url END AS author_image_url,
+  bp.type AS author_type,
+  CASE WHEN c.is_anonymous THEN NULL ELSE bp.created_at END AS author_joined_at,
+  CASE WHEN c.is_anonymous THEN NULL ELSE (
+    SELECT count(*) FROM forum_posts ap
+    WHERE ap.author_profile_id = c.author_profile_id AND ap.status = 'published'
+  ) END AS author_post_count,
+  c.content,
+  c.like_count,
+  c.is_accepted_answer,
+  c.created_at,
+  c.updated_at,
+  CASE WHEN c.is_anonymous THEN NULL ELSE fe.credential END AS author_credential
+FROM forum_comments c
+LEFT JOIN business_profiles bp ON bp.id = c.author_profile_id
+LEFT JOIN forum_experts fe ON fe.profile_id = c.author_profile_id
+WHERE c.status = 'published'
+  AND NOT EXISTS (
+    SELECT 1 FROM forum_comments parent
+    WHERE parent.id = c.parent_id AND parent.status = 'hidden'
+  );
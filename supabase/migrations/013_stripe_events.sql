@@ -0,0 +1,33 @@
+-- ============================================================
+-- Stripe Event Ledger
+-- Every webhook event is recorded by id before it touches
+-- memberships, so retries are skipped, failures are kept for
+-- replay, and late events can't overwrite newer billing state.
+-- ============================================================
+
+CREATE TABLE stripe_events (
+  id TEXT PRIMARY KEY, -- Stripe event id (evt_...)
+  type TEXT NOT NULL,
+  stripe_created_at TIMESTAMPTZ NOT NULL, -- event.created
+  customer_id TEXT,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'skipped', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  error TEXT,
+  skip_reason TEXT,
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  last_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_stripe_events_status ON stripe_events(status, received_at DESC);
+CREATE INDEX idx_stripe_events_customer ON stripe_events(customer_id, stripe_created_at DESC);
+
+COMMENT ON TABLE stripe_events IS 'Stripe webhook events and their processing outcome. Failed events are replayed from /admin/billing.';
+
+-- Created time of the newest Stripe event applied to the membership.
+-- Older events arriving late are skipped instead of applied.
+ALTER TABLE memberships ADD COLUMN stripe_event_at TIMESTAMPTZ;
+
+-- Service role only
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,7 @@
+-- ============================================================
+-- Scheduled Cancellation
+-- Providers can cancel from settings and keep Pro until the
+-- current period ends. Mirrors the Stripe subscription flag.
+-- ============================================================
+
+ALTER TABLE memberships ADD COLUMN cancel_at_period_end BOOLEAN NOT NULL DEFAULT false;
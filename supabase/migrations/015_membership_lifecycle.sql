@@ -0,0 +1,13 @@
+-- ============================================================
+-- Membership Lifecycle
+-- Supports the scheduled job at /api/cron/membership that
+-- resets monthly free connections, expires trials and sends
+-- "trial ending" notices.
+-- ============================================================
+
+-- When the "trial ending" notice went out for the current trial.
+-- Null means not sent yet; the portal shows the notice once set.
+ALTER TABLE memberships ADD COLUMN trial_notice_sent_at TIMESTAMPTZ;
+
+CREATE INDEX idx_memberships_trial_ends ON memberships(trial_ends_at) WHERE status = 'trialing';
+CREATE INDEX idx_memberships_free_reset ON memberships(free_responses_reset_at) WHERE status = 'free';
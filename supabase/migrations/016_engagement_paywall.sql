@@ -0,0 +1,184 @@
+-- ============================================================
+-- Server-side Engagement Paywall
+-- Provider connections, replies and accept/decline now go
+-- through /api/connections, which checks the membership and
+-- spends free connections atomically. The browser can no
+-- longer write billing state or bypass the paywall directly.
+-- ============================================================
+
+-- When the recipient first responded (accepted or replied).
+-- A free provider spends one free connection per inbound
+-- connection, the first time they respond to it.
+ALTER TABLE connections ADD COLUMN responded_at TIMESTAMPTZ;
+
+-- ------------------------------------------------------------
+-- Free connection quota
+-- ------------------------------------------------------------
+
+-- Check and spend one free connection in a single step.
+-- Returns 'unlimited' for paid plans and active trials,
+-- 'consumed' when a free connection was spent, and 'denied'
+-- when none are left (or there is no membership).
+CREATE OR REPLACE FUNCTION consume_free_connection(p_account_id UUID, p_limit INTEGER)
+RETURNS TEXT AS $func$
+DECLARE
+  m memberships%ROWTYPE;
+BEGIN
+  SELECT * INTO m FROM memberships WHERE account_id = p_account_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'denied';
+  END IF;
+
+  IF m.status IN ('active', 'past_due')
+    OR (m.status = 'trialing' AND m.trial_ends_at > NOW()) THEN
+    RETURN 'unlimited';
+  END IF;
+
+  IF m.status NOT IN ('free', 'trialing') OR COALESCE(m.free_responses_used, 0) >= p_limit THEN
+    RETURN 'denied';
+  END IF;
+
+  UPDATE memberships
+  SET free_responses_used = COALESCE(free_responses_used, 0) + 1
+  WHERE id = m.id;
+
+  RETURN 'consumed';
+END;
+$func$ LANGUAGE plpgsql;
+
+-- Give back a free connection when the action it paid for failed
+CREATE OR REPLACE FUNCTION refund_free_connection(p_account_id UUID)
+RETURNS VOID AS $func$
+  UPDATE memberships
+  SET free_responses_used = GREATEST(COALESCE(free_responses_used, 0) - 1, 0)
+  WHERE account_id = p_account_id;
+$func$ LANGUAGE sql;
+
+-- Service role only
+REVOKE EXECUTE ON FUNCTION consume_free_connection(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_free_connection(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_free_connection(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION refund_free_connection(UUID) TO service_role;
+
+-- ------------------------------------------------------------
+-- Memberships: read-only from the browser
+-- ------------------------------------------------------------
+
+-- Quota, plan and Stripe fields are written by API routes and
+-- the Stripe webhook with the service role
+DROP POLICY IF EXISTS "Users can update own membership" ON memberships;
+DROP POLICY IF EXISTS "Users can insert own membership" ON memberships;
+
+-- Onboarding may still create the initial free membership
+CREATE POLICY "Users can create own free membership" ON memberships
+  FOR INSERT WITH CHECK (
+    account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid())
+    AND plan = 'free'
+    AND status = 'free'
+  );
+
+REVOKE INSERT, UPDATE ON memberships FROM anon, authenticated;
+GRANT INSERT (account_id, plan, status) ON memberships TO authenticated;
+
+-- ------------------------------------------------------------
+-- Connections and messages
+-- ------------------------------------------------------------
+
+-- Families never pay, so their inquiries can still be created
+-- directly. Provider-initiated connections go through the API.
+DROP POLICY IF EXISTS "Users can create connections from own profiles" ON connections;
+DROP POLICY IF EXISTS "Users can insert connections from own profiles" ON connections;
+
+CREATE POLICY "Families can create connections from own profiles" ON connections
+  FOR INSERT WITH CHECK (
+    from_profile_id IN (
+      SELECT id FROM business_profiles
+      WHERE type = 'family'
+      AND account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid())
+    )
+  );
+
+-- Accept, decline and archive go through the API
+DROP POLICY IF EXISTS "Users can update own connections" ON connections;
+DROP POLICY IF EXISTS "Users can update connections they participate in" ON connections;
+
+-- Sending messages goes through the API, which checks the paywall
+-- for provider replies
+DROP POLICY IF EXISTS "Users can send messages from own profiles" ON connection_messages;
+
+-- ------------------------------------------------------------
+-- Profile type
+-- ------------------------------------------------------------
+
+-- Family profiles engage for free, so switching a provider profile
+-- to 'family' would skip the paywall. The type is fixed once created;
+-- only the service role can change it.
+CREATE OR REPLACE FUNCTION protect_profile_type()
+RETURNS TRIGGER AS $func$
+BEGIN
+  IF NEW.type IS DISTINCT FROM OLD.type
+    AND (auth.jwt() ->> 'role') IS DISTINCT FROM 'service_role'
+  THEN
+    RAISE EXCEPTION 'Profile type cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$func$ LANGUAGE plpgsql;
+
+CREATE TRIGGER business_profiles_protect_type
+  BEFORE UPDATE OF type ON business_profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_type();
+
+-- ------------------------------------------------------------
+-- Reads
+-- ------------------------------------------------------------
+
+-- Connection notes and message bodies are only served by the API,
+-- which blurs them until the provider has access. The browser can
+-- still list and count connections and unread messages.
+REVOKE SELECT ON connections FROM anon, authenticated;
+GRANT SELECT (
+  id, from_profile_id, to_profile_id, type, status, metadata,
+  responded_at, created_at, updated_at
+) ON connections TO authenticated;
+
+REVOKE SELECT ON connection_messages FROM anon, authenticated;
+GRANT SELECT (
+  id, connection_id, sender_profile_id, recipient_profile_id, read_at, created_at
+) ON connection_messages TO authenticated;
+
+-- Family profiles hold a person's name and contact details. They are
+-- no longer public: only the family itself and the providers it has
+-- an accepted connection with can read them. Everything else (reviews,
+-- inquiries) goes through views or the API.
+CREATE OR REPLACE FUNCTION connected_family_profile_ids()
+RETURNS SETOF UUID AS $func$
+  SELECT CASE WHEN c.to_profile_id = own.id THEN c.from_profile_id ELSE c.to_profile_id END
+  FROM connections c
+  JOIN business_profiles own ON own.id IN (c.from_profile_id, c.to_profile_id)
+  JOIN accounts a ON a.id = own.account_id
+  WHERE a.user_id = auth.uid()
+    AND c.status = 'accepted';
+$func$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION connected_family_profile_ids() TO authenticated;
+
+DROP POLICY IF EXISTS "Anyone can view active profiles" ON business_profiles;
+
+CREATE POLICY "Anyone can view active provider profiles" ON business_profiles
+  FOR SELECT USING (is_active = TRUE AND type <> 'family');
+
+CREATE POLICY "Connected providers can view family profiles" ON business_profiles
+  FOR SELECT USING (
+    type = 'family' AND id IN (SELECT connected_family_profile_ids())
+  );
+
+-- Published reviews with the reviewer's name, now that family
+-- profiles can't be joined publicly
+CREATE VIEW public_reviews AS
+SELECT r.*, bp.display_name AS reviewer_name
+FROM reviews r
+LEFT JOIN business_profiles bp ON bp.id = r.reviewer_profile_id
+WHERE r.status = 'published';
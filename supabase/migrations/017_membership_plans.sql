@@ -0,0 +1,79 @@
+-- ============================================================
+-- Membership Plans
+-- Plans are free, basic, pro and enterprise (lib/entitlements.ts).
+-- Aligns the memberships CHECK constraints with the values the
+-- app and the Stripe webhook write, and moves the monthly
+-- response limit out of SQL so every plan can have its own.
+-- ============================================================
+
+UPDATE memberships SET plan = 'pro' WHERE plan = 'professional';
+UPDATE memberships SET billing_cycle = 'annual' WHERE billing_cycle = 'yearly';
+UPDATE memberships SET status = 'trialing' WHERE status = 'trial';
+
+ALTER TABLE memberships DROP CONSTRAINT IF EXISTS memberships_plan_check;
+ALTER TABLE memberships ADD CONSTRAINT memberships_plan_check
+  CHECK (plan IN ('free', 'basic', 'pro', 'enterprise'));
+
+ALTER TABLE memberships DROP CONSTRAINT IF EXISTS memberships_billing_cycle_check;
+ALTER TABLE memberships ADD CONSTRAINT memberships_billing_cycle_check
+  CHECK (billing_cycle IN ('monthly', 'annual'));
+
+ALTER TABLE memberships DROP CONSTRAINT IF EXISTS memberships_status_check;
+ALTER TABLE memberships ADD CONSTRAINT memberships_status_check
+  CHECK (status IN ('free', 'trialing', 'active', 'past_due', 'canceled'));
+
+-- ------------------------------------------------------------
+-- Monthly responses
+-- ------------------------------------------------------------
+
+-- The caller passes the limit for the membership's plan
+-- (getLimit(membership, "monthly_responses")); NULL is unlimited.
+-- Returns 'unlimited', 'consumed' or 'denied'.
+CREATE OR REPLACE FUNCTION consume_free_connection(p_account_id UUID, p_limit INTEGER)
+RETURNS TEXT AS $func$
+DECLARE
+  consumed_id UUID;
+BEGIN
+  IF p_limit IS NULL THEN
+    RETURN 'unlimited';
+  END IF;
+
+  UPDATE memberships
+  SET free_responses_used = COALESCE(free_responses_used, 0) + 1
+  WHERE account_id = p_account_id
+  AND COALESCE(free_responses_used, 0) < p_limit
+  RETURNING id INTO consumed_id;
+
+  RETURN CASE WHEN consumed_id IS NULL THEN 'denied' ELSE 'consumed' END;
+END;
+$func$ LANGUAGE plpgsql;
+
+-- Every plan with a limit resets monthly, not just the free tier
+DROP INDEX IF EXISTS idx_memberships_free_reset;
+CREATE INDEX idx_memberships_responses_reset ON memberships(free_responses_reset_at);
+
+-- ------------------------------------------------------------
+-- Public plan lookup
+-- ------------------------------------------------------------
+
+-- The plan a profile's account currently gets, so public pages can
+-- check another provider's entitlements without reading memberships.
+-- Mirrors getEffectivePlan() (trials get TRIAL_PLAN, 'pro').
+CREATE OR REPLACE FUNCTION get_profile_plan(p_profile_id UUID)
+RETURNS TEXT AS $func$
+  SELECT COALESCE(
+    (
+      SELECT CASE
+        WHEN m.status IN ('active', 'past_due') THEN m.plan
+        WHEN m.status = 'trialing' AND m.trial_ends_at > NOW() THEN 'pro'
+        ELSE 'free'
+      END
+      FROM business_profiles p
+      JOIN memberships m ON m.account_id = p.account_id
+      WHERE p.id = p_profile_id
+    ),
+    'free'
+  );
+$func$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_profile_plan(UUID) TO anon, authenticated;
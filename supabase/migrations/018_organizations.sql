@@ -0,0 +1,77 @@
+-- ============================================================
+-- Organizations
+-- A parent organization groups an account's location profiles
+-- (one business_profiles row per branch). Locations inherit the
+-- organization's description, logo and website when they leave
+-- their own blank, and the account's single membership covers
+-- every location up to the plan's location limit.
+-- ============================================================
+
+CREATE TABLE organizations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id UUID UNIQUE NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 200),
+  description TEXT CHECK (char_length(description) <= 5000),
+  image_url TEXT,
+  website TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE business_profiles
+  ADD COLUMN organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_business_profiles_organization ON business_profiles(organization_id)
+  WHERE organization_id IS NOT NULL;
+
+COMMENT ON TABLE organizations IS 'Parent brand for multi-location providers. Location profiles reference it via business_profiles.organization_id.';
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON organizations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Locations join an organization through /api/organizations/locations,
+-- which checks the plan's location limit. Only the service role may
+-- set organization_id, and only to an organization of the same account.
+CREATE OR REPLACE FUNCTION check_profile_organization()
+RETURNS TRIGGER AS $func$
+BEGIN
+  IF NEW.organization_id IS NOT DISTINCT FROM (
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.organization_id ELSE NULL END
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF (auth.jwt() ->> 'role') IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'organization_id can only be changed through the locations API';
+  END IF;
+
+  IF NEW.organization_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM organizations
+    WHERE id = NEW.organization_id AND account_id = NEW.account_id
+  ) THEN
+    RAISE EXCEPTION 'Location and organization must belong to the same account';
+  END IF;
+
+  RETURN NEW;
+END;
+$func$ LANGUAGE plpgsql;
+
+CREATE TRIGGER business_profiles_check_organization
+  BEFORE INSERT OR UPDATE OF organization_id ON business_profiles
+  FOR EACH ROW EXECUTE FUNCTION check_profile_organization();
+
+-- RLS
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+
+-- Branding shows on public location pages
+CREATE POLICY "Anyone can view organizations" ON organizations
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can update own organization" ON organizations
+  FOR UPDATE USING (
+    account_id IN (SELECT id FROM accounts WHERE user_id = auth.uid())
+  );
+
+-- Created and deleted through /api/organizations (service role), which
+-- also attaches the account's existing locations.
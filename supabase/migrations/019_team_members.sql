@@ -0,0 +1,166 @@
+-- ============================================================
+-- Team Members
+-- Teammates share a provider profile with its owning account.
+-- Roles (lib/team.ts):
+--   owner     - everything, including managing the team
+--   manager   - edit the profile, manage responders and viewers, respond
+--   responder - respond to inquiries and messages
+--   viewer    - read-only
+-- Invites are by email; the row is claimed (account_id set) when the
+-- invitee accepts from the portal. The profile's own account_id stays
+-- the billing owner, so its membership covers the whole team.
+-- ============================================================
+
+CREATE TABLE profile_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  account_id UUID REFERENCES accounts(id) ON DELETE CASCADE, -- set on accept
+  invited_email TEXT NOT NULL CHECK (invited_email = lower(invited_email)),
+  role TEXT NOT NULL CHECK (role IN ('owner', 'manager', 'responder', 'viewer')),
+  invited_by UUID REFERENCES accounts(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (profile_id, invited_email),
+  UNIQUE (profile_id, account_id)
+);
+
+CREATE INDEX idx_profile_members_account ON profile_members(account_id) WHERE accepted_at IS NOT NULL;
+CREATE INDEX idx_profile_members_pending_email ON profile_members(invited_email) WHERE accepted_at IS NULL;
+
+COMMENT ON TABLE profile_members IS 'Teammates on a provider profile besides its owning account. Managed through /api/profiles/[id]/members.';
+
+CREATE TRIGGER update_profile_members_updated_at
+  BEFORE UPDATE ON profile_members
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Who responded to an inquiry (accepted, declined or first reply)
+ALTER TABLE connections
+  ADD COLUMN responded_by UUID REFERENCES accounts(id) ON DELETE SET NULL;
+
+-- ------------------------------------------------------------
+-- Role check
+-- ------------------------------------------------------------
+
+-- Whether the signed-in user owns the profile or is an accepted member
+-- with one of the given roles. SECURITY DEFINER so policies on
+-- business_profiles can call it without recursing into their own RLS.
+CREATE OR REPLACE FUNCTION has_profile_role(p_profile_id UUID, p_roles TEXT[])
+RETURNS BOOLEAN AS $func$
+  SELECT EXISTS (
+    SELECT 1 FROM business_profiles p
+    JOIN accounts a ON a.id = p.account_id
+    WHERE p.id = p_profile_id AND a.user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM profile_members m
+    JOIN accounts a ON a.id = m.account_id
+    WHERE m.profile_id = p_profile_id
+    AND a.user_id = auth.uid()
+    AND m.accepted_at IS NOT NULL
+    AND m.role = ANY(p_roles)
+  );
+$func$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION has_profile_role(UUID, TEXT[]) TO authenticated;
+
+-- Connected family profiles (016) for the whole team, not just the
+-- owner: the profiles the user owns or is an accepted member of
+CREATE OR REPLACE FUNCTION connected_family_profile_ids()
+RETURNS SETOF UUID AS $func$
+  WITH own AS (
+    SELECT bp.id
+    FROM business_profiles bp
+    JOIN accounts a ON a.id = bp.account_id
+    WHERE a.user_id = auth.uid()
+    UNION
+    SELECT m.profile_id
+    FROM profile_members m
+    JOIN accounts a ON a.id = m.account_id
+    WHERE a.user_id = auth.uid() AND m.accepted_at IS NOT NULL
+  )
+  SELECT CASE WHEN c.to_profile_id = own.id THEN c.from_profile_id ELSE c.to_profile_id END
+  FROM connections c
+  JOIN own ON own.id IN (c.from_profile_id, c.to_profile_id)
+  WHERE c.status = 'accepted';
+$func$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only the billing owner can hand a profile to another account (or
+-- claim an unowned one); managers can edit everything else.
+CREATE OR REPLACE FUNCTION protect_profile_owner()
+RETURNS TRIGGER AS $func$
+BEGIN
+  IF OLD.account_id IS NOT NULL
+    AND NEW.account_id IS DISTINCT FROM OLD.account_id
+    AND (auth.jwt() ->> 'role') IS DISTINCT FROM 'service_role'
+    AND NOT EXISTS (
+      SELECT 1 FROM accounts WHERE id = OLD.account_id AND user_id = auth.uid()
+    )
+  THEN
+    RAISE EXCEPTION 'Only the profile owner can transfer it';
+  END IF;
+
+  RETURN NEW;
+END;
+$func$ LANGUAGE plpgsql;
+
+CREATE TRIGGER business_profiles_protect_owner
+  BEFORE UPDATE OF account_id ON business_profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_profile_owner();
+
+-- ------------------------------------------------------------
+-- RLS
+-- ------------------------------------------------------------
+
+ALTER TABLE profile_members ENABLE ROW LEVEL SECURITY;
+
+-- The whole team can see who is on it; invites and role changes go
+-- through the API (service role)
+CREATE POLICY "Team members can view their team" ON profile_members
+  FOR SELECT USING (
+    has_profile_role(profile_id, ARRAY['owner', 'manager', 'responder', 'viewer'])
+  );
+
+-- BUSINESS_PROFILES: members see the profile even while inactive;
+-- owners and managers can edit it
+CREATE POLICY "Team members can view profiles" ON business_profiles
+  FOR SELECT USING (
+    has_profile_role(id, ARRAY['owner', 'manager', 'responder', 'viewer'])
+  );
+
+CREATE POLICY "Team managers can update profiles" ON business_profiles
+  FOR UPDATE USING (
+    has_profile_role(id, ARRAY['owner', 'manager'])
+  );
+
+-- CONNECTIONS: every role can list the profile's connections (notes and
+-- message bodies are API-only, see 016); responses go through the API,
+-- which checks the role
+CREATE POLICY "Team members can view connections" ON connections
+  FOR SELECT USING (
+    has_profile_role(to_profile_id, ARRAY['owner', 'manager', 'responder', 'viewer'])
+    OR
+    has_profile_role(from_profile_id, ARRAY['owner', 'manager', 'responder', 'viewer'])
+  );
+
+CREATE POLICY "Team members can view messages" ON connection_messages
+  FOR SELECT USING (
+    has_profile_role(recipient_profile_id, ARRAY['owner', 'manager', 'responder', 'viewer'])
+    OR
+    has_profile_role(sender_profile_id, ARRAY['owner', 'manager', 'responder', 'viewer'])
+  );
+
+CREATE POLICY "Team responders can mark messages read" ON connection_messages
+  FOR UPDATE USING (
+    has_profile_role(recipient_profile_id, ARRAY['owner', 'manager', 'responder'])
+  );
+
+-- MEMBERSHIPS: teammates see the plan covering the profiles they work on
+CREATE POLICY "Team members can view the owner's membership" ON memberships
+  FOR SELECT USING (
+    account_id IN (
+      SELECT p.account_id FROM profile_members m
+      JOIN business_profiles p ON p.id = m.profile_id
+      JOIN accounts a ON a.id = m.account_id
+      WHERE a.user_id = auth.uid() AND m.accepted_at IS NOT NULL
+    )
+  );
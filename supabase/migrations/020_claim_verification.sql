@@ -0,0 +1,153 @@
+-- ============================================================
+-- Claim Verification
+-- Evidence a claimant submits for a pending provider profile:
+--   business email - a code sent to an address on the listing's domain
+--   phone callback - staff call the listing's phone and read a code
+--   license number - checked against the listing's license on file
+--   document       - uploaded to the private claim-documents bucket
+-- lib/claim-verification.ts scores the evidence (0-100) so admins
+-- can review it next to the claim in /admin/providers. Evidence is
+-- checked against the listing as it was when the claim started
+-- (listing_*), not the profile the claimant can now edit.
+-- ============================================================
+
+CREATE TABLE claim_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  business_email TEXT CHECK (business_email = lower(business_email)),
+  email_code_hash TEXT, -- sha256 of the code, cleared once verified
+  email_code_sent_at TIMESTAMPTZ,
+  email_verified_at TIMESTAMPTZ,
+  phone_code TEXT, -- read out by staff on the callback, so kept in the clear
+  callback_requested_at TIMESTAMPTZ,
+  phone_verified_at TIMESTAMPTZ,
+  failed_code_attempts INTEGER NOT NULL DEFAULT 0, -- reset whenever a new code is issued
+  license_number TEXT,
+  listing_website TEXT, -- snapshot of the listing when the claim started
+  listing_phone TEXT,
+  listing_license TEXT,
+  document_path TEXT, -- object path in the claim-documents bucket
+  document_name TEXT,
+  score INTEGER NOT NULL DEFAULT 0 CHECK (score BETWEEN 0 AND 100),
+  checks JSONB NOT NULL DEFAULT '[]',
+  reject_reason TEXT,
+  reviewed_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (profile_id, account_id)
+);
+
+CREATE INDEX idx_claim_verifications_callbacks ON claim_verifications(callback_requested_at)
+  WHERE callback_requested_at IS NOT NULL AND phone_verified_at IS NULL;
+
+COMMENT ON TABLE claim_verifications IS 'Evidence and automated score for a provider claim. Written through /api/claims/[profileId]; reviewed in /admin/providers.';
+
+CREATE TRIGGER update_claim_verifications_updated_at
+  BEFORE UPDATE ON claim_verifications
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Service role only: the row holds verification codes
+ALTER TABLE claim_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage claim verifications" ON claim_verifications
+  FOR ALL USING ((auth.jwt() ->> 'role') = 'service_role');
+
+-- Private bucket for license and ownership documents. Uploads and
+-- signed URLs go through the service role.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('claim-documents', 'claim-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- ------------------------------------------------------------
+-- Only admins approve provider claims
+-- ------------------------------------------------------------
+
+-- Claimants set their own profile to 'pending'; only the admin API
+-- (service role) can mark a provider profile 'claimed'. Family
+-- profiles are claimed on creation and skip review. Turning a
+-- claimed family profile into a provider, or pointing a claimed
+-- profile at another listing, counts as a new claim.
+CREATE OR REPLACE FUNCTION protect_claim_state()
+RETURNS TRIGGER AS $func$
+BEGIN
+  IF NEW.claim_state = 'claimed'
+    AND NEW.type <> 'family'
+    AND (
+      TG_OP = 'INSERT'
+      OR OLD.claim_state IS DISTINCT FROM 'claimed'
+      OR OLD.type = 'family'
+      OR OLD.source_provider_id IS DISTINCT FROM NEW.source_provider_id
+    )
+    AND (auth.jwt() ->> 'role') IS DISTINCT FROM 'service_role'
+  THEN
+    RAISE EXCEPTION 'Provider claims are approved by Olera staff';
+  END IF;
+
+  RETURN NEW;
+END;
+$func$ LANGUAGE plpgsql;
+
+CREATE TRIGGER business_profiles_protect_claim_state
+  BEFORE INSERT OR UPDATE OF claim_state, type, source_provider_id ON business_profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_claim_state();
+
+-- ------------------------------------------------------------
+-- Listing snapshot
+-- ------------------------------------------------------------
+
+-- When a provider profile goes to 'pending', record the website,
+-- phone and license the claimant has to prove control of: the
+-- seeded olera-providers listing when there is one, otherwise the
+-- profile as it was before the claimant took it over. A profile
+-- created by the claimant has nothing on file. The first snapshot
+-- for a claimant is kept if they claim again.
+CREATE OR REPLACE FUNCTION snapshot_claim_listing()
+RETURNS TRIGGER AS $func$
+DECLARE
+  listing RECORD;
+BEGIN
+  IF NEW.claim_state <> 'pending'
+    OR NEW.type = 'family'
+    OR NEW.account_id IS NULL
+    OR (TG_OP = 'UPDATE' AND OLD.claim_state = 'pending')
+  THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT phone, website INTO listing
+  FROM "olera-providers"
+  WHERE provider_id::TEXT = NEW.source_provider_id;
+
+  INSERT INTO claim_verifications (profile_id, account_id, listing_website, listing_phone, listing_license)
+  VALUES (
+    NEW.id,
+    NEW.account_id,
+    COALESCE(listing.website, CASE WHEN TG_OP = 'UPDATE' THEN OLD.website END),
+    COALESCE(listing.phone, CASE WHEN TG_OP = 'UPDATE' THEN OLD.phone END),
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.metadata ->> 'license_number' END
+  )
+  ON CONFLICT (profile_id, account_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$func$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER business_profiles_snapshot_claim_listing
+  AFTER INSERT OR UPDATE OF claim_state ON business_profiles
+  FOR EACH ROW EXECUTE FUNCTION snapshot_claim_listing();
+
+-- Claims already pending: the listing where there is one, otherwise
+-- the profile as it is now
+INSERT INTO claim_verifications (profile_id, account_id, listing_website, listing_phone, listing_license)
+SELECT
+  bp.id,
+  bp.account_id,
+  COALESCE(op.website, bp.website),
+  COALESCE(op.phone, bp.phone),
+  bp.metadata ->> 'license_number'
+FROM business_profiles bp
+LEFT JOIN "olera-providers" op ON op.provider_id::TEXT = bp.source_provider_id
+WHERE bp.claim_state = 'pending' AND bp.type <> 'family' AND bp.account_id IS NOT NULL
+ON CONFLICT (profile_id, account_id) DO NOTHING;
@@ -0,0 +1,218 @@
+-- ============================================================
+-- Provider Duplicates
+-- The same agency often appears more than once across seeded
+-- olera-providers listings and user-created business_profiles.
+-- A weekly job (/api/cron/duplicates, lib/provider-duplicates.ts)
+-- pairs up records that share a phone number or street address,
+-- or have the same name within a mile of each other, and groups
+-- the pairs into clusters for admins to review in
+-- /admin/duplicates. Merging a cluster repoints engagement to the
+-- record kept and soft-deletes the others.
+--
+-- Records are referenced by key:
+--   listing:<olera-providers.provider_id>
+--   profile:<business_profiles.id>
+-- ============================================================
+
+CREATE TABLE provider_duplicate_clusters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cluster_key TEXT UNIQUE NOT NULL, -- sorted member keys, so re-detection finds the same row
+  members TEXT[] NOT NULL CHECK (cardinality(members) >= 2),
+  reasons TEXT[] NOT NULL DEFAULT '{}', -- phone, address, name_nearby
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'merged', 'dismissed')),
+  survivor TEXT, -- member kept by the merge
+  resolved_by UUID REFERENCES admin_users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- last run that found the cluster
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_provider_duplicate_clusters_status ON provider_duplicate_clusters(status, created_at DESC);
+
+COMMENT ON TABLE provider_duplicate_clusters IS 'Candidate duplicate providers found by /api/cron/duplicates. Reviewed and merged in /admin/duplicates.';
+
+CREATE TRIGGER update_provider_duplicate_clusters_updated_at
+  BEFORE UPDATE ON provider_duplicate_clusters
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE provider_duplicate_clusters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage duplicate clusters" ON provider_duplicate_clusters
+  FOR ALL USING ((auth.jwt() ->> 'role') = 'service_role');
+
+-- ------------------------------------------------------------
+-- Normalization
+-- ------------------------------------------------------------
+
+-- "The Sunrise Home Care, LLC" -> "sunrise home care"
+CREATE OR REPLACE FUNCTION normalize_provider_name(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $func$
+  SELECT NULLIF(trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(replace(lower(COALESCE(p_name, '')), '&', ' and '), '[^a-z0-9]+', ' ', 'g'),
+      '\m(the|inc|llc|pllc|corp|corporation|co|company|ltd|lp)\M', ' ', 'g'
+    ),
+    '\s+', ' ', 'g'
+  )), '');
+$func$;
+
+-- Last ten digits, so "+1 (512) 555-0100" and "512.555.0100" match
+CREATE OR REPLACE FUNCTION normalize_provider_phone(p_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $func$
+  SELECT CASE WHEN length(d) >= 10 THEN right(d, 10) END
+  FROM (SELECT regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g') AS d) digits;
+$func$;
+
+-- "123 North Main Street, Suite 4" -> "123 n main st ste 4"
+CREATE OR REPLACE FUNCTION normalize_provider_address(p_address TEXT)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $func$
+  SELECT NULLIF(trim(regexp_replace(a, '\s+', ' ', 'g')), '')
+  FROM (
+    SELECT
+      regexp_replace(regexp_replace(regexp_replace(regexp_replace(regexp_replace(
+      regexp_replace(regexp_replace(regexp_replace(regexp_replace(regexp_replace(
+        regexp_replace(lower(COALESCE(p_address, '')), '[^a-z0-9]+', ' ', 'g'),
+        '\mstreet\M', 'st', 'g'),
+        '\mavenue\M', 'ave', 'g'),
+        '\mroad\M', 'rd', 'g'),
+        '\mdrive\M', 'dr', 'g'),
+        '\mboulevard\M', 'blvd', 'g'),
+        '\mlane\M', 'ln', 'g'),
+        '\mhighway\M', 'hwy', 'g'),
+        '\msuite\M', 'ste', 'g'),
+        '\m(north|south|east|west)\M', '', 'g'),
+        '\m(n|s|e|w)\M', '', 'g') AS a
+  ) normalized;
+$func$;
+
+-- ------------------------------------------------------------
+-- Detection
+-- ------------------------------------------------------------
+
+-- Every pair of records that look like the same provider, one row
+-- per matching reason. A phone or address shared by more than
+-- five records is usually a franchise call center or an office
+-- building, so those are skipped. Business profiles linked to a
+-- listing (source_provider_id) are represented by the listing.
+CREATE OR REPLACE FUNCTION find_provider_duplicate_pairs()
+RETURNS TABLE (a TEXT, b TEXT, reason TEXT)
+LANGUAGE sql STABLE AS $func$
+  WITH records AS (
+    SELECT
+      'listing:' || p.provider_id AS key,
+      normalize_provider_name(p.provider_name) AS name,
+      normalize_provider_phone(p.phone) AS phone,
+      normalize_provider_address(p.address) AS address,
+      lower(trim(p.city)) AS city,
+      upper(trim(p.state)) AS state,
+      p.lat,
+      p.lon
+    FROM "olera-providers" p
+    WHERE p.deleted = FALSE
+    UNION ALL
+    SELECT
+      'profile:' || bp.id::TEXT,
+      normalize_provider_name(bp.display_name),
+      normalize_provider_phone(bp.phone),
+      normalize_provider_address(bp.address),
+      lower(trim(bp.city)),
+      upper(trim(bp.state)),
+      bp.lat,
+      bp.lng
+    FROM business_profiles bp
+    WHERE bp.is_active = TRUE
+      AND bp.type IN ('organization', 'caregiver')
+      AND bp.source_provider_id IS NULL
+  ),
+  shared_phones AS (
+    SELECT phone FROM records WHERE phone IS NOT NULL
+    GROUP BY phone HAVING count(*) BETWEEN 2 AND 5
+  ),
+  shared_addresses AS (
+    SELECT address, city, state FROM records
+    WHERE address IS NOT NULL AND city IS NOT NULL AND state IS NOT NULL
+    GROUP BY address, city, state HAVING count(*) BETWEEN 2 AND 5
+  )
+  SELECT r1.key, r2.key, 'phone'
+  FROM shared_phones s
+  JOIN records r1 ON r1.phone = s.phone
+  JOIN records r2 ON r2.phone = s.phone AND r1.key < r2.key
+  UNION ALL
+  SELECT r1.key, r2.key, 'address'
+  FROM shared_addresses s
+  JOIN records r1 ON (r1.address, r1.city, r1.state) = (s.address, s.city, s.state)
+  JOIN records r2 ON (r2.address, r2.city, r2.state) = (s.address, s.city, s.state) AND r1.key < r2.key
+  UNION ALL
+  SELECT r1.key, r2.key, 'name_nearby'
+  FROM records r1
+  JOIN records r2 ON r2.name = r1.name AND r2.state = r1.state AND r1.key < r2.key
+  WHERE r1.name IS NOT NULL
+    AND CASE
+      WHEN r1.lat IS NOT NULL AND r1.lon IS NOT NULL AND r2.lat IS NOT NULL AND r2.lon IS NOT NULL
+        THEN distance_miles(r1.lat, r1.lon, r2.lat, r2.lon) <= 1
+      ELSE r1.city = r2.city
+    END
+  ORDER BY 1, 2, 3;
+$func$;
+
+-- ------------------------------------------------------------
+-- Merge
+-- ------------------------------------------------------------
+
+-- Move connections (inquiries and saves), messages, appointments,
+-- reviews and questions from the duplicates to the survivor, then
+-- deactivate the duplicates. Runs in one transaction. A family
+-- that saved or reviewed several of the duplicates keeps one save
+-- and one review (the survivor's, else the latest).
+CREATE OR REPLACE FUNCTION merge_provider_profiles(p_survivor UUID, p_duplicates UUID[])
+RETURNS VOID AS $func$
+BEGIN
+  IF p_survivor = ANY(p_duplicates) THEN
+    RAISE EXCEPTION 'The survivor cannot also be a duplicate';
+  END IF;
+
+  UPDATE connections SET to_profile_id = p_survivor WHERE to_profile_id = ANY(p_duplicates);
+  UPDATE connections SET from_profile_id = p_survivor WHERE from_profile_id = ANY(p_duplicates);
+  DELETE FROM connections WHERE from_profile_id = p_survivor AND to_profile_id = p_survivor;
+
+  DELETE FROM connections c
+  USING connections k
+  WHERE c.type = 'save' AND k.type = 'save'
+    AND c.to_profile_id = p_survivor AND k.to_profile_id = p_survivor
+    AND c.from_profile_id = k.from_profile_id
+    AND (c.created_at, c.id) > (k.created_at, k.id);
+
+  UPDATE connection_messages SET sender_profile_id = p_survivor WHERE sender_profile_id = ANY(p_duplicates);
+  UPDATE connection_messages SET recipient_profile_id = p_survivor WHERE recipient_profile_id = ANY(p_duplicates);
+
+  UPDATE appointments SET provider_profile_id = p_survivor WHERE provider_profile_id = ANY(p_duplicates);
+  UPDATE appointments SET requested_by_profile_id = p_survivor WHERE requested_by_profile_id = ANY(p_duplicates);
+  UPDATE appointments SET canceled_by_profile_id = p_survivor WHERE canceled_by_profile_id = ANY(p_duplicates);
+  UPDATE availability_slots SET profile_id = p_survivor WHERE profile_id = ANY(p_duplicates);
+
+  DELETE FROM reviews r
+  USING reviews k
+  WHERE r.provider_profile_id = ANY(p_duplicates)
+    AND k.reviewer_profile_id = r.reviewer_profile_id
+    AND k.id <> r.id
+    AND (
+      k.provider_profile_id = p_survivor
+      OR (k.provider_profile_id = ANY(p_duplicates) AND (k.created_at, k.id) > (r.created_at, r.id))
+    );
+  UPDATE reviews SET provider_profile_id = p_survivor WHERE provider_profile_id = ANY(p_duplicates);
+
+  UPDATE provider_questions SET provider_profile_id = p_survivor WHERE provider_profile_id = ANY(p_duplicates);
+
+  UPDATE business_profiles SET is_active = FALSE WHERE id = ANY(p_duplicates);
+END;
+$func$ LANGUAGE plpgsql;
+
+-- Service role only
+REVOKE EXECUTE ON FUNCTION find_provider_duplicate_pairs() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION merge_provider_profiles(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_provider_duplicate_pairs() TO service_role;
+GRANT EXECUTE ON FUNCTION merge_provider_profiles(UUID, UUID[]) TO service_role;
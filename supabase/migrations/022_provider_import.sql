@@ -0,0 +1,36 @@
+-- ============================================================
+-- Provider Import
+-- Supports the bulk import at /admin/import: before rows are
+-- upserted into olera-providers, the preview warns about existing
+-- providers with the same phone number, or the same name in the
+-- same city, under a different provider_id.
+-- ============================================================
+
+-- Same normalization as duplicate detection (021)
+CREATE INDEX IF NOT EXISTS idx_olera_providers_phone_key
+  ON "olera-providers"(normalize_provider_phone(phone)) WHERE deleted = FALSE;
+CREATE INDEX IF NOT EXISTS idx_olera_providers_name_key
+  ON "olera-providers"((normalize_provider_name(provider_name) || '|' || lower(trim(city)) || '|' || upper(trim(state))))
+  WHERE deleted = FALSE;
+
+-- p_phones: last ten digits; p_name_keys: "<normalized name>|<city>|<STATE>"
+CREATE OR REPLACE FUNCTION find_matching_providers(p_phones TEXT[], p_name_keys TEXT[])
+RETURNS TABLE (provider_id TEXT, provider_name TEXT, phone_key TEXT, name_key TEXT)
+LANGUAGE sql STABLE AS $func$
+  SELECT p.provider_id::TEXT, p.provider_name, k.phone_key, k.name_key
+  FROM "olera-providers" p
+  CROSS JOIN LATERAL (
+    SELECT
+      normalize_provider_phone(p.phone) AS phone_key,
+      normalize_provider_name(p.provider_name) || '|' || lower(trim(p.city)) || '|' || upper(trim(p.state)) AS name_key
+  ) k
+  WHERE p.deleted = FALSE
+    AND (
+      normalize_provider_phone(p.phone) = ANY(p_phones)
+      OR normalize_provider_name(p.provider_name) || '|' || lower(trim(p.city)) || '|' || upper(trim(p.state)) = ANY(p_name_keys)
+    );
+$func$;
+
+-- Service role only
+REVOKE EXECUTE ON FUNCTION find_matching_providers(TEXT[], TEXT[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_matching_providers(TEXT[], TEXT[]) TO service_role;
@@ -0,0 +1,51 @@
+-- ============================================================
+-- Profile Photos
+-- Uploaded gallery and logo for provider profiles, replacing the
+-- hand-typed image_url. Files live in the public profile-photos
+-- bucket under <profile_id>/; thumbnails are rendered by Storage
+-- image transformations. Uploads, captions, ordering and deletes go
+-- through /api/profiles/[id]/photos and /api/profiles/[id]/logo.
+-- The first gallery photo is copied to image_url so cards and
+-- search results pick it up.
+-- ============================================================
+
+CREATE TABLE profile_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id UUID NOT NULL REFERENCES business_profiles(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE, -- object path in the profile-photos bucket
+  url TEXT NOT NULL,
+  thumbnail_url TEXT NOT NULL,
+  caption TEXT CHECK (char_length(caption) <= 200),
+  position INTEGER NOT NULL DEFAULT 0,
+  uploaded_by UUID REFERENCES accounts(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_profile_photos_profile ON profile_photos(profile_id, position);
+
+COMMENT ON TABLE profile_photos IS 'Uploaded gallery for a provider profile, in display order. Managed through /api/profiles/[id]/photos.';
+
+CREATE TRIGGER update_profile_photos_updated_at
+  BEFORE UPDATE ON profile_photos
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE profile_photos ENABLE ROW LEVEL SECURITY;
+
+-- Galleries are public on active profiles, like the profiles themselves
+CREATE POLICY "Anyone can view photos of active profiles" ON profile_photos
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM business_profiles p WHERE p.id = profile_id AND p.is_active = TRUE)
+  );
+
+CREATE POLICY "Service role can manage profile photos" ON profile_photos
+  FOR ALL USING ((auth.jwt() ->> 'role') = 'service_role');
+
+-- Logo, shown next to the name on the provider page
+ALTER TABLE business_profiles ADD COLUMN logo_url TEXT;
+
+-- Public bucket: objects are served straight from the CDN. Storage
+-- enforces the same size and type limits as the API as a backstop.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('profile-photos', 'profile-photos', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,235 @@
+-- ============================================================
+-- Provider Payment Options
+-- Which payment types a listing accepts (Medicaid, Medicare, VA
+-- benefits, long-term care / private insurance, private pay) as
+-- a filterable olera-providers column, with facet counts in the
+-- provider search functions from 007.
+--
+-- Seeded listings get their values from the admin import, and
+-- existing ones are backfilled from the business profile seeded for
+-- them. Once a claim on a listing is approved, the owner's profile is
+-- the source: metadata.payment_options, or the older accepts_medicaid /
+-- accepts_medicare flags, are copied onto the listing.
+-- ============================================================
+
+ALTER TABLE "olera-providers"
+  ADD COLUMN IF NOT EXISTS payment_options TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_olera_providers_payment_options
+  ON "olera-providers" USING GIN (payment_options) WHERE deleted = FALSE;
+
+-- Payment option ids from a business profile's metadata (see
+-- PAYMENT_OPTIONS in lib/provider-details.ts). Unknown ids and
+-- flags that aren't true/false are ignored. NULL when the profile
+-- doesn't say, so the listing keeps its seeded values.
+CREATE OR REPLACE FUNCTION metadata_payment_options(p_metadata JSONB)
+RETURNS TEXT[]
+LANGUAGE sql IMMUTABLE AS $func$
+  SELECT CASE
+    WHEN jsonb_typeof(p_metadata -> 'payment_options') = 'array' THEN
+      ARRAY(
+        SELECT o.option
+        FROM jsonb_array_elements_text(p_metadata -> 'payment_options') WITH ORDINALITY AS o(option, n)
+        WHERE o.option IN ('medicaid', 'medicare', 'va', 'ltc_insurance', 'private_insurance', 'private_pay')
+        GROUP BY o.option
+        ORDER BY min(o.n)
+      )
+    WHEN jsonb_typeof(p_metadata -> 'accepts_medicaid') = 'boolean'
+      OR jsonb_typeof(p_metadata -> 'accepts_medicare') = 'boolean' THEN
+      array_remove(ARRAY[
+        CASE WHEN p_metadata -> 'accepts_medicaid' = 'true'::JSONB THEN 'medicaid' END,
+        CASE WHEN p_metadata -> 'accepts_medicare' = 'true'::JSONB THEN 'medicare' END
+      ], NULL)
+  END;
+$func$;
+
+-- Copy the approved owner's payment options onto its listing: a
+-- claimed, active profile, and the only claimed one for that listing.
+-- Claims are approved by staff (020) and the link is set by staff
+-- (028), so an owner can't write to another provider's listing.
+-- SECURITY DEFINER so owners can update the listing they claimed.
+CREATE OR REPLACE FUNCTION sync_listing_payment_options()
+RETURNS TRIGGER AS $func$
+DECLARE
+  options TEXT[];
+BEGIN
+  IF NEW.claim_state <> 'claimed' OR NOT NEW.is_active OR NEW.source_provider_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM business_profiles
+    WHERE source_provider_id = NEW.source_provider_id
+      AND claim_state = 'claimed'
+      AND id <> NEW.id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  options := metadata_payment_options(NEW.metadata);
+  IF options IS NOT NULL THEN
+    UPDATE "olera-providers"
+    SET payment_options = options
+    WHERE provider_id::TEXT = NEW.source_provider_id
+      AND payment_options IS DISTINCT FROM options;
+  END IF;
+
+  RETURN NULL;
+END;
+$func$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER business_profiles_sync_payment_options
+  AFTER INSERT OR UPDATE OF metadata, claim_state, source_provider_id, is_active ON business_profiles
+  FOR EACH ROW EXECUTE FUNCTION sync_listing_payment_options();
+
+-- Backfill every listing from its linked profile: the approved owner
+-- when there is one, otherwise the profile seeded for it (unclaimed
+-- and never owned, so the values are the seed's). Pending and
+-- rejected claims haven't been approved and are skipped.
+UPDATE "olera-providers" p
+SET payment_options = src.options
+FROM (
+  SELECT DISTINCT ON (bp.source_provider_id)
+    bp.source_provider_id,
+    metadata_payment_options(bp.metadata) AS options
+  FROM business_profiles bp
+  WHERE bp.source_provider_id IS NOT NULL
+    AND metadata_payment_options(bp.metadata) IS NOT NULL
+    AND (
+      (bp.claim_state = 'claimed' AND bp.is_active)
+      OR (bp.claim_state = 'unclaimed' AND bp.account_id IS NULL)
+    )
+  ORDER BY bp.source_provider_id, (bp.claim_state = 'claimed') DESC, bp.created_at, bp.id
+) src
+WHERE src.source_provider_id = p.provider_id::TEXT;
+
+-- ------------------------------------------------------------
+-- Search: p_payment filter and a 'payment' facet
+-- ------------------------------------------------------------
+
+DROP FUNCTION IF EXISTS search_provider_facets(TEXT, TEXT, TEXT, TEXT, NUMERIC, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION);
+DROP FUNCTION IF EXISTS search_providers(TEXT, TEXT, TEXT, TEXT, NUMERIC, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INTEGER);
+DROP FUNCTION IF EXISTS filter_providers(TEXT, TEXT, TEXT, TEXT, NUMERIC, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION filter_providers(
+  p_category TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lon DOUBLE PRECISION DEFAULT NULL,
+  p_radius_miles DOUBLE PRECISION DEFAULT NULL,
+  p_payment TEXT DEFAULT NULL
+)
+RETURNS SETOF "olera-providers"
+LANGUAGE sql STABLE AS $func$
+  SELECT p.*
+  FROM "olera-providers" p
+  WHERE p.deleted = FALSE
+    AND (p_category IS NULL OR p.provider_category ILIKE '%' || p_category || '%')
+    AND (p_city IS NULL OR p.city ILIKE '%' || p_city || '%')
+    AND (p_state IS NULL OR p.state = p_state)
+    AND (p_query IS NULL
+      OR p.city ILIKE '%' || p_query || '%'
+      OR p.provider_name ILIKE '%' || p_query || '%')
+    AND (p_min_rating IS NULL OR p.google_rating >= p_min_rating)
+    AND (p_radius_miles IS NULL OR p_lat IS NULL OR p_lon IS NULL OR (
+      -- Bounding box first so the index can narrow rows before haversine
+      p.lat BETWEEN p_lat - p_radius_miles / 69.0 AND p_lat + p_radius_miles / 69.0
+      AND p.lon BETWEEN p_lon - p_radius_miles / (69.0 * GREATEST(cos(radians(p_lat)), 0.01))
+                    AND p_lon + p_radius_miles / (69.0 * GREATEST(cos(radians(p_lat)), 0.01))
+      AND distance_miles(p_lat, p_lon, p.lat, p.lon) <= p_radius_miles
+    ))
+    AND (p_payment IS NULL OR p.payment_options @> ARRAY[p_payment]);
+$func$;
+
+CREATE OR REPLACE FUNCTION search_providers(
+  p_category TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_sort TEXT DEFAULT 'recommended',
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lon DOUBLE PRECISION DEFAULT NULL,
+  p_radius_miles DOUBLE PRECISION DEFAULT NULL,
+  p_payment TEXT DEFAULT NULL,
+  p_after_key DOUBLE PRECISION DEFAULT NULL,
+  p_after_id TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+  provider_id TEXT,
+  sort_key DOUBLE PRECISION,
+  distance_miles DOUBLE PRECISION,
+  total_count BIGINT
+)
+LANGUAGE sql STABLE AS $func$
+  WITH filtered AS (
+    SELECT
+      f.provider_id::TEXT AS provider_id,
+      f.google_rating,
+      f.lower_price,
+      f.upper_price,
+      CASE
+        WHEN p_lat IS NOT NULL AND p_lon IS NOT NULL AND f.lat IS NOT NULL AND f.lon IS NOT NULL
+        THEN distance_miles(p_lat, p_lon, f.lat, f.lon)
+      END AS distance_miles
+    FROM filter_providers(
+      p_category, p_city, p_state, p_query, p_min_rating, p_lat, p_lon, p_radius_miles, p_payment
+    ) f
+  ),
+  keyed AS (
+    SELECT
+      filtered.provider_id,
+      filtered.distance_miles,
+      (CASE p_sort
+        WHEN 'price-low' THEN COALESCE(filtered.lower_price, filtered.upper_price, 1e12)
+        WHEN 'price-high' THEN -COALESCE(filtered.upper_price, filtered.lower_price, -1e12)
+        WHEN 'distance' THEN COALESCE(filtered.distance_miles, 1e12)
+        ELSE -COALESCE(filtered.google_rating, -1e12)
+      END)::DOUBLE PRECISION AS sort_key
+    FROM filtered
+  )
+  SELECT
+    k.provider_id,
+    k.sort_key,
+    k.distance_miles,
+    (SELECT count(*) FROM keyed) AS total_count
+  FROM keyed k
+  WHERE p_after_id IS NULL OR (k.sort_key, k.provider_id) > (p_after_key, p_after_id)
+  ORDER BY k.sort_key, k.provider_id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$func$;
+
+-- Each facet ignores its own filter, so the dropdowns show how many
+-- results picking another value would give.
+CREATE OR REPLACE FUNCTION search_provider_facets(
+  p_category TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lon DOUBLE PRECISION DEFAULT NULL,
+  p_radius_miles DOUBLE PRECISION DEFAULT NULL,
+  p_payment TEXT DEFAULT NULL
+)
+RETURNS TABLE (facet TEXT, value TEXT, count BIGINT)
+LANGUAGE sql STABLE AS $func$
+  SELECT 'category'::TEXT, f.provider_category::TEXT, count(*)
+  FROM filter_providers(NULL, p_city, p_state, p_query, p_min_rating, p_lat, p_lon, p_radius_miles, p_payment) f
+  WHERE f.provider_category IS NOT NULL
+  GROUP BY f.provider_category
+  UNION ALL
+  SELECT 'state'::TEXT, f.state::TEXT, count(*)
+  FROM filter_providers(p_category, NULL, NULL, p_query, p_min_rating, NULL, NULL, NULL, p_payment) f
+  WHERE f.state IS NOT NULL
+  GROUP BY f.state
+  UNION ALL
+  SELECT 'payment'::TEXT, o.option, count(*)
+  FROM filter_providers(p_category, p_city, p_state, p_query, p_min_rating, p_lat, p_lon, p_radius_miles) f
+  CROSS JOIN LATERAL unnest(f.payment_options) AS o(option)
+  GROUP BY o.option;
+$func$;
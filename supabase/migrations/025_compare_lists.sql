@@ -0,0 +1,14 @@
+-- ============================================================
+-- Compare Lists
+-- The providers a signed-in family has queued for side-by-side
+-- comparison at /compare, so the list follows them across
+-- devices. Signed-out visitors keep theirs in localStorage.
+-- ============================================================
+
+-- [{ "slug": "...", "name": "...", "image": "..." | null }], at most 4
+-- (MAX_COMPARE in lib/provider-compare.ts). Covered by the existing
+-- "Users can update own account" policy.
+ALTER TABLE accounts
+  ADD COLUMN IF NOT EXISTS compare_list JSONB NOT NULL DEFAULT '[]'
+  CONSTRAINT accounts_compare_list_check
+    CHECK (jsonb_typeof(compare_list) = 'array' AND jsonb_array_length(compare_list) <= 4);
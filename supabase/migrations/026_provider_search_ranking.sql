@@ -0,0 +1,77 @@
+-- ============================================================
+-- Provider Search Ranking
+-- "Recommended" gets its own order instead of falling through to
+-- the rating sort. Same signature as search_providers() in 024.
+--
+-- Recommended score: the Google rating (unrated listings count as
+-- 3.0 rather than sinking to the bottom), plus a nudge for listings
+-- a family can act on right away:
+--   +0.5  published pricing
+--   +0.25 photos or a logo
+--   +0.25 a phone number
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION search_providers(
+  p_category TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_sort TEXT DEFAULT 'recommended',
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lon DOUBLE PRECISION DEFAULT NULL,
+  p_radius_miles DOUBLE PRECISION DEFAULT NULL,
+  p_payment TEXT DEFAULT NULL,
+  p_after_key DOUBLE PRECISION DEFAULT NULL,
+  p_after_id TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+  provider_id TEXT,
+  sort_key DOUBLE PRECISION,
+  distance_miles DOUBLE PRECISION,
+  total_count BIGINT
+)
+LANGUAGE sql STABLE AS $func$
+  WITH filtered AS (
+    SELECT
+      f.provider_id::TEXT AS provider_id,
+      f.google_rating,
+      f.lower_price,
+      f.upper_price,
+      CASE
+        WHEN p_lat IS NOT NULL AND p_lon IS NOT NULL AND f.lat IS NOT NULL AND f.lon IS NOT NULL
+        THEN distance_miles(p_lat, p_lon, f.lat, f.lon)
+      END AS distance_miles,
+      COALESCE(f.google_rating, 3.0)
+        + CASE WHEN f.lower_price IS NOT NULL OR f.upper_price IS NOT NULL THEN 0.5 ELSE 0 END
+        + CASE WHEN f.provider_images IS NOT NULL OR f.provider_logo IS NOT NULL THEN 0.25 ELSE 0 END
+        + CASE WHEN f.phone IS NOT NULL THEN 0.25 ELSE 0 END
+        AS recommended_score
+    FROM filter_providers(
+      p_category, p_city, p_state, p_query, p_min_rating, p_lat, p_lon, p_radius_miles, p_payment
+    ) f
+  ),
+  keyed AS (
+    SELECT
+      filtered.provider_id,
+      filtered.distance_miles,
+      (CASE p_sort
+        WHEN 'rating' THEN -COALESCE(filtered.google_rating, -1e12)
+        WHEN 'price-low' THEN COALESCE(filtered.lower_price, filtered.upper_price, 1e12)
+        WHEN 'price-high' THEN -COALESCE(filtered.upper_price, filtered.lower_price, -1e12)
+        WHEN 'distance' THEN COALESCE(filtered.distance_miles, 1e12)
+        ELSE -filtered.recommended_score
+      END)::DOUBLE PRECISION AS sort_key
+    FROM filtered
+  )
+  SELECT
+    k.provider_id,
+    k.sort_key,
+    k.distance_miles,
+    (SELECT count(*) FROM keyed) AS total_count
+  FROM keyed k
+  WHERE p_after_id IS NULL OR (k.sort_key, k.provider_id) > (p_after_key, p_after_id)
+  ORDER BY k.sort_key, k.provider_id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$func$;
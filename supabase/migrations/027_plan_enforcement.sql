@@ -0,0 +1,202 @@
+-- ============================================================
+-- Plan Enforcement
+-- The plan matrix in lib/entitlements.ts, enforced where the
+-- browser could otherwise go around the API:
+--   locations           profiles per account, and per organization
+--   tour_scheduling     families can only book paid providers
+--   featured_placement  Pro and Enterprise listings rank first
+--                       in the recommended search order
+-- ============================================================
+
+-- The plan an account currently gets. Same rules as
+-- get_profile_plan() in 017 and getEffectivePlan().
+CREATE OR REPLACE FUNCTION get_account_plan(p_account_id UUID)
+RETURNS TEXT AS $func$
+  SELECT COALESCE(
+    (
+      SELECT CASE
+        WHEN m.status IN ('active', 'past_due') THEN m.plan
+        WHEN m.status = 'trialing' AND m.trial_ends_at > NOW() THEN 'pro'
+        ELSE 'free'
+      END
+      FROM memberships m
+      WHERE m.account_id = p_account_id
+    ),
+    'free'
+  );
+$func$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- PLANS[plan].limits.locations; NULL is unlimited
+CREATE OR REPLACE FUNCTION plan_location_limit(p_plan TEXT)
+RETURNS INTEGER
+LANGUAGE sql IMMUTABLE AS $func$
+  SELECT CASE p_plan
+    WHEN 'pro' THEN 3
+    WHEN 'enterprise' THEN NULL
+    ELSE 1
+  END;
+$func$;
+
+-- ------------------------------------------------------------
+-- Locations
+-- ------------------------------------------------------------
+
+-- Creating or claiming a provider profile from the browser counts
+-- against the account's limit. Grouping profiles under an
+-- organization (the locations API) counts against it too, with the
+-- organization locked so two requests can't both take the last slot.
+CREATE OR REPLACE FUNCTION check_location_limit()
+RETURNS TRIGGER AS $func$
+DECLARE
+  v_limit INTEGER;
+  v_count INTEGER;
+BEGIN
+  IF NEW.type NOT IN ('organization', 'caregiver') OR NEW.account_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_limit := plan_location_limit(get_account_plan(NEW.account_id));
+  IF v_limit IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.organization_id IS NOT NULL AND NEW.organization_id IS DISTINCT FROM (
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.organization_id ELSE NULL END
+  ) THEN
+    PERFORM 1 FROM organizations WHERE id = NEW.organization_id FOR UPDATE;
+
+    SELECT count(*) INTO v_count
+    FROM business_profiles
+    WHERE organization_id = NEW.organization_id AND id <> NEW.id;
+
+    IF v_count >= v_limit THEN
+      RAISE EXCEPTION 'Location limit reached for this plan';
+    END IF;
+  END IF;
+
+  IF NEW.account_id IS DISTINCT FROM (
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.account_id ELSE NULL END
+  ) AND (auth.jwt() ->> 'role') IS DISTINCT FROM 'service_role' THEN
+    SELECT count(*) INTO v_count
+    FROM business_profiles
+    WHERE account_id = NEW.account_id
+      AND type IN ('organization', 'caregiver')
+      AND id <> NEW.id;
+
+    IF v_count >= v_limit THEN
+      RAISE EXCEPTION 'Location limit reached for this plan';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$func$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER business_profiles_check_location_limit
+  BEFORE INSERT OR UPDATE OF account_id, organization_id ON business_profiles
+  FOR EACH ROW EXECUTE FUNCTION check_location_limit();
+
+-- ------------------------------------------------------------
+-- Tour scheduling
+-- ------------------------------------------------------------
+
+-- Families book from the provider page (InquiryButton hides booking
+-- for free providers). Reschedules go through the API.
+CREATE OR REPLACE FUNCTION check_tour_scheduling()
+RETURNS TRIGGER AS $func$
+BEGIN
+  IF (auth.jwt() ->> 'role') IS DISTINCT FROM 'service_role'
+    AND get_profile_plan(NEW.provider_profile_id) = 'free'
+  THEN
+    RAISE EXCEPTION 'This provider does not take bookings online';
+  END IF;
+
+  RETURN NEW;
+END;
+$func$ LANGUAGE plpgsql;
+
+CREATE TRIGGER appointments_check_tour_scheduling
+  BEFORE INSERT ON appointments
+  FOR EACH ROW EXECUTE FUNCTION check_tour_scheduling();
+
+-- ------------------------------------------------------------
+-- Featured placement
+-- ------------------------------------------------------------
+
+-- search_providers() from 026, with listings claimed by a Pro or
+-- Enterprise account (or a trial) ranked above the rest in the
+-- recommended order. Other sorts are unchanged.
+CREATE OR REPLACE FUNCTION search_providers(
+  p_category TEXT DEFAULT NULL,
+  p_city TEXT DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_query TEXT DEFAULT NULL,
+  p_min_rating NUMERIC DEFAULT NULL,
+  p_sort TEXT DEFAULT 'recommended',
+  p_lat DOUBLE PRECISION DEFAULT NULL,
+  p_lon DOUBLE PRECISION DEFAULT NULL,
+  p_radius_miles DOUBLE PRECISION DEFAULT NULL,
+  p_payment TEXT DEFAULT NULL,
+  p_after_key DOUBLE PRECISION DEFAULT NULL,
+  p_after_id TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 24
+)
+RETURNS TABLE (
+  provider_id TEXT,
+  sort_key DOUBLE PRECISION,
+  distance_miles DOUBLE PRECISION,
+  total_count BIGINT
+)
+LANGUAGE sql STABLE AS $func$
+  WITH featured AS (
+    SELECT DISTINCT bp.source_provider_id AS provider_id
+    FROM business_profiles bp
+    WHERE bp.claim_state = 'claimed'
+      AND bp.is_active = TRUE
+      AND bp.source_provider_id IS NOT NULL
+      AND get_profile_plan(bp.id) IN ('pro', 'enterprise')
+  ),
+  filtered AS (
+    SELECT
+      f.provider_id::TEXT AS provider_id,
+      f.google_rating,
+      f.lower_price,
+      f.upper_price,
+      CASE
+        WHEN p_lat IS NOT NULL AND p_lon IS NOT NULL AND f.lat IS NOT NULL AND f.lon IS NOT NULL
+        THEN distance_miles(p_lat, p_lon, f.lat, f.lon)
+      END AS distance_miles,
+      COALESCE(f.google_rating, 3.0)
+        + CASE WHEN f.lower_price IS NOT NULL OR f.upper_price IS NOT NULL THEN 0.5 ELSE 0 END
+        + CASE WHEN f.provider_images IS NOT NULL OR f.provider_logo IS NOT NULL THEN 0.25 ELSE 0 END
+        + CASE WHEN f.phone IS NOT NULL THEN 0.25 ELSE 0 END
+        -- Above the best possible unfeatured score (6)
+        + CASE WHEN f.provider_id::TEXT IN (SELECT provider_id FROM featured) THEN 10 ELSE 0 END
+        AS recommended_score
+    FROM filter_providers(
+      p_category, p_city, p_state, p_query, p_min_rating, p_lat, p_lon, p_radius_miles, p_payment
+    ) f
+  ),
+  keyed AS (
+    SELECT
+      filtered.provider_id,
+      filtered.distance_miles,
+      (CASE p_sort
+        WHEN 'rating' THEN -COALESCE(filtered.google_rating, -1e12)
+        WHEN 'price-low' THEN COALESCE(filtered.lower_price, filtered.upper_price, 1e12)
+        WHEN 'price-high' THEN -COALESCE(filtered.upper_price, filtered.lower_price, -1e12)
+        WHEN 'distance' THEN COALESCE(filtered.distance_miles, 1e12)
+        ELSE -filtered.recommended_score
+      END)::DOUBLE PRECISION AS sort_key
+    FROM filtered
+  )
+  SELECT
+    k.provider_id,
+    k.sort_key,
+    k.distance_miles,
+    (SELECT count(*) FROM keyed) AS total_count
+  FROM keyed k
+  WHERE p_after_id IS NULL OR (k.sort_key, k.provider_id) > (p_after_key, p_after_id)
+  ORDER BY k.sort_key, k.provider_id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$func$;
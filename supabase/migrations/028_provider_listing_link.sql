@@ -0,0 +1,52 @@
+-- ============================================================
+-- Provider Listing Link
+-- A business profile's source_provider_id says which seeded
+-- olera-providers listing it manages; provider pages, compare and
+-- search show the owner's edits on top of that listing. The link
+-- is set by the seed, the admin import and duplicate merges
+-- (service role), and it only takes effect once an admin approves
+-- the claim. Each listing has at most one approved owner.
+-- ============================================================
+
+-- Claimants can't point their profile at someone else's listing.
+-- A claimed profile's type is already fixed (016).
+CREATE OR REPLACE FUNCTION protect_source_provider()
+RETURNS TRIGGER AS $func$
+BEGIN
+  IF NEW.source_provider_id IS DISTINCT FROM (
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.source_provider_id ELSE NULL END
+  ) AND (auth.jwt() ->> 'role') IS DISTINCT FROM 'service_role' THEN
+    RAISE EXCEPTION 'source_provider_id is set by Olera staff';
+  END IF;
+
+  RETURN NEW;
+END;
+$func$ LANGUAGE plpgsql;
+
+CREATE TRIGGER business_profiles_protect_source_provider
+  BEFORE INSERT OR UPDATE OF source_provider_id ON business_profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_source_provider();
+
+-- Listings that already have more than one claimed profile keep the
+-- oldest active one; the others go back to review
+UPDATE business_profiles
+SET claim_state = 'pending'
+WHERE id IN (
+  SELECT id FROM (
+    SELECT
+      id,
+      row_number() OVER (
+        PARTITION BY source_provider_id
+        ORDER BY is_active DESC, created_at, id
+      ) AS n
+    FROM business_profiles
+    WHERE claim_state = 'claimed' AND source_provider_id IS NOT NULL
+  ) ranked
+  WHERE n > 1
+);
+
+-- One approved owner per listing. Approving a second claim fails
+-- with a unique violation (the admin API returns 409).
+CREATE UNIQUE INDEX idx_business_profiles_claimed_listing
+  ON business_profiles(source_provider_id)
+  WHERE claim_state = 'claimed' AND source_provider_id IS NOT NULL;
@@ -0,0 +1,103 @@
+-- ============================================================
+-- Atomic Duplicate Merge
+-- Merging a duplicate cluster (021) used to be several calls from
+-- /api/admin/duplicates/[id], so two admins resolving the same
+-- cluster could both pass the "still open" check, and a failure
+-- part way left records half merged. merge_duplicate_cluster()
+-- does the whole merge in one transaction with the cluster row
+-- locked.
+-- ============================================================
+
+-- Keep p_survivor (a member key) and fold the other records into
+-- it. The API resolves member keys to rows (loadDuplicateRecords)
+-- and passes:
+--   p_survivor_profile    the survivor's business profile, if any
+--   p_duplicate_profiles  business profiles of the records merged
+--   p_duplicate_listings  olera-providers ids of the listings merged
+--   p_merged              member keys of the records merged
+--
+-- A listing kept without a business profile of its own takes over
+-- the first duplicate's profile, so the engagement has somewhere
+-- to go.
+--
+-- Returns 'merged', 'missing' when the cluster or the survivor is
+-- gone, 'resolved' when the cluster was already merged or
+-- dismissed, and 'managed' when a record to merge now belongs to
+-- a provider account.
+CREATE OR REPLACE FUNCTION merge_duplicate_cluster(
+  p_cluster UUID,
+  p_survivor TEXT,
+  p_survivor_profile UUID,
+  p_duplicate_profiles UUID[],
+  p_duplicate_listings TEXT[],
+  p_merged TEXT[],
+  p_resolved_by UUID
+)
+RETURNS TEXT AS $func$
+DECLARE
+  c provider_duplicate_clusters%ROWTYPE;
+  v_survivor_profile UUID := p_survivor_profile;
+  v_duplicate_profiles UUID[] := COALESCE(p_duplicate_profiles, '{}');
+BEGIN
+  SELECT * INTO c FROM provider_duplicate_clusters WHERE id = p_cluster FOR UPDATE;
+
+  IF NOT FOUND OR NOT (p_survivor = ANY(c.members)) THEN
+    RETURN 'missing';
+  END IF;
+
+  IF c.status <> 'open' THEN
+    RETURN 'resolved';
+  END IF;
+
+  -- Claims and deactivations can land between the API's checks and
+  -- this call, so check again with the profiles locked
+  PERFORM 1 FROM business_profiles
+  WHERE id = v_survivor_profile OR id = ANY(v_duplicate_profiles)
+  ORDER BY id
+  FOR UPDATE;
+
+  IF v_survivor_profile IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM business_profiles WHERE id = v_survivor_profile AND is_active
+  ) THEN
+    RETURN 'missing';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM business_profiles
+    WHERE id = ANY(v_duplicate_profiles) AND account_id IS NOT NULL
+  ) THEN
+    RETURN 'managed';
+  END IF;
+
+  IF v_survivor_profile IS NULL AND cardinality(v_duplicate_profiles) > 0 THEN
+    v_survivor_profile := v_duplicate_profiles[1];
+    v_duplicate_profiles := v_duplicate_profiles[2:];
+
+    UPDATE business_profiles
+    SET source_provider_id = substr(p_survivor, length('listing:') + 1)
+    WHERE id = v_survivor_profile AND p_survivor LIKE 'listing:%';
+  END IF;
+
+  IF v_survivor_profile IS NOT NULL AND cardinality(v_duplicate_profiles) > 0 THEN
+    PERFORM merge_provider_profiles(v_survivor_profile, v_duplicate_profiles);
+  END IF;
+
+  UPDATE "olera-providers"
+  SET deleted = TRUE, deleted_at = NOW()
+  WHERE provider_id::TEXT = ANY(COALESCE(p_duplicate_listings, '{}'));
+
+  UPDATE provider_duplicate_clusters
+  SET status = 'merged', survivor = p_survivor, resolved_by = p_resolved_by, resolved_at = NOW()
+  WHERE id = p_cluster;
+
+  -- Other open clusters with the merged records are out of date
+  DELETE FROM provider_duplicate_clusters
+  WHERE status = 'open' AND members && COALESCE(p_merged, '{}');
+
+  RETURN 'merged';
+END;
+$func$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Service role only
+REVOKE EXECUTE ON FUNCTION merge_duplicate_cluster(UUID, TEXT, UUID, UUID[], TEXT[], TEXT[], UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION merge_duplicate_cluster(UUID, TEXT, UUID, UUID[], TEXT[], TEXT[], UUID) TO service_role;
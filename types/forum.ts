@@ -20,6 +20,7 @@ export interface ForumAuthor {
   avatar?: string;
   isAnonymous: boolean;
   role: AuthorRole;
+  credential?: string; // Set for verified experts, e.g. "RN"
   joinedDate: string;
   postCount: number;
 }
@@ -40,6 +41,7 @@ export interface ForumPost {
   viewCount: number;
   isPinned: boolean;
   isLocked: boolean;
+  hasAcceptedAnswer: boolean;
 }
 
 export interface ForumComment {
@@ -108,6 +110,13 @@ export const CARE_TYPE_CONFIG: Record<
   },
 };
 
+export const SORT_OPTION_LABELS: Record<SortOption, string> = {
+  recent: "Most Recent",
+  popular: "Most Liked",
+  unanswered: "Unanswered",
+  "most-discussed": "Most Discussed",
+};
+
 // Helper to get all care type IDs
 export const ALL_CARE_TYPES: CareTypeId[] = [
   "home-health",